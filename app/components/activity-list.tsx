@@ -0,0 +1,63 @@
+import {
+  Archive,
+  CalendarClock,
+  CalendarX,
+  CheckCircle,
+  EyeOff,
+  History,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { getRelativeTime } from '~/lib/utils'
+import type { ActivityAction, ActivityItem } from '~/lib/activity'
+
+const ACTIVITY_ICONS: Record<ActivityAction, React.ReactNode> = {
+  created: <Plus className='h-5 w-5 text-green-500' />,
+  updated: <Pencil className='h-5 w-5 text-blue-500' />,
+  published: <CheckCircle className='h-5 w-5 text-green-500' />,
+  unpublished: <EyeOff className='h-5 w-5 text-gray-500' />,
+  scheduled: <CalendarClock className='h-5 w-5 text-blue-500' />,
+  unscheduled: <CalendarX className='h-5 w-5 text-gray-500' />,
+  archived: <Archive className='h-5 w-5 text-gray-500' />,
+  restored: <History className='h-5 w-5 text-purple-500' />,
+  deleted: <Trash2 className='h-5 w-5 text-red-500' />,
+}
+
+interface ActivityListProps {
+  activities: ActivityItem[]
+}
+
+/**
+ * Activity stream items, newest first, with the time of each change relative to now
+ */
+export function ActivityList({ activities }: ActivityListProps) {
+  return (
+    <div className='flow-root'>
+      <ul className='-my-5 divide-y divide-border'>
+        {activities.map(activity => (
+          <li key={activity.id} className='py-4'>
+            <div className='flex items-center space-x-4'>
+              <div className='flex-shrink-0' aria-hidden='true'>
+                {ACTIVITY_ICONS[activity.action] ?? ACTIVITY_ICONS.updated}
+              </div>
+              <div className='flex-1 min-w-0'>
+                <p className='text-sm font-medium truncate' title={activity.summary}>
+                  {activity.summary}
+                </p>
+                <p className='text-sm text-muted-foreground'>
+                  <time
+                    dateTime={activity.createdAt}
+                    title={new Date(activity.createdAt).toLocaleString()}
+                  >
+                    {getRelativeTime(activity.createdAt)}
+                  </time>
+                </p>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+/**
+ * Interactive API reference rendered from /api/openapi.json
+ * Lists every operation by tag and sends test requests from the browser.
+ */
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { ChevronDown, ChevronRight, Download, Send } from 'lucide-react'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import type { OpenApiDocument, OpenApiOperation } from '~/server/openapi'
+
+const OPENAPI_URL = '/api/openapi.json'
+
+type Parameter = {
+  name: string
+  in: 'path' | 'query'
+  required?: boolean
+  description?: string
+  schema?: { type?: string; default?: unknown; enum?: string[] }
+}
+
+type Operation = OpenApiOperation & { method: string; path: string }
+
+type TryResult = { status: number; duration: number; body: string }
+
+const METHOD_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  get: 'secondary',
+  post: 'default',
+  put: 'outline',
+  delete: 'destructive',
+}
+
+async function fetchOpenApiDocument(): Promise<OpenApiDocument> {
+  const response = await fetch(OPENAPI_URL)
+  if (!response.ok) {
+    throw new Error(`Failed to load the API description (${response.status})`)
+  }
+  return response.json()
+}
+
+/**
+ * Operations grouped by their first tag, in document tag order
+ */
+function groupOperations(document: OpenApiDocument): [string, Operation[]][] {
+  const groups = new Map<string, Operation[]>(document.tags.map(tag => [tag.name, []]))
+
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations)) {
+      const tag = operation.tags[0] ?? 'Other'
+      groups.set(tag, [...(groups.get(tag) ?? []), { ...operation, method, path }])
+    }
+  }
+
+  return [...groups.entries()].filter(([, operations]) => operations.length > 0)
+}
+
+/**
+ * Request body schema with its top-level reference resolved, for display
+ */
+function getBodySchema(document: OpenApiDocument, operation: Operation): unknown {
+  const content = operation.requestBody?.content as
+    | Record<string, { schema?: { $ref?: string } }>
+    | undefined
+  const schema = content && Object.values(content)[0]?.schema
+  const name = schema?.$ref?.split('/').pop()
+  return name ? document.components.schemas[name] : schema
+}
+
+export function ApiDocs() {
+  const {
+    data: document,
+    error,
+    isLoading,
+  } = useQuery({
+    queryKey: ['openapi'],
+    queryFn: fetchOpenApiDocument,
+  })
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  if (isLoading) {
+    return <p className='text-sm text-muted-foreground'>Loading API description...</p>
+  }
+  if (error || !document) {
+    return (
+      <p className='text-sm text-destructive'>
+        {error instanceof Error ? error.message : 'API description unavailable'}
+      </p>
+    )
+  }
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex items-center justify-between'>
+        <p className='text-sm text-muted-foreground'>
+          OpenAPI {document.openapi} &middot; {document.info.title} {document.info.version}
+        </p>
+        <Button variant='outline' size='sm' asChild>
+          <a href={OPENAPI_URL} download='openapi.json'>
+            <Download className='mr-2 h-4 w-4' />
+            openapi.json
+          </a>
+        </Button>
+      </div>
+
+      {groupOperations(document).map(([tag, operations]) => (
+        <div key={tag} className='space-y-2'>
+          <h3 className='font-medium'>{tag}</h3>
+          {operations.map(operation => {
+            const key = `${operation.method} ${operation.path}`
+            const isExpanded = expanded === key
+            return (
+              <div key={key} className='border rounded-lg'>
+                <button
+                  type='button'
+                  className='flex w-full items-center gap-3 p-3 text-left hover:bg-accent'
+                  onClick={() => setExpanded(isExpanded ? null : key)}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className='h-4 w-4 shrink-0' />
+                  ) : (
+                    <ChevronRight className='h-4 w-4 shrink-0' />
+                  )}
+                  <Badge
+                    variant={METHOD_VARIANTS[operation.method]}
+                    className='w-16 justify-center'
+                  >
+                    {operation.method.toUpperCase()}
+                  </Badge>
+                  <code className='text-sm'>{operation.path}</code>
+                  <span className='text-sm text-muted-foreground truncate'>
+                    {operation.summary}
+                  </span>
+                </button>
+                {isExpanded && <OperationPanel document={document} operation={operation} />}
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function OperationPanel({
+  document,
+  operation,
+}: {
+  document: OpenApiDocument
+  operation: Operation
+}) {
+  const parameters = (operation.parameters ?? []) as Parameter[]
+  const bodySchema = getBodySchema(document, operation)
+  const isJsonBody = !!(operation.requestBody?.content as Record<string, unknown> | undefined)?.[
+    'application/json'
+  ]
+
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [body, setBody] = useState(isJsonBody ? '{}' : '')
+  const [apiKey, setApiKey] = useState('')
+  const [result, setResult] = useState<TryResult | null>(null)
+  const [isSending, setIsSending] = useState(false)
+
+  const send = async () => {
+    let path = operation.path
+    const search = new URLSearchParams()
+    for (const parameter of parameters) {
+      const value = values[parameter.name]
+      if (!value) continue
+      if (parameter.in === 'path') {
+        path = path.replace(`{${parameter.name}}`, encodeURIComponent(value))
+      } else {
+        search.set(parameter.name, value)
+      }
+    }
+
+    const query = search.toString()
+    const started = performance.now()
+    setIsSending(true)
+    try {
+      const response = await fetch(query ? `${path}?${query}` : path, {
+        method: operation.method.toUpperCase(),
+        headers: {
+          ...(isJsonBody ? { 'Content-Type': 'application/json' } : {}),
+          ...(apiKey ? { 'X-API-Key': apiKey } : {}),
+        },
+        body: isJsonBody ? body : undefined,
+      })
+      const text = await response.text()
+      let formatted = text
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2)
+      } catch {
+        // Not JSON; show the raw body
+      }
+      setResult({
+        status: response.status,
+        duration: Math.round(performance.now() - started),
+        body: formatted,
+      })
+    } catch (error) {
+      setResult({
+        status: 0,
+        duration: Math.round(performance.now() - started),
+        body: error instanceof Error ? error.message : 'Request failed',
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className='border-t p-4 space-y-4'>
+      {operation.description && <p className='text-sm'>{operation.description}</p>}
+      <p className='text-xs text-muted-foreground'>
+        Operation ID: <code>{operation.operationId}</code>
+      </p>
+
+      {parameters.length > 0 && (
+        <div className='grid gap-3 sm:grid-cols-2'>
+          {parameters.map(parameter => (
+            <div key={`${parameter.in}-${parameter.name}`} className='space-y-1'>
+              <Label htmlFor={`param-${parameter.name}`}>
+                {parameter.name}
+                {parameter.required && <span className='text-destructive'> *</span>}
+                <span className='ml-2 text-xs text-muted-foreground'>{parameter.in}</span>
+              </Label>
+              <Input
+                id={`param-${parameter.name}`}
+                value={values[parameter.name] ?? ''}
+                onChange={e => setValues({ ...values, [parameter.name]: e.target.value })}
+                placeholder={
+                  parameter.schema?.enum?.join(' | ') ??
+                  (parameter.schema?.default !== undefined
+                    ? String(parameter.schema.default)
+                    : parameter.schema?.type)
+                }
+              />
+              {parameter.description && (
+                <p className='text-xs text-muted-foreground'>{parameter.description}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isJsonBody && (
+        <div className='grid gap-3 lg:grid-cols-2'>
+          <div className='space-y-1'>
+            <Label htmlFor='request-body'>Request body</Label>
+            <Textarea
+              id='request-body'
+              value={body}
+              onChange={e => setBody(e.target.value)}
+              className='font-mono text-xs min-h-[160px]'
+            />
+          </div>
+          <div className='space-y-1'>
+            <Label>Schema</Label>
+            <pre className='text-xs bg-muted rounded-md p-3 overflow-auto max-h-64'>
+              {JSON.stringify(bodySchema, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+
+      {operation.requestBody && !isJsonBody && (
+        <p className='text-sm text-muted-foreground'>
+          This operation takes a file upload and cannot be tried from here.
+        </p>
+      )}
+
+      <div className='flex items-end gap-3'>
+        <div className='space-y-1'>
+          <Label htmlFor='try-api-key'>API key</Label>
+          <Input
+            id='try-api-key'
+            value={apiKey}
+            onChange={e => setApiKey(e.target.value)}
+            placeholder='Sent as the X-API-Key header'
+            className='w-64'
+          />
+        </div>
+        <Button onClick={send} disabled={isSending || (!!operation.requestBody && !isJsonBody)}>
+          <Send className='mr-2 h-4 w-4' />
+          {isSending ? 'Sending...' : 'Send request'}
+        </Button>
+      </div>
+
+      {result && (
+        <div className='space-y-1'>
+          <p className='text-sm'>
+            <Badge
+              variant={result.status >= 200 && result.status < 300 ? 'secondary' : 'destructive'}
+            >
+              {result.status || 'Network error'}
+            </Badge>
+            <span className='ml-2 text-muted-foreground'>{result.duration}ms</span>
+          </p>
+          <pre className='text-xs bg-muted rounded-md p-3 overflow-auto max-h-96'>
+            {result.body}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
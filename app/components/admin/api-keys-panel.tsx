@@ -0,0 +1,318 @@
+/**
+ * API key management for the API Manager
+ * Creates scoped keys, shows each new or rotated key once and revokes keys.
+ */
+
+import { useState } from 'react'
+import { AlertTriangle, Check, Copy, Key, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { ConfirmationDialog } from '~/components/ui/confirmation-dialog'
+import { apiKeyApi, useApiKeyMutation, useApiKeys } from '~/lib/api-key-data'
+import {
+  ALL_CONTENT_TYPES,
+  getApiKeyStatus,
+  parseApiKeyScope,
+  type ApiKeyAccess,
+  type ApiKeyInfo,
+  type ApiKeyScope,
+  type ApiKeyStatus,
+  type CreatedApiKey,
+} from '~/lib/api-keys'
+import type { ContentType } from '~/lib/content-types'
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: 0 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+]
+
+const STATUS_VARIANTS: Record<ApiKeyStatus, 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive',
+}
+
+type ScopeSelection = Record<string, ApiKeyAccess | ''>
+
+type PendingAction = { type: 'rotate' | 'revoke'; apiKey: ApiKeyInfo }
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString() : 'Never'
+}
+
+function toScopes(selection: ScopeSelection): ApiKeyScope[] {
+  return Object.entries(selection)
+    .filter(([, access]) => access)
+    .map(([contentType, access]) => `${contentType}:${access}` as ApiKeyScope)
+}
+
+function describeScope(scope: ApiKeyScope, contentTypes: ContentType[]): string {
+  const { contentType, access } = parseApiKeyScope(scope)
+  const name =
+    contentType === ALL_CONTENT_TYPES
+      ? 'All content types'
+      : (contentTypes.find(type => type.slug === contentType)?.displayName ?? contentType)
+  return `${name}: ${access}`
+}
+
+function RevealedKey({ created, onDone }: { created: CreatedApiKey; onDone: () => void }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(created.key)
+    setCopied(true)
+  }
+
+  return (
+    <div className='mb-4 p-4 border border-yellow-300 rounded-lg bg-yellow-50 space-y-3'>
+      <div className='flex items-start'>
+        <AlertTriangle className='mr-2 h-5 w-5 text-yellow-600 flex-shrink-0' />
+        <div>
+          <h4 className='font-medium'>Copy the key for “{created.apiKey.name}” now</h4>
+          <p className='text-sm text-muted-foreground'>
+            Only a hash of the key is stored, so it cannot be shown again. Send it in the{' '}
+            <code>X-API-Key</code> header.
+          </p>
+        </div>
+      </div>
+      <div className='flex items-center space-x-2'>
+        <code className='flex-1 text-sm bg-background border px-2 py-2 rounded break-all'>
+          {created.key}
+        </code>
+        <Button variant='outline' size='sm' onClick={copy}>
+          {copied ? <Check className='h-4 w-4' /> : <Copy className='h-4 w-4' />}
+        </Button>
+        <Button size='sm' onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function ApiKeysPanel({ contentTypes }: { contentTypes: ContentType[] }) {
+  const { data: apiKeys = [], isLoading } = useApiKeys()
+  const createApiKey = useApiKeyMutation(apiKeyApi.createApiKey)
+  const rotateApiKey = useApiKeyMutation(apiKeyApi.rotateApiKey)
+  const revokeApiKey = useApiKeyMutation(apiKeyApi.revokeApiKey)
+
+  const [showNewKeyForm, setShowNewKeyForm] = useState(false)
+  const [newKeyName, setNewKeyName] = useState('')
+  const [expiryDays, setExpiryDays] = useState(0)
+  const [scopes, setScopes] = useState<ScopeSelection>({})
+  const [revealed, setRevealed] = useState<CreatedApiKey | null>(null)
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const resetForm = () => {
+    setShowNewKeyForm(false)
+    setNewKeyName('')
+    setExpiryDays(0)
+    setScopes({})
+  }
+
+  const handleCreate = async () => {
+    setError(null)
+    try {
+      const created = await createApiKey.mutateAsync({
+        name: newKeyName,
+        scopes: toScopes(scopes),
+        expiresAt: expiryDays ? new Date(Date.now() + expiryDays * 86_400_000) : null,
+      })
+      setRevealed(created)
+      resetForm()
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create API key')
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return
+    setError(null)
+    try {
+      if (pendingAction.type === 'rotate') {
+        setRevealed(await rotateApiKey.mutateAsync(pendingAction.apiKey.id))
+      } else {
+        await revokeApiKey.mutateAsync(pendingAction.apiKey.id)
+      }
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Failed to update API key')
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const scopeRows = [
+    { slug: ALL_CONTENT_TYPES, displayName: 'All content types' },
+    ...contentTypes.map(({ slug, displayName }) => ({ slug, displayName })),
+  ]
+
+  return (
+    <div>
+      <div className='flex items-center justify-between mb-4'>
+        <p className='text-sm text-muted-foreground'>
+          Keys are required when the server runs with <code>REQUIRE_API_KEY=true</code> or in
+          production without <code>REQUIRE_API_KEY=false</code>. Each key grants read or write
+          access per content type.
+        </p>
+        <Button onClick={() => setShowNewKeyForm(true)} size='sm' className='flex items-center'>
+          <Plus className='mr-1 h-4 w-4' />
+          New Key
+        </Button>
+      </div>
+
+      {error && <p className='mb-4 text-sm text-destructive'>{error}</p>}
+
+      {revealed && <RevealedKey created={revealed} onDone={() => setRevealed(null)} />}
+
+      {showNewKeyForm && (
+        <div className='mb-4 p-4 border rounded-lg bg-muted/50 space-y-4'>
+          <h4 className='font-medium'>Create New API Key</h4>
+          <div className='grid gap-3 sm:grid-cols-2'>
+            <div className='space-y-1'>
+              <Label htmlFor='api-key-name'>Name</Label>
+              <Input
+                id='api-key-name'
+                placeholder='Key name (e.g., Production App)'
+                value={newKeyName}
+                onChange={e => setNewKeyName(e.target.value)}
+              />
+            </div>
+            <div className='space-y-1'>
+              <Label htmlFor='api-key-expiry'>Expires</Label>
+              <select
+                id='api-key-expiry'
+                value={expiryDays}
+                onChange={e => setExpiryDays(Number(e.target.value))}
+                className={SELECT_CLASS_NAME}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className='space-y-2'>
+            <Label>Scopes</Label>
+            {scopeRows.map(row => (
+              <div key={row.slug} className='flex items-center justify-between gap-4'>
+                <span className='text-sm'>{row.displayName}</span>
+                <select
+                  aria-label={`${row.displayName} access`}
+                  value={scopes[row.slug] ?? ''}
+                  onChange={e =>
+                    setScopes({ ...scopes, [row.slug]: e.target.value as ApiKeyAccess | '' })
+                  }
+                  className={`${SELECT_CLASS_NAME} w-32`}
+                >
+                  <option value=''>None</option>
+                  <option value='read'>Read</option>
+                  <option value='write'>Write</option>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className='flex items-center space-x-2'>
+            <Button
+              onClick={handleCreate}
+              disabled={
+                !newKeyName.trim() || toScopes(scopes).length === 0 || createApiKey.isPending
+              }
+            >
+              {createApiKey.isPending ? 'Generating...' : 'Generate'}
+            </Button>
+            <Button variant='outline' onClick={resetForm}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className='space-y-3'>
+        {apiKeys.map(apiKey => {
+          const status = getApiKeyStatus(apiKey)
+          return (
+            <div
+              key={apiKey.id}
+              className='flex items-center justify-between p-3 border rounded-lg'
+            >
+              <div className='flex-1'>
+                <div className='flex items-center space-x-2'>
+                  <h4 className='font-medium'>{apiKey.name}</h4>
+                  <Badge variant={STATUS_VARIANTS[status]} className='capitalize'>
+                    {status}
+                  </Badge>
+                </div>
+                <div className='flex flex-wrap items-center gap-2 mt-1'>
+                  <code className='text-sm bg-muted px-2 py-1 rounded'>{apiKey.prefix}_…</code>
+                  {apiKey.scopes.map(scope => (
+                    <Badge key={scope} variant='outline' className='text-xs'>
+                      {describeScope(scope, contentTypes)}
+                    </Badge>
+                  ))}
+                </div>
+                <p className='text-sm text-muted-foreground mt-1'>
+                  Created: {formatDate(apiKey.createdAt)} • Last used:{' '}
+                  {formatDate(apiKey.lastUsedAt)} • Expires: {formatDate(apiKey.expiresAt)}
+                  {apiKey.revokedAt && ` • Revoked: ${formatDate(apiKey.revokedAt)}`}
+                </p>
+              </div>
+              {!apiKey.revokedAt && (
+                <div className='flex items-center space-x-2'>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => setPendingAction({ type: 'rotate', apiKey })}
+                  >
+                    <RefreshCw className='mr-1 h-4 w-4' />
+                    Rotate
+                  </Button>
+                  <Button
+                    variant='destructive'
+                    size='sm'
+                    onClick={() => setPendingAction({ type: 'revoke', apiKey })}
+                  >
+                    <Trash2 className='h-4 w-4' />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {!isLoading && apiKeys.length === 0 && (
+        <div className='text-center py-8 text-muted-foreground'>
+          <Key className='mx-auto h-12 w-12 mb-4 opacity-50' />
+          <p>No API keys yet</p>
+        </div>
+      )}
+
+      <ConfirmationDialog
+        isOpen={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirm}
+        title={pendingAction?.type === 'rotate' ? 'Rotate API key' : 'Revoke API key'}
+        description={
+          pendingAction?.type === 'rotate'
+            ? `A new key replaces “${pendingAction.apiKey.name}”. The current key stops working immediately.`
+            : `Requests using “${pendingAction?.apiKey.name}” will be rejected. This cannot be undone.`
+        }
+        confirmLabel={pendingAction?.type === 'rotate' ? 'Rotate' : 'Revoke'}
+        variant={pendingAction?.type === 'rotate' ? 'warning' : 'danger'}
+        isLoading={rotateApiKey.isPending || revokeApiKey.isPending}
+      />
+    </div>
+  )
+}
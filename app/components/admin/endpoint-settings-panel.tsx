@@ -0,0 +1,214 @@
+/**
+ * Per content type endpoint settings for the API Manager
+ * Enables or disables each REST operation and sets who may call it; changes are saved at once.
+ */
+
+import { useState } from 'react'
+import { Database, Link } from 'lucide-react'
+import { Badge } from '~/components/ui/badge'
+import { Switch } from '~/components/ui/switch'
+import { contentApi, useContentMutation } from '~/lib/content-data'
+import {
+  ENDPOINT_OPERATIONS,
+  isUserRole,
+  USER_ROLES,
+  type EndpointOperation,
+  type EndpointSetting,
+  type EndpointSettings,
+} from '~/lib/endpoint-settings'
+import { useRoles } from '~/lib/role-data'
+import type { ContentType } from '~/lib/content-types'
+
+const SELECT_CLASS_NAME =
+  'flex h-8 w-full rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+const OPERATION_METHODS: Record<EndpointOperation, string> = {
+  list: 'GET',
+  get: 'GET',
+  create: 'POST',
+  update: 'PUT',
+  delete: 'DELETE',
+}
+
+const ACCESS_OPTIONS = [
+  { value: '', label: 'Server default' },
+  { value: 'public', label: 'Public' },
+  { value: 'authenticated', label: 'Authenticated' },
+  ...USER_ROLES.map(role => ({ value: `role:${role}`, label: `Role: ${role} or above` })),
+]
+
+/**
+ * Access options with the custom roles, and the stored role of a setting if it no longer exists
+ */
+function getAccessOptions(customRoles: string[], setting: EndpointSetting) {
+  const names = [...customRoles]
+  const role = setting.access === 'role' ? setting.role : undefined
+  if (role && !isUserRole(role) && !names.includes(role)) {
+    names.push(role)
+  }
+  return [
+    ...ACCESS_OPTIONS,
+    ...names.map(name => ({ value: `role:${name}`, label: `Role: ${name}` })),
+  ]
+}
+
+function getEndpointUrl(slug: string, operation: EndpointOperation): string {
+  return operation === 'list' || operation === 'create' ? `/api/${slug}` : `/api/${slug}/:id`
+}
+
+function toAccessValue(setting: EndpointSetting): string {
+  return setting.access === 'role' ? `role:${setting.role}` : (setting.access ?? '')
+}
+
+function fromAccessValue(value: string): Pick<EndpointSetting, 'access' | 'role'> {
+  if (value.startsWith('role:')) {
+    return { access: 'role', role: value.slice('role:'.length) }
+  }
+  return { access: (value || undefined) as EndpointSetting['access'], role: undefined }
+}
+
+export function EndpointSettingsPanel({ contentTypes }: { contentTypes: ContentType[] }) {
+  const updateEndpointSettings = useContentMutation(
+    ({ id, settings }: { id: string; settings: EndpointSettings }) =>
+      contentApi.updateEndpointSettings(id, settings)
+  )
+  const { data: roles = [] } = useRoles()
+  const customRoles = roles.map(role => role.name)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async (contentType: ContentType, settings: EndpointSettings) => {
+    setError(null)
+    try {
+      await updateEndpointSettings.mutateAsync({ id: contentType.id, settings })
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save endpoint settings')
+    }
+  }
+
+  const updateOperation = (
+    contentType: ContentType,
+    operation: EndpointOperation,
+    changes: Partial<EndpointSetting>
+  ) =>
+    save(contentType, {
+      ...contentType.apiSettings,
+      [operation]: { ...contentType.apiSettings[operation], ...changes },
+    })
+
+  const setAllEnabled = (contentType: ContentType, enabled: boolean) =>
+    save(
+      contentType,
+      Object.fromEntries(
+        ENDPOINT_OPERATIONS.map(operation => [
+          operation,
+          { ...contentType.apiSettings[operation], enabled },
+        ])
+      ) as EndpointSettings
+    )
+
+  return (
+    <div className='space-y-6'>
+      <p className='text-sm text-muted-foreground'>
+        Choose which operations each content type exposes and who may call them. With the server
+        default, create, update and delete always need an API key or signed-in user; list and get
+        need one when the server runs with <code>REQUIRE_API_KEY=true</code> or in production
+        without <code>REQUIRE_API_KEY=false</code>, and are open to anyone otherwise.
+      </p>
+
+      {error && <p className='text-sm text-destructive'>{error}</p>}
+
+      <div className='space-y-4'>
+        {contentTypes.map(contentType => {
+          const settings = contentType.apiSettings
+          const anyEnabled = ENDPOINT_OPERATIONS.some(operation => settings[operation].enabled)
+
+          return (
+            <div key={contentType.id} className='border rounded-lg p-4'>
+              <div className='flex items-center justify-between mb-4'>
+                <div>
+                  <h4 className='font-medium text-lg'>{contentType.displayName}</h4>
+                  <p className='text-sm text-muted-foreground'>
+                    {contentType.description ||
+                      `API endpoints for ${contentType.displayName.toLowerCase()}`}
+                  </p>
+                  <span className='text-sm text-muted-foreground'>
+                    Slug: <code className='bg-muted px-1 rounded'>{contentType.slug}</code>
+                  </span>
+                </div>
+                <div className='flex items-center space-x-2'>
+                  <Badge variant={anyEnabled ? 'default' : 'secondary'}>
+                    {anyEnabled ? 'Enabled' : 'Disabled'}
+                  </Badge>
+                  <Switch
+                    checked={anyEnabled}
+                    disabled={updateEndpointSettings.isPending}
+                    onCheckedChange={enabled => setAllEnabled(contentType, enabled)}
+                  />
+                </div>
+              </div>
+
+              <h5 className='font-medium text-sm text-muted-foreground mb-2 flex items-center'>
+                <Link className='mr-1 h-4 w-4' />
+                Endpoints
+              </h5>
+              <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3'>
+                {ENDPOINT_OPERATIONS.map(operation => {
+                  const setting = settings[operation]
+                  return (
+                    <div key={operation} className='border rounded p-3 bg-muted/20 space-y-2'>
+                      <div className='flex items-center justify-between'>
+                        <div className='flex items-center space-x-2'>
+                          <Badge variant='outline' className='text-xs'>
+                            {OPERATION_METHODS[operation]}
+                          </Badge>
+                          <span className='font-medium text-sm capitalize'>{operation}</span>
+                        </div>
+                        <Switch
+                          checked={setting.enabled}
+                          disabled={updateEndpointSettings.isPending}
+                          onCheckedChange={enabled =>
+                            updateOperation(contentType, operation, { enabled })
+                          }
+                        />
+                      </div>
+                      <code className='text-xs bg-background px-2 py-1 rounded block'>
+                        {getEndpointUrl(contentType.slug, operation)}
+                      </code>
+                      <select
+                        aria-label={`${contentType.displayName} ${operation} access`}
+                        value={toAccessValue(setting)}
+                        disabled={!setting.enabled || updateEndpointSettings.isPending}
+                        onChange={event =>
+                          updateOperation(
+                            contentType,
+                            operation,
+                            fromAccessValue(event.target.value)
+                          )
+                        }
+                        className={SELECT_CLASS_NAME}
+                      >
+                        {getAccessOptions(customRoles, setting).map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {contentTypes.length === 0 && (
+        <div className='text-center py-8 text-muted-foreground'>
+          <Database className='mx-auto h-12 w-12 mb-4 opacity-50' />
+          <p>No content types found</p>
+          <p className='text-sm'>Create content types to see their API endpoints here</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+/**
+ * Admin header search box over every content type
+ */
+
+import { useEffect, useState } from 'react'
+import { Search } from 'lucide-react'
+import { Input } from '~/components/ui/input'
+import { useContentSearch } from '~/lib/content-data'
+
+const SEARCH_DELAY_MS = 250
+
+export function GlobalSearch() {
+  const [input, setInput] = useState('')
+  const [query, setQuery] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [input])
+
+  const { data: results = [], isFetching } = useContentSearch(query)
+  const showResults = isOpen && query.length >= 2
+
+  const close = () => {
+    setIsOpen(false)
+    setInput('')
+  }
+
+  return (
+    <div className='relative w-full max-w-xs' role='search'>
+      <Search className='absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground' />
+      <Input
+        type='search'
+        value={input}
+        onChange={e => {
+          setInput(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={e => {
+          if (e.key === 'Escape') close()
+        }}
+        placeholder='Search content'
+        aria-label='Search content'
+        className='pl-9 h-9'
+      />
+
+      {showResults && (
+        <div className='absolute top-full left-0 right-0 sm:w-96 mt-1 bg-background border rounded-lg shadow-lg z-50 max-h-96 overflow-y-auto'>
+          {isFetching && results.length === 0 && (
+            <p className='px-3 py-2 text-sm text-muted-foreground'>Searching...</p>
+          )}
+          {!isFetching && results.length === 0 && (
+            <p className='px-3 py-2 text-sm text-muted-foreground'>No matching entries</p>
+          )}
+          {results.map(result => (
+            <a
+              key={result.id}
+              href={`#/admin/content-types/${result.contentType.slug}?entry=${result.id}`}
+              className='block px-3 py-2 hover:bg-accent hover:text-accent-foreground'
+              onMouseDown={e => e.preventDefault()}
+              onClick={close}
+            >
+              <div className='flex items-center justify-between gap-2'>
+                <span className='text-sm font-medium truncate'>{result.title}</span>
+                <span className='text-xs text-muted-foreground shrink-0'>
+                  {result.contentType.displayName}
+                </span>
+              </div>
+              {result.snippet && (
+                <p
+                  className='text-xs text-muted-foreground line-clamp-2 [&_mark]:bg-yellow-200 [&_mark]:text-foreground'
+                  // Escaped on the server; only <mark> highlights are markup
+                  dangerouslySetInnerHTML={{ __html: result.snippet }}
+                />
+              )}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,9 @@ import { Label } from './ui/label'
 import { X, Save, Calendar, Clock, Eye, EyeOff } from 'lucide-react'
 import { FieldRenderer, validateFieldValue } from './forms/field-renderer'
 import { ContentPreview } from './ui/content-preview'
-import type { ContentType, ContentField, ContentEntry, ContentStatus } from '~/lib/mock-api'
+import { RevisionHistory } from './revision-history'
+import { EntryActivity } from './entry-activity'
+import type { ContentType, ContentField, ContentEntry, ContentStatus } from '~/lib/content-types'
 
 interface ContentEntryFormProps {
   contentType: ContentType
@@ -14,11 +16,13 @@ interface ContentEntryFormProps {
   onSave: (data: {
     slug?: string
     status?: ContentStatus
-    publishedAt?: Date
     scheduledAt?: Date
+    unpublishAt?: Date | null
+    archiveAt?: Date | null
     fieldValues: { fieldId: string; value: string }[]
   }) => Promise<void>
   onCancel: () => void
+  onRestoreRevision?: (revisionId: string) => Promise<void>
   isLoading?: boolean
 }
 
@@ -27,12 +31,15 @@ export default function ContentEntryForm({
   entry,
   onSave,
   onCancel,
+  onRestoreRevision,
   isLoading = false,
 }: ContentEntryFormProps) {
   const [formData, setFormData] = useState<Record<string, string>>({})
   const [slug, setSlug] = useState('')
   const [status, setStatus] = useState<ContentStatus>('DRAFT')
   const [scheduledAt, setScheduledAt] = useState('')
+  const [unpublishAt, setUnpublishAt] = useState('')
+  const [archiveAt, setArchiveAt] = useState('')
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [showPreview, setShowPreview] = useState(false)
   const [previewMode, setPreviewMode] = useState<'modal' | 'side-by-side'>('modal')
@@ -46,6 +53,8 @@ export default function ContentEntryForm({
       setSlug(entry.slug || '')
       setStatus(entry.status)
       setScheduledAt(entry.scheduledAt ? entry.scheduledAt.toISOString().slice(0, 16) : '')
+      setUnpublishAt(entry.unpublishAt ? entry.unpublishAt.toISOString().slice(0, 16) : '')
+      setArchiveAt(entry.archiveAt ? entry.archiveAt.toISOString().slice(0, 16) : '')
       entry.fieldValues.forEach(fv => {
         initialData[fv.fieldId] = fv.value
       })
@@ -53,6 +62,8 @@ export default function ContentEntryForm({
       // Creating new entry - use default values
       setStatus('DRAFT')
       setScheduledAt('')
+      setUnpublishAt('')
+      setArchiveAt('')
       contentType.fields.forEach(field => {
         initialData[field.id] = field.defaultValue || ''
       })
@@ -104,20 +115,15 @@ export default function ContentEntryForm({
       value: formData[field.id] || '',
     }))
 
-    let publishedAt: Date | undefined
-    let finalScheduledAt: Date | undefined
-
-    if (status === 'PUBLISHED') {
-      publishedAt = new Date()
-    } else if (status === 'SCHEDULED' && scheduledAt) {
-      finalScheduledAt = new Date(scheduledAt)
-    }
+    const finalScheduledAt =
+      status === 'SCHEDULED' && scheduledAt ? new Date(scheduledAt) : undefined
 
     await onSave({
       slug: slug || undefined,
       status,
-      publishedAt,
       scheduledAt: finalScheduledAt,
+      unpublishAt: unpublishAt && status !== 'ARCHIVED' ? new Date(unpublishAt) : null,
+      archiveAt: archiveAt && status !== 'ARCHIVED' ? new Date(archiveAt) : null,
       fieldValues,
     })
   }
@@ -204,6 +210,42 @@ export default function ContentEntryForm({
             </div>
           )}
         </div>
+
+        {status !== 'ARCHIVED' && (
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='unpublishAt'>
+                <Clock className='w-4 h-4 inline mr-1' />
+                Unpublish At
+              </Label>
+              <Input
+                id='unpublishAt'
+                type='datetime-local'
+                value={unpublishAt}
+                onChange={e => setUnpublishAt(e.target.value)}
+              />
+              <p className='text-xs text-muted-foreground'>
+                Optional: move the entry back to draft once it has been live until this time
+              </p>
+            </div>
+
+            <div className='space-y-2'>
+              <Label htmlFor='archiveAt'>
+                <Clock className='w-4 h-4 inline mr-1' />
+                Archive At
+              </Label>
+              <Input
+                id='archiveAt'
+                type='datetime-local'
+                value={archiveAt}
+                onChange={e => setArchiveAt(e.target.value)}
+              />
+              <p className='text-xs text-muted-foreground'>
+                Optional: archive the entry automatically at this time
+              </p>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Dynamic fields */}
@@ -212,6 +254,20 @@ export default function ContentEntryForm({
         .map(field => (
           <div key={field.id}>{renderField(field)}</div>
         ))}
+
+      {/* Who changed the entry, and when */}
+      {entry && <EntryActivity entryId={entry.id} />}
+
+      {/* Revision history, compared against the unsaved form values */}
+      {entry && onRestoreRevision && (
+        <RevisionHistory
+          contentType={contentType}
+          entryId={entry.id}
+          current={{ slug, status, values: formData }}
+          onRestore={onRestoreRevision}
+          isRestoring={isLoading}
+        />
+      )}
     </>
   )
 
@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { Activity, ChevronDown, ChevronRight } from 'lucide-react'
+import { ActivityList } from './activity-list'
+import { useActivity } from '~/lib/activity-data'
+import { getRelativeTime } from '~/lib/utils'
+
+/** Changes shown when the activity of an entry is expanded */
+const ENTRY_ACTIVITY_LIMIT = 10
+
+interface EntryActivityProps {
+  entryId: string
+}
+
+/**
+ * Who changed the entry last, with its recent activity on demand
+ */
+export function EntryActivity({ entryId }: EntryActivityProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { data, isLoading } = useActivity({
+    entryId,
+    limit: isExpanded ? ENTRY_ACTIVITY_LIMIT : 1,
+  })
+  const activities = data?.activities ?? []
+  const latest = activities[0]
+
+  return (
+    <div className='space-y-3 p-4 border rounded-lg'>
+      <button
+        type='button'
+        className='flex w-full items-center justify-between text-sm font-medium'
+        onClick={() => setIsExpanded(prev => !prev)}
+        aria-expanded={isExpanded}
+      >
+        <span className='flex items-center'>
+          <Activity className='w-4 h-4 mr-2' />
+          {latest ? (
+            <span>
+              Last {latest.action === 'created' ? 'created' : 'edited'} by {latest.actorName}{' '}
+              <time
+                dateTime={latest.createdAt}
+                title={new Date(latest.createdAt).toLocaleString()}
+                className='font-normal text-muted-foreground'
+              >
+                {getRelativeTime(latest.createdAt)}
+              </time>
+            </span>
+          ) : (
+            'Activity'
+          )}
+        </span>
+        {isExpanded ? <ChevronDown className='w-4 h-4' /> : <ChevronRight className='w-4 h-4' />}
+      </button>
+
+      {isExpanded && (
+        <div className='pt-2'>
+          {isLoading && <p className='text-sm text-muted-foreground'>Loading activity...</p>}
+          {!isLoading && activities.length === 0 && (
+            <p className='text-sm text-muted-foreground'>No activity recorded yet</p>
+          )}
+          {activities.length > 0 && <ActivityList activities={activities} />}
+        </div>
+      )}
+    </div>
+  )
+}
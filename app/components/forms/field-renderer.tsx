@@ -11,7 +11,11 @@ import { PhoneField } from '../ui/field-types/phone-field'
 import { ColorField } from '../ui/field-types/color-field'
 import { SlugField } from '../ui/field-types/slug-field'
 import { PasswordField } from '../ui/field-types/password-field'
+import { RelationField } from '../ui/field-types/relation-field'
+import { MediaField } from '../ui/field-types/media-field'
 import { validateField, type ValidationOptions } from '~/lib/validation/field-validators'
+import { getRelationOptions } from '~/lib/relations'
+import { getMediaFieldOptions } from '~/lib/media-fields'
 
 export interface ContentField {
   id: string
@@ -143,6 +147,28 @@ export function FieldRenderer({
           />
         )
 
+      case 'RELATION':
+        return (
+          <RelationField
+            value={value}
+            onChange={onChange}
+            relatedType={field.relatedType}
+            kind={getRelationOptions(field.options).kind}
+            placeholder={field.placeholder}
+            error={error}
+          />
+        )
+
+      case 'MEDIA':
+        return (
+          <MediaField
+            value={value}
+            onChange={onChange}
+            options={getMediaFieldOptions(field.options)}
+            error={error}
+          />
+        )
+
       case 'JSON':
         return (
           <Textarea
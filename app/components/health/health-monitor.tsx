@@ -135,6 +135,8 @@ export function HealthMonitor() {
         return <Shield className="h-5 w-5" />
       case 'sessions':
         return <Users className="h-5 w-5" />
+      case 'scheduler':
+        return <Clock className="h-5 w-5" />
       default:
         return <Activity className="h-5 w-5" />
     }
@@ -0,0 +1,86 @@
+/**
+ * Detail panel for a media library item: preview, metadata and generated image formats
+ */
+
+import { Button } from '~/components/ui/button'
+import { X } from 'lucide-react'
+import { formatDimensions, formatFileSize } from '~/lib/media-fields'
+import type { MediaFile } from '~/lib/media-service'
+
+export function MediaDetailsPanel({ media, onClose }: { media: MediaFile; onClose: () => void }) {
+  const formats = Object.entries(media.formats ?? {})
+  const dimensions = formatDimensions(media)
+
+  return (
+    <div className='fixed inset-0 bg-background/80 backdrop-blur-sm z-50' onClick={onClose}>
+      <aside
+        className='absolute right-0 top-0 h-full w-full max-w-md overflow-y-auto border-l bg-card p-6 shadow-lg'
+        onClick={e => e.stopPropagation()}
+      >
+        <div className='flex items-start justify-between mb-4'>
+          <h3 className='text-lg font-medium break-all'>{media.name}</h3>
+          <Button variant='ghost' size='sm' onClick={onClose} aria-label='Close details'>
+            <X className='h-4 w-4' />
+          </Button>
+        </div>
+
+        {media.type === 'image' && (
+          <img
+            src={media.formats?.medium?.url ?? media.url}
+            alt={media.altText || media.name}
+            className='w-full rounded-md bg-muted object-contain max-h-72'
+          />
+        )}
+
+        <dl className='mt-4 grid grid-cols-3 gap-x-4 gap-y-2 text-sm'>
+          <dt className='text-muted-foreground'>Type</dt>
+          <dd className='col-span-2'>{media.mimeType}</dd>
+          <dt className='text-muted-foreground'>Size</dt>
+          <dd className='col-span-2'>{formatFileSize(media.size)}</dd>
+          {dimensions && (
+            <>
+              <dt className='text-muted-foreground'>Dimensions</dt>
+              <dd className='col-span-2'>{dimensions}</dd>
+            </>
+          )}
+          <dt className='text-muted-foreground'>Alt text</dt>
+          <dd className='col-span-2'>{media.altText || '—'}</dd>
+          <dt className='text-muted-foreground'>Uploaded</dt>
+          <dd className='col-span-2'>{media.createdAt}</dd>
+          <dt className='text-muted-foreground'>URL</dt>
+          <dd className='col-span-2 break-all'>
+            <a href={media.url} target='_blank' rel='noreferrer' className='text-primary'>
+              {media.url}
+            </a>
+          </dd>
+        </dl>
+
+        {formats.length > 0 && (
+          <div className='mt-6'>
+            <h4 className='text-sm font-medium mb-2'>Formats</h4>
+            <ul className='space-y-2 text-sm'>
+              {formats.map(([name, format]) => (
+                <li key={name} className='flex items-center justify-between rounded border p-2'>
+                  <a href={format.url} target='_blank' rel='noreferrer' className='text-primary'>
+                    {name}
+                  </a>
+                  <span className='text-muted-foreground'>
+                    {formatDimensions(format)} • {formatFileSize(format.size)}
+                    {format.webp && (
+                      <>
+                        {' • '}
+                        <a href={format.webp.url} target='_blank' rel='noreferrer'>
+                          WebP {formatFileSize(format.webp.size)}
+                        </a>
+                      </>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </aside>
+    </div>
+  )
+}
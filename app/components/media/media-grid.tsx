@@ -0,0 +1,148 @@
+/**
+ * Media grid shared by the media library and the media field picker
+ */
+
+import { Card, CardContent } from '~/components/ui/card'
+import { Button } from '~/components/ui/button'
+import { Edit, Trash2, Image as ImageIcon, Video, FileText } from 'lucide-react'
+import { formatDimensions, formatFileSize } from '~/lib/media-fields'
+import type { MediaFile } from '~/lib/media-service'
+
+interface MediaCardProps {
+  media: MediaFile
+  selected: boolean
+  onSelect: (media: MediaFile, selected: boolean) => void
+  onEdit?: (media: MediaFile) => void
+  onDelete?: (media: MediaFile) => void
+  onOpen?: (media: MediaFile) => void
+  disabledReason?: string | null
+}
+
+export function MediaCard({
+  media,
+  selected,
+  onSelect,
+  onEdit,
+  onDelete,
+  onOpen,
+  disabledReason,
+}: MediaCardProps) {
+  const dimensions = formatDimensions(media)
+
+  const getFileIcon = (type: string) => {
+    switch (type) {
+      case 'image':
+        return <ImageIcon className='h-6 w-6 text-green-500' />
+      case 'video':
+        return <Video className='h-6 w-6 text-blue-500' />
+      default:
+        return <FileText className='h-6 w-6 text-gray-500' />
+    }
+  }
+
+  return (
+    <Card
+      className={`relative ${selected ? 'ring-2 ring-primary' : ''} ${disabledReason ? 'opacity-50' : ''}`}
+      title={disabledReason ?? undefined}
+    >
+      <CardContent className='p-0'>
+        <div className='absolute top-2 left-2 z-10'>
+          <input
+            type='checkbox'
+            checked={selected}
+            disabled={!!disabledReason && !selected}
+            onChange={e => onSelect(media, e.target.checked)}
+            aria-label={`Select ${media.name}`}
+            className='h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary'
+          />
+        </div>
+        <div
+          className={`aspect-w-16 aspect-h-9 bg-muted ${onOpen ? 'cursor-pointer' : ''}`}
+          onClick={onOpen ? () => onOpen(media) : undefined}
+        >
+          {media.type === 'image' ? (
+            <img
+              src={media.formats?.small?.url ?? media.formats?.thumbnail?.url ?? media.url}
+              alt={media.altText || media.name}
+              className='w-full h-48 object-cover rounded-t-lg'
+            />
+          ) : (
+            <div className='flex items-center justify-center h-48 rounded-t-lg'>
+              {getFileIcon(media.type)}
+            </div>
+          )}
+        </div>
+        <div className='p-4'>
+          <div className='flex items-start justify-between'>
+            <div className='min-w-0 flex-1'>
+              <h3 className='text-sm font-medium truncate'>{media.name}</h3>
+              <p className='text-xs text-muted-foreground mt-1'>
+                {formatFileSize(media.size)}
+                {dimensions && ` • ${dimensions}`} • {media.createdAt}
+              </p>
+              {media.altText && (
+                <p className='text-xs text-muted-foreground mt-1 truncate'>Alt: {media.altText}</p>
+              )}
+              {disabledReason && (
+                <p className='text-xs text-destructive mt-1 truncate'>{disabledReason}</p>
+              )}
+            </div>
+            {(onEdit || onDelete) && (
+              <div className='flex space-x-1 ml-2'>
+                {onEdit && (
+                  <Button variant='ghost' size='sm' onClick={() => onEdit(media)}>
+                    <Edit className='h-3 w-3' />
+                  </Button>
+                )}
+                {onDelete && (
+                  <Button variant='ghost' size='sm' onClick={() => onDelete(media)}>
+                    <Trash2 className='h-3 w-3' />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface MediaGridProps {
+  media: MediaFile[]
+  isSelected: (media: MediaFile) => boolean
+  onSelect: (media: MediaFile, selected: boolean) => void
+  onEdit?: (media: MediaFile) => void
+  onDelete?: (media: MediaFile) => void
+  onOpen?: (media: MediaFile) => void
+  getDisabledReason?: (media: MediaFile) => string | null
+  className?: string
+}
+
+export function MediaGrid({
+  media,
+  isSelected,
+  onSelect,
+  onEdit,
+  onDelete,
+  onOpen,
+  getDisabledReason,
+  className = 'grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4',
+}: MediaGridProps) {
+  return (
+    <div className={className}>
+      {media.map(item => (
+        <MediaCard
+          key={item.id}
+          media={item}
+          selected={isSelected(item)}
+          onSelect={onSelect}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onOpen={onOpen}
+          disabledReason={getDisabledReason?.(item)}
+        />
+      ))}
+    </div>
+  )
+}
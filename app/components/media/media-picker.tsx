@@ -0,0 +1,114 @@
+/**
+ * Modal for choosing media files from the library, used by media fields
+ * Mount it only while open so the selection starts from the field's current value
+ */
+
+import { useState } from 'react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Search, Image as ImageIcon } from 'lucide-react'
+import { MediaGrid } from './media-grid'
+import { useMediaLibrary } from '~/lib/content-data'
+import { getMediaConstraintError, type MediaFieldOptions } from '~/lib/media-fields'
+import type { MediaFile } from '~/lib/media-service'
+
+interface MediaPickerModalProps {
+  onClose: () => void
+  onConfirm: (ids: string[]) => void
+  selectedIds: string[]
+  options: MediaFieldOptions
+}
+
+export function MediaPickerModal({
+  onClose,
+  onConfirm,
+  selectedIds,
+  options,
+}: MediaPickerModalProps) {
+  const [search, setSearch] = useState('')
+  const [selection, setSelection] = useState<string[]>(selectedIds)
+  const { data: media = [], isLoading } = useMediaLibrary(search, options.allowedMimeTypes)
+
+  const handleSelect = (item: MediaFile, selected: boolean) => {
+    if (!selected) {
+      setSelection(prev => prev.filter(id => id !== item.id))
+    } else {
+      setSelection(prev => (options.multiple ? [...prev, item.id] : [item.id]))
+    }
+  }
+
+  const constraints = [
+    options.allowedMimeTypes.length > 0 && options.allowedMimeTypes.join(', '),
+    options.maxFileSize !== undefined &&
+      `up to ${Math.round((options.maxFileSize / 1024 / 1024) * 100) / 100} MB`,
+  ].filter(Boolean)
+
+  return (
+    <div className='fixed inset-0 bg-background/80 backdrop-blur-sm overflow-y-auto h-full w-full z-50'>
+      <div className='relative top-10 mx-auto p-5 border w-full max-w-5xl shadow-lg rounded-md bg-card'>
+        <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4'>
+          <div>
+            <h3 className='text-lg font-medium'>
+              {options.multiple ? 'Select Media Files' : 'Select a Media File'}
+            </h3>
+            {constraints.length > 0 && (
+              <p className='text-xs text-muted-foreground'>Accepts {constraints.join(', ')}</p>
+            )}
+          </div>
+          <div className='relative max-w-xs w-full'>
+            <Search className='absolute left-3 top-3 h-4 w-4 text-muted-foreground' />
+            <Input
+              type='text'
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className='pl-10'
+              placeholder='Search by filename...'
+            />
+          </div>
+        </div>
+
+        <div className='max-h-[60vh] overflow-y-auto p-1'>
+          {isLoading ? (
+            <p className='text-center py-12 text-sm text-muted-foreground'>
+              Loading media files...
+            </p>
+          ) : media.length === 0 ? (
+            <div className='text-center py-12'>
+              <ImageIcon className='mx-auto h-12 w-12 text-muted-foreground' />
+              <p className='mt-2 text-sm text-muted-foreground'>No matching media files</p>
+            </div>
+          ) : (
+            <MediaGrid
+              media={media}
+              isSelected={item => selection.includes(item.id)}
+              onSelect={handleSelect}
+              getDisabledReason={item => {
+                const error = getMediaConstraintError(item, options)
+                return error && `File ${error}`
+              }}
+              className='grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4'
+            />
+          )}
+        </div>
+
+        <div className='flex items-center justify-between mt-6'>
+          <p className='text-sm text-muted-foreground'>{selection.length} selected</p>
+          <div className='flex space-x-3'>
+            <Button type='button' variant='outline' onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type='button'
+              onClick={() => {
+                onConfirm(selection)
+                onClose()
+              }}
+            >
+              {options.multiple ? 'Use Selected Files' : 'Use File'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
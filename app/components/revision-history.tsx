@@ -0,0 +1,185 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { History, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+import { useEntryRevisions } from '~/lib/content-data'
+import { diffRevision, type RevisionComparable } from '~/lib/revision-diff'
+import type { ContentType, ContentEntryRevision } from '~/lib/content-types'
+import { cn } from '~/lib/utils'
+
+interface RevisionHistoryProps {
+  contentType: ContentType
+  entryId: string
+  current: RevisionComparable
+  onRestore: (revisionId: string) => Promise<void>
+  isRestoring?: boolean
+}
+
+function formatRevisionValue(value: string) {
+  if (!value) return <span className='italic text-muted-foreground'>empty</span>
+  return value.length > 200 ? `${value.slice(0, 200)}…` : value
+}
+
+function RevisionDiff({
+  contentType,
+  revision,
+  current,
+}: {
+  contentType: ContentType
+  revision: ContentEntryRevision
+  current: RevisionComparable
+}) {
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const changes = diffRevision(contentType, revision, current)
+  const changed = changes.filter(change => change.changed)
+  const visible = showUnchanged ? changes : changed
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex items-center justify-between text-xs text-muted-foreground'>
+        <span>
+          {changed.length === 0
+            ? 'Identical to the current form'
+            : `${changed.length} field${changed.length === 1 ? '' : 's'} differ from the current form`}
+        </span>
+        <button
+          type='button'
+          className='underline hover:text-foreground'
+          onClick={() => setShowUnchanged(prev => !prev)}
+        >
+          {showUnchanged ? 'Hide unchanged' : 'Show unchanged'}
+        </button>
+      </div>
+
+      {visible.length > 0 && (
+        <div className='border rounded-md divide-y text-sm'>
+          <div className='grid grid-cols-[8rem_1fr_1fr] gap-2 px-3 py-2 bg-muted/40 text-xs font-medium'>
+            <span>Field</span>
+            <span>Revision {revision.version}</span>
+            <span>Current</span>
+          </div>
+          {visible.map(change => (
+            <div
+              key={change.key}
+              className={cn(
+                'grid grid-cols-[8rem_1fr_1fr] gap-2 px-3 py-2 break-words',
+                !change.changed && 'text-muted-foreground'
+              )}
+            >
+              <span className='font-medium'>{change.label}</span>
+              <span className={cn(change.changed && 'bg-red-50 text-red-800 rounded px-1')}>
+                {formatRevisionValue(change.revisionValue)}
+              </span>
+              <span className={cn(change.changed && 'bg-green-50 text-green-800 rounded px-1')}>
+                {formatRevisionValue(change.currentValue)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function RevisionHistory({
+  contentType,
+  entryId,
+  current,
+  onRestore,
+  isRestoring = false,
+}: RevisionHistoryProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const { data: revisions = [], isLoading } = useEntryRevisions(isExpanded ? entryId : undefined)
+
+  const selected = revisions.find(revision => revision.id === selectedId)
+  const latestVersion = revisions[0]?.version
+
+  const handleRestore = async (revision: ContentEntryRevision) => {
+    if (
+      confirm(
+        `Restore revision ${revision.version}? The current content is kept in the history as well.`
+      )
+    ) {
+      await onRestore(revision.id)
+      setSelectedId(null)
+    }
+  }
+
+  return (
+    <div className='space-y-3 p-4 border rounded-lg'>
+      <button
+        type='button'
+        className='flex w-full items-center justify-between text-sm font-medium'
+        onClick={() => setIsExpanded(prev => !prev)}
+        aria-expanded={isExpanded}
+      >
+        <span className='flex items-center'>
+          <History className='w-4 h-4 mr-2' />
+          Revision History
+        </span>
+        {isExpanded ? <ChevronDown className='w-4 h-4' /> : <ChevronRight className='w-4 h-4' />}
+      </button>
+
+      {isExpanded && (
+        <div className='space-y-3'>
+          {isLoading && <p className='text-sm text-muted-foreground'>Loading revisions...</p>}
+          {!isLoading && revisions.length === 0 && (
+            <p className='text-sm text-muted-foreground'>No revisions recorded yet</p>
+          )}
+
+          <ul className='space-y-1 max-h-60 overflow-y-auto'>
+            {revisions.map(revision => (
+              <li key={revision.id}>
+                <button
+                  type='button'
+                  onClick={() => setSelectedId(selectedId === revision.id ? null : revision.id)}
+                  className={cn(
+                    'w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm hover:bg-muted/50',
+                    selectedId === revision.id && 'bg-muted'
+                  )}
+                >
+                  <span>
+                    <span className='font-medium'>v{revision.version}</span>
+                    <span className='text-muted-foreground ml-2'>
+                      {revision.createdAt.toLocaleString()}
+                      {revision.author && ` · ${revision.author.name || revision.author.email}`}
+                    </span>
+                    {revision.restoredFromId && (
+                      <span className='text-xs text-muted-foreground ml-2'>
+                        (restored from v
+                        {revisions.find(r => r.id === revision.restoredFromId)?.version ?? '?'})
+                      </span>
+                    )}
+                  </span>
+                  <span className='flex items-center gap-2'>
+                    {revision.version === latestVersion && <Badge variant='outline'>Latest</Badge>}
+                    <Badge variant='secondary'>{revision.status.toLowerCase()}</Badge>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className='space-y-3'>
+              <RevisionDiff contentType={contentType} revision={selected} current={current} />
+              <div className='flex justify-end'>
+                <Button
+                  type='button'
+                  size='sm'
+                  variant='outline'
+                  disabled={isRestoring}
+                  onClick={() => handleRestore(selected)}
+                >
+                  <RotateCcw className='w-4 h-4 mr-2' />
+                  {isRestoring ? 'Restoring...' : `Restore v${selected.version}`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
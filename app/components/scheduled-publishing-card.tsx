@@ -0,0 +1,99 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Clock, Play } from 'lucide-react'
+import { contentApi, useContentMutation, useSchedulerStatus } from '~/lib/content-data'
+import type { SchedulerRun } from '~/lib/content-types'
+
+function describeRun(run: SchedulerRun) {
+  const parts = [
+    run.published && `${run.published} published`,
+    run.unpublished && `${run.unpublished} unpublished`,
+    run.archived && `${run.archived} archived`,
+    run.failed && `${run.failed} failed`,
+  ].filter(Boolean)
+
+  return parts.length > 0 ? parts.join(', ') : 'Nothing due'
+}
+
+export function ScheduledPublishingCard() {
+  const { data: status, isLoading, error } = useSchedulerStatus()
+  const runNow = useContentMutation(() => contentApi.runScheduler())
+
+  return (
+    <Card>
+      <CardHeader className='pb-3'>
+        <div className='flex items-center justify-between'>
+          <CardTitle className='flex items-center gap-2 text-base'>
+            <Clock className='h-5 w-5' />
+            Scheduled Publishing
+          </CardTitle>
+          <Badge variant={status?.lock ? 'outline' : 'secondary'}>
+            {status?.lock ? 'Worker active' : 'Worker idle'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className='pt-0 space-y-3'>
+        {isLoading && <p className='text-sm text-muted-foreground'>Loading scheduler runs...</p>}
+        {error && <p className='text-sm text-muted-foreground'>{error.message}</p>}
+
+        {status && (
+          <>
+            <div className='flex justify-between text-sm'>
+              <span className='text-muted-foreground'>Pending schedules:</span>
+              <span className='font-medium'>{status.upcoming}</span>
+            </div>
+
+            {status.runs.length === 0 ? (
+              <p className='text-sm text-muted-foreground'>The scheduler has not run yet</p>
+            ) : (
+              <ul className='space-y-2'>
+                {status.runs.map(run => (
+                  <li key={run.id} className='flex items-start justify-between gap-2 text-sm'>
+                    <span>
+                      <span className='block'>{describeRun(run)}</span>
+                      {run.error && (
+                        <span className='block text-xs text-destructive'>{run.error}</span>
+                      )}
+                      {run.actions
+                        .filter(action => action.error)
+                        .map(action => (
+                          <span
+                            key={`${action.action}-${action.entryId}`}
+                            className='block text-xs text-destructive'
+                          >
+                            Could not {action.action} {action.entryId}: {action.error}
+                          </span>
+                        ))}
+                    </span>
+                    <span className='text-xs text-muted-foreground whitespace-nowrap'>
+                      {run.startedAt.toLocaleString()}
+                      <span className='ml-1'>({run.trigger})</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        {runNow.data?.busy && (
+          <p className='text-sm text-muted-foreground'>
+            Another scheduler run is in progress. Try again in a moment.
+          </p>
+        )}
+
+        <Button
+          variant='outline'
+          size='sm'
+          className='w-full'
+          disabled={runNow.isPending}
+          onClick={() => runNow.mutate(undefined)}
+        >
+          <Play className='h-4 w-4 mr-2' />
+          {runNow.isPending ? 'Running...' : 'Run Now'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,7 +5,7 @@ import { Badge } from './badge'
 import { Card, CardContent, CardHeader, CardTitle } from './card'
 import { Filter, X, Calendar, Search, CheckCircle, Clock, Archive, FileText } from 'lucide-react'
 import { cn } from '~/lib/utils'
-import type { ContentStatus } from '~/lib/mock-api'
+import type { ContentStatus } from '~/lib/content-types'
 
 export interface ContentFilter {
   status?: ContentStatus[]
@@ -8,7 +8,7 @@ import { Button } from './button'
 import { Card, CardContent, CardHeader, CardTitle } from './card'
 import { Badge } from './badge'
 import { formatFieldValue, getFieldTypeLabel } from '~/lib/formatters'
-import type { ContentType, ContentField, ContentStatus } from '~/lib/mock-api'
+import type { ContentType, ContentField, ContentStatus } from '~/lib/content-types'
 
 interface ContentPreviewProps {
   isOpen: boolean
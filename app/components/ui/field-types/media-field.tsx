@@ -0,0 +1,107 @@
+/**
+ * Media field component showing the chosen files and opening the media picker
+ */
+
+import { useState } from 'react'
+import { Button } from '../button'
+import { FileText, Image as ImageIcon, X } from 'lucide-react'
+import { MediaPickerModal } from '~/components/media/media-picker'
+import { useSelectedMedia } from '~/lib/content-data'
+import {
+  formatFileSize,
+  formatMediaValue,
+  parseMediaValue,
+  type MediaFieldOptions,
+} from '~/lib/media-fields'
+
+interface MediaFieldProps {
+  value: string
+  onChange: (value: string) => void
+  options: MediaFieldOptions
+  error?: string
+}
+
+export function MediaField({ value, onChange, options, error }: MediaFieldProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+  const selectedIds = parseMediaValue(value)
+  const { data: selected = [] } = useSelectedMedia(selectedIds)
+
+  const remove = (id: string) => {
+    onChange(
+      formatMediaValue(
+        selectedIds.filter(selectedId => selectedId !== id),
+        options.multiple
+      )
+    )
+  }
+
+  return (
+    <div className='space-y-2'>
+      {selectedIds.length > 0 && (
+        <div className='flex flex-wrap gap-3'>
+          {selectedIds.map(id => {
+            const media = selected.find(item => item.id === id)
+            return (
+              <div
+                key={id}
+                className='relative flex w-32 flex-col overflow-hidden rounded-md border bg-muted'
+              >
+                {media?.type === 'image' ? (
+                  <img
+                    src={media.url}
+                    alt={media.altText || media.name}
+                    className='h-20 w-full object-cover'
+                  />
+                ) : (
+                  <div className='flex h-20 items-center justify-center'>
+                    <FileText className='h-6 w-6 text-muted-foreground' />
+                  </div>
+                )}
+                <div className='px-2 py-1'>
+                  <p className='truncate text-xs font-medium'>{media?.name ?? id}</p>
+                  {media && (
+                    <p className='text-xs text-muted-foreground'>{formatFileSize(media.size)}</p>
+                  )}
+                </div>
+                <button
+                  type='button'
+                  onClick={() => remove(id)}
+                  className='absolute right-1 top-1 rounded-full bg-background/80 p-0.5 hover:text-destructive'
+                  aria-label='Remove media file'
+                >
+                  <X className='h-3 w-3' />
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Button
+        type='button'
+        variant='outline'
+        size='sm'
+        onClick={() => setIsPickerOpen(true)}
+        className={error ? 'border-red-500' : ''}
+      >
+        <ImageIcon className='mr-2 h-4 w-4' />
+        {selectedIds.length === 0
+          ? options.multiple
+            ? 'Choose files'
+            : 'Choose a file'
+          : options.multiple
+            ? 'Change selection'
+            : 'Replace file'}
+      </Button>
+
+      {isPickerOpen && (
+        <MediaPickerModal
+          onClose={() => setIsPickerOpen(false)}
+          onConfirm={ids => onChange(formatMediaValue(ids, options.multiple))}
+          selectedIds={selectedIds}
+          options={options}
+        />
+      )}
+    </div>
+  )
+}
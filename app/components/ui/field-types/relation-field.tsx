@@ -0,0 +1,129 @@
+/**
+ * Relation field component with a searchable entry picker
+ */
+
+import { useState } from 'react'
+import { Input } from '../input'
+import { Badge } from '../badge'
+import { Search, X } from 'lucide-react'
+import { useRelationTargets, useSelectedRelationTargets } from '~/lib/content-data'
+import {
+  formatRelationValue,
+  isMultipleRelation,
+  parseRelationValue,
+  type RelationKind,
+} from '~/lib/relations'
+
+interface RelationFieldProps {
+  value: string
+  onChange: (value: string) => void
+  relatedType?: string
+  kind: RelationKind
+  placeholder?: string
+  error?: string
+}
+
+export function RelationField({
+  value,
+  onChange,
+  relatedType,
+  kind,
+  placeholder,
+  error,
+}: RelationFieldProps) {
+  const [search, setSearch] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const selectedIds = parseRelationValue(value)
+  const multiple = isMultipleRelation(kind)
+
+  const { data: selected = [] } = useSelectedRelationTargets(relatedType, selectedIds)
+  const { data: results = [], isLoading } = useRelationTargets(
+    isOpen ? relatedType : undefined,
+    search
+  )
+
+  const select = (id: string) => {
+    onChange(formatRelationValue(multiple ? [...selectedIds, id] : [id], kind))
+    setSearch('')
+    if (!multiple) setIsOpen(false)
+  }
+
+  const remove = (id: string) => {
+    onChange(
+      formatRelationValue(
+        selectedIds.filter(selectedId => selectedId !== id),
+        kind
+      )
+    )
+  }
+
+  if (!relatedType) {
+    return (
+      <p className='text-sm text-muted-foreground'>
+        This relation field has no related content type configured
+      </p>
+    )
+  }
+
+  const available = results.filter(result => !selectedIds.includes(result.id))
+
+  return (
+    <div className='space-y-2'>
+      {selectedIds.length > 0 && (
+        <div className='flex flex-wrap gap-2'>
+          {selectedIds.map(id => (
+            <Badge key={id} variant='secondary' className='flex items-center gap-1'>
+              {selected.find(target => target.id === id)?.label ?? id}
+              <button
+                type='button'
+                onClick={() => remove(id)}
+                className='hover:text-destructive'
+                aria-label='Remove related entry'
+              >
+                <X className='h-3 w-3' />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className='relative'>
+        <Search className='absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground' />
+        <Input
+          type='text'
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          placeholder={placeholder || `Search ${relatedType} entries`}
+          className={`pl-9 ${error ? 'border-red-500' : ''}`}
+        />
+
+        {isOpen && (
+          <div className='absolute top-full left-0 right-0 mt-1 bg-background border rounded-lg shadow-lg z-50 max-h-64 overflow-y-auto'>
+            {isLoading && <p className='px-3 py-2 text-sm text-muted-foreground'>Searching...</p>}
+            {!isLoading && available.length === 0 && (
+              <p className='px-3 py-2 text-sm text-muted-foreground'>No matching entries</p>
+            )}
+            {available.map(target => (
+              <button
+                key={target.id}
+                type='button'
+                className='w-full px-3 py-2 text-left text-sm hover:bg-accent hover:text-accent-foreground flex items-center justify-between'
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => select(target.id)}
+              >
+                <span>{target.label}</span>
+                <span className='text-xs text-muted-foreground'>{target.status.toLowerCase()}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!multiple && selectedIds.length > 0 && (
+        <p className='text-xs text-muted-foreground'>Selecting another entry replaces this one</p>
+      )}
+    </div>
+  )
+}
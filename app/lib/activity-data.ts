@@ -0,0 +1,33 @@
+/**
+ * Client data layer for the activity stream
+ * Wraps the activity server function and exposes React Query hooks for the admin dashboard and
+ * the entry pages
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { fetchActivity } from '~/server/activity-functions'
+import type { ActivityPage, ActivityQuery } from './activity'
+
+/** Activity is refreshed while a page showing it stays open */
+const ACTIVITY_REFETCH_INTERVAL_MS = 60 * 1000
+
+export const activityApi = {
+  async getActivity(query: ActivityQuery = {}): Promise<ActivityPage> {
+    return fetchActivity({ data: query })
+  },
+}
+
+export const activityQueryKeys = {
+  all: ['activity'] as const,
+  list: (query: ActivityQuery) => [...activityQueryKeys.all, query] as const,
+}
+
+export function useActivity(query: ActivityQuery = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: activityQueryKeys.list(query),
+    queryFn: () => activityApi.getActivity(query),
+    placeholderData: previous => previous,
+    refetchInterval: ACTIVITY_REFETCH_INTERVAL_MS,
+    enabled: options.enabled ?? true,
+  })
+}
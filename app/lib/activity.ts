@@ -0,0 +1,56 @@
+/**
+ * Activity stream shared by the activity API, the admin dashboard and the entry pages
+ */
+
+export const ACTIVITY_ACTIONS = [
+  'created',
+  'updated',
+  'published',
+  'unpublished',
+  'scheduled',
+  'unscheduled',
+  'archived',
+  'restored',
+  'deleted',
+] as const
+
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number]
+
+export type ActivityTargetType = 'entry' | 'contentType'
+
+export type ActivityItem = {
+  id: string
+  createdAt: string
+  action: ActivityAction
+  /** Null for changes made with an API key, by scheduled publishing or by deleted users */
+  actorId: string | null
+  /** Name or email of the user at the time, `API key "…"` or `Scheduled publishing` */
+  actorName: string
+  target: { type: ActivityTargetType; id: string; label: string }
+  contentType: { id: string; name: string }
+  /** e.g. `Ada published Blog Post "Hello world"` */
+  summary: string
+}
+
+/** Filters of the activity stream, newest first */
+export type ActivityQuery = {
+  /** Activity of one entry */
+  entryId?: string
+  contentTypeId?: string
+  actorId?: string
+  /** ISO date-time; only activity after it, for polling integrations */
+  since?: string
+  /** ISO date-time; only activity before it, to load older activity */
+  before?: string
+  limit?: number
+}
+
+export type ActivityPage = {
+  activities: ActivityItem[]
+  /** Whether older activity matches the filters */
+  hasMore: boolean
+}
+
+export const ACTIVITY_PAGE_SIZE = 20
+
+export const ACTIVITY_MAX_PAGE_SIZE = 100
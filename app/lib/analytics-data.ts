@@ -0,0 +1,38 @@
+/**
+ * Client data layer for analytics
+ * Wraps the analytics server functions and exposes React Query hooks for the admin analytics page
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { fetchAnalytics, exportAnalyticsFn } from '~/server/analytics-functions'
+import type {
+  AnalyticsData,
+  AnalyticsExport,
+  AnalyticsExportFormat,
+  AnalyticsRange,
+} from './analytics'
+
+export const analyticsApi = {
+  async getAnalytics(range: AnalyticsRange): Promise<AnalyticsData> {
+    return fetchAnalytics({ data: range })
+  },
+
+  async exportAnalytics(
+    range: AnalyticsRange,
+    format: AnalyticsExportFormat
+  ): Promise<AnalyticsExport> {
+    return exportAnalyticsFn({ data: { range, format } })
+  },
+}
+
+export const analyticsQueryKeys = {
+  all: ['analytics'] as const,
+  range: (range: AnalyticsRange) => [...analyticsQueryKeys.all, range] as const,
+}
+
+export function useAnalytics(range: AnalyticsRange) {
+  return useQuery({
+    queryKey: analyticsQueryKeys.range(range),
+    queryFn: () => analyticsApi.getAnalytics(range),
+  })
+}
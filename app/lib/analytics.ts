@@ -0,0 +1,72 @@
+/**
+ * Analytics shared by the aggregation service and the admin analytics page
+ */
+
+export const ANALYTICS_RANGES = {
+  '7d': { label: 'Last 7 days', days: 7 },
+  '30d': { label: 'Last 30 days', days: 30 },
+  '90d': { label: 'Last 90 days', days: 90 },
+} as const
+
+export type AnalyticsRange = keyof typeof ANALYTICS_RANGES
+
+export type AnalyticsExportFormat = 'csv' | 'json'
+
+export type AnalyticsData = {
+  range: AnalyticsRange
+  /** Start of the time range as an ISO string */
+  since: string
+  generatedAt: string
+  contentStats: {
+    totalContentTypes: number
+    totalEntries: number
+    /** Entries created in the time range */
+    recentEntries: number
+    publishedEntries: number
+    draftEntries: number
+    scheduledEntries: number
+    archivedEntries: number
+  }
+  /** Entries created per day of the time range, oldest first */
+  entriesPerDay: Array<{ date: string; count: number }>
+  userActivity: {
+    totalUsers: number
+    /** Users who signed in during the time range */
+    activeUsers: number
+    activeSessions: number
+    /** Successful logins in the time range */
+    recentLogins: number
+  }
+  systemMetrics: {
+    /** Size of the SQLite database file in bytes, null for other databases */
+    dbSize: number | null
+    /** API requests since the server started */
+    apiCalls: number
+    /** Average API response time in milliseconds */
+    avgResponseTime: number
+    /** Server uptime in seconds */
+    uptime: number
+  }
+  topContentTypes: Array<{
+    name: string
+    count: number
+    percentage: number
+  }>
+  recentActivity: Array<{
+    id: string
+    type: 'content' | 'user' | 'system'
+    description: string
+    timestamp: string
+    user?: string
+  }>
+}
+
+export type AnalyticsExport = {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+export function isAnalyticsRange(value: unknown): value is AnalyticsRange {
+  return typeof value === 'string' && value in ANALYTICS_RANGES
+}
@@ -0,0 +1,56 @@
+/**
+ * Client data layer for API keys
+ * Wraps the API key server functions and exposes React Query hooks for the API Manager
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  fetchApiKeys,
+  createApiKeyFn,
+  rotateApiKeyFn,
+  revokeApiKeyFn,
+} from '~/server/api-key-functions'
+import type { ApiKeyInfo, ApiKeyInput, CreatedApiKey } from './api-keys'
+
+export const apiKeyApi = {
+  async getApiKeys(): Promise<ApiKeyInfo[]> {
+    return fetchApiKeys()
+  },
+
+  async createApiKey(data: ApiKeyInput): Promise<CreatedApiKey> {
+    return createApiKeyFn({ data })
+  },
+
+  async rotateApiKey(id: string): Promise<CreatedApiKey> {
+    return rotateApiKeyFn({ data: id })
+  },
+
+  async revokeApiKey(id: string): Promise<ApiKeyInfo> {
+    return revokeApiKeyFn({ data: id })
+  },
+}
+
+export const apiKeyQueryKeys = {
+  all: ['api-keys'] as const,
+}
+
+export function useApiKeys() {
+  return useQuery({
+    queryKey: apiKeyQueryKeys.all,
+    queryFn: () => apiKeyApi.getApiKeys(),
+  })
+}
+
+/**
+ * Wrap an API key write so the key list is refetched once it settles
+ */
+export function useApiKeyMutation<TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: apiKeyQueryKeys.all }),
+  })
+}
@@ -0,0 +1,85 @@
+/**
+ * API key types and scope helpers shared by the API middleware and the admin screen
+ *
+ * A scope grants `read` or `write` access to one content type (`blog-post:read`) or to all of
+ * them (`*:write`). Write access includes read access.
+ */
+
+export type ApiKeyAccess = 'read' | 'write'
+
+/** Content type slug, or `*` for every content type */
+export type ApiKeyScope = `${string}:${ApiKeyAccess}`
+
+export const ALL_CONTENT_TYPES = '*'
+
+export type ApiKeyInfo = {
+  id: string
+  name: string
+  /** Leading part of the key, enough to recognize it */
+  prefix: string
+  scopes: ApiKeyScope[]
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export type ApiKeyInput = {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresAt?: Date | string | null
+}
+
+/** A newly created or rotated key; `key` is never shown again */
+export type CreatedApiKey = {
+  apiKey: ApiKeyInfo
+  key: string
+}
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked'
+
+const SCOPE_PATTERN = /^(\*|[a-z0-9][a-z0-9_-]*):(read|write)$/
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return SCOPE_PATTERN.test(value)
+}
+
+/**
+ * Split a scope into its content type slug (or `*`) and access level
+ */
+export function parseApiKeyScope(scope: ApiKeyScope): {
+  contentType: string
+  access: ApiKeyAccess
+} {
+  const index = scope.lastIndexOf(':')
+  return {
+    contentType: scope.slice(0, index),
+    access: scope.slice(index + 1) as ApiKeyAccess,
+  }
+}
+
+/**
+ * Whether the scopes grant `access` to the content type with the given slug
+ */
+export function hasApiKeyScope(
+  scopes: readonly ApiKeyScope[],
+  contentType: string,
+  access: ApiKeyAccess
+): boolean {
+  return scopes.some(scope => {
+    const granted = parseApiKeyScope(scope)
+    return (
+      (granted.contentType === ALL_CONTENT_TYPES || granted.contentType === contentType) &&
+      (granted.access === 'write' || access === 'read')
+    )
+  })
+}
+
+export function getApiKeyStatus(
+  apiKey: Pick<ApiKeyInfo, 'expiresAt' | 'revokedAt'>,
+  now = new Date()
+): ApiKeyStatus {
+  if (apiKey.revokedAt) return 'revoked'
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= now) return 'expired'
+  return 'active'
+}
@@ -4,17 +4,37 @@
  */
 
 import { ApiResponseBuilder, type StandardApiResponse } from '~/lib/api-response'
+import { prisma } from '~/server/db'
+import {
+  getEndpointOperation,
+  parseContentApiPath,
+  routeContentRequest,
+  routeSearchRequest,
+} from '~/server/content-api'
+import { routeGraphQLRequest } from '~/server/graphql-api'
+import { routeActivityRequest } from '~/server/activity-api'
+import { getApiKeyFromHeaders, getRequestUser, verifyApiKey } from '~/server/api-keys'
+import { AUTHENTICATION_REQUIRED_MESSAGE, type RequestAuth } from '~/server/endpoint-access'
+import type { FilterOperator } from '~/server/content-query'
+import { recordApiRequest } from '~/server/metrics'
+import { securityAudit } from '~/server/security-auth'
+import type { AuditEvent } from './audit-log'
 
 // Use the correct ApiResponse type
 export type ApiResponse<T = unknown> = StandardApiResponse<T>
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
 
+type EntryFilterValue = string | number | boolean | Date | (string | number)[]
+
 export type ApiRequest = {
   method: HttpMethod
   path: string
   body?: unknown
   query?: Record<string, string>
+  headers?: Record<string, string>
+  /** Caller of the request, set by the auth middleware */
+  auth?: RequestAuth
 }
 
 export type ApiMiddleware = {
@@ -23,9 +43,16 @@ export type ApiMiddleware = {
 }
 
 export type ApiConfig = {
+  /**
+   * Require an API key or signed-in user for operations without an access level in their
+   * endpoint settings, search and GraphQL
+   */
   enableAuth?: boolean
   enableLogging?: boolean
-  apiKeys?: string[]
+  /** Record request counts and latency for GET /api/metrics */
+  enableMetrics?: boolean
+  /** Record entries created, updated, deleted or restored through the API in the audit log */
+  enableAuditLog?: boolean
   corsEnabled?: boolean
   rateLimit?: {
     windowMs: number
@@ -44,19 +71,27 @@ export class ApiManager {
     this.config = {
       enableAuth: false,
       enableLogging: true,
+      enableMetrics: true,
+      enableAuditLog: true,
       corsEnabled: true,
       ...config,
     }
 
     // Add built-in middlewares
+    if (this.config.enableMetrics) {
+      this.addMiddleware(createMetricsMiddleware())
+    }
+
     if (this.config.enableLogging) {
       this.addMiddleware(this.createLoggingMiddleware())
     }
 
-    if (this.config.enableAuth && this.config.apiKeys) {
-      this.addMiddleware(this.createAuthMiddleware())
+    if (this.config.enableAuditLog) {
+      this.addMiddleware(createAuditMiddleware())
     }
 
+    this.addMiddleware(createAuthMiddleware({ requireCredentials: this.config.enableAuth }))
+
     if (this.config.corsEnabled) {
       this.addMiddleware(this.createCorsMiddleware())
     }
@@ -102,7 +137,7 @@ export class ApiManager {
 
   /**
    * Route API requests to appropriate handlers
-   * This is a simplified router since we're using TanStack Start's file-based routing
+   * Everything other than the status endpoint is served by the dynamic content type router
    */
   private async routeRequest(request: ApiRequest): Promise<ApiResponse> {
     const { method, path } = request
@@ -127,58 +162,70 @@ export class ApiManager {
       }
     }
 
-    // For other endpoints, return a helpful message about using TanStack Start routes
-    return ApiResponseBuilder.error({
-      code: 'NOT_FOUND',
-      message: 'API endpoint not found',
-      details: [
-        'This API Manager is primarily for internal testing.',
-        'Use TanStack Start file-based API routes for actual endpoints.',
-        `Requested: ${method} ${path}`
-      ],
-    })
+    if (path === '/api/search') {
+      return routeSearchRequest(prisma, request)
+    }
+
+    if (path === '/api/graphql') {
+      return routeGraphQLRequest(prisma, request)
+    }
+
+    if (path === '/api/activity') {
+      return routeActivityRequest(prisma, request)
+    }
+
+    // Serve /api/:contentTypeSlug[/:id] from the database
+    return routeContentRequest(prisma, request)
   }
 
   /**
    * Convenience method for GET requests
    */
-  async get(path: string, query?: Record<string, string>): Promise<ApiResponse> {
+  async get(
+    path: string,
+    query?: Record<string, string>,
+    headers?: Record<string, string>
+  ): Promise<ApiResponse> {
     return this.handleRequest({
       method: 'GET',
       path,
       query,
+      headers,
     })
   }
 
   /**
    * Convenience method for POST requests
    */
-  async post(path: string, body: unknown): Promise<ApiResponse> {
+  async post(path: string, body: unknown, headers?: Record<string, string>): Promise<ApiResponse> {
     return this.handleRequest({
       method: 'POST',
       path,
       body,
+      headers,
     })
   }
 
   /**
    * Convenience method for PUT requests
    */
-  async put(path: string, body: unknown): Promise<ApiResponse> {
+  async put(path: string, body: unknown, headers?: Record<string, string>): Promise<ApiResponse> {
     return this.handleRequest({
       method: 'PUT',
       path,
       body,
+      headers,
     })
   }
 
   /**
    * Convenience method for DELETE requests
    */
-  async delete(path: string): Promise<ApiResponse> {
+  async delete(path: string, headers?: Record<string, string>): Promise<ApiResponse> {
     return this.handleRequest({
       method: 'DELETE',
       path,
+      headers,
     })
   }
 
@@ -196,6 +243,8 @@ export class ApiManager {
         config: {
           enableAuth: this.config.enableAuth,
           enableLogging: this.config.enableLogging,
+          enableMetrics: this.config.enableMetrics,
+          enableAuditLog: this.config.enableAuditLog,
           corsEnabled: this.config.corsEnabled,
         },
       },
@@ -234,42 +283,6 @@ export class ApiManager {
     }
   }
 
-  /**
-   * Built-in authentication middleware
-   */
-  private createAuthMiddleware(): ApiMiddleware {
-    return {
-      name: 'auth',
-      handler: async (
-        request: ApiRequest,
-        next: () => Promise<ApiResponse>
-      ): Promise<ApiResponse> => {
-        // Skip auth for status endpoint
-        if (request.path === '/api/status') {
-          return next()
-        }
-
-        const apiKey = request.query?.['api_key'] || request.query?.['apiKey']
-
-        if (!apiKey) {
-          return ApiResponseBuilder.authRequired(
-            'API key is required. Provide it as ?api_key=your_key'
-          )
-        }
-
-        if (!this.config.apiKeys?.includes(apiKey)) {
-          return ApiResponseBuilder.error({
-            code: 'AUTHENTICATION_FAILED',
-            message: 'Invalid API key provided',
-            details: ['The provided API key is not valid'],
-          })
-        }
-
-        return next()
-      },
-    }
-  }
-
   /**
    * Built-in CORS middleware
    */
@@ -288,7 +301,7 @@ export class ApiManager {
           headers: {
             'Access-Control-Allow-Origin': '*',
             'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
           },
         } as ApiResponse & { headers: Record<string, string> }
       },
@@ -296,11 +309,153 @@ export class ApiManager {
   }
 }
 
+/**
+ * Metrics middleware recording the count and latency of requests by route, method and the HTTP
+ * status code of the response
+ */
+export function createMetricsMiddleware(): ApiMiddleware {
+  return {
+    name: 'metrics',
+    handler: async (
+      request: ApiRequest,
+      next: () => Promise<ApiResponse>
+    ): Promise<ApiResponse> => {
+      const startTime = Date.now()
+      const response = await next()
+      const status = response.success ? 200 : ApiResponseBuilder.getStatusCode(response.error!.code)
+
+      recordApiRequest(request.path, request.method, status, Date.now() - startTime)
+      return response
+    },
+  }
+}
+
+/**
+ * Audit middleware recording entry writes in the audit log with the user or API key that made
+ * them; it runs before the auth middleware and reads the caller once the request is handled
+ */
+export function createAuditMiddleware(): ApiMiddleware {
+  const events: Partial<Record<string, AuditEvent>> = {
+    create: 'ENTRY_CREATED',
+    update: 'ENTRY_UPDATED',
+    delete: 'ENTRY_DELETED',
+  }
+
+  return {
+    name: 'audit',
+    handler: async (
+      request: ApiRequest,
+      next: () => Promise<ApiResponse>
+    ): Promise<ApiResponse> => {
+      const response = await next()
+      if (request.method === 'GET' || !response.success || request.path === '/api/graphql') {
+        return response
+      }
+
+      const parsed = parseContentApiPath(request.path)
+      const operation = parsed && getEndpointOperation(request.method, parsed)
+      const event = parsed?.revisions?.restore ? 'ENTRY_RESTORED' : operation && events[operation]
+      if (!parsed || !event) {
+        return response
+      }
+
+      const created = (response.data as { entry?: { id: string } } | undefined)?.entry
+      await securityAudit.log(
+        event,
+        { headers: new Headers(request.headers) },
+        request.auth?.user?.id,
+        true,
+        {
+          entryId: parsed.entryId ?? created?.id,
+          contentType: parsed.contentTypeSlug,
+          ...(parsed.revisions?.revisionId && { revisionId: parsed.revisions.revisionId }),
+          ...(request.auth?.apiKey && { apiKeyId: request.auth.apiKey.id }),
+          source: 'rest',
+        }
+      )
+      return response
+    },
+  }
+}
+
+/**
+ * Authentication middleware identifying the caller by API key or user token
+ *
+ * The key is sent in the `X-API-Key` header or as `Authorization: Bearer <key>`; keys in the
+ * query string are rejected so that they do not end up in access logs. Other bearer tokens and
+ * session cookies identify signed-in users. Content type operations are then authorized against
+ * their endpoint settings; with `requireCredentials` operations without an access level, search
+ * and GraphQL need a caller. The activity stream always needs one.
+ */
+export function createAuthMiddleware(
+  options: { requireCredentials?: boolean } = {}
+): ApiMiddleware {
+  return {
+    name: 'auth',
+    handler: async (
+      request: ApiRequest,
+      next: () => Promise<ApiResponse>
+    ): Promise<ApiResponse> => {
+      // Skip auth for status endpoint
+      if (request.path === '/api/status') {
+        return next()
+      }
+
+      const auth: RequestAuth = {
+        defaultAccess: options.requireCredentials ? 'authenticated' : 'public',
+      }
+
+      const key = getApiKeyFromHeaders(request.headers)
+      if (key) {
+        const verification = await verifyApiKey(prisma, key)
+        if ('error' in verification) {
+          return ApiResponseBuilder.error({
+            code: 'AUTHENTICATION_FAILED',
+            message:
+              verification.error === 'invalid'
+                ? 'Invalid API key provided'
+                : `API key has ${verification.error === 'expired' ? 'expired' : 'been revoked'}`,
+            details: [`The provided API key is ${verification.error}`],
+          })
+        }
+        auth.apiKey = verification.apiKey
+      } else if (request.query?.['api_key'] || request.query?.['apiKey']) {
+        return ApiResponseBuilder.authRequired(
+          'API keys are not accepted in the query string. Send the key in the X-API-Key header'
+        )
+      } else {
+        auth.user = await getRequestUser(request.headers)
+      }
+
+      const isContentPath = !['/api/search', '/api/graphql', '/api/activity'].includes(request.path)
+      if (!isContentPath && auth.defaultAccess === 'authenticated' && !auth.apiKey && !auth.user) {
+        return ApiResponseBuilder.authRequired(AUTHENTICATION_REQUIRED_MESSAGE)
+      }
+
+      request.auth = auth
+      return next()
+    },
+  }
+}
+
+/**
+ * Whether API calls need an API key or signed-in user by default
+ *
+ * REQUIRE_API_KEY=true or false decides; without it, production deployments require one. The
+ * legacy API_KEYS variable always requires one, so that deployments which relied on it stay
+ * closed until their keys have been recreated in the API Manager and the variable is removed.
+ */
+export function isApiAuthRequired(env: Record<string, string | undefined> = process.env): boolean {
+  if (env.API_KEYS) return true
+  if (env.REQUIRE_API_KEY) return env.REQUIRE_API_KEY === 'true'
+  return env.NODE_ENV === 'production'
+}
+
 /**
  * Default API manager instance
  */
 export const apiManager = new ApiManager({
-  enableAuth: false, // Can be enabled by setting API keys
+  enableAuth: isApiAuthRequired(),
   enableLogging: true,
   corsEnabled: true,
 })
@@ -325,6 +480,7 @@ export const api = {
     options: {
       body?: unknown
       query?: Record<string, string>
+      headers?: Record<string, string>
     } = {}
   ): Promise<ApiResponse> {
     return apiManager.handleRequest({
@@ -332,11 +488,18 @@ export const api = {
       path,
       body: options.body,
       query: options.query,
+      headers: options.headers,
     })
   },
 
   /**
    * List entries for a content type
+   *
+   * `filter` maps field names to operators, e.g. `{ price: { gt: 10 }, tags: { in: ['a', 'b'] } }`,
+   * `sort` is a list such as `price:desc,createdAt:asc` and `fields` limits the returned values.
+   * Passing `after`/`before` (or `pagination: 'cursor'` for the first page) switches to cursor
+   * pagination; the next cursor is `meta.pageInfo.endCursor` of the response. Drafts, scheduled
+   * and archived entries are only listed with credentials in `headers` that may read them.
    */
   async listEntries(
     contentTypeSlug: string,
@@ -344,34 +507,114 @@ export const api = {
       page?: number
       limit?: number
       search?: string
-    }
+      populate?: string
+      filter?: Record<string, Partial<Record<FilterOperator, EntryFilterValue>>>
+      sort?: string
+      fields?: string[]
+      status?: string[]
+      pagination?: 'page' | 'cursor'
+      after?: string
+      before?: string
+    },
+    headers?: Record<string, string>
   ) {
     const query: Record<string, string> = {}
     if (params?.page) query.page = params.page.toString()
     if (params?.limit) query.limit = params.limit.toString()
     if (params?.search) query.search = params.search
+    if (params?.populate) query.populate = params.populate
+    if (params?.sort) query.sort = params.sort
+    if (params?.fields) query.fields = params.fields.join(',')
+    if (params?.status) query.status = params.status.join(',')
+    if (params?.pagination) query.pagination = params.pagination
+    if (params?.after !== undefined) query.after = params.after
+    if (params?.before !== undefined) query.before = params.before
+    for (const [field, operators] of Object.entries(params?.filter ?? {})) {
+      for (const [operator, value] of Object.entries(operators)) {
+        if (value === undefined) continue
+        query[`filter[${field}][${operator}]`] = Array.isArray(value)
+          ? value.join(',')
+          : value instanceof Date
+            ? value.toISOString()
+            : String(value)
+      }
+    }
+
+    return apiManager.get(`/api/${contentTypeSlug}`, query, headers)
+  },
+
+  /**
+   * Full-text search across content types, or within `types` only
+   */
+  async search(
+    q: string,
+    params?: { types?: string[]; page?: number; limit?: number },
+    headers?: Record<string, string>
+  ) {
+    const query: Record<string, string> = { q }
+    if (params?.types) query.types = params.types.join(',')
+    if (params?.page) query.page = params.page.toString()
+    if (params?.limit) query.limit = params.limit.toString()
 
-    return apiManager.get(`/api/${contentTypeSlug}`, query)
+    return apiManager.get('/api/search', query, headers)
   },
 
   /**
-   * Get a single entry
+   * Full-text search within one content type
    */
-  async getEntry(contentTypeSlug: string, entryId: string) {
-    return apiManager.get(`/api/${contentTypeSlug}/${entryId}`)
+  async searchEntries(
+    contentTypeSlug: string,
+    q: string,
+    params?: { page?: number; limit?: number },
+    headers?: Record<string, string>
+  ) {
+    const query: Record<string, string> = { q }
+    if (params?.page) query.page = params.page.toString()
+    if (params?.limit) query.limit = params.limit.toString()
+
+    return apiManager.get(`/api/${contentTypeSlug}/search`, query, headers)
+  },
+
+  /**
+   * Execute a GraphQL query or mutation; `data` is the GraphQL result (`{ data, errors }`)
+   */
+  async graphql(
+    query: string,
+    variables?: Record<string, unknown>,
+    operationName?: string,
+    headers?: Record<string, string>
+  ) {
+    return apiManager.post('/api/graphql', { query, variables, operationName }, headers)
+  },
+
+  /**
+   * Get a single entry; unpublished entries need credentials in `headers` that may read them
+   */
+  async getEntry(
+    contentTypeSlug: string,
+    entryId: string,
+    params?: { populate?: string },
+    headers?: Record<string, string>
+  ) {
+    return apiManager.get(
+      `/api/${contentTypeSlug}/${entryId}`,
+      params?.populate ? { populate: params.populate } : undefined,
+      headers
+    )
   },
 
   /**
-   * Create a new entry
+   * Create a new entry; writes need credentials, e.g. `{ 'x-api-key': key }` in `headers`
    */
   async createEntry(
     contentTypeSlug: string,
     data: {
       slug?: string
       fieldValues: { fieldId: string; value: string }[]
-    }
+    },
+    headers?: Record<string, string>
   ) {
-    return apiManager.post(`/api/${contentTypeSlug}`, data)
+    return apiManager.post(`/api/${contentTypeSlug}`, data, headers)
   },
 
   /**
@@ -383,16 +626,40 @@ export const api = {
     data: {
       slug?: string
       fieldValues?: { fieldId: string; value: string }[]
-    }
+    },
+    headers?: Record<string, string>
   ) {
-    return apiManager.put(`/api/${contentTypeSlug}/${entryId}`, data)
+    return apiManager.put(`/api/${contentTypeSlug}/${entryId}`, data, headers)
   },
 
   /**
    * Delete an entry
    */
-  async deleteEntry(contentTypeSlug: string, entryId: string) {
-    return apiManager.delete(`/api/${contentTypeSlug}/${entryId}`)
+  async deleteEntry(contentTypeSlug: string, entryId: string, headers?: Record<string, string>) {
+    return apiManager.delete(`/api/${contentTypeSlug}/${entryId}`, headers)
+  },
+
+  /**
+   * List the revision history of an entry, newest first; needs credentials in `headers`
+   */
+  async listRevisions(contentTypeSlug: string, entryId: string, headers?: Record<string, string>) {
+    return apiManager.get(`/api/${contentTypeSlug}/${entryId}/revisions`, undefined, headers)
+  },
+
+  /**
+   * Restore an entry from one of its revisions
+   */
+  async restoreRevision(
+    contentTypeSlug: string,
+    entryId: string,
+    revisionId: string,
+    headers?: Record<string, string>
+  ) {
+    return apiManager.post(
+      `/api/${contentTypeSlug}/${entryId}/revisions/${revisionId}/restore`,
+      {},
+      headers
+    )
   },
 
   /**
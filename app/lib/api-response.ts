@@ -3,23 +3,46 @@
  * Provides consistent response format and error handling for all API endpoints
  */
 
-export type ApiErrorCode =
-  | 'VALIDATION_ERROR'
-  | 'NOT_FOUND'
-  | 'AUTHENTICATION_REQUIRED'
-  | 'AUTHENTICATION_FAILED'
-  | 'AUTHORIZATION_FAILED'
-  | 'METHOD_NOT_ALLOWED'
-  | 'INTERNAL_SERVER_ERROR'
-  | 'BAD_REQUEST'
-  | 'CONFLICT'
-  | 'RATE_LIMITED'
+export const API_ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'NOT_FOUND',
+  'AUTHENTICATION_REQUIRED',
+  'AUTHENTICATION_FAILED',
+  'AUTHORIZATION_FAILED',
+  'METHOD_NOT_ALLOWED',
+  'INTERNAL_SERVER_ERROR',
+  'BAD_REQUEST',
+  'CONFLICT',
+  'PAYLOAD_TOO_LARGE',
+  'RATE_LIMITED',
+] as const
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number]
+
+/**
+ * A validation failure tied to a location in the request body, e.g. `fieldValues.title`
+ */
+export type ApiFieldError = {
+  path: string
+  message: string
+}
+
+/**
+ * Position of a cursor-paginated list; pass `endCursor` as `after` to read the next page
+ */
+export type ApiPageInfo = {
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+  startCursor: string | null
+  endCursor: string | null
+}
 
 export type ApiResponseMeta = {
   requestId?: string
   timestamp: string
   version: string
   processingTime?: number
+  pageInfo?: ApiPageInfo
 }
 
 export type StandardApiResponse<T = unknown> = {
@@ -30,6 +53,7 @@ export type StandardApiResponse<T = unknown> = {
     code: ApiErrorCode
     message: string
     details?: string[]
+    fields?: ApiFieldError[]
     debug?: unknown
   }
   meta: ApiResponseMeta
@@ -45,6 +69,7 @@ export type ApiErrorOptions = {
   code: ApiErrorCode
   message?: string
   details?: string[]
+  fields?: ApiFieldError[]
   debug?: unknown
   meta?: Partial<ApiResponseMeta>
 }
@@ -61,6 +86,7 @@ const ERROR_STATUS_MAP: Record<ApiErrorCode, number> = {
   NOT_FOUND: 404,
   METHOD_NOT_ALLOWED: 405,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
   RATE_LIMITED: 429,
   INTERNAL_SERVER_ERROR: 500,
 }
@@ -77,6 +103,7 @@ const DEFAULT_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
   NOT_FOUND: 'Resource not found',
   METHOD_NOT_ALLOWED: 'Method not allowed',
   CONFLICT: 'Resource conflict',
+  PAYLOAD_TOO_LARGE: 'Request payload too large',
   RATE_LIMITED: 'Rate limit exceeded',
   INTERNAL_SERVER_ERROR: 'Internal server error',
 }
@@ -100,6 +127,7 @@ export class ApiResponseBuilder {
       timestamp: new Date().toISOString(),
       version: options?.version || this.version,
       processingTime: options?.processingTime,
+      pageInfo: options?.pageInfo,
     }
   }
 
@@ -128,6 +156,7 @@ export class ApiResponseBuilder {
         code: options.code,
         message: errorMessage,
         details: options.details,
+        fields: options.fields,
         // Only include debug info in non-production environments
         debug: !this.isProduction ? options.debug : undefined,
       },
@@ -189,14 +218,30 @@ export class ApiResponseBuilder {
   /**
    * Convenience method for validation errors
    */
-  static validationError(details: string[], message?: string): StandardApiResponse {
+  static validationError(
+    details: string[],
+    message?: string,
+    fields?: ApiFieldError[]
+  ): StandardApiResponse {
     return this.error({
       code: 'VALIDATION_ERROR',
       message: message || 'Validation failed',
       details,
+      fields,
     })
   }
 
+  /**
+   * Convenience method for validation errors reported per field
+   */
+  static fieldValidationError(fields: ApiFieldError[], message?: string): StandardApiResponse {
+    return this.validationError(
+      fields.map(field => field.message),
+      message,
+      fields
+    )
+  }
+
   /**
    * Convenience method for not found errors
    */
@@ -0,0 +1,31 @@
+/**
+ * Client data layer for the audit log
+ * Wraps the audit log server functions and exposes React Query hooks for the Audit Log screen
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { fetchAuditLogs, exportAuditLogsFn } from '~/server/audit-log-functions'
+import type { AuditLogExport, AuditLogPage, AuditLogQuery } from './audit-log'
+
+export const auditLogApi = {
+  async getAuditLogs(query: AuditLogQuery): Promise<AuditLogPage> {
+    return fetchAuditLogs({ data: query })
+  },
+
+  async exportAuditLogs(query: AuditLogQuery): Promise<AuditLogExport> {
+    return exportAuditLogsFn({ data: query })
+  },
+}
+
+export const auditLogQueryKeys = {
+  all: ['audit-log'] as const,
+  list: (query: AuditLogQuery) => [...auditLogQueryKeys.all, query] as const,
+}
+
+export function useAuditLogs(query: AuditLogQuery) {
+  return useQuery({
+    queryKey: auditLogQueryKeys.list(query),
+    queryFn: () => auditLogApi.getAuditLogs(query),
+    placeholderData: previous => previous,
+  })
+}
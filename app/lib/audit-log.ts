@@ -0,0 +1,80 @@
+/**
+ * Security audit log shared by the audit log API and the admin Audit Log screen
+ */
+
+export const AUDIT_EVENTS = {
+  LOGIN_SUCCESS: 'Signed in',
+  LOGIN_ATTEMPT: 'Failed sign-in',
+  LOGOUT: 'Signed out',
+  USER_REGISTERED: 'Registered',
+  ENTRY_CREATED: 'Created entry',
+  ENTRY_UPDATED: 'Updated entry',
+  ENTRY_DELETED: 'Deleted entry',
+  ENTRY_STATUS_CHANGED: 'Changed entry status',
+  ENTRY_RESTORED: 'Restored entry revision',
+  CONTENT_TYPE_CREATED: 'Created content type',
+  CONTENT_TYPE_UPDATED: 'Updated content type',
+  CONTENT_TYPE_DELETED: 'Deleted content type',
+  ENDPOINT_SETTINGS_UPDATED: 'Updated endpoint settings',
+  MEDIA_UPLOADED: 'Uploaded media',
+  MEDIA_UPDATED: 'Updated media',
+  MEDIA_DELETED: 'Deleted media',
+  ROLE_CREATED: 'Created role',
+  ROLE_UPDATED: 'Updated role',
+  ROLE_DELETED: 'Deleted role',
+  USER_ROLES_CHANGED: 'Changed user roles',
+  API_KEY_CREATED: 'Created API key',
+  API_KEY_ROTATED: 'Rotated API key',
+  API_KEY_REVOKED: 'Revoked API key',
+} as const
+
+export type AuditEvent = keyof typeof AUDIT_EVENTS
+
+/** Details of an entry as stored, e.g. the ID of the changed entry or the assigned role IDs */
+export type AuditLogDetails = Record<string, string | number | boolean | null | string[]>
+
+export type AuditLogEntry = {
+  id: string
+  createdAt: string
+  event: string
+  userId: string | null
+  userEmail: string | null
+  ip: string
+  userAgent: string
+  success: boolean
+  details: AuditLogDetails | null
+}
+
+/** Filters of the audit log query; `user` matches a user ID or part of an email address */
+export type AuditLogQuery = {
+  user?: string
+  event?: string
+  ip?: string
+  /** ISO date or date-time; entries at or after it */
+  from?: string
+  /** ISO date or date-time; entries before it, or before the next day for a date */
+  to?: string
+  page?: number
+  pageSize?: number
+}
+
+export type AuditLogPage = {
+  entries: AuditLogEntry[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export type AuditLogExport = {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50
+
+export const AUDIT_LOG_MAX_PAGE_SIZE = 500
+
+export function getAuditEventLabel(event: string): string {
+  return AUDIT_EVENTS[event as AuditEvent] ?? event
+}
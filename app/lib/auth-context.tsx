@@ -1,10 +1,13 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
+import type { RolePermissions } from './permissions'
 
 export interface AuthUser {
   id: string
   email: string
   name: string | null
   role: 'ADMIN' | 'EDITOR' | 'AUTHOR' | 'VIEWER'
+  roles?: string[]
+  permissions?: RolePermissions
 }
 
 interface AuthContextType {
@@ -0,0 +1,476 @@
+/**
+ * Runtime of the generated TanCMS client SDK
+ * Copied verbatim into every generated package next to the generated types, so it must not
+ * import anything. Entries are read and written by field name; field IDs are resolved from the
+ * content type the API returns, so one package works against every environment.
+ */
+
+export type EntryStatus = 'DRAFT' | 'PUBLISHED' | 'SCHEDULED' | 'ARCHIVED'
+
+/** How a field value is stored by the API and decoded by the client */
+export type FieldKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'json'
+  | 'relation'
+  | 'relations'
+  | 'media'
+  | 'mediaList'
+
+export type MediaReference = {
+  id: string
+  url: string
+  altText: string | null
+  mimeType: string
+  size: number
+  width: number | null
+  height: number | null
+  formats: Record<string, { url: string; width?: number; height?: number }> | null
+  srcSet: string | null
+}
+
+export type Entry<TFields> = {
+  id: string
+  contentTypeId: string
+  slug: string | null
+  status: EntryStatus
+  publishedAt: string | null
+  scheduledAt: string | null
+  unpublishAt: string | null
+  archiveAt: string | null
+  authorId: string | null
+  createdAt: string
+  updatedAt: string
+  fields: TFields
+  /** Related entries by field name when requested with `populate` */
+  populated?: Record<string, unknown>
+}
+
+export type StringFilter = {
+  eq?: string
+  ne?: string
+  lt?: string
+  lte?: string
+  gt?: string
+  gte?: string
+  in?: string[]
+  contains?: string
+  startsWith?: string
+  null?: boolean
+}
+
+export type NumberFilter = {
+  eq?: number
+  ne?: number
+  lt?: number
+  lte?: number
+  gt?: number
+  gte?: number
+  in?: number[]
+  null?: boolean
+}
+
+export type BooleanFilter = { eq?: boolean; ne?: boolean; null?: boolean }
+
+export type DateFilter = {
+  eq?: string | Date
+  ne?: string | Date
+  lt?: string | Date
+  lte?: string | Date
+  gt?: string | Date
+  gte?: string | Date
+  null?: boolean
+}
+
+export type StatusFilter = { eq?: EntryStatus; ne?: EntryStatus; in?: EntryStatus[] }
+
+/** Filters on the entry columns, combined with the field filters of each content type */
+export type EntryColumnFilter = {
+  id?: StringFilter
+  slug?: StringFilter
+  status?: StatusFilter
+  createdAt?: DateFilter
+  updatedAt?: DateFilter
+  publishedAt?: DateFilter
+  scheduledAt?: DateFilter
+}
+
+/**
+ * Typed builder for list filters: `filter => filter.where('views', 'gte', 10)`
+ */
+export class FilterBuilder<TFilter> {
+  private readonly filter: Record<string, Record<string, unknown>> = {}
+
+  where<K extends keyof TFilter & string, O extends keyof NonNullable<TFilter[K]> & string>(
+    field: K,
+    operator: O,
+    value: NonNullable<TFilter[K]>[O]
+  ): this {
+    this.filter[field] = { ...this.filter[field], [operator]: value }
+    return this
+  }
+
+  build(): TFilter {
+    return this.filter as TFilter
+  }
+}
+
+type FilterCallback<TFilter> = (builder: FilterBuilder<TFilter>) => FilterBuilder<TFilter>
+
+/** `field`, `field:asc` or `field:desc` */
+export type SortOrder<K extends string> = K | `${K}:asc` | `${K}:desc`
+
+export type ListParams<TFilter, TSortField extends string> = {
+  page?: number
+  limit?: number
+  filter?: TFilter | FilterCallback<TFilter>
+  sort?: SortOrder<TSortField>[]
+  status?: EntryStatus[]
+  search?: string
+  /** Relation fields to embed in `populated`, dotted for nested relations */
+  populate?: string[]
+  /** Cursor pagination; an empty string starts at the first entry */
+  after?: string
+  /** Cursor pagination; an empty string starts at the last entry */
+  before?: string
+}
+
+export type Pagination = {
+  page?: number
+  limit: number
+  total?: number
+  totalPages?: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+export type PageInfo = {
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+  startCursor: string | null
+  endCursor: string | null
+}
+
+export type EntryList<TEntry> = {
+  entries: TEntry[]
+  pagination: Pagination
+  /** Cursors of the first and last entry in cursor pagination */
+  pageInfo?: PageInfo
+}
+
+export type ClientOptions = {
+  /** Origin of the CMS, e.g. https://cms.example.com */
+  baseUrl: string
+  /** Sent as the `X-API-Key` header */
+  apiKey?: string
+  /** JWT access token, sent as a Bearer token */
+  token?: string
+  fetch?: typeof fetch
+}
+
+type ApiFieldError = { path: string; message: string }
+
+type ApiEnvelope = {
+  success: boolean
+  message: string
+  data?: unknown
+  error?: { code: string; message: string; details?: string[]; fields?: ApiFieldError[] }
+  meta?: { pageInfo?: PageInfo }
+}
+
+type RawField = { id: string; name: string }
+
+type RawEntry = Omit<Entry<never>, 'fields'> & {
+  fieldValues: { fieldId: string; value: string | null; media?: unknown }[]
+}
+
+type RawContentType = { id: string; slug: string; fields: RawField[] }
+
+/**
+ * Error response of the API
+ */
+export class TanCmsError extends Error {
+  readonly status: number
+  readonly code: string
+  readonly details?: string[]
+  readonly fields?: ApiFieldError[]
+
+  constructor(status: number, error: NonNullable<ApiEnvelope['error']>) {
+    super(error.message)
+    this.name = 'TanCmsError'
+    this.status = status
+    this.code = error.code
+    this.details = error.details
+    this.fields = error.fields
+  }
+}
+
+/**
+ * HTTP transport shared by the content type resources of a client
+ */
+export class ApiTransport {
+  private readonly options: ClientOptions
+
+  constructor(options: ClientOptions) {
+    this.options = options
+  }
+
+  async request<T>(
+    method: string,
+    path: string,
+    query: Record<string, string> = {},
+    body?: unknown
+  ): Promise<{ data: T; meta: ApiEnvelope['meta'] }> {
+    const url = new URL(path, this.options.baseUrl)
+    Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value))
+
+    const headers: Record<string, string> = { Accept: 'application/json' }
+    if (body !== undefined) headers['Content-Type'] = 'application/json'
+    if (this.options.apiKey) headers['X-API-Key'] = this.options.apiKey
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`
+
+    const response = await (this.options.fetch ?? fetch)(url.toString(), {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const envelope = (await response.json()) as ApiEnvelope
+
+    if (!envelope.success) {
+      throw new TanCmsError(
+        response.status,
+        envelope.error ?? { code: 'INTERNAL_SERVER_ERROR', message: envelope.message }
+      )
+    }
+    return { data: envelope.data as T, meta: envelope.meta }
+  }
+}
+
+function encodeFilterValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(encodeFilterValue).join(',')
+  return String(value)
+}
+
+function parseIds(value: string | null): string[] {
+  if (!value) return []
+  if (value.trim().startsWith('[')) {
+    try {
+      const ids = JSON.parse(value)
+      return Array.isArray(ids) ? ids.map(String) : []
+    } catch {
+      return []
+    }
+  }
+  return value
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+}
+
+function decodeValue(
+  kind: FieldKind,
+  fieldValue?: { value: string | null; media?: unknown }
+): unknown {
+  const value = fieldValue?.value || null
+
+  switch (kind) {
+    case 'number':
+      return value === null ? null : Number(value)
+    case 'boolean':
+      return value === null ? null : value === 'true'
+    case 'json':
+      if (value === null) return null
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value
+      }
+    case 'relation':
+      return parseIds(value)[0] ?? null
+    case 'relations':
+      return parseIds(value)
+    case 'media':
+      return fieldValue?.media ?? null
+    case 'mediaList':
+      return fieldValue?.media ?? []
+    default:
+      return value
+  }
+}
+
+function encodeValue(kind: FieldKind, value: unknown): unknown {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if ((kind === 'relations' || kind === 'mediaList') && Array.isArray(value)) {
+    return JSON.stringify(value)
+  }
+  return value
+}
+
+/**
+ * List, get, create, update and delete the entries of one content type
+ *
+ * `TFields` is the decoded entry and `TInput` the writable shape of the generated content type
+ * interfaces; `kinds` maps every field name to its value kind.
+ */
+export class ContentTypeResource<TFields, TInput, TFilter, TSortField extends string> {
+  private readonly transport: ApiTransport
+  private readonly slug: string
+  private readonly kinds: Record<string, FieldKind>
+  private fieldIds?: Map<string, string>
+
+  constructor(transport: ApiTransport, slug: string, kinds: Record<string, FieldKind>) {
+    this.transport = transport
+    this.slug = slug
+    this.kinds = kinds
+  }
+
+  async list(params: ListParams<TFilter, TSortField> = {}): Promise<EntryList<Entry<TFields>>> {
+    const query: Record<string, string> = {}
+    if (params.page !== undefined) query.page = String(params.page)
+    if (params.limit !== undefined) query.limit = String(params.limit)
+    if (params.sort?.length) query.sort = params.sort.join(',')
+    if (params.status?.length) query.status = params.status.join(',')
+    if (params.search) query.search = params.search
+    if (params.populate?.length) query.populate = params.populate.join(',')
+    if (params.after !== undefined) query.after = params.after
+    if (params.before !== undefined) query.before = params.before
+
+    const filter =
+      typeof params.filter === 'function'
+        ? (params.filter as FilterCallback<TFilter>)(new FilterBuilder<TFilter>()).build()
+        : params.filter
+    Object.entries((filter ?? {}) as Record<string, Record<string, unknown>>).forEach(
+      ([field, operators]) =>
+        Object.entries(operators ?? {}).forEach(([operator, value]) => {
+          if (value !== undefined) {
+            query[`filter[${field}][${operator}]`] = encodeFilterValue(value)
+          }
+        })
+    )
+
+    const { data, meta } = await this.transport.request<{
+      contentType: RawContentType
+      entries: RawEntry[]
+      pagination: Pagination
+    }>('GET', `/api/${this.slug}`, query)
+    this.rememberFields(data.contentType)
+
+    return {
+      entries: data.entries.map(entry => this.decode(entry, data.contentType)),
+      pagination: data.pagination,
+      ...(meta?.pageInfo && { pageInfo: meta.pageInfo }),
+    }
+  }
+
+  async get(id: string, options: { populate?: string[] } = {}): Promise<Entry<TFields>> {
+    const query: Record<string, string> = options.populate?.length
+      ? { populate: options.populate.join(',') }
+      : {}
+    return this.send('GET', `/${encodeURIComponent(id)}`, query)
+  }
+
+  /**
+   * Create an entry; `slug` defaults to one derived from the entry title
+   */
+  async create(values: TInput, options: { slug?: string } = {}): Promise<Entry<TFields>> {
+    return this.send(
+      'POST',
+      '',
+      {},
+      {
+        slug: options.slug,
+        fieldValues: await this.encode(values as Record<string, unknown>),
+      }
+    )
+  }
+
+  /**
+   * Update an entry; fields missing from `values` keep their current value
+   */
+  async update(
+    id: string,
+    values: Partial<TInput>,
+    options: { slug?: string } = {}
+  ): Promise<Entry<TFields>> {
+    const path = `/api/${this.slug}/${encodeURIComponent(id)}`
+    const { data } = await this.transport.request<{ entry: RawEntry; contentType: RawContentType }>(
+      'GET',
+      path
+    )
+    this.rememberFields(data.contentType)
+
+    const changes = await this.encode(values as Record<string, unknown>)
+    const fieldValues = [
+      ...data.entry.fieldValues
+        .filter(fv => !changes.some(change => change.fieldId === fv.fieldId))
+        .map(fv => ({ fieldId: fv.fieldId, value: fv.value })),
+      ...changes,
+    ]
+
+    return this.send('PUT', `/${encodeURIComponent(id)}`, {}, { slug: options.slug, fieldValues })
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.transport.request('DELETE', `/api/${this.slug}/${encodeURIComponent(id)}`)
+  }
+
+  private async send(
+    method: string,
+    subPath: string,
+    query: Record<string, string>,
+    body?: unknown
+  ): Promise<Entry<TFields>> {
+    const { data } = await this.transport.request<{
+      entry: RawEntry
+      contentType: RawContentType
+    }>(method, `/api/${this.slug}${subPath}`, query, body)
+    this.rememberFields(data.contentType)
+    return this.decode(data.entry, data.contentType)
+  }
+
+  private rememberFields(contentType: RawContentType) {
+    this.fieldIds = new Map(contentType.fields.map(field => [field.name, field.id]))
+  }
+
+  private async encode(values: Record<string, unknown>) {
+    if (!this.fieldIds) {
+      const { data } = await this.transport.request<{ contentType: RawContentType }>(
+        'GET',
+        `/api/${this.slug}`,
+        { limit: '1' }
+      )
+      this.rememberFields(data.contentType)
+    }
+
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => {
+        const fieldId = this.fieldIds!.get(name)
+        if (!fieldId || !(name in this.kinds)) {
+          throw new Error(
+            `Field '${name}' does not exist on '${this.slug}'; regenerate the client SDK`
+          )
+        }
+        return { fieldId, value: encodeValue(this.kinds[name], value) }
+      })
+  }
+
+  private decode(raw: RawEntry, contentType: RawContentType): Entry<TFields> {
+    const { fieldValues, ...entry } = raw
+    const fields: Record<string, unknown> = {}
+
+    for (const [name, kind] of Object.entries(this.kinds)) {
+      const field = contentType.fields.find(candidate => candidate.name === name)
+      fields[name] = decodeValue(
+        kind,
+        fieldValues.find(fv => fv.fieldId === field?.id)
+      )
+    }
+
+    return { ...entry, fields: fields as TFields }
+  }
+}
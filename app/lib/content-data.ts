@@ -0,0 +1,286 @@
+/**
+ * Client data layer for content types and entries
+ * Wraps the content server functions and exposes React Query hooks for the admin screens
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  fetchContentTypes,
+  fetchContentType,
+  createContentTypeFn,
+  updateContentTypeFn,
+  deleteContentTypeFn,
+  updateEndpointSettingsFn,
+  fetchContentEntries,
+  fetchContentEntry,
+  createContentEntryFn,
+  updateContentEntryFn,
+  deleteContentEntryFn,
+  changeContentEntryStatusFn,
+  fetchScheduledEntriesToPublish,
+  fetchEntryRevisions,
+  restoreEntryRevisionFn,
+  fetchSchedulerStatus,
+  runSchedulerFn,
+  searchRelationTargetsFn,
+  searchContentFn,
+} from '~/server/content-functions'
+import { searchMediaFn } from '~/server/media-functions'
+import type {
+  ContentEntry,
+  ContentEntryInput,
+  ContentEntryRevision,
+  ContentEntryUpdate,
+  ContentSearchResult,
+  ContentStatus,
+  ContentType,
+  ContentTypeInput,
+  SchedulerRunResult,
+  SchedulerStatus,
+} from './content-types'
+import type { EndpointSettings } from './endpoint-settings'
+import type { RelationTarget } from './relations'
+import type { MediaFile } from './media-service'
+import { activityQueryKeys } from './activity-data'
+
+export const contentApi = {
+  // Content Types
+  async getContentTypes(): Promise<ContentType[]> {
+    return fetchContentTypes()
+  },
+
+  async getContentType(id: string): Promise<ContentType | null> {
+    return fetchContentType({ data: id })
+  },
+
+  async createContentType(data: ContentTypeInput): Promise<ContentType> {
+    return createContentTypeFn({ data })
+  },
+
+  async updateContentType(
+    id: string,
+    data: Partial<ContentTypeInput>
+  ): Promise<ContentType | null> {
+    return updateContentTypeFn({ data: { id, data } })
+  },
+
+  async deleteContentType(id: string): Promise<boolean> {
+    return deleteContentTypeFn({ data: id })
+  },
+
+  async updateEndpointSettings(
+    id: string,
+    settings: EndpointSettings
+  ): Promise<ContentType | null> {
+    return updateEndpointSettingsFn({ data: { id, settings } })
+  },
+
+  // Content Entries
+  async getContentEntries(contentTypeId: string): Promise<ContentEntry[]> {
+    return fetchContentEntries({ data: { contentTypeId } })
+  },
+
+  async getContentEntry(id: string): Promise<ContentEntry | null> {
+    return fetchContentEntry({ data: id })
+  },
+
+  async createContentEntry(data: ContentEntryInput): Promise<ContentEntry> {
+    return createContentEntryFn({ data })
+  },
+
+  async updateContentEntry(id: string, data: ContentEntryUpdate): Promise<ContentEntry | null> {
+    return updateContentEntryFn({ data: { id, data } })
+  },
+
+  async deleteContentEntry(id: string): Promise<boolean> {
+    return deleteContentEntryFn({ data: id })
+  },
+
+  // Publishing workflow
+  async publishContentEntry(id: string): Promise<ContentEntry | null> {
+    return changeContentEntryStatusFn({ data: { id, action: 'publish' } })
+  },
+
+  async unpublishContentEntry(id: string): Promise<ContentEntry | null> {
+    return changeContentEntryStatusFn({ data: { id, action: 'unpublish' } })
+  },
+
+  async scheduleContentEntry(id: string, scheduledAt: Date): Promise<ContentEntry | null> {
+    return changeContentEntryStatusFn({ data: { id, action: 'schedule', scheduledAt } })
+  },
+
+  async unscheduleContentEntry(id: string): Promise<ContentEntry | null> {
+    return changeContentEntryStatusFn({ data: { id, action: 'unschedule' } })
+  },
+
+  async archiveContentEntry(id: string): Promise<ContentEntry | null> {
+    return changeContentEntryStatusFn({ data: { id, action: 'archive' } })
+  },
+
+  async getContentEntriesByStatus(
+    contentTypeId: string,
+    status: ContentStatus
+  ): Promise<ContentEntry[]> {
+    return fetchContentEntries({ data: { contentTypeId, status } })
+  },
+
+  async getScheduledEntriesToPublish(): Promise<ContentEntry[]> {
+    return fetchScheduledEntriesToPublish()
+  },
+
+  // Relation picker
+  async searchRelationTargets(
+    relatedType: string,
+    options: { search?: string; ids?: string[] } = {}
+  ): Promise<RelationTarget[]> {
+    return searchRelationTargetsFn({ data: { relatedType, ...options } })
+  },
+
+  async searchMedia(
+    options: { search?: string; allowedMimeTypes?: string[]; ids?: string[] } = {}
+  ): Promise<MediaFile[]> {
+    return searchMediaFn({ data: options })
+  },
+
+  // Full-text search
+  async searchContent(
+    q: string,
+    options: { contentTypeId?: string; limit?: number } = {}
+  ): Promise<ContentSearchResult[]> {
+    return searchContentFn({ data: { q, ...options } })
+  },
+
+  // Revision history
+  async getEntryRevisions(entryId: string): Promise<ContentEntryRevision[]> {
+    return fetchEntryRevisions({ data: entryId })
+  },
+
+  async restoreEntryRevision(revisionId: string): Promise<ContentEntry | null> {
+    return restoreEntryRevisionFn({ data: revisionId })
+  },
+
+  // Scheduled publishing
+  async getSchedulerStatus(): Promise<SchedulerStatus> {
+    return fetchSchedulerStatus()
+  },
+
+  async runScheduler(): Promise<SchedulerRunResult> {
+    return runSchedulerFn()
+  },
+}
+
+export const contentQueryKeys = {
+  all: ['content'] as const,
+  types: () => [...contentQueryKeys.all, 'types'] as const,
+  type: (id: string) => [...contentQueryKeys.types(), id] as const,
+  entries: (contentTypeId: string) => [...contentQueryKeys.all, 'entries', contentTypeId] as const,
+  revisions: (entryId: string) => [...contentQueryKeys.all, 'revisions', entryId] as const,
+  scheduler: () => [...contentQueryKeys.all, 'scheduler'] as const,
+  relationTargets: (relatedType: string, search: string, ids: string[] = []) =>
+    [...contentQueryKeys.all, 'relation-targets', relatedType, search, ...ids] as const,
+  media: (search: string, allowedMimeTypes: string[] = [], ids: string[] = []) =>
+    [...contentQueryKeys.all, 'media', search, allowedMimeTypes.join(','), ...ids] as const,
+  search: (q: string, contentTypeId = '', limit = 0) =>
+    [...contentQueryKeys.all, 'search', q, contentTypeId, limit] as const,
+}
+
+export function useContentTypes() {
+  return useQuery({
+    queryKey: contentQueryKeys.types(),
+    queryFn: () => contentApi.getContentTypes(),
+  })
+}
+
+export function useContentType(id: string | undefined) {
+  return useQuery({
+    queryKey: contentQueryKeys.type(id ?? ''),
+    queryFn: () => contentApi.getContentType(id!),
+    enabled: !!id,
+  })
+}
+
+export function useContentEntries(contentTypeId: string | undefined) {
+  return useQuery({
+    queryKey: contentQueryKeys.entries(contentTypeId ?? ''),
+    queryFn: () => contentApi.getContentEntries(contentTypeId!),
+    enabled: !!contentTypeId,
+  })
+}
+
+export function useEntryRevisions(entryId: string | undefined) {
+  return useQuery({
+    queryKey: contentQueryKeys.revisions(entryId ?? ''),
+    queryFn: () => contentApi.getEntryRevisions(entryId!),
+    enabled: !!entryId,
+  })
+}
+
+export function useRelationTargets(relatedType: string | undefined, search: string) {
+  return useQuery({
+    queryKey: contentQueryKeys.relationTargets(relatedType ?? '', search),
+    queryFn: () => contentApi.searchRelationTargets(relatedType!, { search }),
+    enabled: !!relatedType,
+  })
+}
+
+export function useSelectedRelationTargets(relatedType: string | undefined, ids: string[]) {
+  return useQuery({
+    queryKey: contentQueryKeys.relationTargets(relatedType ?? '', '', ids),
+    queryFn: () => contentApi.searchRelationTargets(relatedType!, { ids }),
+    enabled: !!relatedType && ids.length > 0,
+  })
+}
+
+export function useContentSearch(
+  q: string,
+  options: { contentTypeId?: string; limit?: number } = {}
+) {
+  const { contentTypeId, limit = 8 } = options
+  return useQuery({
+    queryKey: contentQueryKeys.search(q, contentTypeId, limit),
+    queryFn: () => contentApi.searchContent(q, { contentTypeId, limit }),
+    enabled: q.trim().length >= 2,
+    placeholderData: previous => previous,
+  })
+}
+
+export function useMediaLibrary(search: string, allowedMimeTypes: string[]) {
+  return useQuery({
+    queryKey: contentQueryKeys.media(search, allowedMimeTypes),
+    queryFn: () => contentApi.searchMedia({ search, allowedMimeTypes }),
+  })
+}
+
+export function useSelectedMedia(ids: string[]) {
+  return useQuery({
+    queryKey: contentQueryKeys.media('', [], ids),
+    queryFn: () => contentApi.searchMedia({ ids }),
+    enabled: ids.length > 0,
+  })
+}
+
+export function useSchedulerStatus() {
+  return useQuery({
+    queryKey: contentQueryKeys.scheduler(),
+    queryFn: () => contentApi.getSchedulerStatus(),
+    refetchInterval: 60_000,
+  })
+}
+
+/**
+ * Wrap a content write so every cached content and activity query is refetched once it settles
+ */
+export function useContentMutation<TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: contentQueryKeys.all }),
+        queryClient.invalidateQueries({ queryKey: activityQueryKeys.all }),
+      ]),
+  })
+}
@@ -0,0 +1,156 @@
+/**
+ * Shared content model types for the admin UI
+ * Mirrors the Prisma content models in the shape returned by the content server functions
+ */
+
+import type { EndpointSettings } from './endpoint-settings'
+
+export type ContentStatus = 'DRAFT' | 'PUBLISHED' | 'SCHEDULED' | 'ARCHIVED'
+
+export type ContentFieldOptionValue = string | number | boolean | null | string[]
+
+export type ContentFieldValidation = {
+  minLength?: number
+  maxLength?: number
+  min?: number
+  max?: number
+  pattern?: string
+}
+
+export type ContentField = {
+  id: string
+  name: string
+  displayName: string
+  fieldType: string
+  required: boolean
+  unique: boolean
+  defaultValue?: string
+  placeholder?: string
+  helpText?: string
+  validation?: ContentFieldValidation
+  options?: Record<string, ContentFieldOptionValue>
+  relatedType?: string
+  order: number
+  contentTypeId: string
+}
+
+export type ContentType = {
+  id: string
+  name: string
+  displayName: string
+  description?: string
+  slug: string
+  fields: ContentField[]
+  /** API endpoint settings per operation */
+  apiSettings: EndpointSettings
+  createdAt: Date
+  updatedAt: Date
+  _count?: {
+    entries: number
+  }
+}
+
+export type ContentFieldValue = {
+  id: string
+  fieldId: string
+  entryId: string
+  field: ContentField
+  value: string
+}
+
+export type ContentEntry = {
+  id: string
+  contentTypeId: string
+  slug?: string
+  status: ContentStatus
+  publishedAt?: Date
+  scheduledAt?: Date
+  unpublishAt?: Date
+  archiveAt?: Date
+  authorId?: string
+  fieldValues: ContentFieldValue[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ContentFieldInput = Omit<ContentField, 'id' | 'contentTypeId'> & { id?: string }
+
+export type ContentTypeInput = {
+  name: string
+  displayName: string
+  description?: string
+  fields: ContentFieldInput[]
+}
+
+export type ContentEntryInput = {
+  contentTypeId: string
+  slug?: string
+  status?: ContentStatus
+  scheduledAt?: Date
+  unpublishAt?: Date | null
+  archiveAt?: Date | null
+  fieldValues: { fieldId: string; value: string }[]
+}
+
+export type ContentEntryUpdate = Partial<Omit<ContentEntryInput, 'contentTypeId'>>
+
+export type RevisionFieldValue = {
+  fieldId: string
+  fieldName: string
+  value: string
+}
+
+export type ContentEntryRevision = {
+  id: string
+  entryId: string
+  version: number
+  slug?: string
+  status: ContentStatus
+  authorId?: string
+  author?: { id: string; name: string | null; email: string }
+  fieldValues: RevisionFieldValue[]
+  restoredFromId?: string
+  createdAt: Date
+}
+
+export type SchedulerRunAction = {
+  entryId: string
+  contentTypeId: string
+  action: 'publish' | 'unpublish' | 'archive'
+  error?: string
+}
+
+export type SchedulerRun = {
+  id: string
+  trigger: 'interval' | 'manual'
+  startedAt: Date
+  finishedAt?: Date
+  published: number
+  unpublished: number
+  archived: number
+  failed: number
+  actions: SchedulerRunAction[]
+  error?: string
+}
+
+/** Result of a manual scheduler run; busy when another run holds the scheduler lock */
+export type SchedulerRunResult = { busy: false; run: SchedulerRun } | { busy: true }
+
+export type SchedulerStatus = {
+  runs: SchedulerRun[]
+  upcoming: number
+  lock: { ownerId: string; expiresAt: Date } | null
+}
+
+export type ContentSearchResult = {
+  id: string
+  slug: string | null
+  title: string
+  status: ContentStatus
+  updatedAt: string
+  contentType: { id: string; slug: string; displayName: string }
+  /** Matching excerpt; HTML-escaped with matches wrapped in <mark> */
+  snippet: string
+  /** bm25 score, lower is more relevant */
+  rank: number
+}
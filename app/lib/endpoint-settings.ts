@@ -0,0 +1,95 @@
+/**
+ * Per content type API endpoint settings
+ *
+ * Every operation of a content type's REST endpoints (and the matching GraphQL fields) can be
+ * disabled, opened to anonymous requests, limited to authenticated requests (an API key with a
+ * matching scope or a signed-in user) or limited to signed-in users with a role: a minimum
+ * built-in role, or a custom role that admins also pass.
+ * Writes without an access level need an API key or signed-in user; reads without one use the
+ * server default: authenticated when REQUIRE_API_KEY=true, in production unless
+ * REQUIRE_API_KEY=false, and while the legacy API_KEYS variable is set; public otherwise.
+ */
+
+export const ENDPOINT_OPERATIONS = ['list', 'get', 'create', 'update', 'delete'] as const
+
+export type EndpointOperation = (typeof ENDPOINT_OPERATIONS)[number]
+
+export type EndpointAccess = 'public' | 'authenticated' | 'role'
+
+export const USER_ROLES = ['VIEWER', 'AUTHOR', 'EDITOR', 'ADMIN'] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+
+export function isUserRole(role: unknown): role is UserRole {
+  return USER_ROLES.includes(role as UserRole)
+}
+
+export type EndpointSetting = {
+  enabled: boolean
+  /** Server default when missing */
+  access?: EndpointAccess
+  /** Minimum built-in role or custom role name when `access` is `role` */
+  role?: string
+}
+
+export type EndpointSettings = Record<EndpointOperation, EndpointSetting>
+
+export const DEFAULT_ENDPOINT_SETTING: EndpointSetting = { enabled: true }
+
+/** Operations that change entries and need write access */
+export const WRITE_OPERATIONS: readonly EndpointOperation[] = ['create', 'update', 'delete']
+
+/**
+ * Access of an operation without an access level: writes always need an API key or signed-in
+ * user, reads follow the server default
+ */
+export function getDefaultAccess(
+  operation: EndpointOperation,
+  serverDefault: 'public' | 'authenticated'
+): 'public' | 'authenticated' {
+  return WRITE_OPERATIONS.includes(operation) ? 'authenticated' : serverDefault
+}
+
+function parseSetting(value: unknown): EndpointSetting {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_ENDPOINT_SETTING }
+  }
+
+  const { enabled, access, role } = value as Record<string, unknown>
+  const setting: EndpointSetting = { enabled: enabled !== false }
+  if (access === 'public' || access === 'authenticated') {
+    setting.access = access
+  } else if (access === 'role' && typeof role === 'string' && role.trim()) {
+    setting.access = 'role'
+    setting.role = role.trim()
+  }
+  return setting
+}
+
+/**
+ * Read the settings stored in a content type's JSON apiSettings column; operations without
+ * settings are enabled with the server default access
+ */
+export function getEndpointSettings(
+  contentType: { apiSettings?: string | null } | null | undefined
+): EndpointSettings {
+  let stored: Record<string, unknown> = {}
+  try {
+    stored = contentType?.apiSettings ? JSON.parse(contentType.apiSettings) : {}
+  } catch {
+    stored = {}
+  }
+
+  return Object.fromEntries(
+    ENDPOINT_OPERATIONS.map(operation => [operation, parseSetting(stored?.[operation])])
+  ) as EndpointSettings
+}
+
+/**
+ * Normalize settings from a client before they are stored
+ */
+export function normalizeEndpointSettings(
+  settings: Partial<Record<EndpointOperation, Partial<EndpointSetting>>>
+): EndpointSettings {
+  return getEndpointSettings({ apiSettings: JSON.stringify(settings ?? {}) })
+}
@@ -3,7 +3,7 @@
  * Handles formatting of different field types for display
  */
 
-import type { ContentField } from './mock-api'
+import type { ContentField } from './content-types'
 
 export interface FormattedValue {
   displayValue: string
@@ -0,0 +1,108 @@
+/**
+ * Media field settings shared by the admin UI and the server
+ * Media fields store Media IDs as their value and read their constraints from the field options
+ * (`multiple`, `allowedMimeTypes`, `maxFileSize` in bytes)
+ */
+
+import { parseRelationValue } from './relations'
+import type { MediaFormats } from './media-service'
+
+export type MediaFieldOptions = {
+  multiple: boolean
+  allowedMimeTypes: string[]
+  maxFileSize?: number
+}
+
+/**
+ * Media details embedded in API responses in place of a media reference
+ */
+export type MediaReference = {
+  id: string
+  url: string
+  altText: string | null
+  mimeType: string
+  size: number
+  width: number | null
+  height: number | null
+  formats: MediaFormats | null
+  /** Signed transform URLs by width, for `<img srcset>` */
+  srcSet: string | null
+}
+
+/**
+ * Read the media constraints from a field's options
+ */
+export function getMediaFieldOptions(options?: Record<string, unknown> | null): MediaFieldOptions {
+  const allowed = options?.allowedMimeTypes
+  const maxFileSize = Number(options?.maxFileSize)
+
+  return {
+    multiple: options?.multiple === true,
+    allowedMimeTypes: Array.isArray(allowed)
+      ? allowed.map(type => String(type).trim()).filter(Boolean)
+      : [],
+    maxFileSize: Number.isFinite(maxFileSize) && maxFileSize > 0 ? maxFileSize : undefined,
+  }
+}
+
+/**
+ * Whether a MIME type matches one of the allowed patterns (`image/*`, `application/pdf`)
+ *
+ * An empty pattern list allows every type.
+ */
+export function isMimeTypeAllowed(mimeType: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return true
+
+  return patterns.some(pattern =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern
+  )
+}
+
+/**
+ * Describe why a media file cannot be used in a field, or return null when it can
+ */
+export function getMediaConstraintError(
+  media: { mimeType: string; size: number },
+  options: MediaFieldOptions
+): string | null {
+  if (!isMimeTypeAllowed(media.mimeType, options.allowedMimeTypes)) {
+    return `type ${media.mimeType} is not one of ${options.allowedMimeTypes.join(', ')}`
+  }
+  if (options.maxFileSize !== undefined && media.size > options.maxFileSize) {
+    return `is larger than ${formatFileSize(options.maxFileSize)}`
+  }
+  return null
+}
+
+/**
+ * Parse a stored or submitted media value into a list of Media IDs
+ */
+export function parseMediaValue(value: unknown): string[] {
+  return parseRelationValue(value)
+}
+
+/**
+ * Format Media IDs as the stored value of a media field
+ */
+export function formatMediaValue(ids: string[], multiple: boolean): string {
+  if (ids.length === 0) return ''
+  return multiple ? JSON.stringify(ids) : ids[0]
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+/**
+ * Displayed image dimensions, e.g. `1200 × 800 px`, or null when they are unknown
+ */
+export function formatDimensions(media: {
+  width?: number | null
+  height?: number | null
+}): string | null {
+  return media.width && media.height ? `${media.width} × ${media.height} px` : null
+}
@@ -0,0 +1,143 @@
+/**
+ * Client media service for the media library
+ * Uploads go to the multipart /api/media endpoint; listing, editing and deleting use the media
+ * server functions, so files persist in the configured storage adapter and the Media table
+ */
+
+import {
+  fetchMediaFilesFn,
+  fetchMediaStatsFn,
+  updateMediaFn,
+  deleteMediaFilesFn,
+} from '~/server/media-functions'
+
+/**
+ * A resized rendition of an image, with an optional WebP variant of the same size
+ */
+export type MediaFormat = {
+  url: string
+  width: number
+  height: number
+  size: number
+  mimeType: string
+  webp?: Omit<MediaFormat, 'webp'>
+}
+
+/**
+ * Renditions of an image keyed by format name (thumbnail, small, medium, large)
+ */
+export type MediaFormats = Record<string, MediaFormat>
+
+export type MediaFile = {
+  id: string
+  url: string
+  filename: string
+  name: string
+  type: 'image' | 'video' | 'document'
+  size: number
+  mimeType: string
+  altText?: string
+  width?: number
+  height?: number
+  formats?: MediaFormats
+  /** Signed transform URLs by width, for `<img srcset>` */
+  srcSet?: string
+  createdAt: string
+}
+
+export type MediaStatistics = {
+  total: number
+  images: number
+  videos: number
+  documents: number
+  totalSize: number
+}
+
+export type MediaPagination = {
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+/**
+ * CSRF token for the X-CSRF-Token header of cookie-authenticated API requests: the value of the
+ * `csrf-token` cookie, which is set first when missing (double-submit cookie pattern)
+ */
+function getCsrfToken(): string {
+  const existing = document.cookie
+    .split(';')
+    .map(cookie => cookie.trim().split('='))
+    .find(([name]) => name === 'csrf-token')?.[1]
+  if (existing) return existing
+
+  const token = crypto.randomUUID()
+  const secure = location.protocol === 'https:' ? '; Secure' : ''
+  document.cookie = `csrf-token=${token}; Path=/; Max-Age=86400; SameSite=Strict${secure}`
+  return token
+}
+
+/**
+ * Upload a file and create media record
+ */
+export async function uploadFile(file: File, altText?: string): Promise<MediaFile> {
+  const form = new FormData()
+  form.append('file', file)
+  if (altText) form.append('altText', altText)
+
+  const response = await fetch('/api/media', {
+    method: 'POST',
+    body: form,
+    credentials: 'same-origin',
+    headers: { 'X-CSRF-Token': getCsrfToken() },
+  })
+  const result = await response.json().catch(() => null)
+
+  if (!response.ok || !result?.success) {
+    const details: string[] = result?.error?.details ?? []
+    throw new Error([result?.error?.message ?? 'Failed to upload file', ...details].join(': '))
+  }
+
+  return result.data.media[0]
+}
+
+/**
+ * Get all media files with filtering and pagination
+ */
+export async function getMediaFiles(
+  page: number = 1,
+  pageSize: number = 20,
+  searchTerm?: string,
+  type?: string
+): Promise<{ media: MediaFile[]; pagination: MediaPagination }> {
+  return fetchMediaFilesFn({ data: { page, pageSize, search: searchTerm, type } })
+}
+
+/**
+ * Update media metadata
+ */
+export async function updateMediaFile(id: string, data: { altText?: string }): Promise<MediaFile> {
+  return updateMediaFn({ data: { id, ...data } })
+}
+
+/**
+ * Delete media file
+ */
+export async function deleteMediaFile(id: string): Promise<boolean> {
+  return deleteMediaFiles([id])
+}
+
+/**
+ * Delete multiple media files in bulk
+ */
+export async function deleteMediaFiles(ids: string[]): Promise<boolean> {
+  const deleted = await deleteMediaFilesFn({ data: ids })
+  return deleted > 0
+}
+
+/**
+ * Get media statistics
+ */
+export async function getMediaStatistics(): Promise<MediaStatistics> {
+  return fetchMediaStatsFn()
+}
@@ -0,0 +1,180 @@
+/**
+ * Role permissions shared by the server checks and the admin Roles and Permissions screen
+ *
+ * Roles are defined in the database and a user can have several; their permissions add up. A
+ * role grants each action either on every content type (`*`) or on single content types
+ * (`blog-post`), which override the `*` grant. Entry actions that support ownership can be
+ * granted for `own` entries only, i.e. entries whose `authorId` is the user. Users with the
+ * built-in ADMIN role always have every permission so that no edit can lock everyone out.
+ */
+
+import { ALL_CONTENT_TYPES } from './api-keys'
+import type { UserRole } from './endpoint-settings'
+
+/** Actions that apply per content type */
+export const ENTRY_ACTIONS = [
+  'entry.read',
+  'entry.create',
+  'entry.update',
+  'entry.delete',
+  'entry.publish',
+] as const
+
+/** Actions that do not depend on a content type */
+export const GLOBAL_ACTIONS = [
+  'contentType.read',
+  'contentType.manage',
+  'media.upload',
+  'media.manage',
+  'api.manage',
+  'roles.manage',
+  'analytics.view',
+  'audit.view',
+] as const
+
+export type EntryAction = (typeof ENTRY_ACTIONS)[number]
+
+export type GlobalAction = (typeof GLOBAL_ACTIONS)[number]
+
+export type PermissionAction = EntryAction | GlobalAction
+
+/** Entry actions that can be limited to the user's own entries */
+export const OWNABLE_ACTIONS: readonly PermissionAction[] = [
+  'entry.update',
+  'entry.delete',
+  'entry.publish',
+]
+
+export type PermissionScope = 'none' | 'own' | 'all'
+
+/** Grants of one role: action → content type slug or `*` → scope */
+export type RolePermissions = Partial<Record<PermissionAction, Record<string, PermissionScope>>>
+
+/** Default permissions of the built-in roles */
+export type PermissionMatrix = Record<UserRole, RolePermissions>
+
+/**
+ * A database-defined role; roles created from a built-in role keep it as `baseRole` and fall back
+ * to its default permissions until edited
+ */
+export type CustomRoleInfo = {
+  id: string
+  name: string
+  description: string | null
+  baseRole: UserRole | null
+  permissions: RolePermissions
+  userCount: number
+}
+
+export type CustomRoleInput = {
+  name: string
+  description?: string | null
+  permissions?: RolePermissions
+}
+
+/** A user with their built-in role and the IDs of their custom roles */
+export type UserRoleAssignment = {
+  id: string
+  email: string
+  name: string | null
+  role: UserRole
+  roleIds: string[]
+}
+
+export const PERMISSION_LABELS: Record<PermissionAction, string> = {
+  'entry.read': 'Read entries',
+  'entry.create': 'Create entries',
+  'entry.update': 'Edit entries',
+  'entry.delete': 'Delete entries',
+  'entry.publish': 'Publish entries',
+  'contentType.read': 'View content types',
+  'contentType.manage': 'Manage content types',
+  'media.upload': 'Upload media',
+  'media.manage': 'Edit and delete media',
+  'api.manage': 'Manage API keys and endpoints',
+  'roles.manage': 'Manage roles and permissions',
+  'analytics.view': 'View and export analytics',
+  'audit.view': 'View and export the audit log',
+}
+
+/**
+ * Permission target: the content type of an entry action and, for ownership checks, the author
+ * of the entry
+ */
+export type PermissionTarget = {
+  contentType?: string
+  authorId?: string | null
+}
+
+const grantAll = (actions: readonly PermissionAction[]): RolePermissions =>
+  Object.fromEntries(actions.map(action => [action, { [ALL_CONTENT_TYPES]: 'all' }]))
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  ADMIN: grantAll([...ENTRY_ACTIONS, ...GLOBAL_ACTIONS]),
+  EDITOR: grantAll([...ENTRY_ACTIONS, 'contentType.read', 'media.upload', 'media.manage']),
+  AUTHOR: {
+    ...grantAll(['entry.read', 'entry.create', 'contentType.read', 'media.upload']),
+    'entry.update': { [ALL_CONTENT_TYPES]: 'own' },
+    'entry.delete': { [ALL_CONTENT_TYPES]: 'own' },
+  },
+  VIEWER: grantAll(['entry.read', 'contentType.read']),
+}
+
+export function isPermissionAction(value: string): value is PermissionAction {
+  return (ENTRY_ACTIONS as readonly string[]).includes(value) || isGlobalAction(value)
+}
+
+export function isGlobalAction(value: string): value is GlobalAction {
+  return (GLOBAL_ACTIONS as readonly string[]).includes(value)
+}
+
+/**
+ * Scope a role grants for an action; content type grants override the `*` grant
+ */
+export function getPermissionScope(
+  permissions: RolePermissions,
+  action: PermissionAction,
+  contentType: string = ALL_CONTENT_TYPES
+): PermissionScope {
+  const grants = permissions[action] ?? {}
+  return grants[contentType] ?? grants[ALL_CONTENT_TYPES] ?? 'none'
+}
+
+const SCOPE_RANK: Record<PermissionScope, number> = { none: 0, own: 1, all: 2 }
+
+/**
+ * Permissions of several roles combined: every action is allowed wherever one of the roles
+ * allows it
+ */
+export function mergePermissions(permissionSets: RolePermissions[]): RolePermissions {
+  const merged: RolePermissions = {}
+  for (const action of [...ENTRY_ACTIONS, ...GLOBAL_ACTIONS]) {
+    const contentTypes = new Set(permissionSets.flatMap(set => Object.keys(set[action] ?? {})))
+    const grants: Record<string, PermissionScope> = {}
+    for (const contentType of contentTypes) {
+      grants[contentType] = permissionSets
+        .map(set => getPermissionScope(set, action, contentType))
+        .reduce((best, scope) => (SCOPE_RANK[scope] > SCOPE_RANK[best] ? scope : best), 'none')
+    }
+    if (contentTypes.size > 0) {
+      merged[action] = grants
+    }
+  }
+  return merged
+}
+
+/**
+ * Whether the permissions allow a user to perform an action on the target; `own` grants need
+ * the target's `authorId` to be the user
+ */
+export function isActionAllowed(
+  permissions: RolePermissions,
+  userId: string,
+  action: PermissionAction,
+  target: PermissionTarget = {}
+): boolean {
+  const scope = getPermissionScope(permissions, action, target.contentType)
+  if (scope === 'all') return true
+  if (scope === 'none') return false
+  return !!target.authorId && target.authorId === userId
+}
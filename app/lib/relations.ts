@@ -0,0 +1,103 @@
+/**
+ * Relation field settings shared by the admin UI and the server
+ * Relation fields keep their kind and delete behavior in the field options
+ * (`relationKind`, `relationOnDelete`) and store related entry IDs as the field value
+ */
+
+export const RELATION_KINDS = ['oneToOne', 'oneToMany', 'manyToOne', 'manyToMany'] as const
+
+export type RelationKind = (typeof RELATION_KINDS)[number]
+
+export const RELATION_DELETE_BEHAVIORS = ['nullify', 'cascade', 'restrict'] as const
+
+export type RelationOnDelete = (typeof RELATION_DELETE_BEHAVIORS)[number]
+
+export type RelationOptions = {
+  kind: RelationKind
+  onDelete: RelationOnDelete
+}
+
+/**
+ * An entry offered by the relation picker
+ */
+export type RelationTarget = {
+  id: string
+  label: string
+  status: string
+}
+
+export const RELATION_KIND_LABELS: Record<RelationKind, string> = {
+  oneToOne: 'One-to-one',
+  oneToMany: 'One-to-many',
+  manyToOne: 'Many-to-one',
+  manyToMany: 'Many-to-many',
+}
+
+export const RELATION_DELETE_LABELS: Record<RelationOnDelete, string> = {
+  nullify: 'Remove the link',
+  cascade: 'Delete linking entries',
+  restrict: 'Prevent deletion',
+}
+
+/**
+ * Read the relation settings from a field's options, falling back to a many-to-one link that
+ * is removed when the related entry is deleted
+ */
+export function getRelationOptions(options?: Record<string, unknown> | null): RelationOptions {
+  const kind = RELATION_KINDS.find(k => k === options?.relationKind) ?? 'manyToOne'
+  const onDelete =
+    RELATION_DELETE_BEHAVIORS.find(behavior => behavior === options?.relationOnDelete) ?? 'nullify'
+
+  return { kind, onDelete }
+}
+
+/**
+ * Whether a relation field links to several entries (value is a JSON array of IDs)
+ */
+export function isMultipleRelation(kind: RelationKind): boolean {
+  return kind === 'oneToMany' || kind === 'manyToMany'
+}
+
+/**
+ * Whether an entry can be linked from at most one entry through the field
+ */
+export function isExclusiveRelation(kind: RelationKind): boolean {
+  return kind === 'oneToOne' || kind === 'oneToMany'
+}
+
+/**
+ * Parse a stored or submitted relation value into a list of entry IDs
+ *
+ * Accepts a single ID, a JSON array of IDs, an array or a comma-separated list.
+ */
+export function parseRelationValue(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(id => String(id).trim()).filter(Boolean)
+  }
+  if (typeof value !== 'string') return []
+
+  const trimmed = value.trim()
+  if (!trimmed) return []
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      return Array.isArray(parsed) ? parseRelationValue(parsed) : []
+    } catch {
+      return []
+    }
+  }
+
+  return trimmed
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Format entry IDs as the stored value of a relation field of the given kind
+ */
+export function formatRelationValue(ids: string[], kind: RelationKind): string {
+  if (ids.length === 0) return ''
+  return isMultipleRelation(kind) ? JSON.stringify(ids) : ids[0]
+}
@@ -0,0 +1,54 @@
+/**
+ * Field-by-field comparison between a stored entry revision and the entry being edited
+ */
+
+import type { ContentEntryRevision, ContentStatus, ContentType } from './content-types'
+
+export type RevisionChange = {
+  key: string
+  label: string
+  revisionValue: string
+  currentValue: string
+  changed: boolean
+}
+
+export type RevisionComparable = {
+  slug: string
+  status: ContentStatus
+  values: Record<string, string>
+}
+
+/**
+ * Compare the slug, status and every current field of a content type against a revision
+ *
+ * Fields that were removed from the content type since the revision was taken are skipped,
+ * since restoring them is not possible.
+ */
+export function diffRevision(
+  contentType: ContentType,
+  revision: ContentEntryRevision,
+  current: RevisionComparable
+): RevisionChange[] {
+  const change = (key: string, label: string, revisionValue: string, currentValue: string) => ({
+    key,
+    label,
+    revisionValue,
+    currentValue,
+    changed: revisionValue !== currentValue,
+  })
+
+  const fields = [...contentType.fields].sort((a, b) => a.order - b.order)
+
+  return [
+    change('slug', 'Slug', revision.slug ?? '', current.slug),
+    change('status', 'Status', revision.status, current.status),
+    ...fields.map(field =>
+      change(
+        field.id,
+        field.displayName,
+        revision.fieldValues.find(fv => fv.fieldId === field.id)?.value ?? '',
+        current.values[field.id] ?? ''
+      )
+    ),
+  ]
+}
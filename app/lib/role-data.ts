@@ -0,0 +1,80 @@
+/**
+ * Client data layer for roles
+ * Wraps the role server functions and exposes React Query hooks for the Roles and Permissions screen
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  fetchRoles,
+  createRoleFn,
+  updateRoleFn,
+  deleteRoleFn,
+  resetRolePermissionsFn,
+  fetchUserRoles,
+  setUserRolesFn,
+} from '~/server/role-functions'
+import type { CustomRoleInfo, CustomRoleInput, UserRoleAssignment } from './permissions'
+
+export const roleApi = {
+  async getRoles(): Promise<CustomRoleInfo[]> {
+    return fetchRoles()
+  },
+
+  async createRole(data: CustomRoleInput): Promise<CustomRoleInfo> {
+    return createRoleFn({ data })
+  },
+
+  async updateRole(id: string, data: Partial<CustomRoleInput>): Promise<CustomRoleInfo> {
+    return updateRoleFn({ data: { id, data } })
+  },
+
+  async deleteRole(id: string): Promise<void> {
+    return deleteRoleFn({ data: id })
+  },
+
+  async resetRolePermissions(id: string): Promise<CustomRoleInfo> {
+    return resetRolePermissionsFn({ data: id })
+  },
+
+  async getUserRoles(): Promise<UserRoleAssignment[]> {
+    return fetchUserRoles()
+  },
+
+  async setUserRoles(userId: string, roleIds: string[]): Promise<void> {
+    return setUserRolesFn({ data: { userId, roleIds } })
+  },
+}
+
+export const roleQueryKeys = {
+  all: ['roles'] as const,
+  list: () => [...roleQueryKeys.all, 'list'] as const,
+  users: () => [...roleQueryKeys.all, 'users'] as const,
+}
+
+export function useRoles() {
+  return useQuery({
+    queryKey: roleQueryKeys.list(),
+    queryFn: () => roleApi.getRoles(),
+  })
+}
+
+export function useUserRoles() {
+  return useQuery({
+    queryKey: roleQueryKeys.users(),
+    queryFn: () => roleApi.getUserRoles(),
+  })
+}
+
+/**
+ * Wrap a role write so roles and assignments are refetched once it settles
+ */
+export function useRoleMutation<TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: roleQueryKeys.all }),
+  })
+}
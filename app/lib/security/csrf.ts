@@ -3,6 +3,8 @@
  * Implements double-submit cookie pattern and synchronizer token pattern
  */
 
+import { recordCsrfRejection } from '../../server/metrics'
+
 export interface CSRFConfig {
   tokenLength: number
   cookieName: string
@@ -156,6 +158,7 @@ export function createCSRFMiddleware(config = DEFAULT_CSRF_CONFIG) {
     const validation = validateCSRFToken(request, config)
     
     if (!validation.valid) {
+      recordCsrfRejection('token')
       return {
         response: new Response(
           JSON.stringify({
@@ -304,6 +307,7 @@ export function createComprehensiveCSRFProtection(config = DEFAULT_CSRF_CONFIG)
     
     // Validate origin first
     if (!validateOrigin(request)) {
+      recordCsrfRejection('origin')
       return {
         response: new Response(
           JSON.stringify({
@@ -325,6 +329,7 @@ export function createComprehensiveCSRFProtection(config = DEFAULT_CSRF_CONFIG)
     const validation = validateCSRFToken(request, config)
     
     if (!validation.valid) {
+      recordCsrfRejection('token')
       return {
         response: new Response(
           JSON.stringify({
@@ -3,18 +3,11 @@ import { useState, useEffect } from 'react'
 import { Card, CardContent } from '~/components/ui/card'
 import { Button } from '~/components/ui/button'
 import { Input } from '~/components/ui/input'
-import {
-  Plus,
-  Search,
-  Edit,
-  Trash2,
-  Upload,
-  Image as ImageIcon,
-  Video,
-  FileText,
-  CheckSquare,
-} from 'lucide-react'
+import { Plus, Search, Trash2, Upload, Image as ImageIcon, CheckSquare } from 'lucide-react'
 import { BulkActions, type BulkAction } from '~/components/ui/bulk-actions'
+import { MediaGrid } from '~/components/media/media-grid'
+import { MediaDetailsPanel } from '~/components/media/media-details'
+import { formatFileSize } from '~/lib/media-fields'
 import {
   uploadFile,
   getMediaFiles,
@@ -23,94 +16,12 @@ import {
   deleteMediaFiles,
   getMediaStatistics,
   type MediaFile,
-} from '~/lib/local-media-service'
+} from '~/lib/media-service'
 
 export const Route = createFileRoute('/admin/media')({
   component: MediaPage,
 })
 
-function MediaCard({
-  media,
-  onEdit,
-  onDelete,
-  selected,
-  onSelect,
-}: {
-  media: MediaFile
-  onEdit: (media: MediaFile) => void
-  onDelete: (media: MediaFile) => void
-  selected: boolean
-  onSelect: (media: MediaFile, selected: boolean) => void
-}) {
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-  }
-
-  const getFileIcon = (type: string) => {
-    switch (type) {
-      case 'image':
-        return <ImageIcon className='h-6 w-6 text-green-500' />
-      case 'video':
-        return <Video className='h-6 w-6 text-blue-500' />
-      default:
-        return <FileText className='h-6 w-6 text-gray-500' />
-    }
-  }
-
-  return (
-    <Card className={`relative ${selected ? 'ring-2 ring-primary' : ''}`}>
-      <CardContent className='p-0'>
-        <div className='absolute top-2 left-2 z-10'>
-          <input
-            type='checkbox'
-            checked={selected}
-            onChange={e => onSelect(media, e.target.checked)}
-            className='h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary'
-          />
-        </div>
-        <div className='aspect-w-16 aspect-h-9 bg-muted'>
-          {media.type === 'image' ? (
-            <img
-              src={media.url}
-              alt={media.altText || media.name}
-              className='w-full h-48 object-cover rounded-t-lg'
-            />
-          ) : (
-            <div className='flex items-center justify-center h-48 rounded-t-lg'>
-              {getFileIcon(media.type)}
-            </div>
-          )}
-        </div>
-        <div className='p-4'>
-          <div className='flex items-start justify-between'>
-            <div className='min-w-0 flex-1'>
-              <h3 className='text-sm font-medium truncate'>{media.name}</h3>
-              <p className='text-xs text-muted-foreground mt-1'>
-                {formatFileSize(media.size)} • {media.createdAt}
-              </p>
-              {media.altText && (
-                <p className='text-xs text-muted-foreground mt-1 truncate'>Alt: {media.altText}</p>
-              )}
-            </div>
-            <div className='flex space-x-1 ml-2'>
-              <Button variant='ghost' size='sm' onClick={() => onEdit(media)}>
-                <Edit className='h-3 w-3' />
-              </Button>
-              <Button variant='ghost' size='sm' onClick={() => onDelete(media)}>
-                <Trash2 className='h-3 w-3' />
-              </Button>
-            </div>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
-  )
-}
-
 function UploadModal({
   isOpen,
   onClose,
@@ -166,7 +77,7 @@ function UploadModal({
       onClose()
     } catch (error) {
       console.error('Upload failed:', error)
-      alert('Upload failed. Please try again.')
+      alert(error instanceof Error ? error.message : 'Upload failed. Please try again.')
     } finally {
       setUploading(false)
     }
@@ -230,6 +141,7 @@ function MediaPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([])
   const [selectedItems, setSelectedItems] = useState<MediaFile[]>([])
+  const [detailsMedia, setDetailsMedia] = useState<MediaFile | null>(null)
   const [stats, setStats] = useState({
     total: 0,
     images: 0,
@@ -312,14 +224,6 @@ function MediaPage() {
     loadMedia() // Refresh the list after upload
   }
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-  }
-
   // Selection handlers
   const handleSelectItem = (media: MediaFile, selected: boolean) => {
     if (selected) {
@@ -535,18 +439,14 @@ function MediaPage() {
             </div>
           ) : (
             <>
-              <div className='grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4'>
-                {filteredMedia.map(media => (
-                  <MediaCard
-                    key={media.id}
-                    media={media}
-                    onEdit={handleEditMedia}
-                    onDelete={handleDeleteMedia}
-                    selected={selectedItems.some(item => item.id === media.id)}
-                    onSelect={handleSelectItem}
-                  />
-                ))}
-              </div>
+              <MediaGrid
+                media={filteredMedia}
+                isSelected={media => selectedItems.some(item => item.id === media.id)}
+                onSelect={handleSelectItem}
+                onEdit={handleEditMedia}
+                onDelete={handleDeleteMedia}
+                onOpen={setDetailsMedia}
+              />
 
               {filteredMedia.length === 0 && !loading && (
                 <div className='text-center py-12'>
@@ -568,6 +468,11 @@ function MediaPage() {
             </>
           )}
 
+          {/* Media Details */}
+          {detailsMedia && (
+            <MediaDetailsPanel media={detailsMedia} onClose={() => setDetailsMedia(null)} />
+          )}
+
           {/* Upload Modal */}
           <UploadModal
             isOpen={isUploadModalOpen}
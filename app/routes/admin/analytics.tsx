@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import AdminLayout from './layout'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Button } from '~/components/ui/button'
@@ -10,58 +10,37 @@ import {
   Activity, 
   Download, 
   Calendar,
-  TrendingUp,
   Database,
-  Eye,
   Clock
 } from 'lucide-react'
+import {
+  ANALYTICS_RANGES,
+  type AnalyticsData,
+  type AnalyticsExportFormat,
+  type AnalyticsRange
+} from '~/lib/analytics'
+import { analyticsApi, useAnalytics } from '~/lib/analytics-data'
+import { formatFileSize } from '~/lib/media-fields'
 
-interface AnalyticsData {
-  contentStats: {
-    totalContentTypes: number
-    totalEntries: number
-    recentEntries: number
-    publishedEntries: number
-    draftEntries: number
-  }
-  userActivity: {
-    totalUsers: number
-    activeUsers: number
-    recentLogins: number
-    avgSessionDuration: number
-  }
-  systemMetrics: {
-    dbSize: number
-    apiCalls: number
-    avgResponseTime: number
-    uptime: number
-  }
-  topContentTypes: Array<{
-    name: string
-    count: number
-    percentage: number
-  }>
-  recentActivity: Array<{
-    id: string
-    type: 'content' | 'user' | 'system'
-    description: string
-    timestamp: string
-    user?: string
-  }>
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
 }
 
 function MetricCard({ 
   title, 
   value, 
   icon, 
-  trend, 
   subtitle,
   isLoading = false 
 }: {
   title: string
   value: string | number
   icon: React.ReactNode
-  trend?: string
   subtitle?: string
   isLoading?: boolean
 }) {
@@ -94,12 +73,6 @@ function MetricCard({
             <p className="text-sm font-medium text-muted-foreground">{title}</p>
             <p className="text-2xl font-bold">{value}</p>
             {subtitle && <p className="text-xs text-muted-foreground">{subtitle}</p>}
-            {trend && (
-              <div className="flex items-center mt-1">
-                <TrendingUp className="h-3 w-3 text-green-500 mr-1" />
-                <span className="text-xs text-green-600">{trend}</span>
-              </div>
-            )}
           </div>
         </div>
       </CardContent>
@@ -118,6 +91,9 @@ function ContentStatsChart({ data }: { data: AnalyticsData['topContentTypes'] })
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          {data.length === 0 && (
+            <p className="text-sm text-muted-foreground">No content types yet.</p>
+          )}
           {data.map((item, index) => (
             <div key={index} className="flex items-center justify-between">
               <div className="flex items-center gap-3">
@@ -144,6 +120,39 @@ function ContentStatsChart({ data }: { data: AnalyticsData['topContentTypes'] })
   )
 }
 
+function EntriesPerDayChart({ data }: { data: AnalyticsData['entriesPerDay'] }) {
+  const max = Math.max(1, ...data.map(day => day.count))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Entries Created per Day
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-px h-32">
+          {data.map((day) => (
+            <div
+              key={day.date}
+              className="flex-1 bg-primary rounded-t-sm min-h-px"
+              style={{ height: `${(day.count / max) * 100}%` }}
+              title={`${day.date}: ${day.count}`}
+            />
+          ))}
+        </div>
+        {data.length > 0 && (
+          <div className="flex justify-between mt-2 text-xs text-muted-foreground">
+            <span>{data[0].date}</span>
+            <span>{data[data.length - 1].date}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 function RecentActivityList({ activities }: { activities: AnalyticsData['recentActivity'] }) {
   const getActivityIcon = (type: string) => {
     switch (type) {
@@ -181,6 +190,9 @@ function RecentActivityList({ activities }: { activities: AnalyticsData['recentA
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          {activities.length === 0 && (
+            <p className="text-sm text-muted-foreground">No activity in this time range.</p>
+          )}
           {activities.map((activity) => (
             <div key={activity.id} className="flex items-start gap-3">
               <div className="flex-shrink-0 mt-1">
@@ -195,7 +207,9 @@ function RecentActivityList({ activities }: { activities: AnalyticsData['recentA
                   {activity.user && (
                     <span className="text-xs text-muted-foreground">by {activity.user}</span>
                   )}
-                  <span className="text-xs text-muted-foreground">{activity.timestamp}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(activity.timestamp).toLocaleString()}
+                  </span>
                 </div>
               </div>
             </div>
@@ -206,35 +220,27 @@ function RecentActivityList({ activities }: { activities: AnalyticsData['recentA
   )
 }
 
-function ExportSection() {
+function ExportSection({ range }: { range: AnalyticsRange }) {
   const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
 
-  const handleExport = async (format: 'csv' | 'json') => {
+  const handleExport = async (format: AnalyticsExportFormat) => {
     setIsExporting(true)
+    setError(null)
     try {
-      // Simulate export process
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // In a real implementation, this would call an API endpoint
-      const data = {
-        exportDate: new Date().toISOString(),
-        format,
-        // Include analytics data here
-      }
-      
-      const blob = new Blob([JSON.stringify(data, null, 2)], { 
-        type: format === 'csv' ? 'text/csv' : 'application/json' 
-      })
+      const file = await analyticsApi.exportAnalytics(range, format)
+      const blob = new Blob([file.content], { type: file.mimeType })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `analytics-${Date.now()}.${format}`
+      a.download = file.filename
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
     } catch (error) {
       console.error('Export failed:', error)
+      setError(error instanceof Error ? error.message : 'Export failed')
     } finally {
       setIsExporting(false)
     }
@@ -251,7 +257,7 @@ function ExportSection() {
       <CardContent>
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
-            Download your analytics data for external reporting and analysis.
+            Download the analytics of the {ANALYTICS_RANGES[range].label.toLowerCase()} for external reporting and analysis.
           </p>
           <div className="flex gap-2">
             <Button
@@ -278,6 +284,7 @@ function ExportSection() {
           {isExporting && (
             <p className="text-xs text-muted-foreground">Preparing export...</p>
           )}
+          {error && <p className="text-xs text-destructive">{error}</p>}
         </div>
       </CardContent>
     </Card>
@@ -285,106 +292,9 @@ function ExportSection() {
 }
 
 export default function AnalyticsDashboard() {
-  const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-
-  useEffect(() => {
-    const loadAnalyticsData = async () => {
-      try {
-        // For now, use mock data since server functions have compatibility issues
-        // In a production environment, this would fetch from a proper API endpoint
-        await new Promise(resolve => setTimeout(resolve, 800)) // Simulate loading
-        
-        const mockData: AnalyticsData = {
-          contentStats: {
-            totalContentTypes: 5,
-            totalEntries: 42,
-            recentEntries: 8,
-            publishedEntries: 35,
-            draftEntries: 7
-          },
-          userActivity: {
-            totalUsers: 12,
-            activeUsers: 8,
-            recentLogins: 23,
-            avgSessionDuration: 45
-          },
-          systemMetrics: {
-            dbSize: 125,
-            apiCalls: 1847,
-            avgResponseTime: 120,
-            uptime: 99.8
-          },
-          topContentTypes: [
-            { name: 'Blog Posts', count: 24, percentage: 57 },
-            { name: 'Pages', count: 12, percentage: 29 },
-            { name: 'Products', count: 6, percentage: 14 }
-          ],
-          recentActivity: [
-            {
-              id: '1',
-              type: 'content',
-              description: 'New blog post published',
-              timestamp: '2 hours ago',
-              user: 'John Doe'
-            },
-            {
-              id: '2',
-              type: 'user',
-              description: 'User logged in',
-              timestamp: '3 hours ago',
-              user: 'Jane Smith'
-            },
-            {
-              id: '3',
-              type: 'system',
-              description: 'Database backup completed',
-              timestamp: '6 hours ago'
-            },
-            {
-              id: '4',
-              type: 'content',
-              description: 'Page updated',
-              timestamp: '1 day ago',
-              user: 'Bob Wilson'
-            }
-          ]
-        }
-        
-        setAnalyticsData(mockData)
-      } catch (error) {
-        console.error('Failed to load analytics data:', error)
-        // Show basic mock data on error
-        setAnalyticsData({
-          contentStats: {
-            totalContentTypes: 0,
-            totalEntries: 0,
-            recentEntries: 0,
-            publishedEntries: 0,
-            draftEntries: 0
-          },
-          userActivity: {
-            totalUsers: 0,
-            activeUsers: 0,
-            recentLogins: 0,
-            avgSessionDuration: 0
-          },
-          systemMetrics: {
-            dbSize: 0,
-            apiCalls: 0,
-            avgResponseTime: 0,
-            uptime: 0
-          },
-          topContentTypes: [],
-          recentActivity: []
-        })
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    loadAnalyticsData()
-  }, [])
+  const [range, setRange] = useState<AnalyticsRange>('30d')
+  const { data: analyticsData, isLoading, error } = useAnalytics(range)
+  const rangeLabel = ANALYTICS_RANGES[range].label.toLowerCase()
 
   return (
     <AdminLayout>
@@ -399,45 +309,65 @@ export default function AnalyticsDashboard() {
           </div>
           <div className="flex items-center gap-2">
             <Calendar className="h-4 w-4 text-muted-foreground" />
-            <span className="text-sm text-muted-foreground">Last 30 days</span>
+            <select
+              aria-label="Time range"
+              value={range}
+              onChange={(event) => setRange(event.target.value as AnalyticsRange)}
+              className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+            >
+              {Object.entries(ANALYTICS_RANGES).map(([value, { label }]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
           </div>
         </div>
 
+        {error && (
+          <Card>
+            <CardContent className="p-6 text-sm text-destructive">
+              Failed to load analytics: {error.message}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Key Metrics Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <MetricCard
             title="Total Content"
             value={analyticsData?.contentStats.totalEntries || 0}
             icon={<FileText className="h-8 w-8 text-blue-500" />}
-            trend="+8 this week"
-            subtitle="across all types"
+            subtitle={`${analyticsData?.contentStats.recentEntries || 0} created in the ${rangeLabel}`}
             isLoading={isLoading}
           />
           <MetricCard
             title="Active Users"
             value={analyticsData?.userActivity.activeUsers || 0}
             icon={<Users className="h-8 w-8 text-green-500" />}
-            trend="+2 this week"
-            subtitle="last 30 days"
+            subtitle={`of ${analyticsData?.userActivity.totalUsers || 0} users, signed in during the ${rangeLabel}`}
             isLoading={isLoading}
           />
           <MetricCard
-            title="Page Views"
-            value="2.4k"
-            icon={<Eye className="h-8 w-8 text-purple-500" />}
-            trend="+15% this month"
-            subtitle="unique visitors"
+            title="Logins"
+            value={analyticsData?.userActivity.recentLogins || 0}
+            icon={<Clock className="h-8 w-8 text-purple-500" />}
+            subtitle={`${analyticsData?.userActivity.activeSessions || 0} active sessions`}
             isLoading={isLoading}
           />
           <MetricCard
             title="System Uptime"
-            value={analyticsData ? `${analyticsData.systemMetrics.uptime}%` : '0%'}
+            value={formatUptime(analyticsData?.systemMetrics.uptime || 0)}
             icon={<Activity className="h-8 w-8 text-orange-500" />}
-            subtitle="last 30 days"
+            subtitle="since the server started"
             isLoading={isLoading}
           />
         </div>
 
+        {analyticsData && (
+          <EntriesPerDayChart data={analyticsData.entriesPerDay} />
+        )}
+
         {/* Content and Activity Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Content Distribution */}
@@ -452,7 +382,7 @@ export default function AnalyticsDashboard() {
         </div>
 
         {/* Additional Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <MetricCard
             title="Published Content"
             value={analyticsData?.contentStats.publishedEntries || 0}
@@ -464,21 +394,27 @@ export default function AnalyticsDashboard() {
             title="Draft Content"
             value={analyticsData?.contentStats.draftEntries || 0}
             icon={<FileText className="h-6 w-6 text-yellow-500" />}
-            subtitle="pending review"
+            subtitle={`${analyticsData?.contentStats.scheduledEntries || 0} scheduled, ${analyticsData?.contentStats.archivedEntries || 0} archived`}
             isLoading={isLoading}
           />
           <MetricCard
             title="API Calls"
             value={analyticsData?.systemMetrics.apiCalls || 0}
             icon={<Database className="h-6 w-6 text-blue-500" />}
-            trend="+120 today"
-            subtitle="this month"
+            subtitle={`${analyticsData?.systemMetrics.avgResponseTime || 0} ms average since the server started`}
+            isLoading={isLoading}
+          />
+          <MetricCard
+            title="Database Size"
+            value={analyticsData?.systemMetrics.dbSize != null ? formatFileSize(analyticsData.systemMetrics.dbSize) : 'n/a'}
+            icon={<Database className="h-6 w-6 text-purple-500" />}
+            subtitle="SQLite database file"
             isLoading={isLoading}
           />
         </div>
 
         {/* Export Section */}
-        <ExportSection />
+        <ExportSection range={range} />
       </div>
     </AdminLayout>
   )
@@ -0,0 +1,273 @@
+import { useState } from 'react'
+import AdminLayout from './layout'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+import { ChevronLeft, ChevronRight, Download, ScrollText } from 'lucide-react'
+import { auditLogApi, useAuditLogs } from '~/lib/audit-log-data'
+import {
+  AUDIT_EVENTS,
+  AUDIT_LOG_PAGE_SIZE,
+  getAuditEventLabel,
+  type AuditLogDetails,
+  type AuditLogQuery,
+} from '~/lib/audit-log'
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+type Filters = Required<Pick<AuditLogQuery, 'user' | 'event' | 'ip' | 'from' | 'to'>>
+
+const EMPTY_FILTERS: Filters = { user: '', event: '', ip: '', from: '', to: '' }
+
+/**
+ * Filters without the empty ones, so that they are left out of the query
+ */
+function toQuery(filters: Filters): AuditLogQuery {
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== ''))
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+function formatDetails(details: AuditLogDetails | null): string {
+  if (!details) return ''
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ')
+}
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [applied, setApplied] = useState<AuditLogQuery>({})
+  const [page, setPage] = useState(1)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, isLoading, isFetching, error: loadError } = useAuditLogs({ ...applied, page })
+  const entries = data?.entries ?? []
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  const setFilter = (key: keyof Filters, value: string) => setFilters({ ...filters, [key]: value })
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault()
+    setApplied(toQuery(filters))
+    setPage(1)
+  }
+
+  const handleClear = () => {
+    setFilters(EMPTY_FILTERS)
+    setApplied({})
+    setPage(1)
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      const file = await auditLogApi.exportAuditLogs(applied)
+      const blob = new Blob([file.content], { type: file.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = file.filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (exportError) {
+      setError(getErrorMessage(exportError, 'Export failed'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className='space-y-6'>
+        <div className='flex flex-wrap items-start justify-between gap-4'>
+          <div>
+            <h1 className='text-3xl font-bold'>Audit log</h1>
+            <p className='text-muted-foreground mt-2'>
+              Sign-ins and changes to content, content types, media, users, roles and API keys.
+            </p>
+          </div>
+          <Button variant='outline' onClick={handleExport} disabled={isExporting}>
+            <Download className='mr-2 h-4 w-4' />
+            {isExporting ? 'Exporting…' : 'Export CSV'}
+          </Button>
+        </div>
+
+        {(error || loadError) && (
+          <p className='text-sm text-destructive'>
+            {error ?? getErrorMessage(loadError, 'Failed to load the audit log')}
+          </p>
+        )}
+
+        <Card>
+          <CardContent className='p-6'>
+            <form
+              onSubmit={handleSearch}
+              className='grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end'
+            >
+              <div className='space-y-2'>
+                <Label htmlFor='audit-user'>User</Label>
+                <Input
+                  id='audit-user'
+                  value={filters.user}
+                  onChange={event => setFilter('user', event.target.value)}
+                  placeholder='Email or user ID'
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='audit-event'>Event</Label>
+                <select
+                  id='audit-event'
+                  value={filters.event}
+                  onChange={event => setFilter('event', event.target.value)}
+                  className={SELECT_CLASS_NAME}
+                >
+                  <option value=''>All events</option>
+                  {Object.entries(AUDIT_EVENTS).map(([event, label]) => (
+                    <option key={event} value={event}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='audit-ip'>IP address</Label>
+                <Input
+                  id='audit-ip'
+                  value={filters.ip}
+                  onChange={event => setFilter('ip', event.target.value)}
+                  placeholder='e.g. 192.168.'
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='audit-from'>From</Label>
+                <Input
+                  id='audit-from'
+                  type='date'
+                  value={filters.from}
+                  onChange={event => setFilter('from', event.target.value)}
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='audit-to'>To</Label>
+                <Input
+                  id='audit-to'
+                  type='date'
+                  value={filters.to}
+                  onChange={event => setFilter('to', event.target.value)}
+                />
+              </div>
+              <div className='flex gap-2'>
+                <Button type='submit'>Filter</Button>
+                <Button type='button' variant='outline' onClick={handleClear}>
+                  Clear
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className='flex items-center'>
+              <ScrollText className='mr-2 h-5 w-5' />
+              {data ? `${data.total} ${data.total === 1 ? 'entry' : 'entries'}` : 'Entries'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className='text-sm text-muted-foreground'>Loading audit log…</p>
+            ) : entries.length === 0 ? (
+              <p className='text-sm text-muted-foreground'>No entries match the filters.</p>
+            ) : (
+              <div className='overflow-x-auto'>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>IP address</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className='whitespace-nowrap'>
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          {getAuditEventLabel(entry.event)}
+                          <code className='block text-xs text-muted-foreground'>{entry.event}</code>
+                        </TableCell>
+                        <TableCell>{entry.userEmail ?? entry.userId ?? '—'}</TableCell>
+                        <TableCell>
+                          <code className='text-xs'>{entry.ip}</code>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={entry.success ? 'secondary' : 'destructive'}>
+                            {entry.success ? 'Success' : 'Failed'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className='max-w-md text-xs text-muted-foreground break-words'>
+                          {formatDetails(entry.details)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {data && data.total > AUDIT_LOG_PAGE_SIZE && (
+              <div className='flex items-center justify-between pt-4'>
+                <p className='text-sm text-muted-foreground'>
+                  Page {page} of {totalPages}
+                </p>
+                <div className='flex gap-2'>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    disabled={page <= 1 || isFetching}
+                    onClick={() => setPage(page - 1)}
+                  >
+                    <ChevronLeft className='mr-1 h-4 w-4' />
+                    Previous
+                  </Button>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    disabled={page >= totalPages || isFetching}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                    <ChevronRight className='ml-1 h-4 w-4' />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import AdminLayout from './layout'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Button } from '~/components/ui/button'
@@ -12,13 +12,11 @@ import {
   TableRow,
 } from '~/components/ui/table'
 import { Plus, Edit, Trash2, Database, Settings } from 'lucide-react'
-import { mockApi, type ContentType } from '~/lib/mock-api'
+import { contentApi, useContentMutation, useContentTypes } from '~/lib/content-data'
+import type { ContentType } from '~/lib/content-types'
 
-// Remove mock data - now using API
 interface ContentTypeCardProps {
-  contentType: ContentType & {
-    _count: { entries: number }
-  }
+  contentType: ContentType
   onEdit: (id: string) => void
   onDelete: (id: string) => void
   onManageEntries: (id: string) => void
@@ -35,7 +33,7 @@ function ContentTypeCard({ contentType, onEdit, onDelete, onManageEntries }: Con
           </p>
         </div>
         <div className='flex items-center space-x-2'>
-          <Badge variant='secondary'>{contentType._count.entries} entries</Badge>
+          <Badge variant='secondary'>{contentType._count?.entries ?? 0} entries</Badge>
         </div>
       </CardHeader>
       <CardContent>
@@ -83,34 +81,10 @@ function ContentTypeCard({ contentType, onEdit, onDelete, onManageEntries }: Con
 }
 
 export default function ContentTypes() {
-  const [contentTypes, setContentTypes] = useState<
-    (ContentType & { _count: { entries: number } })[]
-  >([])
-  const [loading, setLoading] = useState(true)
+  const { data: contentTypes = [], isLoading: loading } = useContentTypes()
+  const deleteContentType = useContentMutation(contentApi.deleteContentType)
   const [viewMode, setViewMode] = useState<'grid' | 'table'>('grid')
 
-  // Load content types on component mount
-  useEffect(() => {
-    loadContentTypes()
-  }, [])
-
-  const loadContentTypes = async () => {
-    setLoading(true)
-    try {
-      const types = await mockApi.getContentTypes()
-      // Add mock entry counts for demo purposes
-      const typesWithCounts = types.map(type => ({
-        ...type,
-        _count: { entries: Math.floor(Math.random() * 50) + 1 },
-      }))
-      setContentTypes(typesWithCounts)
-    } catch (error) {
-      console.error('Failed to load content types:', error)
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const handleEdit = (id: string) => {
     // Navigate to edit content type
     window.location.hash = `#/admin/content-types/builder?id=${id}`
@@ -119,8 +93,7 @@ export default function ContentTypes() {
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this content type?')) {
       try {
-        await mockApi.deleteContentType(id)
-        await loadContentTypes() // Reload the list
+        await deleteContentType.mutateAsync(id)
       } catch (error) {
         console.error('Failed to delete content type:', error)
         alert('Failed to delete content type')
@@ -207,7 +180,7 @@ export default function ContentTypes() {
                 <div className='ml-4'>
                   <p className='text-sm font-medium text-muted-foreground'>Total Entries</p>
                   <p className='text-2xl font-bold'>
-                    {contentTypes.reduce((sum, ct) => sum + ct._count.entries, 0)}
+                    {contentTypes.reduce((sum, ct) => sum + (ct._count?.entries ?? 0), 0)}
                   </p>
                 </div>
               </div>
@@ -270,7 +243,7 @@ export default function ContentTypes() {
                         <Badge variant='secondary'>{contentType.fields.length} fields</Badge>
                       </TableCell>
                       <TableCell>
-                        <Badge variant='outline'>{contentType._count.entries}</Badge>
+                        <Badge variant='outline'>{contentType._count?.entries ?? 0}</Badge>
                       </TableCell>
                       <TableCell className='text-muted-foreground'>
                         {contentType.createdAt.toLocaleDateString()}
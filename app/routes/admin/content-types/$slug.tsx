@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import AdminLayout from '../layout'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Button } from '~/components/ui/button'
@@ -8,12 +8,16 @@ import ContentEntryForm from '~/components/content-entry-form'
 import { DataTable, type DataTableColumn } from '~/components/ui/data-table'
 import { ContentFilters, type ContentFilter } from '~/components/ui/content-filters'
 import { BulkActions, type BulkAction } from '~/components/ui/bulk-actions'
-import { mockApi, type ContentType, type ContentEntry, type ContentStatus } from '~/lib/mock-api'
+import {
+  contentApi,
+  useContentEntries,
+  useContentMutation,
+  useContentSearch,
+  useContentTypes,
+} from '~/lib/content-data'
+import type { ContentEntry, ContentEntryUpdate } from '~/lib/content-types'
 
 export default function ContentEntries() {
-  const [contentType, setContentType] = useState<ContentType | null>(null)
-  const [entries, setEntries] = useState<ContentEntry[]>([])
-  const [loading, setLoading] = useState(true)
   const [currentPage, setCurrentPage] = useState(1)
   const [showForm, setShowForm] = useState(false)
   const [editingEntry, setEditingEntry] = useState<ContentEntry | null>(null)
@@ -24,42 +28,57 @@ export default function ContentEntries() {
 
   // Get content type slug from URL (this would come from router params in real app)
   const getContentTypeSlug = () => {
-    const hash = window.location.hash
+    const [hash] = window.location.hash.split('?')
     const parts = hash.split('/')
     return parts[parts.length - 1] || 'product'
   }
 
   // Load content type and entries
-  useEffect(() => {
-    loadData()
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
-
-  const loadData = async () => {
-    setLoading(true)
-    try {
-      const slug = getContentTypeSlug()
-
-      // Get content types and find the one with matching slug
-      const contentTypes = await mockApi.getContentTypes()
-      const foundContentType = contentTypes.find(ct => ct.slug === slug)
+  const contentTypesQuery = useContentTypes()
+  const contentType = contentTypesQuery.data?.find(ct => ct.slug === getContentTypeSlug()) ?? null
+  const entriesQuery = useContentEntries(contentType?.id)
+  const entries = useMemo(() => entriesQuery.data ?? [], [entriesQuery.data])
+  const loading = contentTypesQuery.isLoading || entriesQuery.isLoading
+
+  // Search runs against the full-text index; one-character searches stay client-side
+  const searchQuery = useContentSearch(filters.search ?? '', {
+    contentTypeId: contentType?.id,
+    limit: 100,
+  })
+  const searchMatchIds = useMemo(
+    () =>
+      (filters.search?.trim().length ?? 0) >= 2 && searchQuery.data
+        ? new Set(searchQuery.data.map(result => result.id))
+        : null,
+    [filters.search, searchQuery.data]
+  )
 
-      if (!foundContentType) {
-        console.error('Content type not found:', slug)
-        return
+  const deleteEntry = useContentMutation(contentApi.deleteContentEntry)
+  const saveEntry = useContentMutation(({ id, data }: { id?: string; data: ContentEntryUpdate }) =>
+    id
+      ? contentApi.updateContentEntry(id, data)
+      : contentApi.createContentEntry({
+          contentTypeId: contentType!.id,
+          ...data,
+          fieldValues: data.fieldValues ?? [],
+        })
+  )
+  const restoreRevision = useContentMutation(contentApi.restoreEntryRevision)
+  const applyBulkAction = useContentMutation(
+    async ({ actionId, items }: { actionId: string; items: ContentEntry[] }) => {
+      for (const entry of items) {
+        if (actionId === 'delete') {
+          await contentApi.deleteContentEntry(entry.id)
+        } else if (actionId === 'publish') {
+          await contentApi.publishContentEntry(entry.id)
+        } else if (actionId === 'draft') {
+          await contentApi.unpublishContentEntry(entry.id)
+        } else if (actionId === 'archive') {
+          await contentApi.archiveContentEntry(entry.id)
+        }
       }
-
-      setContentType(foundContentType)
-
-      // Load entries for this content type
-      const entries = await mockApi.getContentEntries(foundContentType.id)
-      setEntries(entries)
-    } catch (error) {
-      console.error('Failed to load data:', error)
-    } finally {
-      setLoading(false)
     }
-  }
+  )
 
   const handleEdit = (entryId: string) => {
     const entry = entries.find(e => e.id === entryId)
@@ -69,11 +88,21 @@ export default function ContentEntries() {
     }
   }
 
+  // Open the entry linked from a search result (#/admin/content-types/:slug?entry=:id)
+  useEffect(() => {
+    const entryId = new URLSearchParams(window.location.hash.split('?')[1]).get('entry')
+    const entry = entryId ? entries.find(e => e.id === entryId) : undefined
+    if (entry) {
+      setEditingEntry(entry)
+      setShowForm(true)
+      window.history.replaceState(null, '', window.location.hash.split('?')[0])
+    }
+  }, [entries])
+
   const handleDelete = async (entryId: string) => {
     if (confirm('Are you sure you want to delete this entry?')) {
       try {
-        await mockApi.deleteContentEntry(entryId)
-        await loadData() // Reload entries
+        await deleteEntry.mutateAsync(entryId)
       } catch (error) {
         console.error('Failed to delete entry:', error)
         alert('Failed to delete entry')
@@ -86,32 +115,16 @@ export default function ContentEntries() {
     setShowForm(true)
   }
 
-  const handleFormSave = async (data: {
-    slug?: string
-    status?: ContentStatus
-    publishedAt?: Date
-    scheduledAt?: Date
-    fieldValues: { fieldId: string; value: string }[]
-  }) => {
+  const handleFormSave = async (data: ContentEntryUpdate) => {
     if (!contentType) return
 
     setFormLoading(true)
     try {
-      if (editingEntry) {
-        // Update existing entry
-        await mockApi.updateContentEntry(editingEntry.id, data)
-      } else {
-        // Create new entry
-        await mockApi.createContentEntry({
-          contentTypeId: contentType.id,
-          authorId: 'user1', // In real app, get from auth context
-          ...data,
-        })
-      }
+      // Entries are created with the signed-in user as author
+      await saveEntry.mutateAsync({ id: editingEntry?.id, data })
 
       setShowForm(false)
       setEditingEntry(null)
-      await loadData() // Reload entries
     } catch (error) {
       console.error('Failed to save entry:', error)
       alert('Failed to save entry')
@@ -120,6 +133,22 @@ export default function ContentEntries() {
     }
   }
 
+  const handleRestoreRevision = async (revisionId: string) => {
+    setFormLoading(true)
+    try {
+      // Restoring saves a new revision; the form is reloaded with the restored values
+      const restored = await restoreRevision.mutateAsync(revisionId)
+      if (restored) {
+        setEditingEntry(restored)
+      }
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
+      alert('Failed to restore revision')
+    } finally {
+      setFormLoading(false)
+    }
+  }
+
   const handleFormCancel = () => {
     setShowForm(false)
     setEditingEntry(null)
@@ -175,7 +204,9 @@ export default function ContentEntries() {
       }
 
       // Search filter
-      if (filters.search && filters.search.length > 0) {
+      if (searchMatchIds) {
+        if (!searchMatchIds.has(entry.id)) return false
+      } else if (filters.search && filters.search.length > 0) {
         const searchLower = filters.search.toLowerCase()
         const matchesSlug = entry.slug?.toLowerCase().includes(searchLower)
         const matchesFieldValues = entry.fieldValues.some(fv =>
@@ -198,7 +229,7 @@ export default function ContentEntries() {
 
       return true
     })
-  }, [entries, filters])
+  }, [entries, filters, searchMatchIds])
 
   // Define table columns
   const columns: DataTableColumn<ContentEntry>[] = useMemo(() => {
@@ -342,18 +373,7 @@ export default function ContentEntries() {
   // Handle bulk actions
   const handleBulkAction = async (actionId: string, items: ContentEntry[]) => {
     try {
-      for (const entry of items) {
-        if (actionId === 'delete') {
-          await mockApi.deleteContentEntry(entry.id)
-        } else if (actionId === 'publish') {
-          await mockApi.updateContentEntry(entry.id, { status: 'PUBLISHED' as ContentStatus })
-        } else if (actionId === 'draft') {
-          await mockApi.updateContentEntry(entry.id, { status: 'DRAFT' as ContentStatus })
-        } else if (actionId === 'archive') {
-          await mockApi.updateContentEntry(entry.id, { status: 'ARCHIVED' as ContentStatus })
-        }
-      }
-      await loadData() // Reload entries
+      await applyBulkAction.mutateAsync({ actionId, items })
     } catch (error) {
       console.error('Bulk action failed:', error)
       alert('Failed to perform bulk action')
@@ -418,6 +438,7 @@ export default function ContentEntries() {
             entry={editingEntry}
             onSave={handleFormSave}
             onCancel={handleFormCancel}
+            onRestoreRevision={handleRestoreRevision}
             isLoading={formLoading}
           />
         </div>
@@ -21,7 +21,16 @@ import {
   ArrowLeft,
   Settings,
 } from 'lucide-react'
-import { mockApi } from '~/lib/mock-api'
+import { contentApi, useContentMutation, useContentTypes } from '~/lib/content-data'
+import type { ContentFieldOptionValue } from '~/lib/content-types'
+import {
+  RELATION_DELETE_BEHAVIORS,
+  RELATION_DELETE_LABELS,
+  RELATION_KINDS,
+  RELATION_KIND_LABELS,
+  getRelationOptions,
+} from '~/lib/relations'
+import { getMediaFieldOptions } from '~/lib/media-fields'
 
 const FIELD_TYPES = [
   { value: 'TEXT', label: 'Text', icon: Type, description: 'Short text input' },
@@ -62,7 +71,7 @@ interface ContentField {
     max?: number
     pattern?: string
   }
-  options?: Record<string, unknown>
+  options?: Record<string, ContentFieldOptionValue>
   relatedType?: string
   order: number
 }
@@ -123,6 +132,134 @@ function FieldTypeSelector({
   )
 }
 
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+function RelationFieldSettings({
+  field,
+  onChange,
+}: {
+  field: ContentField
+  onChange: (updates: Partial<ContentField>) => void
+}) {
+  const { data: contentTypes = [] } = useContentTypes()
+  const relation = getRelationOptions(field.options)
+
+  const updateOption = (key: 'relationKind' | 'relationOnDelete', value: string) =>
+    onChange({ options: { ...field.options, [key]: value } })
+
+  return (
+    <div className='mt-4 grid grid-cols-3 gap-4'>
+      <div>
+        <label className='text-sm font-medium mb-1 block'>Related Content Type</label>
+        <select
+          value={field.relatedType || ''}
+          onChange={e => onChange({ relatedType: e.target.value })}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value=''>Select a content type</option>
+          {contentTypes.map(type => (
+            <option key={type.id} value={type.slug}>
+              {type.displayName}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className='text-sm font-medium mb-1 block'>Relation</label>
+        <select
+          value={relation.kind}
+          onChange={e => updateOption('relationKind', e.target.value)}
+          className={SELECT_CLASS_NAME}
+        >
+          {RELATION_KINDS.map(kind => (
+            <option key={kind} value={kind}>
+              {RELATION_KIND_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className='text-sm font-medium mb-1 block'>When Related Entry Is Deleted</label>
+        <select
+          value={relation.onDelete}
+          onChange={e => updateOption('relationOnDelete', e.target.value)}
+          className={SELECT_CLASS_NAME}
+        >
+          {RELATION_DELETE_BEHAVIORS.map(behavior => (
+            <option key={behavior} value={behavior}>
+              {RELATION_DELETE_LABELS[behavior]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
+
+function MediaFieldSettings({
+  field,
+  onChange,
+}: {
+  field: ContentField
+  onChange: (updates: Partial<ContentField>) => void
+}) {
+  const media = getMediaFieldOptions(field.options)
+  const [allowedTypes, setAllowedTypes] = useState(media.allowedMimeTypes.join(', '))
+
+  const updateOption = (key: string, value: ContentFieldOptionValue) =>
+    onChange({ options: { ...field.options, [key]: value } })
+
+  return (
+    <div className='mt-4 grid grid-cols-3 gap-4'>
+      <div>
+        <label className='text-sm font-medium mb-1 block'>Allowed File Types</label>
+        <Input
+          value={allowedTypes}
+          onChange={e => setAllowedTypes(e.target.value)}
+          onBlur={() =>
+            updateOption(
+              'allowedMimeTypes',
+              allowedTypes
+                .split(',')
+                .map(type => type.trim())
+                .filter(Boolean)
+            )
+          }
+          placeholder='image/*, application/pdf'
+        />
+      </div>
+      <div>
+        <label className='text-sm font-medium mb-1 block'>Max File Size (MB)</label>
+        <Input
+          type='number'
+          min={0}
+          step='0.1'
+          value={media.maxFileSize ? media.maxFileSize / 1024 / 1024 : ''}
+          onChange={e =>
+            updateOption(
+              'maxFileSize',
+              e.target.value ? Math.round(parseFloat(e.target.value) * 1024 * 1024) : null
+            )
+          }
+          placeholder='No limit'
+        />
+      </div>
+      <div className='flex items-end pb-2'>
+        <label className='flex items-center space-x-2'>
+          <input
+            type='checkbox'
+            checked={media.multiple}
+            onChange={e => updateOption('multiple', e.target.checked)}
+            className='rounded'
+          />
+          <span className='text-sm'>Allow multiple files</span>
+        </label>
+      </div>
+    </div>
+  )
+}
+
 function FieldEditor({
   field,
   onChange,
@@ -342,15 +479,10 @@ function FieldEditor({
         )}
 
         {field.fieldType === 'RELATION' && (
-          <div className='mt-4'>
-            <label className='text-sm font-medium mb-1 block'>Related Content Type</label>
-            <Input
-              value={field.relatedType || ''}
-              onChange={e => onChange({ relatedType: e.target.value })}
-              placeholder='content-type-slug'
-            />
-          </div>
+          <RelationFieldSettings field={field} onChange={onChange} />
         )}
+
+        {field.fieldType === 'MEDIA' && <MediaFieldSettings field={field} onChange={onChange} />}
       </CardContent>
     </Card>
   )
@@ -371,6 +503,11 @@ export default function ContentTypeBuilder() {
 
   const [isSaving, setIsSaving] = useState(false)
   const [loading, setLoading] = useState(isEditing)
+  const createContentType = useContentMutation(contentApi.createContentType)
+  const updateContentType = useContentMutation(
+    ({ id, data }: { id: string; data: Parameters<typeof contentApi.updateContentType>[1] }) =>
+      contentApi.updateContentType(id, data)
+  )
 
   // Load existing content type if editing
   useEffect(() => {
@@ -382,7 +519,7 @@ export default function ContentTypeBuilder() {
   const loadContentType = async (id: string) => {
     setLoading(true)
     try {
-      const existing = await mockApi.getContentType(id)
+      const existing = await contentApi.getContentType(id)
       if (existing) {
         setContentType({
           id: existing.id,
@@ -397,6 +534,9 @@ export default function ContentTypeBuilder() {
             required: field.required,
             unique: field.unique,
             defaultValue: field.defaultValue,
+            placeholder: field.placeholder,
+            helpText: field.helpText,
+            validation: field.validation,
             options: field.options,
             relatedType: field.relatedType,
             order: field.order,
@@ -449,43 +589,41 @@ export default function ContentTypeBuilder() {
   const handleSave = async () => {
     setIsSaving(true)
     try {
+      const fields = contentType.fields.map(field => ({
+        id: field.id,
+        name: field.name,
+        displayName: field.displayName,
+        fieldType: field.fieldType,
+        required: field.required,
+        unique: field.unique,
+        defaultValue: field.defaultValue,
+        placeholder: field.placeholder,
+        helpText: field.helpText,
+        validation: field.validation,
+        options: field.options,
+        relatedType: field.relatedType,
+        order: field.order,
+      }))
+
       if (isEditing && contentType.id) {
         // Update existing content type
-        await mockApi.updateContentType(contentType.id, {
-          name: contentType.name,
-          displayName: contentType.displayName,
-          description: contentType.description,
-          fields: contentType.fields.map(field => ({
-            id: field.id,
-            name: field.name,
-            displayName: field.displayName,
-            fieldType: field.fieldType,
-            required: field.required,
-            unique: field.unique,
-            defaultValue: field.defaultValue,
-            options: field.options,
-            relatedType: field.relatedType,
-            order: field.order,
-          })),
+        await updateContentType.mutateAsync({
+          id: contentType.id,
+          data: {
+            name: contentType.name,
+            displayName: contentType.displayName,
+            description: contentType.description,
+            fields,
+          },
         })
         alert('Content type updated successfully!')
       } else {
         // Create new content type
-        await mockApi.createContentType({
+        await createContentType.mutateAsync({
           name: contentType.name,
           displayName: contentType.displayName,
           description: contentType.description,
-          fields: contentType.fields.map(field => ({
-            name: field.name,
-            displayName: field.displayName,
-            fieldType: field.fieldType,
-            required: field.required,
-            unique: field.unique,
-            defaultValue: field.defaultValue,
-            options: field.options,
-            relatedType: field.relatedType,
-            order: field.order,
-          })),
+          fields,
         })
         alert('Content type created successfully!')
       }
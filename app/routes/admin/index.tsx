@@ -6,6 +6,9 @@ import { DashboardStatsSkeleton, RecentActivitySkeleton } from '~/components/ui/
 import { EmptyActivity } from '~/components/ui/empty-states'
 import { useState, useEffect } from 'react'
 import { Badge } from '~/components/ui/badge'
+import { ScheduledPublishingCard } from '~/components/scheduled-publishing-card'
+import { ActivityList } from '~/components/activity-list'
+import { useActivity } from '~/lib/activity-data'
 
 interface DashboardStatsProps {
   title: string
@@ -63,14 +66,6 @@ function DashboardStats({ title, value, icon, trend, isLoading = false }: Dashbo
   )
 }
 
-interface RecentActivityItem {
-  id: string
-  type: 'tag' | 'media' | 'content'
-  title: string
-  user: string
-  time: string
-}
-
 interface HealthSummary {
   status: 'healthy' | 'degraded' | 'unhealthy'
   uptime: number
@@ -207,55 +202,8 @@ function HealthSummaryCard() {
 }
 
 function RecentActivity() {
-  const [activities, setActivities] = useState<RecentActivityItem[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-
-  useEffect(() => {
-    // Simulate loading recent activity
-    const loadActivity = () => {
-      setTimeout(() => {
-        setActivities([
-          {
-            id: '1',
-            type: 'content',
-            title: 'Created new content type',
-            user: 'Admin User',
-            time: '2 hours ago',
-          },
-          {
-            id: '2',
-            type: 'tag',
-            title: 'Created tag "Technology"',
-            user: 'Admin User',
-            time: '4 hours ago',
-          },
-          {
-            id: '3',
-            type: 'media',
-            title: 'Uploaded banner.jpg',
-            user: 'Admin User',
-            time: '1 day ago',
-          },
-        ])
-        setIsLoading(false)
-      }, 1000)
-    }
-
-    loadActivity()
-  }, [])
-
-  const getActivityIcon = (type: string) => {
-    switch (type) {
-      case 'content':
-        return <CheckCircle className='h-5 w-5 text-blue-500' />
-      case 'tag':
-        return <Tag className='h-5 w-5 text-green-500' />
-      case 'media':
-        return <Image className='h-5 w-5 text-purple-500' />
-      default:
-        return <CheckCircle className='h-5 w-5 text-gray-500' />
-    }
-  }
+  const { data, isLoading } = useActivity({ limit: 10 })
+  const activities = data?.activities ?? []
 
   if (isLoading) {
     return <RecentActivitySkeleton />
@@ -271,25 +219,7 @@ function RecentActivity() {
         <CardTitle>Recent Activity</CardTitle>
       </CardHeader>
       <CardContent>
-        <div className='flow-root'>
-          <ul className='-my-5 divide-y divide-border'>
-            {activities.map(activity => (
-              <li key={activity.id} className='py-4'>
-                <div className='flex items-center space-x-4'>
-                  <div className='flex-shrink-0' aria-hidden='true'>
-                    {getActivityIcon(activity.type)}
-                  </div>
-                  <div className='flex-1 min-w-0'>
-                    <p className='text-sm font-medium truncate'>{activity.title}</p>
-                    <p className='text-sm text-muted-foreground'>
-                      by {activity.user} • {activity.time}
-                    </p>
-                  </div>
-                </div>
-              </li>
-            ))}
-          </ul>
-        </div>
+        <ActivityList activities={activities} />
       </CardContent>
     </Card>
   )
@@ -365,6 +295,9 @@ export default function AdminDashboard() {
             {/* Health Summary */}
             <HealthSummaryCard />
 
+            {/* Scheduled publishing runs */}
+            <ScheduledPublishingCard />
+
             {/* Quick Actions */}
             <Card>
               <CardHeader>
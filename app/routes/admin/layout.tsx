@@ -14,37 +14,33 @@ import {
   X,
   Activity,
   BarChart3,
+  Shield,
+  ScrollText,
 } from 'lucide-react'
-import { mockApi, type ContentType } from '~/lib/mock-api'
-import { useAuth } from '~/lib/auth-context'
+import { useContentTypes } from '~/lib/content-data'
+import { useAuth, type AuthUser } from '~/lib/auth-context'
 import ProtectedRoute from '~/components/auth/protected-route'
+import { GlobalSearch } from '~/components/admin/global-search'
 import { ToastProvider, setToastRef, useToast } from '~/components/ui/toast'
 import { cn } from '~/lib/utils'
-import type { AuthUser } from '~/server/auth'
 
 interface AdminLayoutProps {
   children: ReactNode
 }
 
 export default function AdminLayout({ children }: AdminLayoutProps) {
-  const [contentTypes, setContentTypes] = useState<ContentType[]>([])
   const [isContentTypesExpanded, setIsContentTypesExpanded] = useState(true)
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
-  const [loading, setLoading] = useState(true)
   const { user, logout } = useAuth()
 
   return (
     <ProtectedRoute requiredRole='AUTHOR'>
       <ToastProvider>
         <AdminLayoutContent
-          contentTypes={contentTypes}
-          setContentTypes={setContentTypes}
           isContentTypesExpanded={isContentTypesExpanded}
           setIsContentTypesExpanded={setIsContentTypesExpanded}
           isMobileMenuOpen={isMobileMenuOpen}
           setIsMobileMenuOpen={setIsMobileMenuOpen}
-          loading={loading}
-          setLoading={setLoading}
           user={user}
           logout={logout}
         >
@@ -57,51 +53,37 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
 
 interface AdminLayoutContentProps {
   children: ReactNode
-  contentTypes: ContentType[]
-  setContentTypes: (types: ContentType[]) => void
   isContentTypesExpanded: boolean
   setIsContentTypesExpanded: (expanded: boolean) => void
   isMobileMenuOpen: boolean
   setIsMobileMenuOpen: (open: boolean) => void
-  loading: boolean
-  setLoading: (loading: boolean) => void
   user: AuthUser | null
   logout: () => Promise<void>
 }
 
 function AdminLayoutContent({
   children,
-  contentTypes,
-  setContentTypes,
   isContentTypesExpanded,
   setIsContentTypesExpanded,
   isMobileMenuOpen,
   setIsMobileMenuOpen,
-  loading,
-  setLoading,
   user,
   logout,
 }: AdminLayoutContentProps) {
   const toastContext = useToast()
 
   // Load content types for sidebar
+  const { data: contentTypes = [], isLoading: loading, error } = useContentTypes()
+
   useEffect(() => {
-    const loadContentTypes = async () => {
-      try {
-        const types = await mockApi.getContentTypes()
-        setContentTypes(types)
-      } catch (_error) {
-        console.error('Failed to load content types for sidebar:', _error)
-        toastContext.showError(
-          'Failed to load content types',
-          'Please refresh the page to try again.'
-        )
-      } finally {
-        setLoading(false)
-      }
+    if (error) {
+      console.error('Failed to load content types for sidebar:', error)
+      toastContext.showError(
+        'Failed to load content types',
+        'Please refresh the page to try again.'
+      )
     }
-    loadContentTypes()
-  }, [setContentTypes, setLoading, toastContext])
+  }, [error, toastContext])
 
   // Set global toast ref for use in other components
   useEffect(() => {
@@ -149,10 +131,10 @@ function AdminLayoutContent({
   return (
     <div className='min-h-screen bg-background'>
       {/* Skip to main content link */}
-      <a href="#main-content" className="skip-link">
+      <a href='#main-content' className='skip-link'>
         Skip to main content
       </a>
-      
+
       {/* Admin Header */}
       <header className='border-b bg-card/50 backdrop-blur supports-[backdrop-filter]:bg-card/50'>
         <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8'>
@@ -177,6 +159,9 @@ function AdminLayoutContent({
                 TanCMS Admin
               </a>
             </div>
+            <div className='flex flex-1 justify-center px-4'>
+              <GlobalSearch />
+            </div>
             <div className='flex items-center space-x-4'>
               <span className='text-sm text-muted-foreground hidden sm:block'>
                 Welcome, {user?.name || user?.email || 'User'}
@@ -256,6 +241,17 @@ function AdminLayoutContent({
                   API Manager
                 </a>
               </li>
+              <li role='none'>
+                <a
+                  href='#/admin/permissions'
+                  className='flex items-center px-3 py-3 sm:px-4 sm:py-2 text-sm font-medium text-foreground rounded-md hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 transition-colors min-h-[48px] sm:min-h-[auto]'
+                  role='menuitem'
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <Shield className='mr-3 h-5 w-5' aria-hidden='true' />
+                  Roles
+                </a>
+              </li>
               <li role='none'>
                 <a
                   href='#/admin/analytics'
@@ -267,6 +263,17 @@ function AdminLayoutContent({
                   Analytics
                 </a>
               </li>
+              <li role='none'>
+                <a
+                  href='#/admin/audit-log'
+                  className='flex items-center px-3 py-3 sm:px-4 sm:py-2 text-sm font-medium text-foreground rounded-md hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 transition-colors min-h-[48px] sm:min-h-[auto]'
+                  role='menuitem'
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <ScrollText className='mr-3 h-5 w-5' aria-hidden='true' />
+                  Audit Log
+                </a>
+              </li>
               <li role='none'>
                 <a
                   href='#/admin/health'
@@ -350,7 +357,7 @@ function AdminLayoutContent({
         </nav>
 
         {/* Main Content */}
-        <main id="main-content" className='flex-1 p-4 sm:p-6 md:p-8 max-w-full' tabIndex={-1}>
+        <main id='main-content' className='flex-1 p-4 sm:p-6 md:p-8 max-w-full' tabIndex={-1}>
           {children}
         </main>
       </div>
@@ -0,0 +1,443 @@
+import { useState } from 'react'
+import AdminLayout from './layout'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { ConfirmationDialog } from '~/components/ui/confirmation-dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+import { Lock, Pencil, Plus, RotateCcw, Shield, Trash2, Users } from 'lucide-react'
+import { useContentTypes } from '~/lib/content-data'
+import { roleApi, useRoleMutation, useRoles, useUserRoles } from '~/lib/role-data'
+import { ALL_CONTENT_TYPES } from '~/lib/api-keys'
+import {
+  ENTRY_ACTIONS,
+  GLOBAL_ACTIONS,
+  OWNABLE_ACTIONS,
+  PERMISSION_LABELS,
+  type CustomRoleInfo,
+  type PermissionAction,
+  type PermissionScope,
+  type RolePermissions,
+  type UserRoleAssignment,
+} from '~/lib/permissions'
+
+const SELECT_CLASS_NAME =
+  'flex h-8 w-full min-w-[6rem] rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+const SCOPE_LABELS: Record<PermissionScope, string> = {
+  none: 'None',
+  own: 'Own entries',
+  all: 'All',
+}
+
+/** Select value of a content type column that follows the "All content types" column */
+const INHERIT = ''
+
+type RoleForm = { id?: string; name: string; description: string }
+
+type PendingAction = { type: 'reset' | 'delete'; role: CustomRoleInfo }
+
+function getScopeOptions(action: PermissionAction): PermissionScope[] {
+  return OWNABLE_ACTIONS.includes(action) ? ['none', 'own', 'all'] : ['none', 'all']
+}
+
+/**
+ * Set or, with INHERIT, remove the grant of an action on a content type
+ */
+function setGrant(
+  permissions: RolePermissions,
+  action: PermissionAction,
+  contentType: string,
+  value: PermissionScope | typeof INHERIT
+): RolePermissions {
+  const grants = { ...permissions[action] }
+  if (value === INHERIT) {
+    delete grants[contentType]
+  } else {
+    grants[contentType] = value
+  }
+  return { ...permissions, [action]: grants }
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+export default function Permissions() {
+  const { data: roles = [], isLoading, error: loadError } = useRoles()
+  const { data: users = [] } = useUserRoles()
+  const { data: contentTypes = [] } = useContentTypes()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [form, setForm] = useState<RoleForm | null>(null)
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const saveRole = useRoleMutation((form: RoleForm) =>
+    form.id
+      ? roleApi.updateRole(form.id, { name: form.name, description: form.description })
+      : roleApi.createRole({ name: form.name, description: form.description })
+  )
+  const updatePermissions = useRoleMutation(
+    ({ id, permissions }: { id: string; permissions: RolePermissions }) =>
+      roleApi.updateRole(id, { permissions })
+  )
+  const resetPermissions = useRoleMutation((id: string) => roleApi.resetRolePermissions(id))
+  const deleteRole = useRoleMutation((id: string) => roleApi.deleteRole(id))
+  const setUserRoles = useRoleMutation(
+    ({ userId, roleIds }: { userId: string; roleIds: string[] }) =>
+      roleApi.setUserRoles(userId, roleIds)
+  )
+
+  const role = roles.find(candidate => candidate.id === selectedId) ?? roles[0]
+  const permissions = role?.permissions ?? {}
+  const readOnly = role?.baseRole === 'ADMIN'
+  const isSaving = updatePermissions.isPending || resetPermissions.isPending
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null)
+    try {
+      await action()
+      return true
+    } catch (actionError) {
+      setError(getErrorMessage(actionError, fallback))
+      return false
+    }
+  }
+
+  const handleSaveRole = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form) return
+    const saved = await run(async () => {
+      const result = await saveRole.mutateAsync(form)
+      setSelectedId(result.id)
+    }, 'Failed to save role')
+    if (saved) setForm(null)
+  }
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return
+    const { type, role } = pendingAction
+    const done =
+      type === 'reset'
+        ? await run(() => resetPermissions.mutateAsync(role.id), 'Failed to reset permissions')
+        : await run(() => deleteRole.mutateAsync(role.id), 'Failed to delete role')
+    if (done) {
+      if (type === 'delete') setSelectedId(null)
+      setPendingAction(null)
+    }
+  }
+
+  const toggleUserRole = (user: UserRoleAssignment, roleId: string) =>
+    run(
+      () =>
+        setUserRoles.mutateAsync({
+          userId: user.id,
+          roleIds: user.roleIds.includes(roleId)
+            ? user.roleIds.filter(id => id !== roleId)
+            : [...user.roleIds, roleId],
+        }),
+      'Failed to update user roles'
+    )
+
+  const renderSelect = (action: PermissionAction, contentType: string, label: string) => {
+    const value = permissions[action]?.[contentType]
+    const inherits = contentType !== ALL_CONTENT_TYPES
+
+    return (
+      <select
+        aria-label={`${label}: ${PERMISSION_LABELS[action]}`}
+        value={value ?? (inherits ? INHERIT : 'none')}
+        disabled={readOnly || isSaving}
+        onChange={event =>
+          role &&
+          run(
+            () =>
+              updatePermissions.mutateAsync({
+                id: role.id,
+                permissions: setGrant(
+                  permissions,
+                  action,
+                  contentType,
+                  event.target.value as PermissionScope | typeof INHERIT
+                ),
+              }),
+            'Failed to save permissions'
+          )
+        }
+        className={SELECT_CLASS_NAME}
+      >
+        {inherits && <option value={INHERIT}>Inherit</option>}
+        {getScopeOptions(action).map(scope => (
+          <option key={scope} value={scope}>
+            {SCOPE_LABELS[scope]}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  const renderActionRow = (action: PermissionAction) => (
+    <TableRow key={action}>
+      <TableCell className='font-medium'>
+        {PERMISSION_LABELS[action]}
+        <code className='block text-xs text-muted-foreground'>{action}</code>
+      </TableCell>
+      <TableCell>{renderSelect(action, ALL_CONTENT_TYPES, 'All content types')}</TableCell>
+      {(ENTRY_ACTIONS as readonly PermissionAction[]).includes(action)
+        ? contentTypes.map(contentType => (
+            <TableCell key={contentType.id}>
+              {renderSelect(action, contentType.slug, contentType.displayName)}
+            </TableCell>
+          ))
+        : contentTypes.length > 0 && (
+            <TableCell colSpan={contentTypes.length}>
+              <Badge variant='secondary'>Applies to all content types</Badge>
+            </TableCell>
+          )}
+    </TableRow>
+  )
+
+  return (
+    <AdminLayout>
+      <div className='space-y-6'>
+        <div>
+          <h1 className='text-3xl font-bold'>Roles and permissions</h1>
+          <p className='text-muted-foreground mt-2'>
+            Define roles, choose what each may do and assign them to users; a user with several
+            roles may do everything any of them allows. Content type columns override the “All
+            content types” grant; “Own entries” limits an action to entries the user authored.
+          </p>
+        </div>
+
+        {(error || loadError) && (
+          <p className='text-sm text-destructive'>
+            {error ?? getErrorMessage(loadError, 'Failed to load roles')}
+          </p>
+        )}
+
+        <div className='flex flex-wrap gap-2' role='tablist' aria-label='Roles'>
+          {roles.map(candidate => (
+            <Button
+              key={candidate.id}
+              role='tab'
+              aria-selected={candidate.id === role?.id}
+              variant={candidate.id === role?.id ? 'default' : 'outline'}
+              size='sm'
+              onClick={() => {
+                setSelectedId(candidate.id)
+                setError(null)
+              }}
+            >
+              {candidate.name}
+            </Button>
+          ))}
+          <Button variant='ghost' size='sm' onClick={() => setForm({ name: '', description: '' })}>
+            <Plus className='mr-1 h-4 w-4' />
+            New role
+          </Button>
+        </div>
+
+        {form && (
+          <Card>
+            <CardContent className='p-6'>
+              <form onSubmit={handleSaveRole} className='grid gap-4 md:grid-cols-3 items-end'>
+                <div className='space-y-2'>
+                  <Label htmlFor='role-name'>Name</Label>
+                  <Input
+                    id='role-name'
+                    value={form.name}
+                    onChange={event => setForm({ ...form, name: event.target.value })}
+                    placeholder='e.g. Translator'
+                    required
+                  />
+                </div>
+                <div className='space-y-2'>
+                  <Label htmlFor='role-description'>Description</Label>
+                  <Input
+                    id='role-description'
+                    value={form.description}
+                    onChange={event => setForm({ ...form, description: event.target.value })}
+                  />
+                </div>
+                <div className='flex gap-2'>
+                  <Button type='submit' disabled={saveRole.isPending}>
+                    {form.id ? 'Save' : 'Create role'}
+                  </Button>
+                  <Button type='button' variant='outline' onClick={() => setForm(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {role && (
+          <Card>
+            <CardHeader>
+              <div className='flex flex-wrap items-center justify-between gap-2'>
+                <div>
+                  <CardTitle className='flex items-center'>
+                    <Shield className='mr-2 h-5 w-5' />
+                    {role.name}
+                    {role.baseRole && (
+                      <Badge variant='secondary' className='ml-2'>
+                        Built-in: {role.baseRole}
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  <p className='text-sm text-muted-foreground mt-1'>
+                    {role.description || 'No description'} · {role.userCount}{' '}
+                    {role.userCount === 1 ? 'user' : 'users'}
+                  </p>
+                </div>
+                <div className='flex gap-2'>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() =>
+                      setForm({ id: role.id, name: role.name, description: role.description ?? '' })
+                    }
+                  >
+                    <Pencil className='mr-2 h-4 w-4' />
+                    Rename
+                  </Button>
+                  {role.baseRole && !readOnly && (
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      disabled={isSaving}
+                      onClick={() => setPendingAction({ type: 'reset', role })}
+                    >
+                      <RotateCcw className='mr-2 h-4 w-4' />
+                      Reset to defaults
+                    </Button>
+                  )}
+                  {!readOnly && (
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      onClick={() => setPendingAction({ type: 'delete', role })}
+                    >
+                      <Trash2 className='mr-2 h-4 w-4' />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className='space-y-4'>
+              {readOnly && (
+                <p className='flex items-center text-sm text-muted-foreground'>
+                  <Lock className='mr-2 h-4 w-4' />
+                  This role always has every permission so that no edit can lock everyone out.
+                </p>
+              )}
+
+              <div className='overflow-x-auto'>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Action</TableHead>
+                      <TableHead>All content types</TableHead>
+                      {contentTypes.map(contentType => (
+                        <TableHead key={contentType.id}>{contentType.displayName}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...ENTRY_ACTIONS, ...GLOBAL_ACTIONS].map(renderActionRow)}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading && <p className='text-sm text-muted-foreground'>Loading roles...</p>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className='flex items-center'>
+              <Users className='mr-2 h-5 w-5' />
+              Users
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className='text-sm text-muted-foreground mb-4'>
+              Users without any role have no permissions, unless their built-in role is Admin.
+            </p>
+            <div className='overflow-x-auto'>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Built-in role</TableHead>
+                    {roles.map(candidate => (
+                      <TableHead key={candidate.id}>{candidate.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map(user => (
+                    <TableRow key={user.id}>
+                      <TableCell>
+                        <div className='font-medium'>{user.name || user.email}</div>
+                        {user.name && (
+                          <div className='text-xs text-muted-foreground'>{user.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant='outline'>{user.role}</Badge>
+                      </TableCell>
+                      {roles.map(candidate => (
+                        <TableCell key={candidate.id}>
+                          <input
+                            type='checkbox'
+                            aria-label={`${user.email}: ${candidate.name}`}
+                            checked={user.roleIds.includes(candidate.id)}
+                            disabled={setUserRoles.isPending}
+                            onChange={() => toggleUserRole(user, candidate.id)}
+                            className='h-4 w-4'
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmationDialog
+        isOpen={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirm}
+        title={
+          pendingAction?.type === 'reset'
+            ? `Reset ${pendingAction.role.name} permissions`
+            : `Delete ${pendingAction?.role.name}`
+        }
+        description={
+          pendingAction?.type === 'reset'
+            ? `The role returns to the default permissions of the built-in ${pendingAction.role.baseRole} role. Changes made here are lost.`
+            : `${pendingAction?.role.userCount ?? 0} users lose this role and the permissions it grants. This cannot be undone.`
+        }
+        confirmLabel={pendingAction?.type === 'reset' ? 'Reset' : 'Delete'}
+        variant={pendingAction?.type === 'reset' ? 'warning' : 'danger'}
+        isLoading={resetPermissions.isPending || deleteRole.isPending}
+      />
+    </AdminLayout>
+  )
+}
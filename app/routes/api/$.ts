@@ -3,7 +3,7 @@
  * Handles all /api/* requests using the centralized API manager
  */
 
-import { apiManager, type ApiConfig } from '~/lib/api-manager'
+import { apiManager } from '~/lib/api-manager'
 import { ApiResponseBuilder } from '~/lib/api-response'
 import { 
   applySecurityHeaders, 
@@ -13,6 +13,13 @@ import {
 import { sanitizeApiInput } from '~/lib/security/sanitization'
 import { createComprehensiveCSRFProtection } from '~/lib/security/csrf'
 import { GET as authRouteGET, POST as authRoutePOST } from './auth'
+import { GET as mediaRouteGET, POST as mediaRoutePOST } from './media'
+import { GET as graphqlRouteGET, POST as graphqlRoutePOST } from './graphql'
+import { GET as openApiRouteGET } from './openapi'
+import { GET as healthRouteGET } from './health'
+import { GET as metricsRouteGET } from './metrics'
+import { GET as auditLogRouteGET } from './audit-log'
+import { getMaxUploadRequestSize } from '~/server/media-upload'
 
 type CatchAllRouteParams = {
   _splat?: string
@@ -30,47 +37,72 @@ function isAuthRoute(params: CatchAllRouteParams): boolean {
 }
 
 /**
- * Initialize API manager with configuration from environment
+ * Uploads (POST /api/media, served after the security middleware), stored files
+ * (GET /api/media/files/*) and image transforms (GET /api/media/:id/transform)
  */
-function initializeApiManager(): void {
-  const config: ApiConfig = {
-    enableAuth: process.env.NODE_ENV === 'production' && !!process.env.API_KEYS,
-    enableLogging: process.env.NODE_ENV !== 'test',
-    corsEnabled: true,
-    apiKeys: process.env.API_KEYS ? process.env.API_KEYS.split(',') : undefined,
-  }
+function isMediaRoute(params: CatchAllRouteParams, method: 'GET' | 'POST'): boolean {
+  const splat = params?._splat || ''
+  return method === 'POST'
+    ? splat === 'media'
+    : splat.startsWith('media/files/') || isTransformRoute(params)
+}
 
-  // Configure the API manager if needed
-  if (config.enableAuth || !config.enableLogging) {
-    // We could create a new instance here, but for simplicity we'll modify the existing one
-    if (config.apiKeys) {
-      apiManager.addMiddleware({
-        name: 'auth',
-        handler: async (request, next) => {
-          if (request.path === '/api/status') {
-            return next()
-          }
-
-          const apiKey = request.query?.['api_key'] || request.query?.['apiKey']
-
-          if (!apiKey) {
-            return ApiResponseBuilder.authRequired(
-              'API key is required. Provide it as ?api_key=your_key'
-            )
-          }
-
-          if (!config.apiKeys?.includes(apiKey)) {
-            return ApiResponseBuilder.error({
-              code: 'AUTHENTICATION_FAILED',
-              message: 'Invalid API key provided',
-              details: ['The provided API key is not valid'],
-            })
-          }
-
-          return next()
-        },
-      })
-    }
+/**
+ * Image transforms (GET /api/media/:id/transform), which render images on the server
+ */
+function isTransformRoute(params: CatchAllRouteParams): boolean {
+  return /^media\/[^/]+\/transform$/.test(params?._splat || '')
+}
+
+/**
+ * GraphQL queries and mutations (GET/POST /api/graphql), served after the security middleware
+ */
+function isGraphQLRoute(params: CatchAllRouteParams): boolean {
+  return params?._splat === 'graphql'
+}
+
+/**
+ * Health report (GET /api/health) and the liveness and readiness probes (GET /api/health/live,
+ * GET /api/health/ready), served before the security middleware so rate limits never fail a probe
+ */
+function isHealthRoute(params: CatchAllRouteParams): boolean {
+  return ['health', 'health/live', 'health/ready'].includes(params?._splat || '')
+}
+
+/**
+ * Prometheus metrics (GET /api/metrics), protected by the metrics token and served before the
+ * security middleware like the health endpoints
+ */
+function isMetricsRoute(params: CatchAllRouteParams): boolean {
+  return params?._splat === 'metrics'
+}
+
+/**
+ * Audit log (GET /api/audit-log), for users with the audit.view permission
+ */
+function isAuditLogRoute(params: CatchAllRouteParams): boolean {
+  return params?._splat === 'audit-log'
+}
+
+/**
+ * OpenAPI document (GET /api/openapi.json), public like /api/status
+ */
+function isOpenApiRoute(params: CatchAllRouteParams): boolean {
+  return params?._splat === 'openapi.json'
+}
+
+/**
+ * Warn about configuration that is no longer supported; authentication itself is configured by
+ * REQUIRE_API_KEY, NODE_ENV and API_KEYS when the API manager is created (see isApiAuthRequired)
+ */
+function initializeApiManager(): void {
+  if (process.env.API_KEYS) {
+    console.warn(
+      'API_KEYS is no longer supported: its keys are not accepted, and every API call that uses ' +
+        'the server default access requires a key created in the admin API Manager or a ' +
+        'signed-in user until API_KEYS is removed. Recreate the keys in the API Manager, then ' +
+        'remove API_KEYS.'
+    )
   }
 }
 
@@ -83,17 +115,41 @@ const rateLimiter = createRateLimitMiddleware({
   message: 'Too many API requests, please try again later.',
 })
 
+/**
+ * Rate limiter for image transforms; pages request several sizes per image, so it allows more
+ * requests than the API limiter, but uncached transforms still cost CPU
+ */
+const transformRateLimiter = createRateLimitMiddleware({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 300,
+  message: 'Too many image transform requests, please try again later.',
+})
+
 /**
  * Create CSRF protection
  */
 const csrfProtection = createComprehensiveCSRFProtection()
 
+/**
+ * API keys and bearer tokens are sent explicitly by the client, never attached by the browser
+ * like session cookies, so requests carrying them cannot be forged cross-site
+ */
+function hasExplicitCredentials(request: Request): boolean {
+  return (
+    request.headers.has('x-api-key') ||
+    /^Bearer\s/i.test(request.headers.get('authorization') || '')
+  )
+}
+
 /**
  * Apply security middleware to request
  */
-function applySecurityMiddleware(request: Request): Response | null {
+function applySecurityMiddleware(
+  request: Request,
+  maxBodySize = 10 * 1024 * 1024 // 10MB limit
+): Response | null {
   // Validate request size
-  if (!validateRequestSize(request, 10 * 1024 * 1024)) { // 10MB limit
+  if (!validateRequestSize(request, maxBodySize)) {
     return new Response(
       JSON.stringify({
         error: 'Request too large',
@@ -112,7 +168,10 @@ function applySecurityMiddleware(request: Request): Response | null {
     return rateLimitResponse
   }
 
-  // Apply CSRF protection
+  // Apply CSRF protection to cookie-authenticated requests
+  if (hasExplicitCredentials(request)) {
+    return null
+  }
   const csrfResult = csrfProtection(request)
   if (csrfResult.response) {
     return csrfResult.response
@@ -146,12 +205,43 @@ export async function GET({ request, params }: { request: Request; params: Catch
       return authRouteGET(request)
     }
 
+    if (isTransformRoute(params)) {
+      const rateLimitResponse = transformRateLimiter(request)
+      if (rateLimitResponse) {
+        return applySecurityHeaders(rateLimitResponse)
+      }
+    }
+
+    if (isMediaRoute(params, 'GET')) {
+      return mediaRouteGET(request)
+    }
+
+    if (isHealthRoute(params)) {
+      return healthRouteGET(request)
+    }
+
+    if (isMetricsRoute(params)) {
+      return metricsRouteGET(request)
+    }
+
     // Apply security middleware
     const securityResponse = applySecurityMiddleware(request)
     if (securityResponse) {
       return applySecurityHeaders(securityResponse)
     }
 
+    if (isGraphQLRoute(params)) {
+      return graphqlRouteGET(request)
+    }
+
+    if (isOpenApiRoute(params)) {
+      return openApiRouteGET(request)
+    }
+
+    if (isAuditLogRoute(params)) {
+      return auditLogRouteGET(request)
+    }
+
     const url = new URL(request.url)
     const path = `/api/${params._splat || ''}`
     const query: Record<string, string> = {}
@@ -166,12 +256,13 @@ export async function GET({ request, params }: { request: Request; params: Catch
         method: 'GET',
         path,
         query,
+        headers: Object.fromEntries(request.headers),
       })
 
       const httpResponse = ApiResponseBuilder.createHttpResponse(response, {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
       })
 
       // Apply security headers
@@ -189,12 +280,24 @@ export async function POST({ request, params }: { request: Request; params: Catc
       return authRoutePOST(request)
     }
 
-    // Apply security middleware
-    const securityResponse = applySecurityMiddleware(request)
+    // Apply security middleware; uploads have a size limit of their own
+    const isUpload = isMediaRoute(params, 'POST')
+    const securityResponse = applySecurityMiddleware(
+      request,
+      isUpload ? getMaxUploadRequestSize() : undefined
+    )
     if (securityResponse) {
       return applySecurityHeaders(securityResponse)
     }
 
+    if (isUpload) {
+      return mediaRoutePOST(request)
+    }
+
+    if (isGraphQLRoute(params)) {
+      return graphqlRoutePOST(request)
+    }
+
     const url = new URL(request.url)
     const path = `/api/${params._splat || ''}`
     const query: Record<string, string> = {}
@@ -223,12 +326,13 @@ export async function POST({ request, params }: { request: Request; params: Catc
         path,
         body,
         query,
+        headers: Object.fromEntries(request.headers),
       })
 
       const httpResponse = ApiResponseBuilder.createHttpResponse(response, {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
       })
 
       // Apply security headers
@@ -242,6 +346,12 @@ export async function POST({ request, params }: { request: Request; params: Catc
 }
 
 export async function PUT({ request, params }: { request: Request; params: { _splat: string } }) {
+    // Apply security middleware
+    const securityResponse = applySecurityMiddleware(request)
+    if (securityResponse) {
+      return applySecurityHeaders(securityResponse)
+    }
+
     const url = new URL(request.url)
     const path = `/api/${params._splat || ''}`
     const query: Record<string, string> = {}
@@ -253,15 +363,15 @@ export async function PUT({ request, params }: { request: Request; params: { _sp
 
     let body: unknown
     try {
-      const text = await request.text()
-      body = text ? JSON.parse(text) : undefined
-    } catch {
+      body = await processRequestBody(request)
+    } catch (error) {
       const errorResponse = ApiResponseBuilder.error({
         code: 'BAD_REQUEST',
-        message: 'Invalid JSON in request body',
+        message: error instanceof Error ? error.message : 'Invalid JSON in request body',
         details: ['Request body must contain valid JSON'],
       })
-      return ApiResponseBuilder.createHttpResponse(errorResponse)
+      const httpResponse = ApiResponseBuilder.createHttpResponse(errorResponse)
+      return applySecurityHeaders(httpResponse)
     }
 
     try {
@@ -270,21 +380,32 @@ export async function PUT({ request, params }: { request: Request; params: { _sp
         path,
         body,
         query,
+        headers: Object.fromEntries(request.headers),
       })
 
-      return ApiResponseBuilder.createHttpResponse(response, {
+      const httpResponse = ApiResponseBuilder.createHttpResponse(response, {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
       })
+
+      // Apply security headers
+      return applySecurityHeaders(httpResponse)
     } catch (apiError) {
       console.error('API PUT error:', apiError)
       const errorResponse = ApiResponseBuilder.internalError(apiError)
-      return ApiResponseBuilder.createHttpResponse(errorResponse)
+      const httpResponse = ApiResponseBuilder.createHttpResponse(errorResponse)
+      return applySecurityHeaders(httpResponse)
     }
 }
 
 export async function DELETE({ request, params }: { request: Request; params: { _splat: string } }) {
+    // Apply security middleware
+    const securityResponse = applySecurityMiddleware(request)
+    if (securityResponse) {
+      return applySecurityHeaders(securityResponse)
+    }
+
     const url = new URL(request.url)
     const path = `/api/${params._splat || ''}`
     const query: Record<string, string> = {}
@@ -299,17 +420,22 @@ export async function DELETE({ request, params }: { request: Request; params: {
         method: 'DELETE',
         path,
         query,
+        headers: Object.fromEntries(request.headers),
       })
 
-      return ApiResponseBuilder.createHttpResponse(response, {
+      const httpResponse = ApiResponseBuilder.createHttpResponse(response, {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
       })
+
+      // Apply security headers
+      return applySecurityHeaders(httpResponse)
     } catch (apiError) {
       console.error('API DELETE error:', apiError)
       const errorResponse = ApiResponseBuilder.internalError(apiError)
-      return ApiResponseBuilder.createHttpResponse(errorResponse)
+      const httpResponse = ApiResponseBuilder.createHttpResponse(errorResponse)
+      return applySecurityHeaders(httpResponse)
     }
 }
 
@@ -320,7 +446,7 @@ export async function OPTIONS() {
       headers: {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
         'Access-Control-Max-Age': '86400',
       },
     })
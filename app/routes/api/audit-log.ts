@@ -0,0 +1,92 @@
+/**
+ * Audit log endpoint
+ * GET /api/audit-log - Audit log entries, newest first; filtered by `user` (user ID or part of an
+ *   email address), `event`, `ip` (prefix), `from` and `to` (ISO dates), paged by `page` and
+ *   `pageSize`; `format=csv` downloads every matching entry as CSV
+ *
+ * Requires the `audit.view` permission.
+ */
+
+import { ApiResponseBuilder } from '~/lib/api-response'
+import type { AuditLogQuery } from '~/lib/audit-log'
+import { requirePermission } from '~/server/auth-middleware'
+import { prisma } from '~/server/db'
+import { exportAuditLogs, queryAuditLogs, validateAuditLogQuery } from '~/server/audit-log'
+import { applySecurityHeaders } from '~/server/security-headers'
+
+function toQuery(params: URLSearchParams): AuditLogQuery {
+  const toNumber = (value: string | null) => (value === null ? undefined : Number(value))
+  return {
+    user: params.get('user') || undefined,
+    event: params.get('event') || undefined,
+    ip: params.get('ip') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    page: toNumber(params.get('page')),
+    pageSize: toNumber(params.get('pageSize')),
+  }
+}
+
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'audit.view')
+  if ('error' in auth) {
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(
+        auth.status === 403
+          ? ApiResponseBuilder.error({ code: 'AUTHORIZATION_FAILED', message: auth.error })
+          : ApiResponseBuilder.authRequired(auth.error)
+      )
+    )
+  }
+
+  const params = new URL(request.url).searchParams
+  const query = toQuery(params)
+  const errors = validateAuditLogQuery(query)
+  if (errors.length > 0) {
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.validationError(errors))
+    )
+  }
+
+  try {
+    if (params.get('format') === 'csv') {
+      const file = await exportAuditLogs(prisma, query)
+      return applySecurityHeaders(
+        new Response(file.content, {
+          status: 200,
+          headers: {
+            'Content-Type': `${file.mimeType}; charset=utf-8`,
+            'Content-Disposition': `attachment; filename="${file.filename}"`,
+            'Cache-Control': 'no-store',
+          },
+        })
+      )
+    }
+
+    const { entries, total, page, pageSize } = await queryAuditLogs(prisma, query)
+    const totalPages = Math.ceil(total / pageSize)
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(
+        ApiResponseBuilder.success({
+          message: `Retrieved ${entries.length} audit log entries`,
+          data: {
+            entries,
+            pagination: {
+              page,
+              limit: pageSize,
+              total,
+              totalPages,
+              hasNext: page < totalPages,
+              hasPrev: page > 1,
+            },
+          },
+        })
+      )
+    )
+  } catch (error) {
+    console.error('Audit log error:', error)
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.internalError(error))
+    )
+  }
+}
@@ -72,7 +72,7 @@ export async function POST(request: Request) {
           const result = loginSchema.safeParse(body)
 
           if (!result.success) {
-            securityAudit.log('LOGIN_ATTEMPT', request, undefined, false, {
+            await securityAudit.log('LOGIN_ATTEMPT', request, undefined, false, {
               error: 'Validation failed',
               details: result.error.flatten(),
             })
@@ -93,7 +93,7 @@ export async function POST(request: Request) {
           const authResult = await authenticateUserSecure(email, password, request)
 
           if (!authResult.user) {
-            securityAudit.log('LOGIN_ATTEMPT', request, undefined, false, {
+            await securityAudit.log('LOGIN_ATTEMPT', request, undefined, false, {
               email,
               error: authResult.error,
             })
@@ -110,7 +110,7 @@ export async function POST(request: Request) {
             return applySecurityHeaders(response)
           }
 
-          securityAudit.log('LOGIN_SUCCESS', request, authResult.user.id, true, {
+          await securityAudit.log('LOGIN_SUCCESS', request, authResult.user.id, true, {
             email,
             role: authResult.user.role,
           })
@@ -124,6 +124,8 @@ export async function POST(request: Request) {
               email: authResult.user.email,
               name: authResult.user.name,
               role: authResult.user.role,
+              roles: authResult.user.roles,
+              permissions: authResult.user.permissions,
             },
             tokens: {
               accessToken,
@@ -168,6 +170,7 @@ export async function POST(request: Request) {
             // For now, only allow admin registration in development
             const role = process.env.NODE_ENV === 'development' ? 'ADMIN' : 'VIEWER'
             const user = await createUser(email, password, name, role)
+            await securityAudit.log('USER_REGISTERED', request, user.id, true, { email, role })
             const sessionId = await createSession(user.id)
             const accessToken = generateAccessToken(user)
             
@@ -177,6 +180,8 @@ export async function POST(request: Request) {
                 email: user.email,
                 name: user.name,
                 role: user.role,
+                roles: user.roles,
+                permissions: user.permissions,
               },
               tokens: {
                 accessToken,
@@ -219,7 +224,11 @@ export async function POST(request: Request) {
           const sessionId = getSessionIdFromRequest(request)
 
           if (sessionId) {
+            const user = await getSessionUser(sessionId)
             await deleteSession(sessionId)
+            if (user) {
+              await securityAudit.log('LOGOUT', request, user.id)
+            }
           }
 
           const response = ApiResponseBuilder.createHttpResponse(
@@ -283,6 +292,8 @@ export async function POST(request: Request) {
                   email: user.email,
                   name: user.name,
                   role: user.role,
+                  roles: user.roles,
+                  permissions: user.permissions,
                 },
               },
             })
@@ -339,6 +350,8 @@ export async function GET(request: Request) {
                   email: user.email,
                   name: user.name,
                   role: user.role,
+                  roles: user.roles,
+                  permissions: user.permissions,
                 }
               : null,
           },
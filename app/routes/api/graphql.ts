@@ -0,0 +1,105 @@
+/**
+ * GraphQL HTTP endpoint
+ * GET /api/graphql?query=...&variables=... - Run a query
+ * POST /api/graphql - Run a query or mutation from a JSON `{ query, variables, operationName }` body
+ *
+ * Requests go through the API manager like REST requests, but responses use the GraphQL
+ * `{ data, errors }` shape that GraphQL clients and code generators expect.
+ */
+
+import { apiManager, type ApiRequest } from '~/lib/api-manager'
+import { ApiResponseBuilder, type StandardApiResponse } from '~/lib/api-response'
+import { sanitizeApiInput } from '~/lib/security/sanitization'
+import { applySecurityHeaders } from '~/server/security-headers'
+
+const GRAPHQL_PATH = '/api/graphql'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+}
+
+export async function GET(request: Request) {
+  return handleGraphQLRequest({
+    method: 'GET',
+    path: GRAPHQL_PATH,
+    query: getQuery(request),
+    headers: Object.fromEntries(request.headers),
+  })
+}
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    const text = await request.text()
+    body = text ? JSON.parse(text) : undefined
+  } catch {
+    return toGraphQLResponse(
+      ApiResponseBuilder.error({
+        code: 'BAD_REQUEST',
+        message: 'Invalid JSON in request body',
+        details: ['Request body must contain valid JSON'],
+      })
+    )
+  }
+
+  // Variables carry field values, which are sanitized like REST request bodies; the query
+  // text itself is parsed, not stored
+  if (body && typeof body === 'object' && 'variables' in body) {
+    body = { ...body, variables: sanitizeApiInput(body.variables) }
+  }
+
+  return handleGraphQLRequest({
+    method: 'POST',
+    path: GRAPHQL_PATH,
+    query: getQuery(request),
+    body,
+    headers: Object.fromEntries(request.headers),
+  })
+}
+
+function getQuery(request: Request): Record<string, string> {
+  return Object.fromEntries(new URL(request.url).searchParams)
+}
+
+async function handleGraphQLRequest(apiRequest: ApiRequest) {
+  try {
+    return toGraphQLResponse(await apiManager.handleRequest(apiRequest))
+  } catch (error) {
+    console.error('GraphQL error:', error)
+    return toGraphQLResponse(ApiResponseBuilder.internalError(error))
+  }
+}
+
+/**
+ * Send the GraphQL result as is; API errors (missing API key, malformed request, ...) become a
+ * single GraphQL error with the REST status code
+ */
+function toGraphQLResponse(response: StandardApiResponse) {
+  const body = response.success
+    ? response.data
+    : {
+        errors: [
+          {
+            message: response.error!.message,
+            extensions: {
+              code: response.error!.code,
+              details: response.error!.details,
+              fields: response.error!.fields,
+            },
+          },
+        ],
+      }
+
+  return applySecurityHeaders(
+    new Response(JSON.stringify(body), {
+      status: response.success ? 200 : ApiResponseBuilder.getStatusCode(response.error!.code),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Request-ID': response.meta.requestId || crypto.randomUUID(),
+        ...CORS_HEADERS,
+      },
+    })
+  )
+}
@@ -0,0 +1,73 @@
+/**
+ * Health endpoints
+ * GET /api/health - Health report with database, filesystem, memory, session and scheduler checks;
+ *   `?detailed=true` adds the details of every check for signed-in admins
+ * GET /api/health/live - Liveness probe: the process is up and serving requests
+ * GET /api/health/ready - Readiness probe: the database can be reached
+ *
+ * Unhealthy reports and failed readiness answer 503 so load balancers and container probes can
+ * act on the status code alone.
+ */
+
+import { prisma } from '~/server/db'
+import { requireRole } from '~/server/auth-middleware'
+import { getHealthReport, getReadiness, type HealthReport } from '~/server/health'
+import { applySecurityHeaders } from '~/server/security-headers'
+
+const HEALTH_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-store',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+}
+
+function createHealthResponse(body: unknown, status: number): Response {
+  return applySecurityHeaders(
+    new Response(JSON.stringify(body), { status, headers: HEALTH_HEADERS })
+  )
+}
+
+function toHttpStatus(report: HealthReport): number {
+  return report.status === 'unhealthy' ? 503 : 200
+}
+
+async function isAdmin(request: Request): Promise<boolean> {
+  return !('error' in (await requireRole(request, 'ADMIN')))
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+
+  if (url.pathname.endsWith('/live')) {
+    return createHealthResponse(
+      {
+        status: 'alive',
+        timestamp: new Date().toISOString(),
+        uptime: Math.floor(process.uptime()),
+      },
+      200
+    )
+  }
+
+  try {
+    if (url.pathname.endsWith('/ready')) {
+      const report = await getReadiness(prisma)
+      return createHealthResponse(report, toHttpStatus(report))
+    }
+
+    const detailed = url.searchParams.get('detailed') === 'true' && (await isAdmin(request))
+    const report = await getHealthReport(prisma, { detailed })
+    return createHealthResponse(report, toHttpStatus(report))
+  } catch (error) {
+    console.error('Health check error:', error)
+    return createHealthResponse(
+      {
+        timestamp: new Date().toISOString(),
+        status: 'unhealthy',
+        error: error instanceof Error ? error.message : 'Health check failed',
+      },
+      503
+    )
+  }
+}
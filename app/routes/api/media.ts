@@ -0,0 +1,76 @@
+/**
+ * Media upload and file endpoints
+ * POST /api/media - Upload files (multipart/form-data, `file` parts and optional `altText`),
+ *   streamed into storage after the security middleware of the catch-all route
+ * GET /api/media/files/:key - Serve a stored file
+ * GET /api/media/:id/transform - Serve a resized/converted image from a signed URL
+ */
+
+import { ApiResponseBuilder } from '~/lib/api-response'
+import { applySecurityHeaders } from '~/server/security-headers'
+import { requirePermission } from '~/server/auth-middleware'
+import { prisma } from '~/server/db'
+import { MEDIA_FILES_PATH } from '~/server/media-storage'
+import { serveMediaFile, uploadMediaFiles } from '~/server/media-upload'
+import { serveTransformedMedia } from '~/server/image-transform'
+import { securityAudit } from '~/server/security-auth'
+import type { MediaFile } from '~/lib/media-service'
+
+const TRANSFORM_PATH = /^\/api\/media\/([^/]+)\/transform$/
+
+export async function GET(request: Request) {
+  const { pathname } = new URL(request.url)
+
+  const transform = pathname.match(TRANSFORM_PATH)
+  if (transform) {
+    try {
+      return await serveTransformedMedia(prisma, request, decodeURIComponent(transform[1]))
+    } catch (error) {
+      console.error('Media transform error:', error)
+      return ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.internalError(error))
+    }
+  }
+
+  if (!pathname.startsWith(`${MEDIA_FILES_PATH}/`)) {
+    return ApiResponseBuilder.createHttpResponse(
+      ApiResponseBuilder.methodNotAllowed(request.method, pathname)
+    )
+  }
+
+  const key = decodeURIComponent(pathname.slice(MEDIA_FILES_PATH.length + 1))
+  try {
+    return await serveMediaFile(prisma, request, key)
+  } catch (error) {
+    console.error('Media file error:', error)
+    return ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.internalError(error))
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'media.upload')
+  if ('error' in auth) {
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(
+        auth.status === 403
+          ? ApiResponseBuilder.error({ code: 'AUTHORIZATION_FAILED', message: auth.error })
+          : ApiResponseBuilder.authRequired(auth.error)
+      )
+    )
+  }
+
+  try {
+    const response = await uploadMediaFiles(prisma, request)
+    if (response.success) {
+      const { media } = response.data as { media: MediaFile[] }
+      await securityAudit.log('MEDIA_UPLOADED', request, auth.user.id, true, {
+        mediaIds: media.map(file => file.id),
+        filenames: media.map(file => file.filename),
+      })
+    }
+    return applySecurityHeaders(ApiResponseBuilder.createHttpResponse(response))
+  } catch (error) {
+    console.error('Media upload error:', error)
+    const errorResponse = ApiResponseBuilder.internalError(error)
+    return applySecurityHeaders(ApiResponseBuilder.createHttpResponse(errorResponse))
+  }
+}
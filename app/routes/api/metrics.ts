@@ -0,0 +1,48 @@
+/**
+ * Prometheus metrics endpoint
+ * GET /api/metrics - API request counts and latency, security rejections, login failures, database
+ * query latency and entry counts in the Prometheus text format
+ *
+ * Scrapers authenticate with `Authorization: Bearer <METRICS_TOKEN>`; without METRICS_TOKEN the
+ * endpoint is disabled.
+ */
+
+import { ApiResponseBuilder } from '~/lib/api-response'
+import { prisma } from '~/server/db'
+import { isMetricsTokenValid, METRICS_CONTENT_TYPE, renderMetrics } from '~/server/metrics'
+import { applySecurityHeaders } from '~/server/security-headers'
+
+export async function GET(request: Request) {
+  if (!process.env.METRICS_TOKEN) {
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(
+        ApiResponseBuilder.error({
+          code: 'NOT_FOUND',
+          message: 'Metrics are disabled. Set METRICS_TOKEN to enable them',
+        })
+      )
+    )
+  }
+
+  if (!isMetricsTokenValid(request.headers.get('authorization'))) {
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(
+        ApiResponseBuilder.authRequired('A valid metrics token is required')
+      )
+    )
+  }
+
+  try {
+    return applySecurityHeaders(
+      new Response(await renderMetrics(prisma), {
+        status: 200,
+        headers: { 'Content-Type': METRICS_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+      })
+    )
+  } catch (error) {
+    console.error('Metrics error:', error)
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.internalError(error))
+    )
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * OpenAPI document endpoint
+ * GET /api/openapi.json - OpenAPI 3.1 description of the REST API, generated from the current
+ * content types
+ */
+
+import { ApiResponseBuilder } from '~/lib/api-response'
+import { prisma } from '~/server/db'
+import { generateOpenApiDocument } from '~/server/openapi'
+import { applySecurityHeaders } from '~/server/security-headers'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+}
+
+export async function GET(request: Request) {
+  try {
+    const document = await generateOpenApiDocument(prisma, {
+      serverUrl: new URL(request.url).origin,
+    })
+
+    return applySecurityHeaders(
+      new Response(JSON.stringify(document, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+      })
+    )
+  } catch (error) {
+    console.error('OpenAPI document error:', error)
+    return applySecurityHeaders(
+      ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.internalError(error))
+    )
+  }
+}
@@ -8,7 +8,8 @@ import { Badge } from '~/components/ui/badge'
 import { Button } from '~/components/ui/button'
 import { Edit, Trash2, Plus, ChevronUp } from 'lucide-react'
 import ContentEntryForm from '~/components/content-entry-form'
-import type { ContentType } from '~/lib/mock-api'
+import type { ContentType } from '~/lib/content-types'
+import { getEndpointSettings } from '~/lib/endpoint-settings'
 
 export const Route = createFileRoute('/')({
   component: HomePage,
@@ -93,6 +94,7 @@ function HomePage() {
     displayName: 'Demo Blog Post',
     description: 'A demo blog post content type to showcase the preview system',
     slug: 'demo-blog',
+    apiSettings: getEndpointSettings(null),
     createdAt: new Date(),
     updatedAt: new Date(),
     fields: [
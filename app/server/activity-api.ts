@@ -0,0 +1,79 @@
+/**
+ * Activity endpoint
+ * Serves GET /api/activity: the activity stream, newest first, for dashboards and chat
+ * integrations. Filtered by `entry` (entry ID), `contentType` (slug), `actor` (user ID), `since`
+ * and `before` (ISO date-times) and limited by `limit`; poll with `since` set to the time of the
+ * newest activity seen to receive only new activity.
+ *
+ * Needs an API key or a signed-in user and lists only the content types the caller may read.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { ApiResponseBuilder } from '../lib/api-response'
+import type { ApiRequest, ApiResponse } from '../lib/api-manager'
+import { hasApiKeyScope } from '../lib/api-keys'
+import { ACTIVITY_MAX_PAGE_SIZE, ACTIVITY_PAGE_SIZE, type ActivityQuery } from '../lib/activity'
+import { getReadableContentTypeIds, listActivity, validateActivityQuery } from './activity'
+import { getContentTypeBySlug } from './content-type-utils'
+import { AUTHENTICATION_REQUIRED_MESSAGE, type RequestAuth } from './endpoint-access'
+import { userCan } from './permissions'
+
+function canRead(auth: RequestAuth, contentType: string): boolean {
+  if (auth.user) return userCan(auth.user, 'entry.read', { contentType })
+  return !!auth.apiKey && hasApiKeyScope(auth.apiKey.scopes, contentType, 'read')
+}
+
+export async function routeActivityRequest(
+  prisma: PrismaClient,
+  request: ApiRequest
+): Promise<ApiResponse> {
+  if (request.method !== 'GET') {
+    return ApiResponseBuilder.methodNotAllowed(request.method, request.path)
+  }
+
+  const auth = request.auth
+  if (!auth?.user && !auth?.apiKey) {
+    return ApiResponseBuilder.authRequired(AUTHENTICATION_REQUIRED_MESSAGE)
+  }
+
+  const params = request.query ?? {}
+  const query: ActivityQuery = {
+    entryId: params.entry || undefined,
+    actorId: params.actor || undefined,
+    since: params.since || undefined,
+    before: params.before || undefined,
+    limit: params.limit ? Number(params.limit) : undefined,
+  }
+  const errors = validateActivityQuery(query)
+  if (errors.length > 0) {
+    return ApiResponseBuilder.validationError(errors, 'Invalid activity query')
+  }
+
+  if (params.contentType) {
+    const contentType = await getContentTypeBySlug(prisma, params.contentType)
+    if (!contentType) {
+      return ApiResponseBuilder.notFound('Content type', params.contentType)
+    }
+    if (!canRead(auth, contentType.slug)) {
+      return ApiResponseBuilder.error({
+        code: 'AUTHORIZATION_FAILED',
+        message: `Reading the activity of "${contentType.slug}" is not allowed`,
+      })
+    }
+    query.contentTypeId = contentType.id
+  }
+
+  const contentTypeIds = await getReadableContentTypeIds(prisma, contentType =>
+    canRead(auth, contentType)
+  )
+  const limit = Math.min(query.limit ?? ACTIVITY_PAGE_SIZE, ACTIVITY_MAX_PAGE_SIZE)
+  const { activities, hasMore } = await listActivity(prisma, { ...query, limit }, contentTypeIds)
+
+  return ApiResponseBuilder.success({
+    message: `Retrieved ${activities.length} activities`,
+    data: {
+      activities,
+      pagination: { limit, hasNext: hasMore },
+    },
+  })
+}
@@ -0,0 +1,31 @@
+/**
+ * TanStack Start server functions for the activity stream of the admin dashboard and entry pages
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requireAuth } from './auth-middleware'
+import { userCan } from './permissions'
+import { getReadableContentTypeIds, listActivity, validateActivityQuery } from './activity'
+import type { ActivityPage, ActivityQuery } from '../lib/activity'
+
+export const fetchActivity = createServerFn({ method: 'GET' })
+  .validator((query: ActivityQuery) => {
+    const errors = validateActivityQuery(query)
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '))
+    }
+    return query
+  })
+  .handler(async ({ data }): Promise<ActivityPage> => {
+    const result = await requireAuth(getWebRequest())
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+
+    const contentTypeIds = await getReadableContentTypeIds(prisma, contentType =>
+      userCan(result.user, 'entry.read', { contentType })
+    )
+    return listActivity(prisma, data, contentTypeIds)
+  })
@@ -0,0 +1,288 @@
+/**
+ * Activity stream of content changes
+ *
+ * The entry and content type helpers of content-type-utils.ts record an activity for every write,
+ * next to the entry revision, so changes made in the admin, through the REST and GraphQL APIs and
+ * by scheduled publishing all appear with the user, API key or scheduler that made them.
+ */
+
+import { PrismaClient, ContentStatus } from '@prisma/client'
+import { getEntryLabel, type RelationField } from './relation-utils'
+import {
+  ACTIVITY_MAX_PAGE_SIZE,
+  ACTIVITY_PAGE_SIZE,
+  type ActivityAction,
+  type ActivityItem,
+  type ActivityPage,
+  type ActivityQuery,
+  type ActivityTargetType,
+} from '../lib/activity'
+import { ALL_CONTENT_TYPES } from '../lib/api-keys'
+import type { RequestAuth } from './endpoint-access'
+
+/**
+ * Who made a change: a user, whose name is looked up, or a fixed name such as an API key
+ */
+export type ActivityActor = {
+  userId?: string | null
+  name?: string
+}
+
+/** Options of the entry and content type helpers that record activity */
+export type ActivityOptions = {
+  actor?: ActivityActor
+}
+
+export const SCHEDULER_ACTOR: ActivityActor = { name: 'Scheduled publishing' }
+
+/** Actor of changes made without a user or API key, e.g. by seed scripts */
+const SYSTEM_ACTOR_NAME = 'System'
+
+type ActivityRow = {
+  id: string
+  createdAt: Date
+  action: string
+  actorId: string | null
+  actorName: string
+  targetType: string
+  targetId: string
+  targetLabel: string
+  contentTypeId: string
+  contentTypeName: string
+  summary: string
+}
+
+/** An entry as returned by the entry helpers, with its content type and field values */
+export type ActivityEntry = {
+  id: string
+  slug: string | null
+  contentType: { id: string; displayName: string }
+  fieldValues: { fieldId: string; value: string | null; field: RelationField & { order: number } }[]
+}
+
+const ENTRY_SUMMARIES: Record<ActivityAction, (target: string) => string> = {
+  created: target => `created ${target}`,
+  updated: target => `edited ${target}`,
+  published: target => `published ${target}`,
+  unpublished: target => `unpublished ${target}`,
+  scheduled: target => `scheduled ${target} for publishing`,
+  unscheduled: target => `cancelled the scheduled publishing of ${target}`,
+  archived: target => `archived ${target}`,
+  restored: target => `restored an earlier revision of ${target}`,
+  deleted: target => `deleted ${target}`,
+}
+
+const CONTENT_TYPE_SUMMARIES: Partial<Record<ActivityAction, (name: string) => string>> = {
+  created: name => `created the content type ${name}`,
+  updated: name => `changed the schema of ${name}`,
+  deleted: name => `deleted the content type ${name}`,
+}
+
+/**
+ * Actor of an API request: the signed-in user or the API key
+ */
+export function getRequestActor(auth: RequestAuth | undefined): ActivityActor {
+  if (auth?.user) return { userId: auth.user.id }
+  if (auth?.apiKey) return { name: `API key "${auth.apiKey.name}"` }
+  return {}
+}
+
+/**
+ * Action of an entry update, derived from the change of its status
+ */
+export function getEntryUpdateAction(
+  previous: ContentStatus | undefined,
+  next: ContentStatus,
+  restored = false
+): ActivityAction {
+  if (restored) return 'restored'
+  if (!previous || previous === next) return 'updated'
+
+  switch (next) {
+    case 'PUBLISHED':
+      return 'published'
+    case 'SCHEDULED':
+      return 'scheduled'
+    case 'ARCHIVED':
+      return 'archived'
+    default:
+      return previous === 'SCHEDULED' ? 'unscheduled' : 'unpublished'
+  }
+}
+
+async function getActorName(prisma: PrismaClient, actor: ActivityActor): Promise<string> {
+  if (actor.name) return actor.name
+  if (actor.userId) {
+    const user: { email: string; name: string | null } | null = await prisma.user.findUnique({
+      where: { id: actor.userId },
+      select: { email: true, name: true },
+    })
+    if (user) return user.name || user.email
+  }
+  return SYSTEM_ACTOR_NAME
+}
+
+async function recordActivity(
+  prisma: PrismaClient,
+  data: {
+    action: ActivityAction
+    actor: ActivityActor
+    targetType: ActivityTargetType
+    targetId: string
+    targetLabel: string
+    contentType: { id: string; displayName: string }
+    describe: (actorName: string) => string
+  }
+) {
+  const actorName = await getActorName(prisma, data.actor)
+  return await prisma.activity.create({
+    data: {
+      action: data.action,
+      actorId: data.actor.userId ?? null,
+      actorName,
+      targetType: data.targetType,
+      targetId: data.targetId,
+      targetLabel: data.targetLabel,
+      contentTypeId: data.contentType.id,
+      contentTypeName: data.contentType.displayName,
+      summary: data.describe(actorName),
+    },
+  })
+}
+
+/**
+ * Record a change of an entry
+ */
+export async function recordEntryActivity(
+  prisma: PrismaClient,
+  entry: ActivityEntry,
+  action: ActivityAction,
+  actor: ActivityActor = {}
+) {
+  const fields = entry.fieldValues.map(fv => fv.field).sort((a, b) => a.order - b.order)
+  const label = getEntryLabel(fields, entry)
+
+  return await recordActivity(prisma, {
+    action,
+    actor,
+    targetType: 'entry',
+    targetId: entry.id,
+    targetLabel: label,
+    contentType: entry.contentType,
+    describe: actorName =>
+      `${actorName} ${ENTRY_SUMMARIES[action](`${entry.contentType.displayName} "${label}"`)}`,
+  })
+}
+
+/**
+ * Record that a content type was created, had its schema changed or was deleted
+ */
+export async function recordContentTypeActivity(
+  prisma: PrismaClient,
+  contentType: { id: string; displayName: string },
+  action: 'created' | 'updated' | 'deleted',
+  actor: ActivityActor = {}
+) {
+  return await recordActivity(prisma, {
+    action,
+    actor,
+    targetType: 'contentType',
+    targetId: contentType.id,
+    targetLabel: contentType.displayName,
+    contentType,
+    describe: actorName =>
+      `${actorName} ${CONTENT_TYPE_SUMMARIES[action]!(contentType.displayName)}`,
+  })
+}
+
+function toActivityItem(row: ActivityRow): ActivityItem {
+  return {
+    id: row.id,
+    createdAt: new Date(row.createdAt).toISOString(),
+    action: row.action as ActivityAction,
+    actorId: row.actorId,
+    actorName: row.actorName,
+    target: {
+      type: row.targetType as ActivityTargetType,
+      id: row.targetId,
+      label: row.targetLabel,
+    },
+    contentType: { id: row.contentTypeId, name: row.contentTypeName },
+    summary: row.summary,
+  }
+}
+
+/**
+ * IDs of the content types whose activity the caller may see, or undefined when it may see all,
+ * including the activity of deleted content types
+ */
+export async function getReadableContentTypeIds(
+  prisma: PrismaClient,
+  canRead: (contentType: string) => boolean
+): Promise<string[] | undefined> {
+  const contentTypes: { id: string; slug: string }[] = await prisma.contentType.findMany({
+    select: { id: true, slug: true },
+  })
+  const readable = contentTypes.filter(contentType => canRead(contentType.slug))
+  return canRead(ALL_CONTENT_TYPES) && readable.length === contentTypes.length
+    ? undefined
+    : readable.map(contentType => contentType.id)
+}
+
+/**
+ * Problems with the filters of a query, e.g. dates that cannot be parsed
+ */
+export function validateActivityQuery(query: ActivityQuery): string[] {
+  const errors: string[] = []
+  for (const key of ['since', 'before'] as const) {
+    if (query[key] && Number.isNaN(new Date(query[key]!).getTime())) {
+      errors.push(`${key} must be an ISO date-time`)
+    }
+  }
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1)) {
+    errors.push('limit must be a positive integer')
+  }
+  return errors
+}
+
+/**
+ * Activity matching the filters, newest first
+ *
+ * `contentTypeIds` limits the stream to the content types the caller may read; activity of other
+ * content types is left out.
+ */
+export async function listActivity(
+  prisma: PrismaClient,
+  query: ActivityQuery = {},
+  contentTypeIds?: string[]
+): Promise<ActivityPage> {
+  const limit = Math.min(query.limit ?? ACTIVITY_PAGE_SIZE, ACTIVITY_MAX_PAGE_SIZE)
+  const where: Record<string, unknown> = {}
+  if (query.entryId) {
+    where.targetType = 'entry'
+    where.targetId = query.entryId
+  }
+  if (query.actorId) where.actorId = query.actorId
+  if (query.contentTypeId || contentTypeIds) {
+    where.contentTypeId = contentTypeIds
+      ? { in: contentTypeIds.filter(id => !query.contentTypeId || id === query.contentTypeId) }
+      : query.contentTypeId
+  }
+  if (query.since || query.before) {
+    where.createdAt = {
+      ...(query.since && { gt: new Date(query.since) }),
+      ...(query.before && { lt: new Date(query.before) }),
+    }
+  }
+
+  const rows: ActivityRow[] = await prisma.activity.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+    take: limit + 1,
+  })
+
+  return {
+    activities: rows.slice(0, limit).map(toActivityItem),
+    hasMore: rows.length > limit,
+  }
+}
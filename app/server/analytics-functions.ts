@@ -0,0 +1,50 @@
+/**
+ * TanStack Start server functions for the admin analytics page
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requirePermission } from './auth-middleware'
+import { exportAnalytics, getAnalytics } from './analytics'
+import {
+  isAnalyticsRange,
+  type AnalyticsData,
+  type AnalyticsExport,
+  type AnalyticsExportFormat,
+  type AnalyticsRange,
+} from '../lib/analytics'
+
+async function requireAnalyticsViewer() {
+  const result = await requirePermission(getWebRequest(), 'analytics.view')
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
+  return result.user
+}
+
+function validateRange(range: unknown): AnalyticsRange {
+  if (!isAnalyticsRange(range)) {
+    throw new Error(`Unknown time range: ${String(range)}`)
+  }
+  return range
+}
+
+export const fetchAnalytics = createServerFn({ method: 'GET' })
+  .validator((range: AnalyticsRange) => validateRange(range))
+  .handler(async ({ data }): Promise<AnalyticsData> => {
+    await requireAnalyticsViewer()
+    return getAnalytics(prisma, { range: data })
+  })
+
+export const exportAnalyticsFn = createServerFn({ method: 'POST' })
+  .validator((input: { range: AnalyticsRange; format: AnalyticsExportFormat }) => {
+    if (input.format !== 'csv' && input.format !== 'json') {
+      throw new Error(`Unknown export format: ${String(input.format)}`)
+    }
+    return { range: validateRange(input.range), format: input.format }
+  })
+  .handler(async ({ data }): Promise<AnalyticsExport> => {
+    await requireAnalyticsViewer()
+    return exportAnalytics(prisma, data)
+  })
@@ -0,0 +1,269 @@
+/**
+ * Aggregation behind the admin analytics page and its CSV/JSON exports
+ *
+ * Content, user and login figures are read from the database for the selected time range. API
+ * figures come from the metrics registry, which is kept in memory and therefore covers the time
+ * since the server started.
+ */
+
+import { stat } from 'fs/promises'
+import { PrismaClient } from '@prisma/client'
+import { toCsv } from './csv'
+import { getSqliteFilePath } from './health'
+import { getApiRequestSummary } from './metrics'
+import {
+  ANALYTICS_RANGES,
+  type AnalyticsData,
+  type AnalyticsExport,
+  type AnalyticsExportFormat,
+  type AnalyticsRange,
+} from '../lib/analytics'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Content types listed in topContentTypes */
+const TOP_CONTENT_TYPES = 5
+
+/** Items listed in recentActivity */
+const RECENT_ACTIVITY_LIMIT = 10
+
+type RecentEntryRow = {
+  id: string
+  slug: string | null
+  createdAt: Date
+  updatedAt: Date
+  contentType: { displayName: string }
+  author: { email: string; name: string | null } | null
+}
+
+type LoginRow = {
+  id: string
+  createdAt: Date
+  userId: string | null
+  userEmail: string | null
+}
+
+/**
+ * Start of the time range: midnight UTC of its first day, so that every day of entriesPerDay is
+ * a whole day
+ */
+export function getRangeStart(range: AnalyticsRange, now = new Date()): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  return new Date(today - (ANALYTICS_RANGES[range].days - 1) * DAY_MS)
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+async function getEntriesPerDay(
+  prisma: PrismaClient,
+  since: Date,
+  days: number
+): Promise<AnalyticsData['entriesPerDay']> {
+  const entries: { createdAt: Date }[] = await prisma.contentEntry.findMany({
+    where: { createdAt: { gte: since } },
+    select: { createdAt: true },
+  })
+
+  const counts = new Map<string, number>()
+  for (let day = 0; day < days; day++) {
+    counts.set(toDateKey(new Date(since.getTime() + day * DAY_MS)), 0)
+  }
+  for (const entry of entries) {
+    const key = toDateKey(new Date(entry.createdAt))
+    if (counts.has(key)) counts.set(key, counts.get(key)! + 1)
+  }
+  return Array.from(counts, ([date, count]) => ({ date, count }))
+}
+
+async function getTopContentTypes(
+  prisma: PrismaClient,
+  totalEntries: number
+): Promise<AnalyticsData['topContentTypes']> {
+  const contentTypes: { displayName: string; _count: { entries: number } }[] =
+    await prisma.contentType.findMany({
+      select: { displayName: true, _count: { select: { entries: true } } },
+    })
+
+  return contentTypes
+    .map(contentType => ({
+      name: contentType.displayName,
+      count: contentType._count.entries,
+      percentage:
+        totalEntries > 0 ? Math.round((contentType._count.entries / totalEntries) * 100) : 0,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_CONTENT_TYPES)
+}
+
+async function getRecentActivity(
+  prisma: PrismaClient,
+  since: Date
+): Promise<AnalyticsData['recentActivity']> {
+  const entries: RecentEntryRow[] = await prisma.contentEntry.findMany({
+    where: { updatedAt: { gte: since } },
+    orderBy: { updatedAt: 'desc' },
+    take: RECENT_ACTIVITY_LIMIT,
+    select: {
+      id: true,
+      slug: true,
+      createdAt: true,
+      updatedAt: true,
+      contentType: { select: { displayName: true } },
+      author: { select: { email: true, name: true } },
+    },
+  })
+
+  const entryActivity = entries.map(entry => {
+    const created = new Date(entry.createdAt).getTime() === new Date(entry.updatedAt).getTime()
+    const label = entry.slug ? ` "${entry.slug}"` : ''
+    return {
+      id: `entry-${entry.id}-${new Date(entry.updatedAt).getTime()}`,
+      type: 'content' as const,
+      description: `${created ? 'Created' : 'Updated'} ${entry.contentType.displayName} entry${label}`,
+      timestamp: new Date(entry.updatedAt).toISOString(),
+      user: entry.author ? (entry.author.name ?? entry.author.email) : undefined,
+    }
+  })
+
+  const logins: LoginRow[] = await prisma.auditLog.findMany({
+    where: { event: 'LOGIN_SUCCESS', createdAt: { gte: since } },
+    orderBy: { createdAt: 'desc' },
+    take: RECENT_ACTIVITY_LIMIT,
+    select: { id: true, createdAt: true, userId: true, userEmail: true },
+  })
+
+  const loginActivity = logins.map(login => ({
+    id: `login-${login.id}`,
+    type: 'user' as const,
+    description: 'Signed in',
+    timestamp: new Date(login.createdAt).toISOString(),
+    user: login.userEmail ?? login.userId ?? undefined,
+  }))
+
+  return [...entryActivity, ...loginActivity]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, RECENT_ACTIVITY_LIMIT)
+}
+
+async function getDatabaseSize(): Promise<number | null> {
+  const file = getSqliteFilePath(process.env.DATABASE_URL)
+  if (!file) return null
+  try {
+    return (await stat(file)).size
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Analytics of the time range ending now
+ */
+export async function getAnalytics(
+  prisma: PrismaClient,
+  options: { range: AnalyticsRange; now?: Date }
+): Promise<AnalyticsData> {
+  const now = options.now ?? new Date()
+  const since = getRangeStart(options.range, now)
+
+  const countEntries = (where: Record<string, unknown> = {}): Promise<number> =>
+    prisma.contentEntry.count({ where })
+
+  const [
+    totalContentTypes,
+    totalEntries,
+    recentEntries,
+    publishedEntries,
+    draftEntries,
+    scheduledEntries,
+    archivedEntries,
+  ] = await Promise.all([
+    prisma.contentType.count(),
+    countEntries(),
+    countEntries({ createdAt: { gte: since } }),
+    countEntries({ status: 'PUBLISHED' }),
+    countEntries({ status: 'DRAFT' }),
+    countEntries({ status: 'SCHEDULED' }),
+    countEntries({ status: 'ARCHIVED' }),
+  ])
+
+  const [totalUsers, activeSessions, recentLogins] = await Promise.all([
+    prisma.user.count(),
+    prisma.session.count({ where: { expiresAt: { gt: now } } }),
+    prisma.auditLog.count({ where: { event: 'LOGIN_SUCCESS', createdAt: { gte: since } } }),
+  ])
+  const sessionsInRange: { userId: string }[] = await prisma.session.findMany({
+    where: { createdAt: { gte: since } },
+    select: { userId: true },
+  })
+
+  const apiRequests = getApiRequestSummary()
+
+  return {
+    range: options.range,
+    since: since.toISOString(),
+    generatedAt: now.toISOString(),
+    contentStats: {
+      totalContentTypes,
+      totalEntries,
+      recentEntries,
+      publishedEntries,
+      draftEntries,
+      scheduledEntries,
+      archivedEntries,
+    },
+    entriesPerDay: await getEntriesPerDay(prisma, since, ANALYTICS_RANGES[options.range].days),
+    userActivity: {
+      totalUsers,
+      activeUsers: new Set(sessionsInRange.map(session => session.userId)).size,
+      activeSessions,
+      recentLogins,
+    },
+    systemMetrics: {
+      dbSize: await getDatabaseSize(),
+      apiCalls: apiRequests.count,
+      avgResponseTime: Math.round(apiRequests.averageMs * 10) / 10,
+      uptime: Math.floor(process.uptime()),
+    },
+    topContentTypes: await getTopContentTypes(prisma, totalEntries),
+    recentActivity: await getRecentActivity(prisma, since),
+  }
+}
+
+/**
+ * Analytics as CSV with one `section,metric,value` row per figure
+ */
+export function toAnalyticsCsv(data: AnalyticsData): string {
+  const rows: unknown[][] = [
+    ['section', 'metric', 'value'],
+    ['range', 'since', data.since],
+    ['range', 'generatedAt', data.generatedAt],
+    ...Object.entries(data.contentStats).map(([metric, value]) => ['content', metric, value]),
+    ...Object.entries(data.userActivity).map(([metric, value]) => ['users', metric, value]),
+    ...Object.entries(data.systemMetrics).map(([metric, value]) => ['system', metric, value]),
+    ...data.entriesPerDay.map(day => ['entriesPerDay', day.date, day.count]),
+    ...data.topContentTypes.map(contentType => [
+      'contentTypes',
+      contentType.name,
+      contentType.count,
+    ]),
+  ]
+  return toCsv(rows)
+}
+
+/**
+ * Analytics of the time range as a downloadable CSV or JSON file
+ */
+export async function exportAnalytics(
+  prisma: PrismaClient,
+  options: { range: AnalyticsRange; format: AnalyticsExportFormat; now?: Date }
+): Promise<AnalyticsExport> {
+  const data = await getAnalytics(prisma, options)
+  const filename = `analytics-${options.range}-${data.generatedAt.slice(0, 10)}.${options.format}`
+
+  if (options.format === 'csv') {
+    return { filename, mimeType: 'text/csv', content: toAnalyticsCsv(data) }
+  }
+  return { filename, mimeType: 'application/json', content: JSON.stringify(data, null, 2) }
+}
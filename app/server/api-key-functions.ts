@@ -0,0 +1,62 @@
+/**
+ * TanStack Start server functions for managing API keys in the admin API Manager
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requirePermission } from './auth-middleware'
+import { createApiKey, listApiKeys, revokeApiKey, rotateApiKey } from './api-keys'
+import { securityAudit } from './security-auth'
+import type { ApiKeyInfo, ApiKeyInput, CreatedApiKey } from '../lib/api-keys'
+
+async function requireApiManager() {
+  const result = await requirePermission(getWebRequest(), 'api.manage')
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
+  return result.user
+}
+
+export const fetchApiKeys = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<ApiKeyInfo[]> => {
+    await requireApiManager()
+    return listApiKeys(prisma)
+  }
+)
+
+export const createApiKeyFn = createServerFn({ method: 'POST' })
+  .validator((input: ApiKeyInput) => input)
+  .handler(async ({ data }): Promise<CreatedApiKey> => {
+    const user = await requireApiManager()
+    const created = await createApiKey(prisma, data, user.id)
+    await securityAudit.log('API_KEY_CREATED', getWebRequest(), user.id, true, {
+      apiKeyId: created.apiKey.id,
+      name: created.apiKey.name,
+    })
+    return created
+  })
+
+export const rotateApiKeyFn = createServerFn({ method: 'POST' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }): Promise<CreatedApiKey> => {
+    const user = await requireApiManager()
+    const rotated = await rotateApiKey(prisma, id)
+    await securityAudit.log('API_KEY_ROTATED', getWebRequest(), user.id, true, {
+      apiKeyId: id,
+      name: rotated.apiKey.name,
+    })
+    return rotated
+  })
+
+export const revokeApiKeyFn = createServerFn({ method: 'POST' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }): Promise<ApiKeyInfo> => {
+    const user = await requireApiManager()
+    const revoked = await revokeApiKey(prisma, id)
+    await securityAudit.log('API_KEY_REVOKED', getWebRequest(), user.id, true, {
+      apiKeyId: id,
+      name: revoked.name,
+    })
+    return revoked
+  })
@@ -0,0 +1,252 @@
+/**
+ * API key storage and verification
+ *
+ * Keys look like `tcms_1a2b3c4d_<secret>`. Only the SHA-256 hash of the key is stored; the
+ * `tcms_1a2b3c4d` prefix identifies the key in the admin and is used to look it up.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { PrismaClient } from '@prisma/client'
+import {
+  getApiKeyStatus,
+  isApiKeyScope,
+  type ApiKeyInfo,
+  type ApiKeyInput,
+  type ApiKeyScope,
+  type CreatedApiKey,
+} from '../lib/api-keys'
+import type { AuthUser } from './auth'
+import { requireAuth } from './auth-middleware'
+
+export const API_KEY_PREFIX = 'tcms_'
+
+export const API_KEY_HEADER = 'X-API-Key'
+
+const API_KEY_PATTERN = /^(tcms_[0-9a-f]{8})_[\w-]+$/
+
+/** lastUsedAt is only written when it is older than this, not on every request */
+const LAST_USED_RESOLUTION_MS = 60_000
+
+const MAX_NAME_LENGTH = 100
+
+type ApiKeyRow = {
+  id: string
+  name: string
+  prefix: string
+  keyHash: string
+  scopes: string
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export type ApiKeyVerification =
+  | { apiKey: ApiKeyInfo }
+  | { error: 'invalid' | 'expired' | 'revoked' }
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString('hex')}`
+  const key = `${prefix}_${randomBytes(24).toString('base64url')}`
+  return { key, prefix, keyHash: hashApiKey(key) }
+}
+
+/**
+ * Replace the JSON scopes column with the parsed list
+ */
+export function toApiKeyInfo(row: ApiKeyRow): ApiKeyInfo {
+  let scopes: ApiKeyScope[] = []
+  try {
+    scopes = (JSON.parse(row.scopes) as string[]).filter(isApiKeyScope)
+  } catch {
+    scopes = []
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes,
+    expiresAt: row.expiresAt,
+    lastUsedAt: row.lastUsedAt,
+    revokedAt: row.revokedAt,
+    createdAt: row.createdAt,
+  }
+}
+
+function validateApiKeyInput(input: ApiKeyInput): {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresAt: Date | null
+} {
+  const name = input.name?.trim() ?? ''
+  if (!name) {
+    throw new Error('API key name is required')
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`API key name must be at most ${MAX_NAME_LENGTH} characters`)
+  }
+
+  const scopes = [...new Set(input.scopes ?? [])]
+  if (scopes.length === 0) {
+    throw new Error('API key needs at least one scope')
+  }
+  const invalid = scopes.filter(scope => !isApiKeyScope(scope))
+  if (invalid.length > 0) {
+    throw new Error(`Invalid API key scopes: ${invalid.join(', ')}`)
+  }
+
+  const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+    throw new Error('API key expiry must be a valid date')
+  }
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new Error('API key expiry must be in the future')
+  }
+
+  return { name, scopes, expiresAt }
+}
+
+/**
+ * Create a key; the returned plaintext key cannot be recovered later
+ */
+export async function createApiKey(
+  prisma: PrismaClient,
+  input: ApiKeyInput,
+  createdById?: string
+): Promise<CreatedApiKey> {
+  const { name, scopes, expiresAt } = validateApiKeyInput(input)
+  const { key, prefix, keyHash } = generateApiKey()
+
+  const row: ApiKeyRow = await prisma.apiKey.create({
+    data: {
+      name,
+      prefix,
+      keyHash,
+      scopes: JSON.stringify(scopes),
+      expiresAt,
+      createdById: createdById ?? null,
+    },
+  })
+
+  return { apiKey: toApiKeyInfo(row), key }
+}
+
+/**
+ * All keys, newest first
+ */
+export async function listApiKeys(prisma: PrismaClient): Promise<ApiKeyInfo[]> {
+  const rows: ApiKeyRow[] = await prisma.apiKey.findMany({ orderBy: { createdAt: 'desc' } })
+  return rows.map(toApiKeyInfo)
+}
+
+/**
+ * Replace the secret of a key, keeping its name, scopes and expiry; the old key stops working
+ * immediately
+ */
+export async function rotateApiKey(prisma: PrismaClient, id: string): Promise<CreatedApiKey> {
+  const existing: ApiKeyRow | null = await prisma.apiKey.findUnique({ where: { id } })
+  if (!existing) {
+    throw new Error('API key not found')
+  }
+  if (existing.revokedAt) {
+    throw new Error('Revoked API keys cannot be rotated')
+  }
+
+  const { key, prefix, keyHash } = generateApiKey()
+  const row: ApiKeyRow = await prisma.apiKey.update({
+    where: { id },
+    data: { prefix, keyHash, lastUsedAt: null },
+  })
+
+  return { apiKey: toApiKeyInfo(row), key }
+}
+
+/**
+ * Revoke a key; revoked keys stay listed so that their last use remains visible
+ */
+export async function revokeApiKey(prisma: PrismaClient, id: string): Promise<ApiKeyInfo> {
+  const existing: ApiKeyRow | null = await prisma.apiKey.findUnique({ where: { id } })
+  if (!existing) {
+    throw new Error('API key not found')
+  }
+  if (existing.revokedAt) {
+    return toApiKeyInfo(existing)
+  }
+
+  const row: ApiKeyRow = await prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  })
+  return toApiKeyInfo(row)
+}
+
+/**
+ * Look up a plaintext key and record its use
+ */
+export async function verifyApiKey(
+  prisma: PrismaClient,
+  key: string,
+  now = new Date()
+): Promise<ApiKeyVerification> {
+  const match = API_KEY_PATTERN.exec(key)
+  if (!match) {
+    return { error: 'invalid' }
+  }
+
+  const row: ApiKeyRow | null = await prisma.apiKey.findUnique({ where: { prefix: match[1] } })
+  const expected = Buffer.from(row?.keyHash ?? '', 'hex')
+  const actual = Buffer.from(hashApiKey(key), 'hex')
+  if (!row || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: 'invalid' }
+  }
+
+  const status = getApiKeyStatus(row, now)
+  if (status !== 'active') {
+    return { error: status }
+  }
+
+  if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: row.id }, data: { lastUsedAt: now } })
+    row.lastUsedAt = now
+  }
+
+  return { apiKey: toApiKeyInfo(row) }
+}
+
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const lowerName = name.toLowerCase()
+  return Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === lowerName)?.[1]
+}
+
+/**
+ * Read the key from the `X-API-Key` header or an `Authorization: Bearer tcms_...` header;
+ * other bearer tokens are session JWTs, not API keys
+ */
+export function getApiKeyFromHeaders(headers?: Record<string, string>): string | null {
+  const headerKey = getHeader(headers, API_KEY_HEADER)?.trim()
+  if (headerKey) {
+    return headerKey
+  }
+
+  const bearer = /^Bearer\s+(\S+)$/i.exec(getHeader(headers, 'Authorization')?.trim() ?? '')
+  return bearer && bearer[1].startsWith(API_KEY_PREFIX) ? bearer[1] : null
+}
+
+/**
+ * Signed-in user of a request without an API key, from a JWT bearer token or session cookie
+ */
+export async function getRequestUser(
+  headers?: Record<string, string>
+): Promise<AuthUser | undefined> {
+  if (!getHeader(headers, 'Authorization') && !getHeader(headers, 'Cookie')) {
+    return undefined
+  }
+
+  const result = await requireAuth(new Request('http://localhost/', { headers }))
+  return 'user' in result ? result.user : undefined
+}
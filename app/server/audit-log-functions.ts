@@ -0,0 +1,40 @@
+/**
+ * TanStack Start server functions for the admin Audit Log screen
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requirePermission } from './auth-middleware'
+import { exportAuditLogs, queryAuditLogs, validateAuditLogQuery } from './audit-log'
+import type { AuditLogExport, AuditLogPage, AuditLogQuery } from '../lib/audit-log'
+
+async function requireAuditViewer() {
+  const result = await requirePermission(getWebRequest(), 'audit.view')
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
+  return result.user
+}
+
+function validateQuery(query: AuditLogQuery): AuditLogQuery {
+  const errors = validateAuditLogQuery(query)
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '))
+  }
+  return query
+}
+
+export const fetchAuditLogs = createServerFn({ method: 'GET' })
+  .validator((query: AuditLogQuery) => validateQuery(query))
+  .handler(async ({ data }): Promise<AuditLogPage> => {
+    await requireAuditViewer()
+    return queryAuditLogs(prisma, data)
+  })
+
+export const exportAuditLogsFn = createServerFn({ method: 'POST' })
+  .validator((query: AuditLogQuery) => validateQuery(query))
+  .handler(async ({ data }): Promise<AuditLogExport> => {
+    await requireAuditViewer()
+    return exportAuditLogs(prisma, data)
+  })
@@ -0,0 +1,246 @@
+/**
+ * Persisted security audit log
+ *
+ * Entries are written through the security audit logger (`securityAudit` in security-auth.ts) for
+ * sign-ins and for changes to content, content types, media, users, roles and API keys. Entries
+ * older than AUDIT_LOG_RETENTION_DAYS (90 by default, 0 keeps them forever) are deleted at most
+ * once an hour while new entries are written.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { toCsv } from './csv'
+import {
+  AUDIT_LOG_MAX_PAGE_SIZE,
+  AUDIT_LOG_PAGE_SIZE,
+  type AuditLogDetails,
+  type AuditLogEntry,
+  type AuditLogExport,
+  type AuditLogPage,
+  type AuditLogQuery,
+} from '../lib/audit-log'
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90
+
+/** Largest number of entries in one export */
+export const AUDIT_LOG_EXPORT_LIMIT = 10_000
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+let lastPrunedAt = 0
+
+export type AuditRecord = {
+  event: string
+  userId?: string | null
+  /** Looked up from userId when missing */
+  userEmail?: string | null
+  ip: string
+  userAgent: string
+  success: boolean
+  details?: Record<string, unknown>
+  createdAt?: Date
+}
+
+type AuditLogRow = {
+  id: string
+  createdAt: Date
+  event: string
+  userId: string | null
+  userEmail: string | null
+  ip: string
+  userAgent: string
+  success: boolean
+  details: string | null
+}
+
+export function getAuditRetentionDays(
+  value: string | undefined = process.env.AUDIT_LOG_RETENTION_DAYS
+): number {
+  const days = Number(value)
+  return value && Number.isFinite(days) && days >= 0 ? days : DEFAULT_AUDIT_RETENTION_DAYS
+}
+
+/**
+ * Delete entries older than the retention period; returns the number of deleted entries
+ */
+export async function pruneAuditLogs(
+  prisma: PrismaClient,
+  options: { retentionDays?: number; now?: Date } = {}
+): Promise<number> {
+  const retentionDays = options.retentionDays ?? getAuditRetentionDays()
+  if (retentionDays === 0) return 0
+
+  const cutoff = new Date((options.now ?? new Date()).getTime() - retentionDays * DAY_MS)
+  const result: { count: number } = await prisma.auditLog.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  })
+  return result.count
+}
+
+/**
+ * Write an audit log entry; failures are logged and never break the audited operation
+ */
+export async function saveAuditEntry(prisma: PrismaClient, record: AuditRecord): Promise<void> {
+  try {
+    let userEmail = record.userEmail ?? null
+    if (!userEmail && record.userId) {
+      const user: { email: string } | null = await prisma.user.findUnique({
+        where: { id: record.userId },
+        select: { email: true },
+      })
+      userEmail = user?.email ?? null
+    }
+    if (!userEmail && typeof record.details?.email === 'string') {
+      userEmail = record.details.email
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        event: record.event,
+        userId: record.userId ?? null,
+        userEmail,
+        ip: record.ip,
+        userAgent: record.userAgent,
+        success: record.success,
+        details: record.details ? JSON.stringify(record.details) : null,
+        ...(record.createdAt && { createdAt: record.createdAt }),
+      },
+    })
+
+    if (Date.now() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+      lastPrunedAt = Date.now()
+      await pruneAuditLogs(prisma)
+    }
+  } catch (error) {
+    console.error('Failed to write audit log entry:', error)
+  }
+}
+
+function parseDetails(details: string | null): AuditLogDetails | null {
+  if (!details) return null
+  try {
+    return JSON.parse(details)
+  } catch {
+    return { raw: details }
+  }
+}
+
+function toAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    createdAt: new Date(row.createdAt).toISOString(),
+    event: row.event,
+    userId: row.userId,
+    userEmail: row.userEmail,
+    ip: row.ip,
+    userAgent: row.userAgent,
+    success: row.success,
+    details: parseDetails(row.details),
+  }
+}
+
+function parseDate(value: string, endOfDay: boolean): Date {
+  const date = new Date(value)
+  return endOfDay && DATE_ONLY.test(value) ? new Date(date.getTime() + DAY_MS) : date
+}
+
+/**
+ * Problems with the filters of a query, e.g. dates that cannot be parsed
+ */
+export function validateAuditLogQuery(query: AuditLogQuery): string[] {
+  const errors: string[] = []
+  for (const key of ['from', 'to'] as const) {
+    if (query[key] && Number.isNaN(new Date(query[key]!).getTime())) {
+      errors.push(`${key} must be an ISO date or date-time`)
+    }
+  }
+  for (const key of ['page', 'pageSize'] as const) {
+    const value = query[key]
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      errors.push(`${key} must be a positive integer`)
+    }
+  }
+  return errors
+}
+
+function toWhere(query: AuditLogQuery): Record<string, unknown> {
+  const where: Record<string, unknown> = {}
+  if (query.user) {
+    where.OR = [{ userId: query.user }, { userEmail: { contains: query.user } }]
+  }
+  if (query.event) where.event = query.event
+  if (query.ip) where.ip = { startsWith: query.ip }
+  if (query.from || query.to) {
+    where.createdAt = {
+      ...(query.from && { gte: parseDate(query.from, false) }),
+      ...(query.to && { lt: parseDate(query.to, true) }),
+    }
+  }
+  return where
+}
+
+/**
+ * Page of audit log entries matching the filters, newest first
+ */
+export async function queryAuditLogs(
+  prisma: PrismaClient,
+  query: AuditLogQuery = {}
+): Promise<AuditLogPage> {
+  const page = query.page ?? 1
+  const pageSize = Math.min(query.pageSize ?? AUDIT_LOG_PAGE_SIZE, AUDIT_LOG_MAX_PAGE_SIZE)
+  const where = toWhere(query)
+
+  const [rows, total]: [AuditLogRow[], number] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.auditLog.count({ where }),
+  ])
+
+  return { entries: rows.map(toAuditLogEntry), total, page, pageSize }
+}
+
+/**
+ * Audit log entries as CSV, one row per entry with its details as JSON
+ */
+export function toAuditLogCsv(entries: AuditLogEntry[]): string {
+  return toCsv([
+    ['createdAt', 'event', 'userId', 'userEmail', 'ip', 'userAgent', 'success', 'details'],
+    ...entries.map(entry => [
+      entry.createdAt,
+      entry.event,
+      entry.userId,
+      entry.userEmail,
+      entry.ip,
+      entry.userAgent,
+      entry.success,
+      entry.details ? JSON.stringify(entry.details) : '',
+    ]),
+  ])
+}
+
+/**
+ * Entries matching the filters as a CSV file, newest first and at most AUDIT_LOG_EXPORT_LIMIT
+ */
+export async function exportAuditLogs(
+  prisma: PrismaClient,
+  query: AuditLogQuery = {}
+): Promise<AuditLogExport> {
+  const rows: AuditLogRow[] = await prisma.auditLog.findMany({
+    where: toWhere(query),
+    orderBy: { createdAt: 'desc' },
+    take: AUDIT_LOG_EXPORT_LIMIT,
+  })
+
+  return {
+    filename: `audit-log-${new Date().toISOString().slice(0, 10)}.csv`,
+    mimeType: 'text/csv',
+    content: toAuditLogCsv(rows.map(toAuditLogEntry)),
+  }
+}
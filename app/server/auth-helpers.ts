@@ -1,5 +1,6 @@
-import { requireAuth, requireRole } from './auth-middleware'
+import { requireAuth, requirePermission, requireRole } from './auth-middleware'
 import type { AuthUser } from './auth'
+import type { PermissionAction } from '../lib/permissions'
 
 /**
  * Higher-order function to add authentication to API route handlers
@@ -52,6 +53,32 @@ export function withRole<T extends Record<string, unknown>>(
   }
 }
 
+/**
+ * Higher-order function to add permission checks to API route handlers
+ */
+export function withPermission<T extends Record<string, unknown>>(
+  action: PermissionAction,
+  handler: (params: T & { user: AuthUser }) => Promise<Response>
+) {
+  return async (params: T & { request: Request }): Promise<Response> => {
+    const authResult = await requirePermission(params.request, action)
+
+    if ('error' in authResult) {
+      return new Response(
+        JSON.stringify({
+          error: authResult.error,
+        }),
+        {
+          status: authResult.status,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    return handler({ ...params, user: authResult.user })
+  }
+}
+
 /**
  * Utility function to create authenticated API responses with user context
  */
@@ -81,4 +108,4 @@ export function createAuthenticatedResponse(
       },
     }
   )
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
 import { getSessionUser, getUserById } from './auth'
 import { verifyToken, extractTokenFromHeader } from './jwt-auth'
+import { userCan } from './permissions'
 import type { AuthUser } from './auth'
+import { PERMISSION_LABELS, type PermissionAction, type PermissionTarget } from '../lib/permissions'
 
 /**
  * Middleware to check if user is authenticated via session or JWT
@@ -110,6 +112,30 @@ export async function requireRole(
   return authResult
 }
 
+/**
+ * Middleware to check if user has a permission of the role permission matrix
+ */
+export async function requirePermission(
+  request: Request,
+  action: PermissionAction,
+  target: PermissionTarget = {}
+): Promise<{ user: AuthUser } | { error: string; status: number }> {
+  const authResult = await requireAuth(request)
+
+  if ('error' in authResult) {
+    return authResult
+  }
+
+  if (!userCan(authResult.user, action, target)) {
+    return {
+      error: `Insufficient permissions. Required: ${PERMISSION_LABELS[action]}, Current: ${authResult.user.role}`,
+      status: 403,
+    }
+  }
+
+  return authResult
+}
+
 /**
  * Helper to extract session ID from request headers
  */
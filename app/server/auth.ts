@@ -1,5 +1,7 @@
 import bcrypt from 'bcryptjs'
 import { prisma } from './db'
+import { assignBaseRole, resolveUserAccess } from './roles'
+import type { RolePermissions } from '../lib/permissions'
 
 export type Role = 'ADMIN' | 'EDITOR' | 'AUTHOR' | 'VIEWER'
 
@@ -7,7 +9,12 @@ export interface AuthUser {
   id: string
   email: string
   name: string | null
+  /** Built-in role, used by role-restricted endpoints and withRole */
   role: Role
+  /** Names of the user's custom roles */
+  roles: string[]
+  /** Combined permissions of the user's custom roles */
+  permissions: RolePermissions
 }
 
 export interface SessionData {
@@ -16,6 +23,21 @@ export interface SessionData {
   role: Role
 }
 
+async function toAuthUser(user: {
+  id: string
+  email: string
+  name: string | null
+  role: Role
+}): Promise<AuthUser> {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    ...(await resolveUserAccess(prisma, user)),
+  }
+}
+
 // Password utilities
 export async function hashPassword(password: string): Promise<string> {
   const saltRounds = 12
@@ -42,12 +64,7 @@ export async function authenticateUser(email: string, password: string): Promise
       return null
     }
 
-    return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-    }
+    return await toAuthUser(user)
   } catch (error) {
     console.error('Authentication error:', error)
     return null
@@ -87,12 +104,7 @@ export async function getSessionUser(sessionId: string): Promise<AuthUser | null
       return null
     }
 
-    return {
-      id: session.user.id,
-      email: session.user.email,
-      name: session.user.name,
-      role: session.user.role,
-    }
+    return await toAuthUser(session.user)
   } catch (error) {
     console.error('Session validation error:', error)
     return null
@@ -140,13 +152,9 @@ export async function createUser(
       role,
     },
   })
+  await assignBaseRole(prisma, user.id, user.role)
 
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-    role: user.role,
-  }
+  return toAuthUser(user)
 }
 
 export async function getUserById(userId: string): Promise<AuthUser | null> {
@@ -159,12 +167,7 @@ export async function getUserById(userId: string): Promise<AuthUser | null> {
       return null
     }
 
-    return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-    }
+    return await toAuthUser(user)
   } catch (error) {
     console.error('Get user error:', error)
     return null
@@ -0,0 +1,728 @@
+/**
+ * Dynamic REST router for content types
+ * Serves /api/:contentTypeSlug[/:id], /api/:contentTypeSlug/search and the global /api/search
+ * from the Prisma content models
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { ApiResponseBuilder } from '../lib/api-response'
+import type { ApiRequest, ApiResponse } from '../lib/api-manager'
+import {
+  getContentTypeBySlug,
+  getContentEntries,
+  getContentEntriesByCursor,
+  getContentEntryById,
+  createContentEntry,
+  updateContentEntry,
+  deleteContentEntry,
+} from './content-type-utils'
+import { FieldValidationError } from './field-validation'
+import { getEntryRevisions, getEntryRevision, restoreEntryRevision } from './revision-utils'
+import {
+  parsePopulate,
+  populateEntries,
+  RelationConstraintError,
+  RelationPermissionError,
+} from './relation-utils'
+import { expandMediaReferences, type ExpandableEntry } from './media-utils'
+import { parseEntryListQuery, withPublishedOnly, type EntryListQuery } from './content-query'
+import { searchContent } from './search-index'
+import {
+  AUTHENTICATION_REQUIRED_MESSAGE,
+  canReadUnpublished,
+  checkEndpointAccess,
+  type RequestAuth,
+} from './endpoint-access'
+import { getRequestActor } from './activity'
+import type { EndpointOperation } from '../lib/endpoint-settings'
+import type { RevisionFieldValue } from '../lib/content-types'
+
+type ContentTypeWithFields = NonNullable<Awaited<ReturnType<typeof getContentTypeBySlug>>>
+
+type ContentApiPath = {
+  contentTypeSlug: string
+  entryId?: string
+  revisions?: { revisionId?: string; restore: boolean }
+}
+
+type ResponseRevision = {
+  fieldValues: RevisionFieldValue[]
+  author?: { id: string; name: string | null } | null
+}
+
+type EntryPayload = {
+  slug?: string
+  fieldValues?: { fieldId: string; value: unknown }[]
+}
+
+export const DEFAULT_PAGE_SIZE = 10
+export const MAX_PAGE_SIZE = 100
+const DEFAULT_SEARCH_LIMIT = 20
+
+/**
+ * Split an API path into its content type slug, optional entry ID and revision sub-path
+ *
+ * Supported shapes: /api/:type, /api/:type/:id, /api/:type/:id/revisions,
+ * /api/:type/:id/revisions/:revisionId and /api/:type/:id/revisions/:revisionId/restore
+ */
+export function parseContentApiPath(path: string): ContentApiPath | null {
+  let segments: string[]
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    // Malformed percent-encoding, e.g. /api/posts/%E0
+    return null
+  }
+  const [prefix, contentTypeSlug, entryId, sub, revisionId, action] = segments
+
+  if (prefix !== 'api' || segments.length < 2 || segments.length > 6) {
+    return null
+  }
+
+  if (segments.length === 2 || segments.length === 3) {
+    return { contentTypeSlug, entryId }
+  }
+
+  if (sub !== 'revisions' || (action !== undefined && action !== 'restore')) {
+    return null
+  }
+
+  return { contentTypeSlug, entryId, revisions: { revisionId, restore: action === 'restore' } }
+}
+
+/**
+ * Endpoint operation of a request, used to check its endpoint settings; unsupported methods have
+ * none and are rejected by the router
+ *
+ * Revisions count as reading the entry, restoring one as updating it, and searching a content
+ * type as listing it.
+ */
+export function getEndpointOperation(
+  method: ApiRequest['method'],
+  parsed: ContentApiPath
+): EndpointOperation | null {
+  if (parsed.revisions) {
+    return parsed.revisions.restore ? 'update' : 'get'
+  }
+  if (!parsed.entryId) {
+    return method === 'GET' ? 'list' : method === 'POST' ? 'create' : null
+  }
+  if (parsed.entryId === 'search' && method === 'GET') {
+    return 'list'
+  }
+  const operations: Partial<Record<ApiRequest['method'], EndpointOperation>> = {
+    GET: 'get',
+    PUT: 'update',
+    DELETE: 'delete',
+  }
+  return operations[method] ?? null
+}
+
+/**
+ * Route a request to the list/get/create/update/delete handlers of a content type
+ */
+export async function routeContentRequest(
+  prisma: PrismaClient,
+  request: ApiRequest
+): Promise<ApiResponse> {
+  const parsed = parseContentApiPath(request.path)
+
+  if (!parsed) {
+    return ApiResponseBuilder.error({
+      code: 'BAD_REQUEST',
+      message: 'Invalid API path',
+      details: [`Expected /api/:contentType or /api/:contentType/:id, got ${request.path}`],
+    })
+  }
+
+  const contentType = await getContentTypeBySlug(prisma, parsed.contentTypeSlug)
+  if (!contentType) {
+    return ApiResponseBuilder.notFound('Content type', parsed.contentTypeSlug)
+  }
+
+  const operation = getEndpointOperation(request.method, parsed)
+  const denied = operation && checkEndpointAccess(request.auth, contentType, operation)
+  if (denied) {
+    return denied
+  }
+
+  // Permissions limited to own entries need the author of the entry
+  if (request.auth?.user && parsed.entryId && (operation === 'update' || operation === 'delete')) {
+    const entry = await findEntry(prisma, contentType, parsed.entryId)
+    const notOwned = entry && checkEndpointAccess(request.auth, contentType, operation, entry)
+    if (notOwned) {
+      return notOwned
+    }
+  }
+
+  if (parsed.revisions) {
+    return routeRevisionRequest(prisma, contentType, parsed.entryId!, parsed.revisions, request)
+  }
+
+  if (!parsed.entryId) {
+    switch (request.method) {
+      case 'GET':
+        return listEntries(prisma, contentType, request.query, request.auth)
+      case 'POST':
+        return createEntry(prisma, contentType, request.body, request.auth)
+      default:
+        return ApiResponseBuilder.methodNotAllowed(request.method, request.path)
+    }
+  }
+
+  if (parsed.entryId === 'search' && request.method === 'GET') {
+    const unpublishedTypeIds = canReadUnpublished(request.auth, contentType) ? [contentType.id] : []
+    return searchEntries(prisma, request.query, [contentType.id], unpublishedTypeIds)
+  }
+
+  switch (request.method) {
+    case 'GET':
+      return getEntry(prisma, contentType, parsed.entryId, request.query, request.auth)
+    case 'PUT':
+      return updateEntry(prisma, contentType, parsed.entryId, request.body, request.auth)
+    case 'DELETE':
+      return deleteEntry(prisma, contentType, parsed.entryId, request.auth)
+    default:
+      return ApiResponseBuilder.methodNotAllowed(request.method, request.path)
+  }
+}
+
+async function listEntries(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  query: Record<string, string> = {},
+  auth?: RequestAuth
+): Promise<ApiResponse> {
+  const page = Math.max(1, parseInt(query.page, 10) || 1)
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE))
+
+  const listQuery = parseEntryListQuery(contentType.fields, query)
+  if ('errors' in listQuery) {
+    return ApiResponseBuilder.fieldValidationError(listQuery.errors, 'Invalid list query')
+  }
+
+  const readQuery = canReadUnpublished(auth, contentType)
+    ? listQuery.query
+    : withPublishedOnly(listQuery.query)
+
+  if (readQuery.cursor) {
+    return listEntriesByCursor(prisma, contentType, limit, readQuery, query.populate, auth)
+  }
+
+  const result = await getContentEntries(prisma, contentType.id, page, limit, readQuery)
+  const entries = await withPopulate(prisma, contentType, result.entries, query.populate, auth)
+  if ('error' in entries) {
+    return entries.error
+  }
+
+  return ApiResponseBuilder.success({
+    message: `Retrieved ${result.entries.length} ${contentType.displayName} entries`,
+    data: {
+      contentType,
+      entries: await toResponseEntries(prisma, entries),
+      pagination: {
+        page,
+        limit,
+        total: result.total,
+        totalPages: result.pages,
+        hasNext: page < result.pages,
+        hasPrev: page > 1,
+      },
+    },
+  })
+}
+
+/**
+ * Cursor mode of the list endpoint: no page numbers or totals, the cursors of the first and
+ * last entry are returned in `meta.pageInfo`
+ */
+async function listEntriesByCursor(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  limit: number,
+  listQuery: EntryListQuery,
+  populate?: string,
+  auth?: RequestAuth
+): Promise<ApiResponse> {
+  const result = await getContentEntriesByCursor(prisma, contentType.id, limit, listQuery)
+  const entries = await withPopulate(prisma, contentType, result.entries, populate, auth)
+  if ('error' in entries) {
+    return entries.error
+  }
+
+  return ApiResponseBuilder.success({
+    message: `Retrieved ${result.entries.length} ${contentType.displayName} entries`,
+    data: {
+      contentType,
+      entries: await toResponseEntries(prisma, entries),
+      pagination: {
+        limit,
+        hasNext: result.pageInfo.hasNextPage,
+        hasPrev: result.pageInfo.hasPreviousPage,
+      },
+    },
+    meta: { pageInfo: result.pageInfo },
+  })
+}
+
+/**
+ * Serve GET /api/search: ranked full-text search across content types
+ *
+ * `types` limits the search to a comma-separated list of content type slugs. Every listed type
+ * needs its list operation to be accessible; without `types` only the accessible types are
+ * searched. Unpublished entries are only found in the types the caller may read them of.
+ */
+export async function routeSearchRequest(
+  prisma: PrismaClient,
+  request: ApiRequest
+): Promise<ApiResponse> {
+  if (request.method !== 'GET') {
+    return ApiResponseBuilder.methodNotAllowed(request.method, request.path)
+  }
+
+  const query = request.query ?? {}
+  let contentTypeIds: string[] | undefined
+  const unpublishedTypeIds: string[] = []
+  if (query.types) {
+    contentTypeIds = []
+    for (const slug of query.types.split(',').map(segment => segment.trim())) {
+      if (!slug) continue
+      const contentType = await getContentTypeBySlug(prisma, slug)
+      if (!contentType) {
+        return ApiResponseBuilder.notFound('Content type', slug)
+      }
+      const denied = checkEndpointAccess(request.auth, contentType, 'list')
+      if (denied) {
+        return denied
+      }
+      contentTypeIds.push(contentType.id)
+      if (canReadUnpublished(request.auth, contentType)) {
+        unpublishedTypeIds.push(contentType.id)
+      }
+    }
+  } else {
+    const contentTypes: { id: string; slug: string; apiSettings: string | null }[] =
+      await prisma.contentType.findMany({ select: { id: true, slug: true, apiSettings: true } })
+    const accessible = contentTypes.filter(
+      contentType => !checkEndpointAccess(request.auth, contentType, 'list')
+    )
+    if (accessible.length < contentTypes.length) {
+      contentTypeIds = accessible.map(contentType => contentType.id)
+    }
+    unpublishedTypeIds.push(
+      ...accessible
+        .filter(contentType => canReadUnpublished(request.auth, contentType))
+        .map(contentType => contentType.id)
+    )
+  }
+
+  return searchEntries(prisma, query, contentTypeIds, unpublishedTypeIds)
+}
+
+/**
+ * Search entries of the content types, or of all types without `contentTypeIds`; entries of the
+ * types outside `unpublishedTypeIds` are only found once published
+ */
+async function searchEntries(
+  prisma: PrismaClient,
+  query: Record<string, string> = {},
+  contentTypeIds: string[] | undefined,
+  unpublishedTypeIds: string[]
+): Promise<ApiResponse> {
+  const search = query.q?.trim()
+  if (!search) {
+    return ApiResponseBuilder.fieldValidationError(
+      [{ path: 'q', message: 'Search query is required' }],
+      'Invalid search query'
+    )
+  }
+
+  const page = Math.max(1, parseInt(query.page, 10) || 1)
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(query.limit, 10) || DEFAULT_SEARCH_LIMIT)
+  )
+  const { results, total } = await searchContent(prisma, search, {
+    contentTypeIds,
+    unpublishedTypeIds,
+    page,
+    limit,
+  })
+  const totalPages = Math.ceil(total / limit)
+
+  return ApiResponseBuilder.success({
+    message: `Found ${total} matching entries`,
+    data: {
+      query: search,
+      results,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    },
+  })
+}
+
+async function getEntry(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  entryId: string,
+  query: Record<string, string> = {},
+  auth?: RequestAuth
+): Promise<ApiResponse> {
+  const found = await findEntry(prisma, contentType, entryId)
+  if (!found || (found.status !== 'PUBLISHED' && !canReadUnpublished(auth, contentType))) {
+    return ApiResponseBuilder.notFound('Entry', entryId)
+  }
+
+  const populated = await withPopulate(prisma, contentType, [found], query.populate, auth)
+  if ('error' in populated) {
+    return populated.error
+  }
+
+  return ApiResponseBuilder.success({
+    message: 'Entry retrieved successfully',
+    data: { entry: (await toResponseEntries(prisma, populated))[0], contentType },
+  })
+}
+
+async function createEntry(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  body: unknown,
+  auth?: RequestAuth
+): Promise<ApiResponse> {
+  const payload = parseEntryPayload(body)
+  if ('errors' in payload) {
+    return ApiResponseBuilder.validationError(payload.errors)
+  }
+
+  const entry = await withFieldValidation(() =>
+    createContentEntry(
+      prisma,
+      {
+        contentTypeId: contentType.id,
+        slug: payload.slug,
+        fieldValues: payload.fieldValues ?? [],
+        authorId: auth?.user?.id,
+      },
+      { actor: getRequestActor(auth) }
+    )
+  )
+  if ('error' in entry) {
+    return entry.error
+  }
+
+  return ApiResponseBuilder.success({
+    message: 'Entry created successfully',
+    data: { entry: (await toResponseEntries(prisma, [entry]))[0], contentType },
+  })
+}
+
+async function updateEntry(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  entryId: string,
+  body: unknown,
+  auth?: RequestAuth
+): Promise<ApiResponse> {
+  const existing = await findEntry(prisma, contentType, entryId)
+  if (!existing) {
+    return ApiResponseBuilder.notFound('Entry', entryId)
+  }
+
+  const payload = parseEntryPayload(body)
+  if ('errors' in payload) {
+    return ApiResponseBuilder.validationError(payload.errors)
+  }
+
+  const entry = await withFieldValidation(() =>
+    updateContentEntry(
+      prisma,
+      entryId,
+      { slug: payload.slug, fieldValues: payload.fieldValues },
+      { actor: getRequestActor(auth) }
+    )
+  )
+  if ('error' in entry) {
+    return entry.error
+  }
+
+  return ApiResponseBuilder.success({
+    message: 'Entry updated successfully',
+    data: { entry: (await toResponseEntries(prisma, [entry]))[0], contentType },
+  })
+}
+
+async function deleteEntry(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  entryId: string,
+  auth?: RequestAuth
+): Promise<ApiResponse> {
+  const existing = await findEntry(prisma, contentType, entryId)
+  if (!existing) {
+    return ApiResponseBuilder.notFound('Entry', entryId)
+  }
+
+  try {
+    await deleteContentEntry(prisma, entryId, {
+      actor: getRequestActor(auth),
+      canDelete: (related, entry) => !checkEndpointAccess(auth, related, 'delete', entry),
+    })
+  } catch (error) {
+    if (error instanceof RelationConstraintError) {
+      return ApiResponseBuilder.error({
+        code: 'CONFLICT',
+        message: error.message,
+        details: error.referencingEntryIds.map(id => `Linked from entry ${id}`),
+      })
+    }
+    if (error instanceof RelationPermissionError) {
+      return ApiResponseBuilder.error({
+        code: 'AUTHORIZATION_FAILED',
+        message: error.message,
+        details: error.entryIds.map(id => `Cascades to entry ${id}`),
+      })
+    }
+    throw error
+  }
+
+  return ApiResponseBuilder.success({
+    message: 'Entry deleted successfully',
+    data: {
+      message: 'Entry deleted successfully',
+      deletedEntryId: entryId,
+    },
+  })
+}
+
+/**
+ * Serve the revision history of an entry: list, get and restore
+ *
+ * Revisions hold unpublished content, so reading them needs the credentials that
+ * `canReadUnpublished` accepts even where the get operation is public.
+ */
+async function routeRevisionRequest(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  entryId: string,
+  target: NonNullable<ContentApiPath['revisions']>,
+  request: ApiRequest
+): Promise<ApiResponse> {
+  const allowedMethod = target.restore ? 'POST' : 'GET'
+  if (request.method !== allowedMethod) {
+    return ApiResponseBuilder.methodNotAllowed(request.method, request.path)
+  }
+
+  if (!target.restore && !canReadUnpublished(request.auth, contentType)) {
+    return request.auth?.user || request.auth?.apiKey
+      ? ApiResponseBuilder.error({
+          code: 'AUTHORIZATION_FAILED',
+          message: `Reading the revisions of "${contentType.slug}" entries is not allowed`,
+        })
+      : ApiResponseBuilder.authRequired(AUTHENTICATION_REQUIRED_MESSAGE)
+  }
+
+  const entry = await findEntry(prisma, contentType, entryId)
+  if (!entry) {
+    return ApiResponseBuilder.notFound('Entry', entryId)
+  }
+
+  if (!target.revisionId) {
+    const revisions = await getEntryRevisions(prisma, entryId)
+    return ApiResponseBuilder.success({
+      message: `Retrieved ${revisions.length} revisions`,
+      data: {
+        entryId,
+        revisions: revisions.map((revision: ResponseRevision) =>
+          toResponseRevision(contentType, revision)
+        ),
+      },
+    })
+  }
+
+  const revision = await getEntryRevision(prisma, target.revisionId)
+  if (!revision || revision.entryId !== entryId) {
+    return ApiResponseBuilder.notFound('Revision', target.revisionId)
+  }
+
+  if (!target.restore) {
+    return ApiResponseBuilder.success({
+      message: 'Revision retrieved successfully',
+      data: { revision: toResponseRevision(contentType, revision) },
+    })
+  }
+
+  const restored = await withFieldValidation(() =>
+    restoreEntryRevision(prisma, revision.id, { actor: getRequestActor(request.auth) })
+  )
+  if (!restored) {
+    return ApiResponseBuilder.notFound('Entry', entryId)
+  }
+  if ('error' in restored) {
+    return restored.error
+  }
+
+  return ApiResponseBuilder.success({
+    message: `Entry restored from revision ${revision.version}`,
+    data: { entry: (await toResponseEntries(prisma, [restored]))[0], contentType },
+  })
+}
+
+/**
+ * Leave the write-only PASSWORD values out of an entry response, including embedded entries
+ */
+function omitPasswordValues<T extends ExpandableEntry>(entry: T): T {
+  return {
+    ...entry,
+    fieldValues: entry.fieldValues.filter(fv => fv.field?.fieldType !== 'PASSWORD'),
+    ...(entry.populated && {
+      populated: Object.fromEntries(
+        Object.entries(entry.populated).map(([name, value]) => [
+          name,
+          Array.isArray(value)
+            ? value.map(item => omitPasswordValues(item))
+            : value
+              ? omitPasswordValues(value as ExpandableEntry)
+              : value,
+        ])
+      ),
+    }),
+  }
+}
+
+/**
+ * Prepare entries for a response: PASSWORD values are left out and media references expanded
+ */
+async function toResponseEntries<T extends ExpandableEntry>(prisma: PrismaClient, entries: T[]) {
+  return expandMediaReferences(prisma, entries.map(omitPasswordValues))
+}
+
+/**
+ * Prepare a revision for a response: PASSWORD values are left out of its snapshot and its author
+ * is reduced to ID and name, so that readers of the revisions do not learn editors' emails
+ */
+function toResponseRevision<T extends ResponseRevision>(
+  contentType: ContentTypeWithFields,
+  revision: T
+): T {
+  const passwordFieldIds = contentType.fields
+    .filter((field: { fieldType: string }) => field.fieldType === 'PASSWORD')
+    .map((field: { id: string }) => field.id)
+  return {
+    ...revision,
+    fieldValues: revision.fieldValues.filter(fv => !passwordFieldIds.includes(fv.fieldId)),
+    author: revision.author && { id: revision.author.id, name: revision.author.name },
+  }
+}
+
+/**
+ * Load an entry, treating entries of another content type as missing
+ */
+async function findEntry(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  entryId: string
+) {
+  const entry = await getContentEntryById(prisma, entryId)
+  return entry && entry.contentTypeId === contentType.id ? entry : null
+}
+
+function parseEntryPayload(body: unknown): EntryPayload | { errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { errors: ['Request body must be a JSON object'] }
+  }
+
+  const { slug, fieldValues } = body as Record<string, unknown>
+  const errors: string[] = []
+
+  if (slug !== undefined && typeof slug !== 'string') {
+    errors.push('slug must be a string')
+  }
+
+  if (fieldValues !== undefined) {
+    const isValidList =
+      Array.isArray(fieldValues) &&
+      fieldValues.every(
+        fv =>
+          fv && typeof fv === 'object' && typeof (fv as { fieldId?: unknown }).fieldId === 'string'
+      )
+
+    if (!isValidList) {
+      errors.push('fieldValues must be an array of { fieldId, value } objects')
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  return {
+    slug: slug as string | undefined,
+    fieldValues: fieldValues as EntryPayload['fieldValues'],
+  }
+}
+
+/**
+ * Run an entry write, turning field validation failures into a VALIDATION_ERROR response
+ */
+async function withFieldValidation<T>(
+  write: () => Promise<T>
+): Promise<T | { error: ApiResponse }> {
+  try {
+    return await write()
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return { error: ApiResponseBuilder.fieldValidationError(error.fields) }
+    }
+    throw error
+  }
+}
+
+/**
+ * Embed related entries when the request has a `populate` query parameter; related entries are
+ * held to the `get` endpoint setting of their content type, and unpublished ones to
+ * `canReadUnpublished`
+ */
+async function withPopulate<
+  T extends { id: string; fieldValues: { fieldId: string; value: string | null }[] },
+>(
+  prisma: PrismaClient,
+  contentType: ContentTypeWithFields,
+  entries: T[],
+  populate: string | undefined,
+  auth: RequestAuth | undefined
+): Promise<T[] | { error: ApiResponse }> {
+  if (!populate) {
+    return entries
+  }
+
+  const parsed = parsePopulate(populate)
+  if ('errors' in parsed) {
+    return {
+      error: ApiResponseBuilder.validationError(parsed.errors, 'Invalid populate parameter'),
+    }
+  }
+
+  const errors: string[] = []
+  const populated = await populateEntries(
+    prisma,
+    contentType,
+    entries,
+    parsed.tree,
+    errors,
+    (related, entry) =>
+      !checkEndpointAccess(auth, related, 'get', entry) &&
+      (!entry || entry.status === 'PUBLISHED' || canReadUnpublished(auth, related))
+  )
+  if (errors.length > 0) {
+    return { error: ApiResponseBuilder.validationError(errors, 'Invalid populate parameter') }
+  }
+
+  return populated
+}
@@ -0,0 +1,642 @@
+/**
+ * TanStack Start server functions for content types and entries
+ * Persistent data layer behind the admin screens, backed by the Prisma content models
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requireAuth } from './auth-middleware'
+import { requirePermission, userCan } from './permissions'
+import type { AuthUser } from './auth'
+import {
+  createContentType,
+  updateContentType,
+  deleteContentType,
+  getContentTypes,
+  getContentTypeById,
+  createContentEntry,
+  updateContentEntry,
+  deleteContentEntry,
+  getContentEntryById,
+  getAllContentEntries,
+  publishContentEntry,
+  unpublishContentEntry,
+  scheduleContentEntry,
+  unscheduleContentEntry,
+  archiveContentEntry,
+  getScheduledEntriesToPublish,
+  type CreateContentFieldData,
+} from './content-type-utils'
+import { getEntryRevision, getEntryRevisions, restoreEntryRevision } from './revision-utils'
+import { getSchedulerStatus, runScheduledPublishingWithLock } from './scheduler'
+import { resolveRelatedContentType, searchRelationTargets } from './relation-utils'
+import { searchContent } from './search-index'
+import { updateEndpointSettings } from './endpoint-access'
+import { securityAudit } from './security-auth'
+import type {
+  ContentEntry,
+  ContentEntryInput,
+  ContentEntryRevision,
+  ContentEntryUpdate,
+  ContentField,
+  ContentFieldInput,
+  ContentFieldOptionValue,
+  ContentSearchResult,
+  ContentStatus,
+  ContentType,
+  ContentTypeInput,
+  RevisionFieldValue,
+  SchedulerRun,
+  SchedulerRunResult,
+  SchedulerStatus,
+} from '../lib/content-types'
+import { getEndpointSettings, type EndpointSettings } from '../lib/endpoint-settings'
+import type { PermissionAction, PermissionTarget } from '../lib/permissions'
+import type { AuditEvent } from '../lib/audit-log'
+
+export type ContentEntryStatusAction =
+  | 'publish'
+  | 'unpublish'
+  | 'schedule'
+  | 'unschedule'
+  | 'archive'
+
+type FieldRow = {
+  id: string
+  name: string
+  displayName: string
+  fieldType: string
+  required: boolean
+  unique: boolean
+  defaultValue: string | null
+  options: string | null
+  relatedType: string | null
+  order: number
+  contentTypeId: string
+}
+
+type ContentTypeRow = {
+  id: string
+  name: string
+  displayName: string
+  description: string | null
+  slug: string
+  apiSettings?: string | null
+  fields: FieldRow[]
+  createdAt: Date
+  updatedAt: Date
+  _count?: { entries: number }
+}
+
+type EntryRow = {
+  id: string
+  contentTypeId: string
+  slug: string | null
+  status: ContentStatus
+  publishedAt: Date | null
+  scheduledAt: Date | null
+  unpublishAt: Date | null
+  archiveAt: Date | null
+  authorId: string | null
+  fieldValues: {
+    id: string
+    fieldId: string
+    entryId: string
+    value: string | null
+    field: FieldRow
+  }[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Field presentation settings are stored alongside other options in the JSON options column
+ */
+const PRESENTATION_KEYS = ['placeholder', 'helpText', 'validation'] as const
+
+function parseOptions(options: string | null): Record<string, ContentFieldOptionValue> {
+  if (!options) return {}
+  try {
+    const parsed = JSON.parse(options)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function toContentField(row: FieldRow): ContentField {
+  const { placeholder, helpText, validation, ...options } = parseOptions(row.options)
+
+  return {
+    id: row.id,
+    name: row.name,
+    displayName: row.displayName,
+    fieldType: row.fieldType,
+    required: row.required,
+    unique: row.unique,
+    defaultValue: row.defaultValue ?? undefined,
+    placeholder: placeholder as ContentField['placeholder'],
+    helpText: helpText as ContentField['helpText'],
+    validation: validation as ContentField['validation'],
+    options: Object.keys(options).length > 0 ? options : undefined,
+    relatedType: row.relatedType ?? undefined,
+    order: row.order,
+    contentTypeId: row.contentTypeId,
+  }
+}
+
+function toContentType(row: ContentTypeRow): ContentType {
+  return {
+    id: row.id,
+    name: row.name,
+    displayName: row.displayName,
+    description: row.description ?? undefined,
+    slug: row.slug,
+    fields: row.fields.map(toContentField),
+    apiSettings: getEndpointSettings(row),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    _count: row._count,
+  }
+}
+
+function toContentEntry(row: EntryRow): ContentEntry {
+  return {
+    id: row.id,
+    contentTypeId: row.contentTypeId,
+    slug: row.slug ?? undefined,
+    status: row.status,
+    publishedAt: row.publishedAt ?? undefined,
+    scheduledAt: row.scheduledAt ?? undefined,
+    unpublishAt: row.unpublishAt ?? undefined,
+    archiveAt: row.archiveAt ?? undefined,
+    authorId: row.authorId ?? undefined,
+    fieldValues: row.fieldValues.map(fv => ({
+      id: fv.id,
+      fieldId: fv.fieldId,
+      entryId: fv.entryId,
+      field: toContentField(fv.field),
+      value: fv.value ?? '',
+    })),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }
+}
+
+type RevisionRow = {
+  id: string
+  entryId: string
+  version: number
+  slug: string | null
+  status: ContentStatus
+  authorId: string | null
+  author: { id: string; name: string | null; email: string } | null
+  fieldValues: RevisionFieldValue[]
+  restoredFromId: string | null
+  createdAt: Date
+}
+
+function toEntryRevision(row: RevisionRow): ContentEntryRevision {
+  return {
+    id: row.id,
+    entryId: row.entryId,
+    version: row.version,
+    slug: row.slug ?? undefined,
+    status: row.status,
+    authorId: row.authorId ?? undefined,
+    author: row.author ?? undefined,
+    fieldValues: row.fieldValues,
+    restoredFromId: row.restoredFromId ?? undefined,
+    createdAt: row.createdAt,
+  }
+}
+
+type SchedulerRunRow = Omit<SchedulerRun, 'finishedAt' | 'error' | 'trigger'> & {
+  trigger: string
+  finishedAt: Date | null
+  error: string | null
+}
+
+function toSchedulerRun(row: SchedulerRunRow): SchedulerRun {
+  return {
+    id: row.id,
+    trigger: row.trigger === 'interval' ? 'interval' : 'manual',
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt ?? undefined,
+    published: row.published,
+    unpublished: row.unpublished,
+    archived: row.archived,
+    failed: row.failed,
+    actions: row.actions,
+    error: row.error ?? undefined,
+  }
+}
+
+function toFieldData(field: ContentFieldInput): CreateContentFieldData & { id?: string } {
+  const options: Record<string, unknown> = { ...field.options }
+  for (const key of PRESENTATION_KEYS) {
+    if (field[key] !== undefined && field[key] !== '') options[key] = field[key]
+  }
+
+  return {
+    id: field.id,
+    name: field.name,
+    displayName: field.displayName,
+    fieldType: field.fieldType as CreateContentFieldData['fieldType'],
+    required: field.required,
+    unique: field.unique,
+    defaultValue: field.defaultValue,
+    options: Object.keys(options).length > 0 ? options : undefined,
+    relatedType: field.relatedType,
+    order: field.order,
+  }
+}
+
+/**
+ * Resolve the signed-in user for the current server function call
+ */
+async function requireCurrentUser(): Promise<AuthUser> {
+  const result = await requireAuth(getWebRequest())
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
+  return result.user
+}
+
+/**
+ * Resolve the signed-in user and check a permission of the role permission matrix
+ */
+async function requireCurrentPermission(
+  action: PermissionAction,
+  target?: PermissionTarget
+): Promise<AuthUser> {
+  const user = await requireCurrentUser()
+  requirePermission(user, action, target)
+  return user
+}
+
+/**
+ * Record a change made by the signed-in user in the audit log
+ */
+function audit(event: AuditEvent, user: AuthUser, details: Record<string, unknown>) {
+  return securityAudit.log(event, getWebRequest(), user.id, true, details)
+}
+
+function isSameTime(a: Date | string | null | undefined, b: Date | string | null | undefined) {
+  return (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null)
+}
+
+/**
+ * Whether an entry write changes its status or schedule, which needs entry.publish; the editor
+ * sends the current values on every save, so only differences count
+ */
+function changesPublication(data: ContentEntryUpdate, existing?: EntryRow): boolean {
+  if (!existing) {
+    return (
+      (data.status ?? 'DRAFT') !== 'DRAFT' ||
+      !!data.scheduledAt ||
+      !!data.unpublishAt ||
+      !!data.archiveAt
+    )
+  }
+
+  return (
+    (data.status !== undefined && data.status !== existing.status) ||
+    (data.scheduledAt !== undefined && !isSameTime(data.scheduledAt, existing.scheduledAt)) ||
+    (data.unpublishAt !== undefined && !isSameTime(data.unpublishAt, existing.unpublishAt)) ||
+    (data.archiveAt !== undefined && !isSameTime(data.archiveAt, existing.archiveAt))
+  )
+}
+
+/**
+ * The entry fields an editor may write; the author and publication date are set here
+ */
+function pickEntryChanges(data: ContentEntryUpdate): ContentEntryUpdate {
+  const { slug, status, scheduledAt, unpublishAt, archiveAt, fieldValues } = data
+  return { slug, status, scheduledAt, unpublishAt, archiveAt, fieldValues }
+}
+
+/**
+ * Load an entry for a write and check the permission for it, including ownership
+ */
+async function requireEntryPermission(id: string, action: PermissionAction) {
+  const entry = await getContentEntryById(prisma, id)
+  if (!entry) return null
+
+  const user = await requireCurrentPermission(action, {
+    contentType: entry.contentType.slug,
+    authorId: entry.authorId,
+  })
+  return { entry: entry as EntryRow & { contentType: { slug: string } }, user }
+}
+
+async function findEntry(id: string): Promise<ContentEntry | null> {
+  const entry = await getContentEntryById(prisma, id)
+  return entry ? toContentEntry(entry) : null
+}
+
+// Content type functions
+
+export const fetchContentTypes = createServerFn({ method: 'GET' }).handler(async () => {
+  await requireCurrentPermission('contentType.read')
+  const types = await getContentTypes(prisma)
+  return types.map(toContentType)
+})
+
+export const fetchContentType = createServerFn({ method: 'GET' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }) => {
+    await requireCurrentPermission('contentType.read')
+    const contentType = await getContentTypeById(prisma, id)
+    return contentType ? toContentType(contentType) : null
+  })
+
+export const createContentTypeFn = createServerFn({ method: 'POST' })
+  .validator((input: ContentTypeInput) => input)
+  .handler(async ({ data }) => {
+    const user = await requireCurrentPermission('contentType.manage')
+    const contentType = await createContentType(
+      prisma,
+      { ...data, fields: data.fields.map(toFieldData) },
+      { actor: { userId: user.id } }
+    )
+    await audit('CONTENT_TYPE_CREATED', user, {
+      contentTypeId: contentType.id,
+      slug: contentType.slug,
+    })
+    return toContentType(contentType)
+  })
+
+export const updateContentTypeFn = createServerFn({ method: 'POST' })
+  .validator((input: { id: string; data: Partial<ContentTypeInput> }) => input)
+  .handler(async ({ data: { id, data } }) => {
+    const user = await requireCurrentPermission('contentType.manage')
+    if (!(await getContentTypeById(prisma, id))) return null
+
+    const contentType = await updateContentType(
+      prisma,
+      id,
+      { ...data, fields: data.fields?.map(toFieldData) },
+      { actor: { userId: user.id } }
+    )
+    await audit('CONTENT_TYPE_UPDATED', user, {
+      contentTypeId: id,
+      slug: contentType.slug,
+      changes: Object.keys(data),
+    })
+    return toContentType(contentType)
+  })
+
+export const deleteContentTypeFn = createServerFn({ method: 'POST' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }) => {
+    const user = await requireCurrentPermission('contentType.manage')
+    const contentType = await getContentTypeById(prisma, id)
+    if (!contentType) return false
+
+    await deleteContentType(prisma, id, {
+      actor: { userId: user.id },
+      canDelete: (related, entry) =>
+        userCan(user, 'entry.delete', { contentType: related.slug, authorId: entry.authorId }),
+    })
+    await audit('CONTENT_TYPE_DELETED', user, { contentTypeId: id, slug: contentType.slug })
+    return true
+  })
+
+export const updateEndpointSettingsFn = createServerFn({ method: 'POST' })
+  .validator((input: { id: string; settings: EndpointSettings }) => input)
+  .handler(async ({ data: { id, settings } }) => {
+    const user = await requireCurrentPermission('api.manage')
+    if (!(await getContentTypeById(prisma, id))) return null
+
+    await updateEndpointSettings(prisma, id, settings)
+    await audit('ENDPOINT_SETTINGS_UPDATED', user, { contentTypeId: id, settings })
+    const contentType = await getContentTypeById(prisma, id)
+    return contentType ? toContentType(contentType) : null
+  })
+
+// Content entry functions
+
+export const fetchContentEntries = createServerFn({ method: 'GET' })
+  .validator((input: { contentTypeId: string; status?: ContentStatus }) => input)
+  .handler(async ({ data }) => {
+    const contentType = await getContentTypeById(prisma, data.contentTypeId)
+    await requireCurrentPermission('entry.read', { contentType: contentType?.slug })
+    const entries = await getAllContentEntries(prisma, data.contentTypeId, data.status)
+    return entries.map(toContentEntry)
+  })
+
+export const fetchContentEntry = createServerFn({ method: 'GET' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }) => {
+    const found = await requireEntryPermission(id, 'entry.read')
+    return found ? toContentEntry(found.entry) : null
+  })
+
+export const createContentEntryFn = createServerFn({ method: 'POST' })
+  .validator(
+    (input: ContentEntryInput): ContentEntryInput => ({
+      ...pickEntryChanges(input),
+      contentTypeId: input.contentTypeId,
+      fieldValues: input.fieldValues,
+    })
+  )
+  .handler(async ({ data }) => {
+    const contentType = await getContentTypeById(prisma, data.contentTypeId)
+    const user = await requireCurrentPermission('entry.create', { contentType: contentType?.slug })
+    if (changesPublication(data)) {
+      requirePermission(user, 'entry.publish', {
+        contentType: contentType?.slug,
+        authorId: user.id,
+      })
+    }
+    const entry = await createContentEntry(prisma, {
+      ...data,
+      authorId: user.id,
+      publishedAt: data.status === 'PUBLISHED' ? new Date() : undefined,
+    })
+    await audit('ENTRY_CREATED', user, {
+      entryId: entry.id,
+      contentType: contentType?.slug,
+      status: entry.status,
+    })
+    return toContentEntry(entry)
+  })
+
+export const updateContentEntryFn = createServerFn({ method: 'POST' })
+  .validator((input: { id: string; data: ContentEntryUpdate }) => ({
+    id: input.id,
+    data: pickEntryChanges(input.data),
+  }))
+  .handler(async ({ data: { id, data } }) => {
+    const found = await requireEntryPermission(id, 'entry.update')
+    if (!found) return null
+    if (changesPublication(data, found.entry)) {
+      requirePermission(found.user, 'entry.publish', {
+        contentType: found.entry.contentType.slug,
+        authorId: found.entry.authorId,
+      })
+    }
+
+    const publishedAt =
+      data.status === 'PUBLISHED' && found.entry.status !== 'PUBLISHED' ? new Date() : undefined
+    const entry = await updateContentEntry(
+      prisma,
+      id,
+      { ...data, publishedAt },
+      { actor: { userId: found.user.id } }
+    )
+    await audit('ENTRY_UPDATED', found.user, {
+      entryId: id,
+      contentType: found.entry.contentType.slug,
+      status: entry.status,
+    })
+    return toContentEntry(entry)
+  })
+
+export const deleteContentEntryFn = createServerFn({ method: 'POST' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }) => {
+    const found = await requireEntryPermission(id, 'entry.delete')
+    if (!found) return false
+
+    await deleteContentEntry(prisma, id, {
+      actor: { userId: found.user.id },
+      canDelete: (related, entry) =>
+        userCan(found.user, 'entry.delete', {
+          contentType: related.slug,
+          authorId: entry.authorId,
+        }),
+    })
+    await audit('ENTRY_DELETED', found.user, {
+      entryId: id,
+      contentType: found.entry.contentType.slug,
+    })
+    return true
+  })
+
+export const changeContentEntryStatusFn = createServerFn({ method: 'POST' })
+  .validator((input: { id: string; action: ContentEntryStatusAction; scheduledAt?: Date }) => {
+    if (input.action === 'schedule' && !input.scheduledAt) {
+      throw new Error('scheduledAt is required to schedule an entry')
+    }
+    return input
+  })
+  .handler(async ({ data }) => {
+    const found = await requireEntryPermission(data.id, 'entry.publish')
+    if (!found) return null
+
+    const options = { actor: { userId: found.user.id } }
+    switch (data.action) {
+      case 'publish':
+        await publishContentEntry(prisma, data.id, new Date(), options)
+        break
+      case 'unpublish':
+        await unpublishContentEntry(prisma, data.id, options)
+        break
+      case 'schedule':
+        await scheduleContentEntry(prisma, data.id, new Date(data.scheduledAt!), options)
+        break
+      case 'unschedule':
+        await unscheduleContentEntry(prisma, data.id, options)
+        break
+      case 'archive':
+        await archiveContentEntry(prisma, data.id, options)
+        break
+    }
+
+    await audit('ENTRY_STATUS_CHANGED', found.user, {
+      entryId: data.id,
+      contentType: found.entry.contentType.slug,
+      action: data.action,
+      ...(data.scheduledAt && { scheduledAt: new Date(data.scheduledAt).toISOString() }),
+    })
+    return findEntry(data.id)
+  })
+
+export const fetchScheduledEntriesToPublish = createServerFn({ method: 'GET' }).handler(
+  async () => {
+    const user = await requireCurrentUser()
+    const entries: (EntryRow & { contentType: { slug: string } })[] =
+      await getScheduledEntriesToPublish(prisma)
+    return entries
+      .filter(entry => userCan(user, 'entry.read', { contentType: entry.contentType.slug }))
+      .map(toContentEntry)
+  }
+)
+
+export const searchRelationTargetsFn = createServerFn({ method: 'GET' })
+  .validator((input: { relatedType: string; search?: string; ids?: string[] }) => input)
+  .handler(async ({ data }) => {
+    const related = await resolveRelatedContentType(prisma, data.relatedType)
+    await requireCurrentPermission('entry.read', { contentType: related?.slug })
+    return searchRelationTargets(prisma, data.relatedType, data)
+  })
+
+export const searchContentFn = createServerFn({ method: 'GET' })
+  .validator((input: { q: string; contentTypeId?: string; limit?: number }) => input)
+  .handler(async ({ data }): Promise<ContentSearchResult[]> => {
+    const user = await requireCurrentUser()
+    const types: { id: string; slug: string }[] = await getContentTypes(prisma)
+    const readable = types.filter(
+      type =>
+        (!data.contentTypeId || type.id === data.contentTypeId) &&
+        userCan(user, 'entry.read', { contentType: type.slug })
+    )
+
+    const { results } = await searchContent(prisma, data.q, {
+      contentTypeIds: readable.map(type => type.id),
+      limit: data.limit,
+    })
+    return results
+  })
+
+// Revision functions
+
+export const fetchEntryRevisions = createServerFn({ method: 'GET' })
+  .validator((entryId: string) => entryId)
+  .handler(async ({ data: entryId }) => {
+    if (!(await requireEntryPermission(entryId, 'entry.read'))) return []
+
+    const revisions = await getEntryRevisions(prisma, entryId)
+    return revisions.map(toEntryRevision)
+  })
+
+export const restoreEntryRevisionFn = createServerFn({ method: 'POST' })
+  .validator((revisionId: string) => revisionId)
+  .handler(async ({ data: revisionId }) => {
+    const revision = await getEntryRevision(prisma, revisionId)
+    const found = revision && (await requireEntryPermission(revision.entryId, 'entry.update'))
+    if (!revision || !found) return null
+
+    const entry = await restoreEntryRevision(prisma, revisionId, {
+      actor: { userId: found.user.id },
+    })
+    if (entry) {
+      await audit('ENTRY_RESTORED', found.user, {
+        entryId: revision.entryId,
+        contentType: found.entry.contentType.slug,
+        revisionId,
+      })
+    }
+    return entry ? toContentEntry(entry) : null
+  })
+
+// Scheduled publishing functions
+
+export const fetchSchedulerStatus = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<SchedulerStatus> => {
+    await requireCurrentPermission('entry.publish')
+    const status = await getSchedulerStatus(prisma)
+    return { ...status, runs: status.runs.map(toSchedulerRun) }
+  }
+)
+
+export const runSchedulerFn = createServerFn({ method: 'POST' }).handler(
+  async (): Promise<SchedulerRunResult> => {
+    await requireCurrentPermission('entry.publish')
+    const run = await runScheduledPublishingWithLock(prisma, { trigger: 'manual' })
+    return run ? { busy: false, run: toSchedulerRun(run) } : { busy: true }
+  }
+)
@@ -0,0 +1,700 @@
+/**
+ * Query language for content entry lists
+ * Parses `filter[field][op]=value`, `sort=field:asc,other:desc`, `fields=title,price`,
+ * `status=PUBLISHED,DRAFT` and `search=keywords` list parameters and translates them into Prisma queries over the
+ * entry columns and its ContentFieldValue rows, or SQL for the sorts Prisma cannot express
+ */
+
+import { PrismaClient } from '@prisma/client'
+import type { ApiFieldError } from '../lib/api-response'
+import type { ContentStatus } from '../lib/content-types'
+
+export const FILTER_OPERATORS = [
+  'eq',
+  'ne',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'in',
+  'contains',
+  'startsWith',
+  'null',
+] as const
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number]
+
+const ENTRY_STATUSES: ContentStatus[] = ['DRAFT', 'PUBLISHED', 'SCHEDULED', 'ARCHIVED']
+
+/**
+ * Entry columns that can be filtered and sorted like fields
+ */
+const SYSTEM_FIELDS = new Map<string, ValueKind>([
+  ['id', 'string'],
+  ['slug', 'string'],
+  ['status', 'status'],
+  ['createdAt', 'date'],
+  ['updatedAt', 'date'],
+  ['publishedAt', 'date'],
+  ['scheduledAt', 'date'],
+])
+
+const RANGE_OPERATORS: FilterOperator[] = ['lt', 'lte', 'gt', 'gte']
+
+/**
+ * Non-nullable columns that Prisma can compare for keyset pagination
+ */
+const KEYSET_COLUMNS = ['id', 'createdAt', 'updatedAt']
+
+/** Order of entry lists without a `sort` parameter */
+export const DEFAULT_SORT: EntrySort[] = [{ target: 'createdAt', kind: 'date', direction: 'desc' }]
+
+/**
+ * Operators allowed per value kind; text-like field types support every operator
+ */
+const KIND_OPERATORS: Record<string, FilterOperator[]> = {
+  number: ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'in', 'null'],
+  boolean: ['eq', 'ne', 'null'],
+  date: ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'null'],
+  status: ['eq', 'ne', 'in'],
+  string: [...FILTER_OPERATORS],
+}
+
+type QueryField = { id: string; name: string; fieldType: string }
+
+type ValueKind = 'string' | 'number' | 'boolean' | 'date' | 'status'
+
+export type EntryFilter = {
+  /** Entry column name, or the ContentField for field values */
+  target: string | QueryField
+  kind: ValueKind
+  operator: FilterOperator
+  /** Normalized comparison values; a single value except for `in` */
+  values: string[]
+}
+
+export type EntrySort = {
+  target: string | QueryField
+  kind: ValueKind
+  direction: 'asc' | 'desc'
+}
+
+export type EntryListQuery = {
+  filters?: EntryFilter[]
+  sort?: EntrySort[]
+  /** IDs of the fields whose values are returned; every field when omitted */
+  fieldIds?: string[]
+  /** Full-text search; without a sort, matches are ordered by relevance */
+  search?: string
+  /** Cursor pagination instead of pages; a missing key starts at the first entry */
+  cursor?: EntryCursor
+}
+
+type SortValue = string | number | null
+
+/**
+ * Position of an entry in a sorted list: its sort values followed by the ID tiebreaker
+ */
+export type SortKey = { values: SortValue[]; id: string }
+
+export type EntryCursor = {
+  direction: 'after' | 'before'
+  key?: SortKey
+}
+
+function getFieldKind(fieldType: string): ValueKind {
+  switch (fieldType) {
+    case 'NUMBER':
+      return 'number'
+    case 'BOOLEAN':
+      return 'boolean'
+    case 'DATE':
+      return 'date'
+    default:
+      return 'string'
+  }
+}
+
+/**
+ * Normalize a filter value the way field values are stored, or return null when it is invalid
+ */
+function normalizeValue(kind: ValueKind, value: string): string | null {
+  switch (kind) {
+    case 'number': {
+      const number = Number(value.trim())
+      return value.trim() !== '' && Number.isFinite(number) ? String(number) : null
+    }
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase()
+      return normalized === 'true' || normalized === 'false' ? normalized : null
+    }
+    case 'date': {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? null : date.toISOString()
+    }
+    case 'status':
+      return ENTRY_STATUSES.includes(value as ContentStatus) ? value : null
+    default:
+      return value
+  }
+}
+
+/**
+ * Parse the list query parameters of a content type
+ *
+ * Fields are referenced by name; unknown fields, operators and values that do not match the
+ * field type are reported as errors with the parameter they came from.
+ */
+export function parseEntryListQuery(
+  fields: QueryField[],
+  query: Record<string, string>
+): { query: EntryListQuery } | { errors: ApiFieldError[] } {
+  const errors: ApiFieldError[] = []
+  const filters: EntryFilter[] = []
+  const fieldsByName = new Map(fields.map(field => [field.name, field]))
+
+  const resolve = (name: string, path: string) => {
+    const column = SYSTEM_FIELDS.get(name)
+    if (column) {
+      return { target: name, kind: column }
+    }
+    const field = fieldsByName.get(name)
+    if (!field) {
+      errors.push({ path, message: `Unknown field '${name}'` })
+      return null
+    }
+    return { target: field, kind: getFieldKind(field.fieldType) }
+  }
+
+  const addFilter = (name: string, operator: string, raw: string, path: string) => {
+    const resolved = resolve(name, path)
+    if (!resolved) return
+
+    if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+      errors.push({
+        path,
+        message: `Unknown operator '${operator}', expected one of ${FILTER_OPERATORS.join(', ')}`,
+      })
+      return
+    }
+    if (!KIND_OPERATORS[resolved.kind].includes(operator as FilterOperator)) {
+      errors.push({ path, message: `Operator '${operator}' is not supported for '${name}'` })
+      return
+    }
+
+    if (operator === 'null') {
+      const normalized = normalizeValue('boolean', raw)
+      if (!normalized) {
+        errors.push({ path, message: `Operator 'null' expects true or false` })
+        return
+      }
+      filters.push({ ...resolved, operator, values: [normalized] })
+      return
+    }
+
+    const rawValues = operator === 'in' ? raw.split(',').map(value => value.trim()) : [raw]
+    const values = rawValues.map(value => normalizeValue(resolved.kind, value))
+    if (values.some(value => value === null)) {
+      errors.push({ path, message: `Invalid ${resolved.kind} value '${raw}' for '${name}'` })
+      return
+    }
+    filters.push({ ...resolved, operator: operator as FilterOperator, values: values as string[] })
+  }
+
+  for (const [key, raw] of Object.entries(query)) {
+    const match = key.match(/^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/)
+    if (match) {
+      addFilter(match[1], match[2] ?? 'eq', raw, key)
+    } else if (key.startsWith('filter')) {
+      errors.push({ path: key, message: `Invalid filter '${key}', expected filter[field][op]` })
+    }
+  }
+
+  if (query.status) {
+    addFilter('status', 'in', query.status, 'status')
+  }
+
+  const sort: EntrySort[] = []
+  for (const part of (query.sort || '').split(',').map(segment => segment.trim())) {
+    if (!part) continue
+
+    const [name, direction = 'asc'] = part.split(':')
+    if (direction !== 'asc' && direction !== 'desc') {
+      errors.push({ path: 'sort', message: `Invalid sort direction '${direction}' for '${name}'` })
+      continue
+    }
+    const resolved = resolve(name, 'sort')
+    if (resolved) sort.push({ ...resolved, direction })
+  }
+
+  let fieldIds: string[] | undefined
+  if (query.fields) {
+    fieldIds = []
+    for (const name of query.fields.split(',').map(segment => segment.trim())) {
+      if (!name) continue
+      const field = fieldsByName.get(name)
+      if (field) {
+        fieldIds.push(field.id)
+      } else {
+        errors.push({ path: 'fields', message: `Unknown field '${name}'` })
+      }
+    }
+  }
+
+  const search = query.search?.trim() || undefined
+
+  // An empty `after` starts at the first entry and an empty `before` at the last one
+  let cursor: EntryCursor | undefined
+  if (query.after !== undefined && query.before !== undefined) {
+    errors.push({ path: 'before', message: `Use either 'after' or 'before', not both` })
+  } else if (query.after !== undefined || query.before !== undefined) {
+    const direction = query.after !== undefined ? 'after' : 'before'
+    const key = query[direction]
+      ? decodeCursor(query[direction], sort.length > 0 ? sort : DEFAULT_SORT)
+      : undefined
+    if (key === null) {
+      errors.push({ path: direction, message: 'Invalid cursor for this sort order' })
+    } else {
+      cursor = { direction, key }
+    }
+  } else if (query.pagination === 'cursor') {
+    cursor = { direction: 'after' }
+  } else if (query.pagination && query.pagination !== 'page') {
+    errors.push({
+      path: 'pagination',
+      message: `Invalid pagination '${query.pagination}', expected page or cursor`,
+    })
+  }
+
+  return errors.length > 0 ? { errors } : { query: { filters, sort, fieldIds, search, cursor } }
+}
+
+/**
+ * Narrow a list query to published entries, on top of any status the caller asked for
+ */
+export function withPublishedOnly(query: EntryListQuery): EntryListQuery {
+  const published: EntryFilter = {
+    target: 'status',
+    kind: 'status',
+    operator: 'eq',
+    values: ['PUBLISHED'],
+  }
+  return { ...query, filters: [...(query.filters ?? []), published] }
+}
+
+/**
+ * Prisma `where` clause for the entries of a content type matching every filter
+ *
+ * Numbers are stored as text, so numeric range filters are matched in SQL, like
+ * `buildEntryCountQuery`, and become an ID filter.
+ */
+export async function buildEntryWhere(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  filters: EntryFilter[] = []
+): Promise<Record<string, unknown>> {
+  const conditions: Record<string, unknown>[] = []
+  const numericRanges: EntryFilter[] = []
+
+  for (const filter of filters) {
+    if (typeof filter.target === 'string') {
+      conditions.push(buildColumnCondition(filter.target, filter))
+    } else if (filter.kind === 'number' && RANGE_OPERATORS.includes(filter.operator)) {
+      numericRanges.push(filter)
+    } else {
+      conditions.push(buildFieldValueCondition(filter.target.id, filter))
+    }
+  }
+
+  if (numericRanges.length > 0) {
+    conditions.push({ id: { in: await findNumericMatches(prisma, contentTypeId, numericRanges) } })
+  }
+
+  return conditions.length > 0 ? { contentTypeId, AND: conditions } : { contentTypeId }
+}
+
+function buildColumnCondition(column: string, filter: EntryFilter): Record<string, unknown> {
+  const [value] = filter.values
+  const typed = filter.kind === 'date' ? new Date(value) : value
+
+  switch (filter.operator) {
+    case 'eq':
+      return { [column]: typed }
+    case 'ne':
+      return { [column]: { not: typed } }
+    case 'in':
+      return { [column]: { in: filter.values } }
+    case 'null':
+      return { [column]: value === 'true' ? null : { not: null } }
+    default:
+      return { [column]: { [filter.operator]: typed } }
+  }
+}
+
+function buildFieldValueCondition(fieldId: string, filter: EntryFilter): Record<string, unknown> {
+  const [value] = filter.values
+
+  switch (filter.operator) {
+    case 'eq':
+      return { fieldValues: { some: { fieldId, value } } }
+    case 'ne':
+      return { fieldValues: { none: { fieldId, value } } }
+    case 'in':
+      return { fieldValues: { some: { fieldId, value: { in: filter.values } } } }
+    case 'null': {
+      const hasValue = { fieldValues: { some: { fieldId, value: { not: null } } } }
+      return value === 'true' ? { NOT: hasValue } : hasValue
+    }
+    default:
+      return { fieldValues: { some: { fieldId, value: { [filter.operator]: value } } } }
+  }
+}
+
+async function findNumericMatches(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  filters: EntryFilter[]
+): Promise<string[]> {
+  const params: unknown[] = []
+  const conditions = buildEntrySqlConditions(contentTypeId, { filters, sort: [] }, params)
+  const rows: { id: string }[] = await prisma.$queryRawUnsafe(
+    `SELECT e."id" AS "id" FROM "ContentEntry" AS e WHERE ${conditions.join(' AND ')}`,
+    ...params
+  )
+  return rows.map(row => row.id)
+}
+
+/**
+ * Whether a sort can be expressed as a Prisma orderBy (entry columns only)
+ */
+export function isColumnSort(sort: EntrySort[]): boolean {
+  return sort.every(order => typeof order.target === 'string')
+}
+
+/**
+ * Prisma orderBy for a column sort; entries without a sort default to newest first
+ *
+ * `reverse` flips every direction, which is how pages before a cursor are read.
+ */
+export function toOrderBy(sort: EntrySort[], reverse = false): Record<string, 'asc' | 'desc'>[] {
+  const flip = (direction: 'asc' | 'desc') =>
+    reverse ? (direction === 'asc' ? 'desc' : 'asc') : direction
+  return [
+    ...(sort.length > 0 ? sort : DEFAULT_SORT).map(order => ({
+      [order.target as string]: flip(order.direction),
+    })),
+    { id: flip('asc') },
+  ]
+}
+
+type SortableEntry = {
+  id: string
+  fieldValues: { fieldId: string; value: string | null }[]
+} & Record<string, unknown>
+
+/**
+ * Sort values of an entry; dates become timestamps and empty values null
+ */
+export function getSortKey(entry: SortableEntry, sort: EntrySort[]): SortKey {
+  const values = sort.map(order => {
+    const raw =
+      typeof order.target === 'string'
+        ? entry[order.target]
+        : entry.fieldValues.find(fv => fv.fieldId === (order.target as QueryField).id)?.value
+
+    if (raw === null || raw === undefined || raw === '') return null
+    if (raw instanceof Date) return raw.getTime()
+    if (order.kind === 'number') {
+      const number = Number(raw)
+      return Number.isNaN(number) ? null : number
+    }
+    return String(raw)
+  })
+  return { values, id: entry.id }
+}
+
+type SqlQuery = { sql: string; params: unknown[] }
+
+type EntrySqlQuery = {
+  filters?: EntryFilter[]
+  sort: EntrySort[]
+  /** Limits the entries to these IDs, e.g. the matches of a search */
+  ids?: string[]
+  cursor?: EntryCursor
+}
+
+const DATE_COLUMNS = new Set(['createdAt', 'updatedAt', 'publishedAt', 'scheduledAt'])
+
+/**
+ * SQL for one page of entry IDs in a sort that Prisma cannot express, such as field values
+ *
+ * Every sort field is joined as one ContentFieldValue row; numbers compare as numbers, empty
+ * values sort last and IDs break ties. `cursor` starts the page after (or before) an entry, or
+ * at the first (or last) one without a key; pages before a cursor are read in reverse order like
+ * `toOrderBy(sort, true)`.
+ */
+export function buildSortedEntryQuery(
+  contentTypeId: string,
+  query: EntrySqlQuery,
+  page: { limit: number; offset?: number }
+): SqlQuery {
+  const params: unknown[] = []
+  const expressions = query.sort.map((order, index) => getSortExpression(order, index))
+  const joins = query.sort.flatMap((order, index) => {
+    if (typeof order.target === 'string') return []
+    params.push(order.target.id)
+    return [
+      `LEFT JOIN "ContentFieldValue" AS "sort${index}" ON "sort${index}"."entryId" = e."id" AND "sort${index}"."fieldId" = ?`,
+    ]
+  })
+
+  const conditions = buildEntrySqlConditions(contentTypeId, query, params)
+  if (query.cursor?.key) {
+    conditions.push(
+      buildCursorCondition(
+        query.sort,
+        expressions,
+        { ...query.cursor, key: query.cursor.key },
+        params
+      )
+    )
+  }
+
+  const backwards = query.cursor?.direction === 'before'
+  const orderBy = [
+    ...query.sort.flatMap((order, index) => {
+      const ascending = (order.direction === 'asc') !== backwards
+      return [
+        `${expressions[index]} IS NULL${backwards ? ' DESC' : ''}`,
+        `${expressions[index]} ${ascending ? 'ASC' : 'DESC'}`,
+      ]
+    }),
+    `e."id" ${backwards ? 'DESC' : 'ASC'}`,
+  ]
+  params.push(page.limit, page.offset ?? 0)
+
+  return {
+    sql: `SELECT e."id" AS "id" FROM "ContentEntry" AS e ${joins.join(' ')}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${orderBy.join(', ')} LIMIT ? OFFSET ?`,
+    params,
+  }
+}
+
+/**
+ * SQL counting the entries of a `buildSortedEntryQuery`, as `total`
+ */
+export function buildEntryCountQuery(contentTypeId: string, query: EntrySqlQuery): SqlQuery {
+  const params: unknown[] = []
+  const conditions = buildEntrySqlConditions(contentTypeId, query, params)
+  return {
+    sql: `SELECT count(*) AS "total" FROM "ContentEntry" AS e WHERE ${conditions.join(' AND ')}`,
+    params,
+  }
+}
+
+/**
+ * SQL version of `buildEntryWhere`
+ *
+ * DateTime columns are compared as epoch milliseconds, which is how Prisma stores them in
+ * SQLite.
+ */
+function buildEntrySqlConditions(
+  contentTypeId: string,
+  query: EntrySqlQuery,
+  params: unknown[]
+): string[] {
+  const bind = (value: unknown) => {
+    params.push(value)
+    return '?'
+  }
+  const conditions = [`e."contentTypeId" = ${bind(contentTypeId)}`]
+
+  for (const filter of query.filters ?? []) {
+    if (typeof filter.target === 'string') {
+      const typed = (value: string) => (filter.kind === 'date' ? new Date(value).getTime() : value)
+      conditions.push(buildSqlComparison(`e."${filter.target}"`, filter, typed, bind))
+      continue
+    }
+
+    // Numbers are stored as text, so range filters cast the non-empty values
+    const isRange = filter.kind === 'number' && RANGE_OPERATORS.includes(filter.operator)
+    const field = `fv."entryId" = e."id" AND fv."fieldId" = ${bind(filter.target.id)}`
+    const comparison =
+      filter.operator === 'null'
+        ? 'fv."value" IS NOT NULL'
+        : isRange
+          ? `fv."value" <> '' AND ${buildSqlComparison('CAST(fv."value" AS REAL)', filter, Number, bind)}`
+          : buildSqlComparison(
+              'fv."value"',
+              filter.operator === 'ne' ? { ...filter, operator: 'eq' } : filter,
+              String,
+              bind
+            )
+    const exists = `EXISTS (SELECT 1 FROM "ContentFieldValue" AS fv WHERE ${field} AND ${comparison})`
+    const negate =
+      filter.operator === 'ne' || (filter.operator === 'null' && filter.values[0] === 'true')
+    conditions.push(negate ? `NOT ${exists}` : exists)
+  }
+
+  if (query.ids) {
+    conditions.push(`e."id" IN (${query.ids.map(bind).join(', ')})`)
+  }
+  return conditions
+}
+
+function buildSqlComparison(
+  column: string,
+  filter: EntryFilter,
+  typed: (value: string) => unknown,
+  bind: (value: unknown) => string
+): string {
+  const [value] = filter.values
+  const pattern = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`)
+
+  switch (filter.operator) {
+    case 'eq':
+      return `${column} = ${bind(typed(value))}`
+    case 'ne':
+      return `${column} <> ${bind(typed(value))}`
+    case 'in':
+      return `${column} IN (${filter.values.map(item => bind(typed(item))).join(', ')})`
+    case 'null':
+      return `${column} IS ${value === 'true' ? '' : 'NOT '}NULL`
+    case 'contains':
+      return `${column} LIKE ${bind(`%${pattern(value)}%`)} ESCAPE '\\'`
+    case 'startsWith':
+      return `${column} LIKE ${bind(`${pattern(value)}%`)} ESCAPE '\\'`
+    default: {
+      const operators = { lt: '<', lte: '<=', gt: '>', gte: '>=' } as const
+      return `${column} ${operators[filter.operator]} ${bind(typed(value))}`
+    }
+  }
+}
+
+/**
+ * SQL value an entry is sorted by, matching `getSortKey`: empty values are null
+ */
+function getSortExpression(order: EntrySort, index: number): string {
+  if (typeof order.target !== 'string') {
+    const value = `NULLIF("sort${index}"."value", '')`
+    return order.kind === 'number' ? `CAST(${value} AS REAL)` : value
+  }
+  return DATE_COLUMNS.has(order.target) ? `e."${order.target}"` : `NULLIF(e."${order.target}", '')`
+}
+
+/**
+ * SQL condition for the entries after (or before) a cursor, with empty values sorting last
+ */
+function buildCursorCondition(
+  sort: EntrySort[],
+  expressions: string[],
+  cursor: EntryCursor & { key: SortKey },
+  params: unknown[]
+): string {
+  const alternatives: string[] = []
+  const equal: string[] = []
+  const equalParams: unknown[] = []
+  const after = cursor.direction === 'after'
+
+  sort.forEach((order, index) => {
+    const expression = expressions[index]
+    const value = cursor.key.values[index]
+    const forward = (order.direction === 'asc') === after
+
+    // Null is the last value: nothing follows it, and every value precedes it
+    let comparison: { sql: string; params: unknown[] } | null
+    if (value === null) {
+      comparison = after ? null : { sql: `${expression} IS NOT NULL`, params: [] }
+    } else {
+      const compared = `${expression} ${forward ? '>' : '<'} ?`
+      comparison = after
+        ? { sql: `(${compared} OR ${expression} IS NULL)`, params: [value] }
+        : { sql: compared, params: [value] }
+    }
+    if (comparison) {
+      alternatives.push(`(${[...equal, comparison.sql].join(' AND ')})`)
+      params.push(...equalParams, ...comparison.params)
+    }
+
+    equal.push(`${expression} IS ?`)
+    equalParams.push(value)
+  })
+
+  alternatives.push(`(${[...equal, `e."id" ${after ? '>' : '<'} ?`].join(' AND ')})`)
+  params.push(...equalParams, cursor.key.id)
+  return `(${alternatives.join(' OR ')})`
+}
+
+/**
+ * Whether keyset pagination for a sort can be expressed as a Prisma query
+ */
+export function isKeysetSort(sort: EntrySort[]): boolean {
+  return sort.every(
+    order => typeof order.target === 'string' && KEYSET_COLUMNS.includes(order.target)
+  )
+}
+
+/**
+ * Prisma `where` clause for the entries after (or before) a cursor in a keyset sort
+ */
+export function buildCursorWhere(sort: EntrySort[], cursor: EntryCursor & { key: SortKey }) {
+  const columns = [
+    ...sort.map((order, index) => ({
+      column: order.target as string,
+      ascending: order.direction === 'asc',
+      value:
+        order.kind === 'date'
+          ? new Date(cursor.key.values[index] as number)
+          : cursor.key.values[index],
+    })),
+    { column: 'id', ascending: true, value: cursor.key.id },
+  ]
+
+  return {
+    OR: columns.map((current, index) => {
+      const forward = current.ascending === (cursor.direction === 'after')
+      return {
+        AND: [
+          ...columns.slice(0, index).map(previous => ({ [previous.column]: previous.value })),
+          { [current.column]: { [forward ? 'gt' : 'lt']: current.value } },
+        ],
+      }
+    }),
+  }
+}
+
+/**
+ * Opaque cursor for an entry position; the sort order is embedded so a cursor cannot be reused
+ * with another `sort`
+ */
+export function encodeCursor(key: SortKey, sort: EntrySort[]): string {
+  const payload = { s: getSortSignature(sort), v: key.values, id: key.id }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+function decodeCursor(cursor: string, sort: EntrySort[]): SortKey | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    const valid =
+      payload?.s === getSortSignature(sort) &&
+      typeof payload.id === 'string' &&
+      Array.isArray(payload.v) &&
+      payload.v.length === sort.length &&
+      payload.v.every(
+        (value: unknown) => value === null || ['string', 'number'].includes(typeof value)
+      )
+    return valid ? { values: payload.v, id: payload.id } : null
+  } catch {
+    return null
+  }
+}
+
+function getSortSignature(sort: EntrySort[]): string {
+  return sort
+    .map(order => {
+      const target = typeof order.target === 'string' ? order.target : order.target.id
+      return `${target}:${order.direction}`
+    })
+    .join(',')
+}
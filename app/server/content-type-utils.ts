@@ -2,8 +2,33 @@
  * Content Type Builder utility functions for TanCMS
  */
 
-import { PrismaClient, FieldType } from '@prisma/client'
+import { PrismaClient, FieldType, ContentStatus } from '@prisma/client'
 import { generateSlug } from '../lib/utils'
+import type { ApiPageInfo } from '../lib/api-response'
+import { validateFieldValues, type FieldValueInput } from './field-validation'
+import { prepareEntryDeletion, syncEntryRelations, type DeleteAccess } from './relation-utils'
+import {
+  buildCursorWhere,
+  buildEntryCountQuery,
+  buildEntryWhere,
+  buildSortedEntryQuery,
+  DEFAULT_SORT,
+  encodeCursor,
+  getSortKey,
+  isColumnSort,
+  isKeysetSort,
+  toOrderBy,
+  type EntryCursor,
+  type EntryListQuery,
+  type EntrySort,
+} from './content-query'
+import { findSearchMatches, reindexContentType, syncSearchIndex } from './search-index'
+import {
+  getEntryUpdateAction,
+  recordContentTypeActivity,
+  recordEntryActivity,
+  type ActivityOptions,
+} from './activity'
 
 export type CreateContentTypeData = {
   name: string
@@ -27,16 +52,23 @@ export type CreateContentFieldData = {
 export type CreateContentEntryData = {
   contentTypeId: string
   slug?: string
-  fieldValues: {
-    fieldId: string
-    value: unknown
-  }[]
+  status?: ContentStatus
+  publishedAt?: Date | null
+  scheduledAt?: Date | null
+  unpublishAt?: Date | null
+  archiveAt?: Date | null
+  authorId?: string | null
+  fieldValues: FieldValueInput[]
 }
 
 /**
  * Create a new content type with fields
  */
-export async function createContentType(prisma: PrismaClient, data: CreateContentTypeData) {
+export async function createContentType(
+  prisma: PrismaClient,
+  data: CreateContentTypeData,
+  options: ActivityOptions = {}
+) {
   const baseSlug = generateSlug(data.name)
   let slug = baseSlug
   let counter = 1
@@ -47,7 +79,7 @@ export async function createContentType(prisma: PrismaClient, data: CreateConten
     counter++
   }
 
-  return await prisma.contentType.create({
+  const contentType = await prisma.contentType.create({
     data: {
       name: data.name,
       displayName: data.displayName,
@@ -73,6 +105,9 @@ export async function createContentType(prisma: PrismaClient, data: CreateConten
       },
     },
   })
+
+  await recordContentTypeActivity(prisma, contentType, 'created', options.actor)
+  return contentType
 }
 
 /**
@@ -81,7 +116,10 @@ export async function createContentType(prisma: PrismaClient, data: CreateConten
 export async function updateContentType(
   prisma: PrismaClient,
   id: string,
-  data: Partial<CreateContentTypeData>
+  data: Partial<Omit<CreateContentTypeData, 'fields'>> & {
+    fields?: (CreateContentFieldData & { id?: string })[]
+  },
+  options: ActivityOptions = {}
 ) {
   const updateData: Record<string, unknown> = {}
 
@@ -106,7 +144,12 @@ export async function updateContentType(
     updateData.slug = slug
   }
 
-  return await prisma.contentType.update({
+  if (data.fields) {
+    await syncContentTypeFields(prisma, id, data.fields)
+    await reindexContentType(prisma, id)
+  }
+
+  const contentType = await prisma.contentType.update({
     where: { id },
     data: updateData,
     include: {
@@ -115,6 +158,40 @@ export async function updateContentType(
       },
     },
   })
+
+  await recordContentTypeActivity(prisma, contentType, 'updated', options.actor)
+  return contentType
+}
+
+/**
+ * Replace the field list of a content type: fields with a known ID are updated,
+ * the rest are created, and fields missing from the list are deleted
+ */
+export async function syncContentTypeFields(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  fields: (CreateContentFieldData & { id?: string })[]
+) {
+  const existing = await prisma.contentField.findMany({
+    where: { contentTypeId },
+    select: { id: true },
+  })
+  const existingIds = new Set(existing.map(field => field.id))
+  const keptIds = new Set(fields.filter(f => f.id && existingIds.has(f.id)).map(f => f.id!))
+
+  await prisma.contentField.deleteMany({
+    where: { contentTypeId, id: { notIn: [...keptIds] } },
+  })
+
+  for (const [index, field] of fields.entries()) {
+    const fieldData = { ...field, order: field.order ?? index }
+
+    if (field.id && keptIds.has(field.id)) {
+      await updateContentField(prisma, field.id, fieldData)
+    } else {
+      await addFieldToContentType(prisma, contentTypeId, fieldData)
+    }
+  }
 }
 
 /**
@@ -163,12 +240,31 @@ export async function getContentTypeBySlug(prisma: PrismaClient, slug: string) {
 }
 
 /**
- * Delete a content type
+ * Delete a content type and its entries, applying the delete behavior of relations that point
+ * at those entries; `canDelete` checks the entries of other types that cascade with them
  */
-export async function deleteContentType(prisma: PrismaClient, id: string) {
-  return await prisma.contentType.delete({
+export async function deleteContentType(
+  prisma: PrismaClient,
+  id: string,
+  options: ActivityOptions & { canDelete?: DeleteAccess } = {}
+) {
+  const entries: { id: string }[] = await prisma.contentEntry.findMany({
+    where: { contentTypeId: id },
+    select: { id: true },
+  })
+  const doomed = await prepareEntryDeletion(
+    prisma,
+    entries.map(entry => entry.id),
+    options.canDelete
+  )
+  await prisma.contentEntry.deleteMany({ where: { id: { in: doomed } } })
+  await syncSearchIndex(prisma, doomed)
+
+  const contentType = await prisma.contentType.delete({
     where: { id },
   })
+  await recordContentTypeActivity(prisma, contentType, 'deleted', options.actor)
+  return contentType
 }
 
 /**
@@ -237,9 +333,14 @@ export async function deleteContentField(prisma: PrismaClient, fieldId: string)
 }
 
 /**
- * Create content entry
+ * Create content entry; the author is the actor of its activity unless another is given
  */
-export async function createContentEntry(prisma: PrismaClient, data: CreateContentEntryData) {
+export async function createContentEntry(
+  prisma: PrismaClient,
+  data: CreateContentEntryData,
+  options: ActivityOptions = {}
+) {
+  const fieldValues = await validateFieldValues(prisma, data.contentTypeId, data.fieldValues)
   let slug = data.slug
 
   if (slug) {
@@ -257,15 +358,18 @@ export async function createContentEntry(prisma: PrismaClient, data: CreateConte
     }
   }
 
-  return await prisma.contentEntry.create({
+  const entry = await prisma.contentEntry.create({
     data: {
       contentTypeId: data.contentTypeId,
       slug,
+      status: data.status,
+      publishedAt: data.publishedAt,
+      scheduledAt: data.scheduledAt,
+      unpublishAt: data.unpublishAt,
+      archiveAt: data.archiveAt,
+      authorId: data.authorId,
       fieldValues: {
-        create: data.fieldValues.map(fv => ({
-          fieldId: fv.fieldId,
-          value: typeof fv.value === 'string' ? fv.value : JSON.stringify(fv.value),
-        })),
+        create: fieldValues,
       },
     },
     include: {
@@ -277,6 +381,12 @@ export async function createContentEntry(prisma: PrismaClient, data: CreateConte
       },
     },
   })
+
+  await syncEntryRelations(prisma, entry)
+  await recordEntryRevision(prisma, entry)
+  await recordEntryActivity(prisma, entry, 'created', options.actor ?? { userId: data.authorId })
+  await syncSearchIndex(prisma, [entry.id])
+  return entry
 }
 
 /**
@@ -286,37 +396,268 @@ export async function getContentEntries(
   prisma: PrismaClient,
   contentTypeId: string,
   page: number = 1,
-  pageSize: number = 10
+  pageSize: number = 10,
+  query: EntryListQuery = {}
 ) {
   const skip = (page - 1) * pageSize
+  const sort = query.sort ?? []
+  const rankedIds = await findRankedIds(prisma, contentTypeId, query.search)
+  const include = getEntryInclude(query.fieldIds)
+
+  if (rankedIds && sort.length === 0) {
+    // Search matches are capped, so they can be put in rank order here
+    const where = await buildEntryWhere(prisma, contentTypeId, query.filters)
+    const matches: { id: string }[] = await prisma.contentEntry.findMany({
+      where: { ...where, id: { in: rankedIds } },
+      select: { id: true },
+    })
+    const matched = new Set(matches.map(match => match.id))
+    const ordered = rankedIds.filter(id => matched.has(id))
+
+    return {
+      entries: await loadEntriesInOrder(prisma, ordered.slice(skip, skip + pageSize), include),
+      total: ordered.length,
+      pages: Math.ceil(ordered.length / pageSize),
+      currentPage: page,
+    }
+  }
 
-  const [entries, total] = await Promise.all([
-    prisma.contentEntry.findMany({
-      where: { contentTypeId },
-      include: {
-        fieldValues: {
-          include: {
-            field: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: pageSize,
-    }),
-    prisma.contentEntry.count({
-      where: { contentTypeId },
-    }),
+  if (isColumnSort(sort)) {
+    const where = await resolveEntryWhere(prisma, contentTypeId, query.filters, rankedIds)
+    const [entries, total] = await Promise.all([
+      prisma.contentEntry.findMany({
+        where,
+        include,
+        orderBy: toOrderBy(sort),
+        skip,
+        take: pageSize,
+      }),
+      prisma.contentEntry.count({ where }),
+    ])
+
+    return {
+      entries,
+      total,
+      pages: Math.ceil(total / pageSize),
+      currentPage: page,
+    }
+  }
+
+  // Prisma cannot order by field values: the page is sorted in SQL, then loaded
+  const sqlQuery = { filters: query.filters, sort, ids: rankedIds }
+  const [ids, total] = await Promise.all([
+    findSortedEntryIds(prisma, contentTypeId, sqlQuery, { limit: pageSize, offset: skip }),
+    countEntries(prisma, contentTypeId, sqlQuery),
   ])
 
   return {
-    entries,
+    entries: await loadEntriesInOrder(prisma, ids, include),
     total,
     pages: Math.ceil(total / pageSize),
     currentPage: page,
   }
 }
 
+/**
+ * Get the entries of a content type after (or before) a cursor
+ *
+ * Unlike pages, cursors stay stable while entries are inserted or deleted and no total is
+ * counted. Search results are listed in the default order unless a sort is given.
+ */
+export async function getContentEntriesByCursor(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  limit: number = 10,
+  query: EntryListQuery = {}
+) {
+  const sort = query.sort?.length ? query.sort : DEFAULT_SORT
+  const cursor: EntryCursor = query.cursor ?? { direction: 'after' }
+  const backwards = cursor.direction === 'before'
+  const rankedIds = await findRankedIds(prisma, contentTypeId, query.search)
+  const include = getEntryInclude(query.fieldIds)
+
+  let rows: SortCandidate[]
+  if (isKeysetSort(sort)) {
+    const where = await resolveEntryWhere(prisma, contentTypeId, query.filters, rankedIds)
+    rows = await prisma.contentEntry.findMany({
+      where: cursor.key
+        ? { AND: [where, buildCursorWhere(sort, { ...cursor, key: cursor.key })] }
+        : where,
+      include,
+      orderBy: toOrderBy(sort, backwards),
+      take: limit + 1,
+    })
+  } else {
+    // Other sorts are read in SQL, like pages sorted by field values
+    const ids = await findSortedEntryIds(
+      prisma,
+      contentTypeId,
+      {
+        filters: query.filters,
+        sort,
+        ids: rankedIds,
+        cursor,
+      },
+      { limit: limit + 1 }
+    )
+    rows = await findSortCandidates(prisma, ids, sort)
+  }
+
+  const hasMore = rows.length > limit
+  const page = rows.slice(0, limit)
+  if (backwards) page.reverse()
+
+  const keys = page.map(row => getSortKey(row, sort))
+  const entries = isKeysetSort(sort)
+    ? page
+    : await loadEntriesInOrder(
+        prisma,
+        page.map(row => row.id),
+        include
+      )
+
+  const pageInfo: ApiPageInfo = {
+    hasNextPage: backwards ? cursor.key !== undefined : hasMore,
+    hasPreviousPage: backwards ? hasMore : cursor.key !== undefined,
+    startCursor: keys.length > 0 ? encodeCursor(keys[0], sort) : null,
+    endCursor: keys.length > 0 ? encodeCursor(keys[keys.length - 1], sort) : null,
+  }
+
+  return { entries, pageInfo }
+}
+
+type SortCandidate = {
+  id: string
+  fieldValues: { fieldId: string; value: string | null }[]
+} & Record<string, unknown>
+
+/**
+ * IDs of the best search matches in rank order, or undefined without a search
+ */
+async function findRankedIds(prisma: PrismaClient, contentTypeId: string, search?: string) {
+  if (!search) return undefined
+  const { matches } = await findSearchMatches(prisma, search, { contentTypeIds: [contentTypeId] })
+  return matches.map(match => match.entryId)
+}
+
+/**
+ * Prisma `where` for a list query; search narrows it to the best matches
+ */
+async function resolveEntryWhere(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  filters: EntryListQuery['filters'],
+  rankedIds?: string[]
+) {
+  const filtered = await buildEntryWhere(prisma, contentTypeId, filters)
+  return rankedIds ? { ...filtered, id: { in: rankedIds } } : filtered
+}
+
+function getEntryInclude(fieldIds?: string[]) {
+  return {
+    fieldValues: {
+      where: fieldIds ? { fieldId: { in: fieldIds } } : undefined,
+      include: {
+        field: true,
+      },
+    },
+  }
+}
+
+type EntrySqlQuery = Parameters<typeof buildSortedEntryQuery>[1]
+
+async function findSortedEntryIds(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  query: EntrySqlQuery,
+  page: { limit: number; offset?: number }
+): Promise<string[]> {
+  const { sql, params } = buildSortedEntryQuery(contentTypeId, query, page)
+  const rows: { id: string }[] = await prisma.$queryRawUnsafe(sql, ...params)
+  return rows.map(row => row.id)
+}
+
+async function countEntries(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  query: EntrySqlQuery
+): Promise<number> {
+  const { sql, params } = buildEntryCountQuery(contentTypeId, query)
+  const [row]: { total: number | bigint }[] = await prisma.$queryRawUnsafe(sql, ...params)
+  return Number(row?.total ?? 0)
+}
+
+/**
+ * Entries with just the columns and field values needed for their sort keys, in the given order
+ */
+async function findSortCandidates(
+  prisma: PrismaClient,
+  ids: string[],
+  sort: EntrySort[]
+): Promise<SortCandidate[]> {
+  const sortFieldIds = sort.flatMap(order =>
+    typeof order.target === 'string' ? [] : [order.target.id]
+  )
+  const rows: SortCandidate[] = await prisma.contentEntry.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      createdAt: true,
+      updatedAt: true,
+      publishedAt: true,
+      scheduledAt: true,
+      slug: true,
+      status: true,
+      fieldValues: {
+        where: { fieldId: { in: sortFieldIds } },
+        select: { fieldId: true, value: true },
+      },
+    },
+  })
+  return inOrder(ids, rows)
+}
+
+async function loadEntriesInOrder(
+  prisma: PrismaClient,
+  ids: string[],
+  include: ReturnType<typeof getEntryInclude>
+) {
+  const rows = await prisma.contentEntry.findMany({
+    where: { id: { in: ids } },
+    include,
+  })
+  return inOrder<(typeof rows)[number]>(ids, rows)
+}
+
+/**
+ * Rows in the order of their IDs; entries deleted in the meantime are left out
+ */
+function inOrder<T extends { id: string }>(ids: string[], rows: T[]): T[] {
+  const byId = new Map(rows.map(row => [row.id, row]))
+  return ids.flatMap(id => byId.get(id) ?? [])
+}
+
+/**
+ * Get every entry of a content type, optionally limited to one status
+ */
+export async function getAllContentEntries(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  status?: ContentStatus
+) {
+  return await prisma.contentEntry.findMany({
+    where: { contentTypeId, status },
+    include: {
+      fieldValues: {
+        include: {
+          field: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
 /**
  * Get content entry by ID
  */
@@ -340,21 +681,94 @@ export async function getContentEntryById(prisma: PrismaClient, id: string) {
   })
 }
 
+/**
+ * Store a snapshot of an entry's slug, status, author and field values as its next revision
+ */
+export async function recordEntryRevision(
+  prisma: PrismaClient,
+  entry: {
+    id: string
+    slug: string | null
+    status: ContentStatus
+    authorId: string | null
+    fieldValues: { fieldId: string; value: string | null; field: { name: string } }[]
+  },
+  restoredFromId?: string
+) {
+  const latest = await prisma.contentEntryRevision.findFirst({
+    where: { entryId: entry.id },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+
+  return await prisma.contentEntryRevision.create({
+    data: {
+      entryId: entry.id,
+      version: (latest?.version ?? 0) + 1,
+      slug: entry.slug,
+      status: entry.status,
+      authorId: entry.authorId,
+      fieldValues: JSON.stringify(
+        entry.fieldValues.map(fv => ({
+          fieldId: fv.fieldId,
+          fieldName: fv.field.name,
+          value: fv.value ?? '',
+        }))
+      ),
+      restoredFromId,
+    },
+  })
+}
+
+/**
+ * Add the stored values of the fields an update leaves out
+ */
+async function mergeFieldValues(
+  prisma: PrismaClient,
+  entryId: string,
+  fieldValues: FieldValueInput[]
+) {
+  const stored: { fieldId: string; value: string | null }[] =
+    await prisma.contentFieldValue.findMany({ where: { entryId } })
+  const given = new Set(fieldValues.map(fv => fv.fieldId))
+
+  return [
+    ...stored
+      .filter(fv => !given.has(fv.fieldId))
+      .map(fv => ({ fieldId: fv.fieldId, value: fv.value })),
+    ...fieldValues,
+  ]
+}
+
 /**
  * Update content entry
+ *
+ * Field values are merged into the stored ones: fields left out of `fieldValues` keep their
+ * values, and a field is cleared by sending it with an empty value.
  */
 export async function updateContentEntry(
   prisma: PrismaClient,
   entryId: string,
-  data: Partial<CreateContentEntryData>
+  data: Partial<CreateContentEntryData>,
+  options: ActivityOptions & { restoredFromId?: string } = {}
 ) {
   const updateData: Record<string, unknown> = {}
+  const entry = await prisma.contentEntry.findUnique({
+    where: { id: entryId },
+  })
 
-  if (data.slug !== undefined) {
-    const entry = await prisma.contentEntry.findUnique({
-      where: { id: entryId },
-    })
+  // Validate before anything is written so a rejected update leaves the entry untouched
+  const fieldValues =
+    entry && data.fieldValues
+      ? await validateFieldValues(
+          prisma,
+          entry.contentTypeId,
+          await mergeFieldValues(prisma, entryId, data.fieldValues),
+          entryId
+        )
+      : undefined
 
+  if (data.slug !== undefined) {
     if (entry && data.slug) {
       let slug = data.slug
       let counter = 1
@@ -378,23 +792,162 @@ export async function updateContentEntry(
     }
   }
 
-  if (data.fieldValues) {
-    // Delete existing field values and create new ones
-    await prisma.contentFieldValue.deleteMany({
-      where: { entryId },
+  if (data.status !== undefined) updateData.status = data.status
+  if (data.publishedAt !== undefined) updateData.publishedAt = data.publishedAt
+  if (data.scheduledAt !== undefined) updateData.scheduledAt = data.scheduledAt
+  if (data.unpublishAt !== undefined) updateData.unpublishAt = data.unpublishAt
+  if (data.archiveAt !== undefined) updateData.archiveAt = data.archiveAt
+  if (data.authorId !== undefined) updateData.authorId = data.authorId
+
+  // Replace the field values in one transaction so a failed update keeps the old ones
+  const updated = await prisma.$transaction(async (tx: PrismaClient) => {
+    if (fieldValues) {
+      await tx.contentFieldValue.deleteMany({
+        where: { entryId },
+      })
+
+      updateData.fieldValues = {
+        create: fieldValues,
+      }
+    }
+
+    const updated = await tx.contentEntry.update({
+      where: { id: entryId },
+      data: updateData,
+      include: {
+        contentType: true,
+        fieldValues: {
+          include: {
+            field: true,
+          },
+        },
+      },
     })
 
-    updateData.fieldValues = {
-      create: data.fieldValues.map(fv => ({
-        fieldId: fv.fieldId,
-        value: typeof fv.value === 'string' ? fv.value : JSON.stringify(fv.value),
-      })),
+    if (fieldValues) {
+      await syncEntryRelations(tx, updated)
     }
+    return updated
+  })
+  await recordEntryRevision(prisma, updated, options.restoredFromId)
+  await recordEntryActivity(
+    prisma,
+    updated,
+    getEntryUpdateAction(entry?.status, updated.status, Boolean(options.restoredFromId)),
+    options.actor
+  )
+  await syncSearchIndex(prisma, [updated.id])
+  return updated
+}
+
+/**
+ * Delete content entry
+ *
+ * Relations pointing at the entry are resolved first: entries linked through `cascade` fields
+ * are deleted too, unless `canDelete` rejects one of them (a RelationPermissionError), and
+ * `restrict` fields or required `nullify` fields throw a RelationConstraintError.
+ */
+export async function deleteContentEntry(
+  prisma: PrismaClient,
+  entryId: string,
+  options: ActivityOptions & { canDelete?: DeleteAccess } = {}
+) {
+  const entry = await prisma.contentEntry.findUnique({
+    where: { id: entryId },
+    include: { contentType: true, fieldValues: { include: { field: true } } },
+  })
+  const doomed = await prepareEntryDeletion(prisma, [entryId], options.canDelete)
+  const cascaded = doomed.filter(id => id !== entryId)
+  if (cascaded.length > 0) {
+    await prisma.contentEntry.deleteMany({ where: { id: { in: cascaded } } })
   }
 
-  return await prisma.contentEntry.update({
+  const deleted = await prisma.contentEntry.delete({
     where: { id: entryId },
-    data: updateData,
+  })
+  if (entry) {
+    await recordEntryActivity(prisma, entry, 'deleted', options.actor)
+  }
+  await syncSearchIndex(prisma, doomed)
+  return deleted
+}
+
+/**
+ * Publish a content entry immediately
+ */
+export async function publishContentEntry(
+  prisma: PrismaClient,
+  entryId: string,
+  publishedAt: Date = new Date(),
+  options: ActivityOptions = {}
+) {
+  return await updateContentEntry(
+    prisma,
+    entryId,
+    { status: 'PUBLISHED', publishedAt, scheduledAt: null },
+    options
+  )
+}
+
+/**
+ * Move a published entry back to draft
+ */
+export async function unpublishContentEntry(
+  prisma: PrismaClient,
+  entryId: string,
+  options: ActivityOptions = {}
+) {
+  return await updateContentEntry(
+    prisma,
+    entryId,
+    { status: 'DRAFT', publishedAt: null, unpublishAt: null },
+    options
+  )
+}
+
+/**
+ * Schedule a content entry for publishing at a later date
+ */
+export async function scheduleContentEntry(
+  prisma: PrismaClient,
+  entryId: string,
+  scheduledAt: Date,
+  options: ActivityOptions = {}
+) {
+  return await updateContentEntry(prisma, entryId, { status: 'SCHEDULED', scheduledAt }, options)
+}
+
+/**
+ * Cancel a scheduled publish and return the entry to draft
+ */
+export async function unscheduleContentEntry(
+  prisma: PrismaClient,
+  entryId: string,
+  options: ActivityOptions = {}
+) {
+  return await updateContentEntry(prisma, entryId, { status: 'DRAFT', scheduledAt: null }, options)
+}
+
+/**
+ * Archive a content entry
+ */
+export async function archiveContentEntry(
+  prisma: PrismaClient,
+  entryId: string,
+  options: ActivityOptions = {}
+) {
+  return await updateContentEntry(prisma, entryId, { status: 'ARCHIVED', archiveAt: null }, options)
+}
+
+/**
+ * Get scheduled entries whose publish date has passed
+ */
+export async function getScheduledEntriesToPublish(prisma: PrismaClient, now: Date = new Date()) {
+  return await prisma.contentEntry.findMany({
+    where: {
+      status: 'SCHEDULED',
+      scheduledAt: { lte: now },
+    },
     include: {
       contentType: true,
       fieldValues: {
@@ -403,14 +956,32 @@ export async function updateContentEntry(
         },
       },
     },
+    orderBy: { scheduledAt: 'asc' },
   })
 }
 
 /**
- * Delete content entry
+ * Get published entries whose scheduled unpublish date has passed
  */
-export async function deleteContentEntry(prisma: PrismaClient, entryId: string) {
-  return await prisma.contentEntry.delete({
-    where: { id: entryId },
+export async function getScheduledEntriesToUnpublish(prisma: PrismaClient, now: Date = new Date()) {
+  return await prisma.contentEntry.findMany({
+    where: {
+      status: 'PUBLISHED',
+      unpublishAt: { lte: now },
+    },
+    orderBy: { unpublishAt: 'asc' },
+  })
+}
+
+/**
+ * Get entries whose scheduled archive date has passed and that are not archived yet
+ */
+export async function getScheduledEntriesToArchive(prisma: PrismaClient, now: Date = new Date()) {
+  return await prisma.contentEntry.findMany({
+    where: {
+      status: { not: 'ARCHIVED' },
+      archiveAt: { lte: now },
+    },
+    orderBy: { archiveAt: 'asc' },
   })
 }
@@ -0,0 +1,24 @@
+/**
+ * CSV output for the admin exports
+ */
+
+/** Leading characters that make spreadsheet applications read a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function toCsvValue(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value)
+  // Numbers are left alone so that negative values stay numbers
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Rows as CSV; values containing commas, quotes or line breaks are quoted, and text that a
+ * spreadsheet would run as a formula (starting with =, +, -, @, a tab or a carriage return) is
+ * prefixed with '
+ */
+export function toCsv(rows: unknown[][]): string {
+  return `${rows.map(row => row.map(toCsvValue).join(',')).join('\n')}\n`
+}
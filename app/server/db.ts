@@ -1,6 +1,8 @@
 // Graceful fallback for environments where Prisma client cannot be generated
 // (e.g., sandboxed environments with network restrictions)
 
+import { recordDbQuery } from './metrics'
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type PrismaClientType = any
 
@@ -28,11 +30,43 @@ try {
 
 const globalForPrisma = globalThis as unknown as { prisma?: PrismaClientType }
 
+/**
+ * Time every query for the Prisma query latency metric
+ */
+function withQueryMetrics(client: PrismaClientType): PrismaClientType {
+  if (typeof client.$extends !== 'function') return client
+
+  return client.$extends({
+    query: {
+      async $allOperations({
+        model,
+        operation,
+        args,
+        query,
+      }: {
+        model?: string
+        operation: string
+        args: unknown
+        query: (args: unknown) => Promise<unknown>
+      }) {
+        const startTime = Date.now()
+        try {
+          return await query(args)
+        } finally {
+          recordDbQuery(model, operation, Date.now() - startTime)
+        }
+      },
+    },
+  })
+}
+
 export const prisma =
   globalForPrisma.prisma ??
-  new PrismaClient({
-    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  })
+  withQueryMetrics(
+    new PrismaClient({
+      log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+    })
+  )
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
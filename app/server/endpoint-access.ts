@@ -0,0 +1,206 @@
+/**
+ * Enforcement of the per content type endpoint settings (see app/lib/endpoint-settings.ts)
+ *
+ * The API manager's auth middleware identifies the caller and stores it on the request; the
+ * REST router, search and the GraphQL resolvers then check each content type operation with
+ * checkEndpointAccess. Signed-in users are also held to the role permission matrix (see
+ * app/lib/permissions.ts) for operations that are not public.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { ApiResponseBuilder } from '../lib/api-response'
+import type { ApiResponse } from '../lib/api-manager'
+import { hasApiKeyScope, type ApiKeyInfo } from '../lib/api-keys'
+import {
+  ENDPOINT_OPERATIONS,
+  getDefaultAccess,
+  getEndpointSettings,
+  normalizeEndpointSettings,
+  isUserRole,
+  WRITE_OPERATIONS,
+  type EndpointOperation,
+  type EndpointSetting,
+  type EndpointSettings,
+} from '../lib/endpoint-settings'
+import { getPermissionScope, isActionAllowed, type EntryAction } from '../lib/permissions'
+import { hasPermission, type AuthUser } from './auth'
+import { getEffectiveRoles, getUserPermissions, userCan } from './permissions'
+import { findRoleByName } from './roles'
+
+/**
+ * Caller of an API request, set by the auth middleware
+ */
+export type RequestAuth = {
+  apiKey?: ApiKeyInfo
+  user?: AuthUser
+  /** Access of operations without an explicit access level */
+  defaultAccess: 'public' | 'authenticated'
+}
+
+type ContentTypeSettingsRow = {
+  slug: string
+  apiSettings?: string | null
+}
+
+export const AUTHENTICATION_REQUIRED_MESSAGE =
+  'Authentication required. Send an API key in the X-API-Key header or as Authorization: Bearer <key>'
+
+const OPERATION_ACTIONS: Record<EndpointOperation, EntryAction> = {
+  list: 'entry.read',
+  get: 'entry.read',
+  create: 'entry.create',
+  update: 'entry.update',
+  delete: 'entry.delete',
+}
+
+/**
+ * Check a signed-in user against the permission matrix; without an entry, grants limited to own
+ * entries pass so that the caller can repeat the check once the entry is loaded
+ */
+function checkUserPermission(
+  user: AuthUser,
+  slug: string,
+  operation: EndpointOperation,
+  entry?: { authorId: string | null }
+): ApiResponse | null {
+  const permissions = getUserPermissions(user)
+  const action = OPERATION_ACTIONS[operation]
+  const scope = getPermissionScope(permissions, action, slug)
+
+  if (scope === 'own' && !entry) {
+    return null
+  }
+  if (isActionAllowed(permissions, user.id, action, { contentType: slug, ...entry })) {
+    return null
+  }
+
+  return ApiResponseBuilder.error({
+    code: 'AUTHORIZATION_FAILED',
+    message:
+      scope === 'own'
+        ? `The ${operation} operation of "${slug}" is limited to entries you authored`
+        : `Your roles do not grant the ${operation} operation of "${slug}"`,
+    details: [`Required permission: ${action}`],
+  })
+}
+
+/**
+ * Whether a signed-in user has the role of a role-restricted operation: a built-in role or above,
+ * or a custom role, which admins have implicitly
+ */
+function hasEndpointRole(user: AuthUser, role: string): boolean {
+  if (isUserRole(role)) {
+    return hasPermission(user.role, role)
+  }
+  return user.role === 'ADMIN' || user.roles.includes(role)
+}
+
+/**
+ * Whether the caller may run `operation` on the content type; returns the error response to send
+ * otherwise
+ *
+ * Requests without auth information (API managers without the auth middleware) are anonymous.
+ * Pass the entry of update and delete operations to check ownership.
+ */
+export function checkEndpointAccess(
+  auth: RequestAuth | undefined,
+  contentType: ContentTypeSettingsRow,
+  operation: EndpointOperation,
+  entry?: { authorId: string | null }
+): ApiResponse | null {
+  const setting = getEndpointSettings(contentType)[operation]
+
+  if (!setting.enabled) {
+    return ApiResponseBuilder.error({
+      code: 'NOT_FOUND',
+      message: `The ${operation} operation is disabled for content type "${contentType.slug}"`,
+      details: [`Enable it in the API Manager to use this endpoint`],
+    })
+  }
+
+  const access = setting.access ?? getDefaultAccess(operation, auth?.defaultAccess ?? 'public')
+  if (access === 'public') {
+    return null
+  }
+
+  if (access === 'role') {
+    const role = setting.role ?? 'ADMIN'
+    if (auth?.user) {
+      return hasEndpointRole(auth.user, role)
+        ? checkUserPermission(auth.user, contentType.slug, operation, entry)
+        : ApiResponseBuilder.error({
+            code: 'AUTHORIZATION_FAILED',
+            message: `The ${operation} operation of "${contentType.slug}" requires the ${role} role`,
+            details: [`Current roles: ${getEffectiveRoles(auth.user).join(', ')}`],
+          })
+    }
+    if (auth?.apiKey) {
+      return ApiResponseBuilder.error({
+        code: 'AUTHORIZATION_FAILED',
+        message: `The ${operation} operation of "${contentType.slug}" requires a signed-in user with the ${role} role`,
+        details: ['API keys cannot be used for role-restricted operations'],
+      })
+    }
+    return ApiResponseBuilder.authRequired(AUTHENTICATION_REQUIRED_MESSAGE)
+  }
+
+  if (auth?.user) {
+    return checkUserPermission(auth.user, contentType.slug, operation, entry)
+  }
+  if (auth?.apiKey) {
+    const keyAccess = WRITE_OPERATIONS.includes(operation) ? 'write' : 'read'
+    return hasApiKeyScope(auth.apiKey.scopes, contentType.slug, keyAccess)
+      ? null
+      : ApiResponseBuilder.error({
+          code: 'AUTHORIZATION_FAILED',
+          message: `API key does not grant ${keyAccess} access to content type "${contentType.slug}"`,
+          details: [`Required scope: ${contentType.slug}:${keyAccess}`],
+        })
+  }
+  return ApiResponseBuilder.authRequired(AUTHENTICATION_REQUIRED_MESSAGE)
+}
+
+/**
+ * Whether the caller may read the drafts, scheduled and archived entries of a content type and
+ * their revisions: a signed-in user with read permission or an API key with read scope
+ *
+ * Public read operations only open the published entries to everyone else.
+ */
+export function canReadUnpublished(
+  auth: RequestAuth | undefined,
+  contentType: ContentTypeSettingsRow
+): boolean {
+  if (auth?.user) {
+    return userCan(auth.user, 'entry.read', { contentType: contentType.slug })
+  }
+  return !!auth?.apiKey && hasApiKeyScope(auth.apiKey.scopes, contentType.slug, 'read')
+}
+
+/**
+ * Validate and store the endpoint settings of a content type; roles must be built-in roles or
+ * existing custom roles
+ */
+export async function updateEndpointSettings(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  settings: Partial<Record<EndpointOperation, EndpointSetting>>
+): Promise<EndpointSettings> {
+  for (const [operation, setting] of Object.entries(settings ?? {})) {
+    if (!ENDPOINT_OPERATIONS.includes(operation as EndpointOperation)) {
+      throw new Error(`Unknown API operation: ${operation}`)
+    }
+    if (setting.access === 'role') {
+      const role = setting.role?.trim()
+      if (!role || (!isUserRole(role) && !(await findRoleByName(prisma, role)))) {
+        throw new Error(`Role-restricted ${operation} operation needs a valid role`)
+      }
+    }
+  }
+
+  const normalized = normalizeEndpointSettings(settings)
+  await prisma.contentType.update({
+    where: { id: contentTypeId },
+    data: { apiSettings: JSON.stringify(normalized) },
+  })
+  return normalized
+}
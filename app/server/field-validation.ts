@@ -0,0 +1,239 @@
+/**
+ * Server-side validation for content entry field values
+ * Checks every write against the content type's field definitions before it is persisted
+ */
+
+import bcrypt from 'bcryptjs'
+import { PrismaClient } from '@prisma/client'
+import { validateField, type ValidationOptions } from '../lib/validation/field-validators'
+import type { ApiFieldError } from '../lib/api-response'
+import { validateRelationValue } from './relation-utils'
+import { validateMediaValue } from './media-utils'
+
+export type FieldValueInput = {
+  fieldId: string
+  value: unknown
+}
+
+export type FieldDefinition = {
+  id: string
+  name: string
+  displayName: string
+  fieldType: string
+  required: boolean
+  unique: boolean
+  options: string | null
+  relatedType?: string | null
+}
+
+/**
+ * Thrown by entry writes whose field values fail validation
+ */
+export class FieldValidationError extends Error {
+  readonly fields: ApiFieldError[]
+
+  constructor(fields: ApiFieldError[]) {
+    super(fields.map(field => field.message).join('; ') || 'Validation failed')
+    this.name = 'FieldValidationError'
+    this.fields = fields
+  }
+}
+
+const PASSWORD_SALT_ROUNDS = 12
+const PASSWORD_HASH_PATTERN = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/
+
+const TRUE_VALUES = ['true', '1', 'yes', 'on']
+const FALSE_VALUES = ['false', '0', 'no', 'off']
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim())
+}
+
+function isPasswordHash(value: unknown): value is string {
+  return typeof value === 'string' && PASSWORD_HASH_PATTERN.test(value)
+}
+
+/**
+ * Read the validation rules stored in a field's JSON options column
+ */
+export function getFieldValidationOptions(field: FieldDefinition): ValidationOptions {
+  let options: Record<string, unknown> = {}
+  try {
+    options = field.options ? JSON.parse(field.options) : {}
+  } catch {
+    options = {}
+  }
+
+  const rules = (options.validation ?? {}) as ValidationOptions
+  return {
+    minLength: rules.minLength,
+    maxLength: rules.maxLength,
+    min: rules.min,
+    max: rules.max,
+    pattern: rules.pattern,
+    required: field.required,
+    unique: field.unique,
+  }
+}
+
+/**
+ * Convert a submitted value to the string stored in ContentFieldValue for the field type
+ */
+export function coerceFieldValue(
+  fieldType: string,
+  value: unknown
+): { value: string } | { error: string } {
+  if (isEmpty(value)) return { value: '' }
+
+  switch (fieldType) {
+    case 'NUMBER': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim())
+      if (typeof value === 'boolean' || !Number.isFinite(number)) {
+        return { error: 'must be a number' }
+      }
+      return { value: String(number) }
+    }
+    case 'BOOLEAN': {
+      if (typeof value === 'boolean') return { value: String(value) }
+      const normalized = String(value).trim().toLowerCase()
+      if (TRUE_VALUES.includes(normalized)) return { value: 'true' }
+      if (FALSE_VALUES.includes(normalized)) return { value: 'false' }
+      return { error: 'must be true or false' }
+    }
+    case 'DATE': {
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === 'string' || typeof value === 'number'
+            ? new Date(value)
+            : null
+      if (!date || isNaN(date.getTime())) {
+        return { error: 'must be a valid date' }
+      }
+      return { value: date.toISOString() }
+    }
+    case 'JSON': {
+      if (typeof value !== 'string') return { value: JSON.stringify(value) }
+      try {
+        JSON.parse(value)
+        return { value }
+      } catch {
+        return { error: 'must be valid JSON' }
+      }
+    }
+    default:
+      return { value: typeof value === 'string' ? value : JSON.stringify(value) }
+  }
+}
+
+/**
+ * Validate and coerce the field values of an entry write
+ *
+ * Values replace the entry's existing values as a whole, so every field of the content type
+ * is checked. `entryId` excludes the entry itself from unique checks on update. PASSWORD values
+ * are stored as bcrypt hashes; values that already are one are kept as they are.
+ */
+export async function validateFieldValues(
+  prisma: PrismaClient,
+  contentTypeId: string,
+  fieldValues: FieldValueInput[],
+  entryId?: string
+): Promise<{ fieldId: string; value: string }[]> {
+  const contentType = await prisma.contentType.findUnique({
+    where: { id: contentTypeId },
+    include: { fields: { orderBy: { order: 'asc' } } },
+  })
+
+  if (!contentType) {
+    throw new FieldValidationError([
+      { path: 'contentTypeId', message: `Content type '${contentTypeId}' does not exist` },
+    ])
+  }
+
+  const fields: FieldDefinition[] = contentType.fields
+  const errors: ApiFieldError[] = []
+  const values: { fieldId: string; value: string }[] = []
+
+  fieldValues.forEach((fv, index) => {
+    if (!fields.some(field => field.id === fv.fieldId)) {
+      errors.push({
+        path: `fieldValues[${index}].fieldId`,
+        message: `Field '${fv.fieldId}' does not exist on ${contentType.displayName}`,
+      })
+    }
+  })
+
+  for (const field of fields) {
+    const path = `fieldValues.${field.name}`
+    const provided = fieldValues.find(fv => fv.fieldId === field.id)
+
+    if (field.required && isEmpty(provided?.value)) {
+      errors.push({ path, message: `Field '${field.displayName}' is required` })
+      continue
+    }
+    if (!provided) continue
+
+    // Stored hashes come back unchanged from partial updates and revision restores
+    if (field.fieldType === 'PASSWORD' && isPasswordHash(provided.value)) {
+      values.push({ fieldId: field.id, value: provided.value })
+      continue
+    }
+
+    const coerced = coerceFieldValue(field.fieldType, provided.value)
+    if ('error' in coerced) {
+      errors.push({ path, message: `Field '${field.displayName}' ${coerced.error}` })
+      continue
+    }
+
+    const result = validateField(field.fieldType, coerced.value, getFieldValidationOptions(field))
+    if (!result.isValid) {
+      errors.push({ path, message: `Field '${field.displayName}': ${result.message}` })
+      continue
+    }
+
+    let value = coerced.value
+    if (field.fieldType === 'RELATION') {
+      const relation = await validateRelationValue(prisma, field, value, entryId)
+      if ('error' in relation) {
+        errors.push({ path, message: `Field '${field.displayName}' ${relation.error}` })
+        continue
+      }
+      value = relation.value
+    }
+    if (field.fieldType === 'MEDIA') {
+      const media = await validateMediaValue(prisma, field, value)
+      if ('error' in media) {
+        errors.push({ path, message: `Field '${field.displayName}' ${media.error}` })
+        continue
+      }
+      value = media.value
+    }
+
+    if (field.unique && value) {
+      const duplicate = await prisma.contentFieldValue.findFirst({
+        where: {
+          fieldId: field.id,
+          value,
+          ...(entryId ? { entryId: { not: entryId } } : {}),
+        },
+      })
+
+      if (duplicate) {
+        errors.push({ path, message: `Field '${field.displayName}' must be unique` })
+        continue
+      }
+    }
+
+    if (field.fieldType === 'PASSWORD' && value) {
+      value = await bcrypt.hash(value, PASSWORD_SALT_ROUNDS)
+    }
+
+    values.push({ fieldId: field.id, value })
+  }
+
+  if (errors.length > 0) {
+    throw new FieldValidationError(errors)
+  }
+
+  return values
+}
@@ -0,0 +1,266 @@
+/**
+ * GraphQL endpoint
+ * Serves /api/graphql: queries over GET or POST, mutations over POST only. The schema is
+ * generated from the content types and supports introspection for client code generation.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import {
+  execute,
+  getNamedType,
+  getOperationAST,
+  GraphQLError,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  parse,
+  specifiedRules,
+  validate,
+  type DocumentNode,
+  type ExecutionResult,
+  type FieldNode,
+  type GraphQLField,
+  type GraphQLNamedType,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule,
+} from 'graphql'
+import { ApiResponseBuilder } from '../lib/api-response'
+import type { ApiRequest, ApiResponse } from '../lib/api-manager'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './content-api'
+import { createGraphQLContext, getContentSchema } from './graphql-schema'
+
+/** Deepest field nesting of an operation; introspection fields are not counted */
+export const MAX_QUERY_DEPTH = 10
+
+/** Most fields an operation may resolve, counting every entry a list may return */
+export const MAX_QUERY_COMPLEXITY = 5000
+
+type GraphQLParams = {
+  query: string
+  variables?: Record<string, unknown>
+  operationName?: string
+}
+
+/**
+ * Execute a GraphQL request
+ *
+ * The response data is the GraphQL result (`{ data, errors }`). Syntax, validation and resolver
+ * errors are part of that result; only malformed requests fail the API response itself.
+ */
+export async function routeGraphQLRequest(
+  prisma: PrismaClient,
+  request: ApiRequest
+): Promise<ApiResponse> {
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return ApiResponseBuilder.methodNotAllowed(request.method, request.path)
+  }
+
+  const params = parseGraphQLParams(request.method === 'GET' ? request.query : request.body)
+  if ('errors' in params) {
+    return ApiResponseBuilder.validationError(params.errors, 'Invalid GraphQL request')
+  }
+
+  const schema = await getContentSchema(prisma)
+
+  let document: DocumentNode
+  try {
+    document = parse(params.query)
+  } catch (error) {
+    return graphQLResult({ errors: [error as GraphQLError] })
+  }
+
+  const validationErrors = validate(schema, document, [...specifiedRules, QueryCostRule])
+  if (validationErrors.length > 0) {
+    return graphQLResult({ errors: validationErrors })
+  }
+
+  const operation = getOperationAST(document, params.operationName)
+  if (request.method === 'GET' && operation?.operation === 'mutation') {
+    return ApiResponseBuilder.error({
+      code: 'METHOD_NOT_ALLOWED',
+      message: 'Mutations must be sent with POST',
+      details: ['GET requests can only execute queries'],
+    })
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    variableValues: params.variables,
+    operationName: params.operationName,
+    contextValue: createGraphQLContext(prisma, request.auth, new Headers(request.headers)),
+  })
+
+  return graphQLResult(result)
+}
+
+/**
+ * Reject operations nested deeper than MAX_QUERY_DEPTH or costing more than MAX_QUERY_COMPLEXITY
+ * before they run
+ *
+ * Every field costs one. The selection of a field with a `limit` argument is counted once per
+ * entry it may return: the literal limit, the default page size without one, or the largest
+ * page size when the limit is a variable. Multiple relation fields count their selection
+ * RELATION_LIST_SIZE times, so nested many-to-many fan-out grows the cost at every level.
+ */
+const QueryCostRule: ValidationRule = context => ({
+  OperationDefinition(node) {
+    const rootType = context.getSchema().getRootType(node.operation) ?? undefined
+    const { depth, cost } = measureSelection(context, node.selectionSet, rootType, new Set())
+    const error =
+      depth > MAX_QUERY_DEPTH
+        ? `Query depth ${depth} exceeds the maximum of ${MAX_QUERY_DEPTH}`
+        : cost > MAX_QUERY_COMPLEXITY
+          ? `Query complexity ${cost} exceeds the maximum of ${MAX_QUERY_COMPLEXITY}`
+          : null
+    if (error) {
+      context.reportError(
+        new GraphQLError(error, { nodes: [node], extensions: { code: 'QUERY_TOO_COMPLEX' } })
+      )
+    }
+  },
+})
+
+function measureSelection(
+  context: ValidationContext,
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLNamedType | undefined,
+  fragments: Set<string>
+): { depth: number; cost: number } {
+  let depth = 0
+  let cost = 0
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith('__')) continue
+
+      const field =
+        isObjectType(parentType) || isInterfaceType(parentType)
+          ? parentType.getFields()[selection.name.value]
+          : undefined
+      const nested = selection.selectionSet
+        ? measureSelection(
+            context,
+            selection.selectionSet,
+            field && getNamedType(field.type),
+            fragments
+          )
+        : { depth: 0, cost: 0 }
+      depth = Math.max(depth, nested.depth + 1)
+      cost += 1 + getEntryLimit(selection, field) * nested.cost
+      continue
+    }
+
+    // Fragments already being measured are skipped; NoFragmentCyclesRule reports the cycle
+    const name = selection.kind === Kind.FRAGMENT_SPREAD ? selection.name.value : undefined
+    const fragment =
+      selection.kind === Kind.FRAGMENT_SPREAD
+        ? context.getFragment(selection.name.value)
+        : selection
+    if (!fragment || (name && fragments.has(name))) continue
+
+    const typeName = fragment.typeCondition?.name.value
+    const nested = measureSelection(
+      context,
+      fragment.selectionSet,
+      typeName ? context.getSchema().getType(typeName) : parentType,
+      name ? new Set([...fragments, name]) : fragments
+    )
+    depth = Math.max(depth, nested.depth)
+    cost += nested.cost
+  }
+
+  return { depth, cost }
+}
+
+/**
+ * Entries a field may return for its selection: its `limit`, the list size of multiple
+ * relations, or one for other fields
+ */
+function getEntryLimit(selection: FieldNode, field?: GraphQLField<unknown, unknown>): number {
+  if (!field?.args.some(argument => argument.name === 'limit')) {
+    const listSize = field?.extensions.listSize
+    return typeof listSize === 'number' ? listSize : 1
+  }
+
+  const limit = selection.arguments?.find(argument => argument.name.value === 'limit')?.value
+  if (!limit) return DEFAULT_PAGE_SIZE
+  return limit.kind === Kind.INT
+    ? Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit.value)))
+    : MAX_PAGE_SIZE
+}
+
+/**
+ * Read `query`, `variables` and `operationName` from a JSON body or from query parameters,
+ * where `variables` is a JSON string
+ */
+function parseGraphQLParams(source: unknown): GraphQLParams | { errors: string[] } {
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return { errors: ['Request must contain a GraphQL query'] }
+  }
+
+  const { query, operationName } = source as Record<string, unknown>
+  let { variables } = source as Record<string, unknown>
+  const errors: string[] = []
+
+  if (typeof query !== 'string' || !query.trim()) {
+    errors.push('query must be a non-empty string')
+  }
+  if (operationName !== undefined && operationName !== null && typeof operationName !== 'string') {
+    errors.push('operationName must be a string')
+  }
+
+  if (typeof variables === 'string') {
+    try {
+      variables = variables ? JSON.parse(variables) : undefined
+    } catch {
+      variables = undefined
+      errors.push('variables must be valid JSON')
+    }
+  }
+  if (
+    variables !== undefined &&
+    variables !== null &&
+    (typeof variables !== 'object' || Array.isArray(variables))
+  ) {
+    errors.push('variables must be an object')
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  return {
+    query: query as string,
+    variables: (variables as Record<string, unknown> | null) ?? undefined,
+    operationName: (operationName as string | null) ?? undefined,
+  }
+}
+
+/**
+ * Wrap a GraphQL result; unexpected resolver errors are logged and reported without details
+ */
+function graphQLResult(result: ExecutionResult): ApiResponse {
+  const errors = result.errors?.map(error => {
+    if (!error.originalError || error.originalError instanceof GraphQLError) {
+      return error.toJSON()
+    }
+
+    console.error('GraphQL resolver error:', error.originalError)
+    return {
+      message: 'Internal server error',
+      locations: error.locations,
+      path: error.path,
+      extensions: { code: 'INTERNAL_SERVER_ERROR' },
+    }
+  })
+
+  return ApiResponseBuilder.success({
+    message: errors ? 'GraphQL request completed with errors' : 'GraphQL request executed',
+    data: {
+      ...(result.data !== undefined && { data: result.data }),
+      ...(errors && { errors }),
+    },
+  })
+}
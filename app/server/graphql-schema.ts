@@ -0,0 +1,1079 @@
+/**
+ * GraphQL schema generated from the content types
+ * Every content type becomes an object type with one field per ContentField, a single-entry
+ * query, a list query with the filters, sorting and pagination of the REST list endpoint and
+ * create/update/delete mutations that go through the same validation as REST writes.
+ * The schema is rebuilt whenever a content type or one of its fields changes.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind,
+  valueFromASTUntyped,
+  type GraphQLFieldConfig,
+  type GraphQLFieldConfigMap,
+  type GraphQLInputFieldConfigMap,
+  type GraphQLInputType,
+} from 'graphql'
+import type { EndpointOperation } from '../lib/endpoint-settings'
+import type { MediaReference } from '../lib/media-fields'
+import { parseMediaValue } from '../lib/media-fields'
+import { isMultipleRelation, parseRelationValue } from '../lib/relations'
+import { getRequestActor, type ActivityActor } from './activity'
+import {
+  createContentEntry,
+  deleteContentEntry,
+  getContentEntries,
+  getContentEntriesByCursor,
+  getContentEntryById,
+  updateContentEntry,
+} from './content-type-utils'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './content-api'
+import { parseEntryListQuery, withPublishedOnly } from './content-query'
+import { canReadUnpublished, checkEndpointAccess, type RequestAuth } from './endpoint-access'
+import { FieldValidationError } from './field-validation'
+import { getMediaSrcSet } from './image-transform'
+import { getFieldMediaOptions, getMediaByIds, parseMediaFormats } from './media-utils'
+import {
+  getFieldRelationOptions,
+  RelationConstraintError,
+  RelationPermissionError,
+  type DeleteAccess,
+} from './relation-utils'
+import { securityAudit } from './security-auth'
+import type { AuditEvent } from '../lib/audit-log'
+
+type SchemaField = {
+  id: string
+  name: string
+  displayName: string
+  fieldType: string
+  required: boolean
+  options: string | null
+  relatedType: string | null
+}
+
+type SchemaContentType = {
+  id: string
+  name: string
+  slug: string
+  displayName: string
+  description: string | null
+  apiSettings?: string | null
+  fields: SchemaField[]
+}
+
+type GraphQLEntry = {
+  id: string
+  contentTypeId: string
+  authorId?: string | null
+  status: string
+  fieldValues: { fieldId: string; value: string | null }[]
+}
+
+/**
+ * Per-request state shared by the resolvers: related entries and media are loaded in batches
+ */
+export type GraphQLContext = {
+  prisma: PrismaClient
+  /**
+   * Throw when the caller may not run the operation under the content type's endpoint settings
+   * or the user's permissions; pass the entry of updates and deletes to check ownership
+   */
+  authorize: (
+    contentType: SchemaContentType,
+    operation: EndpointOperation,
+    entry?: { authorId: string | null }
+  ) => void
+  /**
+   * Whether the caller may get entries of the content type, or this entry of it; related entries
+   * the caller may not read are left out of relation fields
+   */
+  canRead: (
+    contentType: SchemaContentType,
+    entry?: { authorId?: string | null; status: string }
+  ) => boolean
+  /** Whether the caller may read the unpublished entries of the content type */
+  canReadUnpublished: (contentType: SchemaContentType) => boolean
+  /** Whether the caller may delete entries that cascade with a deleted entry */
+  canDelete: DeleteAccess
+  /** Signed-in caller, recorded as the author of created entries */
+  userId?: string
+  /** User or API key recorded in the activity stream for entry writes */
+  actor: ActivityActor
+  /** Record an entry write in the audit log with the caller and request headers */
+  audit: (event: AuditEvent, details: Record<string, unknown>) => Promise<void>
+  loadEntry: (id: string) => Promise<GraphQLEntry | null>
+  loadMedia: (id: string) => Promise<MediaReference | null>
+}
+
+/**
+ * A content field as exposed in the schema
+ */
+type FieldMapping = {
+  field: SchemaField
+  /** GraphQL name; the field name unless it is invalid or taken by an entry column */
+  name: string
+}
+
+type TypeMapping = {
+  contentType: SchemaContentType
+  typeName: string
+  fields: FieldMapping[]
+}
+
+const ENTRY_COLUMNS = [
+  'id',
+  'slug',
+  'status',
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'scheduledAt',
+]
+
+/**
+ * Entries the query cost rule counts for each multiple relation field, which has no `limit`
+ * (see QueryCostRule in app/server/graphql-api.ts)
+ */
+export const RELATION_LIST_SIZE = DEFAULT_PAGE_SIZE
+
+/** Suffixes of the types generated for every content type */
+const TYPE_SUFFIXES = ['', 'List', 'Filter', 'Sort', 'SortField', 'CreateInput', 'UpdateInput']
+
+const schemaCache = new WeakMap<PrismaClient, { signature: string; schema: GraphQLSchema }>()
+
+const DateTimeScalar = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'ISO 8601 date and time',
+  serialize: value => (value instanceof Date ? value.toISOString() : String(value)),
+  parseValue: value => parseDateTime(value),
+  parseLiteral: ast => parseDateTime(ast.kind === Kind.STRING ? ast.value : null),
+})
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+  serialize: value => value,
+  parseValue: value => value,
+  parseLiteral: ast => valueFromASTUntyped(ast),
+})
+
+const EntryStatusEnum = new GraphQLEnumType({
+  name: 'EntryStatus',
+  values: { DRAFT: {}, PUBLISHED: {}, SCHEDULED: {}, ARCHIVED: {} },
+})
+
+const SortDirectionEnum = new GraphQLEnumType({
+  name: 'SortDirection',
+  values: { asc: {}, desc: {} },
+})
+
+const PageInfoType = new GraphQLObjectType({
+  name: 'PageInfo',
+  fields: {
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    startCursor: { type: GraphQLString },
+    endCursor: { type: GraphQLString },
+  },
+})
+
+const MediaType = new GraphQLObjectType({
+  name: 'Media',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLID) },
+    url: { type: new GraphQLNonNull(GraphQLString) },
+    altText: { type: GraphQLString },
+    mimeType: { type: new GraphQLNonNull(GraphQLString) },
+    size: { type: new GraphQLNonNull(GraphQLInt) },
+    width: { type: GraphQLInt },
+    height: { type: GraphQLInt },
+    formats: { type: JSONScalar },
+    srcSet: { type: GraphQLString },
+  },
+})
+
+const ContentTypeInfoType = new GraphQLObjectType({
+  name: 'ContentTypeInfo',
+  fields: {
+    slug: { type: new GraphQLNonNull(GraphQLString) },
+    displayName: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    typeName: { type: new GraphQLNonNull(GraphQLString) },
+  },
+})
+
+/**
+ * Comparison operators of the REST `filter[field][op]` parameter, typed per value kind
+ */
+function createFilterType(name: string, type: GraphQLInputType, operators: string[]) {
+  const fields: GraphQLInputFieldConfigMap = {}
+  for (const operator of operators) {
+    fields[operator] =
+      operator === 'in'
+        ? { type: new GraphQLList(new GraphQLNonNull(type)) }
+        : { type: operator === 'null' ? GraphQLBoolean : type }
+  }
+  return new GraphQLInputObjectType({ name, fields })
+}
+
+const FILTER_TYPES = {
+  string: createFilterType('StringFilter', GraphQLString, [
+    'eq',
+    'ne',
+    'lt',
+    'lte',
+    'gt',
+    'gte',
+    'in',
+    'contains',
+    'startsWith',
+    'null',
+  ]),
+  number: createFilterType('NumberFilter', GraphQLFloat, [
+    'eq',
+    'ne',
+    'lt',
+    'lte',
+    'gt',
+    'gte',
+    'in',
+    'null',
+  ]),
+  boolean: createFilterType('BooleanFilter', GraphQLBoolean, ['eq', 'ne', 'null']),
+  date: createFilterType('DateFilter', DateTimeScalar, [
+    'eq',
+    'ne',
+    'lt',
+    'lte',
+    'gt',
+    'gte',
+    'null',
+  ]),
+  status: createFilterType('StatusFilter', EntryStatusEnum, ['eq', 'ne', 'in']),
+}
+
+const COLUMN_FILTERS: Record<string, GraphQLInputObjectType> = {
+  id: FILTER_TYPES.string,
+  slug: FILTER_TYPES.string,
+  status: FILTER_TYPES.status,
+  createdAt: FILTER_TYPES.date,
+  updatedAt: FILTER_TYPES.date,
+  publishedAt: FILTER_TYPES.date,
+  scheduledAt: FILTER_TYPES.date,
+}
+
+const RESERVED_TYPE_NAMES = new Set([
+  'Query',
+  'Mutation',
+  'String',
+  'Int',
+  'Float',
+  'Boolean',
+  'ID',
+  'ContentTypes',
+  ...[
+    DateTimeScalar,
+    JSONScalar,
+    EntryStatusEnum,
+    SortDirectionEnum,
+    PageInfoType,
+    MediaType,
+    ContentTypeInfoType,
+    ...Object.values(FILTER_TYPES),
+  ].map(type => type.name),
+])
+
+function parseDateTime(value: unknown): string {
+  const date = typeof value === 'string' ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new GraphQLError('DateTime must be an ISO 8601 date string')
+  }
+  return date.toISOString()
+}
+
+/**
+ * GraphQL type name of a content type slug, e.g. `blog-post` → `BlogPost`
+ */
+export function toTypeName(slug: string): string {
+  const name = slug
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('')
+  return /^[A-Za-z]/.test(name) ? name : `Type${name}`
+}
+
+/**
+ * GraphQL name of a content field: invalid characters become underscores and names of entry
+ * columns get a `Field` suffix
+ */
+export function toFieldName(name: string): string {
+  let fieldName = name.replace(/[^A-Za-z0-9_]/g, '_')
+  if (!/^[A-Za-z_]/.test(fieldName) || fieldName.startsWith('__')) {
+    fieldName = `f${fieldName}`
+  }
+  return ENTRY_COLUMNS.includes(fieldName) ? `${fieldName}Field` : fieldName
+}
+
+function lowerFirst(name: string) {
+  return name[0].toLowerCase() + name.slice(1)
+}
+
+/**
+ * Load content types with their fields in a stable order
+ */
+async function loadContentTypes(prisma: PrismaClient): Promise<SchemaContentType[]> {
+  return await prisma.contentType.findMany({
+    include: { fields: { orderBy: { order: 'asc' } } },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * Everything the generated schema depends on; the schema is rebuilt when it changes
+ */
+function getSchemaSignature(contentTypes: SchemaContentType[]): string {
+  return JSON.stringify(
+    contentTypes.map(contentType => [
+      contentType.id,
+      contentType.slug,
+      contentType.displayName,
+      contentType.description,
+      contentType.apiSettings,
+      contentType.fields.map(field => [
+        field.id,
+        field.name,
+        field.displayName,
+        field.fieldType,
+        field.required,
+        field.options,
+        field.relatedType,
+      ]),
+    ])
+  )
+}
+
+/**
+ * The GraphQL schema for the current content types
+ *
+ * The content types are read on every call, so changes made in the content type builder are
+ * picked up by the next request; the schema itself is only rebuilt when they differ.
+ */
+export async function getContentSchema(prisma: PrismaClient): Promise<GraphQLSchema> {
+  const contentTypes = await loadContentTypes(prisma)
+  const signature = getSchemaSignature(contentTypes)
+
+  const cached = schemaCache.get(prisma)
+  if (cached?.signature === signature) {
+    return cached.schema
+  }
+
+  const schema = buildContentSchema(contentTypes)
+  schemaCache.set(prisma, { signature, schema })
+  return schema
+}
+
+/**
+ * Context for one GraphQL request
+ */
+export function createGraphQLContext(
+  prisma: PrismaClient,
+  auth?: RequestAuth,
+  headers: Headers = new Headers()
+): GraphQLContext {
+  return {
+    prisma,
+    userId: auth?.user?.id,
+    actor: getRequestActor(auth),
+    audit: (event, details) =>
+      securityAudit.log(event, { headers }, auth?.user?.id, true, {
+        ...details,
+        ...(auth?.apiKey && { apiKeyId: auth.apiKey.id }),
+        source: 'graphql',
+      }),
+    authorize: (contentType, operation, entry) => {
+      const denied = checkEndpointAccess(auth, contentType, operation, entry)
+      if (denied) {
+        throw new GraphQLError(denied.message, { extensions: { code: denied.error?.code } })
+      }
+    },
+    canRead: (contentType, entry) =>
+      !checkEndpointAccess(
+        auth,
+        contentType,
+        'get',
+        entry && { authorId: entry.authorId ?? null }
+      ) &&
+      (!entry || entry.status === 'PUBLISHED' || canReadUnpublished(auth, contentType)),
+    canReadUnpublished: contentType => canReadUnpublished(auth, contentType),
+    canDelete: (contentType, entry) => !checkEndpointAccess(auth, contentType, 'delete', entry),
+    loadEntry: createBatchLoader(async ids => {
+      const entries: GraphQLEntry[] = await prisma.contentEntry.findMany({
+        where: { id: { in: ids } },
+        include: { fieldValues: { include: { field: true } } },
+      })
+      return new Map(entries.map(entry => [entry.id, entry]))
+    }),
+    loadMedia: createBatchLoader(async ids => {
+      const rows: {
+        id: string
+        url: string
+        altText: string | null
+        mimeType: string
+        size: number
+        width: number | null
+        height: number | null
+        formats: string | null
+      }[] = await getMediaByIds(prisma, ids)
+      return new Map(
+        rows.map(item => [
+          item.id,
+          {
+            id: item.id,
+            url: item.url,
+            altText: item.altText ?? null,
+            mimeType: item.mimeType,
+            size: item.size,
+            width: item.width ?? null,
+            height: item.height ?? null,
+            formats: parseMediaFormats(item.formats),
+            srcSet: getMediaSrcSet(item),
+          },
+        ])
+      )
+    }),
+  }
+}
+
+/**
+ * Collect the IDs requested in the same tick and load them with a single query
+ */
+function createBatchLoader<T>(load: (ids: string[]) => Promise<Map<string, T>>) {
+  const cache = new Map<string, Promise<T | null>>()
+  let queue: string[] = []
+  let batch: Promise<Map<string, T>> | null = null
+
+  return (id: string): Promise<T | null> => {
+    const cached = cache.get(id)
+    if (cached) return cached
+
+    if (!batch) {
+      batch = Promise.resolve().then(() => {
+        const ids = queue
+        queue = []
+        batch = null
+        return load(ids)
+      })
+    }
+    queue.push(id)
+
+    const result = batch.then(found => found.get(id) ?? null)
+    cache.set(id, result)
+    return result
+  }
+}
+
+/**
+ * Assign type names and GraphQL field names, avoiding collisions between content types
+ */
+function mapContentTypes(contentTypes: SchemaContentType[]): TypeMapping[] {
+  const usedTypeNames = new Set(RESERVED_TYPE_NAMES)
+
+  return contentTypes.map(contentType => {
+    const base = toTypeName(contentType.slug)
+    let typeName = base
+    let counter = 1
+    while (TYPE_SUFFIXES.some(suffix => usedTypeNames.has(typeName + suffix))) {
+      typeName = `${base}Entry${counter > 1 ? counter : ''}`
+      counter++
+    }
+    TYPE_SUFFIXES.forEach(suffix => usedTypeNames.add(typeName + suffix))
+
+    const usedFieldNames = new Set(ENTRY_COLUMNS)
+    const fields: FieldMapping[] = []
+    for (const field of contentType.fields) {
+      const name = toFieldName(field.name)
+      if (usedFieldNames.has(name)) continue
+      usedFieldNames.add(name)
+      fields.push({ field, name })
+    }
+
+    return { contentType, typeName, fields }
+  })
+}
+
+/**
+ * Build the schema for a set of content types
+ */
+export function buildContentSchema(contentTypes: SchemaContentType[]): GraphQLSchema {
+  const mappings = mapContentTypes(contentTypes)
+  const objectTypes = new Map<string, GraphQLObjectType>()
+
+  const findRelatedMapping = (relatedType: string | null) =>
+    mappings.find(
+      mapping =>
+        mapping.contentType.slug === relatedType ||
+        mapping.contentType.name === relatedType ||
+        mapping.contentType.id === relatedType
+    )
+
+  for (const mapping of mappings) {
+    objectTypes.set(
+      mapping.contentType.id,
+      new GraphQLObjectType({
+        name: mapping.typeName,
+        description: mapping.contentType.description || mapping.contentType.displayName,
+        fields: () => buildEntryFields(mapping),
+      })
+    )
+  }
+
+  function buildEntryFields(
+    mapping: TypeMapping
+  ): GraphQLFieldConfigMap<GraphQLEntry, GraphQLContext> {
+    const fields: GraphQLFieldConfigMap<GraphQLEntry, GraphQLContext> = {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      slug: { type: GraphQLString },
+      status: { type: new GraphQLNonNull(EntryStatusEnum) },
+      createdAt: { type: new GraphQLNonNull(DateTimeScalar) },
+      updatedAt: { type: new GraphQLNonNull(DateTimeScalar) },
+      publishedAt: { type: DateTimeScalar },
+      scheduledAt: { type: DateTimeScalar },
+    }
+
+    for (const { field, name } of mapping.fields) {
+      const config = buildFieldOutput(field)
+      if (config) {
+        fields[name] = { ...config, description: field.displayName }
+      }
+    }
+    return fields
+  }
+
+  function buildFieldOutput(
+    field: SchemaField
+  ): GraphQLFieldConfig<GraphQLEntry, GraphQLContext> | null {
+    const readValue = (entry: GraphQLEntry) =>
+      entry.fieldValues.find(fv => fv.fieldId === field.id)?.value ?? null
+
+    switch (field.fieldType) {
+      case 'PASSWORD':
+        return null
+      case 'NUMBER':
+        return {
+          type: GraphQLFloat,
+          resolve: entry => {
+            const value = readValue(entry)
+            return value ? Number(value) : null
+          },
+        }
+      case 'BOOLEAN':
+        return {
+          type: GraphQLBoolean,
+          resolve: entry => {
+            const value = readValue(entry)
+            return value ? value === 'true' : null
+          },
+        }
+      case 'DATE':
+        return { type: DateTimeScalar, resolve: entry => readValue(entry) || null }
+      case 'JSON':
+        return {
+          type: JSONScalar,
+          resolve: entry => {
+            const value = readValue(entry)
+            if (!value) return null
+            try {
+              return JSON.parse(value)
+            } catch {
+              return value
+            }
+          },
+        }
+      case 'MEDIA': {
+        const multiple = getFieldMediaOptions(field).multiple
+        return {
+          type: multiple
+            ? new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(MediaType)))
+            : MediaType,
+          resolve: async (entry, _args, context) => {
+            const media = await Promise.all(
+              parseMediaValue(readValue(entry)).map(context.loadMedia)
+            )
+            const found = media.filter(item => item !== null)
+            return multiple ? found : (found[0] ?? null)
+          },
+        }
+      }
+      case 'RELATION': {
+        const related = findRelatedMapping(field.relatedType)
+        if (!related) return null
+
+        const relatedType = objectTypes.get(related.contentType.id)!
+        const multiple = isMultipleRelation(getFieldRelationOptions(field).kind)
+        return {
+          type: multiple
+            ? new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(relatedType)))
+            : relatedType,
+          extensions: multiple ? { listSize: RELATION_LIST_SIZE } : undefined,
+          resolve: async (entry, _args, context) => {
+            if (!context.canRead(related.contentType)) {
+              return multiple ? [] : null
+            }
+            const entries = await Promise.all(
+              parseRelationValue(readValue(entry)).map(context.loadEntry)
+            )
+            const found = entries.filter(
+              item =>
+                item !== null &&
+                item.contentTypeId === related.contentType.id &&
+                context.canRead(related.contentType, item)
+            )
+            return multiple ? found : (found[0] ?? null)
+          },
+        }
+      }
+      default:
+        return { type: GraphQLString, resolve: entry => readValue(entry) || null }
+    }
+  }
+
+  const queryFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {
+    contentTypes: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ContentTypeInfoType))),
+      description: 'Content types exposed by this schema',
+      resolve: () =>
+        mappings.map(mapping => ({
+          slug: mapping.contentType.slug,
+          displayName: mapping.contentType.displayName,
+          description: mapping.contentType.description,
+          typeName: mapping.typeName,
+        })),
+    },
+  }
+  const mutationFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {}
+
+  for (const mapping of mappings) {
+    const objectType = objectTypes.get(mapping.contentType.id)!
+    const queryName = lowerFirst(mapping.typeName)
+
+    queryFields[queryName] = buildEntryQuery(mapping, objectType)
+    queryFields[`${queryName}List`] = buildListQuery(mapping, objectType)
+
+    mutationFields[`create${mapping.typeName}`] = buildCreateMutation(mapping, objectType)
+    mutationFields[`update${mapping.typeName}`] = buildUpdateMutation(mapping, objectType)
+    mutationFields[`delete${mapping.typeName}`] = buildDeleteMutation(mapping)
+  }
+
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+    mutation:
+      mappings.length > 0
+        ? new GraphQLObjectType({ name: 'Mutation', fields: mutationFields })
+        : undefined,
+  })
+}
+
+/**
+ * Load an entry of the content type, treating entries of other types as missing
+ */
+async function findEntry(prisma: PrismaClient, mapping: TypeMapping, id: string) {
+  const entry = await getContentEntryById(prisma, id)
+  return entry && entry.contentTypeId === mapping.contentType.id ? entry : null
+}
+
+function buildEntryQuery(
+  mapping: TypeMapping,
+  objectType: GraphQLObjectType
+): GraphQLFieldConfig<unknown, GraphQLContext, { id: string }> {
+  return {
+    type: objectType,
+    description: `A single ${mapping.contentType.displayName} entry`,
+    args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+    resolve: async (_source, args, context) => {
+      context.authorize(mapping.contentType, 'get')
+      const entry = await findEntry(context.prisma, mapping, args.id)
+      return entry &&
+        (entry.status === 'PUBLISHED' || context.canReadUnpublished(mapping.contentType))
+        ? entry
+        : null
+    },
+  }
+}
+
+type ListArgs = {
+  filter?: Record<string, Record<string, unknown> | null> | null
+  sort?: { field: string; direction?: string | null }[] | null
+  status?: string[] | null
+  search?: string | null
+  page?: number | null
+  limit?: number | null
+  after?: string | null
+  before?: string | null
+}
+
+function buildListQuery(
+  mapping: TypeMapping,
+  objectType: GraphQLObjectType
+): GraphQLFieldConfig<unknown, GraphQLContext, ListArgs> {
+  const { contentType, typeName } = mapping
+  const filterNames = new Map<string, string>(ENTRY_COLUMNS.map(column => [column, column]))
+  const filterFields: GraphQLInputFieldConfigMap = Object.fromEntries(
+    ENTRY_COLUMNS.map(column => [column, { type: COLUMN_FILTERS[column] }])
+  )
+  for (const { field, name } of mapping.fields) {
+    if (field.fieldType === 'PASSWORD') continue
+    filterNames.set(name, field.name)
+    filterFields[name] = {
+      type: getFieldFilterType(field.fieldType),
+      description: field.displayName,
+    }
+  }
+
+  const sortField = new GraphQLEnumType({
+    name: `${typeName}SortField`,
+    values: Object.fromEntries([...filterNames].map(([name, target]) => [name, { value: target }])),
+  })
+
+  const listType = new GraphQLObjectType({
+    name: `${typeName}List`,
+    fields: {
+      entries: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(objectType))) },
+      total: { type: GraphQLInt, description: 'Matching entries; null with cursor pagination' },
+      page: { type: GraphQLInt },
+      totalPages: { type: GraphQLInt },
+      pageInfo: { type: new GraphQLNonNull(PageInfoType) },
+    },
+  })
+
+  return {
+    type: new GraphQLNonNull(listType),
+    description: `List ${contentType.displayName} entries; \`after\`/\`before\` switch to cursor pagination`,
+    args: {
+      filter: {
+        type: new GraphQLInputObjectType({ name: `${typeName}Filter`, fields: filterFields }),
+      },
+      sort: {
+        type: new GraphQLList(
+          new GraphQLNonNull(
+            new GraphQLInputObjectType({
+              name: `${typeName}Sort`,
+              fields: {
+                field: { type: new GraphQLNonNull(sortField) },
+                direction: { type: SortDirectionEnum, defaultValue: 'asc' },
+              },
+            })
+          )
+        ),
+      },
+      status: { type: new GraphQLList(new GraphQLNonNull(EntryStatusEnum)) },
+      search: { type: GraphQLString },
+      page: { type: GraphQLInt },
+      limit: { type: GraphQLInt },
+      after: { type: GraphQLString },
+      before: { type: GraphQLString },
+    },
+    resolve: async (_source, args, context) => {
+      context.authorize(contentType, 'list')
+      const query = toListQueryParams(args, filterNames)
+      const page = Math.max(1, args.page ?? 1)
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, args.limit ?? DEFAULT_PAGE_SIZE))
+
+      const listQuery = parseEntryListQuery(contentType.fields, query)
+      if ('errors' in listQuery) {
+        throw new GraphQLError('Invalid list query', {
+          extensions: { code: 'VALIDATION_ERROR', fields: listQuery.errors },
+        })
+      }
+      const readQuery = context.canReadUnpublished(contentType)
+        ? listQuery.query
+        : withPublishedOnly(listQuery.query)
+
+      if (readQuery.cursor) {
+        const result = await getContentEntriesByCursor(
+          context.prisma,
+          contentType.id,
+          limit,
+          readQuery
+        )
+        return { entries: result.entries, total: null, pageInfo: result.pageInfo }
+      }
+
+      const result = await getContentEntries(context.prisma, contentType.id, page, limit, readQuery)
+      return {
+        entries: result.entries,
+        total: result.total,
+        page,
+        totalPages: result.pages,
+        pageInfo: {
+          hasNextPage: page < result.pages,
+          hasPreviousPage: page > 1,
+          startCursor: null,
+          endCursor: null,
+        },
+      }
+    },
+  }
+}
+
+function getFieldFilterType(fieldType: string): GraphQLInputObjectType {
+  switch (fieldType) {
+    case 'NUMBER':
+      return FILTER_TYPES.number
+    case 'BOOLEAN':
+      return FILTER_TYPES.boolean
+    case 'DATE':
+      return FILTER_TYPES.date
+    default:
+      return FILTER_TYPES.string
+  }
+}
+
+/**
+ * Translate list arguments into the query parameters of the REST list endpoint, so both share
+ * one parser
+ */
+function toListQueryParams(args: ListArgs, filterNames: Map<string, string>) {
+  const query: Record<string, string> = {}
+
+  for (const [name, operators] of Object.entries(args.filter ?? {})) {
+    for (const [operator, value] of Object.entries(operators ?? {})) {
+      if (value === undefined || value === null) continue
+      query[`filter[${filterNames.get(name)}][${operator}]`] = Array.isArray(value)
+        ? value.join(',')
+        : String(value)
+    }
+  }
+
+  if (args.sort?.length) {
+    query.sort = args.sort.map(order => `${order.field}:${order.direction ?? 'asc'}`).join(',')
+  }
+  if (args.status?.length) query.status = args.status.join(',')
+  if (args.search) query.search = args.search
+  if (typeof args.after === 'string') query.after = args.after
+  if (typeof args.before === 'string') query.before = args.before
+
+  return query
+}
+
+/**
+ * Input type of a field for create/update mutations
+ */
+function getFieldInputType(field: SchemaField): GraphQLInputType {
+  switch (field.fieldType) {
+    case 'NUMBER':
+      return GraphQLFloat
+    case 'BOOLEAN':
+      return GraphQLBoolean
+    case 'DATE':
+      return DateTimeScalar
+    case 'JSON':
+      return JSONScalar
+    case 'RELATION':
+      return isMultipleRelation(getFieldRelationOptions(field).kind)
+        ? new GraphQLList(new GraphQLNonNull(GraphQLID))
+        : GraphQLID
+    case 'MEDIA':
+      return getFieldMediaOptions(field).multiple
+        ? new GraphQLList(new GraphQLNonNull(GraphQLID))
+        : GraphQLID
+    default:
+      return GraphQLString
+  }
+}
+
+function buildInputType(mapping: TypeMapping, suffix: 'CreateInput' | 'UpdateInput') {
+  const fields: GraphQLInputFieldConfigMap = {}
+  for (const { field, name } of mapping.fields) {
+    const type = getFieldInputType(field)
+    fields[name] = {
+      type: suffix === 'CreateInput' && field.required ? new GraphQLNonNull(type) : type,
+      description: field.displayName,
+    }
+  }
+
+  return new GraphQLInputObjectType({
+    name: `${mapping.typeName}${suffix}`,
+    // Input objects need at least one field
+    fields: Object.keys(fields).length > 0 ? fields : { _empty: { type: GraphQLBoolean } },
+  })
+}
+
+/**
+ * Field values of a mutation input in the `{ fieldId, value }` form of REST writes
+ */
+function toFieldValues(mapping: TypeMapping, data: Record<string, unknown> | null | undefined) {
+  return mapping.fields.flatMap(({ field, name }) =>
+    data && data[name] !== undefined ? [{ fieldId: field.id, value: data[name] }] : []
+  )
+}
+
+/**
+ * Run an entry write, turning validation and relation failures into GraphQL errors
+ */
+async function withEntryErrors<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write()
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      throw new GraphQLError('Validation failed', {
+        extensions: { code: 'VALIDATION_ERROR', fields: error.fields },
+      })
+    }
+    if (error instanceof RelationConstraintError) {
+      throw new GraphQLError(error.message, {
+        extensions: { code: 'CONFLICT', referencingEntryIds: error.referencingEntryIds },
+      })
+    }
+    if (error instanceof RelationPermissionError) {
+      throw new GraphQLError(error.message, {
+        extensions: { code: 'AUTHORIZATION_FAILED', entryIds: error.entryIds },
+      })
+    }
+    throw error
+  }
+}
+
+function entryNotFound(id: string) {
+  return new GraphQLError(`Entry with identifier '${id}' not found`, {
+    extensions: { code: 'NOT_FOUND' },
+  })
+}
+
+function buildCreateMutation(
+  mapping: TypeMapping,
+  objectType: GraphQLObjectType
+): GraphQLFieldConfig<
+  unknown,
+  GraphQLContext,
+  { slug?: string | null; data: Record<string, unknown> }
+> {
+  return {
+    type: new GraphQLNonNull(objectType),
+    args: {
+      slug: { type: GraphQLString },
+      data: { type: new GraphQLNonNull(buildInputType(mapping, 'CreateInput')) },
+    },
+    resolve: async (_source, args, context) => {
+      context.authorize(mapping.contentType, 'create')
+      const entry = await withEntryErrors(() =>
+        createContentEntry(
+          context.prisma,
+          {
+            contentTypeId: mapping.contentType.id,
+            slug: args.slug ?? undefined,
+            fieldValues: toFieldValues(mapping, args.data),
+            authorId: context.userId,
+          },
+          { actor: context.actor }
+        )
+      )
+      await context.audit('ENTRY_CREATED', {
+        entryId: entry.id,
+        contentType: mapping.contentType.slug,
+      })
+      return entry
+    },
+  }
+}
+
+/**
+ * Update mutation; fields missing from `data` keep their current value
+ */
+function buildUpdateMutation(
+  mapping: TypeMapping,
+  objectType: GraphQLObjectType
+): GraphQLFieldConfig<
+  unknown,
+  GraphQLContext,
+  { id: string; slug?: string | null; data?: Record<string, unknown> | null }
+> {
+  return {
+    type: new GraphQLNonNull(objectType),
+    args: {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      slug: { type: GraphQLString },
+      data: { type: buildInputType(mapping, 'UpdateInput') },
+    },
+    resolve: async (_source, args, context) => {
+      context.authorize(mapping.contentType, 'update')
+      const existing = await findEntry(context.prisma, mapping, args.id)
+      if (!existing) throw entryNotFound(args.id)
+      context.authorize(mapping.contentType, 'update', existing)
+
+      const changes = toFieldValues(mapping, args.data)
+      const fieldValues =
+        changes.length > 0
+          ? [
+              ...existing.fieldValues
+                .filter(
+                  (fv: { fieldId: string }) =>
+                    !changes.some(change => change.fieldId === fv.fieldId)
+                )
+                .map((fv: { fieldId: string; value: string | null }) => ({
+                  fieldId: fv.fieldId,
+                  value: fv.value,
+                })),
+              ...changes,
+            ]
+          : undefined
+
+      const entry = await withEntryErrors(() =>
+        updateContentEntry(
+          context.prisma,
+          args.id,
+          { slug: args.slug ?? undefined, fieldValues },
+          { actor: context.actor }
+        )
+      )
+      await context.audit('ENTRY_UPDATED', {
+        entryId: args.id,
+        contentType: mapping.contentType.slug,
+      })
+      return entry
+    },
+  }
+}
+
+function buildDeleteMutation(
+  mapping: TypeMapping
+): GraphQLFieldConfig<unknown, GraphQLContext, { id: string }> {
+  return {
+    type: new GraphQLNonNull(GraphQLID),
+    description: 'Delete an entry and return its ID',
+    args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+    resolve: async (_source, args, context) => {
+      context.authorize(mapping.contentType, 'delete')
+      const existing = await findEntry(context.prisma, mapping, args.id)
+      if (!existing) throw entryNotFound(args.id)
+      context.authorize(mapping.contentType, 'delete', existing)
+
+      await withEntryErrors(() =>
+        deleteContentEntry(context.prisma, args.id, {
+          actor: context.actor,
+          canDelete: context.canDelete,
+        })
+      )
+      await context.audit('ENTRY_DELETED', {
+        entryId: args.id,
+        contentType: mapping.contentType.slug,
+      })
+      return args.id
+    },
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Health checks for GET /api/health and the container probes
+ *
+ * Every check reports `pass`, `warn` or `fail`; the report is `unhealthy` when any check fails
+ * and `degraded` when any warns. Details (paths, sizes, counts) are only included in detailed
+ * reports, which the route serves to admins.
+ */
+
+import { constants as fsConstants } from 'fs'
+import { access, stat, statfs } from 'fs/promises'
+import path from 'path'
+import { getHeapStatistics } from 'v8'
+import { PrismaClient } from '@prisma/client'
+import { getSchedulerIntervalMs, getSchedulerStatus, isSchedulerEnabled } from './scheduler'
+
+export type HealthCheckStatus = 'pass' | 'warn' | 'fail'
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy'
+
+export type HealthCheck = {
+  status: HealthCheckStatus
+  responseTime?: number
+  error?: string
+  details?: Record<string, unknown>
+}
+
+export type HealthReport = {
+  timestamp: string
+  status: HealthStatus
+  version: string
+  environment: string
+  uptime: number
+  checks: Record<string, HealthCheck>
+}
+
+/** Database queries slower than this degrade the health status */
+export const SLOW_QUERY_MS = 1000
+
+/** Heap use above this share of the heap size limit degrades the health status */
+export const MEMORY_WARNING_RATIO = 0.9
+
+/** Free space of the upload directory below this share of the disk degrades the health status */
+export const DISK_WARNING_RATIO = 0.1
+
+/** Expired sessions above this count degrade the health status; they are never cleaned up */
+export const EXPIRED_SESSIONS_WARNING = 1000
+
+/** The scheduler counts as stalled when it has not run for this many intervals */
+const SCHEDULER_STALE_INTERVALS = 3
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await access(file)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Path of the SQLite database file of a `file:` DATABASE_URL; Prisma resolves relative paths
+ * against the directory of the schema
+ */
+export function getSqliteFilePath(databaseUrl: string | undefined): string | null {
+  if (!databaseUrl?.startsWith('file:')) return null
+
+  const file = databaseUrl.slice('file:'.length).split('?')[0]
+  if (!file || file.startsWith(':memory:')) return null
+  return path.isAbsolute(file) ? file : path.resolve('prisma', file)
+}
+
+async function checkDatabase(prisma: PrismaClient): Promise<HealthCheck> {
+  const start = Date.now()
+  try {
+    await prisma.$queryRawUnsafe('SELECT 1')
+  } catch (error) {
+    return { status: 'fail', responseTime: Date.now() - start, error: getErrorMessage(error) }
+  }
+  const responseTime = Date.now() - start
+
+  const details: Record<string, unknown> = { queryTimeMs: responseTime }
+  const file = getSqliteFilePath(process.env.DATABASE_URL)
+  if (file) {
+    details.provider = 'sqlite'
+    try {
+      details.sizeBytes = (await stat(file)).size
+    } catch {
+      details.sizeBytes = null
+    }
+  }
+
+  if (responseTime > SLOW_QUERY_MS) {
+    return {
+      status: 'warn',
+      responseTime,
+      error: `Query took ${responseTime}ms, expected under ${SLOW_QUERY_MS}ms`,
+      details,
+    }
+  }
+  return { status: 'pass', responseTime, details }
+}
+
+async function checkFilesystem(): Promise<HealthCheck> {
+  const directory = path.resolve(process.env.MEDIA_UPLOAD_DIR || './uploads')
+  // The upload directory is created on the first upload, so check where it will be created
+  let target = directory
+  while (!(await exists(target)) && path.dirname(target) !== target) {
+    target = path.dirname(target)
+  }
+
+  try {
+    await access(target, fsConstants.W_OK)
+    const disk = await statfs(target)
+    const freeBytes = disk.bavail * disk.bsize
+    const totalBytes = disk.blocks * disk.bsize
+    const freeRatio = totalBytes > 0 ? freeBytes / totalBytes : 1
+    const details = {
+      uploadDirectory: directory,
+      exists: target === directory,
+      freeBytes,
+      totalBytes,
+      freePercent: Math.round(freeRatio * 1000) / 10,
+    }
+
+    if (freeRatio < DISK_WARNING_RATIO) {
+      return {
+        status: 'warn',
+        error: `Only ${details.freePercent}% disk space left for uploads`,
+        details,
+      }
+    }
+    return { status: 'pass', details }
+  } catch (error) {
+    return {
+      status: 'fail',
+      error: `Upload directory is not writable: ${getErrorMessage(error)}`,
+      details: { uploadDirectory: directory },
+    }
+  }
+}
+
+function checkMemory(): HealthCheck {
+  const usage = process.memoryUsage()
+  // V8 grows the heap on demand, so compare against the limit rather than the current heap size
+  const heapLimit = getHeapStatistics().heap_size_limit
+  const heapRatio = heapLimit > 0 ? usage.heapUsed / heapLimit : 0
+  const details = {
+    rssBytes: usage.rss,
+    heapUsedBytes: usage.heapUsed,
+    heapTotalBytes: usage.heapTotal,
+    heapLimitBytes: heapLimit,
+    externalBytes: usage.external,
+    heapUsedPercent: Math.round(heapRatio * 1000) / 10,
+  }
+
+  if (heapRatio > MEMORY_WARNING_RATIO) {
+    return { status: 'warn', error: `Heap is ${details.heapUsedPercent}% used`, details }
+  }
+  return { status: 'pass', details }
+}
+
+async function checkSessions(prisma: PrismaClient): Promise<HealthCheck> {
+  const now = new Date()
+  try {
+    const [active, expired]: [number, number] = await Promise.all([
+      prisma.session.count({ where: { expiresAt: { gt: now } } }),
+      prisma.session.count({ where: { expiresAt: { lte: now } } }),
+    ])
+    const details = { active, expired }
+
+    if (expired > EXPIRED_SESSIONS_WARNING) {
+      return {
+        status: 'warn',
+        error: `${expired} expired sessions are waiting for cleanup`,
+        details,
+      }
+    }
+    return { status: 'pass', details }
+  } catch (error) {
+    return { status: 'fail', error: getErrorMessage(error) }
+  }
+}
+
+async function checkScheduler(prisma: PrismaClient): Promise<HealthCheck> {
+  const enabled = isSchedulerEnabled()
+  const intervalMs = getSchedulerIntervalMs()
+  try {
+    const { runs, lock, upcoming } = await getSchedulerStatus(prisma, 1)
+    const [lastRun] = runs
+    const details = {
+      enabled,
+      intervalMs,
+      lockHolder: lock?.ownerId ?? null,
+      lastRunAt: lastRun?.startedAt ?? null,
+      upcoming,
+    }
+
+    if (lastRun?.error) {
+      return { status: 'warn', error: `Last run failed: ${lastRun.error}`, details }
+    }
+
+    // Without the in-process scheduler, runs come from cron at its own schedule
+    const lastRunAge = lastRun ? Date.now() - new Date(lastRun.startedAt).getTime() : Infinity
+    if (enabled && !lock && lastRunAge > intervalMs * SCHEDULER_STALE_INTERVALS) {
+      return {
+        status: 'warn',
+        error: 'No instance holds the scheduler lock and no run happened recently',
+        details,
+      }
+    }
+    return { status: 'pass', details }
+  } catch (error) {
+    return { status: 'fail', error: getErrorMessage(error) }
+  }
+}
+
+/**
+ * Roll the check results up into one status
+ */
+export function getHealthStatus(checks: Record<string, HealthCheck>): HealthStatus {
+  const statuses = Object.values(checks).map(check => check.status)
+  if (statuses.includes('fail')) return 'unhealthy'
+  if (statuses.includes('warn')) return 'degraded'
+  return 'healthy'
+}
+
+function toReport(checks: Record<string, HealthCheck>, detailed = false): HealthReport {
+  if (!detailed) {
+    for (const check of Object.values(checks)) {
+      delete check.details
+    }
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    status: getHealthStatus(checks),
+    version: process.env.npm_package_version || '0.0.0',
+    environment: process.env.NODE_ENV || 'development',
+    uptime: Math.floor(process.uptime()),
+    checks,
+  }
+}
+
+/**
+ * Run every health check; without `detailed` the details of the checks are left out
+ */
+export async function getHealthReport(
+  prisma: PrismaClient,
+  options: { detailed?: boolean } = {}
+): Promise<HealthReport> {
+  const [database, filesystem, sessions, scheduler] = await Promise.all([
+    checkDatabase(prisma),
+    checkFilesystem(),
+    checkSessions(prisma),
+    checkScheduler(prisma),
+  ])
+  const checks: Record<string, HealthCheck> = {
+    database,
+    filesystem,
+    memory: checkMemory(),
+    sessions,
+    scheduler,
+  }
+
+  return toReport(checks, options.detailed)
+}
+
+/**
+ * Readiness: whether the instance can serve requests, i.e. reach its database
+ */
+export async function getReadiness(prisma: PrismaClient): Promise<HealthReport> {
+  return toReport({ database: await checkDatabase(prisma) })
+}
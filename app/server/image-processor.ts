@@ -0,0 +1,141 @@
+/**
+ * Image processing for uploaded media
+ * Reads dimensions and EXIF orientation from uploaded images and stores resized renditions
+ * (thumbnail, small, medium, large by default) plus WebP variants next to the original file
+ */
+
+import sharp from 'sharp'
+import type { MediaFormat, MediaFormats } from '../lib/media-service'
+import type { StorageAdapter } from './media-storage'
+
+/**
+ * Rendition names and their maximum width in pixels
+ */
+export const DEFAULT_IMAGE_FORMATS: Record<string, number> = {
+  thumbnail: 245,
+  small: 500,
+  medium: 750,
+  large: 1000,
+}
+
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif']
+
+export type ImageProcessingOptions = {
+  formats: Record<string, number>
+  webp: boolean
+}
+
+export type ProcessedImage = {
+  width: number
+  height: number
+  orientation: number | null
+  formats: MediaFormats
+}
+
+/**
+ * Whether renditions can be generated for a MIME type (SVG and other vector formats are kept as is)
+ */
+export function isProcessableImage(mimeType: string): boolean {
+  return PROCESSABLE_TYPES.includes(mimeType)
+}
+
+/**
+ * Rendition settings from MEDIA_IMAGE_FORMATS (`name:width` pairs, comma-separated) and
+ * MEDIA_WEBP_VARIANTS
+ */
+export function getImageProcessingOptions(): ImageProcessingOptions {
+  const formats = Object.fromEntries(
+    (process.env.MEDIA_IMAGE_FORMATS || '')
+      .split(',')
+      .map(pair => pair.split(':').map(part => part.trim()))
+      .filter(([name, width]) => name && Number(width) > 0)
+      .map(([name, width]) => [name, Math.round(Number(width))])
+  )
+
+  return {
+    formats: Object.keys(formats).length > 0 ? formats : DEFAULT_IMAGE_FORMATS,
+    webp: process.env.MEDIA_WEBP_VARIANTS !== 'false',
+  }
+}
+
+/**
+ * Storage key of a rendition, e.g. `small_photo-123-abc.jpg` or `small_photo-123-abc.webp`
+ */
+export function getFormatKey(key: string, name: string, extension?: string): string {
+  const base = extension ? key.replace(/\.[^.]+$/, '') + `.${extension}` : key
+  return `${name}_${base}`
+}
+
+/**
+ * Read the metadata of an image and store its renditions
+ *
+ * Renditions are only generated for widths smaller than the image, so small images get fewer
+ * (or no) formats. Width and height are reported as displayed, i.e. after applying the EXIF
+ * orientation.
+ */
+export async function processImage(
+  input: Buffer,
+  options: { key: string; mimeType: string; storage: StorageAdapter } & ImageProcessingOptions
+): Promise<ProcessedImage> {
+  const metadata = await sharp(input).metadata()
+  const orientation = metadata.orientation ?? null
+  const swapsAxes = orientation !== null && orientation >= 5
+
+  const width = (swapsAxes ? metadata.height : metadata.width) ?? 0
+  const height = (swapsAxes ? metadata.width : metadata.height) ?? 0
+  const formats: MediaFormats = {}
+
+  for (const [name, maxWidth] of Object.entries(options.formats)) {
+    if (maxWidth >= width) continue
+
+    const format: MediaFormat = await saveRendition(input, {
+      key: getFormatKey(options.key, name),
+      width: maxWidth,
+      mimeType: options.mimeType,
+      storage: options.storage,
+    })
+
+    if (options.webp && options.mimeType !== 'image/webp') {
+      format.webp = await saveRendition(input, {
+        key: getFormatKey(options.key, name, 'webp'),
+        width: maxWidth,
+        mimeType: 'image/webp',
+        storage: options.storage,
+      })
+    }
+
+    formats[name] = format
+  }
+
+  return { width, height, orientation, formats }
+}
+
+async function saveRendition(
+  input: Buffer,
+  options: { key: string; width: number; mimeType: string; storage: StorageAdapter }
+): Promise<MediaFormat> {
+  let image = sharp(input, { animated: true }).rotate().resize({ width: options.width })
+  if (options.mimeType === 'image/webp') {
+    image = image.webp()
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true })
+  await options.storage.save(options.key, new Blob([data]).stream())
+
+  return {
+    url: options.storage.getUrl(options.key),
+    width: info.width,
+    height: info.pageHeight ?? info.height,
+    size: info.size,
+    mimeType: options.mimeType,
+  }
+}
+
+/**
+ * Storage URLs of every rendition in a formats object
+ */
+export function getFormatUrls(formats: MediaFormats | null): string[] {
+  return Object.values(formats ?? {}).flatMap(format =>
+    format.webp ? [format.url, format.webp.url] : [format.url]
+  )
+}
@@ -0,0 +1,347 @@
+/**
+ * On-the-fly image transformations
+ * Resizes, crops and converts media images for `GET /api/media/:id/transform` requests. URLs are
+ * signed with an HMAC so only sizes handed out by the server can be rendered, and every
+ * transformation is cached on disk keyed by the media ID and its parameters.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import sharp, { type FormatEnum } from 'sharp'
+import { ApiResponseBuilder, type ApiFieldError } from '../lib/api-response'
+import { getStorageAdapter, type StorageAdapter } from './media-storage'
+import { isProcessableImage } from './image-processor'
+
+export const TRANSFORM_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const
+export const TRANSFORM_FORMATS = ['jpeg', 'png', 'webp', 'avif'] as const
+
+export type TransformFit = (typeof TRANSFORM_FITS)[number]
+export type TransformFormat = (typeof TRANSFORM_FORMATS)[number]
+
+export type TransformParams = {
+  width?: number
+  height?: number
+  fit: TransformFit
+  format?: TransformFormat
+  quality: number
+}
+
+export const DEFAULT_TRANSFORM_QUALITY = 80
+export const DEFAULT_MAX_TRANSFORM_SIZE = 4000
+
+/** Widths of the `srcSet` returned with media images in API responses */
+export const MEDIA_SRCSET_WIDTHS = [320, 640, 1280, 1920]
+
+const SOURCE_FORMATS: Record<string, keyof FormatEnum | 'avif'> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+}
+
+type TransformSource = { id: string; url: string; mimeType: string }
+
+export type TransformOptions = {
+  storage?: StorageAdapter
+  cacheDir?: string
+  secret?: string
+  maxSize?: number
+}
+
+/**
+ * Transform settings from MEDIA_TRANSFORM_SECRET (falls back to AUTH_SECRET),
+ * MEDIA_TRANSFORM_CACHE_DIR and MEDIA_TRANSFORM_MAX_SIZE (largest width or height in pixels)
+ */
+export function getTransformOptions(): Required<Omit<TransformOptions, 'storage'>> {
+  const maxSize = Number(process.env.MEDIA_TRANSFORM_MAX_SIZE)
+
+  return {
+    secret: process.env.MEDIA_TRANSFORM_SECRET || process.env.AUTH_SECRET || '',
+    cacheDir: process.env.MEDIA_TRANSFORM_CACHE_DIR || './cache/media-transforms',
+    maxSize: maxSize > 0 ? maxSize : DEFAULT_MAX_TRANSFORM_SIZE,
+  }
+}
+
+/**
+ * Read `w`, `h`, `fit`, `format` and `q` from a transform URL
+ *
+ * At least a width, a height or a format is required; dimensions are capped at `maxSize`.
+ */
+export function parseTransformParams(
+  searchParams: URLSearchParams,
+  maxSize = getTransformOptions().maxSize
+): { params: TransformParams; errors: ApiFieldError[] } {
+  const errors: ApiFieldError[] = []
+
+  const readInteger = (name: string, label: string, min: number, max: number) => {
+    const value = searchParams.get(name)
+    if (value === null || value === '') return undefined
+
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < min || number > max) {
+      errors.push({ path: name, message: `${label} must be an integer from ${min} to ${max}` })
+      return undefined
+    }
+    return number
+  }
+
+  const readOption = <T extends string>(name: string, label: string, values: readonly T[]) => {
+    const value = searchParams.get(name)
+    if (value === null || value === '') return undefined
+
+    if (!values.includes(value as T)) {
+      errors.push({ path: name, message: `${label} must be one of ${values.join(', ')}` })
+      return undefined
+    }
+    return value as T
+  }
+
+  const params: TransformParams = {
+    width: readInteger('w', 'Width', 1, maxSize),
+    height: readInteger('h', 'Height', 1, maxSize),
+    fit: readOption('fit', 'Fit', TRANSFORM_FITS) ?? 'cover',
+    format: readOption('format', 'Format', TRANSFORM_FORMATS),
+    quality: readInteger('q', 'Quality', 1, 100) ?? DEFAULT_TRANSFORM_QUALITY,
+  }
+
+  if (errors.length === 0 && !params.width && !params.height && !params.format) {
+    errors.push({ path: 'w', message: 'A width, height or format is required' })
+  }
+
+  return { params, errors }
+}
+
+/**
+ * Normalized query string of a transformation, without the signature
+ */
+function toQueryString(params: TransformParams): string {
+  const query = new URLSearchParams()
+  if (params.width) query.set('w', String(params.width))
+  if (params.height) query.set('h', String(params.height))
+  query.set('fit', params.fit)
+  if (params.format) query.set('format', params.format)
+  query.set('q', String(params.quality))
+  return query.toString()
+}
+
+/**
+ * HMAC signature of a transformation; URLs that only differ in default parameters share it
+ */
+export function signTransform(
+  id: string,
+  params: TransformParams,
+  secret = getTransformOptions().secret
+): string {
+  if (!secret) {
+    throw new Error('MEDIA_TRANSFORM_SECRET or AUTH_SECRET is required to sign transform URLs')
+  }
+  return createHmac('sha256', secret)
+    .update(`${id}?${toQueryString(params)}`)
+    .digest('base64url')
+}
+
+/**
+ * Check the `s` parameter of a transform URL
+ */
+export function verifyTransformSignature(
+  id: string,
+  params: TransformParams,
+  signature: string | null,
+  secret = getTransformOptions().secret
+): boolean {
+  if (!secret || !signature) return false
+
+  const expected = Buffer.from(signTransform(id, params, secret))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Signed URL of a transformation, e.g. for `<img src>`
+ */
+export function getTransformUrl(
+  id: string,
+  params: Partial<TransformParams>,
+  secret = getTransformOptions().secret
+): string {
+  const normalized: TransformParams = {
+    fit: 'cover',
+    quality: DEFAULT_TRANSFORM_QUALITY,
+    ...params,
+  }
+  const signature = signTransform(id, normalized, secret)
+  return `/api/media/${encodeURIComponent(id)}/transform?${toQueryString(normalized)}&s=${signature}`
+}
+
+/**
+ * Signed `srcset` attribute with one transformation per width
+ */
+export function getTransformSrcSet(
+  id: string,
+  widths: number[],
+  params: Omit<Partial<TransformParams>, 'width'> = {},
+  secret = getTransformOptions().secret
+): string {
+  return widths
+    .map(width => `${getTransformUrl(id, { ...params, width }, secret)} ${width}w`)
+    .join(', ')
+}
+
+/**
+ * Signed `srcset` of a media image for API responses, with the widths of MEDIA_SRCSET_WIDTHS
+ * below the image width
+ *
+ * Returns null for files that are not raster images and when no signing secret is configured.
+ */
+export function getMediaSrcSet(
+  media: { id: string; mimeType: string; width?: number | null },
+  secret = getTransformOptions().secret
+): string | null {
+  if (!secret || !isProcessableImage(media.mimeType)) return null
+
+  const widths = MEDIA_SRCSET_WIDTHS.filter(width => !media.width || width < media.width)
+  return widths.length > 0 ? getTransformSrcSet(media.id, widths, {}, secret) : null
+}
+
+/**
+ * Render a transformation of a media image, reusing the cached result when there is one
+ *
+ * Returns null when the media does not exist and 'unsupported' for files that are not raster
+ * images. Images are never enlarged beyond their original size.
+ */
+export async function transformMedia(
+  prisma: PrismaClient,
+  id: string,
+  params: TransformParams,
+  options: Pick<TransformOptions, 'storage' | 'cacheDir'> = {}
+): Promise<{ body: Buffer; mimeType: string; etag: string } | 'unsupported' | null> {
+  const storage = options.storage ?? getStorageAdapter()
+  const cacheDir = resolve(options.cacheDir ?? getTransformOptions().cacheDir)
+
+  const media: TransformSource | null = await prisma.media.findUnique({ where: { id } })
+  if (!media) return null
+  if (!isProcessableImage(media.mimeType)) return 'unsupported'
+
+  const format = params.format ?? SOURCE_FORMATS[media.mimeType]
+  const hash = createHash('sha256')
+    .update(`${media.url}?${toQueryString(params)}`)
+    .digest('hex')
+    .slice(0, 32)
+  const cachePath = resolve(cacheDir, `${getCachePrefix(media.id)}${hash}.${format}`)
+  const result = { mimeType: `image/${format}`, etag: `"${hash}"` }
+
+  try {
+    return { body: await readFile(cachePath), ...result }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+  }
+
+  const key = storage.getKey(media.url)
+  const file = key ? await storage.read(key) : null
+  if (!file) return null
+
+  const input = Buffer.from(await new Response(file.body).arrayBuffer())
+  const body = await sharp(input)
+    .rotate()
+    .resize({
+      width: params.width,
+      height: params.height,
+      fit: params.fit,
+      withoutEnlargement: true,
+    })
+    .toFormat(format, { quality: params.quality })
+    .toBuffer()
+
+  // Write to a temporary file first so concurrent requests never read a partial image
+  await mkdir(cacheDir, { recursive: true })
+  const tempPath = `${cachePath}.${randomBytes(4).toString('hex')}.tmp`
+  await writeFile(tempPath, body)
+  await rename(tempPath, cachePath)
+
+  return { body, ...result }
+}
+
+function getCachePrefix(id: string): string {
+  return `${createHash('sha256').update(id).digest('hex').slice(0, 16)}-`
+}
+
+/**
+ * Remove the cached transformations of deleted media
+ */
+export async function clearTransformCache(
+  ids: string[],
+  cacheDir = getTransformOptions().cacheDir
+): Promise<void> {
+  const root = resolve(cacheDir)
+  const files = await readdir(root).catch(() => [] as string[])
+  const prefixes = ids.map(getCachePrefix)
+
+  await Promise.all(
+    files
+      .filter(file => prefixes.some(prefix => file.startsWith(prefix)))
+      .map(file => rm(resolve(root, file), { force: true }))
+  )
+}
+
+/**
+ * Serve `GET /api/media/:id/transform`
+ *
+ * Invalid parameters are rejected with VALIDATION_ERROR and unsigned or tampered URLs with
+ * AUTHORIZATION_FAILED. Results are cached by browsers and proxies like stored files.
+ */
+export async function serveTransformedMedia(
+  prisma: PrismaClient,
+  request: Request,
+  id: string,
+  options: TransformOptions = {}
+): Promise<Response> {
+  const { secret, cacheDir, maxSize } = { ...getTransformOptions(), ...options }
+  const { searchParams } = new URL(request.url)
+
+  const { params, errors } = parseTransformParams(searchParams, maxSize)
+  if (errors.length > 0) {
+    return ApiResponseBuilder.createHttpResponse(
+      ApiResponseBuilder.fieldValidationError(errors, 'Invalid transform parameters')
+    )
+  }
+
+  if (!verifyTransformSignature(id, params, searchParams.get('s'), secret)) {
+    return ApiResponseBuilder.createHttpResponse(
+      ApiResponseBuilder.error({
+        code: 'AUTHORIZATION_FAILED',
+        message: 'Invalid transform signature',
+        details: ['Transform URLs must be signed by the server'],
+      })
+    )
+  }
+
+  const result = await transformMedia(prisma, id, params, { storage: options.storage, cacheDir })
+  if (!result) {
+    return ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.notFound('Media', id))
+  }
+  if (result === 'unsupported') {
+    return ApiResponseBuilder.createHttpResponse(
+      ApiResponseBuilder.validationError([`Media '${id}' is not a transformable image`])
+    )
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': result.mimeType,
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    ETag: result.etag,
+    'X-Content-Type-Options': 'nosniff',
+  }
+
+  if (request.headers.get('if-none-match') === result.etag) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  headers['Content-Length'] = String(result.body.length)
+  return new Response(request.method === 'HEAD' ? null : new Uint8Array(result.body), {
+    status: 200,
+    headers,
+  })
+}
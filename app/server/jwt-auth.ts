@@ -5,6 +5,12 @@ export interface JWTPayload {
   userId: string
   email: string
   role: AuthUser['role']
+  /**
+   * Custom roles and resolved permissions when the token was issued, for clients; the server
+   * resolves them again on every request
+   */
+  roles?: AuthUser['roles']
+  permissions?: AuthUser['permissions']
   iat?: number
   exp?: number
 }
@@ -21,6 +27,8 @@ export function generateAccessToken(user: AuthUser): string {
     userId: user.id,
     email: user.email,
     role: user.role,
+    roles: user.roles,
+    permissions: user.permissions,
   }
 
   return jwt.sign(payload, JWT_SECRET, {
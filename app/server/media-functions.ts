@@ -0,0 +1,78 @@
+/**
+ * TanStack Start server functions for the media library and the media field picker
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requirePermission } from './auth-middleware'
+import { getMedia, getMediaByIds, getMediaStats, toMediaFile, updateMedia } from './media-utils'
+import { deleteMediaWithFiles } from './media-upload'
+import { securityAudit } from './security-auth'
+import type { MediaFile, MediaPagination, MediaStatistics } from '../lib/media-service'
+
+const MEDIA_PICKER_PAGE_SIZE = 48
+
+async function requireMediaManager() {
+  const result = await requirePermission(getWebRequest(), 'media.manage')
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
+  return result.user
+}
+
+export const fetchMediaFilesFn = createServerFn({ method: 'GET' })
+  .validator((input: { page: number; pageSize: number; search?: string; type?: string }) => input)
+  .handler(async ({ data }): Promise<{ media: MediaFile[]; pagination: MediaPagination }> => {
+    const result = await getMedia(prisma, data.page, data.pageSize, data.search, data.type)
+    return { media: result.media.map(toMediaFile), pagination: result.pagination }
+  })
+
+export const fetchMediaStatsFn = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<MediaStatistics> => getMediaStats(prisma)
+)
+
+export const updateMediaFn = createServerFn({ method: 'POST' })
+  .validator((input: { id: string; altText?: string }) => input)
+  .handler(async ({ data }): Promise<MediaFile> => {
+    const user = await requireMediaManager()
+    const media = toMediaFile(await updateMedia(prisma, data))
+    await securityAudit.log('MEDIA_UPDATED', getWebRequest(), user.id, true, {
+      mediaId: media.id,
+      filename: media.filename,
+    })
+    return media
+  })
+
+export const deleteMediaFilesFn = createServerFn({ method: 'POST' })
+  .validator((ids: string[]) => ids)
+  .handler(async ({ data: ids }) => {
+    const user = await requireMediaManager()
+    const deleted = await deleteMediaWithFiles(prisma, ids)
+    await securityAudit.log('MEDIA_DELETED', getWebRequest(), user.id, true, {
+      mediaIds: ids,
+      deleted,
+    })
+    return deleted
+  })
+
+/**
+ * Media files offered by the media field picker, or the files with the given IDs
+ */
+export const searchMediaFn = createServerFn({ method: 'GET' })
+  .validator((input: { search?: string; allowedMimeTypes?: string[]; ids?: string[] }) => input)
+  .handler(async ({ data }): Promise<MediaFile[]> => {
+    const media = data.ids
+      ? await getMediaByIds(prisma, data.ids)
+      : (
+          await getMedia(
+            prisma,
+            1,
+            MEDIA_PICKER_PAGE_SIZE,
+            data.search,
+            undefined,
+            data.allowedMimeTypes
+          )
+        ).media
+    return media.map(toMediaFile)
+  })
@@ -0,0 +1,167 @@
+/**
+ * Storage adapters for uploaded media files
+ * Media rows keep the public URL of a file; the adapter owns where its bytes live. The local
+ * filesystem adapter is the default, other backends (e.g. S3-compatible) implement StorageAdapter.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs'
+import { mkdir, rm, stat } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { Readable, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+
+export type StoredFile = {
+  body: ReadableStream<Uint8Array>
+  size: number
+  lastModified: Date
+}
+
+export interface StorageAdapter {
+  readonly name: string
+  /** Write a file under `key`, failing with FileTooLargeError once it exceeds `maxSize` bytes */
+  save(
+    key: string,
+    body: ReadableStream<Uint8Array>,
+    options?: { maxSize?: number }
+  ): Promise<{ size: number }>
+  /** Open a stored file, or return null when it does not exist */
+  read(key: string): Promise<StoredFile | null>
+  remove(key: string): Promise<void>
+  /** Public URL stored on the Media row */
+  getUrl(key: string): string
+  /** Storage key of a public URL created by this adapter, or null for foreign URLs */
+  getKey(url: string): string | null
+}
+
+/**
+ * Thrown by StorageAdapter.save when an upload is larger than the allowed size
+ */
+export class FileTooLargeError extends Error {
+  readonly maxSize: number
+
+  constructor(maxSize: number) {
+    super(`File exceeds the maximum size of ${maxSize} bytes`)
+    this.name = 'FileTooLargeError'
+    this.maxSize = maxSize
+  }
+}
+
+export const MEDIA_FILES_PATH = '/api/media/files'
+
+/**
+ * Storage keys are flat file names; anything that could escape the storage root is rejected
+ */
+export function isValidStorageKey(key: string): boolean {
+  return !!key && !/[/\\\0]/.test(key) && !key.startsWith('.')
+}
+
+/**
+ * Store files in a directory on the local filesystem, served from `publicPath`
+ */
+export function createLocalStorageAdapter(options: {
+  directory: string
+  publicPath?: string
+}): StorageAdapter {
+  const root = resolve(options.directory)
+  const publicPath = options.publicPath ?? MEDIA_FILES_PATH
+
+  const pathOf = (key: string) => {
+    if (!isValidStorageKey(key)) {
+      throw new Error(`Invalid storage key '${key}'`)
+    }
+    return resolve(root, key)
+  }
+
+  return {
+    name: 'local',
+
+    async save(key, body, { maxSize } = {}) {
+      const filePath = pathOf(key)
+      await mkdir(root, { recursive: true })
+
+      let size = 0
+      const limit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length
+          if (maxSize !== undefined && size > maxSize) {
+            callback(new FileTooLargeError(maxSize))
+          } else {
+            callback(null, chunk)
+          }
+        },
+      })
+
+      try {
+        await pipeline(
+          Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+          limit,
+          createWriteStream(filePath, { flags: 'wx' })
+        )
+      } catch (error) {
+        await rm(filePath, { force: true })
+        throw error
+      }
+
+      return { size }
+    },
+
+    async read(key) {
+      if (!isValidStorageKey(key)) return null
+
+      const filePath = pathOf(key)
+      try {
+        const stats = await stat(filePath)
+        if (!stats.isFile()) return null
+
+        return {
+          body: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+          size: stats.size,
+          lastModified: stats.mtime,
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async remove(key) {
+      await rm(pathOf(key), { force: true })
+    },
+
+    getUrl(key) {
+      return `${publicPath}/${encodeURIComponent(key)}`
+    },
+
+    getKey(url) {
+      if (!url.startsWith(`${publicPath}/`)) return null
+      const key = decodeURIComponent(url.slice(publicPath.length + 1))
+      return isValidStorageKey(key) ? key : null
+    },
+  }
+}
+
+let storageAdapter: StorageAdapter | null = null
+
+/**
+ * The storage adapter used for uploads, configured by MEDIA_STORAGE_DRIVER and MEDIA_UPLOAD_DIR
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!storageAdapter) {
+    const driver = process.env.MEDIA_STORAGE_DRIVER || 'local'
+    if (driver !== 'local') {
+      throw new Error(`Unsupported media storage driver '${driver}'`)
+    }
+    storageAdapter = createLocalStorageAdapter({
+      directory: process.env.MEDIA_UPLOAD_DIR || './uploads',
+    })
+  }
+  return storageAdapter
+}
+
+/**
+ * Replace the storage adapter, e.g. with an S3-compatible implementation or in tests
+ */
+export function setStorageAdapter(adapter: StorageAdapter | null) {
+  storageAdapter = adapter
+}
@@ -0,0 +1,461 @@
+/**
+ * Media uploads and file serving
+ * Streams multipart uploads into the storage adapter as they arrive, records them as Media rows
+ * and serves the stored files back with their Content-Type and long-lived caching headers
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { once } from 'node:events'
+import { Readable } from 'node:stream'
+import Busboy, { type BusboyFileStream, type BusboyInstance } from '@fastify/busboy'
+import { ApiResponseBuilder, type ApiFieldError } from '../lib/api-response'
+import { sanitizeFileName, validateMimeType } from '../lib/security/sanitization'
+import {
+  createMedia,
+  generateUniqueFilename,
+  parseMediaFormats,
+  toMediaFile,
+  type CreateMediaData,
+} from './media-utils'
+import { getStorageAdapter, type StorageAdapter } from './media-storage'
+import {
+  getFormatUrls,
+  getImageProcessingOptions,
+  isProcessableImage,
+  processImage,
+  type ImageProcessingOptions,
+} from './image-processor'
+import { clearTransformCache } from './image-transform'
+
+export const DEFAULT_MAX_UPLOAD_SIZE = 10 * 1024 * 1024
+
+export const DEFAULT_ALLOWED_UPLOAD_TYPES = [
+  'image/*',
+  'video/*',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+]
+
+export const MAX_FILES_PER_UPLOAD = 10
+
+export type UploadOptions = {
+  storage?: StorageAdapter
+  maxFileSize?: number
+  allowedMimeTypes?: string[]
+  image?: ImageProcessingOptions
+}
+
+/**
+ * Upload limits from MEDIA_MAX_FILE_SIZE (bytes) and MEDIA_ALLOWED_TYPES (comma-separated)
+ */
+export function getUploadOptions(): Required<
+  Pick<UploadOptions, 'maxFileSize' | 'allowedMimeTypes'>
+> {
+  const maxFileSize = Number(process.env.MEDIA_MAX_FILE_SIZE)
+  const allowedMimeTypes = (process.env.MEDIA_ALLOWED_TYPES || '')
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean)
+
+  return {
+    maxFileSize: maxFileSize > 0 ? maxFileSize : DEFAULT_MAX_UPLOAD_SIZE,
+    allowedMimeTypes: allowedMimeTypes.length > 0 ? allowedMimeTypes : DEFAULT_ALLOWED_UPLOAD_TYPES,
+  }
+}
+
+/** Room for multipart boundaries, part headers and the `altText` field of an upload request */
+const MULTIPART_OVERHEAD = 64 * 1024
+
+/**
+ * Largest accepted upload request body: MAX_FILES_PER_UPLOAD files of the maximum size
+ */
+export function getMaxUploadRequestSize(maxFileSize = getUploadOptions().maxFileSize): number {
+  return maxFileSize * MAX_FILES_PER_UPLOAD + MULTIPART_OVERHEAD
+}
+
+/**
+ * Thrown when an upload request body grows beyond getMaxUploadRequestSize(), which is checked
+ * while reading so that requests without a Content-Length are capped as well
+ */
+export class UploadTooLargeError extends Error {
+  readonly maxSize: number
+
+  constructor(maxSize: number) {
+    super(`Upload exceeds the maximum size of ${maxSize} bytes`)
+    this.name = 'UploadTooLargeError'
+    this.maxSize = maxSize
+  }
+}
+
+/**
+ * Thrown for request bodies that are not valid multipart/form-data
+ */
+class MultipartError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MultipartError'
+  }
+}
+
+type StoredUpload = { key: string; filename: string; mimeType: string; size: number }
+
+type ReceivedUpload = {
+  files: StoredUpload[]
+  fields: Record<string, string>
+  errors: ApiFieldError[]
+  fileCount: number
+  tooManyFiles: boolean
+}
+
+/**
+ * Parse a multipart upload as it arrives and write every allowed `file` part to storage
+ *
+ * Only the current chunk of a part is held in memory. Types are checked from the part headers
+ * before anything is written, sizes while writing. Files already written are returned even when
+ * other parts were rejected, so that the caller can remove them.
+ */
+async function receiveUpload(
+  request: Request,
+  storage: StorageAdapter,
+  limits: { maxFileSize: number; allowedMimeTypes: string[] }
+): Promise<ReceivedUpload> {
+  const maxRequestSize = getMaxUploadRequestSize(limits.maxFileSize)
+  const contentType = request.headers.get('content-type') ?? ''
+  if (!request.body || !contentType.toLowerCase().startsWith('multipart/form-data')) {
+    throw new MultipartError('Request body must be multipart/form-data')
+  }
+
+  const received: ReceivedUpload = {
+    files: [],
+    fields: {},
+    errors: [],
+    fileCount: 0,
+    tooManyFiles: false,
+  }
+  const writes: Promise<void>[] = []
+  const streams = new Set<BusboyFileStream>()
+
+  let parser: BusboyInstance
+  try {
+    parser = Busboy({
+      headers: { 'content-type': contentType },
+      limits: {
+        // One byte over the limit marks a file as truncated, i.e. too large
+        fileSize: limits.maxFileSize + 1,
+        files: MAX_FILES_PER_UPLOAD,
+        fields: 10,
+        fieldSize: 10 * 1024,
+      },
+    })
+  } catch {
+    throw new MultipartError('Request body must be multipart/form-data')
+  }
+
+  parser.on('field', (name, value) => {
+    received.fields[name] = value
+  })
+  parser.on('filesLimit', () => {
+    received.tooManyFiles = true
+  })
+  parser.on('file', (fieldName, stream, name, _encoding, type) => {
+    if (fieldName !== 'file') {
+      stream.resume()
+      return
+    }
+
+    const index = received.fileCount++
+    const path = `file[${index}]`
+    const mimeType = type.toLowerCase().split(';')[0].trim()
+    if (!validateMimeType(mimeType, limits.allowedMimeTypes)) {
+      received.errors[index] = {
+        path,
+        message: `${name}: type ${type || 'unknown'} is not allowed`,
+      }
+      stream.resume()
+      return
+    }
+
+    const filename = sanitizeFileName(name)
+    const file: StoredUpload = {
+      key: generateUniqueFilename(filename),
+      filename,
+      mimeType,
+      size: 0,
+    }
+    received.files.push(file)
+    streams.add(stream)
+    writes.push(
+      storage.save(file.key, Readable.toWeb(stream) as ReadableStream<Uint8Array>).then(
+        ({ size }) => {
+          streams.delete(stream)
+          file.size = size
+          if (stream.truncated) {
+            received.errors[index] = {
+              path,
+              message: `${name}: file exceeds ${limits.maxFileSize} bytes`,
+            }
+          }
+        },
+        error => {
+          streams.delete(stream)
+          stream.resume()
+          throw error
+        }
+      )
+    )
+  })
+
+  let failure: MultipartError | null = null
+  const parsed = new Promise<void>((resolve, reject) => {
+    parser.on('finish', resolve)
+    parser.on('error', error => {
+      failure ??= new MultipartError(error instanceof Error ? error.message : String(error))
+      reject(failure)
+    })
+  })
+  // Awaited once the body is read; until then parse errors are picked up through `failure`
+  parsed.catch(() => {})
+
+  try {
+    const reader = request.body.getReader()
+    let size = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (failure) {
+        await reader.cancel()
+        throw failure
+      }
+      if (done) break
+
+      size += value.length
+      if (size > maxRequestSize) {
+        await reader.cancel()
+        throw new UploadTooLargeError(maxRequestSize)
+      }
+      if (!parser.write(value)) {
+        await Promise.race([once(parser, 'drain'), parsed])
+      }
+    }
+    parser.end()
+    await parsed
+
+    const failed = (await Promise.allSettled(writes)).find(result => result.status === 'rejected')
+    if (failed) throw failed.reason
+  } catch (error) {
+    streams.forEach(stream => stream.destroy(error as Error))
+    parser.destroy()
+    await Promise.allSettled(writes)
+    await removeStoredUploads(storage, received.files)
+    throw error
+  }
+
+  received.errors = received.errors.filter(Boolean)
+  return received
+}
+
+/**
+ * Remove the files (and renditions) written for an upload that did not complete
+ */
+async function removeStoredUploads(storage: StorageAdapter, files: { key: string }[]) {
+  await Promise.all(files.map(file => storage.remove(file.key)))
+}
+
+/**
+ * Stream the `file` parts of a multipart upload request into storage and create a Media row for
+ * each
+ *
+ * The request body is never buffered: see receiveUpload. An `altText` part applies to all files
+ * of the request. Raster images also get their dimensions recorded and renditions generated; an
+ * image that cannot be decoded is stored without them. When a file is rejected or anything fails,
+ * every file and rendition written for the request is removed again and no Media row is kept.
+ */
+export async function uploadMediaFiles(
+  prisma: PrismaClient,
+  request: Request,
+  options: UploadOptions = {}
+) {
+  const storage = options.storage ?? getStorageAdapter()
+  const { maxFileSize, allowedMimeTypes } = { ...getUploadOptions(), ...options }
+
+  let upload: ReceivedUpload
+  try {
+    upload = await receiveUpload(request, storage, { maxFileSize, allowedMimeTypes })
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return ApiResponseBuilder.error({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: 'Upload exceeds maximum allowed size',
+        details: [error.message],
+      })
+    }
+    if (error instanceof MultipartError) {
+      return ApiResponseBuilder.error({
+        code: 'BAD_REQUEST',
+        message: 'Invalid multipart request body',
+        details: [error.message],
+      })
+    }
+    throw error
+  }
+
+  const { files, fields, errors } = upload
+  const rejection =
+    upload.fileCount === 0
+      ? ApiResponseBuilder.validationError(["Multipart field 'file' is required"])
+      : upload.tooManyFiles
+        ? ApiResponseBuilder.validationError([
+            `At most ${MAX_FILES_PER_UPLOAD} files can be uploaded at once`,
+          ])
+        : errors.length > 0
+          ? ApiResponseBuilder.fieldValidationError(errors, 'Upload rejected')
+          : null
+  if (rejection) {
+    await removeStoredUploads(storage, files)
+    return rejection
+  }
+
+  const altText = fields.altText?.trim() || undefined
+  const stored: { key: string }[] = [...files]
+  try {
+    const records: CreateMediaData[] = []
+    for (const file of files) {
+      const data: CreateMediaData = {
+        url: storage.getUrl(file.key),
+        filename: file.filename,
+        size: file.size,
+        mimeType: file.mimeType,
+        altText,
+      }
+
+      if (isProcessableImage(file.mimeType)) {
+        try {
+          Object.assign(
+            data,
+            await processImage(await readStoredFile(storage, file.key), {
+              key: file.key,
+              mimeType: file.mimeType,
+              storage,
+              ...(options.image ?? getImageProcessingOptions()),
+            })
+          )
+        } catch (error) {
+          console.warn(`Could not process image ${file.filename}:`, error)
+        }
+      }
+
+      getFormatUrls(data.formats ?? null).forEach(url => {
+        const key = storage.getKey(url)
+        if (key) stored.push({ key })
+      })
+      records.push(data)
+    }
+
+    const created = await prisma.$transaction(async (tx: PrismaClient) => {
+      const rows = []
+      for (const data of records) {
+        rows.push(await createMedia(tx, data))
+      }
+      return rows
+    })
+
+    return ApiResponseBuilder.success({
+      message: `Uploaded ${created.length} file${created.length === 1 ? '' : 's'}`,
+      data: { media: created.map(toMediaFile) },
+    })
+  } catch (error) {
+    await removeStoredUploads(storage, stored)
+    throw error
+  }
+}
+
+async function readStoredFile(storage: StorageAdapter, key: string): Promise<Buffer> {
+  const file = await storage.read(key)
+  if (!file) {
+    throw new Error(`Stored upload '${key}' is missing`)
+  }
+  return Buffer.from(await new Response(file.body).arrayBuffer())
+}
+
+/**
+ * Serve a stored media file
+ *
+ * Only files that belong to a Media row (the original or one of its renditions) are served.
+ * Keys are unique per upload, so responses can be cached indefinitely; `If-None-Match`
+ * requests are answered with 304.
+ */
+export async function serveMediaFile(
+  prisma: PrismaClient,
+  request: Request,
+  key: string,
+  storage: StorageAdapter = getStorageAdapter()
+): Promise<Response> {
+  const url = storage.getUrl(key)
+  const media = await prisma.media.findFirst({
+    where: { OR: [{ url }, { formats: { contains: JSON.stringify(url) } }] },
+  })
+  const mimeType = media?.url === url ? media.mimeType : getFormatMimeType(media?.formats, url)
+  const file = mimeType ? await storage.read(key) : null
+
+  if (!mimeType || !file) {
+    return ApiResponseBuilder.createHttpResponse(ApiResponseBuilder.notFound('Media file', key))
+  }
+
+  const etag = `"${file.size.toString(16)}-${file.lastModified.getTime().toString(16)}"`
+  const headers: Record<string, string> = {
+    'Content-Type': mimeType,
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    ETag: etag,
+    'Last-Modified': file.lastModified.toUTCString(),
+    'X-Content-Type-Options': 'nosniff',
+    // Uploaded SVG and HTML must not run scripts in the site's origin
+    'Content-Security-Policy':
+      "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'; sandbox",
+  }
+
+  if (request.headers.get('if-none-match') === etag) {
+    await file.body.cancel()
+    return new Response(null, { status: 304, headers })
+  }
+
+  headers['Content-Length'] = String(file.size)
+  if (request.method === 'HEAD') {
+    await file.body.cancel()
+    return new Response(null, { status: 200, headers })
+  }
+
+  return new Response(file.body, { status: 200, headers })
+}
+
+function getFormatMimeType(formats: string | null | undefined, url: string): string | null {
+  for (const format of Object.values(parseMediaFormats(formats ?? null) ?? {})) {
+    if (format.url === url) return format.mimeType
+    if (format.webp?.url === url) return format.webp.mimeType
+  }
+  return null
+}
+
+/**
+ * Delete Media rows together with their stored files, renditions and cached transformations
+ */
+export async function deleteMediaWithFiles(
+  prisma: PrismaClient,
+  ids: string[],
+  storage: StorageAdapter = getStorageAdapter()
+) {
+  const media: { id: string; url: string; formats: string | null }[] = await prisma.media.findMany({
+    where: { id: { in: ids } },
+  })
+
+  await prisma.media.deleteMany({ where: { id: { in: media.map(item => item.id) } } })
+
+  for (const item of media) {
+    for (const url of [item.url, ...getFormatUrls(parseMediaFormats(item.formats))]) {
+      const key = storage.getKey(url)
+      if (key) await storage.remove(key)
+    }
+  }
+  await clearTransformCache(media.map(item => item.id))
+
+  return media.length
+}
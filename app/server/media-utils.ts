@@ -4,6 +4,16 @@
 
 import { PrismaClient } from '@prisma/client'
 import { generateId } from '../lib/utils'
+import {
+  formatMediaValue,
+  getMediaConstraintError,
+  getMediaFieldOptions,
+  parseMediaValue,
+  type MediaFieldOptions,
+  type MediaReference,
+} from '../lib/media-fields'
+import type { MediaFile, MediaFormats } from '../lib/media-service'
+import { getMediaSrcSet } from './image-transform'
 
 export type CreateMediaData = {
   url: string
@@ -11,12 +21,32 @@ export type CreateMediaData = {
   size: number
   mimeType: string
   altText?: string
+  width?: number
+  height?: number
+  orientation?: number | null
+  formats?: MediaFormats
 }
 
-export type UpdateMediaData = Partial<CreateMediaData> & {
+export type UpdateMediaData = Partial<Omit<CreateMediaData, 'formats'>> & {
   id: string
 }
 
+/**
+ * Media row as stored, with the renditions still serialized
+ */
+type MediaRow = {
+  id: string
+  url: string
+  filename: string
+  size: number
+  mimeType: string
+  altText: string | null
+  width: number | null
+  height: number | null
+  formats: string | null
+  createdAt: Date
+}
+
 /**
  * Create a new media file record
  */
@@ -28,6 +58,10 @@ export async function createMedia(prisma: PrismaClient, data: CreateMediaData) {
       size: data.size,
       mimeType: data.mimeType,
       altText: data.altText,
+      width: data.width,
+      height: data.height,
+      orientation: data.orientation ?? undefined,
+      formats: data.formats ? JSON.stringify(data.formats) : undefined,
     },
   })
 }
@@ -40,7 +74,8 @@ export async function getMedia(
   page: number = 1,
   pageSize: number = 20,
   searchTerm?: string,
-  type?: string
+  type?: string,
+  allowedMimeTypes: string[] = []
 ) {
   const skip = (page - 1) * pageSize
 
@@ -50,10 +85,18 @@ export async function getMedia(
   if (searchTerm) {
     where.filename = {
       contains: searchTerm,
-      mode: 'insensitive',
     }
   }
 
+  // Restrict to the MIME patterns a media field accepts (`image/*`, `application/pdf`)
+  if (allowedMimeTypes.length > 0) {
+    where.OR = allowedMimeTypes.map(pattern =>
+      pattern.endsWith('/*')
+        ? { mimeType: { startsWith: pattern.slice(0, -1) } }
+        : { mimeType: pattern }
+    )
+  }
+
   if (type && type !== 'all') {
     switch (type) {
       case 'image':
@@ -63,11 +106,7 @@ export async function getMedia(
         where.mimeType = { startsWith: 'video/' }
         break
       case 'document':
-        where.mimeType = {
-          not: {
-            OR: [{ startsWith: 'image/' }, { startsWith: 'video/' }],
-          },
-        }
+        where.NOT = [{ mimeType: { startsWith: 'image/' } }, { mimeType: { startsWith: 'video/' } }]
         break
     }
   }
@@ -102,6 +141,17 @@ export async function getMediaById(prisma: PrismaClient, id: string) {
   })
 }
 
+/**
+ * Get the media files with the given IDs, in no particular order
+ */
+export async function getMediaByIds(prisma: PrismaClient, ids: string[]) {
+  if (ids.length === 0) return []
+
+  return await prisma.media.findMany({
+    where: { id: { in: ids } },
+  })
+}
+
 /**
  * Update media metadata
  */
@@ -158,14 +208,191 @@ export function getMediaType(mimeType: string): 'image' | 'video' | 'document' {
   return 'document'
 }
 
+/**
+ * Convert a Media row to the shape used by the media library and picker
+ */
+export function toMediaFile(media: MediaRow): MediaFile {
+  return {
+    id: media.id,
+    url: media.url,
+    filename: media.filename,
+    name: media.filename,
+    type: getMediaType(media.mimeType),
+    size: media.size,
+    mimeType: media.mimeType,
+    altText: media.altText ?? undefined,
+    width: media.width ?? undefined,
+    height: media.height ?? undefined,
+    formats: parseMediaFormats(media.formats) ?? undefined,
+    srcSet: getMediaSrcSet(media) ?? undefined,
+    createdAt: media.createdAt.toISOString().split('T')[0],
+  }
+}
+
+/**
+ * Parse the renditions stored in a Media row's JSON formats column
+ */
+export function parseMediaFormats(formats: string | null): MediaFormats | null {
+  if (!formats) return null
+  try {
+    return JSON.parse(formats)
+  } catch {
+    return null
+  }
+}
+
 /**
  * Generate unique filename to avoid conflicts
  */
 export function generateUniqueFilename(originalFilename: string): string {
   const timestamp = Date.now()
   const randomId = generateId()
-  const extension = originalFilename.split('.').pop()
+  const extension = originalFilename.match(/\.([^/.]+)$/)?.[1]
   const baseName = originalFilename.replace(/\.[^/.]+$/, '')
 
-  return `${baseName}-${timestamp}-${randomId}.${extension}`
+  return extension
+    ? `${baseName}-${timestamp}-${randomId}.${extension}`
+    : `${baseName}-${timestamp}-${randomId}`
+}
+
+/**
+ * Media field definition as read from ContentField
+ */
+export type MediaField = {
+  options: string | null
+}
+
+/**
+ * Read the media constraints of a field from its JSON options column
+ */
+export function getFieldMediaOptions(field: MediaField): MediaFieldOptions {
+  try {
+    return getMediaFieldOptions(field.options ? JSON.parse(field.options) : null)
+  } catch {
+    return getMediaFieldOptions(null)
+  }
+}
+
+/**
+ * Check a media field value against the Media table and the field's constraints
+ *
+ * Returns the normalized stored value: a single Media ID, or a JSON array of IDs for
+ * fields with `multiple` enabled.
+ */
+export async function validateMediaValue(
+  prisma: PrismaClient,
+  field: MediaField,
+  value: unknown
+): Promise<{ value: string } | { error: string }> {
+  const ids = parseMediaValue(value)
+  if (ids.length === 0) return { value: '' }
+
+  const options = getFieldMediaOptions(field)
+  if (!options.multiple && ids.length > 1) {
+    return { error: 'accepts a single media file' }
+  }
+  if (new Set(ids).size !== ids.length) {
+    return { error: 'references the same media file more than once' }
+  }
+
+  const media: { id: string; filename: string; mimeType: string; size: number }[] =
+    await getMediaByIds(prisma, ids)
+  const missing = ids.filter(id => !media.some(item => item.id === id))
+  if (missing.length > 0) {
+    return { error: `references missing media: ${missing.join(', ')}` }
+  }
+
+  for (const item of media) {
+    const constraintError = getMediaConstraintError(item, options)
+    if (constraintError) {
+      return { error: `media '${item.filename}' ${constraintError}` }
+    }
+  }
+
+  return { value: formatMediaValue(ids, options.multiple) }
+}
+
+export type ExpandableEntry = {
+  fieldValues: { value: string | null; field?: { fieldType: string; options: string | null } }[]
+  populated?: Record<string, unknown>
+}
+
+type ExpandedEntry<T extends ExpandableEntry> = Omit<T, 'fieldValues'> & {
+  fieldValues: (T['fieldValues'][number] & {
+    media?: MediaReference | MediaReference[] | null
+  })[]
+}
+
+/**
+ * Replace media references in entry responses with the referenced files
+ *
+ * Every MEDIA field value gets a `media` property: the file's `{ id, url, altText, mimeType,
+ * size, width, height, formats }` (or an array of them for multiple fields), or null when the
+ * file no longer exists.
+ * Entries embedded through `populate` are expanded as well.
+ */
+export async function expandMediaReferences<T extends ExpandableEntry>(
+  prisma: PrismaClient,
+  entries: T[]
+): Promise<ExpandedEntry<T>[]> {
+  const ids = new Set<string>()
+  const collect = (entry: ExpandableEntry) => {
+    entry.fieldValues.forEach(fv => {
+      if (fv.field?.fieldType === 'MEDIA') parseMediaValue(fv.value).forEach(id => ids.add(id))
+    })
+    forEachPopulatedEntry(entry, collect)
+  }
+  entries.forEach(collect)
+
+  const rows: MediaRow[] = await getMediaByIds(prisma, [...ids])
+  const media = new Map<string, MediaReference>(
+    rows.map(item => [
+      item.id,
+      {
+        id: item.id,
+        url: item.url,
+        altText: item.altText ?? null,
+        mimeType: item.mimeType,
+        size: item.size,
+        width: item.width ?? null,
+        height: item.height ?? null,
+        formats: parseMediaFormats(item.formats),
+        srcSet: getMediaSrcSet(item),
+      },
+    ])
+  )
+
+  const expand = <E extends ExpandableEntry>(entry: E): ExpandedEntry<E> => ({
+    ...entry,
+    fieldValues: entry.fieldValues.map(fv => {
+      if (fv.field?.fieldType !== 'MEDIA') return fv
+
+      const references = parseMediaValue(fv.value).flatMap(id => media.get(id) ?? [])
+      return {
+        ...fv,
+        media: getFieldMediaOptions(fv.field).multiple ? references : (references[0] ?? null),
+      }
+    }),
+    ...(entry.populated && {
+      populated: Object.fromEntries(
+        Object.entries(entry.populated).map(([name, value]) => [
+          name,
+          Array.isArray(value)
+            ? value.map(item => expand(item))
+            : value
+              ? expand(value as ExpandableEntry)
+              : value,
+        ])
+      ),
+    }),
+  })
+
+  return entries.map(expand)
+}
+
+function forEachPopulatedEntry(entry: ExpandableEntry, visit: (entry: ExpandableEntry) => void) {
+  Object.values(entry.populated ?? {}).forEach(value => {
+    if (Array.isArray(value)) value.forEach(visit)
+    else if (value) visit(value as ExpandableEntry)
+  })
 }
@@ -0,0 +1,246 @@
+/**
+ * Prometheus metrics for GET /api/metrics
+ *
+ * Counters and histograms live in memory per process and are filled in by the API layer: the
+ * API manager's metrics middleware, the rate limiter, CSRF protection, the login attempt tracker
+ * and the Prisma client. Entry counts are read from the database when the metrics are scraped.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { PrismaClient } from '@prisma/client'
+
+type Labels = Record<string, string>
+
+/** Content type of the Prometheus text exposition format */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/** Histogram buckets in seconds, from fast queries to slow requests */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function getSeriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort())
+}
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>()
+  readonly name: string
+  readonly help: string
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = getSeriesKey(labels)
+    const entry = this.series.get(key) ?? { labels, value: 0 }
+    entry.value += value
+    this.series.set(key, entry)
+  }
+
+  reset() {
+    this.series.clear()
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    }
+    return lines
+  }
+}
+
+class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >()
+  readonly name: string
+  readonly help: string
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  observe(labels: Labels, seconds: number) {
+    const key = getSeriesKey(labels)
+    const entry = this.series.get(key) ?? {
+      labels,
+      buckets: DURATION_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+    }
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) entry.buckets[index]++
+    })
+    entry.sum += seconds
+    entry.count++
+    this.series.set(key, entry)
+  }
+
+  reset() {
+    this.series.clear()
+  }
+
+  /** Observation count and sum across all series */
+  total(): { sum: number; count: number } {
+    let sum = 0
+    let count = 0
+    for (const entry of this.series.values()) {
+      sum += entry.sum
+      count += entry.count
+    }
+    return { sum, count }
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`
+        )
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+const apiRequests = new Counter(
+  'tancms_api_requests_total',
+  'API requests by route, method and status code'
+)
+const apiRequestDuration = new Histogram(
+  'tancms_api_request_duration_seconds',
+  'API request latency by route, method and status code'
+)
+const rateLimitRejections = new Counter(
+  'tancms_rate_limit_rejections_total',
+  'Requests rejected by the rate limiter'
+)
+const csrfRejections = new Counter(
+  'tancms_csrf_rejections_total',
+  'Requests rejected by CSRF protection by reason'
+)
+const loginFailures = new Counter('tancms_login_failures_total', 'Failed login attempts')
+const dbQueryDuration = new Histogram(
+  'tancms_db_query_duration_seconds',
+  'Prisma query latency by model and operation'
+)
+
+const METRICS = [
+  apiRequests,
+  apiRequestDuration,
+  rateLimitRejections,
+  csrfRejections,
+  loginFailures,
+  dbQueryDuration,
+]
+
+/**
+ * Route label of an API path; IDs and content type slugs are replaced by placeholders so that
+ * the number of series stays bounded
+ */
+export function getRouteLabel(path: string): string {
+  if (path === '/api/status' || path === '/api/search' || path === '/api/graphql') {
+    return path
+  }
+  const segments = path.split('/').filter(Boolean)
+  if (segments[0] !== 'api' || segments.length < 2 || segments.length > 3) {
+    return 'other'
+  }
+  return segments.length === 2 ? '/api/:contentType' : '/api/:contentType/:id'
+}
+
+export function recordApiRequest(path: string, method: string, status: number, durationMs: number) {
+  const labels = { route: getRouteLabel(path), method, status: String(status) }
+  apiRequests.inc(labels)
+  apiRequestDuration.observe(labels, durationMs / 1000)
+}
+
+export function recordRateLimitRejection() {
+  rateLimitRejections.inc()
+}
+
+export function recordCsrfRejection(reason: 'origin' | 'token') {
+  csrfRejections.inc({ reason })
+}
+
+export function recordLoginFailure() {
+  loginFailures.inc()
+}
+
+export function recordDbQuery(model: string | undefined, operation: string, durationMs: number) {
+  dbQueryDuration.observe({ model: model ?? 'raw', operation }, durationMs / 1000)
+}
+
+/**
+ * Number of API requests since the process started and their average latency in milliseconds
+ */
+export function getApiRequestSummary(): { count: number; averageMs: number } {
+  const { sum, count } = apiRequestDuration.total()
+  return { count, averageMs: count > 0 ? (sum / count) * 1000 : 0 }
+}
+
+/**
+ * Clear every recorded metric, e.g. between tests
+ */
+export function resetMetrics() {
+  METRICS.forEach(metric => metric.reset())
+}
+
+async function renderContentMetrics(prisma: PrismaClient): Promise<string[]> {
+  const contentTypes: { slug: string; _count: { entries: number } }[] =
+    await prisma.contentType.findMany({
+      select: { slug: true, _count: { select: { entries: true } } },
+      orderBy: { slug: 'asc' },
+    })
+
+  return [
+    '# HELP tancms_content_entries Entries per content type',
+    '# TYPE tancms_content_entries gauge',
+    ...contentTypes.map(
+      contentType =>
+        `tancms_content_entries${formatLabels({ content_type: contentType.slug })} ${contentType._count.entries}`
+    ),
+  ]
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ */
+export async function renderMetrics(prisma: PrismaClient): Promise<string> {
+  const lines = METRICS.flatMap(metric => metric.render())
+  lines.push(...(await renderContentMetrics(prisma)))
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Whether the request carries the token configured by METRICS_TOKEN as a bearer token
+ */
+export function isMetricsTokenValid(
+  authorization: string | null,
+  token: string | undefined = process.env.METRICS_TOKEN
+): boolean {
+  if (!token || !authorization?.startsWith('Bearer ')) return false
+
+  const provided = Buffer.from(authorization.slice('Bearer '.length))
+  const expected = Buffer.from(token)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
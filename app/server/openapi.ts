@@ -0,0 +1,1093 @@
+/**
+ * OpenAPI 3.1 document for the REST API
+ * Generated from the content types on every request: each content type gets its list, CRUD,
+ * search and revision operations with request and response schemas derived from its fields,
+ * next to the global search, activity, GraphQL and media endpoints.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import type { HttpMethod } from '../lib/api-manager'
+import { API_ERROR_CODES, ApiResponseBuilder } from '../lib/api-response'
+import {
+  getEndpointSettings,
+  WRITE_OPERATIONS,
+  type EndpointSetting,
+} from '../lib/endpoint-settings'
+import { isMultipleRelation } from '../lib/relations'
+import { ACTIVITY_ACTIONS, ACTIVITY_MAX_PAGE_SIZE } from '../lib/activity'
+import { getContentTypes } from './content-type-utils'
+import {
+  DEFAULT_PAGE_SIZE,
+  getEndpointOperation,
+  MAX_PAGE_SIZE,
+  parseContentApiPath,
+} from './content-api'
+import { FILTER_OPERATORS } from './content-query'
+import { getFieldValidationOptions, type FieldDefinition } from './field-validation'
+import { toTypeName } from './graphql-schema'
+import { getFieldMediaOptions } from './media-utils'
+import { getFieldRelationOptions } from './relation-utils'
+
+export const OPENAPI_VERSION = '3.1.0'
+
+type SchemaObject = Record<string, unknown>
+
+export type OpenApiOperation = {
+  operationId: string
+  tags: string[]
+  summary: string
+  description?: string
+  parameters?: SchemaObject[]
+  requestBody?: SchemaObject
+  responses: Record<string, SchemaObject>
+  security?: Record<string, string[]>[]
+}
+
+export type OpenApiDocument = {
+  openapi: string
+  info: { title: string; version: string; description: string }
+  servers: { url: string }[]
+  tags: { name: string; description?: string }[]
+  paths: Record<string, Record<string, OpenApiOperation>>
+  components: {
+    schemas: Record<string, SchemaObject>
+    responses: Record<string, SchemaObject>
+    securitySchemes: Record<string, SchemaObject>
+  }
+  security: Record<string, string[]>[]
+}
+
+type OpenApiContentType = {
+  id: string
+  slug: string
+  displayName: string
+  description?: string | null
+  apiSettings?: string | null
+  fields: FieldDefinition[]
+}
+
+type ContentTypeSchemas = {
+  contentType: OpenApiContentType
+  /** Prefix of the schema names and operation IDs of the content type */
+  name: string
+}
+
+const FIELD_TYPES = [
+  'TEXT',
+  'TEXTAREA',
+  'NUMBER',
+  'BOOLEAN',
+  'DATE',
+  'EMAIL',
+  'URL',
+  'PHONE',
+  'COLOR',
+  'SLUG',
+  'PASSWORD',
+  'JSON',
+  'RELATION',
+  'MEDIA',
+]
+
+const ENTRY_STATUSES = ['DRAFT', 'PUBLISHED', 'SCHEDULED', 'ARCHIVED']
+
+/** Columns that can be filtered and sorted next to the fields of a content type */
+const ENTRY_COLUMNS = [
+  'id',
+  'slug',
+  'status',
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'scheduledAt',
+]
+
+/** Content type slugs whose REST paths are taken by built-in endpoints */
+const SHADOWED_SLUGS = ['status', 'search', 'graphql', 'activity']
+
+/** Reusable error responses, keyed by HTTP status */
+const ERROR_RESPONSE_NAMES: Record<number, string> = {
+  400: 'BadRequest',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'NotFound',
+  405: 'MethodNotAllowed',
+  409: 'Conflict',
+  429: 'TooManyRequests',
+  500: 'InternalServerError',
+}
+
+/** Schema name suffixes generated for every content type */
+const SCHEMA_SUFFIXES = ['Entry', 'FieldValue', 'FieldValueInput', 'CreateInput', 'UpdateInput']
+
+const API_KEY_SECURITY: Record<string, string[]>[] = [{ apiKey: [] }, {}]
+
+/** Security of content type operations by their endpoint access level */
+const ACCESS_SECURITY: Record<
+  NonNullable<EndpointSetting['access']>,
+  Record<string, string[]>[]
+> = {
+  public: [],
+  authenticated: [{ apiKey: [] }, { bearerAuth: [] }],
+  role: [{ bearerAuth: [] }],
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+const responseRef = (status: number) => ({
+  $ref: `#/components/responses/${ERROR_RESPONSE_NAMES[status]}`,
+})
+
+const nullable = (schema: SchemaObject) => ({ oneOf: [schema, { type: 'null' }] })
+
+/**
+ * Drop undefined keywords, e.g. validation rules a field does not set
+ */
+function compact(schema: SchemaObject): SchemaObject {
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined))
+}
+
+/**
+ * JSON schema of the value of a field in entry writes, including its validation rules
+ */
+export function getFieldValueSchema(field: FieldDefinition): SchemaObject {
+  const rules = getFieldValidationOptions(field)
+  const ids = (multiple: boolean, description: string) =>
+    multiple
+      ? { type: 'array', items: { type: 'string' }, uniqueItems: true, description }
+      : { type: 'string', description }
+
+  switch (field.fieldType) {
+    case 'NUMBER':
+      return compact({ type: 'number', minimum: rules.min, maximum: rules.max })
+    case 'BOOLEAN':
+      return { type: 'boolean' }
+    case 'DATE':
+      return { type: 'string', format: 'date-time' }
+    case 'EMAIL':
+      return { type: 'string', format: 'email' }
+    case 'URL':
+      return { type: 'string', format: 'uri' }
+    case 'PASSWORD':
+      return compact({
+        type: 'string',
+        format: 'password',
+        writeOnly: true,
+        minLength: rules.minLength,
+        maxLength: rules.maxLength,
+      })
+    case 'JSON':
+      return { description: 'Any JSON value' }
+    case 'RELATION':
+      return ids(
+        isMultipleRelation(getFieldRelationOptions(field).kind),
+        `Entry ID of the '${field.relatedType}' content type`
+      )
+    case 'MEDIA':
+      return ids(getFieldMediaOptions(field).multiple, 'Media ID')
+    default:
+      return compact({
+        type: 'string',
+        minLength: rules.minLength,
+        maxLength: rules.maxLength,
+        pattern: rules.pattern,
+      })
+  }
+}
+
+/**
+ * Assign unique schema name prefixes to content types
+ */
+function nameContentTypes(contentTypes: OpenApiContentType[]): ContentTypeSchemas[] {
+  const used = new Set(Object.keys(buildBaseSchemas()))
+
+  return contentTypes.map(contentType => {
+    const base = toTypeName(contentType.slug)
+    let name = base
+    let counter = 1
+    while (SCHEMA_SUFFIXES.some(suffix => used.has(name + suffix))) {
+      name = `${base}Type${counter > 1 ? counter : ''}`
+      counter++
+    }
+    SCHEMA_SUFFIXES.forEach(suffix => used.add(name + suffix))
+    return { contentType, name }
+  })
+}
+
+/**
+ * Build the OpenAPI document for a set of content types
+ */
+export function buildOpenApiDocument(
+  contentTypes: OpenApiContentType[],
+  options: { serverUrl?: string } = {}
+): OpenApiDocument {
+  const exposed = nameContentTypes(
+    contentTypes.filter(contentType => !SHADOWED_SLUGS.includes(contentType.slug))
+  )
+
+  const schemas: Record<string, SchemaObject> = buildBaseSchemas()
+  const paths: OpenApiDocument['paths'] = buildGlobalPaths()
+
+  for (const mapping of exposed) {
+    Object.assign(schemas, buildContentTypeSchemas(mapping))
+    Object.assign(paths, buildContentTypePaths(mapping))
+  }
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'TanCMS API',
+      version: '1.0.0',
+      description:
+        'REST API generated from the content types. Every response uses the standard ' +
+        '`{ success, message, data, error, meta }` envelope.',
+    },
+    servers: [{ url: options.serverUrl ?? '/' }],
+    tags: [
+      { name: 'System', description: 'Status, search, GraphQL and API description' },
+      { name: 'Media', description: 'Media uploads' },
+      ...exposed.map(({ contentType }) => ({
+        name: contentType.displayName,
+        description: contentType.description || undefined,
+      })),
+    ],
+    paths,
+    components: {
+      schemas,
+      responses: buildErrorResponses(),
+      securitySchemes: {
+        apiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description:
+            'Required when the server requires API keys (REQUIRE_API_KEY, on by default in ' +
+            'production) or an endpoint setting limits an operation to ' +
+            'authenticated requests; may also be sent as `Authorization: Bearer <key>`. Keys are ' +
+            'scoped to read or write access per content type.',
+        },
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Access token returned by /api/auth?action=login',
+        },
+      },
+    },
+    security: API_KEY_SECURITY,
+  }
+}
+
+/**
+ * The OpenAPI document for the current content types
+ */
+export async function generateOpenApiDocument(
+  prisma: PrismaClient,
+  options: { serverUrl?: string } = {}
+): Promise<OpenApiDocument> {
+  const contentTypes: OpenApiContentType[] = await getContentTypes(prisma)
+  return buildOpenApiDocument(
+    [...contentTypes].sort((a, b) => a.slug.localeCompare(b.slug)),
+    options
+  )
+}
+
+function buildBaseSchemas(): Record<string, SchemaObject> {
+  const dateTime = { type: 'string', format: 'date-time' }
+
+  return {
+    ApiErrorCode: { type: 'string', enum: [...API_ERROR_CODES] },
+    ApiFieldError: {
+      type: 'object',
+      required: ['path', 'message'],
+      properties: {
+        path: { type: 'string', examples: ['fieldValues.title'] },
+        message: { type: 'string' },
+      },
+    },
+    ApiPageInfo: {
+      type: 'object',
+      required: ['hasNextPage', 'hasPreviousPage', 'startCursor', 'endCursor'],
+      properties: {
+        hasNextPage: { type: 'boolean' },
+        hasPreviousPage: { type: 'boolean' },
+        startCursor: { type: ['string', 'null'] },
+        endCursor: { type: ['string', 'null'] },
+      },
+    },
+    ApiResponseMeta: {
+      type: 'object',
+      required: ['timestamp', 'version'],
+      properties: {
+        requestId: { type: 'string' },
+        timestamp: dateTime,
+        version: { type: 'string' },
+        processingTime: { type: 'number' },
+        pageInfo: ref('ApiPageInfo'),
+      },
+    },
+    ApiError: {
+      type: 'object',
+      required: ['code', 'message'],
+      properties: {
+        code: ref('ApiErrorCode'),
+        message: { type: 'string' },
+        details: { type: 'array', items: { type: 'string' } },
+        fields: { type: 'array', items: ref('ApiFieldError') },
+      },
+    },
+    SuccessResponse: {
+      type: 'object',
+      required: ['success', 'message', 'meta'],
+      properties: {
+        success: { const: true },
+        message: { type: 'string' },
+        data: {},
+        meta: ref('ApiResponseMeta'),
+      },
+    },
+    ErrorResponse: {
+      type: 'object',
+      required: ['success', 'message', 'error', 'meta'],
+      properties: {
+        success: { const: false },
+        message: { type: 'string' },
+        error: ref('ApiError'),
+        meta: ref('ApiResponseMeta'),
+      },
+    },
+    Pagination: {
+      type: 'object',
+      required: ['limit', 'hasNext', 'hasPrev'],
+      properties: {
+        page: { type: 'integer' },
+        limit: { type: 'integer' },
+        total: { type: 'integer' },
+        totalPages: { type: 'integer' },
+        hasNext: { type: 'boolean' },
+        hasPrev: { type: 'boolean' },
+      },
+      description: 'Page numbers and totals are omitted with cursor pagination',
+    },
+    EntryStatus: { type: 'string', enum: ENTRY_STATUSES },
+    FieldType: { type: 'string', enum: FIELD_TYPES },
+    ContentField: {
+      type: 'object',
+      required: ['id', 'name', 'displayName', 'fieldType', 'required', 'unique', 'order'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        displayName: { type: 'string' },
+        fieldType: ref('FieldType'),
+        required: { type: 'boolean' },
+        unique: { type: 'boolean' },
+        defaultValue: { type: ['string', 'null'] },
+        options: { type: ['string', 'null'], description: 'JSON encoded field options' },
+        relatedType: { type: ['string', 'null'] },
+        order: { type: 'integer' },
+      },
+    },
+    ContentType: {
+      type: 'object',
+      required: ['id', 'name', 'slug', 'displayName', 'fields'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        slug: { type: 'string' },
+        displayName: { type: 'string' },
+        description: { type: ['string', 'null'] },
+        fields: { type: 'array', items: ref('ContentField') },
+      },
+    },
+    Media: {
+      type: 'object',
+      required: ['id', 'url', 'mimeType', 'size'],
+      properties: {
+        id: { type: 'string' },
+        url: { type: 'string' },
+        altText: { type: ['string', 'null'] },
+        mimeType: { type: 'string' },
+        size: { type: 'integer' },
+        width: { type: ['integer', 'null'] },
+        height: { type: ['integer', 'null'] },
+        formats: {
+          type: ['object', 'null'],
+          description: 'Generated renditions by name, e.g. thumbnail',
+        },
+        srcSet: {
+          type: ['string', 'null'],
+          description: 'Signed transform URLs by width, for <img srcset>',
+        },
+      },
+    },
+    MediaFile: {
+      type: 'object',
+      required: ['id', 'url', 'filename', 'type', 'size', 'mimeType', 'createdAt'],
+      properties: {
+        id: { type: 'string' },
+        url: { type: 'string' },
+        filename: { type: 'string' },
+        name: { type: 'string' },
+        type: { type: 'string', enum: ['image', 'video', 'document'] },
+        size: { type: 'integer' },
+        mimeType: { type: 'string' },
+        altText: { type: 'string' },
+        width: { type: 'integer' },
+        height: { type: 'integer' },
+        formats: { type: 'object' },
+        srcSet: { type: 'string' },
+        createdAt: { type: 'string', format: 'date' },
+      },
+    },
+    EntryFieldValue: {
+      type: 'object',
+      required: ['fieldId', 'value'],
+      properties: {
+        id: { type: 'string' },
+        entryId: { type: 'string' },
+        fieldId: { type: 'string' },
+        value: {
+          type: ['string', 'null'],
+          description: 'Stored value; numbers, booleans, dates and JSON as text',
+        },
+        field: ref('ContentField'),
+      },
+    },
+    Entry: {
+      type: 'object',
+      required: ['id', 'contentTypeId', 'status', 'createdAt', 'updatedAt', 'fieldValues'],
+      properties: {
+        id: { type: 'string' },
+        contentTypeId: { type: 'string' },
+        slug: { type: ['string', 'null'] },
+        status: ref('EntryStatus'),
+        publishedAt: nullable(dateTime),
+        scheduledAt: nullable(dateTime),
+        unpublishAt: nullable(dateTime),
+        archiveAt: nullable(dateTime),
+        authorId: { type: ['string', 'null'] },
+        createdAt: dateTime,
+        updatedAt: dateTime,
+        fieldValues: { type: 'array', items: ref('EntryFieldValue') },
+        populated: {
+          type: 'object',
+          description: 'Related entries by field name, present with `populate`',
+        },
+      },
+    },
+    Revision: {
+      type: 'object',
+      required: ['id', 'entryId', 'version', 'status', 'fieldValues', 'createdAt'],
+      properties: {
+        id: { type: 'string' },
+        entryId: { type: 'string' },
+        version: { type: 'integer' },
+        slug: { type: 'string' },
+        status: ref('EntryStatus'),
+        authorId: { type: 'string' },
+        fieldValues: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              fieldId: { type: 'string' },
+              fieldName: { type: 'string' },
+              value: { type: 'string' },
+            },
+          },
+        },
+        restoredFromId: { type: 'string' },
+        createdAt: dateTime,
+      },
+    },
+    SearchResult: {
+      type: 'object',
+      required: ['id', 'title', 'status', 'contentType', 'snippet', 'rank'],
+      properties: {
+        id: { type: 'string' },
+        slug: { type: ['string', 'null'] },
+        title: { type: 'string' },
+        status: ref('EntryStatus'),
+        updatedAt: dateTime,
+        contentType: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            slug: { type: 'string' },
+            displayName: { type: 'string' },
+          },
+        },
+        snippet: { type: 'string', description: 'HTML-escaped text with <mark> highlights' },
+        rank: { type: 'number' },
+      },
+    },
+    Activity: {
+      type: 'object',
+      required: ['id', 'createdAt', 'action', 'actorName', 'target', 'contentType', 'summary'],
+      properties: {
+        id: { type: 'string' },
+        createdAt: dateTime,
+        action: { type: 'string', enum: [...ACTIVITY_ACTIONS] },
+        actorId: { type: ['string', 'null'] },
+        actorName: { type: 'string' },
+        target: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['entry', 'contentType'] },
+            id: { type: 'string' },
+            label: { type: 'string' },
+          },
+        },
+        contentType: {
+          type: 'object',
+          properties: { id: { type: 'string' }, name: { type: 'string' } },
+        },
+        summary: { type: 'string' },
+      },
+    },
+    FilterOperators: {
+      type: 'object',
+      properties: Object.fromEntries(FILTER_OPERATORS.map(operator => [operator, {}])),
+      additionalProperties: false,
+      description: '`in` takes a comma-separated list, `null` takes true or false',
+    },
+    GraphQLRequest: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string' },
+        variables: { type: 'object' },
+        operationName: { type: 'string' },
+      },
+    },
+    GraphQLResponse: {
+      type: 'object',
+      properties: {
+        data: { type: ['object', 'null'] },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['message'],
+            properties: {
+              message: { type: 'string' },
+              path: { type: 'array', items: { type: ['string', 'integer'] } },
+              extensions: { type: 'object' },
+            },
+          },
+        },
+      },
+    },
+  }
+}
+
+/**
+ * One response per error status, listing the error codes that use it
+ */
+function buildErrorResponses(): Record<string, SchemaObject> {
+  const responses: Record<string, SchemaObject> = {}
+
+  for (const [status, name] of Object.entries(ERROR_RESPONSE_NAMES)) {
+    const codes = API_ERROR_CODES.filter(
+      code => ApiResponseBuilder.getStatusCode(code) === Number(status)
+    )
+    responses[name] = {
+      description: `Error: ${codes.join(', ')}`,
+      content: {
+        'application/json': {
+          schema: {
+            allOf: [
+              ref('ErrorResponse'),
+              {
+                type: 'object',
+                properties: {
+                  error: { type: 'object', properties: { code: { enum: codes } } },
+                },
+              },
+            ],
+          },
+        },
+      },
+    }
+  }
+
+  return responses
+}
+
+/**
+ * Successful response wrapping `data` in the standard envelope
+ */
+function success(description: string, data: SchemaObject): SchemaObject {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          allOf: [ref('SuccessResponse'), { type: 'object', properties: { data } }],
+        },
+      },
+    },
+  }
+}
+
+function errors(...statuses: number[]): Record<string, SchemaObject> {
+  return Object.fromEntries(
+    [...statuses, 401, 429, 500].map(status => [String(status), responseRef(status)])
+  )
+}
+
+function queryParameter(
+  name: string,
+  schema: SchemaObject,
+  description?: string,
+  extra: SchemaObject = {}
+): SchemaObject {
+  return compact({ name, in: 'query', schema, description, ...extra })
+}
+
+function pathParameter(name: string, description: string): SchemaObject {
+  return { name, in: 'path', required: true, schema: { type: 'string' }, description }
+}
+
+function jsonBody(schema: SchemaObject, required = true): SchemaObject {
+  return { required, content: { 'application/json': { schema } } }
+}
+
+function buildGlobalPaths(): OpenApiDocument['paths'] {
+  const graphqlResponses = {
+    '200': {
+      description: 'GraphQL result',
+      content: { 'application/json': { schema: ref('GraphQLResponse') } },
+    },
+    ...errors(400, 405),
+  }
+
+  return {
+    '/api/status': {
+      get: {
+        operationId: 'getStatus',
+        tags: ['System'],
+        summary: 'API health',
+        security: [],
+        responses: {
+          '200': success('API status', {
+            type: 'object',
+            properties: {
+              status: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+              version: { type: 'string' },
+            },
+          }),
+        },
+      },
+    },
+    '/api/search': {
+      get: {
+        operationId: 'search',
+        tags: ['System'],
+        summary: 'Full-text search across content types',
+        parameters: [
+          queryParameter('q', { type: 'string' }, 'Search words', { required: true }),
+          queryParameter('types', { type: 'string' }, 'Comma-separated content type slugs'),
+          queryParameter('page', { type: 'integer', minimum: 1, default: 1 }),
+          queryParameter('limit', { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE }),
+        ],
+        responses: {
+          '200': success('Ranked matches', {
+            type: 'object',
+            properties: {
+              query: { type: 'string' },
+              results: { type: 'array', items: ref('SearchResult') },
+              pagination: ref('Pagination'),
+            },
+          }),
+          ...errors(400, 404),
+        },
+      },
+    },
+    '/api/activity': {
+      get: {
+        operationId: 'listActivity',
+        tags: ['System'],
+        summary: 'Activity stream of content changes, newest first',
+        description: 'Lists only the content types the caller may read',
+        parameters: [
+          queryParameter('entry', { type: 'string' }, 'Activity of one entry'),
+          queryParameter('contentType', { type: 'string' }, 'Content type slug'),
+          queryParameter('actor', { type: 'string' }, 'User ID'),
+          queryParameter(
+            'since',
+            { type: 'string', format: 'date-time' },
+            'Only activity after this time'
+          ),
+          queryParameter(
+            'before',
+            { type: 'string', format: 'date-time' },
+            'Only activity before this time'
+          ),
+          queryParameter('limit', { type: 'integer', minimum: 1, maximum: ACTIVITY_MAX_PAGE_SIZE }),
+        ],
+        responses: {
+          '200': success('Activity', {
+            type: 'object',
+            properties: {
+              activities: { type: 'array', items: ref('Activity') },
+              pagination: {
+                type: 'object',
+                properties: { limit: { type: 'integer' }, hasNext: { type: 'boolean' } },
+              },
+            },
+          }),
+          ...errors(400, 401, 403, 404),
+        },
+      },
+    },
+    '/api/graphql': {
+      get: {
+        operationId: 'graphqlQuery',
+        tags: ['System'],
+        summary: 'Run a GraphQL query',
+        description: 'Mutations must be sent with POST',
+        parameters: [
+          queryParameter('query', { type: 'string' }, 'GraphQL document', { required: true }),
+          queryParameter('variables', { type: 'string' }, 'JSON encoded variables'),
+          queryParameter('operationName', { type: 'string' }),
+        ],
+        responses: graphqlResponses,
+      },
+      post: {
+        operationId: 'graphql',
+        tags: ['System'],
+        summary: 'Run a GraphQL query or mutation',
+        requestBody: jsonBody(ref('GraphQLRequest')),
+        responses: graphqlResponses,
+      },
+    },
+    '/api/openapi.json': {
+      get: {
+        operationId: 'getOpenApiDocument',
+        tags: ['System'],
+        summary: 'This OpenAPI document',
+        security: [],
+        responses: {
+          '200': {
+            description: 'OpenAPI 3.1 document',
+            content: { 'application/json': { schema: { type: 'object' } } },
+          },
+        },
+      },
+    },
+    '/api/media': {
+      post: {
+        operationId: 'uploadMedia',
+        tags: ['Media'],
+        summary: 'Upload media files',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['file'],
+                properties: {
+                  file: { type: 'array', items: { type: 'string', format: 'binary' } },
+                  altText: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': success('Uploaded files', {
+            type: 'object',
+            properties: { media: { type: 'array', items: ref('MediaFile') } },
+          }),
+          ...errors(400),
+        },
+      },
+    },
+  }
+}
+
+function buildContentTypeSchemas({ contentType, name }: ContentTypeSchemas) {
+  const { fields } = contentType
+  const fieldIdSchema = (field: FieldDefinition) => ({
+    const: field.id,
+    description: `${field.displayName} (${field.name})`,
+  })
+
+  const inputItems = fields.map(field => ({
+    type: 'object',
+    title: field.displayName,
+    required: ['fieldId', 'value'],
+    properties: { fieldId: fieldIdSchema(field), value: getFieldValueSchema(field) },
+  }))
+
+  const fieldValues = (required: FieldDefinition[]) =>
+    compact({
+      type: 'array',
+      items: fields.length > 0 ? ref(`${name}FieldValueInput`) : false,
+      allOf:
+        required.length > 0
+          ? required.map(field => ({
+              contains: {
+                type: 'object',
+                required: ['fieldId'],
+                properties: { fieldId: { const: field.id } },
+              },
+            }))
+          : undefined,
+    })
+
+  const outputItems = fields.map(field => ({
+    type: 'object',
+    title: field.displayName,
+    properties: compact({
+      fieldId: fieldIdSchema(field),
+      media:
+        field.fieldType === 'MEDIA'
+          ? getFieldMediaOptions(field).multiple
+            ? { type: 'array', items: ref('Media') }
+            : nullable(ref('Media'))
+          : undefined,
+    }),
+  }))
+
+  return {
+    [`${name}FieldValueInput`]: { oneOf: inputItems },
+    [`${name}CreateInput`]: {
+      type: 'object',
+      properties: {
+        slug: { type: 'string', description: 'Made unique with a numeric suffix when taken' },
+        fieldValues: fieldValues(fields.filter(field => field.required)),
+      },
+    },
+    [`${name}UpdateInput`]: {
+      type: 'object',
+      description: 'fieldValues replace every value of the entry when present',
+      properties: {
+        slug: { type: 'string' },
+        fieldValues: fieldValues(fields.filter(field => field.required)),
+      },
+    },
+    [`${name}FieldValue`]: {
+      allOf: [ref('EntryFieldValue'), ...(outputItems.length > 0 ? [{ oneOf: outputItems }] : [])],
+    },
+    [`${name}Entry`]: {
+      allOf: [
+        ref('Entry'),
+        {
+          type: 'object',
+          properties: { fieldValues: { type: 'array', items: ref(`${name}FieldValue`) } },
+        },
+      ],
+    },
+  }
+}
+
+function buildContentTypePaths({ contentType, name }: ContentTypeSchemas) {
+  const tags = [contentType.displayName]
+  const base = `/api/${contentType.slug}`
+  const entry = ref(`${name}Entry`)
+  const entryId = pathParameter('id', `${contentType.displayName} entry ID`)
+  const populate = queryParameter(
+    'populate',
+    { type: 'string' },
+    'Comma-separated relation fields to embed, dotted for nested relations'
+  )
+  const entryResponse = (description: string) =>
+    success(description, {
+      type: 'object',
+      properties: { entry, contentType: ref('ContentType') },
+    })
+
+  const filterable = [
+    ...ENTRY_COLUMNS,
+    ...contentType.fields.filter(field => field.fieldType !== 'PASSWORD').map(field => field.name),
+  ]
+
+  const paths: OpenApiDocument['paths'] = {
+    [base]: {
+      get: {
+        operationId: `list${name}`,
+        tags,
+        summary: `List ${contentType.displayName} entries`,
+        parameters: [
+          queryParameter('page', { type: 'integer', minimum: 1, default: 1 }),
+          queryParameter('limit', {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_PAGE_SIZE,
+            default: DEFAULT_PAGE_SIZE,
+          }),
+          queryParameter(
+            'filter',
+            {
+              type: 'object',
+              properties: Object.fromEntries(
+                filterable.map(field => [field, ref('FilterOperators')])
+              ),
+              additionalProperties: false,
+            },
+            'Filters as filter[field][operator]=value',
+            { style: 'deepObject', explode: true }
+          ),
+          queryParameter(
+            'sort',
+            { type: 'string', examples: ['createdAt:desc'] },
+            `Comma-separated field:direction pairs of ${filterable.join(', ')}`
+          ),
+          queryParameter('fields', { type: 'string' }, 'Comma-separated field names to return'),
+          queryParameter('status', { type: 'string' }, 'Comma-separated entry statuses'),
+          queryParameter('search', { type: 'string' }, 'Full-text search words'),
+          populate,
+          queryParameter('pagination', { type: 'string', enum: ['page', 'cursor'] }),
+          queryParameter('after', { type: 'string' }, 'Cursor; an empty value starts at the top'),
+          queryParameter('before', { type: 'string' }, 'Cursor; an empty value starts at the end'),
+        ],
+        responses: {
+          '200': success(`${contentType.displayName} entries`, {
+            type: 'object',
+            properties: {
+              contentType: ref('ContentType'),
+              entries: { type: 'array', items: entry },
+              pagination: ref('Pagination'),
+            },
+          }),
+          ...errors(400, 404),
+        },
+      },
+      post: {
+        operationId: `create${name}`,
+        tags,
+        summary: `Create a ${contentType.displayName} entry`,
+        requestBody: jsonBody(ref(`${name}CreateInput`)),
+        responses: { '200': entryResponse('Created entry'), ...errors(400, 404) },
+      },
+    },
+    [`${base}/search`]: {
+      get: {
+        operationId: `search${name}`,
+        tags,
+        summary: `Full-text search in ${contentType.displayName} entries`,
+        parameters: [
+          queryParameter('q', { type: 'string' }, 'Search words', { required: true }),
+          queryParameter('page', { type: 'integer', minimum: 1, default: 1 }),
+          queryParameter('limit', { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE }),
+        ],
+        responses: {
+          '200': success('Ranked matches', {
+            type: 'object',
+            properties: {
+              query: { type: 'string' },
+              results: { type: 'array', items: ref('SearchResult') },
+              pagination: ref('Pagination'),
+            },
+          }),
+          ...errors(400, 404),
+        },
+      },
+    },
+    [`${base}/{id}`]: {
+      get: {
+        operationId: `get${name}`,
+        tags,
+        summary: `Get a ${contentType.displayName} entry`,
+        parameters: [entryId, populate],
+        responses: { '200': entryResponse('Entry'), ...errors(400, 404) },
+      },
+      put: {
+        operationId: `update${name}`,
+        tags,
+        summary: `Update a ${contentType.displayName} entry`,
+        parameters: [entryId],
+        requestBody: jsonBody(ref(`${name}UpdateInput`)),
+        responses: { '200': entryResponse('Updated entry'), ...errors(400, 404) },
+      },
+      delete: {
+        operationId: `delete${name}`,
+        tags,
+        summary: `Delete a ${contentType.displayName} entry`,
+        description: 'Fails with CONFLICT while a restrict relation still links to the entry',
+        parameters: [entryId],
+        responses: {
+          '200': success('Deleted entry', {
+            type: 'object',
+            properties: { message: { type: 'string' }, deletedEntryId: { type: 'string' } },
+          }),
+          ...errors(404, 409),
+        },
+      },
+    },
+    [`${base}/{id}/revisions`]: {
+      get: {
+        operationId: `list${name}Revisions`,
+        tags,
+        summary: 'List the revisions of an entry, newest first',
+        parameters: [entryId],
+        responses: {
+          '200': success('Revisions', {
+            type: 'object',
+            properties: {
+              entryId: { type: 'string' },
+              revisions: { type: 'array', items: ref('Revision') },
+            },
+          }),
+          ...errors(404),
+        },
+      },
+    },
+    [`${base}/{id}/revisions/{revisionId}`]: {
+      get: {
+        operationId: `get${name}Revision`,
+        tags,
+        summary: 'Get a revision of an entry',
+        parameters: [entryId, pathParameter('revisionId', 'Revision ID')],
+        responses: {
+          '200': success('Revision', {
+            type: 'object',
+            properties: { revision: ref('Revision') },
+          }),
+          ...errors(404),
+        },
+      },
+    },
+    [`${base}/{id}/revisions/{revisionId}/restore`]: {
+      post: {
+        operationId: `restore${name}Revision`,
+        tags,
+        summary: 'Restore an entry from one of its revisions',
+        parameters: [entryId, pathParameter('revisionId', 'Revision ID')],
+        responses: { '200': entryResponse('Restored entry'), ...errors(400, 404) },
+      },
+    },
+  }
+
+  // Drop disabled operations and describe the access level of the others; writes using the
+  // server default are authenticated, reads require an API key when the server requires API keys
+  const settings = getEndpointSettings(contentType)
+  for (const [path, operations] of Object.entries(paths)) {
+    const parsed = parseContentApiPath(path)!
+    for (const [method, operation] of Object.entries(operations)) {
+      const endpointOperation = getEndpointOperation(method.toUpperCase() as HttpMethod, parsed)!
+      const setting = settings[endpointOperation]
+      if (!setting.enabled) {
+        delete operations[method]
+        continue
+      }
+      const access =
+        setting.access ?? (WRITE_OPERATIONS.includes(endpointOperation) ? 'authenticated' : null)
+      operation.security = access ? ACCESS_SECURITY[access] : API_KEY_SECURITY
+      if (access === 'role') {
+        operation.description = [operation.description, `Requires the ${setting.role} role`]
+          .filter(Boolean)
+          .join('. ')
+      }
+    }
+    if (Object.keys(operations).length === 0) {
+      delete paths[path]
+    }
+  }
+
+  return paths
+}
@@ -0,0 +1,141 @@
+/**
+ * Permission checks and validation of edited permissions
+ *
+ * Users carry the combined permissions of their custom roles (resolved in app/server/roles.ts
+ * when the user is loaded); ADMIN users always have every permission.
+ */
+
+import { ALL_CONTENT_TYPES } from '../lib/api-keys'
+import {
+  DEFAULT_PERMISSIONS,
+  getPermissionScope,
+  isActionAllowed,
+  isGlobalAction,
+  isPermissionAction,
+  OWNABLE_ACTIONS,
+  PERMISSION_LABELS,
+  type PermissionAction,
+  type PermissionScope,
+  type PermissionTarget,
+  type RolePermissions,
+} from '../lib/permissions'
+import type { AuthUser } from './auth'
+
+export type PermissionRow = {
+  action: string
+  contentType: string
+  scope: string
+}
+
+const SCOPES: PermissionScope[] = ['none', 'own', 'all']
+
+const CONTENT_TYPE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/
+
+/**
+ * Thrown when a user lacks a permission; server functions surface the message
+ */
+export class PermissionError extends Error {
+  readonly action: PermissionAction
+
+  constructor(message: string, action: PermissionAction) {
+    super(message)
+    this.name = 'PermissionError'
+    this.action = action
+  }
+}
+
+export function toRolePermissions(rows: PermissionRow[]): RolePermissions {
+  const permissions: RolePermissions = {}
+  for (const row of rows) {
+    if (!isPermissionAction(row.action) || !SCOPES.includes(row.scope as PermissionScope)) continue
+    permissions[row.action] = {
+      ...permissions[row.action],
+      [row.contentType]: row.scope as PermissionScope,
+    }
+  }
+  return permissions
+}
+
+/**
+ * Validate edited permissions and turn them into rows
+ *
+ * An empty set becomes an explicit "none" row so that a role created from a built-in role does
+ * not fall back to the defaults of that role.
+ */
+export function toPermissionRows(permissions: RolePermissions): PermissionRow[] {
+  const rows: PermissionRow[] = []
+  for (const [action, grants] of Object.entries(permissions ?? {})) {
+    if (!isPermissionAction(action)) {
+      throw new Error(`Unknown permission: ${action}`)
+    }
+    for (const [contentType, scope] of Object.entries(grants ?? {})) {
+      if (!SCOPES.includes(scope)) {
+        throw new Error(`Invalid scope "${scope}" for ${action}`)
+      }
+      if (scope === 'own' && !OWNABLE_ACTIONS.includes(action)) {
+        throw new Error(`${action} cannot be limited to own entries`)
+      }
+      if (contentType !== ALL_CONTENT_TYPES && isGlobalAction(action)) {
+        throw new Error(`${action} does not apply to a content type`)
+      }
+      if (contentType !== ALL_CONTENT_TYPES && !CONTENT_TYPE_PATTERN.test(contentType)) {
+        throw new Error(`Invalid content type: ${contentType}`)
+      }
+      rows.push({ action, contentType, scope })
+    }
+  }
+
+  if (rows.length === 0) {
+    rows.push({ action: 'entry.read', contentType: ALL_CONTENT_TYPES, scope: 'none' })
+  }
+  return rows
+}
+
+/**
+ * Resolved permissions of a user
+ */
+export function getUserPermissions(user: AuthUser): RolePermissions {
+  return user.role === 'ADMIN' ? DEFAULT_PERMISSIONS.ADMIN : user.permissions
+}
+
+/**
+ * Names of the roles a user acts with: their custom roles, or their built-in role without any
+ */
+export function getEffectiveRoles(user: AuthUser): string[] {
+  return user.roles.length > 0 ? user.roles : [user.role]
+}
+
+/**
+ * Whether a user may perform an action on the target
+ */
+export function userCan(
+  user: AuthUser,
+  action: PermissionAction,
+  target: PermissionTarget = {}
+): boolean {
+  return isActionAllowed(getUserPermissions(user), user.id, action, target)
+}
+
+/**
+ * Throw a PermissionError unless the user may perform the action on the target
+ */
+export function requirePermission(
+  user: AuthUser,
+  action: PermissionAction,
+  target: PermissionTarget = {}
+): void {
+  const permissions = getUserPermissions(user)
+  if (isActionAllowed(permissions, user.id, action, target)) {
+    return
+  }
+
+  const label = PERMISSION_LABELS[action].toLowerCase()
+  const subject = target.contentType ? ` of "${target.contentType}"` : ''
+  const name = getEffectiveRoles(user).join(', ')
+  throw new PermissionError(
+    getPermissionScope(permissions, action, target.contentType) === 'own'
+      ? `Insufficient permissions: ${name} can only ${label}${subject} they authored`
+      : `Insufficient permissions: ${name} cannot ${label}${subject}`,
+    action
+  )
+}
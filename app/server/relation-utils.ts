@@ -0,0 +1,526 @@
+/**
+ * Relation field utilities
+ * Checks relation values against the related content type, keeps the ContentRelation index in
+ * sync, applies each field's delete behavior and embeds related entries for `populate=`
+ */
+
+import { PrismaClient } from '@prisma/client'
+import {
+  formatRelationValue,
+  getRelationOptions,
+  isExclusiveRelation,
+  isMultipleRelation,
+  parseRelationValue,
+  type RelationOptions,
+  type RelationTarget,
+} from '../lib/relations'
+
+export const MAX_POPULATE_DEPTH = 3
+
+const RELATED_ENTRY_INCLUDE = {
+  fieldValues: {
+    include: {
+      field: true,
+    },
+  },
+}
+
+export type RelationField = {
+  id: string
+  name: string
+  displayName: string
+  fieldType: string
+  options: string | null
+  relatedType?: string | null
+}
+
+type RelationContentType = {
+  id: string
+  displayName: string
+  fields: RelationField[]
+}
+
+type RelationLink = {
+  fieldId: string
+  sourceId: string
+  targetId: string
+  field: RelationField & { required: boolean }
+}
+
+type PopulatableEntry = {
+  id: string
+  fieldValues: { fieldId: string; value: string | null }[]
+}
+
+export type PopulatedEntry<T extends PopulatableEntry = PopulatableEntry> = T & {
+  populated: Record<string, unknown>
+}
+
+/**
+ * Whether the caller may read entries of a related content type, or one entry of it
+ */
+export type PopulateAccess = (
+  contentType: { slug: string; apiSettings?: string | null },
+  entry?: { authorId: string | null; status: string }
+) => boolean
+
+/**
+ * Whether the caller may delete an entry of a content type that a `cascade` relation would
+ * delete along with the requested entries
+ */
+export type DeleteAccess = (
+  contentType: { slug: string; apiSettings?: string | null },
+  entry: { authorId: string | null }
+) => boolean
+
+/**
+ * Nested relation field names to embed, e.g. `author.company` → { author: { company: {} } }
+ */
+export type PopulateTree = { [fieldName: string]: PopulateTree }
+
+/**
+ * Thrown when deleting an entry that is still linked through a `restrict` relation
+ */
+export class RelationConstraintError extends Error {
+  readonly referencingEntryIds: string[]
+
+  constructor(message: string, referencingEntryIds: string[]) {
+    super(message)
+    this.name = 'RelationConstraintError'
+    this.referencingEntryIds = referencingEntryIds
+  }
+}
+
+/**
+ * Thrown when a `cascade` relation would delete entries the caller may not delete
+ */
+export class RelationPermissionError extends Error {
+  readonly entryIds: string[]
+
+  constructor(message: string, entryIds: string[]) {
+    super(message)
+    this.name = 'RelationPermissionError'
+    this.entryIds = entryIds
+  }
+}
+
+/**
+ * Read the relation settings stored in a field's JSON options column
+ */
+export function getFieldRelationOptions(field: Pick<RelationField, 'options'>): RelationOptions {
+  try {
+    return getRelationOptions(field.options ? JSON.parse(field.options) : null)
+  } catch {
+    return getRelationOptions(null)
+  }
+}
+
+/**
+ * Find the content type a relation field points at by slug, name or ID
+ */
+export async function resolveRelatedContentType(
+  prisma: PrismaClient,
+  relatedType: string | null | undefined
+) {
+  if (!relatedType) return null
+
+  return await prisma.contentType.findFirst({
+    where: { OR: [{ slug: relatedType }, { name: relatedType }, { id: relatedType }] },
+    include: { fields: { orderBy: { order: 'asc' } } },
+  })
+}
+
+/**
+ * Check a relation field value and normalize it to the stored format
+ *
+ * Every ID must be an entry of the related content type. One-to-one and one-to-many fields
+ * also reject entries that are already linked from another entry through the same field.
+ */
+export async function validateRelationValue(
+  prisma: PrismaClient,
+  field: RelationField,
+  value: unknown,
+  entryId?: string
+): Promise<{ value: string } | { error: string }> {
+  const ids = parseRelationValue(value)
+  if (ids.length === 0) return { value: '' }
+
+  const { kind } = getFieldRelationOptions(field)
+  if (!isMultipleRelation(kind) && ids.length > 1) {
+    return { error: 'accepts a single related entry' }
+  }
+  if (new Set(ids).size !== ids.length) {
+    return { error: 'links the same entry more than once' }
+  }
+
+  const related = await resolveRelatedContentType(prisma, field.relatedType)
+  if (!related) {
+    return { error: `links to unknown content type '${field.relatedType ?? ''}'` }
+  }
+
+  const targets: { id: string }[] = await prisma.contentEntry.findMany({
+    where: { id: { in: ids }, contentTypeId: related.id },
+    select: { id: true },
+  })
+  const missing = ids.filter(id => !targets.some(target => target.id === id))
+  if (missing.length > 0) {
+    return { error: `references missing ${related.displayName} entries: ${missing.join(', ')}` }
+  }
+
+  if (isExclusiveRelation(kind)) {
+    const taken: { targetId: string }[] = await prisma.contentRelation.findMany({
+      where: {
+        fieldId: field.id,
+        targetId: { in: ids },
+        ...(entryId ? { sourceId: { not: entryId } } : {}),
+      },
+    })
+    if (taken.length > 0) {
+      const takenIds = taken.map(relation => relation.targetId).join(', ')
+      return { error: `entries already linked from another entry: ${takenIds}` }
+    }
+  }
+
+  return { value: formatRelationValue(ids, kind) }
+}
+
+/**
+ * Rebuild the ContentRelation rows of an entry from its relation field values
+ */
+export async function syncEntryRelations(
+  prisma: PrismaClient,
+  entry: {
+    id: string
+    fieldValues: { fieldId: string; value: string | null; field: { fieldType: string } }[]
+  }
+) {
+  await prisma.contentRelation.deleteMany({ where: { sourceId: entry.id } })
+
+  const rows = entry.fieldValues
+    .filter(fv => fv.field.fieldType === 'RELATION')
+    .flatMap(fv =>
+      parseRelationValue(fv.value).map((targetId, order) => ({
+        fieldId: fv.fieldId,
+        sourceId: entry.id,
+        targetId,
+        order,
+      }))
+    )
+
+  if (rows.length > 0) {
+    await prisma.contentRelation.createMany({ data: rows })
+  }
+}
+
+/**
+ * Apply the delete behavior of every relation pointing at entries that are about to be deleted
+ *
+ * `restrict` links abort the deletion with a RelationConstraintError before anything changes, as
+ * do `nullify` links that would leave a required field empty. `cascade` links add the linking
+ * entries to the deletion, which throws a RelationPermissionError if `canDelete` rejects any of
+ * them, and `nullify` links are removed from the linking entries' values. Returns the IDs of all
+ * entries to delete, including `entryIds`.
+ */
+export async function prepareEntryDeletion(
+  prisma: PrismaClient,
+  entryIds: string[],
+  canDelete?: DeleteAccess
+): Promise<string[]> {
+  const doomed = new Set(entryIds)
+  const queue = [...entryIds]
+  const nullified: RelationLink[] = []
+
+  while (queue.length > 0) {
+    const targetId = queue.shift()!
+    const links = await prisma.contentRelation.findMany({
+      where: { targetId },
+      include: { field: true },
+    })
+
+    for (const link of links) {
+      if (doomed.has(link.sourceId)) continue
+
+      const { onDelete } = getFieldRelationOptions(link.field)
+      if (onDelete === 'restrict') {
+        const referencing = links
+          .filter(
+            (other: { fieldId: string; sourceId: string }) =>
+              other.fieldId === link.fieldId && !doomed.has(other.sourceId)
+          )
+          .map((other: { sourceId: string }) => other.sourceId)
+        throw new RelationConstraintError(
+          `Entry ${targetId} is still linked through field '${link.field.displayName}'`,
+          referencing
+        )
+      }
+
+      if (onDelete === 'cascade') {
+        doomed.add(link.sourceId)
+        queue.push(link.sourceId)
+      } else {
+        nullified.push(link)
+      }
+    }
+  }
+
+  const remaining = nullified.filter(link => !doomed.has(link.sourceId))
+  await checkRequiredLinks(prisma, remaining, doomed)
+  if (canDelete) {
+    await checkCascadeAccess(
+      prisma,
+      [...doomed].filter(id => !entryIds.includes(id)),
+      canDelete
+    )
+  }
+
+  for (const link of remaining) {
+    await unlinkRelationTarget(prisma, link)
+  }
+
+  return [...doomed]
+}
+
+/**
+ * Throw a RelationConstraintError if removing the `nullify` links would leave a required relation
+ * field without any entry
+ */
+async function checkRequiredLinks(
+  prisma: PrismaClient,
+  links: RelationLink[],
+  doomed: Set<string>
+) {
+  for (const link of links) {
+    if (!link.field.required) continue
+
+    const targets: { targetId: string }[] = await prisma.contentRelation.findMany({
+      where: { fieldId: link.fieldId, sourceId: link.sourceId },
+    })
+    if (targets.every(target => doomed.has(target.targetId))) {
+      throw new RelationConstraintError(
+        `Deleting entry ${link.targetId} would leave required field '${link.field.displayName}' of entry ${link.sourceId} empty`,
+        [link.sourceId]
+      )
+    }
+  }
+}
+
+/**
+ * Throw a RelationPermissionError unless the caller may delete every entry a cascade adds
+ */
+async function checkCascadeAccess(prisma: PrismaClient, ids: string[], canDelete: DeleteAccess) {
+  if (ids.length === 0) return
+
+  const entries: {
+    id: string
+    authorId: string | null
+    contentType: { slug: string; apiSettings?: string | null }
+  }[] = await prisma.contentEntry.findMany({
+    where: { id: { in: ids } },
+    include: { contentType: true },
+  })
+  const denied = entries.filter(entry => !canDelete(entry.contentType, entry))
+  if (denied.length > 0) {
+    const slugs = [...new Set(denied.map(entry => entry.contentType.slug))].join(', ')
+    throw new RelationPermissionError(
+      `Deleting would also delete linked entries of ${slugs} that you may not delete`,
+      denied.map(entry => entry.id)
+    )
+  }
+}
+
+async function unlinkRelationTarget(
+  prisma: PrismaClient,
+  link: { fieldId: string; sourceId: string; targetId: string }
+) {
+  const fieldValue = await prisma.contentFieldValue.findFirst({
+    where: { fieldId: link.fieldId, entryId: link.sourceId },
+    include: { field: true },
+  })
+
+  if (fieldValue) {
+    const { kind } = getFieldRelationOptions(fieldValue.field)
+    const remaining = parseRelationValue(fieldValue.value).filter(id => id !== link.targetId)
+    await prisma.contentFieldValue.update({
+      where: { id: fieldValue.id },
+      data: { value: formatRelationValue(remaining, kind) },
+    })
+  }
+
+  await prisma.contentRelation.deleteMany({
+    where: { fieldId: link.fieldId, sourceId: link.sourceId, targetId: link.targetId },
+  })
+}
+
+/**
+ * Parse a `populate` query parameter: comma-separated relation field paths such as
+ * `author,tags.category` or `*` for every relation field
+ */
+export function parsePopulate(populate: string): { tree: PopulateTree } | { errors: string[] } {
+  const tree: PopulateTree = {}
+  const errors: string[] = []
+
+  for (const path of populate.split(',').map(segment => segment.trim())) {
+    if (!path) continue
+
+    const segments = path.split('.')
+    if (segments.some(segment => !segment)) {
+      errors.push(`Invalid populate path '${path}'`)
+      continue
+    }
+    if (segments.length > MAX_POPULATE_DEPTH) {
+      errors.push(`Populate path '${path}' is deeper than the limit of ${MAX_POPULATE_DEPTH}`)
+      continue
+    }
+
+    let node = tree
+    for (const segment of segments) {
+      node = node[segment] ??= {}
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { tree }
+}
+
+/**
+ * Embed related entries under `populated.<fieldName>` following the populate tree
+ *
+ * Single relations resolve to an entry or null and multiple relations to a list. Unknown
+ * field names are reported in `errors` with their full path. Related entries that `canRead`
+ * rejects are left out, and relations to content types it rejects stay empty.
+ */
+export async function populateEntries<T extends PopulatableEntry>(
+  prisma: PrismaClient,
+  contentType: RelationContentType,
+  entries: T[],
+  tree: PopulateTree,
+  errors: string[],
+  canRead: PopulateAccess,
+  pathPrefix: string = ''
+): Promise<PopulatedEntry<T>[]> {
+  const result = entries.map(entry => ({ ...entry, populated: {} as Record<string, unknown> }))
+  const relationFields = contentType.fields.filter(field => field.fieldType === 'RELATION')
+
+  const fieldTrees = new Map<string, PopulateTree>()
+  for (const [name, subtree] of Object.entries(tree)) {
+    if (name === '*') {
+      relationFields.forEach(field =>
+        fieldTrees.set(field.name, { ...subtree, ...fieldTrees.get(field.name) })
+      )
+    } else {
+      fieldTrees.set(name, { ...fieldTrees.get(name), ...subtree })
+    }
+  }
+
+  for (const [name, subtree] of fieldTrees) {
+    const field = relationFields.find(relationField => relationField.name === name)
+    if (!field) {
+      errors.push(`'${pathPrefix}${name}' is not a relation field of ${contentType.displayName}`)
+      continue
+    }
+
+    const { kind } = getFieldRelationOptions(field)
+    const idsByEntry = result.map(entry =>
+      parseRelationValue(entry.fieldValues.find(fv => fv.fieldId === field.id)?.value)
+    )
+    const ids = [...new Set(idsByEntry.flat())]
+
+    const related = await resolveRelatedContentType(prisma, field.relatedType)
+    let targets: PopulatableEntry[] = []
+    if (related && canRead(related)) {
+      if (ids.length > 0) {
+        const found: (PopulatableEntry & { authorId: string | null; status: string })[] =
+          await prisma.contentEntry.findMany({
+            where: { id: { in: ids }, contentTypeId: related.id },
+            include: RELATED_ENTRY_INCLUDE,
+          })
+        targets = found.filter(target => canRead(related, target))
+      }
+      // Recurse even without targets so nested field names are always checked
+      targets = await populateEntries(
+        prisma,
+        related,
+        targets,
+        subtree,
+        errors,
+        canRead,
+        `${pathPrefix}${name}.`
+      )
+    }
+
+    const byId = new Map(targets.map(target => [target.id, target]))
+    result.forEach((entry, index) => {
+      const linked = idsByEntry[index].map(id => byId.get(id)).filter(Boolean)
+      entry.populated[name] = isMultipleRelation(kind) ? linked : (linked[0] ?? null)
+    })
+  }
+
+  return result
+}
+
+/**
+ * Find entries of a related content type for the relation picker
+ *
+ * Matches the search text against the slug and field values, or loads exactly `ids` so the
+ * picker can label the entries that are already selected.
+ */
+export async function searchRelationTargets(
+  prisma: PrismaClient,
+  relatedType: string,
+  options: { search?: string; ids?: string[]; limit?: number } = {}
+): Promise<RelationTarget[]> {
+  const related = await resolveRelatedContentType(prisma, relatedType)
+  if (!related) return []
+
+  const search = options.search?.trim()
+  const where = options.ids
+    ? { contentTypeId: related.id, id: { in: options.ids } }
+    : search
+      ? {
+          contentTypeId: related.id,
+          OR: [
+            { slug: { contains: search } },
+            { fieldValues: { some: { value: { contains: search } } } },
+          ],
+        }
+      : { contentTypeId: related.id }
+
+  const entries = await prisma.contentEntry.findMany({
+    where,
+    include: RELATED_ENTRY_INCLUDE,
+    orderBy: { updatedAt: 'desc' },
+    take: options.ids ? undefined : (options.limit ?? 20),
+  })
+
+  return entries.map(
+    (entry: {
+      id: string
+      slug: string | null
+      status: string
+      fieldValues: { fieldId: string; value: string | null }[]
+    }) => ({
+      id: entry.id,
+      label: getEntryLabel(related.fields, entry),
+      status: entry.status,
+    })
+  )
+}
+
+/**
+ * Human-readable label of an entry: its first text value, then its slug, then its ID
+ */
+export function getEntryLabel(
+  fields: RelationField[],
+  entry: {
+    id: string
+    slug: string | null
+    fieldValues: { fieldId: string; value: string | null }[]
+  }
+): string {
+  for (const field of fields) {
+    if (field.fieldType !== 'TEXT' && field.fieldType !== 'SLUG') continue
+    const value = entry.fieldValues.find(fv => fv.fieldId === field.id)?.value
+    if (value) return value
+  }
+
+  return entry.slug || entry.id
+}
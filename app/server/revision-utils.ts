@@ -0,0 +1,94 @@
+/**
+ * Content entry revision history utilities
+ * Revisions are recorded by createContentEntry/updateContentEntry on every save
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { updateContentEntry } from './content-type-utils'
+import type { ActivityOptions } from './activity'
+import type { RevisionFieldValue } from '../lib/content-types'
+
+const REVISION_AUTHOR_SELECT = { id: true, name: true, email: true }
+
+type RevisionRow = {
+  fieldValues: string
+}
+
+/**
+ * Replace a revision's JSON field value snapshot with the parsed list
+ */
+export function parseRevision<T extends RevisionRow>(
+  revision: T
+): Omit<T, 'fieldValues'> & { fieldValues: RevisionFieldValue[] } {
+  let fieldValues: RevisionFieldValue[] = []
+  try {
+    fieldValues = JSON.parse(revision.fieldValues)
+  } catch {
+    fieldValues = []
+  }
+
+  return { ...revision, fieldValues }
+}
+
+/**
+ * Get all revisions of an entry, newest first
+ */
+export async function getEntryRevisions(prisma: PrismaClient, entryId: string) {
+  const revisions = await prisma.contentEntryRevision.findMany({
+    where: { entryId },
+    include: { author: { select: REVISION_AUTHOR_SELECT } },
+    orderBy: { version: 'desc' },
+  })
+
+  return revisions.map(parseRevision)
+}
+
+/**
+ * Get a single revision by ID
+ */
+export async function getEntryRevision(prisma: PrismaClient, revisionId: string) {
+  const revision = await prisma.contentEntryRevision.findUnique({
+    where: { id: revisionId },
+    include: { author: { select: REVISION_AUTHOR_SELECT } },
+  })
+
+  return revision ? parseRevision(revision) : null
+}
+
+/**
+ * Restore an entry's slug and field values from a revision
+ *
+ * The restore is saved as a new revision pointing back at the restored one, so history is
+ * never rewritten. The publishing status is left as it is, and values of fields that no longer
+ * exist on the content type are dropped.
+ */
+export async function restoreEntryRevision(
+  prisma: PrismaClient,
+  revisionId: string,
+  options: ActivityOptions = {}
+) {
+  const revision = await getEntryRevision(prisma, revisionId)
+  if (!revision) return null
+
+  const entry = await prisma.contentEntry.findUnique({
+    where: { id: revision.entryId },
+    include: { contentType: { include: { fields: true } } },
+  })
+  if (!entry) return null
+
+  // Fields the revision has no value for are cleared, since updates keep left-out fields
+  const values = new Map(revision.fieldValues.map(fv => [fv.fieldId, fv.value]))
+
+  return await updateContentEntry(
+    prisma,
+    entry.id,
+    {
+      slug: revision.slug ?? undefined,
+      fieldValues: entry.contentType.fields.map((field: { id: string }) => ({
+        fieldId: field.id,
+        value: values.get(field.id) ?? '',
+      })),
+    },
+    { ...options, restoredFromId: revision.id }
+  )
+}
@@ -0,0 +1,99 @@
+/**
+ * TanStack Start server functions for managing roles and role assignments in the admin
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getWebRequest } from '@tanstack/react-start/server'
+import { prisma } from './db'
+import { requirePermission } from './auth-middleware'
+import {
+  createRole,
+  deleteRole,
+  listRoles,
+  listUserRoles,
+  resetRolePermissions,
+  setUserRoles,
+  updateRole,
+} from './roles'
+import { securityAudit } from './security-auth'
+import type { CustomRoleInfo, CustomRoleInput, UserRoleAssignment } from '../lib/permissions'
+
+async function requireRolesManager() {
+  const result = await requirePermission(getWebRequest(), 'roles.manage')
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
+  return result.user
+}
+
+export const fetchRoles = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<CustomRoleInfo[]> => {
+    await requireRolesManager()
+    return listRoles(prisma)
+  }
+)
+
+export const createRoleFn = createServerFn({ method: 'POST' })
+  .validator((input: CustomRoleInput) => input)
+  .handler(async ({ data }): Promise<CustomRoleInfo> => {
+    const user = await requireRolesManager()
+    const role = await createRole(prisma, data)
+    await securityAudit.log('ROLE_CREATED', getWebRequest(), user.id, true, {
+      roleId: role.id,
+      name: role.name,
+    })
+    return role
+  })
+
+export const updateRoleFn = createServerFn({ method: 'POST' })
+  .validator((input: { id: string; data: Partial<CustomRoleInput> }) => input)
+  .handler(async ({ data: { id, data } }): Promise<CustomRoleInfo> => {
+    const user = await requireRolesManager()
+    const role = await updateRole(prisma, id, data)
+    await securityAudit.log('ROLE_UPDATED', getWebRequest(), user.id, true, {
+      roleId: id,
+      name: role.name,
+      changes: Object.keys(data),
+    })
+    return role
+  })
+
+export const deleteRoleFn = createServerFn({ method: 'POST' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }): Promise<void> => {
+    const user = await requireRolesManager()
+    await deleteRole(prisma, id)
+    await securityAudit.log('ROLE_DELETED', getWebRequest(), user.id, true, { roleId: id })
+  })
+
+export const resetRolePermissionsFn = createServerFn({ method: 'POST' })
+  .validator((id: string) => id)
+  .handler(async ({ data: id }): Promise<CustomRoleInfo> => {
+    const user = await requireRolesManager()
+    const role = await resetRolePermissions(prisma, id)
+    await securityAudit.log('ROLE_UPDATED', getWebRequest(), user.id, true, {
+      roleId: id,
+      name: role.name,
+      changes: ['permissions'],
+      reset: true,
+    })
+    return role
+  })
+
+export const fetchUserRoles = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<UserRoleAssignment[]> => {
+    await requireRolesManager()
+    return listUserRoles(prisma)
+  }
+)
+
+export const setUserRolesFn = createServerFn({ method: 'POST' })
+  .validator((input: { userId: string; roleIds: string[] }) => input)
+  .handler(async ({ data }): Promise<void> => {
+    const user = await requireRolesManager()
+    await setUserRoles(prisma, data.userId, data.roleIds)
+    await securityAudit.log('USER_ROLES_CHANGED', getWebRequest(), user.id, true, {
+      targetUserId: data.userId,
+      roleIds: data.roleIds,
+    })
+  })
@@ -0,0 +1,296 @@
+/**
+ * Database-defined roles and their assignment to users
+ *
+ * Every user keeps a built-in role (`User.role`) and gets the combined permissions of their
+ * custom roles; role-restricted endpoints accept either. The roles migrated from the built-in roles keep it
+ * as `baseRole`: new users get the one matching their built-in role, and until edited they use
+ * its default permissions. Users without any custom role have no permissions, except admins.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { getEndpointSettings, isUserRole, type UserRole } from '../lib/endpoint-settings'
+import {
+  DEFAULT_PERMISSIONS,
+  mergePermissions,
+  type CustomRoleInfo,
+  type CustomRoleInput,
+  type RolePermissions,
+  type UserRoleAssignment,
+} from '../lib/permissions'
+import { toPermissionRows, toRolePermissions, type PermissionRow } from './permissions'
+
+type CustomRoleRow = {
+  id: string
+  name: string
+  description: string | null
+  baseRole: UserRole | null
+  permissions: PermissionRow[]
+  _count?: { users: number }
+}
+
+const MAX_NAME_LENGTH = 50
+
+const ROLE_INCLUDE = { permissions: true, _count: { select: { users: true } } }
+
+function getRolePermissions(role: CustomRoleRow): RolePermissions {
+  if (role.baseRole === 'ADMIN') {
+    return DEFAULT_PERMISSIONS.ADMIN
+  }
+  if (role.permissions.length > 0) {
+    return toRolePermissions(role.permissions)
+  }
+  return role.baseRole ? DEFAULT_PERMISSIONS[role.baseRole] : {}
+}
+
+function toCustomRoleInfo(role: CustomRoleRow): CustomRoleInfo {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    baseRole: role.baseRole,
+    permissions: getRolePermissions(role),
+    userCount: role._count?.users ?? 0,
+  }
+}
+
+async function findRole(prisma: PrismaClient, id: string): Promise<CustomRoleRow> {
+  const role: CustomRoleRow | null = await prisma.customRole.findUnique({
+    where: { id },
+    include: ROLE_INCLUDE,
+  })
+  if (!role) {
+    throw new Error('Role not found')
+  }
+  return role
+}
+
+async function validateRoleName(prisma: PrismaClient, name: string | undefined, id?: string) {
+  const trimmed = name?.trim() ?? ''
+  if (!trimmed) {
+    throw new Error('Role name is required')
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`Role name must be at most ${MAX_NAME_LENGTH} characters`)
+  }
+  // Endpoint settings refer to built-in and custom roles by name
+  if (isUserRole(trimmed)) {
+    throw new Error(`"${trimmed}" is the name of a built-in role`)
+  }
+
+  const existing: { id: string } | null = await prisma.customRole.findUnique({
+    where: { name: trimmed },
+  })
+  if (existing && existing.id !== id) {
+    throw new Error(`A role named "${trimmed}" already exists`)
+  }
+  return trimmed
+}
+
+async function replacePermissions(
+  prisma: PrismaClient,
+  roleId: string,
+  permissions: RolePermissions
+) {
+  const rows = toPermissionRows(permissions)
+  await prisma.$transaction([
+    prisma.rolePermission.deleteMany({ where: { roleId } }),
+    prisma.rolePermission.createMany({ data: rows.map(row => ({ ...row, roleId })) }),
+  ])
+}
+
+/**
+ * Point the role-restricted operations of a renamed role to its new name
+ */
+async function renameEndpointRole(prisma: PrismaClient, from: string, to: string) {
+  const contentTypes: { id: string; apiSettings: string | null }[] =
+    await prisma.contentType.findMany({ select: { id: true, apiSettings: true } })
+
+  for (const contentType of contentTypes) {
+    const settings = getEndpointSettings(contentType)
+    const restricted = Object.values(settings).filter(
+      setting => setting.access === 'role' && setting.role === from
+    )
+    if (restricted.length === 0) continue
+
+    restricted.forEach(setting => (setting.role = to))
+    await prisma.contentType.update({
+      where: { id: contentType.id },
+      data: { apiSettings: JSON.stringify(settings) },
+    })
+  }
+}
+
+/**
+ * All roles, oldest first so that the roles of the built-in roles come first
+ */
+export async function listRoles(prisma: PrismaClient): Promise<CustomRoleInfo[]> {
+  const roles: CustomRoleRow[] = await prisma.customRole.findMany({
+    include: ROLE_INCLUDE,
+    orderBy: { createdAt: 'asc' },
+  })
+  return roles.map(toCustomRoleInfo)
+}
+
+export async function createRole(
+  prisma: PrismaClient,
+  input: CustomRoleInput
+): Promise<CustomRoleInfo> {
+  const name = await validateRoleName(prisma, input.name)
+  const rows = toPermissionRows(input.permissions ?? {})
+
+  const role: { id: string } = await prisma.customRole.create({
+    data: { name, description: input.description?.trim() || null },
+  })
+  await prisma.rolePermission.createMany({ data: rows.map(row => ({ ...row, roleId: role.id })) })
+
+  return toCustomRoleInfo(await findRole(prisma, role.id))
+}
+
+/**
+ * Rename a role or replace its permissions; the permissions of the Admin role cannot change
+ */
+export async function updateRole(
+  prisma: PrismaClient,
+  id: string,
+  input: Partial<CustomRoleInput>
+): Promise<CustomRoleInfo> {
+  const role = await findRole(prisma, id)
+
+  if (input.permissions !== undefined) {
+    if (role.baseRole === 'ADMIN') {
+      throw new Error(`The permissions of the ${role.name} role cannot be changed`)
+    }
+    toPermissionRows(input.permissions)
+  }
+
+  const data: { name?: string; description?: string | null } = {}
+  if (input.name !== undefined) data.name = await validateRoleName(prisma, input.name, id)
+  if (input.description !== undefined) data.description = input.description?.trim() || null
+  if (Object.keys(data).length > 0) {
+    await prisma.customRole.update({ where: { id }, data })
+  }
+  if (data.name && data.name !== role.name) {
+    await renameEndpointRole(prisma, role.name, data.name)
+  }
+
+  if (input.permissions !== undefined) {
+    await replacePermissions(prisma, id, input.permissions)
+  }
+
+  return toCustomRoleInfo(await findRole(prisma, id))
+}
+
+/**
+ * The custom role with a name, if any
+ */
+export async function findRoleByName(
+  prisma: PrismaClient,
+  name: string
+): Promise<{ id: string; name: string } | null> {
+  return prisma.customRole.findUnique({ where: { name }, select: { id: true, name: true } })
+}
+
+/**
+ * Delete a role; its users keep their other roles, and operations restricted to it stay open to
+ * admins only
+ */
+export async function deleteRole(prisma: PrismaClient, id: string): Promise<void> {
+  const role = await findRole(prisma, id)
+  if (role.baseRole === 'ADMIN') {
+    throw new Error(`The ${role.name} role cannot be deleted`)
+  }
+  await prisma.customRole.delete({ where: { id } })
+}
+
+/**
+ * Restore the default permissions of a role created from a built-in role
+ */
+export async function resetRolePermissions(
+  prisma: PrismaClient,
+  id: string
+): Promise<CustomRoleInfo> {
+  const role = await findRole(prisma, id)
+  if (!role.baseRole) {
+    throw new Error(`The ${role.name} role has no default permissions`)
+  }
+  await prisma.rolePermission.deleteMany({ where: { roleId: id } })
+  return toCustomRoleInfo(await findRole(prisma, id))
+}
+
+/**
+ * All users with the IDs of their roles
+ */
+export async function listUserRoles(prisma: PrismaClient): Promise<UserRoleAssignment[]> {
+  const users: (Omit<UserRoleAssignment, 'roleIds'> & { customRoles: { roleId: string }[] })[] =
+    await prisma.user.findMany({
+      select: { id: true, email: true, name: true, role: true, customRoles: true },
+      orderBy: { email: 'asc' },
+    })
+
+  return users.map(({ customRoles, ...user }) => ({
+    ...user,
+    roleIds: customRoles.map(assignment => assignment.roleId),
+  }))
+}
+
+/**
+ * Replace the roles of a user
+ */
+export async function setUserRoles(
+  prisma: PrismaClient,
+  userId: string,
+  roleIds: string[]
+): Promise<void> {
+  if (!(await prisma.user.findUnique({ where: { id: userId } }))) {
+    throw new Error('User not found')
+  }
+
+  const ids = [...new Set(roleIds)]
+  const roles: { id: string }[] = await prisma.customRole.findMany({ where: { id: { in: ids } } })
+  if (roles.length !== ids.length) {
+    throw new Error('Role not found')
+  }
+
+  await prisma.$transaction([
+    prisma.userCustomRole.deleteMany({ where: { userId } }),
+    prisma.userCustomRole.createMany({ data: ids.map(roleId => ({ userId, roleId })) }),
+  ])
+}
+
+/**
+ * Give a new user the role created from their built-in role, if it still exists
+ */
+export async function assignBaseRole(
+  prisma: PrismaClient,
+  userId: string,
+  role: UserRole
+): Promise<void> {
+  if (!isUserRole(role)) return
+
+  const customRole: { id: string } | null = await prisma.customRole.findUnique({
+    where: { baseRole: role },
+  })
+  if (customRole) {
+    await prisma.userCustomRole.create({ data: { userId, roleId: customRole.id } })
+  }
+}
+
+/**
+ * Names and combined permissions of a user's roles
+ */
+export async function resolveUserAccess(
+  prisma: PrismaClient,
+  user: { id: string; role: UserRole }
+): Promise<{ roles: string[]; permissions: RolePermissions }> {
+  const assignments: { role: CustomRoleRow }[] = await prisma.userCustomRole.findMany({
+    where: { userId: user.id },
+    include: { role: { include: { permissions: true } } },
+  })
+  const roles = assignments.map(assignment => assignment.role)
+  const names = roles.map(role => role.name).sort()
+
+  if (user.role === 'ADMIN') {
+    return { roles: names, permissions: DEFAULT_PERMISSIONS.ADMIN }
+  }
+  return { roles: names, permissions: mergePermissions(roles.map(getRolePermissions)) }
+}
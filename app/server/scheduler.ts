@@ -0,0 +1,332 @@
+/**
+ * Scheduled publishing worker
+ * Publishes, unpublishes and archives entries whose scheduled dates have passed and records
+ * every run in SchedulerRun so editors can see what happened from the admin dashboard
+ */
+
+import { randomUUID } from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import {
+  archiveContentEntry,
+  getScheduledEntriesToArchive,
+  getScheduledEntriesToPublish,
+  getScheduledEntriesToUnpublish,
+  publishContentEntry,
+  unpublishContentEntry,
+} from './content-type-utils'
+import { SCHEDULER_ACTOR } from './activity'
+
+export const SCHEDULER_LOCK_NAME = 'scheduled-publishing'
+
+// Lock duration of single runs, long enough for a run to finish before another instance may start
+const SINGLE_RUN_LOCK_TTL_MS = 5 * 60_000
+
+export type SchedulerTrigger = 'interval' | 'manual'
+
+export type SchedulerAction = 'publish' | 'unpublish' | 'archive'
+
+export type SchedulerActionResult = {
+  entryId: string
+  contentTypeId: string
+  action: SchedulerAction
+  error?: string
+}
+
+export type SchedulerOptions = {
+  intervalMs?: number
+  ownerId?: string
+  onError?: (error: unknown) => void
+}
+
+type ScheduledEntry = {
+  id: string
+  contentTypeId: string
+}
+
+type SchedulerRunRow = {
+  actions: string
+}
+
+/**
+ * Try to take (or renew) the named scheduler lock for `ownerId`
+ *
+ * The lock is granted when it does not exist, has expired or is already held by the same
+ * owner, so only one instance processes scheduled entries at a time.
+ */
+export async function acquireSchedulerLock(
+  prisma: PrismaClient,
+  ownerId: string,
+  ttlMs: number,
+  name: string = SCHEDULER_LOCK_NAME
+): Promise<boolean> {
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + ttlMs)
+
+  const renewed = await prisma.schedulerLock.updateMany({
+    where: { name, OR: [{ ownerId }, { expiresAt: { lt: now } }] },
+    data: { ownerId, expiresAt },
+  })
+  if (renewed.count > 0) return true
+
+  const existing = await prisma.schedulerLock.findUnique({ where: { name } })
+  if (existing) return false
+
+  try {
+    await prisma.schedulerLock.create({ data: { name, ownerId, expiresAt } })
+    return true
+  } catch {
+    // Another instance created the lock first
+    return false
+  }
+}
+
+/**
+ * Release the scheduler lock if it is held by `ownerId`
+ */
+export async function releaseSchedulerLock(
+  prisma: PrismaClient,
+  ownerId: string,
+  name: string = SCHEDULER_LOCK_NAME
+) {
+  await prisma.schedulerLock.deleteMany({ where: { name, ownerId } })
+}
+
+/**
+ * Replace a run's JSON action list with the parsed results
+ */
+export function parseSchedulerRun<T extends SchedulerRunRow>(
+  run: T
+): Omit<T, 'actions'> & { actions: SchedulerActionResult[] } {
+  let actions: SchedulerActionResult[] = []
+  try {
+    actions = JSON.parse(run.actions)
+  } catch {
+    actions = []
+  }
+
+  return { ...run, actions }
+}
+
+/**
+ * Apply every scheduled publish, unpublish and archive that is due and record the run
+ *
+ * Entries are processed one at a time so a failing entry is reported in the run without
+ * blocking the others. Scheduled entries are published with `publishedAt` set to the time of
+ * the run.
+ */
+export async function runScheduledPublishing(
+  prisma: PrismaClient,
+  options: { now?: Date; trigger?: SchedulerTrigger } = {}
+) {
+  const now = options.now ?? new Date()
+  const run = await prisma.schedulerRun.create({
+    data: { trigger: options.trigger ?? 'manual', startedAt: now, actions: '[]' },
+  })
+
+  const results: SchedulerActionResult[] = []
+  let error: string | null = null
+
+  const apply = async (
+    entries: ScheduledEntry[],
+    action: SchedulerAction,
+    write: (entryId: string) => Promise<unknown>
+  ) => {
+    for (const entry of entries) {
+      const result: SchedulerActionResult = {
+        entryId: entry.id,
+        contentTypeId: entry.contentTypeId,
+        action,
+      }
+      try {
+        await write(entry.id)
+      } catch (err) {
+        result.error = err instanceof Error ? err.message : String(err)
+      }
+      results.push(result)
+    }
+  }
+
+  try {
+    await apply(await getScheduledEntriesToPublish(prisma, now), 'publish', entryId =>
+      publishContentEntry(prisma, entryId, now, { actor: SCHEDULER_ACTOR })
+    )
+    await apply(await getScheduledEntriesToUnpublish(prisma, now), 'unpublish', entryId =>
+      unpublishContentEntry(prisma, entryId, { actor: SCHEDULER_ACTOR })
+    )
+    await apply(await getScheduledEntriesToArchive(prisma, now), 'archive', entryId =>
+      archiveContentEntry(prisma, entryId, { actor: SCHEDULER_ACTOR })
+    )
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const succeeded = (action: SchedulerAction) =>
+    results.filter(result => result.action === action && !result.error).length
+
+  const finished = await prisma.schedulerRun.update({
+    where: { id: run.id },
+    data: {
+      finishedAt: new Date(),
+      published: succeeded('publish'),
+      unpublished: succeeded('unpublish'),
+      archived: succeeded('archive'),
+      failed: results.filter(result => result.error).length,
+      actions: JSON.stringify(results),
+      error,
+    },
+  })
+
+  return parseSchedulerRun(finished)
+}
+
+/**
+ * Get the most recent scheduler runs, newest first
+ */
+export async function getSchedulerRuns(prisma: PrismaClient, limit: number = 10) {
+  const runs = await prisma.schedulerRun.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  })
+
+  return runs.map(parseSchedulerRun)
+}
+
+/**
+ * Summarize the scheduler for the dashboard: recent runs, the lock holder and pending work
+ */
+export async function getSchedulerStatus(prisma: PrismaClient, limit: number = 5) {
+  const [runs, lock, upcoming] = await Promise.all([
+    getSchedulerRuns(prisma, limit),
+    prisma.schedulerLock.findUnique({ where: { name: SCHEDULER_LOCK_NAME } }),
+    prisma.contentEntry.count({
+      where: {
+        OR: [
+          { status: 'SCHEDULED', scheduledAt: { not: null } },
+          { status: 'PUBLISHED', unpublishAt: { not: null } },
+          { status: { not: 'ARCHIVED' }, archiveAt: { not: null } },
+        ],
+      },
+    }),
+  ])
+
+  const active = !!lock && new Date(lock.expiresAt) > new Date()
+
+  return {
+    runs,
+    upcoming,
+    lock: active ? { ownerId: lock.ownerId as string, expiresAt: lock.expiresAt as Date } : null,
+  }
+}
+
+/**
+ * Whether servers run the in-process scheduler, configured by SCHEDULER_ENABLED (off in tests)
+ */
+export function isSchedulerEnabled(): boolean {
+  return process.env.NODE_ENV !== 'test' && process.env.SCHEDULER_ENABLED !== 'false'
+}
+
+/**
+ * Interval of the in-process scheduler, configured by SCHEDULER_INTERVAL_MS
+ */
+export function getSchedulerIntervalMs(): number {
+  return Number(process.env.SCHEDULER_INTERVAL_MS) || 60_000
+}
+
+/**
+ * Start the in-process scheduler unless it is disabled (e.g. when cron runs
+ * `npm run scheduler:run` instead); called once by the server entry
+ */
+export function initializeScheduler(prisma: PrismaClient): void {
+  if (!isSchedulerEnabled()) {
+    return
+  }
+
+  startScheduler(prisma, {
+    intervalMs: getSchedulerIntervalMs(),
+  })
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null
+let schedulerOwnerId: string | null = null
+// Whether this process is applying scheduled entries, from a scheduler tick or a single run
+let runInProgress = false
+
+/**
+ * Start the in-process scheduler
+ *
+ * Every tick renews the lock before running, so when several server instances start the
+ * scheduler only the lock holder does any work. The lock outlives two intervals so a crashed
+ * holder is replaced automatically.
+ */
+export function startScheduler(prisma: PrismaClient, options: SchedulerOptions = {}) {
+  if (schedulerTimer) return
+
+  const intervalMs = options.intervalMs ?? 60_000
+  const ownerId = options.ownerId ?? `${process.pid}-${randomUUID()}`
+  const onError =
+    options.onError ?? ((error: unknown) => console.error('Scheduled publishing failed:', error))
+
+  const tick = async () => {
+    if (runInProgress) return
+    runInProgress = true
+    try {
+      if (await acquireSchedulerLock(prisma, ownerId, intervalMs * 2)) {
+        await runScheduledPublishing(prisma, { trigger: 'interval' })
+      }
+    } catch (error) {
+      onError(error)
+    } finally {
+      runInProgress = false
+    }
+  }
+
+  schedulerOwnerId = ownerId
+  schedulerTimer = setInterval(tick, intervalMs)
+  // Don't keep short-lived processes (scripts, tests) alive just for the scheduler
+  schedulerTimer.unref?.()
+  void tick()
+}
+
+/**
+ * Stop the in-process scheduler and hand the lock over to another instance
+ */
+export async function stopScheduler(prisma: PrismaClient) {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer)
+    schedulerTimer = null
+  }
+  if (schedulerOwnerId) {
+    await releaseSchedulerLock(prisma, schedulerOwnerId)
+    schedulerOwnerId = null
+  }
+}
+
+/**
+ * Run scheduled publishing once under the scheduler lock, e.g. from the dashboard or cron
+ *
+ * Returns null without running while another instance holds the lock or this process is
+ * already running. A process running the in-process scheduler holds the lock and runs under it.
+ */
+export async function runScheduledPublishingWithLock(
+  prisma: PrismaClient,
+  options: { ownerId?: string; trigger?: SchedulerTrigger } = {}
+) {
+  if (runInProgress) return null
+  runInProgress = true
+
+  const ownerId = schedulerOwnerId ?? options.ownerId ?? `${process.pid}-${randomUUID()}`
+  try {
+    if (!(await acquireSchedulerLock(prisma, ownerId, SINGLE_RUN_LOCK_TTL_MS))) {
+      return null
+    }
+    try {
+      return await runScheduledPublishing(prisma, { trigger: options.trigger ?? 'manual' })
+    } finally {
+      if (ownerId !== schedulerOwnerId) {
+        await releaseSchedulerLock(prisma, ownerId)
+      }
+    }
+  } finally {
+    runInProgress = false
+  }
+}
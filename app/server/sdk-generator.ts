@@ -0,0 +1,377 @@
+/**
+ * Typed TypeScript client SDK generator
+ * Turns the content types into a package with one interface per content type, keyed by field
+ * name, and a client exposing typed list/get/create/update/delete methods. The package ships
+ * app/lib/client-sdk/runtime.ts as its runtime.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { PrismaClient } from '@prisma/client'
+import { isMultipleRelation } from '../lib/relations'
+import type { FieldKind } from '../lib/client-sdk/runtime'
+import { getContentTypes } from './content-type-utils'
+import type { FieldDefinition } from './field-validation'
+import { toTypeName } from './graphql-schema'
+import { getFieldMediaOptions } from './media-utils'
+import { getFieldRelationOptions } from './relation-utils'
+
+export type ClientSdkOptions = {
+  /** npm package name of the generated client */
+  packageName?: string
+}
+
+type SdkContentType = {
+  slug: string
+  displayName: string
+  description?: string | null
+  fields: FieldDefinition[]
+}
+
+type SdkMapping = {
+  contentType: SdkContentType
+  /** Prefix of the generated type names */
+  typeName: string
+  /** Property of the content type on the client */
+  propertyName: string
+}
+
+const DEFAULT_PACKAGE_NAME = 'tancms-client'
+
+const RUNTIME_PATH = new URL('../lib/client-sdk/runtime.ts', import.meta.url)
+
+/** Names exported by the runtime or the generated index */
+const RESERVED_TYPE_NAMES = new Set([
+  'ApiTransport',
+  'BooleanFilter',
+  'ClientOptions',
+  'ContentTypeResource',
+  'DateFilter',
+  'Entry',
+  'EntryColumnFilter',
+  'EntryList',
+  'EntryStatus',
+  'FieldKind',
+  'FilterBuilder',
+  'ListParams',
+  'MediaReference',
+  'NumberFilter',
+  'PageInfo',
+  'Pagination',
+  'SortOrder',
+  'StatusFilter',
+  'StringFilter',
+  'TanCmsClient',
+  'TanCmsError',
+])
+
+const TYPE_SUFFIXES = ['', 'Fields', 'Input', 'Filter', 'SortField']
+
+/** Runtime types the generated declarations may refer to */
+const RUNTIME_TYPES = [
+  'BooleanFilter',
+  'DateFilter',
+  'Entry',
+  'EntryColumnFilter',
+  'MediaReference',
+  'NumberFilter',
+  'StringFilter',
+]
+
+/** Entry columns that can be sorted next to the fields */
+const SORT_COLUMNS = [
+  'id',
+  'slug',
+  'status',
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'scheduledAt',
+]
+
+/**
+ * How the runtime decodes and encodes the values of a field
+ */
+export function getFieldKind(field: FieldDefinition): FieldKind {
+  switch (field.fieldType) {
+    case 'NUMBER':
+      return 'number'
+    case 'BOOLEAN':
+      return 'boolean'
+    case 'DATE':
+      return 'date'
+    case 'JSON':
+      return 'json'
+    case 'RELATION':
+      return isMultipleRelation(getFieldRelationOptions(field).kind) ? 'relations' : 'relation'
+    case 'MEDIA':
+      return getFieldMediaOptions(field).multiple ? 'mediaList' : 'media'
+    default:
+      return 'string'
+  }
+}
+
+const OUTPUT_TYPES: Record<FieldKind, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  date: 'string',
+  json: 'unknown',
+  relation: 'string',
+  relations: 'string[]',
+  media: 'MediaReference',
+  mediaList: 'MediaReference[]',
+}
+
+const INPUT_TYPES: Record<FieldKind, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  date: 'string | Date',
+  json: 'unknown',
+  relation: 'string',
+  relations: 'string[]',
+  media: 'string',
+  mediaList: 'string[]',
+}
+
+const FILTER_TYPES: Partial<Record<FieldKind, string>> = {
+  number: 'NumberFilter',
+  boolean: 'BooleanFilter',
+  date: 'DateFilter',
+}
+
+const isList = (kind: FieldKind) => kind === 'relations' || kind === 'mediaList'
+
+function quote(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&').replace(/\n/g, '\\n')}'`
+}
+
+/**
+ * Quote property names that are not valid identifiers
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+}
+
+function docComment(text: string, indent = ''): string {
+  return `${indent}/** ${text.replace(/\*\//g, '* /')} */`
+}
+
+/**
+ * Assign unique type and client property names to content types
+ */
+function nameContentTypes(contentTypes: SdkContentType[]): SdkMapping[] {
+  const usedTypes = new Set(RESERVED_TYPE_NAMES)
+  const usedProperties = new Set<string>()
+
+  return contentTypes.map(contentType => {
+    const base = toTypeName(contentType.slug)
+    let typeName = base
+    for (let counter = 1; TYPE_SUFFIXES.some(suffix => usedTypes.has(typeName + suffix)); ) {
+      typeName = `${base}Type${counter > 1 ? counter : ''}`
+      counter++
+    }
+    TYPE_SUFFIXES.forEach(suffix => usedTypes.add(typeName + suffix))
+
+    const baseProperty = typeName.charAt(0).toLowerCase() + typeName.slice(1)
+    let propertyName = baseProperty
+    for (let counter = 2; usedProperties.has(propertyName); counter++) {
+      propertyName = `${baseProperty}${counter}`
+    }
+    usedProperties.add(propertyName)
+
+    return { contentType, typeName, propertyName }
+  })
+}
+
+function generateContentTypeTypes({ contentType, typeName }: SdkMapping): string {
+  const { fields } = contentType
+  const queryable = fields.filter(field => field.fieldType !== 'PASSWORD')
+  const lines: string[] = [
+    docComment(contentType.description || `Field values of a ${contentType.displayName} entry`),
+    `export interface ${typeName}Fields {`,
+  ]
+
+  for (const field of fields) {
+    const kind = getFieldKind(field)
+    const type = OUTPUT_TYPES[kind]
+    lines.push(docComment(field.displayName, '  '))
+    lines.push(
+      `  ${propertyKey(field.name)}: ${isList(kind) || field.required ? type : `${type} | null`}`
+    )
+  }
+  lines.push('}', '')
+
+  lines.push(
+    docComment(`Writable field values of a ${contentType.displayName} entry`),
+    `export interface ${typeName}Input {`
+  )
+  for (const field of fields) {
+    const type = INPUT_TYPES[getFieldKind(field)]
+    lines.push(docComment(field.displayName, '  '))
+    lines.push(
+      field.required
+        ? `  ${propertyKey(field.name)}: ${type}`
+        : `  ${propertyKey(field.name)}?: ${type} | null`
+    )
+  }
+  lines.push('}', '')
+
+  lines.push(`export type ${typeName}Filter = EntryColumnFilter & {`)
+  for (const field of queryable) {
+    lines.push(
+      `  ${propertyKey(field.name)}?: ${FILTER_TYPES[getFieldKind(field)] ?? 'StringFilter'}`
+    )
+  }
+  lines.push('}', '')
+
+  const sortFields = [...SORT_COLUMNS, ...queryable.map(field => field.name)]
+  lines.push(
+    `export type ${typeName}SortField =`,
+    ...sortFields.map(name => `  | ${quote(name)}`),
+    '',
+    `export type ${typeName} = Entry<${typeName}Fields>`,
+    ''
+  )
+
+  return lines.join('\n')
+}
+
+function generateIndex(mappings: SdkMapping[]): string {
+  const resource = ({ typeName }: SdkMapping) =>
+    `ContentTypeResource<${typeName}Fields, ${typeName}Input, ${typeName}Filter, ${typeName}SortField>`
+
+  const declarations = mappings.map(generateContentTypeTypes)
+  const code = declarations
+    .join('\n')
+    .split('\n')
+    .filter(line => !line.trim().startsWith('/**'))
+    .join('\n')
+  // Consumers may compile with noUnusedLocals, so only the used runtime types are imported
+  const typeImports = RUNTIME_TYPES.filter(name => new RegExp(`\\b${name}\\b`).test(code))
+
+  return [
+    '/**',
+    ' * TanCMS client SDK',
+    ' * Generated from the content types by `npm run sdk:generate`; do not edit. Regenerate after',
+    ' * changing a content type so that code using removed or retyped fields stops compiling.',
+    ' */',
+    '',
+    'import {',
+    '  ApiTransport,',
+    ...(mappings.length > 0 ? ['  ContentTypeResource,'] : []),
+    '  type ClientOptions,',
+    ...typeImports.map(name => `  type ${name},`),
+    "} from './runtime'",
+    '',
+    "export * from './runtime'",
+    '',
+    ...declarations,
+    'export type TanCmsClient = {',
+    ...mappings.flatMap(mapping => [
+      docComment(mapping.contentType.displayName, '  '),
+      `  ${mapping.propertyName}: ${resource(mapping)}`,
+    ]),
+    '}',
+    '',
+    'export function createClient(options: ClientOptions): TanCmsClient {',
+    '  const transport = new ApiTransport(options)',
+    '  return {',
+    ...mappings.map(({ contentType, propertyName }) => {
+      const kinds = contentType.fields
+        .map(field => `${propertyKey(field.name)}: '${getFieldKind(field)}'`)
+        .join(', ')
+      return `    ${propertyName}: new ContentTypeResource(transport, ${quote(contentType.slug)}, { ${kinds} }),`
+    }),
+    '  }',
+    '}',
+    '',
+  ].join('\n')
+}
+
+function generateReadme(packageName: string, mappings: SdkMapping[]): string {
+  const example = mappings[0]
+  return [
+    `# ${packageName}`,
+    '',
+    'Typed client for the TanCMS REST API, generated from its content types.',
+    '',
+    '```ts',
+    `import { createClient } from '${packageName}'`,
+    '',
+    "const cms = createClient({ baseUrl: 'https://cms.example.com', apiKey: '...' })",
+    ...(example
+      ? [
+          `const { entries } = await cms.${example.propertyName}.list({`,
+          "  filter: filter => filter.where('status', 'eq', 'PUBLISHED'),",
+          "  sort: ['createdAt:desc'],",
+          '})',
+        ]
+      : []),
+    '```',
+    '',
+    'Content types:',
+    '',
+    ...mappings.map(
+      ({ contentType, propertyName, typeName }) =>
+        `- \`${propertyName}\` (\`${typeName}\`) - ${contentType.displayName}`
+    ),
+    '',
+  ].join('\n')
+}
+
+/**
+ * Generate the files of the client package, keyed by path
+ */
+export function generateClientSdk(
+  contentTypes: SdkContentType[],
+  runtimeSource: string,
+  options: ClientSdkOptions = {}
+): Record<string, string> {
+  const packageName = options.packageName ?? DEFAULT_PACKAGE_NAME
+  const mappings = nameContentTypes([...contentTypes].sort((a, b) => a.slug.localeCompare(b.slug)))
+
+  return {
+    'package.json':
+      JSON.stringify(
+        {
+          name: packageName,
+          version: '1.0.0',
+          description: 'Typed TanCMS API client generated from content types',
+          type: 'module',
+          main: './index.ts',
+          types: './index.ts',
+          exports: { '.': './index.ts' },
+        },
+        null,
+        2
+      ) + '\n',
+    'runtime.ts': runtimeSource,
+    'index.ts': generateIndex(mappings),
+    'README.md': generateReadme(packageName, mappings),
+  }
+}
+
+/**
+ * Generate the client package for the current content types into `outDir`
+ *
+ * Returns the paths of the written files.
+ */
+export async function writeClientSdk(
+  prisma: PrismaClient,
+  outDir: string,
+  options: ClientSdkOptions = {}
+): Promise<string[]> {
+  const contentTypes: SdkContentType[] = await getContentTypes(prisma)
+  const files = generateClientSdk(contentTypes, await readFile(RUNTIME_PATH, 'utf8'), options)
+
+  await mkdir(outDir, { recursive: true })
+  return Promise.all(
+    Object.entries(files).map(async ([name, content]) => {
+      const file = join(outDir, name)
+      await writeFile(file, content)
+      return file
+    })
+  )
+}
@@ -0,0 +1,284 @@
+/**
+ * Full-text search over content entries
+ * Keeps an SQLite FTS5 table with the slug and the TEXT/TEXTAREA field values of every entry in
+ * sync with entry writes, and answers ranked searches with highlighted snippets. The virtual
+ * table is not part of the Prisma schema: the add_content_search migration creates it, and it is
+ * filled with the existing entries on first use.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import type { ContentSearchResult } from '../lib/content-types'
+
+const SEARCH_TABLE = '"ContentSearch"'
+
+const SEARCHABLE_FIELD_TYPES = ['TEXT', 'TEXTAREA']
+
+/** Matches considered when a list endpoint is narrowed by `search` */
+export const MAX_SEARCH_MATCHES = 1000
+
+// Snippet highlight markers; replaced by <mark> once the snippet text has been escaped
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_END = '\u0003'
+
+type IndexableEntry = {
+  id: string
+  contentTypeId: string
+  slug: string | null
+  fieldValues: { value: string | null; field: { fieldType: string } }[]
+}
+
+const indexReady = new WeakMap<PrismaClient, Promise<void>>()
+
+/**
+ * Turn user input into an FTS5 query: every word must match, as a prefix
+ *
+ * Operators and quotes are dropped so input can never break the MATCH syntax. Returns null
+ * when the input has no words.
+ */
+export function buildSearchQuery(input: string): string | null {
+  const words = input.normalize('NFKC').match(/[\p{L}\p{N}_]+/gu) ?? []
+  if (words.length === 0) return null
+  return words
+    .slice(0, 10)
+    .map(word => `"${word}"*`)
+    .join(' ')
+}
+
+/**
+ * Escape a raw FTS5 snippet and turn its highlight markers into <mark> elements
+ */
+export function formatSnippet(raw: string): string {
+  return raw
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_END, 'g'), '</mark>')
+}
+
+/**
+ * Searchable text of an entry: its TEXT and TEXTAREA values without markup
+ */
+export function getSearchableContent(entry: Pick<IndexableEntry, 'fieldValues'>): string {
+  return entry.fieldValues
+    .filter(fv => fv.value && SEARCHABLE_FIELD_TYPES.includes(fv.field.fieldType))
+    .map(fv => fv.value!.replace(/<[^>]*>/g, ' ').trim())
+    .join('\n')
+}
+
+/**
+ * Index every existing entry when the FTS5 table is still empty, e.g. right after the migration
+ */
+export function ensureSearchIndex(prisma: PrismaClient): Promise<void> {
+  let ready = indexReady.get(prisma)
+  if (!ready) {
+    ready = fillSearchIndex(prisma)
+    ready.catch(() => indexReady.delete(prisma))
+    indexReady.set(prisma, ready)
+  }
+  return ready
+}
+
+async function fillSearchIndex(prisma: PrismaClient) {
+  const indexed: unknown[] = await prisma.$queryRawUnsafe(
+    `SELECT entryId FROM ${SEARCH_TABLE} LIMIT 1`
+  )
+  if (indexed.length > 0) return
+
+  await writeEntries(prisma, await loadEntries(prisma, {}))
+}
+
+async function loadEntries(prisma: PrismaClient, where: Record<string, unknown>) {
+  const entries: IndexableEntry[] = await prisma.contentEntry.findMany({
+    where,
+    select: {
+      id: true,
+      contentTypeId: true,
+      slug: true,
+      fieldValues: { select: { value: true, field: { select: { fieldType: true } } } },
+    },
+  })
+  return entries
+}
+
+async function writeEntries(prisma: PrismaClient, entries: IndexableEntry[]) {
+  for (const entry of entries) {
+    await prisma.$executeRawUnsafe(`DELETE FROM ${SEARCH_TABLE} WHERE entryId = ?`, entry.id)
+    await prisma.$executeRawUnsafe(
+      `INSERT INTO ${SEARCH_TABLE} (entryId, contentTypeId, slug, content) VALUES (?, ?, ?, ?)`,
+      entry.id,
+      entry.contentTypeId,
+      entry.slug ?? '',
+      getSearchableContent(entry)
+    )
+  }
+}
+
+/**
+ * Re-index entries after they were created or updated, or remove them when they no longer exist
+ *
+ * Index failures are logged rather than thrown so they never fail the content write itself;
+ * `rebuildSearchIndex` repairs a stale index.
+ */
+export async function syncSearchIndex(prisma: PrismaClient, entryIds: string[]) {
+  if (entryIds.length === 0) return
+
+  try {
+    await ensureSearchIndex(prisma)
+    const entries = await loadEntries(prisma, { id: { in: entryIds } })
+    const removed = entryIds.filter(id => !entries.some(entry => entry.id === id))
+
+    await writeEntries(prisma, entries)
+    if (removed.length > 0) {
+      await prisma.$executeRawUnsafe(
+        `DELETE FROM ${SEARCH_TABLE} WHERE entryId IN (${removed.map(() => '?').join(', ')})`,
+        ...removed
+      )
+    }
+  } catch (error) {
+    console.warn('Could not update the search index:', error)
+  }
+}
+
+/**
+ * Re-index every entry of a content type, e.g. after its fields changed
+ */
+export async function reindexContentType(prisma: PrismaClient, contentTypeId: string) {
+  const entries: { id: string }[] = await prisma.contentEntry.findMany({
+    where: { contentTypeId },
+    select: { id: true },
+  })
+  await syncSearchIndex(
+    prisma,
+    entries.map(entry => entry.id)
+  )
+}
+
+/**
+ * Drop and re-create the index content from the entry tables
+ */
+export async function rebuildSearchIndex(prisma: PrismaClient) {
+  await ensureSearchIndex(prisma)
+  await prisma.$executeRawUnsafe(`DELETE FROM ${SEARCH_TABLE}`)
+  await writeEntries(prisma, await loadEntries(prisma, {}))
+}
+
+type SearchMatchRow = { entryId: string; rank: number; snippet: string | null }
+
+type SearchMatchOptions = {
+  contentTypeIds?: string[]
+  /** Content types whose unpublished entries match too; every type when omitted */
+  unpublishedTypeIds?: string[]
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Ranked matches for a search, best first
+ */
+export async function findSearchMatches(
+  prisma: PrismaClient,
+  search: string,
+  options: SearchMatchOptions = {}
+): Promise<{ matches: SearchMatchRow[]; total: number }> {
+  const query = buildSearchQuery(search)
+  if (!query || options.contentTypeIds?.length === 0) return { matches: [], total: 0 }
+
+  await ensureSearchIndex(prisma)
+
+  const typeIds = options.contentTypeIds ?? []
+  const typeFilter =
+    typeIds.length > 0 ? ` AND contentTypeId IN (${typeIds.map(() => '?').join(', ')})` : ''
+  const unpublishedTypeIds = options.unpublishedTypeIds ?? []
+  const published = `entryId IN (SELECT id FROM "ContentEntry" WHERE status = 'PUBLISHED')`
+  const statusFilter = !options.unpublishedTypeIds
+    ? ''
+    : unpublishedTypeIds.length > 0
+      ? ` AND (contentTypeId IN (${unpublishedTypeIds.map(() => '?').join(', ')}) OR ${published})`
+      : ` AND ${published}`
+  const where = `WHERE ${SEARCH_TABLE} MATCH ?${typeFilter}${statusFilter}`
+  const params = [query, ...typeIds, ...unpublishedTypeIds]
+
+  const [matches, counts]: [SearchMatchRow[], { total: number | bigint }[]] = await Promise.all([
+    prisma.$queryRawUnsafe(
+      `SELECT entryId,
+        bm25(${SEARCH_TABLE}, 0.0, 0.0, 2.0, 1.0) AS rank,
+        snippet(${SEARCH_TABLE}, -1, char(2), char(3), '…', 16) AS snippet
+      FROM ${SEARCH_TABLE} ${where}
+      ORDER BY rank LIMIT ? OFFSET ?`,
+      ...params,
+      options.limit ?? MAX_SEARCH_MATCHES,
+      options.offset ?? 0
+    ),
+    prisma.$queryRawUnsafe(`SELECT count(*) AS total FROM ${SEARCH_TABLE} ${where}`, ...params),
+  ])
+
+  return { matches, total: Number(counts[0]?.total ?? 0) }
+}
+
+/**
+ * Search entries and describe each match with its content type, title and snippet
+ *
+ * The title is the first TEXT field of the entry, falling back to its slug.
+ */
+export async function searchContent(
+  prisma: PrismaClient,
+  search: string,
+  options: Pick<SearchMatchOptions, 'contentTypeIds' | 'unpublishedTypeIds'> & {
+    page?: number
+    limit?: number
+  } = {}
+): Promise<{ results: ContentSearchResult[]; total: number }> {
+  const page = options.page ?? 1
+  const limit = options.limit ?? 20
+  const { matches, total } = await findSearchMatches(prisma, search, {
+    contentTypeIds: options.contentTypeIds,
+    unpublishedTypeIds: options.unpublishedTypeIds,
+    limit,
+    offset: (page - 1) * limit,
+  })
+
+  const entries: {
+    id: string
+    slug: string | null
+    status: ContentSearchResult['status']
+    updatedAt: Date
+    contentType: ContentSearchResult['contentType']
+    fieldValues: { value: string | null; field: { fieldType: string; order: number } }[]
+  }[] = await prisma.contentEntry.findMany({
+    where: { id: { in: matches.map(match => match.entryId) } },
+    include: {
+      contentType: { select: { id: true, slug: true, displayName: true } },
+      fieldValues: { include: { field: true } },
+    },
+  })
+
+  const results = matches.flatMap(match => {
+    const entry = entries.find(candidate => candidate.id === match.entryId)
+    if (!entry) return []
+
+    const title = entry.fieldValues
+      .filter(fv => fv.field.fieldType === 'TEXT' && fv.value)
+      .sort((a, b) => a.field.order - b.field.order)[0]?.value
+
+    return [
+      {
+        id: entry.id,
+        slug: entry.slug,
+        title: title || entry.slug || entry.id,
+        status: entry.status,
+        updatedAt: entry.updatedAt.toISOString(),
+        contentType: {
+          id: entry.contentType.id,
+          slug: entry.contentType.slug,
+          displayName: entry.contentType.displayName,
+        },
+        snippet: formatSnippet(match.snippet ?? ''),
+        rank: Number(match.rank),
+      },
+    ]
+  })
+
+  return { results, total }
+}
@@ -4,6 +4,9 @@
 
 import { authenticateUser } from './auth'
 import type { AuthUser } from './auth'
+import { recordLoginFailure } from './metrics'
+import { prisma } from './db'
+import { saveAuditEntry } from './audit-log'
 
 export interface LoginAttempt {
   email: string
@@ -76,6 +79,9 @@ class LoginAttemptTracker {
     
     const attempts = this.attempts.get(key) || []
     attempts.push(attempt)
+    if (!success) {
+      recordLoginFailure()
+    }
     
     // Keep only recent attempts
     const cutoff = Date.now() - this.config.lockoutDurationMs
@@ -120,7 +126,7 @@ export const loginTracker = new LoginAttemptTracker()
 /**
  * Extract IP address from request
  */
-export function getClientIp(request: Request): string {
+export function getClientIp(request: Pick<Request, 'headers'>): string {
   const forwarded = request.headers.get('x-forwarded-for')
   if (forwarded) {
     return forwarded.split(',')[0].trim()
@@ -365,13 +371,10 @@ export interface SecurityAuditEntry {
 }
 
 /**
- * Simple security audit logger
+ * Security audit logger writing to the persisted audit log (see audit-log.ts)
  */
 class SecurityAuditLogger {
-  private logs: SecurityAuditEntry[] = []
-  private maxLogs = 10000
-  
-  log(event: string, request: Request, userId?: string, success = true, details?: Record<string, unknown>): void {
+  async log(event: string, request: Pick<Request, 'headers'>, userId?: string, success = true, details?: Record<string, unknown>): Promise<void> {
     const entry: SecurityAuditEntry = {
       timestamp: new Date(),
       event,
@@ -382,37 +385,7 @@ class SecurityAuditLogger {
       details,
     }
     
-    this.logs.push(entry)
-    
-    // Keep only recent logs
-    if (this.logs.length > this.maxLogs) {
-      this.logs = this.logs.slice(-this.maxLogs)
-    }
-    
-    // In production, write to persistent storage
-    if (process.env.NODE_ENV === 'production') {
-      console.log('[SECURITY_AUDIT]', JSON.stringify(entry))
-    }
-  }
-  
-  getRecentLogs(limit = 100): SecurityAuditEntry[] {
-    return this.logs.slice(-limit)
-  }
-  
-  getLogsByUser(userId: string, limit = 100): SecurityAuditEntry[] {
-    return this.logs
-      .filter(log => log.userId === userId)
-      .slice(-limit)
-  }
-  
-  getFailedLogins(since?: Date): SecurityAuditEntry[] {
-    const cutoff = since || new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-    
-    return this.logs.filter(
-      log => log.event === 'LOGIN_ATTEMPT' && 
-             !log.success && 
-             log.timestamp >= cutoff
-    )
+    await saveAuditEntry(prisma, { ...entry, createdAt: entry.timestamp })
   }
 }
 
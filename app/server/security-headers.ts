@@ -3,6 +3,8 @@
  * Implements security best practices through HTTP headers
  */
 
+import { recordRateLimitRejection } from './metrics'
+
 export interface SecurityHeadersConfig {
   contentSecurityPolicy?: string | boolean
   xFrameOptions?: string | boolean
@@ -259,6 +261,7 @@ export function createRateLimitMiddleware(config: RateLimitConfig) {
     const result = limiter.check(request)
     
     if (!result.allowed) {
+      recordRateLimitRejection()
       return new Response(
         JSON.stringify({
           error: 'Too Many Requests',
@@ -2,6 +2,11 @@
 import { renderToReadableStream } from 'react-dom/server'
 import { StartServer } from '@tanstack/start/server'
 import { createRouter } from './router'
+import { prisma } from './server/db'
+import { initializeScheduler } from './server/scheduler'
+
+// Start background work once per server process
+initializeScheduler(prisma)
 
 export default async function handler(_request: Request): Promise<Response> {
   const router = createRouter()
@@ -69,7 +69,6 @@ async function authenticatedApiExample() {
   // Create an API manager with authentication enabled
   const authApiManager = configureApiManager({
     enableAuth: true,
-    apiKeys: ['demo-api-key', 'admin-key'],
     enableLogging: true,
     corsEnabled: true,
   })
@@ -79,8 +78,12 @@ async function authenticatedApiExample() {
     const unauthorizedResponse = await authApiManager.get('/api/product')
     console.log('Without API key:', unauthorizedResponse.success) // Should be false
 
-    // This should succeed with API key
-    const authorizedResponse = await authApiManager.get('/api/product', { api_key: 'demo-api-key' })
+    // This should succeed with an API key created in the admin API Manager
+    const authorizedResponse = await authApiManager.handleRequest({
+      method: 'GET',
+      path: '/api/product',
+      headers: { 'X-API-Key': process.env.DEMO_API_KEY ?? '' },
+    })
     console.log('With API key:', authorizedResponse.success) // Should be true
 
     // Status endpoint should always work
@@ -0,0 +1,29 @@
+-- Field types are validated by the Prisma client, so the CHECK constraint added
+-- with the content type tables is dropped to allow PHONE, COLOR, SLUG and PASSWORD
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ContentField" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "fieldType" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "unique" BOOLEAN NOT NULL DEFAULT false,
+    "defaultValue" TEXT,
+    "options" TEXT,
+    "relatedType" TEXT,
+    "contentTypeId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ContentField_contentTypeId_fkey" FOREIGN KEY ("contentTypeId") REFERENCES "ContentType" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_ContentField" ("contentTypeId", "createdAt", "defaultValue", "displayName", "fieldType", "id", "name", "options", "order", "relatedType", "required", "unique", "updatedAt") SELECT "contentTypeId", "createdAt", "defaultValue", "displayName", "fieldType", "id", "name", "options", "order", "relatedType", "required", "unique", "updatedAt" FROM "ContentField";
+DROP TABLE "ContentField";
+ALTER TABLE "new_ContentField" RENAME TO "ContentField";
+CREATE INDEX "ContentField_contentTypeId_idx" ON "ContentField"("contentTypeId");
+CREATE UNIQUE INDEX "ContentField_contentTypeId_name_key" ON "ContentField"("contentTypeId", "name");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
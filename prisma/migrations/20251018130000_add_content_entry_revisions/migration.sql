@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ContentEntryRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "entryId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "slug" TEXT,
+    "status" TEXT NOT NULL,
+    "authorId" TEXT,
+    "fieldValues" TEXT NOT NULL,
+    "restoredFromId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ContentEntryRevision_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "ContentEntry" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ContentEntryRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ContentEntryRevision_entryId_idx" ON "ContentEntryRevision"("entryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentEntryRevision_entryId_version_key" ON "ContentEntryRevision"("entryId", "version");
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "ContentEntry" ADD COLUMN "unpublishAt" DATETIME;
+ALTER TABLE "ContentEntry" ADD COLUMN "archiveAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "ContentEntry_unpublishAt_idx" ON "ContentEntry"("unpublishAt");
+
+-- CreateIndex
+CREATE INDEX "ContentEntry_archiveAt_idx" ON "ContentEntry"("archiveAt");
+
+-- CreateTable
+CREATE TABLE "SchedulerLock" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "ownerId" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SchedulerRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "trigger" TEXT NOT NULL,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    "published" INTEGER NOT NULL DEFAULT 0,
+    "unpublished" INTEGER NOT NULL DEFAULT 0,
+    "archived" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "actions" TEXT NOT NULL,
+    "error" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulerRun_startedAt_idx" ON "SchedulerRun"("startedAt");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ContentRelation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fieldId" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ContentRelation_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "ContentField" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ContentRelation_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "ContentEntry" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ContentRelation_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "ContentEntry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ContentRelation_sourceId_idx" ON "ContentRelation"("sourceId");
+
+-- CreateIndex
+CREATE INDEX "ContentRelation_targetId_idx" ON "ContentRelation"("targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentRelation_fieldId_sourceId_targetId_key" ON "ContentRelation"("fieldId", "sourceId", "targetId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Media" ADD COLUMN "width" INTEGER;
+ALTER TABLE "Media" ADD COLUMN "height" INTEGER;
+ALTER TABLE "Media" ADD COLUMN "orientation" INTEGER;
+ALTER TABLE "Media" ADD COLUMN "formats" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ContentType" ADD COLUMN "apiSettings" TEXT;
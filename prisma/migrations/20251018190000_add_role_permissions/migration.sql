@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "role" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL DEFAULT '*',
+    "scope" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "RolePermission_role_idx" ON "RolePermission"("role");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RolePermission_role_action_contentType_key" ON "RolePermission"("role", "action", "contentType");
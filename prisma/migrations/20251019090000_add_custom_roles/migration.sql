@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "CustomRole" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "baseRole" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "UserCustomRole" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "UserCustomRole_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "UserCustomRole_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "CustomRole" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomRole_name_key" ON "CustomRole"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomRole_baseRole_key" ON "CustomRole"("baseRole");
+
+-- CreateIndex
+CREATE INDEX "UserCustomRole_roleId_idx" ON "UserCustomRole"("roleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserCustomRole_userId_roleId_key" ON "UserCustomRole"("userId", "roleId");
+
+-- Custom roles equivalent to the built-in roles
+INSERT INTO "CustomRole" ("id", "name", "description", "baseRole", "updatedAt") VALUES
+    ('role_admin', 'Admin', 'Every permission', 'ADMIN', CURRENT_TIMESTAMP),
+    ('role_editor', 'Editor', 'Edits and publishes all content', 'EDITOR', CURRENT_TIMESTAMP),
+    ('role_author', 'Author', 'Writes content and edits own entries', 'AUTHOR', CURRENT_TIMESTAMP),
+    ('role_viewer', 'Viewer', 'Reads content', 'VIEWER', CURRENT_TIMESTAMP);
+
+-- Give every user the custom role of their built-in role
+INSERT INTO "UserCustomRole" ("id", "userId", "roleId")
+SELECT 'ucr_' || lower(hex(randomblob(12))), "User"."id", "CustomRole"."id"
+FROM "User" JOIN "CustomRole" ON "CustomRole"."baseRole" = "User"."role";
+
+-- RedefineTables: permissions belong to custom roles instead of built-in roles
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_RolePermission" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "roleId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL DEFAULT '*',
+    "scope" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RolePermission_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "CustomRole" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_RolePermission" ("action", "contentType", "createdAt", "id", "roleId", "scope", "updatedAt") SELECT "RolePermission"."action", "RolePermission"."contentType", "RolePermission"."createdAt", "RolePermission"."id", "CustomRole"."id", "RolePermission"."scope", "RolePermission"."updatedAt" FROM "RolePermission" JOIN "CustomRole" ON "CustomRole"."baseRole" = "RolePermission"."role";
+DROP TABLE "RolePermission";
+ALTER TABLE "new_RolePermission" RENAME TO "RolePermission";
+CREATE INDEX "RolePermission_roleId_idx" ON "RolePermission"("roleId");
+CREATE UNIQUE INDEX "RolePermission_roleId_action_contentType_key" ON "RolePermission"("roleId", "action", "contentType");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
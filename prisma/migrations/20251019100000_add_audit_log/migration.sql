@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "event" TEXT NOT NULL,
+    "userId" TEXT,
+    "userEmail" TEXT,
+    "ip" TEXT NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "details" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_event_idx" ON "AuditLog"("event");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_userId_idx" ON "AuditLog"("userId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_ip_idx" ON "AuditLog"("ip");
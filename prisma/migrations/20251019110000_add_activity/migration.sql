@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "Activity" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "targetLabel" TEXT NOT NULL,
+    "contentTypeId" TEXT NOT NULL,
+    "contentTypeName" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    CONSTRAINT "Activity_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Activity_createdAt_idx" ON "Activity"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Activity_targetType_targetId_idx" ON "Activity"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "Activity_contentTypeId_idx" ON "Activity"("contentTypeId");
+
+-- CreateIndex
+CREATE INDEX "Activity_actorId_idx" ON "Activity"("actorId");
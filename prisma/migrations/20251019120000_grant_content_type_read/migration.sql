@@ -0,0 +1,6 @@
+-- Grant the new contentType.read permission to edited roles, which no longer fall back to the
+-- defaults of their base role, so that their users keep seeing content types in the admin
+INSERT INTO "RolePermission" ("id", "roleId", "action", "contentType", "scope", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(12))), "roleId", 'contentType.read', '*', 'all', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "RolePermission"
+GROUP BY "roleId";
@@ -0,0 +1,11 @@
+-- CreateVirtualTable
+-- Full-text index of content entries, kept in sync by app/server/search-index.ts. Prisma does not
+-- model virtual tables, so the table exists only in this migration; IF NOT EXISTS keeps databases
+-- whose index was created by earlier versions at runtime.
+CREATE VIRTUAL TABLE IF NOT EXISTS "ContentSearch" USING fts5(
+    entryId UNINDEXED,
+    contentTypeId UNINDEXED,
+    slug,
+    content,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
@@ -0,0 +1,32 @@
+import { resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+import { PrismaClient } from '@prisma/client'
+import { writeClientSdk } from '../app/server/sdk-generator'
+
+// Generate the typed client SDK from the content types in the database:
+//   npm run sdk:generate -- --out ../my-app/src/cms --name @acme/cms-client
+const prisma = new PrismaClient()
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: 'client-sdk' },
+      name: { type: 'string' },
+    },
+  })
+
+  const outDir = resolve(values.out!)
+  const files = await writeClientSdk(prisma, outDir, { packageName: values.name })
+  console.log(`📦 Generated client SDK in ${outDir}`)
+  files.forEach(file => console.log(`   ${file}`))
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async e => {
+    console.error('❌ Client SDK generation failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,36 @@
+import { randomUUID } from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import { runScheduledPublishingWithLock } from '../app/server/scheduler'
+
+// Run scheduled publishing once, e.g. from cron:
+//   * * * * * cd /path/to/tancms && npm run scheduler:run
+const prisma = new PrismaClient()
+
+async function main() {
+  const run = await runScheduledPublishingWithLock(prisma, {
+    ownerId: `cli-${process.pid}-${randomUUID()}`,
+  })
+  if (!run) {
+    console.log('⏭️  Another scheduler instance holds the lock, skipping this run')
+    return
+  }
+
+  console.log(
+    `⏰ Scheduled publishing: ${run.published} published, ${run.unpublished} unpublished, ` +
+      `${run.archived} archived, ${run.failed} failed`
+  )
+  for (const action of run.actions.filter(action => action.error)) {
+    console.error(`❌ Could not ${action.action} ${action.entryId}: ${action.error}`)
+  }
+  if (run.error || run.failed > 0) process.exitCode = 1
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async e => {
+    console.error('❌ Scheduled publishing failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
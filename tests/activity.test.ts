@@ -0,0 +1,288 @@
+/**
+ * Tests for the activity stream: recording entry and content type changes with their actor,
+ * filtering, and the /api/activity endpoint
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import {
+  createContentType,
+  updateContentType,
+  deleteContentType,
+  createContentEntry,
+  updateContentEntry,
+  deleteContentEntry,
+  publishContentEntry,
+  unpublishContentEntry,
+  scheduleContentEntry,
+} from '../app/server/content-type-utils'
+import { getEntryRevisions, restoreEntryRevision } from '../app/server/revision-utils'
+import { runScheduledPublishing } from '../app/server/scheduler'
+import { createApiKey } from '../app/server/api-keys'
+import { getEntryUpdateAction, listActivity, validateActivityQuery } from '../app/server/activity'
+import { configureApiManager } from '../app/lib/api-manager'
+import type { ActivityItem } from '../app/lib/activity'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+const start = new Date('2026-10-19T12:00:00Z')
+
+describe('Activity stream', () => {
+  let minutes = 0
+  let contentType: Awaited<ReturnType<typeof createContentType>>
+  let titleId: string
+  let ada: { id: string }
+
+  /** Move the clock on a minute so that every change has its own time */
+  const tick = () => vi.setSystemTime(new Date(start.getTime() + ++minutes * 60 * 1000))
+
+  const createPost = async (title: string) => {
+    tick()
+    return createContentEntry(prisma, {
+      contentTypeId: contentType.id,
+      authorId: ada.id,
+      fieldValues: [{ fieldId: titleId, value: title }],
+    })
+  }
+
+  const summaries = (activities: ActivityItem[]) => activities.map(activity => activity.summary)
+
+  beforeEach(async () => {
+    prisma.$reset()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    minutes = 0
+    vi.setSystemTime(start)
+
+    ada = await prisma.user.create({
+      data: { email: 'ada@example.com', name: 'Ada', password: 'hash' },
+    })
+    contentType = await createContentType(
+      prisma,
+      {
+        name: 'post',
+        displayName: 'Blog Post',
+        fields: [{ name: 'title', displayName: 'Title', fieldType: 'TEXT', order: 0 }],
+      },
+      { actor: { userId: ada.id } }
+    )
+    titleId = contentType.fields[0].id
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records who created, edited, published, unpublished and deleted an entry', async () => {
+    const bob = await prisma.user.create({ data: { email: 'bob@example.com', password: 'hash' } })
+    const bobActor = { actor: { userId: bob.id } }
+
+    const entry = await createPost('Hello world')
+    tick()
+    await updateContentEntry(
+      prisma,
+      entry.id,
+      { fieldValues: [{ fieldId: titleId, value: 'Hello, world' }] },
+      bobActor
+    )
+    tick()
+    await publishContentEntry(prisma, entry.id, new Date(), bobActor)
+    tick()
+    await unpublishContentEntry(prisma, entry.id, bobActor)
+    tick()
+    await deleteContentEntry(prisma, entry.id, { actor: { name: 'API key "Shop"' } })
+
+    const { activities, hasMore } = await listActivity(prisma, { entryId: entry.id })
+    expect(hasMore).toBe(false)
+    expect(activities.map(activity => activity.action)).toEqual([
+      'deleted',
+      'unpublished',
+      'published',
+      'updated',
+      'created',
+    ])
+    expect(summaries(activities)).toEqual([
+      'API key "Shop" deleted Blog Post "Hello, world"',
+      'bob@example.com unpublished Blog Post "Hello, world"',
+      'bob@example.com published Blog Post "Hello, world"',
+      'bob@example.com edited Blog Post "Hello, world"',
+      'Ada created Blog Post "Hello world"',
+    ])
+    expect(activities[0]).toMatchObject({
+      actorId: null,
+      actorName: 'API key "Shop"',
+      target: { type: 'entry', id: entry.id, label: 'Hello, world' },
+      contentType: { id: contentType.id, name: 'Blog Post' },
+    })
+    expect(activities[4]).toMatchObject({ actorId: ada.id, createdAt: '2026-10-19T12:01:00.000Z' })
+  })
+
+  it('records schema changes of content types', async () => {
+    tick()
+    await updateContentType(
+      prisma,
+      contentType.id,
+      { description: 'Articles' },
+      { actor: { userId: ada.id } }
+    )
+    tick()
+    await deleteContentType(prisma, contentType.id)
+
+    const { activities } = await listActivity(prisma)
+    expect(summaries(activities)).toEqual([
+      'System deleted the content type Blog Post',
+      'Ada changed the schema of Blog Post',
+      'Ada created the content type Blog Post',
+    ])
+    expect(activities[1].target).toEqual({
+      type: 'contentType',
+      id: contentType.id,
+      label: 'Blog Post',
+    })
+  })
+
+  it('records restores and scheduled publishing', async () => {
+    const entry = await createPost('First')
+    tick()
+    await updateContentEntry(prisma, entry.id, {
+      fieldValues: [{ fieldId: titleId, value: 'Second' }],
+    })
+    const [, first] = await getEntryRevisions(prisma, entry.id)
+    tick()
+    await restoreEntryRevision(prisma, first.id, { actor: { userId: ada.id } })
+    tick()
+    await scheduleContentEntry(prisma, entry.id, new Date(Date.now() + 60 * 1000), {
+      actor: { userId: ada.id },
+    })
+    tick()
+    tick()
+    await runScheduledPublishing(prisma, { now: new Date() })
+
+    const { activities } = await listActivity(prisma, { entryId: entry.id })
+    expect(summaries(activities).slice(0, 3)).toEqual([
+      'Scheduled publishing published Blog Post "First"',
+      'Ada scheduled Blog Post "First" for publishing',
+      'Ada restored an earlier revision of Blog Post "First"',
+    ])
+  })
+
+  it('derives the action of an update from the status change', () => {
+    expect(getEntryUpdateAction('DRAFT', 'DRAFT')).toBe('updated')
+    expect(getEntryUpdateAction(undefined, 'PUBLISHED')).toBe('updated')
+    expect(getEntryUpdateAction('DRAFT', 'PUBLISHED')).toBe('published')
+    expect(getEntryUpdateAction('PUBLISHED', 'DRAFT')).toBe('unpublished')
+    expect(getEntryUpdateAction('DRAFT', 'SCHEDULED')).toBe('scheduled')
+    expect(getEntryUpdateAction('SCHEDULED', 'DRAFT')).toBe('unscheduled')
+    expect(getEntryUpdateAction('PUBLISHED', 'ARCHIVED')).toBe('archived')
+    expect(getEntryUpdateAction('DRAFT', 'PUBLISHED', true)).toBe('restored')
+  })
+
+  it('filters by actor, content type and time, and pages with a limit', async () => {
+    const first = await createPost('One')
+    await createPost('Two')
+    tick()
+    await publishContentEntry(prisma, first.id, new Date(), { actor: { name: 'Importer' } })
+
+    expect(summaries((await listActivity(prisma, { actorId: ada.id })).activities)).toEqual([
+      'Ada created Blog Post "Two"',
+      'Ada created Blog Post "One"',
+      'Ada created the content type Blog Post',
+    ])
+    expect(
+      summaries((await listActivity(prisma, { since: '2026-10-19T12:01:30Z' })).activities)
+    ).toEqual(['Importer published Blog Post "One"', 'Ada created Blog Post "Two"'])
+    expect(
+      summaries((await listActivity(prisma, { before: '2026-10-19T12:01:30Z' })).activities)
+    ).toEqual(['Ada created Blog Post "One"', 'Ada created the content type Blog Post'])
+
+    const page = await listActivity(prisma, { limit: 2 })
+    expect(page.activities).toHaveLength(2)
+    expect(page.hasMore).toBe(true)
+
+    expect((await listActivity(prisma, {}, [])).activities).toEqual([])
+    expect(
+      (await listActivity(prisma, { contentTypeId: contentType.id }, ['other'])).activities
+    ).toEqual([])
+
+    expect(validateActivityQuery({ since: '2026-10-19T12:00:00Z', limit: 5 })).toEqual([])
+    expect(validateActivityQuery({ before: 'yesterday', limit: 0 })).toEqual([
+      'before must be an ISO date-time',
+      'limit must be a positive integer',
+    ])
+  })
+
+  describe('GET /api/activity', () => {
+    const manager = () => configureApiManager({ enableAuth: true, enableLogging: false })
+
+    it('lists the activity of the content types an API key may read', async () => {
+      await createContentType(prisma, {
+        name: 'secret',
+        displayName: 'Secret',
+        fields: [],
+      })
+      await createPost('Hello')
+      const { key } = await createApiKey(prisma, { name: 'Slack', scopes: ['post:read'] })
+      const headers = { 'x-api-key': key }
+
+      const response = await manager().handleRequest({
+        method: 'GET',
+        path: '/api/activity',
+        headers,
+      })
+      expect(response.success).toBe(true)
+      const data = response.data as {
+        activities: ActivityItem[]
+        pagination: { limit: number; hasNext: boolean }
+      }
+      expect(summaries(data.activities)).toEqual([
+        'Ada created Blog Post "Hello"',
+        'Ada created the content type Blog Post',
+      ])
+      expect(data.pagination).toEqual({ limit: 20, hasNext: false })
+
+      const polled = await manager().handleRequest({
+        method: 'GET',
+        path: '/api/activity',
+        headers,
+        query: { since: data.activities[0].createdAt, contentType: 'post' },
+      })
+      expect((polled.data as { activities: ActivityItem[] }).activities).toEqual([])
+
+      const forbidden = await manager().handleRequest({
+        method: 'GET',
+        path: '/api/activity',
+        headers,
+        query: { contentType: 'secret' },
+      })
+      expect(forbidden.success).toBe(false)
+      expect(forbidden.error?.code).toBe('AUTHORIZATION_FAILED')
+    })
+
+    it('rejects callers without credentials and invalid queries', async () => {
+      const anonymous = await manager().handleRequest({ method: 'GET', path: '/api/activity' })
+      expect(anonymous.success).toBe(false)
+      expect(anonymous.error?.code).toBe('AUTHENTICATION_REQUIRED')
+
+      const { key } = await createApiKey(prisma, { name: 'Slack', scopes: ['*:read'] })
+      const invalid = await manager().handleRequest({
+        method: 'GET',
+        path: '/api/activity',
+        headers: { 'x-api-key': key },
+        query: { since: 'soon' },
+      })
+      expect(invalid.success).toBe(false)
+      expect(invalid.error?.code).toBe('VALIDATION_ERROR')
+
+      const unknown = await manager().handleRequest({
+        method: 'GET',
+        path: '/api/activity',
+        headers: { 'x-api-key': key },
+        query: { contentType: 'missing' },
+      })
+      expect(unknown.error?.code).toBe('NOT_FOUND')
+    })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Tests for the aggregation behind the admin analytics page and its exports
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import {
+  exportAnalytics,
+  getAnalytics,
+  getRangeStart,
+  toAnalyticsCsv,
+} from '../app/server/analytics'
+import { recordApiRequest, resetMetrics } from '../app/server/metrics'
+
+const prisma = createInMemoryPrisma()
+
+const now = new Date('2026-10-19T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+describe('Analytics', () => {
+  beforeEach(async () => {
+    prisma.$reset()
+    resetMetrics()
+
+    const author = await prisma.user.create({
+      data: { email: 'author@example.com', password: 'hash', name: 'Ada' },
+    })
+    await prisma.user.create({ data: { email: 'viewer@example.com', password: 'hash' } })
+    const blogPost = await prisma.contentType.create({
+      data: { name: 'blog-post', displayName: 'Blog Post', slug: 'blog-post' },
+    })
+    const page = await prisma.contentType.create({
+      data: { name: 'page', displayName: 'Page', slug: 'page' },
+    })
+
+    const entries = [
+      { contentTypeId: blogPost.id, status: 'PUBLISHED', createdAt: daysAgo(0) },
+      { contentTypeId: blogPost.id, status: 'PUBLISHED', createdAt: daysAgo(2) },
+      { contentTypeId: blogPost.id, status: 'DRAFT', createdAt: daysAgo(2) },
+      { contentTypeId: page.id, status: 'SCHEDULED', createdAt: daysAgo(20) },
+      { contentTypeId: page.id, status: 'ARCHIVED', createdAt: daysAgo(60) },
+    ]
+    for (const entry of entries) {
+      await prisma.contentEntry.create({
+        data: { ...entry, slug: null, authorId: author.id, updatedAt: entry.createdAt },
+      })
+    }
+
+    await prisma.session.create({
+      data: { userId: author.id, createdAt: daysAgo(1), expiresAt: daysAgo(-6) },
+    })
+    await prisma.session.create({
+      data: { userId: author.id, createdAt: daysAgo(10), expiresAt: daysAgo(3) },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts entries by status and per day of the time range', async () => {
+    const data = await getAnalytics(prisma, { range: '7d', now })
+
+    expect(data.since).toBe('2026-10-13T00:00:00.000Z')
+    expect(data.contentStats).toEqual({
+      totalContentTypes: 2,
+      totalEntries: 5,
+      recentEntries: 3,
+      publishedEntries: 2,
+      draftEntries: 1,
+      scheduledEntries: 1,
+      archivedEntries: 1,
+    })
+    expect(data.entriesPerDay).toHaveLength(7)
+    expect(data.entriesPerDay[0]).toEqual({ date: '2026-10-13', count: 0 })
+    expect(data.entriesPerDay[4]).toEqual({ date: '2026-10-17', count: 2 })
+    expect(data.entriesPerDay[6]).toEqual({ date: '2026-10-19', count: 1 })
+
+    const longer = await getAnalytics(prisma, { range: '30d', now })
+    expect(longer.contentStats.recentEntries).toBe(4)
+    expect(longer.entriesPerDay).toHaveLength(30)
+  })
+
+  it('reports users, sessions, logins and API calls', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(now)
+    recordApiRequest('/api/blog-post', 'GET', 200, 10)
+    recordApiRequest('/api/blog-post', 'GET', 200, 30)
+    await prisma.auditLog.create({
+      data: {
+        event: 'LOGIN_SUCCESS',
+        userId: 'user_1',
+        userEmail: 'author@example.com',
+        ip: '127.0.0.1',
+        userAgent: 'vitest',
+        createdAt: daysAgo(1),
+      },
+    })
+
+    const data = await getAnalytics(prisma, { range: '7d' })
+    expect(data.userActivity).toEqual({
+      totalUsers: 2,
+      activeUsers: 1,
+      activeSessions: 1,
+      recentLogins: 1,
+    })
+    expect(data.systemMetrics).toMatchObject({ apiCalls: 2, avgResponseTime: 20 })
+    expect(data.recentActivity).toContainEqual(
+      expect.objectContaining({ type: 'user', user: 'author@example.com' })
+    )
+  })
+
+  it('lists the top content types and the recent activity', async () => {
+    const data = await getAnalytics(prisma, { range: '7d', now })
+
+    expect(data.topContentTypes).toEqual([
+      { name: 'Blog Post', count: 3, percentage: 60 },
+      { name: 'Page', count: 2, percentage: 40 },
+    ])
+    expect(data.recentActivity.filter(activity => activity.type === 'content')).toHaveLength(3)
+    expect(data.recentActivity[0]).toMatchObject({
+      type: 'content',
+      description: 'Created Blog Post entry',
+      user: 'Ada',
+    })
+  })
+
+  it('exports the analytics as CSV or JSON', async () => {
+    const data = await getAnalytics(prisma, { range: '7d', now })
+    const csv = toAnalyticsCsv(data)
+    expect(csv.split('\n')[0]).toBe('section,metric,value')
+    expect(csv).toContain('content,publishedEntries,2\n')
+    expect(csv).toContain('entriesPerDay,2026-10-17,2\n')
+    expect(csv).toContain('contentTypes,Blog Post,3\n')
+
+    const csvExport = await exportAnalytics(prisma, { range: '7d', format: 'csv', now })
+    expect(csvExport).toMatchObject({
+      filename: 'analytics-7d-2026-10-19.csv',
+      mimeType: 'text/csv',
+    })
+    expect(csvExport.content).toContain('content,publishedEntries,2\n')
+
+    const jsonExport = await exportAnalytics(prisma, { range: '90d', format: 'json', now })
+    expect(jsonExport.mimeType).toBe('application/json')
+    expect(JSON.parse(jsonExport.content).contentStats.recentEntries).toBe(5)
+  })
+
+  it('starts the time range at midnight UTC', () => {
+    expect(getRangeStart('30d', new Date('2026-10-19T23:59:00Z')).toISOString()).toBe(
+      '2026-09-20T00:00:00.000Z'
+    )
+  })
+})
@@ -3,8 +3,16 @@
  */
 
 import { describe, it, expect, beforeEach, beforeAll, vi } from 'vitest'
-import { ApiManager, configureApiManager, api } from '../app/lib/api-manager'
-import { mockApi } from '../app/lib/mock-api'
+import { ApiManager, configureApiManager, api, isApiAuthRequired } from '../app/lib/api-manager'
+import { prisma } from '../app/server/db'
+import { createContentType } from '../app/server/content-type-utils'
+import { createApiKey } from '../app/server/api-keys'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
 
 describe('API Manager', () => {
   let apiManager: ApiManager
@@ -14,10 +22,15 @@ describe('API Manager', () => {
     fields: Array<{ id: string }>
   }
   let testEntryId: string // eslint-disable-line @typescript-eslint/no-unused-vars
+  let headers: Record<string, string>
 
   beforeAll(async () => {
+    // Writes need credentials
+    const { key } = await createApiKey(prisma, { name: 'Writer', scopes: ['*:write'] })
+    headers = { 'x-api-key': key }
+
     // Create a test content type
-    testContentType = await mockApi.createContentType({
+    testContentType = await createContentType(prisma, {
       name: 'test-api-manager',
       displayName: 'Test API Manager',
       description: 'Test content type for API manager testing',
@@ -72,12 +85,16 @@ describe('API Manager', () => {
     })
 
     it('should handle content entry creation', async () => {
-      const response = await apiManager.post(`/api/${testContentType.slug}`, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Test Product' },
-          { fieldId: testContentType.fields[1].id, value: '99.99' },
-        ],
-      })
+      const response = await apiManager.post(
+        `/api/${testContentType.slug}`,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Test Product' },
+            { fieldId: testContentType.fields[1].id, value: '99.99' },
+          ],
+        },
+        headers
+      )
 
       expect(response.success).toBe(true)
       expect(response.data).toBeDefined()
@@ -88,22 +105,30 @@ describe('API Manager', () => {
 
     it('should handle content entry updates', async () => {
       // First create an entry
-      const createResponse = await apiManager.post(`/api/${testContentType.slug}`, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Original Title' },
-          { fieldId: testContentType.fields[1].id, value: '50.00' },
-        ],
-      })
+      const createResponse = await apiManager.post(
+        `/api/${testContentType.slug}`,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Original Title' },
+            { fieldId: testContentType.fields[1].id, value: '50.00' },
+          ],
+        },
+        headers
+      )
 
       const entryId = createResponse.data.entry.id
 
       // Now update it
-      const response = await apiManager.put(`/api/${testContentType.slug}/${entryId}`, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Updated Title' },
-          { fieldId: testContentType.fields[1].id, value: '75.00' },
-        ],
-      })
+      const response = await apiManager.put(
+        `/api/${testContentType.slug}/${entryId}`,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Updated Title' },
+            { fieldId: testContentType.fields[1].id, value: '75.00' },
+          ],
+        },
+        headers
+      )
 
       expect(response.success).toBe(true)
       expect(response.data.entry).toBeDefined()
@@ -116,17 +141,21 @@ describe('API Manager', () => {
 
     it('should handle content entry deletion', async () => {
       // First create an entry
-      const createResponse = await apiManager.post(`/api/${testContentType.slug}`, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'To Delete' },
-          { fieldId: testContentType.fields[1].id, value: '25.00' },
-        ],
-      })
+      const createResponse = await apiManager.post(
+        `/api/${testContentType.slug}`,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'To Delete' },
+            { fieldId: testContentType.fields[1].id, value: '25.00' },
+          ],
+        },
+        headers
+      )
 
       const entryId = createResponse.data.entry.id
 
       // Now delete it
-      const response = await apiManager.delete(`/api/${testContentType.slug}/${entryId}`)
+      const response = await apiManager.delete(`/api/${testContentType.slug}/${entryId}`, headers)
 
       expect(response.success).toBe(true)
       expect(response.data.message).toBe('Entry deleted successfully')
@@ -192,31 +221,55 @@ describe('API Manager', () => {
       const authManager = configureApiManager({
         enableAuth: true,
         enableLogging: false,
-        apiKeys: ['test-key'],
+      })
+      const { key } = await createApiKey(prisma, {
+        name: 'Test',
+        scopes: ['test-api-manager:read'],
       })
 
       // Should fail without API key
       const response1 = await authManager.get('/api/test-api-manager')
       expect(response1.success).toBe(false)
       expect(response1.error?.code).toBe('AUTHENTICATION_REQUIRED')
-      expect(response1.message).toContain('API key is required')
+      expect(response1.message).toContain('Authentication required')
 
       // Should succeed with valid API key
-      const response2 = await authManager.get('/api/test-api-manager', { api_key: 'test-key' })
+      const response2 = await authManager.handleRequest({
+        method: 'GET',
+        path: '/api/test-api-manager',
+        headers: { 'x-api-key': key },
+      })
       expect(response2.success).toBe(true)
 
       // Should fail with invalid API key
-      const response3 = await authManager.get('/api/test-api-manager', { api_key: 'invalid-key' })
+      const response3 = await authManager.handleRequest({
+        method: 'GET',
+        path: '/api/test-api-manager',
+        headers: { 'x-api-key': 'tcms_00000000_invalid' },
+      })
       expect(response3.success).toBe(false)
       expect(response3.error?.code).toBe('AUTHENTICATION_FAILED')
       expect(response3.message).toContain('Invalid API key')
+
+      // Should not accept the key in the query string
+      const response4 = await authManager.get('/api/test-api-manager', { api_key: key })
+      expect(response4.error?.code).toBe('AUTHENTICATION_REQUIRED')
+      expect(response4.message).toContain('not accepted in the query string')
+    })
+
+    it('should require credentials in production and while API_KEYS is set', () => {
+      expect(isApiAuthRequired({})).toBe(false)
+      expect(isApiAuthRequired({ REQUIRE_API_KEY: 'true' })).toBe(true)
+      expect(isApiAuthRequired({ NODE_ENV: 'production' })).toBe(true)
+      expect(isApiAuthRequired({ NODE_ENV: 'production', REQUIRE_API_KEY: 'false' })).toBe(false)
+      expect(isApiAuthRequired({ API_KEYS: 'legacy-key' })).toBe(true)
+      expect(isApiAuthRequired({ API_KEYS: 'legacy-key', REQUIRE_API_KEY: 'false' })).toBe(true)
     })
 
     it('should allow status endpoint without auth', async () => {
       const authManager = configureApiManager({
         enableAuth: true,
         enableLogging: false,
-        apiKeys: ['test-key'],
       })
 
       const response = await authManager.get('/api/status')
@@ -250,38 +303,47 @@ describe('API Manager', () => {
 
     it('should handle content operations through convenience API', async () => {
       // Create entry
-      const createResponse = await api.createEntry(testContentType.slug, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Convenience API Test' },
-          { fieldId: testContentType.fields[1].id, value: '123.45' },
-        ],
-      })
+      const createResponse = await api.createEntry(
+        testContentType.slug,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Convenience API Test' },
+            { fieldId: testContentType.fields[1].id, value: '123.45' },
+          ],
+        },
+        headers
+      )
 
       expect(createResponse.success).toBe(true)
       const entryId = createResponse.data.entry.id
 
       // Get entry
-      const getResponse = await api.getEntry(testContentType.slug, entryId)
+      const getResponse = await api.getEntry(testContentType.slug, entryId, undefined, headers)
       expect(getResponse.success).toBe(true)
       expect(getResponse.data.entry.id).toBe(entryId)
 
       // List entries
-      const listResponse = await api.listEntries(testContentType.slug)
+      const listResponse = await api.listEntries(testContentType.slug, undefined, headers)
       expect(listResponse.success).toBe(true)
       expect(listResponse.data.entries.length).toBeGreaterThan(0)
 
       // Update entry
-      const updateResponse = await api.updateEntry(testContentType.slug, entryId, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Updated Convenience API Test' },
-          { fieldId: testContentType.fields[1].id, value: '543.21' },
-        ],
-      })
+      const updateResponse = await api.updateEntry(
+        testContentType.slug,
+        entryId,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Updated Convenience API Test' },
+            { fieldId: testContentType.fields[1].id, value: '543.21' },
+          ],
+        },
+        headers
+      )
 
       expect(updateResponse.success).toBe(true)
 
       // Delete entry
-      const deleteResponse = await api.deleteEntry(testContentType.slug, entryId)
+      const deleteResponse = await api.deleteEntry(testContentType.slug, entryId, headers)
       expect(deleteResponse.success).toBe(true)
     })
 
@@ -316,13 +378,23 @@ describe('API Manager', () => {
       expect(response.message).toContain('Invalid API path')
     })
 
+    it('should reject malformed percent-encoding in paths', async () => {
+      const response = await apiManager.get(`/api/${testContentType.slug}/%E0%A4%A`)
+      expect(response.success).toBe(false)
+      expect(response.error?.code).toBe('BAD_REQUEST')
+    })
+
     it('should handle validation errors', async () => {
-      const response = await apiManager.post(`/api/${testContentType.slug}`, {
-        fieldValues: [
-          // Missing required fields
-          { fieldId: 'nonexistent', value: 'test' },
-        ],
-      })
+      const response = await apiManager.post(
+        `/api/${testContentType.slug}`,
+        {
+          fieldValues: [
+            // Missing required fields
+            { fieldId: 'nonexistent', value: 'test' },
+          ],
+        },
+        headers
+      )
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('VALIDATION_ERROR')
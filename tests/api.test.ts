@@ -2,17 +2,31 @@
  * Tests for the Dynamic Content Type API
  */
 
-import { describe, it, expect, beforeAll } from 'vitest'
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import bcrypt from 'bcryptjs'
 import { api } from '../app/lib/api-manager'
-import { mockApi } from '../app/lib/mock-api'
+import { prisma } from '../app/server/db'
+import { createContentType } from '../app/server/content-type-utils'
+import { createApiKey } from '../app/server/api-keys'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
 
 describe('Dynamic Content Type API', () => {
   let testContentType: any
   let testEntryId: string
+  let headers: Record<string, string>
 
   beforeAll(async () => {
+    // Writes need credentials
+    const { key } = await createApiKey(prisma, { name: 'Test', scopes: ['*:write'] })
+    headers = { 'x-api-key': key }
+
     // Create a test content type
-    testContentType = await mockApi.createContentType({
+    testContentType = await createContentType(prisma, {
       name: 'test-product',
       displayName: 'Test Product',
       description: 'Test product content type',
@@ -47,13 +61,17 @@ describe('Dynamic Content Type API', () => {
 
   describe('POST /api/{contentType}', () => {
     it('should create a new entry', async () => {
-      const response = await api.createEntry('test-product', {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Test Product' },
-          { fieldId: testContentType.fields[1].id, value: '99.99' },
-          { fieldId: testContentType.fields[2].id, value: 'A test product description' },
-        ],
-      })
+      const response = await api.createEntry(
+        'test-product',
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Test Product' },
+            { fieldId: testContentType.fields[1].id, value: '99.99' },
+            { fieldId: testContentType.fields[2].id, value: 'A test product description' },
+          ],
+        },
+        headers
+      )
 
       expect(response.success).toBe(true)
       expect(response.data).toBeDefined()
@@ -65,14 +83,18 @@ describe('Dynamic Content Type API', () => {
     })
 
     it('should fail to create entry with missing required fields', async () => {
-      const response = await api.createEntry('test-product', {
-        fieldValues: [
-          {
-            fieldId: testContentType.fields[2].id,
-            value: 'Only description, missing title and price',
-          },
-        ],
-      })
+      const response = await api.createEntry(
+        'test-product',
+        {
+          fieldValues: [
+            {
+              fieldId: testContentType.fields[2].id,
+              value: 'Only description, missing title and price',
+            },
+          ],
+        },
+        headers
+      )
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('VALIDATION_ERROR')
@@ -82,9 +104,13 @@ describe('Dynamic Content Type API', () => {
     })
 
     it('should fail for non-existent content type', async () => {
-      const response = await api.createEntry('nonexistent', {
-        fieldValues: [{ fieldId: 'fake-id', value: 'test' }],
-      })
+      const response = await api.createEntry(
+        'nonexistent',
+        {
+          fieldValues: [{ fieldId: 'fake-id', value: 'test' }],
+        },
+        headers
+      )
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('NOT_FOUND')
@@ -114,7 +140,7 @@ describe('Dynamic Content Type API', () => {
     })
 
     it('should support search', async () => {
-      const response = await api.listEntries('test-product', { search: 'Test Product' })
+      const response = await api.listEntries('test-product', { search: 'Test Product' }, headers)
 
       expect(response.success).toBe(true)
       expect(response.data.entries.length).toBeGreaterThan(0)
@@ -132,7 +158,7 @@ describe('Dynamic Content Type API', () => {
 
   describe('GET /api/{contentType}/:id', () => {
     it('should get a single entry', async () => {
-      const response = await api.getEntry('test-product', testEntryId)
+      const response = await api.getEntry('test-product', testEntryId, undefined, headers)
 
       expect(response.success).toBe(true)
       expect(response.data).toBeDefined()
@@ -162,13 +188,18 @@ describe('Dynamic Content Type API', () => {
 
   describe('PUT /api/{contentType}/:id', () => {
     it('should update an entry', async () => {
-      const response = await api.updateEntry('test-product', testEntryId, {
-        fieldValues: [
-          { fieldId: testContentType.fields[0].id, value: 'Updated Product Title' },
-          { fieldId: testContentType.fields[1].id, value: '149.99' },
-          { fieldId: testContentType.fields[2].id, value: 'Updated description' },
-        ],
-      })
+      const response = await api.updateEntry(
+        'test-product',
+        testEntryId,
+        {
+          fieldValues: [
+            { fieldId: testContentType.fields[0].id, value: 'Updated Product Title' },
+            { fieldId: testContentType.fields[1].id, value: '149.99' },
+            { fieldId: testContentType.fields[2].id, value: 'Updated description' },
+          ],
+        },
+        headers
+      )
 
       expect(response.success).toBe(true)
       expect(response.data).toBeDefined()
@@ -181,10 +212,29 @@ describe('Dynamic Content Type API', () => {
       expect(titleField.value).toBe('Updated Product Title')
     })
 
-    it('should fail to update with missing required fields', async () => {
-      const response = await api.updateEntry('test-product', testEntryId, {
-        fieldValues: [{ fieldId: testContentType.fields[2].id, value: 'Only description' }],
-      })
+    it('should keep the fields a partial update leaves out', async () => {
+      const response = await api.updateEntry(
+        'test-product',
+        testEntryId,
+        {
+          fieldValues: [{ fieldId: testContentType.fields[2].id, value: 'Only description' }],
+        },
+        headers
+      )
+
+      expect(response.success).toBe(true)
+      expect(response.data.entry.fieldValues).toHaveLength(3)
+    })
+
+    it('should fail to clear required fields', async () => {
+      const response = await api.updateEntry(
+        'test-product',
+        testEntryId,
+        {
+          fieldValues: [{ fieldId: testContentType.fields[0].id, value: '' }],
+        },
+        headers
+      )
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('VALIDATION_ERROR')
@@ -192,9 +242,14 @@ describe('Dynamic Content Type API', () => {
     })
 
     it('should fail for non-existent entry', async () => {
-      const response = await api.updateEntry('test-product', 'nonexistent-id', {
-        fieldValues: [{ fieldId: testContentType.fields[0].id, value: 'Test' }],
-      })
+      const response = await api.updateEntry(
+        'test-product',
+        'nonexistent-id',
+        {
+          fieldValues: [{ fieldId: testContentType.fields[0].id, value: 'Test' }],
+        },
+        headers
+      )
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('NOT_FOUND')
@@ -205,7 +260,7 @@ describe('Dynamic Content Type API', () => {
 
   describe('DELETE /api/{contentType}/:id', () => {
     it('should delete an entry', async () => {
-      const response = await api.deleteEntry('test-product', testEntryId)
+      const response = await api.deleteEntry('test-product', testEntryId, headers)
 
       expect(response.success).toBe(true)
       expect(response.data).toBeDefined()
@@ -214,7 +269,7 @@ describe('Dynamic Content Type API', () => {
     })
 
     it('should fail for non-existent entry', async () => {
-      const response = await api.deleteEntry('test-product', 'nonexistent-id')
+      const response = await api.deleteEntry('test-product', 'nonexistent-id', headers)
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('NOT_FOUND')
@@ -223,7 +278,7 @@ describe('Dynamic Content Type API', () => {
     })
 
     it('should fail for non-existent content type', async () => {
-      const response = await api.deleteEntry('nonexistent', testEntryId)
+      const response = await api.deleteEntry('nonexistent', testEntryId, headers)
 
       expect(response.success).toBe(false)
       expect(response.error?.code).toBe('NOT_FOUND')
@@ -231,4 +286,60 @@ describe('Dynamic Content Type API', () => {
       expect(response.message).toContain('nonexistent')
     })
   })
+
+  describe('PASSWORD fields', () => {
+    it('stores hashes and leaves the values out of every response', async () => {
+      const account = await createContentType(prisma, {
+        name: 'account',
+        displayName: 'Account',
+        fields: [
+          { name: 'login', displayName: 'Login', fieldType: 'TEXT', order: 0 },
+          { name: 'secret', displayName: 'Secret', fieldType: 'PASSWORD', order: 1 },
+        ],
+      })
+      const [loginId, secretId] = account.fields.map((field: { id: string }) => field.id)
+      const hasSecret = (entry: { fieldValues: { fieldId: string }[] }) =>
+        entry.fieldValues.some(fv => fv.fieldId === secretId)
+
+      const created = await api.createEntry(
+        'account',
+        {
+          fieldValues: [
+            { fieldId: loginId, value: 'ada' },
+            { fieldId: secretId, value: 'Sup3r-secret!' },
+          ],
+        },
+        headers
+      )
+      expect(created.success).toBe(true)
+      const entryId = created.data.entry.id
+      expect(hasSecret(created.data.entry)).toBe(false)
+
+      const stored = await prisma.contentFieldValue.findFirst({
+        where: { entryId, fieldId: secretId },
+      })
+      expect(stored.value).not.toBe('Sup3r-secret!')
+      expect(await bcrypt.compare('Sup3r-secret!', stored.value)).toBe(true)
+
+      const updated = await api.updateEntry(
+        'account',
+        entryId,
+        { fieldValues: [{ fieldId: loginId, value: 'ada.l' }] },
+        headers
+      )
+      expect(hasSecret(updated.data.entry)).toBe(false)
+      const kept = await prisma.contentFieldValue.findFirst({
+        where: { entryId, fieldId: secretId },
+      })
+      expect(kept.value).toBe(stored.value)
+
+      const entry = await api.getEntry('account', entryId, undefined, headers)
+      expect(hasSecret(entry.data.entry)).toBe(false)
+      const list = await api.listEntries('account', undefined, headers)
+      expect(list.data.entries.some(hasSecret)).toBe(false)
+      const revisions = await api.listRevisions('account', entryId, headers)
+      expect(revisions.data.revisions).toHaveLength(2)
+      expect(revisions.data.revisions.some(hasSecret)).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,233 @@
+/**
+ * Tests for the persisted security audit log: writing, filtering, retention, CSV export and the
+ * entries written for content API writes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentType } from '../app/server/content-type-utils'
+import { createApiKey } from '../app/server/api-keys'
+import {
+  exportAuditLogs,
+  getAuditRetentionDays,
+  pruneAuditLogs,
+  queryAuditLogs,
+  saveAuditEntry,
+  toAuditLogCsv,
+  validateAuditLogQuery,
+} from '../app/server/audit-log'
+import { securityAudit } from '../app/server/security-auth'
+import { configureApiManager } from '../app/lib/api-manager'
+import { getAuditEventLabel } from '../app/lib/audit-log'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+const now = new Date('2026-10-19T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+const record = (event: string, overrides: Record<string, unknown> = {}) => ({
+  event,
+  ip: '10.0.0.1',
+  userAgent: 'vitest',
+  success: true,
+  ...overrides,
+})
+
+describe('Audit log', () => {
+  beforeEach(() => {
+    prisma.$reset()
+  })
+
+  it('persists entries and looks up the email address of the user', async () => {
+    const user = await prisma.user.create({
+      data: { email: 'editor@example.com', password: 'hash' },
+    })
+
+    await securityAudit.log(
+      'ENTRY_CREATED',
+      new Request('http://localhost/api/blog-post', {
+        headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Browser' },
+      }),
+      user.id,
+      true,
+      { entryId: 'entry_1' }
+    )
+    await saveAuditEntry(
+      prisma,
+      record('LOGIN_ATTEMPT', { success: false, details: { email: 'guest@example.com' } })
+    )
+
+    const { entries, total } = await queryAuditLogs(prisma)
+    expect(total).toBe(2)
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        event: 'ENTRY_CREATED',
+        userId: user.id,
+        userEmail: 'editor@example.com',
+        ip: '203.0.113.7',
+        userAgent: 'Browser',
+        success: true,
+        details: { entryId: 'entry_1' },
+      })
+    )
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        event: 'LOGIN_ATTEMPT',
+        userId: null,
+        userEmail: 'guest@example.com',
+        success: false,
+      })
+    )
+    expect(getAuditEventLabel('LOGIN_ATTEMPT')).toBe('Failed sign-in')
+    expect(getAuditEventLabel('CUSTOM_EVENT')).toBe('CUSTOM_EVENT')
+  })
+
+  it('filters by user, event, IP address and date range, newest first', async () => {
+    const entries = [
+      record('LOGIN_SUCCESS', {
+        userId: 'user_1',
+        userEmail: 'ada@example.com',
+        createdAt: daysAgo(0),
+      }),
+      record('ENTRY_UPDATED', {
+        userId: 'user_1',
+        userEmail: 'ada@example.com',
+        createdAt: daysAgo(1),
+      }),
+      record('ENTRY_DELETED', {
+        userId: 'user_2',
+        userEmail: 'bob@example.com',
+        createdAt: daysAgo(3),
+      }),
+      record('LOGIN_SUCCESS', { ip: '192.168.1.5', createdAt: daysAgo(10) }),
+    ]
+    for (const entry of entries) await saveAuditEntry(prisma, entry)
+
+    const events = async (query: Parameters<typeof queryAuditLogs>[1]) =>
+      (await queryAuditLogs(prisma, query)).entries.map(entry => entry.event)
+
+    expect(await events({})).toEqual([
+      'LOGIN_SUCCESS',
+      'ENTRY_UPDATED',
+      'ENTRY_DELETED',
+      'LOGIN_SUCCESS',
+    ])
+    expect(await events({ user: 'ada@' })).toEqual(['LOGIN_SUCCESS', 'ENTRY_UPDATED'])
+    expect(await events({ user: 'user_2' })).toEqual(['ENTRY_DELETED'])
+    expect(await events({ event: 'LOGIN_SUCCESS' })).toHaveLength(2)
+    expect(await events({ ip: '192.168.' })).toEqual(['LOGIN_SUCCESS'])
+    expect(await events({ from: '2026-10-16', to: '2026-10-18' })).toEqual([
+      'ENTRY_UPDATED',
+      'ENTRY_DELETED',
+    ])
+
+    const page = await queryAuditLogs(prisma, { page: 2, pageSize: 3 })
+    expect(page).toMatchObject({ total: 4, page: 2, pageSize: 3 })
+    expect(page.entries.map(entry => entry.ip)).toEqual(['192.168.1.5'])
+  })
+
+  it('validates the filters of a query', () => {
+    expect(
+      validateAuditLogQuery({ from: '2026-10-01', to: '2026-10-19T10:00:00Z', page: 2 })
+    ).toEqual([])
+    expect(validateAuditLogQuery({ from: 'yesterday', page: 0, pageSize: 1.5 })).toEqual([
+      'from must be an ISO date or date-time',
+      'page must be a positive integer',
+      'pageSize must be a positive integer',
+    ])
+  })
+
+  it('deletes entries older than the retention period', async () => {
+    await saveAuditEntry(prisma, record('LOGIN_SUCCESS', { createdAt: daysAgo(100) }))
+    await saveAuditEntry(prisma, record('LOGIN_SUCCESS', { createdAt: daysAgo(20) }))
+
+    expect(await pruneAuditLogs(prisma, { retentionDays: 0, now })).toBe(0)
+    expect(await pruneAuditLogs(prisma, { retentionDays: 30, now })).toBe(1)
+    expect(await prisma.auditLog.count()).toBe(1)
+
+    expect(getAuditRetentionDays(undefined)).toBe(90)
+    expect(getAuditRetentionDays('0')).toBe(0)
+    expect(getAuditRetentionDays('365')).toBe(365)
+    expect(getAuditRetentionDays('forever')).toBe(90)
+  })
+
+  it('exports the matching entries as CSV', async () => {
+    await saveAuditEntry(
+      prisma,
+      record('MEDIA_DELETED', {
+        userEmail: 'ada@example.com',
+        createdAt: daysAgo(1),
+        details: { filename: 'a, "b".png' },
+      })
+    )
+    await saveAuditEntry(prisma, record('LOGOUT', { createdAt: daysAgo(2) }))
+
+    const csv = toAuditLogCsv((await queryAuditLogs(prisma)).entries)
+    const [header, first] = csv.split('\n')
+    expect(header).toBe('createdAt,event,userId,userEmail,ip,userAgent,success,details')
+    expect(first).toBe(
+      '2026-10-18T12:00:00.000Z,MEDIA_DELETED,,ada@example.com,10.0.0.1,vitest,true,' +
+        '"{""filename"":""a, \\""b\\"".png""}"'
+    )
+
+    const file = await exportAuditLogs(prisma, { event: 'LOGOUT' })
+    expect(file.filename).toMatch(/^audit-log-\d{4}-\d{2}-\d{2}\.csv$/)
+    expect(file.mimeType).toBe('text/csv')
+    expect(file.content.trim().split('\n')).toHaveLength(2)
+  })
+
+  it('neutralizes values that spreadsheets would run as formulas', async () => {
+    await saveAuditEntry(
+      prisma,
+      record('LOGIN_FAILED', {
+        userEmail: '@SUM(A1)',
+        userAgent: '=HYPERLINK("http://evil.example","click")',
+        createdAt: daysAgo(1),
+      })
+    )
+
+    const [, row] = toAuditLogCsv((await queryAuditLogs(prisma)).entries).split('\n')
+    expect(row).toBe(
+      "2026-10-18T12:00:00.000Z,LOGIN_FAILED,,'@SUM(A1),10.0.0.1," +
+        '"\'=HYPERLINK(""http://evil.example"",""click"")",true,'
+    )
+  })
+
+  it('records entry writes made through the content API', async () => {
+    await createContentType(prisma, {
+      name: 'product',
+      displayName: 'Product',
+      fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT' }],
+    })
+    const { key, apiKey } = await createApiKey(prisma, { name: 'Shop', scopes: ['product:write'] })
+    const manager = configureApiManager({ enableAuth: true, enableLogging: false })
+    const headers = { 'x-api-key': key, 'x-real-ip': '198.51.100.4' }
+
+    const created = await manager.handleRequest({
+      method: 'POST',
+      path: '/api/product',
+      headers,
+      body: { fieldValues: [] },
+    })
+    expect(created.success).toBe(true)
+    const entryId = (created.data as { entry: { id: string } }).entry.id
+
+    await manager.handleRequest({ method: 'GET', path: `/api/product/${entryId}`, headers })
+    await manager.handleRequest({ method: 'DELETE', path: `/api/product/${entryId}`, headers })
+    await manager.handleRequest({ method: 'DELETE', path: '/api/product/missing', headers })
+
+    const { entries } = await queryAuditLogs(prisma)
+    expect(entries.map(entry => entry.event).sort()).toEqual(['ENTRY_CREATED', 'ENTRY_DELETED'])
+    expect(entries.every(entry => entry.ip === '198.51.100.4')).toBe(true)
+    expect(entries[0].details).toEqual({
+      entryId,
+      contentType: 'product',
+      apiKeyId: apiKey.id,
+      source: 'rest',
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Tests for the content server functions behind the admin screens
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentType } from '../app/server/content-type-utils'
+import { createContentEntryFn, updateContentEntryFn } from '../app/server/content-functions'
+import { generateAccessToken } from '../app/server/jwt-auth'
+import { resolveUserAccess } from '../app/server/roles'
+import type { ContentEntryInput, ContentEntryUpdate } from '../app/lib/content-types'
+
+const current = vi.hoisted(() => ({ request: new Request('http://localhost/') }))
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+// Server functions run their validator and handler in place of an RPC call
+vi.mock('@tanstack/react-start', () => ({
+  createServerFn: () => {
+    let validate = (input: unknown) => input
+    const builder = {
+      validator(fn: (input: unknown) => unknown) {
+        validate = fn
+        return builder
+      },
+      handler:
+        (fn: (context: { data: unknown }) => unknown) =>
+        ({ data }: { data: unknown }) =>
+          fn({ data: validate(data) }),
+    }
+    return builder
+  },
+}))
+
+vi.mock('@tanstack/react-start/server', () => ({
+  getWebRequest: () => current.request,
+}))
+
+describe('Content entry server functions', () => {
+  let contentTypeId: string
+  let titleId: string
+  let editorId: string
+  let otherId: string
+
+  beforeEach(async () => {
+    prisma.$reset()
+    const contentType = await createContentType(prisma, {
+      name: 'page',
+      displayName: 'Page',
+      fields: [{ name: 'title', displayName: 'Title', fieldType: 'TEXT', order: 0 }],
+    })
+    contentTypeId = contentType.id
+    titleId = contentType.fields[0].id
+
+    const editor = await prisma.user.create({
+      data: { email: 'admin@example.com', password: 'hash', role: 'ADMIN' },
+    })
+    const other = await prisma.user.create({
+      data: { email: 'other@example.com', password: 'hash', role: 'AUTHOR' },
+    })
+    editorId = editor.id
+    otherId = other.id
+
+    const token = generateAccessToken({
+      id: editor.id,
+      email: editor.email,
+      name: null,
+      role: 'ADMIN',
+      ...(await resolveUserAccess(prisma, { id: editor.id, role: 'ADMIN' })),
+    })
+    current.request = new Request('http://localhost/', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+  })
+
+  it('ignores the author and publication date sent by the client', async () => {
+    const backdated = new Date('2000-01-01T00:00:00Z')
+    const created = await createContentEntryFn({
+      data: {
+        contentTypeId,
+        fieldValues: [{ fieldId: titleId, value: 'About' }],
+        authorId: otherId,
+        publishedAt: backdated,
+      } as ContentEntryInput,
+    })
+
+    expect(created.authorId).toBe(editorId)
+    expect(created.publishedAt).toBeUndefined()
+
+    const updated = await updateContentEntryFn({
+      data: {
+        id: created.id,
+        data: { slug: 'about-us', authorId: otherId, publishedAt: backdated } as ContentEntryUpdate,
+      },
+    })
+
+    expect(updated?.slug).toBe('about-us')
+    expect(updated?.authorId).toBe(editorId)
+    expect(updated?.publishedAt).toBeUndefined()
+  })
+
+  it('sets the publication date when an entry is published', async () => {
+    const created = await createContentEntryFn({
+      data: { contentTypeId, fieldValues: [{ fieldId: titleId, value: 'About' }] },
+    })
+    const before = Date.now()
+
+    const published = await updateContentEntryFn({
+      data: { id: created.id, data: { status: 'PUBLISHED' } },
+    })
+
+    expect(new Date(published!.publishedAt!).getTime()).toBeGreaterThanOrEqual(before)
+  })
+})
@@ -0,0 +1,323 @@
+/**
+ * Tests for the content list query language: filters, sorting, field selection and status
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentType, createContentEntry } from '../app/server/content-type-utils'
+import { api } from '../app/lib/api-manager'
+import { createApiKey } from '../app/server/api-keys'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type FieldRow = { id: string; name: string }
+type EntryRow = { id: string; slug: string; fieldValues: { fieldId: string; value: string }[] }
+
+describe('Content list queries', () => {
+  let fieldId: Record<string, string>
+  let headers: Record<string, string>
+
+  const createProduct = async (
+    slug: string,
+    values: Record<string, unknown>,
+    status: 'DRAFT' | 'PUBLISHED' = 'PUBLISHED'
+  ) => {
+    const contentType = await prisma.contentType.findUnique({ where: { name: 'product' } })
+    return createContentEntry(prisma, {
+      contentTypeId: contentType.id,
+      slug,
+      status,
+      fieldValues: Object.entries(values).map(([name, value]) => ({
+        fieldId: fieldId[name],
+        value,
+      })),
+    })
+  }
+
+  // Reads with a key that may see drafts; anonymous callers only get published entries
+  const listProducts = (params: Parameters<typeof api.listEntries>[1]) =>
+    api.listEntries('product', params, headers)
+
+  const list = async (params: Parameters<typeof api.listEntries>[1]) => {
+    const response = await listProducts(params)
+    return response.data.entries.map((entry: EntryRow) => entry.slug)
+  }
+
+  beforeEach(async () => {
+    prisma.$reset()
+    const { key } = await createApiKey(prisma, { name: 'Reader', scopes: ['product:read'] })
+    headers = { 'x-api-key': key }
+    const productType = await createContentType(prisma, {
+      name: 'product',
+      displayName: 'Product',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT' },
+        { name: 'price', displayName: 'Price', fieldType: 'NUMBER' },
+        { name: 'featured', displayName: 'Featured', fieldType: 'BOOLEAN' },
+        { name: 'releasedAt', displayName: 'Released', fieldType: 'DATE' },
+      ],
+    })
+    fieldId = Object.fromEntries(
+      productType.fields.map((field: FieldRow) => [field.name, field.id])
+    )
+
+    await createProduct('lamp', {
+      title: 'Desk lamp',
+      price: 9,
+      featured: true,
+      releasedAt: '2024-03-01',
+    })
+    await createProduct('chair', { title: 'Office chair', price: 120, featured: false })
+    await createProduct('desk', { title: 'Standing desk', price: 80.5, releasedAt: '2023-06-15' })
+    await createProduct('sofa', { title: 'Sofa', price: 10 }, 'DRAFT')
+  })
+
+  it('compares numbers numerically', async () => {
+    expect(await list({ filter: { price: { gt: 9 } }, sort: 'price:asc' })).toEqual([
+      'sofa',
+      'desk',
+      'chair',
+    ])
+    expect(await list({ filter: { price: { lte: 10, gte: 9 } }, sort: 'slug:asc' })).toEqual([
+      'lamp',
+      'sofa',
+    ])
+    expect(await list({ filter: { price: { in: [9, 120] } }, sort: 'slug:asc' })).toEqual([
+      'chair',
+      'lamp',
+    ])
+  })
+
+  it('filters text, booleans, dates and missing values', async () => {
+    expect(await list({ filter: { title: { contains: 'esk' } }, sort: 'slug:asc' })).toEqual([
+      'desk',
+      'lamp',
+    ])
+    expect(await list({ filter: { title: { startsWith: 'Office' } } })).toEqual(['chair'])
+    expect(await list({ filter: { featured: { eq: true } } })).toEqual(['lamp'])
+    expect(await list({ filter: { featured: { ne: 'true' } }, sort: 'slug:asc' })).toEqual([
+      'chair',
+      'desk',
+      'sofa',
+    ])
+    expect(await list({ filter: { releasedAt: { gt: '2024-01-01' } } })).toEqual(['lamp'])
+    expect(await list({ filter: { releasedAt: { null: true } }, sort: 'slug:asc' })).toEqual([
+      'chair',
+      'sofa',
+    ])
+  })
+
+  it('sorts by field values with empty values last, then by columns', async () => {
+    expect((await list({ sort: 'releasedAt:desc' })).slice(0, 2)).toEqual(['lamp', 'desk'])
+    expect(await list({ sort: 'featured:asc,slug:desc' })).toEqual([
+      'chair',
+      'lamp',
+      'sofa',
+      'desk',
+    ])
+  })
+
+  it('paginates sorted results', async () => {
+    const response = await listProducts({ sort: 'price:desc', page: 2, limit: 2 })
+
+    expect(response.data.entries.map((entry: EntryRow) => entry.slug)).toEqual(['sofa', 'lamp'])
+    expect(response.data.pagination).toMatchObject({ total: 4, totalPages: 2, hasPrev: true })
+  })
+
+  it('loads only the requested page of a field sort', async () => {
+    const findMany = vi.spyOn(prisma.contentEntry, 'findMany')
+
+    expect(await list({ sort: 'price:desc', filter: { price: { lt: 100 } }, limit: 1 })).toEqual([
+      'desk',
+    ])
+    expect(findMany).toHaveBeenCalledTimes(1)
+    expect(findMany.mock.calls[0][0]).toMatchObject({ where: { id: { in: [expect.any(String)] } } })
+    findMany.mockRestore()
+  })
+
+  it('filters by status and entry dates', async () => {
+    expect(await list({ status: ['DRAFT'] })).toEqual(['sofa'])
+    expect(
+      await list({
+        status: ['PUBLISHED'],
+        filter: { createdAt: { lt: new Date(Date.now() + 1000) } },
+      })
+    ).toHaveLength(3)
+    expect(await list({ filter: { createdAt: { gt: new Date(Date.now() + 1000) } } })).toEqual([])
+  })
+
+  it('lists only published entries to anonymous callers', async () => {
+    const anonymous = async (params: Parameters<typeof api.listEntries>[1]) => {
+      const response = await api.listEntries('product', params)
+      return response.data.entries.map((entry: EntryRow) => entry.slug)
+    }
+
+    expect(await anonymous({ sort: 'slug:asc' })).toEqual(['chair', 'desk', 'lamp'])
+    expect(await anonymous({ status: ['DRAFT'] })).toEqual([])
+    expect(await anonymous({ sort: 'price:desc', pagination: 'cursor' })).toEqual([
+      'chair',
+      'desk',
+      'lamp',
+    ])
+    expect(await list({ status: ['DRAFT'] })).toEqual(['sofa'])
+  })
+
+  it('returns only the selected fields', async () => {
+    const response = await listProducts({
+      fields: ['title', 'price'],
+      filter: { slug: { eq: 'lamp' } },
+    })
+    const [entry] = response.data.entries as EntryRow[]
+
+    expect(entry.fieldValues.map(fv => fv.fieldId).sort()).toEqual(
+      [fieldId.title, fieldId.price].sort()
+    )
+  })
+
+  it('rejects unknown fields, operators and invalid values', async () => {
+    const response = await api.request('GET', '/api/product', {
+      query: {
+        'filter[color][eq]': 'red',
+        'filter[price][between]': '1',
+        'filter[price][gt]': 'cheap',
+        'filter[featured][contains]': 'tr',
+        sort: 'weight:desc',
+        fields: 'title,secret',
+        status: 'LIVE',
+      },
+    })
+
+    expect(response.success).toBe(false)
+    expect(response.error?.code).toBe('VALIDATION_ERROR')
+    expect(response.error?.fields).toEqual([
+      { path: 'filter[color][eq]', message: "Unknown field 'color'" },
+      {
+        path: 'filter[price][between]',
+        message:
+          "Unknown operator 'between', expected one of eq, ne, lt, lte, gt, gte, in, contains, startsWith, null",
+      },
+      { path: 'filter[price][gt]', message: "Invalid number value 'cheap' for 'price'" },
+      {
+        path: 'filter[featured][contains]',
+        message: "Operator 'contains' is not supported for 'featured'",
+      },
+      { path: 'status', message: "Invalid status value 'LIVE' for 'status'" },
+      { path: 'sort', message: "Unknown field 'weight'" },
+      { path: 'fields', message: "Unknown field 'secret'" },
+    ])
+  })
+
+  describe('cursor pagination', () => {
+    const slugsOf = (response: Awaited<ReturnType<typeof api.listEntries>>) =>
+      response.data.entries.map((entry: EntryRow) => entry.slug)
+
+    it('walks every entry in list order', async () => {
+      const expected = await list({ limit: 100 })
+      const walked: string[] = []
+      let after: string | undefined
+      let hasNextPage = true
+
+      while (hasNextPage) {
+        const response = await listProducts({
+          limit: 3,
+          pagination: 'cursor',
+          after,
+        })
+        walked.push(...slugsOf(response))
+        expect(response.meta.pageInfo?.hasPreviousPage).toBe(after !== undefined)
+        after = response.meta.pageInfo!.endCursor!
+        hasNextPage = response.meta.pageInfo!.hasNextPage
+      }
+
+      expect(walked).toEqual(expected)
+    })
+
+    it('never repeats or skips entries when entries are inserted while paging', async () => {
+      const first = await listProducts({ limit: 2, pagination: 'cursor' })
+      await createProduct('stool', { title: 'Stool', price: 25 })
+
+      const walked = slugsOf(first)
+      let pageInfo = first.meta.pageInfo!
+      while (pageInfo.hasNextPage) {
+        const response = await listProducts({
+          limit: 2,
+          after: pageInfo.endCursor!,
+        })
+        walked.push(...slugsOf(response))
+        pageInfo = response.meta.pageInfo!
+      }
+
+      const original = walked.filter(slug => slug !== 'stool')
+      expect(original.sort()).toEqual(['chair', 'desk', 'lamp', 'sofa'])
+    })
+
+    it('pages forwards and backwards through field sorts', async () => {
+      const first = await listProducts({
+        sort: 'price:desc',
+        limit: 2,
+        pagination: 'cursor',
+      })
+      const second = await listProducts({
+        sort: 'price:desc',
+        limit: 2,
+        after: first.meta.pageInfo!.endCursor!,
+      })
+      const back = await listProducts({
+        sort: 'price:desc',
+        limit: 2,
+        before: second.meta.pageInfo!.startCursor!,
+      })
+      const last = await listProducts({ sort: 'price:desc', limit: 1, before: '' })
+
+      expect(slugsOf(first)).toEqual(['chair', 'desk'])
+      expect(slugsOf(second)).toEqual(['sofa', 'lamp'])
+      expect(second.meta.pageInfo?.hasNextPage).toBe(false)
+      expect(slugsOf(back)).toEqual(['chair', 'desk'])
+      expect(back.meta.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false })
+      expect(slugsOf(last)).toEqual(['lamp'])
+    })
+
+    it('walks field sorts with empty values in both directions', async () => {
+      const expected = await list({ sort: 'releasedAt:asc,slug:desc' })
+      const walk = async (direction: 'after' | 'before') => {
+        const walked: string[] = []
+        let cursor = ''
+        for (;;) {
+          const response = await listProducts({
+            sort: 'releasedAt:asc,slug:desc',
+            limit: 1,
+            [direction]: cursor,
+          })
+          walked.push(...slugsOf(response))
+          const pageInfo = response.meta.pageInfo!
+          if (!(direction === 'after' ? pageInfo.hasNextPage : pageInfo.hasPreviousPage)) break
+          cursor = (direction === 'after' ? pageInfo.endCursor : pageInfo.startCursor)!
+        }
+        return walked
+      }
+
+      expect(expected).toEqual(['desk', 'lamp', 'sofa', 'chair'])
+      expect(await walk('after')).toEqual(expected)
+      expect(await walk('before')).toEqual([...expected].reverse())
+    })
+
+    it('rejects cursors of another sort order and malformed cursors', async () => {
+      const first = await listProducts({ limit: 2, pagination: 'cursor' })
+
+      const resorted = await listProducts({
+        sort: 'price:asc',
+        after: first.meta.pageInfo!.endCursor!,
+      })
+      const malformed = await listProducts({ after: 'not-a-cursor' })
+
+      expect(resorted.error?.fields).toEqual([
+        { path: 'after', message: 'Invalid cursor for this sort order' },
+      ])
+      expect(malformed.error?.code).toBe('VALIDATION_ERROR')
+    })
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Tests for content type field syncing and the entry publishing workflow
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import {
+  createContentType,
+  updateContentType,
+  createContentEntry,
+  updateContentEntry,
+  getAllContentEntries,
+  publishContentEntry,
+  unpublishContentEntry,
+  scheduleContentEntry,
+  unscheduleContentEntry,
+  archiveContentEntry,
+  getScheduledEntriesToPublish,
+} from '../app/server/content-type-utils'
+
+const prisma = createInMemoryPrisma()
+
+describe('content type utils', () => {
+  let contentType: Awaited<ReturnType<typeof createContentType>>
+
+  beforeEach(async () => {
+    prisma.$reset()
+    contentType = await createContentType(prisma, {
+      name: 'article',
+      displayName: 'Article',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT', required: true, order: 0 },
+        { name: 'body', displayName: 'Body', fieldType: 'TEXTAREA', order: 1 },
+      ],
+    })
+  })
+
+  describe('updateContentType', () => {
+    it('updates, creates and removes fields to match the given list', async () => {
+      const [title] = contentType.fields
+
+      const updated = await updateContentType(prisma, contentType.id, {
+        fields: [
+          { id: title.id, name: 'title', displayName: 'Headline', fieldType: 'TEXT', order: 0 },
+          { id: 'field_new', name: 'summary', displayName: 'Summary', fieldType: 'TEXT', order: 1 },
+        ],
+      })
+
+      expect(updated.fields.map((field: { name: string }) => field.name)).toEqual([
+        'title',
+        'summary',
+      ])
+      expect(updated.fields[0].id).toBe(title.id)
+      expect(updated.fields[0].displayName).toBe('Headline')
+      expect(updated.fields[1].id).not.toBe('field_new')
+    })
+
+    it('leaves fields untouched when no field list is given', async () => {
+      const updated = await updateContentType(prisma, contentType.id, { displayName: 'Post' })
+
+      expect(updated.displayName).toBe('Post')
+      expect(updated.fields).toHaveLength(2)
+    })
+  })
+
+  describe('updateContentEntry', () => {
+    it('keeps the fields an update leaves out and clears empty ones', async () => {
+      const [title, body] = contentType.fields
+      const entry = await createContentEntry(prisma, {
+        contentTypeId: contentType.id,
+        fieldValues: [
+          { fieldId: title.id, value: 'Hello' },
+          { fieldId: body.id, value: 'Some text' },
+        ],
+      })
+      const valueOf = (updated: { fieldValues: { fieldId: string; value: string }[] }) =>
+        updated.fieldValues.find(fv => fv.fieldId === body.id)?.value
+
+      const renamed = await updateContentEntry(prisma, entry.id, {
+        fieldValues: [{ fieldId: title.id, value: 'Goodbye' }],
+      })
+      expect(renamed.fieldValues).toHaveLength(2)
+      expect(valueOf(renamed)).toBe('Some text')
+
+      const cleared = await updateContentEntry(prisma, entry.id, {
+        fieldValues: [{ fieldId: body.id, value: null }],
+      })
+      expect(valueOf(cleared)).toBe('')
+    })
+
+    it('keeps the old field values when the update fails', async () => {
+      const [title] = contentType.fields
+      const entry = await createContentEntry(prisma, {
+        contentTypeId: contentType.id,
+        fieldValues: [{ fieldId: title.id, value: 'Hello' }],
+      })
+      vi.spyOn(prisma.contentEntry, 'update').mockRejectedValueOnce(new Error('Database is locked'))
+
+      await expect(
+        updateContentEntry(prisma, entry.id, {
+          fieldValues: [{ fieldId: title.id, value: 'Goodbye' }],
+        })
+      ).rejects.toThrow('Database is locked')
+
+      const values = await prisma.contentFieldValue.findMany({ where: { entryId: entry.id } })
+      expect(values.map((value: { value: string }) => value.value)).toEqual(['Hello'])
+    })
+  })
+
+  describe('publishing workflow', () => {
+    const createEntry = () =>
+      createContentEntry(prisma, {
+        contentTypeId: contentType.id,
+        fieldValues: [{ fieldId: contentType.fields[0].id, value: 'Hello' }],
+      })
+
+    it('creates entries as drafts', async () => {
+      const entry = await createEntry()
+      expect(entry.status).toBe('DRAFT')
+      expect(entry.publishedAt).toBeNull()
+    })
+
+    it('publishes and unpublishes an entry', async () => {
+      const entry = await createEntry()
+
+      const published = await publishContentEntry(prisma, entry.id)
+      expect(published.status).toBe('PUBLISHED')
+      expect(published.publishedAt).toBeInstanceOf(Date)
+
+      const unpublished = await unpublishContentEntry(prisma, entry.id)
+      expect(unpublished.status).toBe('DRAFT')
+      expect(unpublished.publishedAt).toBeNull()
+    })
+
+    it('schedules entries and reports the ones that are due', async () => {
+      const due = await createEntry()
+      const later = await createEntry()
+      const now = new Date('2025-01-01T12:00:00Z')
+
+      await scheduleContentEntry(prisma, due.id, new Date('2025-01-01T11:00:00Z'))
+      await scheduleContentEntry(prisma, later.id, new Date('2025-01-02T11:00:00Z'))
+
+      const toPublish = await getScheduledEntriesToPublish(prisma, now)
+      expect(toPublish.map((entry: { id: string }) => entry.id)).toEqual([due.id])
+
+      const unscheduled = await unscheduleContentEntry(prisma, later.id)
+      expect(unscheduled.status).toBe('DRAFT')
+      expect(unscheduled.scheduledAt).toBeNull()
+    })
+
+    it('filters entries by status', async () => {
+      const draft = await createEntry()
+      const archived = await createEntry()
+      await archiveContentEntry(prisma, archived.id)
+
+      const drafts = await getAllContentEntries(prisma, contentType.id, 'DRAFT')
+      const all = await getAllContentEntries(prisma, contentType.id)
+
+      expect(drafts.map((entry: { id: string }) => entry.id)).toEqual([draft.id])
+      expect(all).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,343 @@
+/**
+ * Tests for per content type endpoint settings: disabled operations, public and authenticated
+ * access, role restrictions and their effect on search, GraphQL and the OpenAPI document
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentEntry, createContentType } from '../app/server/content-type-utils'
+import { createApiKey } from '../app/server/api-keys'
+import { updateEndpointSettings } from '../app/server/endpoint-access'
+import { createRole, deleteRole, setUserRoles, updateRole } from '../app/server/roles'
+import { generateAccessToken } from '../app/server/jwt-auth'
+import { generateOpenApiDocument } from '../app/server/openapi'
+import { configureApiManager, type ApiRequest } from '../app/lib/api-manager'
+import { getEndpointSettings } from '../app/lib/endpoint-settings'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+describe('Endpoint settings', () => {
+  const publicManager = configureApiManager({ enableLogging: false })
+  const privateManager = configureApiManager({ enableAuth: true, enableLogging: false })
+  let blogPostId: string
+  let productId: string
+
+  const post = { method: 'POST' as const, body: { fieldValues: [] } }
+
+  // A user with the role the migration creates from their built-in role
+  const userToken = async (role: 'VIEWER' | 'AUTHOR' | 'EDITOR') => {
+    const user = await prisma.user.create({
+      data: { email: `${role.toLowerCase()}@example.com`, password: 'hash', role },
+    })
+    const baseRole = await prisma.customRole.create({
+      data: { name: `${role[0]}${role.slice(1).toLowerCase()}`, baseRole: role },
+    })
+    await setUserRoles(prisma, user.id, [baseRole.id])
+    return generateAccessToken({ id: user.id, email: user.email, name: null, role })
+  }
+
+  const request = (manager: typeof publicManager, overrides: Partial<ApiRequest> = {}) =>
+    manager.handleRequest({ method: 'GET', path: '/api/blog-post', ...overrides })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    blogPostId = (
+      await createContentType(prisma, {
+        name: 'blog-post',
+        displayName: 'Blog Post',
+        fields: [{ name: 'title', displayName: 'Title', fieldType: 'TEXT' }],
+      })
+    ).id
+    productId = (
+      await createContentType(prisma, {
+        name: 'product',
+        displayName: 'Product',
+        fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT' }],
+      })
+    ).id
+  })
+
+  it('defaults every operation to enabled with the server default access', () => {
+    expect(getEndpointSettings({ apiSettings: null }).create).toEqual({ enabled: true })
+    expect(getEndpointSettings({ apiSettings: 'not json' }).list).toEqual({ enabled: true })
+    expect(
+      getEndpointSettings({ apiSettings: '{"get":{"enabled":true,"access":"role"}}' }).get
+    ).toEqual({ enabled: true })
+  })
+
+  it('validates and stores settings', async () => {
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      updateEndpointSettings(prisma, blogPostId, { publish: { enabled: true } } as any)
+    ).rejects.toThrow('Unknown API operation: publish')
+    await expect(
+      updateEndpointSettings(prisma, blogPostId, { delete: { enabled: true, access: 'role' } })
+    ).rejects.toThrow('needs a valid role')
+
+    const settings = await updateEndpointSettings(prisma, blogPostId, {
+      delete: { enabled: false },
+    })
+    expect(settings.delete).toEqual({ enabled: false })
+    expect(settings.list).toEqual({ enabled: true })
+    const row = await prisma.contentType.findUnique({ where: { id: blogPostId } })
+    expect(getEndpointSettings(row)).toEqual(settings)
+  })
+
+  it('returns not found for disabled operations', async () => {
+    await updateEndpointSettings(prisma, blogPostId, { create: { enabled: false } })
+
+    const response = await request(publicManager, post)
+    expect(response.error?.code).toBe('NOT_FOUND')
+    expect(response.message).toBe('The create operation is disabled for content type "blog-post"')
+    expect((await request(publicManager)).success).toBe(true)
+    expect((await request(publicManager, { ...post, path: '/api/product' })).error?.code).toBe(
+      'AUTHENTICATION_REQUIRED'
+    )
+  })
+
+  it('requires credentials for writes without an access level, even on a public server', async () => {
+    const { key } = await createApiKey(prisma, { name: 'Writer', scopes: ['blog-post:write'] })
+    const writes: Partial<ApiRequest>[] = [
+      post,
+      { method: 'PUT', path: '/api/blog-post/missing', body: { fieldValues: [] } },
+      { method: 'DELETE', path: '/api/blog-post/missing' },
+    ]
+
+    expect((await request(publicManager)).success).toBe(true)
+    for (const write of writes) {
+      expect((await request(publicManager, write)).error?.code).toBe('AUTHENTICATION_REQUIRED')
+    }
+    expect((await request(publicManager, { ...post, headers: { 'X-API-Key': key } })).success).toBe(
+      true
+    )
+
+    await updateEndpointSettings(prisma, blogPostId, {
+      create: { enabled: true, access: 'public' },
+    })
+    expect((await request(publicManager, post)).success).toBe(true)
+  })
+
+  it('exposes public reads while writes need credentials', async () => {
+    await updateEndpointSettings(prisma, blogPostId, {
+      list: { enabled: true, access: 'public' },
+      get: { enabled: true, access: 'public' },
+    })
+    const { key } = await createApiKey(prisma, { name: 'Writer', scopes: ['blog-post:write'] })
+
+    expect((await request(privateManager)).success).toBe(true)
+    expect((await request(privateManager, post)).error?.code).toBe('AUTHENTICATION_REQUIRED')
+    expect((await request(privateManager, { path: '/api/product' })).error?.code).toBe(
+      'AUTHENTICATION_REQUIRED'
+    )
+    expect(
+      (await request(privateManager, { ...post, headers: { 'X-API-Key': key } })).success
+    ).toBe(true)
+  })
+
+  it('limits authenticated operations on a public server', async () => {
+    await updateEndpointSettings(prisma, blogPostId, {
+      create: { enabled: true, access: 'authenticated' },
+    })
+
+    expect((await request(publicManager)).success).toBe(true)
+    expect((await request(publicManager, post)).error?.code).toBe('AUTHENTICATION_REQUIRED')
+
+    const token = await userToken('AUTHOR')
+    const response = await request(publicManager, {
+      ...post,
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(response.success).toBe(true)
+  })
+
+  it('restricts operations to signed-in users with a minimum role', async () => {
+    await updateEndpointSettings(prisma, blogPostId, {
+      delete: { enabled: true, access: 'role', role: 'EDITOR' },
+    })
+    const { key } = await createApiKey(prisma, { name: 'All', scopes: ['*:write'] })
+    const remove = { method: 'DELETE' as const, path: '/api/blog-post/missing' }
+
+    expect((await request(publicManager, remove)).error?.code).toBe('AUTHENTICATION_REQUIRED')
+    expect(
+      (await request(publicManager, { ...remove, headers: { 'X-API-Key': key } })).error?.code
+    ).toBe('AUTHORIZATION_FAILED')
+
+    const viewer = await request(publicManager, {
+      ...remove,
+      headers: { Authorization: `Bearer ${await userToken('VIEWER')}` },
+    })
+    expect(viewer.message).toBe('The delete operation of "blog-post" requires the EDITOR role')
+
+    const editor = await request(publicManager, {
+      ...remove,
+      headers: { Authorization: `Bearer ${await userToken('EDITOR')}` },
+    })
+    expect(editor.error?.code).toBe('NOT_FOUND')
+  })
+
+  it('restricts operations to a custom role', async () => {
+    await expect(
+      updateEndpointSettings(prisma, blogPostId, {
+        delete: { enabled: true, access: 'role', role: 'Moderator' },
+      })
+    ).rejects.toThrow('needs a valid role')
+
+    const moderator = await createRole(prisma, {
+      name: 'Moderator',
+      permissions: { 'entry.read': { '*': 'all' }, 'entry.delete': { '*': 'all' } },
+    })
+    await updateEndpointSettings(prisma, blogPostId, {
+      delete: { enabled: true, access: 'role', role: 'Moderator' },
+    })
+    const remove = { method: 'DELETE' as const, path: '/api/blog-post/missing' }
+
+    const user = await prisma.user.create({
+      data: { email: 'mod@example.com', password: 'hash', role: 'VIEWER' },
+    })
+    const token = (roles: string[]) =>
+      generateAccessToken({ id: user.id, email: user.email, name: null, role: 'VIEWER', roles })
+
+    const editor = await request(publicManager, {
+      ...remove,
+      headers: { Authorization: `Bearer ${await userToken('EDITOR')}` },
+    })
+    expect(editor.message).toBe('The delete operation of "blog-post" requires the Moderator role')
+    expect(editor.error?.details).toEqual(['Current roles: Editor'])
+
+    await setUserRoles(prisma, user.id, [moderator.id])
+    const allowed = await request(publicManager, {
+      ...remove,
+      headers: { Authorization: `Bearer ${token(['Moderator'])}` },
+    })
+    expect(allowed.error?.code).toBe('NOT_FOUND')
+
+    await updateRole(prisma, moderator.id, { name: 'Curator' })
+    expect(
+      getEndpointSettings(await prisma.contentType.findUnique({ where: { id: blogPostId } })).delete
+    ).toEqual({ enabled: true, access: 'role', role: 'Curator' })
+
+    await deleteRole(prisma, moderator.id)
+    const removed = await request(publicManager, {
+      ...remove,
+      headers: { Authorization: `Bearer ${token([])}` },
+    })
+    expect(removed.error?.details).toEqual(['Current roles: VIEWER'])
+  })
+
+  it('applies the list setting to search and GraphQL', async () => {
+    await updateEndpointSettings(prisma, productId, { list: { enabled: false } })
+
+    const search = await request(publicManager, {
+      path: '/api/search',
+      query: { q: 'hello', types: 'product' },
+    })
+    expect(search.error?.code).toBe('NOT_FOUND')
+    expect(
+      (await request(publicManager, { path: '/api/search', query: { q: 'hello' } })).success
+    ).toBe(true)
+
+    const graphql = async (query: string) => {
+      const response = await request(publicManager, {
+        method: 'POST',
+        path: '/api/graphql',
+        body: { query },
+      })
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return response.data as any
+    }
+    expect((await graphql('{ blogPostList { total } }')).data).toEqual({
+      blogPostList: { total: 0 },
+    })
+    const denied = await graphql('{ productList { total } }')
+    expect(denied.errors[0]).toMatchObject({
+      path: ['productList'],
+      extensions: { code: 'NOT_FOUND' },
+    })
+  })
+
+  it('leaves out related entries of content types the caller may not read', async () => {
+    const author = await createContentType(prisma, {
+      name: 'author',
+      displayName: 'Author',
+      fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT' }],
+    })
+    const book = await createContentType(prisma, {
+      name: 'book',
+      displayName: 'Book',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT', order: 0 },
+        {
+          name: 'author',
+          displayName: 'Author',
+          fieldType: 'RELATION',
+          relatedType: 'author',
+          options: { relationKind: 'manyToOne' },
+          order: 1,
+        },
+      ],
+    })
+    const ada = await createContentEntry(prisma, {
+      contentTypeId: author.id,
+      status: 'PUBLISHED',
+      fieldValues: [{ fieldId: author.fields[0].id, value: 'Ada' }],
+    })
+    const entry = await createContentEntry(prisma, {
+      contentTypeId: book.id,
+      status: 'PUBLISHED',
+      fieldValues: [
+        { fieldId: book.fields[0].id, value: 'Notes' },
+        { fieldId: book.fields[1].id, value: ada.id },
+      ],
+    })
+    await updateEndpointSettings(prisma, author.id, {
+      get: { enabled: true, access: 'authenticated' },
+    })
+
+    const populated = async (headers?: Record<string, string>) => {
+      const response = await request(publicManager, {
+        path: `/api/book/${entry.id}`,
+        query: { populate: 'author' },
+        headers,
+      })
+      return (response.data as { entry: { populated: Record<string, unknown> } }).entry.populated
+        .author
+    }
+    expect(await populated()).toBeNull()
+    const { key } = await createApiKey(prisma, { name: 'Reader', scopes: ['*:read'] })
+    expect(await populated({ 'X-API-Key': key })).toMatchObject({ id: ada.id })
+
+    const graphql = await request(publicManager, {
+      method: 'POST',
+      path: '/api/graphql',
+      body: { query: '{ bookList { entries { title author { name } } } }' },
+    })
+    expect(graphql.data).toEqual({
+      data: { bookList: { entries: [{ title: 'Notes', author: null }] } },
+    })
+  })
+
+  it('omits disabled operations from the OpenAPI document and describes access', async () => {
+    await updateEndpointSettings(prisma, blogPostId, {
+      list: { enabled: true, access: 'public' },
+      create: { enabled: false },
+      delete: { enabled: true, access: 'role', role: 'ADMIN' },
+    })
+
+    const document = await generateOpenApiDocument(prisma)
+    expect(document.paths['/api/blog-post'].get.security).toEqual([])
+    expect(document.paths['/api/blog-post'].post).toBeUndefined()
+    expect(document.paths['/api/blog-post/{id}'].delete.security).toEqual([{ bearerAuth: [] }])
+    expect(document.paths['/api/blog-post/{id}'].delete.description).toContain(
+      'Requires the ADMIN role'
+    )
+    expect(document.paths['/api/product'].get.security).toEqual([{ apiKey: [] }, {}])
+    expect(document.paths['/api/product'].post.security).toEqual([
+      { apiKey: [] },
+      { bearerAuth: [] },
+    ])
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Tests for server-side content entry field validation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import {
+  createContentType,
+  createContentEntry,
+  updateContentEntry,
+} from '../app/server/content-type-utils'
+import {
+  coerceFieldValue,
+  validateFieldValues,
+  FieldValidationError,
+} from '../app/server/field-validation'
+import { ApiResponseBuilder } from '../app/lib/api-response'
+
+const prisma = createInMemoryPrisma()
+
+async function expectValidationError(promise: Promise<unknown>) {
+  try {
+    await promise
+  } catch (error) {
+    expect(error).toBeInstanceOf(FieldValidationError)
+    return (error as FieldValidationError).fields
+  }
+  throw new Error('Expected a FieldValidationError')
+}
+
+describe('field validation', () => {
+  let contentType: Awaited<ReturnType<typeof createContentType>>
+  let fieldIds: Record<string, string>
+
+  beforeEach(async () => {
+    prisma.$reset()
+    contentType = await createContentType(prisma, {
+      name: 'product',
+      displayName: 'Product',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT', required: true, order: 0 },
+        { name: 'sku', displayName: 'SKU', fieldType: 'TEXT', unique: true, order: 1 },
+        {
+          name: 'price',
+          displayName: 'Price',
+          fieldType: 'NUMBER',
+          options: { validation: { min: 0 } },
+          order: 2,
+        },
+        { name: 'inStock', displayName: 'In Stock', fieldType: 'BOOLEAN', order: 3 },
+        { name: 'releasedAt', displayName: 'Released At', fieldType: 'DATE', order: 4 },
+        { name: 'specs', displayName: 'Specs', fieldType: 'JSON', order: 5 },
+        { name: 'contact', displayName: 'Contact', fieldType: 'EMAIL', order: 6 },
+      ],
+    })
+    fieldIds = Object.fromEntries(
+      contentType.fields.map((field: { name: string; id: string }) => [field.name, field.id])
+    )
+  })
+
+  describe('coerceFieldValue', () => {
+    it('normalizes numbers, booleans, dates and JSON', () => {
+      expect(coerceFieldValue('NUMBER', 12.5)).toEqual({ value: '12.5' })
+      expect(coerceFieldValue('NUMBER', ' 7 ')).toEqual({ value: '7' })
+      expect(coerceFieldValue('BOOLEAN', 'on')).toEqual({ value: 'true' })
+      expect(coerceFieldValue('BOOLEAN', false)).toEqual({ value: 'false' })
+      expect(coerceFieldValue('DATE', '2025-01-01')).toEqual({ value: '2025-01-01T00:00:00.000Z' })
+      expect(coerceFieldValue('JSON', { a: 1 })).toEqual({ value: '{"a":1}' })
+    })
+
+    it('rejects values that cannot be coerced', () => {
+      expect(coerceFieldValue('NUMBER', 'abc')).toEqual({ error: 'must be a number' })
+      expect(coerceFieldValue('BOOLEAN', 'maybe')).toEqual({ error: 'must be true or false' })
+      expect(coerceFieldValue('DATE', 'not a date')).toEqual({ error: 'must be a valid date' })
+      expect(coerceFieldValue('JSON', '{oops')).toEqual({ error: 'must be valid JSON' })
+    })
+  })
+
+  describe('validateFieldValues', () => {
+    it('returns coerced values for a valid write', async () => {
+      const values = await validateFieldValues(prisma, contentType.id, [
+        { fieldId: fieldIds.title, value: 'Desk' },
+        { fieldId: fieldIds.price, value: 99 },
+        { fieldId: fieldIds.inStock, value: true },
+        { fieldId: fieldIds.specs, value: { width: 120 } },
+      ])
+
+      expect(values).toEqual([
+        { fieldId: fieldIds.title, value: 'Desk' },
+        { fieldId: fieldIds.price, value: '99' },
+        { fieldId: fieldIds.inStock, value: 'true' },
+        { fieldId: fieldIds.specs, value: '{"width":120}' },
+      ])
+    })
+
+    it('reports every failing field with its path', async () => {
+      const fields = await expectValidationError(
+        validateFieldValues(prisma, contentType.id, [
+          { fieldId: 'unknown', value: 'x' },
+          { fieldId: fieldIds.price, value: -1 },
+          { fieldId: fieldIds.releasedAt, value: 'soon' },
+          { fieldId: fieldIds.contact, value: 'not-an-email' },
+        ])
+      )
+
+      expect(fields).toEqual([
+        { path: 'fieldValues[0].fieldId', message: "Field 'unknown' does not exist on Product" },
+        { path: 'fieldValues.title', message: "Field 'Title' is required" },
+        { path: 'fieldValues.price', message: "Field 'Price': Value must be at least 0" },
+        { path: 'fieldValues.releasedAt', message: "Field 'Released At' must be a valid date" },
+        {
+          path: 'fieldValues.contact',
+          message: "Field 'Contact': Please enter a valid email address",
+        },
+      ])
+    })
+
+    it('enforces unique values within the content type', async () => {
+      const entry = await createContentEntry(prisma, {
+        contentTypeId: contentType.id,
+        fieldValues: [
+          { fieldId: fieldIds.title, value: 'Desk' },
+          { fieldId: fieldIds.sku, value: 'DSK-1' },
+        ],
+      })
+
+      const fields = await expectValidationError(
+        createContentEntry(prisma, {
+          contentTypeId: contentType.id,
+          fieldValues: [
+            { fieldId: fieldIds.title, value: 'Other desk' },
+            { fieldId: fieldIds.sku, value: 'DSK-1' },
+          ],
+        })
+      )
+      expect(fields).toEqual([{ path: 'fieldValues.sku', message: "Field 'SKU' must be unique" }])
+
+      // The entry's own value does not count as a duplicate
+      const updated = await updateContentEntry(prisma, entry.id, {
+        fieldValues: [
+          { fieldId: fieldIds.title, value: 'Desk v2' },
+          { fieldId: fieldIds.sku, value: 'DSK-1' },
+        ],
+      })
+      expect(updated.fieldValues).toHaveLength(2)
+    })
+
+    it('leaves the entry untouched when an update is rejected', async () => {
+      const entry = await createContentEntry(prisma, {
+        contentTypeId: contentType.id,
+        fieldValues: [{ fieldId: fieldIds.title, value: 'Desk' }],
+      })
+
+      await expectValidationError(
+        updateContentEntry(prisma, entry.id, {
+          fieldValues: [{ fieldId: fieldIds.title, value: '' }],
+        })
+      )
+
+      const values = await prisma.contentFieldValue.findMany({ where: { entryId: entry.id } })
+      expect(values.map((fv: { value: string }) => fv.value)).toEqual(['Desk'])
+    })
+  })
+
+  describe('ApiResponseBuilder.fieldValidationError', () => {
+    it('includes per-field errors alongside the detail messages', () => {
+      const fields = [{ path: 'fieldValues.title', message: "Field 'Title' is required" }]
+      const response = ApiResponseBuilder.fieldValidationError(fields)
+
+      expect(response.error!.code).toBe('VALIDATION_ERROR')
+      expect(response.error!.details).toEqual(["Field 'Title' is required"])
+      expect(response.error!.fields).toEqual(fields)
+    })
+  })
+})
@@ -0,0 +1,403 @@
+/**
+ * Tests for the GraphQL endpoint: generated schema, queries, mutations and schema rebuilds
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { getIntrospectionQuery } from 'graphql'
+import { prisma } from '../app/server/db'
+import {
+  addFieldToContentType,
+  createContentEntry,
+  createContentType,
+} from '../app/server/content-type-utils'
+import { createMedia } from '../app/server/media-utils'
+import { toFieldName, toTypeName } from '../app/server/graphql-schema'
+import { MAX_QUERY_COMPLEXITY, MAX_QUERY_DEPTH } from '../app/server/graphql-api'
+import { createApiKey } from '../app/server/api-keys'
+import { api } from '../app/lib/api-manager'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type FieldRow = { id: string; name: string }
+type GraphQLResult = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data?: Record<string, any>
+  errors?: { message: string; extensions?: Record<string, unknown> }[]
+}
+
+describe('GraphQL API', () => {
+  let authorTypeId: string
+  let postTypeId: string
+  let fieldId: Record<string, string>
+  let headers: Record<string, string>
+
+  const graphql = async (query: string, variables?: Record<string, unknown>) => {
+    const response = await api.graphql(query, variables, undefined, headers)
+    expect(response.success).toBe(true)
+    return response.data as GraphQLResult
+  }
+
+  const createPost = (slug: string, values: Record<string, unknown>) =>
+    createContentEntry(prisma, {
+      contentTypeId: postTypeId,
+      slug,
+      fieldValues: Object.entries(values).map(([name, value]) => ({
+        fieldId: fieldId[name],
+        value,
+      })),
+    })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    const authorType = await createContentType(prisma, {
+      name: 'author',
+      displayName: 'Author',
+      fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT', required: true }],
+    })
+    const postType = await createContentType(prisma, {
+      name: 'blog-post',
+      displayName: 'Blog Post',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT', required: true, order: 0 },
+        { name: 'views', displayName: 'Views', fieldType: 'NUMBER', order: 1 },
+        { name: 'featured', displayName: 'Featured', fieldType: 'BOOLEAN', order: 2 },
+        { name: 'meta', displayName: 'Meta', fieldType: 'JSON', order: 3 },
+        { name: 'secret', displayName: 'Secret', fieldType: 'PASSWORD', order: 4 },
+        {
+          name: 'author',
+          displayName: 'Author',
+          fieldType: 'RELATION',
+          relatedType: 'author',
+          options: { relationKind: 'manyToOne' },
+          order: 5,
+        },
+        { name: 'cover', displayName: 'Cover', fieldType: 'MEDIA', order: 6 },
+      ],
+    })
+    authorTypeId = authorType.id
+    postTypeId = postType.id
+    fieldId = Object.fromEntries(
+      [...authorType.fields, ...postType.fields].map((field: FieldRow) => [field.name, field.id])
+    )
+    // Mutations need credentials
+    const { key } = await createApiKey(prisma, { name: 'GraphQL', scopes: ['*:write'] })
+    headers = { 'x-api-key': key }
+  })
+
+  it('derives GraphQL names from slugs and field names', () => {
+    expect(toTypeName('blog-post')).toBe('BlogPost')
+    expect(toTypeName('2024_events')).toBe('Type2024Events')
+    expect(toFieldName('hero image')).toBe('hero_image')
+    expect(toFieldName('status')).toBe('statusField')
+  })
+
+  it('generates typed object types and supports introspection', async () => {
+    const result = await graphql(getIntrospectionQuery())
+    const types = result.data!.__schema.types as {
+      name: string
+      fields: { name: string; type: { name: string | null; ofType: { name: string } | null } }[]
+    }[]
+    const blogPost = types.find(type => type.name === 'BlogPost')!
+    const fieldType = (name: string) => {
+      const type = blogPost.fields.find(field => field.name === name)?.type
+      return type?.name ?? type?.ofType?.name
+    }
+
+    expect(fieldType('title')).toBe('String')
+    expect(fieldType('views')).toBe('Float')
+    expect(fieldType('featured')).toBe('Boolean')
+    expect(fieldType('meta')).toBe('JSON')
+    expect(fieldType('author')).toBe('Author')
+    expect(fieldType('cover')).toBe('Media')
+    expect(fieldType('createdAt')).toBe('DateTime')
+    expect(fieldType('secret')).toBeUndefined()
+  })
+
+  it('resolves entries with their relations and media', async () => {
+    const ada = await createContentEntry(prisma, {
+      contentTypeId: authorTypeId,
+      fieldValues: [{ fieldId: fieldId.name, value: 'Ada' }],
+    })
+    const cover = await createMedia(prisma, {
+      url: '/uploads/cover.png',
+      filename: 'cover.png',
+      size: 1024,
+      mimeType: 'image/png',
+    })
+    const post = await createPost('hello', {
+      title: 'Hello',
+      views: '12',
+      featured: 'true',
+      meta: '{"tags":["a"]}',
+      author: ada.id,
+      cover: cover.id,
+    })
+
+    const result = await graphql(
+      `
+        query ($id: ID!) {
+          blogPost(id: $id) {
+            slug
+            title
+            views
+            featured
+            meta
+            author {
+              name
+            }
+            cover {
+              url
+            }
+          }
+        }
+      `,
+      { id: post.id }
+    )
+
+    expect(result.errors).toBeUndefined()
+    expect(result.data!.blogPost).toEqual({
+      slug: 'hello',
+      title: 'Hello',
+      views: 12,
+      featured: true,
+      meta: { tags: ['a'] },
+      author: { name: 'Ada' },
+      cover: { url: '/uploads/cover.png' },
+    })
+  })
+
+  it('lists entries with filters, sorting and pagination', async () => {
+    await createPost('a', { title: 'A', views: '5' })
+    await createPost('b', { title: 'B', views: '20' })
+    await createPost('c', { title: 'C', views: '50' })
+
+    const result = await graphql(`
+      {
+        blogPostList(
+          filter: { views: { gte: 10 } }
+          sort: [{ field: views, direction: desc }]
+          limit: 1
+        ) {
+          entries {
+            slug
+          }
+          total
+          totalPages
+          pageInfo {
+            hasNextPage
+          }
+        }
+      }
+    `)
+
+    expect(result.data!.blogPostList).toEqual({
+      entries: [{ slug: 'c' }],
+      total: 2,
+      totalPages: 2,
+      pageInfo: { hasNextPage: true },
+    })
+
+    const first = await graphql(`
+      {
+        blogPostList(sort: [{ field: views }], limit: 2, after: "") {
+          entries {
+            slug
+          }
+          total
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `)
+    const next = await graphql(
+      `
+        query ($after: String) {
+          blogPostList(sort: [{ field: views }], limit: 2, after: $after) {
+            entries {
+              slug
+            }
+          }
+        }
+      `,
+      { after: first.data!.blogPostList.pageInfo.endCursor }
+    )
+
+    expect(first.data!.blogPostList.entries).toEqual([{ slug: 'a' }, { slug: 'b' }])
+    expect(first.data!.blogPostList.total).toBeNull()
+    expect(next.data!.blogPostList.entries).toEqual([{ slug: 'c' }])
+  })
+
+  it('serves only published entries to anonymous callers', async () => {
+    const ada = await createContentEntry(prisma, {
+      contentTypeId: authorTypeId,
+      fieldValues: [{ fieldId: fieldId.name, value: 'Ada' }],
+    })
+    const draft = await createPost('draft', { title: 'Draft' })
+    const published = await createContentEntry(prisma, {
+      contentTypeId: postTypeId,
+      slug: 'published',
+      status: 'PUBLISHED',
+      fieldValues: [
+        { fieldId: fieldId.title, value: 'Published' },
+        { fieldId: fieldId.author, value: ada.id },
+      ],
+    })
+    const anonymous = async (query: string, variables?: Record<string, unknown>) =>
+      (await api.graphql(query, variables)).data as GraphQLResult
+
+    const list = await anonymous('{ blogPostList { entries { slug author { name } } total } }')
+    expect(list.data!.blogPostList).toEqual({
+      entries: [{ slug: 'published', author: null }],
+      total: 1,
+    })
+    const drafts = await anonymous('{ blogPostList(status: [DRAFT]) { entries { slug } } }')
+    expect(drafts.data!.blogPostList.entries).toEqual([])
+
+    const single = 'query ($id: ID!) { blogPost(id: $id) { slug } }'
+    expect((await anonymous(single, { id: draft.id })).data!.blogPost).toBeNull()
+    expect((await anonymous(single, { id: published.id })).data!.blogPost).toEqual({
+      slug: 'published',
+    })
+    expect((await graphql(single, { id: draft.id })).data!.blogPost).toEqual({ slug: 'draft' })
+  })
+
+  it('creates, updates and deletes entries with REST validation', async () => {
+    const invalid = await graphql(`
+      mutation {
+        createBlogPost(data: { title: "", views: 1 }) {
+          id
+        }
+      }
+    `)
+    expect(invalid.errors?.[0].extensions).toEqual({
+      code: 'VALIDATION_ERROR',
+      fields: [{ path: 'fieldValues.title', message: "Field 'Title' is required" }],
+    })
+
+    const created = await graphql(`
+      mutation {
+        createBlogPost(slug: "draft", data: { title: "Draft", views: 3 }) {
+          id
+          title
+          views
+        }
+      }
+    `)
+    const id = created.data!.createBlogPost.id
+    expect(created.data!.createBlogPost).toMatchObject({ title: 'Draft', views: 3 })
+
+    const updated = await graphql(
+      `
+        mutation ($id: ID!) {
+          updateBlogPost(id: $id, data: { views: 4 }) {
+            title
+            views
+          }
+        }
+      `,
+      { id }
+    )
+    expect(updated.data!.updateBlogPost).toEqual({ title: 'Draft', views: 4 })
+
+    const deleted = await graphql(
+      `
+        mutation ($id: ID!) {
+          deleteBlogPost(id: $id)
+        }
+      `,
+      { id }
+    )
+    const missing = await graphql(
+      `
+        mutation ($id: ID!) {
+          deleteBlogPost(id: $id)
+        }
+      `,
+      { id }
+    )
+    expect(deleted.data!.deleteBlogPost).toBe(id)
+    expect(missing.errors?.[0].extensions?.code).toBe('NOT_FOUND')
+  })
+
+  it('rejects mutations over GET', async () => {
+    const response = await api.request('GET', '/api/graphql', {
+      query: { query: 'mutation { deleteBlogPost(id: "x") }' },
+    })
+
+    expect(response.error?.code).toBe('METHOD_NOT_ALLOWED')
+  })
+
+  it('rejects queries that are too deep or too complex before running them', async () => {
+    await createContentType(prisma, {
+      name: 'category',
+      displayName: 'Category',
+      fields: [
+        {
+          name: 'parent',
+          displayName: 'Parent',
+          fieldType: 'RELATION',
+          relatedType: 'category',
+          options: { relationKind: 'manyToOne' },
+        },
+        {
+          name: 'related',
+          displayName: 'Related',
+          fieldType: 'RELATION',
+          relatedType: 'category',
+          options: { relationKind: 'manyToMany' },
+        },
+      ],
+    })
+    const fanOut = await graphql(
+      '{ categoryList(limit: 100) { entries { related { related { related { id } } } } } }'
+    )
+    const related = await graphql('{ categoryList { entries { related { id } } } }')
+    const findMany = vi.spyOn(prisma.contentEntry, 'findMany')
+
+    const nested = 'parent { '.repeat(MAX_QUERY_DEPTH) + 'id' + ' }'.repeat(MAX_QUERY_DEPTH)
+    const deep = await graphql(`{ categoryList { entries { ${nested} } } }`)
+    const lists = Array.from(
+      { length: 13 },
+      (_, index) => `list${index}: blogPostList(limit: 100) { entries { title views featured } }`
+    )
+    const complex = await graphql(`{ ${lists.join(' ')} }`)
+    const allowed = await graphql(`{ ${lists.slice(0, 12).join(' ')} }`)
+
+    expect(deep.errors?.[0]).toMatchObject({
+      message: `Query depth ${MAX_QUERY_DEPTH + 3} exceeds the maximum of ${MAX_QUERY_DEPTH}`,
+      extensions: { code: 'QUERY_TOO_COMPLEX' },
+    })
+    expect(complex.errors?.[0].message).toBe(
+      `Query complexity 5213 exceeds the maximum of ${MAX_QUERY_COMPLEXITY}`
+    )
+    expect(fanOut.errors?.[0].message).toBe(
+      `Query complexity 111201 exceeds the maximum of ${MAX_QUERY_COMPLEXITY}`
+    )
+    expect(related.errors).toBeUndefined()
+    expect(allowed.errors).toBeUndefined()
+    expect(findMany).toHaveBeenCalledTimes(12)
+    findMany.mockRestore()
+  })
+
+  it('rebuilds the schema when a content type changes', async () => {
+    const before = await graphql('{ blogPostList { entries { subtitle } } }')
+    expect(before.errors?.[0].message).toMatch(/Cannot query field "subtitle"/)
+
+    await addFieldToContentType(prisma, postTypeId, {
+      name: 'subtitle',
+      displayName: 'Subtitle',
+      fieldType: 'TEXT',
+    })
+    await createPost('sub', { title: 'Sub' })
+
+    const after = await graphql('{ blogPostList { entries { subtitle } } }')
+    expect(after.errors).toBeUndefined()
+    expect(after.data!.blogPostList.entries).toEqual([{ subtitle: null }])
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Tests for the health checks behind /api/health and the container probes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import {
+  EXPIRED_SESSIONS_WARNING,
+  getHealthReport,
+  getHealthStatus,
+  getReadiness,
+  getSqliteFilePath,
+} from '../app/server/health'
+import { runScheduledPublishing } from '../app/server/scheduler'
+
+const prisma = createInMemoryPrisma()
+
+describe('Health checks', () => {
+  beforeEach(() => {
+    prisma.$reset()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('reports every check and leaves details out unless asked for', async () => {
+    const report = await getHealthReport(prisma)
+    expect(report.status).toBe('healthy')
+    expect(Object.keys(report.checks)).toEqual([
+      'database',
+      'filesystem',
+      'memory',
+      'sessions',
+      'scheduler',
+    ])
+    expect(report.checks.database.responseTime).toBeGreaterThanOrEqual(0)
+    expect(Object.values(report.checks).some(check => check.details)).toBe(false)
+
+    const detailed = await getHealthReport(prisma, { detailed: true })
+    expect(detailed.checks.memory.details).toMatchObject({ heapUsedBytes: expect.any(Number) })
+    expect(detailed.checks.filesystem.details).toMatchObject({ freeBytes: expect.any(Number) })
+    expect(detailed.checks.sessions.details).toEqual({ active: 0, expired: 0 })
+  })
+
+  it('rolls the checks up into one status', () => {
+    expect(getHealthStatus({ a: { status: 'pass' }, b: { status: 'pass' } })).toBe('healthy')
+    expect(getHealthStatus({ a: { status: 'pass' }, b: { status: 'warn' } })).toBe('degraded')
+    expect(getHealthStatus({ a: { status: 'warn' }, b: { status: 'fail' } })).toBe('unhealthy')
+  })
+
+  it('is unhealthy and not ready when the database cannot be reached', async () => {
+    vi.spyOn(prisma, '$queryRawUnsafe').mockRejectedValue(new Error('Connection refused'))
+
+    const report = await getHealthReport(prisma)
+    expect(report.status).toBe('unhealthy')
+    expect(report.checks.database).toMatchObject({ status: 'fail', error: 'Connection refused' })
+
+    const readiness = await getReadiness(prisma)
+    expect(readiness.status).toBe('unhealthy')
+    expect(Object.keys(readiness.checks)).toEqual(['database'])
+  })
+
+  it('warns about expired sessions and failed scheduler runs', async () => {
+    const user = await prisma.user.create({ data: { email: 'a@example.com', password: 'hash' } })
+    const expiresAt = new Date(Date.now() - 1000)
+    await prisma.session.createMany({
+      data: Array.from({ length: EXPIRED_SESSIONS_WARNING + 1 }, () => ({
+        userId: user.id,
+        expiresAt,
+      })),
+    })
+
+    vi.spyOn(prisma.contentEntry, 'findMany').mockRejectedValueOnce(new Error('Disk I/O error'))
+    await runScheduledPublishing(prisma)
+
+    const report = await getHealthReport(prisma, { detailed: true })
+    expect(report.status).toBe('degraded')
+    expect(report.checks.sessions).toMatchObject({
+      status: 'warn',
+      details: { active: 0, expired: EXPIRED_SESSIONS_WARNING + 1 },
+    })
+    expect(report.checks.scheduler).toMatchObject({
+      status: 'warn',
+      error: 'Last run failed: Disk I/O error',
+    })
+  })
+
+  it('finds the SQLite database file of the database URL', () => {
+    expect(getSqliteFilePath('file:./dev.db')).toMatch(/prisma[/\\]dev\.db$/)
+    expect(getSqliteFilePath('file:/var/data/cms.db?connection_limit=1')).toBe('/var/data/cms.db')
+    expect(getSqliteFilePath('file::memory:?cache=shared')).toBeNull()
+    expect(getSqliteFilePath('postgresql://localhost:5432/tancms')).toBeNull()
+    expect(getSqliteFilePath(undefined)).toBeNull()
+  })
+})
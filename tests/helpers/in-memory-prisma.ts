@@ -0,0 +1,599 @@
+/**
+ * Minimal in-memory stand-in for the Prisma client used by API tests
+ * Implements the subset of the query API that the server utilities rely on
+ */
+
+import sqlite3InitModule, { type BindingSpec, type Sqlite3Static } from '@sqlite.org/sqlite-wasm'
+
+type Row = Record<string, unknown>
+type Where = Record<string, unknown>
+
+type Relation = {
+  model: string
+  kind: 'one' | 'many'
+  // Foreign key column: on this model for 'one', on the related model for 'many'
+  foreignKey: string
+  cascade?: boolean
+}
+
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  user: {
+    contentEntries: { model: 'contentEntry', kind: 'many', foreignKey: 'authorId' },
+    entryRevisions: { model: 'contentEntryRevision', kind: 'many', foreignKey: 'authorId' },
+    sessions: { model: 'session', kind: 'many', foreignKey: 'userId', cascade: true },
+    apiKeys: { model: 'apiKey', kind: 'many', foreignKey: 'createdById' },
+    customRoles: { model: 'userCustomRole', kind: 'many', foreignKey: 'userId', cascade: true },
+  },
+  session: {
+    user: { model: 'user', kind: 'one', foreignKey: 'userId' },
+  },
+  contentType: {
+    fields: { model: 'contentField', kind: 'many', foreignKey: 'contentTypeId', cascade: true },
+    entries: { model: 'contentEntry', kind: 'many', foreignKey: 'contentTypeId', cascade: true },
+  },
+  contentField: {
+    contentType: { model: 'contentType', kind: 'one', foreignKey: 'contentTypeId' },
+    fieldValues: { model: 'contentFieldValue', kind: 'many', foreignKey: 'fieldId', cascade: true },
+    relations: { model: 'contentRelation', kind: 'many', foreignKey: 'fieldId', cascade: true },
+  },
+  contentEntry: {
+    contentType: { model: 'contentType', kind: 'one', foreignKey: 'contentTypeId' },
+    author: { model: 'user', kind: 'one', foreignKey: 'authorId' },
+    fieldValues: { model: 'contentFieldValue', kind: 'many', foreignKey: 'entryId', cascade: true },
+    revisions: {
+      model: 'contentEntryRevision',
+      kind: 'many',
+      foreignKey: 'entryId',
+      cascade: true,
+    },
+    relationsFrom: {
+      model: 'contentRelation',
+      kind: 'many',
+      foreignKey: 'sourceId',
+      cascade: true,
+    },
+    relationsTo: { model: 'contentRelation', kind: 'many', foreignKey: 'targetId', cascade: true },
+  },
+  contentRelation: {
+    field: { model: 'contentField', kind: 'one', foreignKey: 'fieldId' },
+    source: { model: 'contentEntry', kind: 'one', foreignKey: 'sourceId' },
+    target: { model: 'contentEntry', kind: 'one', foreignKey: 'targetId' },
+  },
+  contentEntryRevision: {
+    entry: { model: 'contentEntry', kind: 'one', foreignKey: 'entryId' },
+    author: { model: 'user', kind: 'one', foreignKey: 'authorId' },
+  },
+  contentFieldValue: {
+    field: { model: 'contentField', kind: 'one', foreignKey: 'fieldId' },
+    entry: { model: 'contentEntry', kind: 'one', foreignKey: 'entryId' },
+  },
+  media: {},
+  tag: {},
+  schedulerLock: {},
+  schedulerRun: {},
+  apiKey: {
+    createdBy: { model: 'user', kind: 'one', foreignKey: 'createdById' },
+  },
+  customRole: {
+    permissions: { model: 'rolePermission', kind: 'many', foreignKey: 'roleId', cascade: true },
+    users: { model: 'userCustomRole', kind: 'many', foreignKey: 'roleId', cascade: true },
+  },
+  userCustomRole: {
+    user: { model: 'user', kind: 'one', foreignKey: 'userId' },
+    role: { model: 'customRole', kind: 'one', foreignKey: 'roleId' },
+  },
+  rolePermission: {
+    role: { model: 'customRole', kind: 'one', foreignKey: 'roleId' },
+  },
+  auditLog: {},
+  activity: {
+    actor: { model: 'user', kind: 'one', foreignKey: 'actorId' },
+  },
+}
+
+const DEFAULTS: Record<string, Row> = {
+  user: { role: 'VIEWER', name: null },
+  contentType: { apiSettings: null },
+  contentField: { required: false, unique: false, order: 0, options: null, relatedType: null },
+  contentEntry: {
+    slug: null,
+    status: 'DRAFT',
+    publishedAt: null,
+    scheduledAt: null,
+    unpublishAt: null,
+    archiveAt: null,
+    authorId: null,
+  },
+  contentFieldValue: { value: null },
+  contentRelation: { order: 0 },
+  media: { altText: null, width: null, height: null, orientation: null, formats: null },
+  contentEntryRevision: { slug: null, authorId: null, restoredFromId: null },
+  schedulerRun: {
+    finishedAt: null,
+    published: 0,
+    unpublished: 0,
+    archived: 0,
+    failed: 0,
+    error: null,
+  },
+  apiKey: { expiresAt: null, lastUsedAt: null, revokedAt: null, createdById: null },
+  customRole: { description: null, baseRole: null },
+  rolePermission: { contentType: '*' },
+  auditLog: { userId: null, userEmail: null, success: true, details: null },
+  activity: { actorId: null },
+}
+
+/** Columns of the tables that raw entry queries read, copied to SQLite for each query */
+const SQL_TABLES: Record<string, { table: string; columns: string[] }> = {
+  contentEntry: {
+    table: 'ContentEntry',
+    columns: [
+      'id',
+      'contentTypeId',
+      'slug',
+      'status',
+      'publishedAt',
+      'scheduledAt',
+      'unpublishAt',
+      'archiveAt',
+      'authorId',
+      'createdAt',
+      'updatedAt',
+    ],
+  },
+  contentFieldValue: {
+    table: 'ContentFieldValue',
+    columns: ['id', 'fieldId', 'entryId', 'value', 'createdAt', 'updatedAt'],
+  },
+}
+
+let sqlite: Promise<Sqlite3Static> | undefined
+
+export type InMemoryPrisma = ReturnType<typeof createInMemoryPrisma>
+
+export function createInMemoryPrisma() {
+  const tables: Record<string, Row[]> = {}
+  let idCounter = 0
+
+  const table = (model: string) => (tables[model] ??= [])
+
+  function matchesValue(actual: unknown, condition: unknown): boolean {
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+      return compare(actual, condition) === 0
+    }
+
+    return Object.entries(condition as Row).every(([op, expected]) => {
+      switch (op) {
+        case 'equals':
+          return compare(actual, expected) === 0
+        case 'not':
+          return !matchesValue(actual, expected)
+        case 'in':
+          return (expected as unknown[]).some(value => compare(actual, value) === 0)
+        case 'notIn':
+          return !(expected as unknown[]).some(value => compare(actual, value) === 0)
+        case 'lt':
+          return actual != null && compare(actual, expected) < 0
+        case 'lte':
+          return actual != null && compare(actual, expected) <= 0
+        case 'gt':
+          return actual != null && compare(actual, expected) > 0
+        case 'gte':
+          return actual != null && compare(actual, expected) >= 0
+        case 'contains':
+          return typeof actual === 'string' && actual.includes(String(expected))
+        case 'startsWith':
+          return typeof actual === 'string' && actual.startsWith(String(expected))
+        case 'endsWith':
+          return typeof actual === 'string' && actual.endsWith(String(expected))
+        case 'mode':
+          return true
+        default:
+          throw new Error(`In-memory Prisma does not support the '${op}' filter`)
+      }
+    })
+  }
+
+  function matches(model: string, row: Row, where: Where = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true
+      if (key === 'AND') return (condition as Where[]).every(w => matches(model, row, w))
+      if (key === 'OR') return (condition as Where[]).some(w => matches(model, row, w))
+      if (key === 'NOT') {
+        const clauses = Array.isArray(condition) ? condition : [condition]
+        return !clauses.some(w => matches(model, row, w as Where))
+      }
+
+      const relation = RELATIONS[model]?.[key]
+      if (relation) {
+        const related = resolveRelation(model, row, key)
+        if (relation.kind === 'one') {
+          return related !== null && matches(relation.model, related as Row, condition as Where)
+        }
+
+        const rows = related as Row[]
+        const { some, every, none } = condition as { some?: Where; every?: Where; none?: Where }
+        if (some) return rows.some(r => matches(relation.model, r, some))
+        if (every) return rows.every(r => matches(relation.model, r, every))
+        if (none) return !rows.some(r => matches(relation.model, r, none))
+        return true
+      }
+
+      return matchesValue(row[key], condition)
+    })
+  }
+
+  function resolveRelation(model: string, row: Row, key: string): Row | Row[] | null {
+    const relation = RELATIONS[model][key]
+    if (relation.kind === 'one') {
+      return table(relation.model).find(r => r.id === row[relation.foreignKey]) ?? null
+    }
+    return table(relation.model).filter(r => r[relation.foreignKey] === row.id)
+  }
+
+  function project(model: string, row: Row, args: { include?: Row; select?: Row } = {}): Row {
+    const shape = args.select ?? args.include
+    const result: Row = args.select ? {} : { ...row }
+    if (!shape) return result
+
+    for (const [key, option] of Object.entries(shape)) {
+      if (!option) continue
+
+      if (key === '_count') {
+        const counts: Row = {}
+        const selected = (option as { select: Row }).select
+        for (const countKey of Object.keys(selected)) {
+          counts[countKey] = (resolveRelation(model, row, countKey) as Row[]).length
+        }
+        result._count = counts
+        continue
+      }
+
+      const relation = RELATIONS[model]?.[key]
+      if (!relation) {
+        result[key] = row[key]
+        continue
+      }
+
+      const nested = option === true ? {} : (option as Row)
+      if (relation.kind === 'one') {
+        const related = resolveRelation(model, row, key) as Row | null
+        result[key] = related ? project(relation.model, related, nested) : null
+      } else {
+        const where = { ...(nested.where as Where), [relation.foreignKey]: row.id }
+        result[key] = findMany(relation.model, { ...nested, where })
+      }
+    }
+
+    return result
+  }
+
+  function sortRows(rows: Row[], orderBy?: unknown): Row[] {
+    if (!orderBy) return rows
+    const orders = (Array.isArray(orderBy) ? orderBy : [orderBy]) as Record<string, string>[]
+
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        for (const [key, direction] of Object.entries(order)) {
+          const result = compare(a[key], b[key])
+          if (result !== 0) return direction === 'desc' ? -result : result
+        }
+      }
+      return 0
+    })
+  }
+
+  function findMany(model: string, args: Row = {}): Row[] {
+    let rows = table(model).filter(row => matches(model, row, args.where as Where))
+    rows = sortRows(rows, args.orderBy)
+
+    if (args.cursor) {
+      const index = rows.findIndex(row => matches(model, row, args.cursor as Where))
+      rows = index === -1 ? [] : rows.slice(index)
+    }
+
+    const skip = (args.skip as number) ?? 0
+    let take = args.take as number | undefined
+    if (take !== undefined && take < 0) {
+      rows = rows.slice(0, Math.max(0, rows.length - skip)).slice(take)
+      take = undefined
+    } else {
+      rows = rows.slice(skip)
+    }
+    if (take !== undefined) rows = rows.slice(0, take)
+
+    return rows.map(row => project(model, row, args as { include?: Row; select?: Row }))
+  }
+
+  function create(model: string, data: Row): Row {
+    const now = new Date()
+    const row: Row = {
+      id: `${model}_${++idCounter}`,
+      ...DEFAULTS[model],
+      createdAt: now,
+      updatedAt: now,
+    }
+    const nestedWrites: [string, Row][] = []
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue
+      const relation = RELATIONS[model]?.[key]
+      if (relation) {
+        nestedWrites.push([key, value as Row])
+      } else {
+        row[key] = value
+      }
+    }
+
+    table(model).push(row)
+    nestedWrites.forEach(([key, value]) => applyNestedWrite(model, row, key, value))
+    return row
+  }
+
+  function applyNestedWrite(model: string, row: Row, key: string, write: Row) {
+    const relation = RELATIONS[model][key]
+
+    if (relation.kind === 'one') {
+      const connect = write.connect as Row | undefined
+      if (connect) row[relation.foreignKey] = connect.id
+      if (write.disconnect) row[relation.foreignKey] = null
+      return
+    }
+
+    if (write.deleteMany !== undefined) {
+      const where = { ...(write.deleteMany as Where), [relation.foreignKey]: row.id }
+      deleteMany(relation.model, where)
+    }
+
+    const creates = write.create
+      ? Array.isArray(write.create)
+        ? write.create
+        : [write.create]
+      : []
+    for (const child of creates as Row[]) {
+      create(relation.model, { ...child, [relation.foreignKey]: row.id })
+    }
+  }
+
+  function update(model: string, row: Row, data: Row): Row {
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue
+      const relation = RELATIONS[model]?.[key]
+      if (relation) {
+        applyNestedWrite(model, row, key, value as Row)
+      } else if (value && typeof value === 'object' && 'increment' in (value as Row)) {
+        row[key] = ((row[key] as number) ?? 0) + ((value as Row).increment as number)
+      } else {
+        row[key] = value
+      }
+    }
+    row.updatedAt = new Date()
+    return row
+  }
+
+  function deleteMany(model: string, where?: Where): number {
+    const doomed = table(model).filter(row => matches(model, row, where))
+    doomed.forEach(row => removeRow(model, row))
+    return doomed.length
+  }
+
+  function removeRow(model: string, row: Row) {
+    for (const [key, relation] of Object.entries(RELATIONS[model] ?? {})) {
+      if (relation.kind !== 'many') continue
+      for (const child of resolveRelation(model, row, key) as Row[]) {
+        if (relation.cascade) {
+          removeRow(relation.model, child)
+        } else {
+          child[relation.foreignKey] = null
+        }
+      }
+    }
+    tables[model] = table(model).filter(r => r !== row)
+  }
+
+  function findOrThrow(model: string, where: Where): Row {
+    const row = table(model).find(r => matches(model, r, where))
+    if (!row) {
+      const error = new Error(`No ${model} record found for ${JSON.stringify(where)}`)
+      Object.assign(error, { code: 'P2025' })
+      throw error
+    }
+    return row
+  }
+
+  function delegate(model: string) {
+    return {
+      async findUnique(args: Row) {
+        const row = table(model).find(r => matches(model, r, args.where as Where))
+        return row ? project(model, row, args) : null
+      },
+      async findFirst(args: Row = {}) {
+        return findMany(model, { ...args, take: 1 })[0] ?? null
+      },
+      async findMany(args: Row = {}) {
+        return findMany(model, args)
+      },
+      async count(args: Row = {}) {
+        return table(model).filter(row => matches(model, row, args.where as Where)).length
+      },
+      async create(args: Row) {
+        return project(model, create(model, args.data as Row), args)
+      },
+      async createMany(args: Row) {
+        const rows = args.data as Row[]
+        rows.forEach(data => create(model, data))
+        return { count: rows.length }
+      },
+      async update(args: Row) {
+        const row = update(model, findOrThrow(model, args.where as Where), args.data as Row)
+        return project(model, row, args)
+      },
+      async updateMany(args: Row) {
+        const rows = table(model).filter(row => matches(model, row, args.where as Where))
+        rows.forEach(row => update(model, row, args.data as Row))
+        return { count: rows.length }
+      },
+      async upsert(args: Row) {
+        const row = table(model).find(r => matches(model, r, args.where as Where))
+        const result = row
+          ? update(model, row, args.update as Row)
+          : create(model, args.create as Row)
+        return project(model, result, args)
+      },
+      async delete(args: Row) {
+        const row = findOrThrow(model, args.where as Where)
+        const result = project(model, row, args)
+        removeRow(model, row)
+        return result
+      },
+      async deleteMany(args: Row = {}) {
+        return { count: deleteMany(model, args.where as Where) }
+      },
+    }
+  }
+
+  /**
+   * Run a raw query over entries and field values in SQLite, with dates stored as epoch
+   * milliseconds like Prisma does
+   */
+  async function runEntrySql(sql: string, params: unknown[]): Promise<Row[]> {
+    const sqlite3 = await (sqlite ??= sqlite3InitModule())
+    const db = new sqlite3.oo1.DB(':memory:')
+    try {
+      for (const [model, { table: name, columns }] of Object.entries(SQL_TABLES)) {
+        db.exec(`CREATE TABLE "${name}" (${columns.map(column => `"${column}"`).join(', ')})`)
+        for (const row of table(model)) {
+          db.exec({
+            sql: `INSERT INTO "${name}" VALUES (${columns.map(() => '?').join(', ')})`,
+            bind: columns.map(column => {
+              const value = row[column]
+              return value instanceof Date ? value.getTime() : (value ?? null)
+            }) as BindingSpec,
+          })
+        }
+      }
+      return db.selectObjects(sql, params as BindingSpec)
+    } finally {
+      db.close()
+    }
+  }
+
+  // Raw SQL is recorded; entry queries run in SQLite and the statements of the full-text search
+  // index are emulated, with prefix matching standing in for FTS5
+  const rawStatements: { sql: string; params: unknown[] }[] = []
+  const searchRows: { entryId: string; contentTypeId: string; slug: string; content: string }[] = []
+
+  function runRaw(sql: string, params: unknown[]): Row[] {
+    rawStatements.push({ sql, params })
+    if (!sql.includes('"ContentSearch"') && !sql.includes("'ContentSearch'")) return []
+
+    if (sql.startsWith('SELECT entryId FROM')) {
+      return searchRows.slice(0, 1)
+    }
+    if (sql.startsWith('INSERT')) {
+      const [entryId, contentTypeId, slug, content] = params as string[]
+      searchRows.push({ entryId, contentTypeId, slug, content })
+    } else if (sql.startsWith('DELETE')) {
+      const remaining = searchRows.filter(row => params.length > 0 && !params.includes(row.entryId))
+      searchRows.splice(0, searchRows.length, ...remaining)
+    } else if (sql.includes('MATCH')) {
+      const isCount = sql.includes('count(*)')
+      const [query, ...rest] = params as [string, ...unknown[]]
+      const listParams = isCount ? rest : rest.slice(0, -2)
+      const typeCount = placeholderCount(sql.match(/AND contentTypeId IN \(([^)]*)\)/)?.[1])
+      const typeIds = listParams.slice(0, typeCount)
+      const unpublishedTypeIds = listParams.slice(typeCount)
+      const publishedOnly = sql.includes(`status = 'PUBLISHED'`)
+      const isVisible = (row: (typeof searchRows)[number]) =>
+        !publishedOnly ||
+        unpublishedTypeIds.includes(row.contentTypeId) ||
+        table('contentEntry').some(
+          entry => entry.id === row.entryId && entry.status === 'PUBLISHED'
+        )
+      const terms = [...query.matchAll(/"([^"]+)"\*/g)].map(match => match[1].toLowerCase())
+      const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}_]+/u)
+
+      const matches = searchRows
+        .filter(row => typeIds.length === 0 || typeIds.includes(row.contentTypeId))
+        .filter(isVisible)
+        .map(row => {
+          const hits = words(`${row.slug} ${row.content}`).filter(word =>
+            terms.some(term => word.startsWith(term))
+          )
+          const covered = terms.every(term => hits.some(word => word.startsWith(term)))
+          return { row, covered, rank: -hits.length }
+        })
+        .filter(match => match.covered)
+        .sort((a, b) => a.rank - b.rank)
+
+      if (isCount) return [{ total: BigInt(matches.length) }]
+      const [limit, offset] = rest.slice(-2) as number[]
+      return matches.slice(offset, offset + limit).map(({ row, rank }) => ({
+        entryId: row.entryId,
+        rank,
+        snippet: row.content.replace(/[\p{L}\p{N}_]+/gu, word =>
+          terms.some(term => word.toLowerCase().startsWith(term)) ? `\u0002${word}\u0003` : word
+        ),
+      }))
+    }
+    return []
+  }
+
+  const client = {
+    async $transaction<T>(input: ((tx: unknown) => Promise<T>) | Promise<unknown>[]) {
+      if (typeof input !== 'function') return Promise.all(input)
+
+      // Roll back to a copy of the tables when the callback throws
+      const snapshot = structuredClone({ tables, searchRows })
+      try {
+        return await input(client)
+      } catch (error) {
+        Object.keys(tables).forEach(model => delete tables[model])
+        Object.assign(tables, snapshot.tables)
+        searchRows.splice(0, searchRows.length, ...snapshot.searchRows)
+        throw error
+      }
+    },
+    async $queryRawUnsafe(sql: string, ...params: unknown[]) {
+      if (sql.includes('"ContentEntry"') && !sql.includes('"ContentSearch"')) {
+        rawStatements.push({ sql, params })
+        return runEntrySql(sql, params)
+      }
+      return runRaw(sql, params)
+    },
+    async $executeRawUnsafe(sql: string, ...params: unknown[]) {
+      runRaw(sql, params)
+      return 0
+    },
+    $rawStatements: rawStatements,
+    $reset() {
+      Object.keys(tables).forEach(model => delete tables[model])
+      rawStatements.length = 0
+      searchRows.length = 0
+    },
+  } as Record<string, unknown>
+
+  for (const model of Object.keys(RELATIONS)) {
+    client[model] = delegate(model)
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return client as any
+}
+
+function placeholderCount(list: string | undefined): number {
+  return list ? list.split('?').length - 1 : 0
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a instanceof Date || b instanceof Date) {
+    const left = a == null ? NaN : new Date(a as Date).getTime()
+    const right = b == null ? NaN : new Date(b as Date).getTime()
+    if (Number.isNaN(left) || Number.isNaN(right)) return a == b ? 0 : a == null ? -1 : 1
+    return left - right
+  }
+  if (a === b) return 0
+  if (a == null) return -1
+  if (b == null) return 1
+  return a < b ? -1 : 1
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for the image pipeline: renditions, WebP variants and metadata on upload
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import sharp from 'sharp'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import { createLocalStorageAdapter, type StorageAdapter } from '../app/server/media-storage'
+import { deleteMediaWithFiles, serveMediaFile, uploadMediaFiles } from '../app/server/media-upload'
+import { getImageProcessingOptions, getFormatKey } from '../app/server/image-processor'
+import type { MediaFile } from '../app/lib/media-service'
+
+const prisma = createInMemoryPrisma()
+
+describe('Image processing', () => {
+  let directory: string
+  let storage: StorageAdapter
+
+  const uploadImage = async (data: Buffer, name: string, type: string) => {
+    const form = new FormData()
+    form.append('file', new File([data], name, { type }))
+
+    const request = new Request('http://localhost/api/media', { method: 'POST', body: form })
+    const response = await uploadMediaFiles(prisma, request, {
+      storage,
+      image: { formats: { thumbnail: 245, small: 500, large: 1000 }, webp: true },
+    })
+    return (response.data as { media: MediaFile[] }).media[0]
+  }
+
+  beforeEach(async () => {
+    prisma.$reset()
+    directory = await mkdtemp(join(tmpdir(), 'tancms-images-'))
+    storage = createLocalStorageAdapter({ directory })
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('records displayed dimensions, EXIF orientation and renditions smaller than the image', async () => {
+    // 1200x800 landscape pixels stored with "rotate 90°" orientation: displayed as 800x1200
+    const photo = await sharp({
+      create: { width: 1200, height: 800, channels: 3, background: '#336699' },
+    })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer()
+
+    const media = await uploadImage(photo, 'photo.jpg', 'image/jpeg')
+
+    expect(media).toMatchObject({ width: 800, height: 1200 })
+    expect((await prisma.media.findMany())[0].orientation).toBe(6)
+    expect(Object.keys(media.formats!)).toEqual(['thumbnail', 'small'])
+    expect(media.formats!.thumbnail).toMatchObject({
+      width: 245,
+      height: 367,
+      mimeType: 'image/jpeg',
+      webp: { width: 245, height: 367, mimeType: 'image/webp' },
+    })
+
+    const key = storage.getKey(media.url)!
+    expect((await readdir(directory)).sort()).toEqual(
+      [
+        key,
+        getFormatKey(key, 'thumbnail'),
+        getFormatKey(key, 'thumbnail', 'webp'),
+        getFormatKey(key, 'small'),
+        getFormatKey(key, 'small', 'webp'),
+      ].sort()
+    )
+  })
+
+  it('serves renditions with their own content type', async () => {
+    const image = await sharp({
+      create: { width: 600, height: 300, channels: 4, background: '#ffffff' },
+    })
+      .png()
+      .toBuffer()
+    const media = await uploadImage(image, 'banner.png', 'image/png')
+
+    const webpKey = storage.getKey(media.formats!.thumbnail.webp!.url)!
+    const response = await serveMediaFile(
+      prisma,
+      new Request('http://localhost/'),
+      webpKey,
+      storage
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('image/webp')
+    expect((await sharp(Buffer.from(await response.arrayBuffer())).metadata()).width).toBe(245)
+  })
+
+  it('deletes renditions together with the original', async () => {
+    const image = await sharp({
+      create: { width: 600, height: 300, channels: 3, background: '#000' },
+    })
+      .png()
+      .toBuffer()
+    const media = await uploadImage(image, 'banner.png', 'image/png')
+
+    await deleteMediaWithFiles(prisma, [media.id], storage)
+
+    expect(await readdir(directory)).toEqual([])
+  })
+
+  it('stores images that cannot be decoded without renditions', async () => {
+    const media = await uploadImage(Buffer.from('not a png'), 'broken.png', 'image/png')
+
+    expect(media.width).toBeUndefined()
+    expect(media.formats).toBeUndefined()
+    expect(await readdir(directory)).toEqual([storage.getKey(media.url)])
+  })
+
+  it('reads rendition sizes from the environment', () => {
+    process.env.MEDIA_IMAGE_FORMATS = 'thumb:100, hero:1600'
+    process.env.MEDIA_WEBP_VARIANTS = 'false'
+
+    expect(getImageProcessingOptions()).toEqual({
+      formats: { thumb: 100, hero: 1600 },
+      webp: false,
+    })
+
+    delete process.env.MEDIA_IMAGE_FORMATS
+    delete process.env.MEDIA_WEBP_VARIANTS
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Tests for on-the-fly image transformations: signed URLs, limits and the disk cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import sharp from 'sharp'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import { createLocalStorageAdapter, type StorageAdapter } from '../app/server/media-storage'
+import { deleteMediaWithFiles } from '../app/server/media-upload'
+import { createMedia } from '../app/server/media-utils'
+import {
+  getMediaSrcSet,
+  getTransformSrcSet,
+  getTransformUrl,
+  serveTransformedMedia,
+} from '../app/server/image-transform'
+
+const prisma = createInMemoryPrisma()
+
+describe('Image transformations', () => {
+  let directory: string
+  let cacheDir: string
+  let storage: StorageAdapter
+  let imageId: string
+
+  const request = (path: string, headers: Record<string, string> = {}) => {
+    const url = new URL(path, 'http://localhost')
+    const id = decodeURIComponent(url.pathname.split('/')[3])
+    return serveTransformedMedia(prisma, new Request(url, { headers }), id, { storage })
+  }
+
+  beforeEach(async () => {
+    prisma.$reset()
+    directory = await mkdtemp(join(tmpdir(), 'tancms-media-'))
+    cacheDir = await mkdtemp(join(tmpdir(), 'tancms-transforms-'))
+    storage = createLocalStorageAdapter({ directory })
+    process.env.MEDIA_TRANSFORM_SECRET = 'test-transform-secret'
+    process.env.MEDIA_TRANSFORM_CACHE_DIR = cacheDir
+
+    const image = await sharp({
+      create: { width: 1200, height: 800, channels: 3, background: '#336699' },
+    })
+      .jpeg()
+      .toBuffer()
+    await storage.save('photo.jpg', new Blob([image]).stream())
+    const media = await createMedia(prisma, {
+      url: storage.getUrl('photo.jpg'),
+      filename: 'photo.jpg',
+      size: image.length,
+      mimeType: 'image/jpeg',
+    })
+    imageId = media.id
+  })
+
+  afterEach(async () => {
+    delete process.env.MEDIA_TRANSFORM_SECRET
+    delete process.env.MEDIA_TRANSFORM_CACHE_DIR
+    await rm(directory, { recursive: true, force: true })
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('resizes, crops and converts images from signed URLs', async () => {
+    const response = await request(
+      getTransformUrl(imageId, { width: 300, height: 300, format: 'webp' })
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('image/webp')
+    const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata()
+    expect(metadata).toMatchObject({ width: 300, height: 300, format: 'webp' })
+  })
+
+  it('never enlarges images', async () => {
+    const response = await request(getTransformUrl(imageId, { width: 2400 }))
+
+    const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata()
+    expect(metadata).toMatchObject({ width: 1200, height: 800, format: 'jpeg' })
+  })
+
+  it('caches each transformation on disk and answers revalidation with 304', async () => {
+    const url = getTransformUrl(imageId, { width: 200 })
+
+    const first = await request(url)
+    const second = await request(url)
+    await request(getTransformUrl(imageId, { width: 400 }))
+
+    expect(second.headers.get('etag')).toBe(first.headers.get('etag'))
+    expect(await readdir(cacheDir)).toHaveLength(2)
+
+    const revalidated = await request(url, { 'If-None-Match': first.headers.get('etag')! })
+    expect(revalidated.status).toBe(304)
+  })
+
+  it('rejects unsigned and tampered URLs', async () => {
+    const unsigned = await request(`/api/media/${imageId}/transform?w=300`)
+    const tampered = await request(
+      getTransformUrl(imageId, { width: 300 }).replace('w=300', 'w=301')
+    )
+
+    expect(unsigned.status).toBe(403)
+    expect(tampered.status).toBe(403)
+    expect(await readdir(cacheDir)).toEqual([])
+  })
+
+  it('validates parameters and limits', async () => {
+    const response = await request(
+      `/api/media/${imageId}/transform?w=5000&fit=stretch&format=bmp&q=0`
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(body.error.details).toEqual([
+      'Width must be an integer from 1 to 4000',
+      'Fit must be one of cover, contain, fill, inside, outside',
+      'Format must be one of jpeg, png, webp, avif',
+      'Quality must be an integer from 1 to 100',
+    ])
+  })
+
+  it('returns 404 for missing media and 400 for files that are not images', async () => {
+    const pdf = await createMedia(prisma, {
+      url: storage.getUrl('guide.pdf'),
+      filename: 'guide.pdf',
+      size: 100,
+      mimeType: 'application/pdf',
+    })
+
+    expect((await request(getTransformUrl('missing', { width: 100 }))).status).toBe(404)
+    expect((await request(getTransformUrl(pdf.id, { width: 100 }))).status).toBe(400)
+  })
+
+  it('builds signed srcset attributes', () => {
+    const srcSet = getTransformSrcSet(imageId, [320, 640], { format: 'webp' })
+    const [small, large] = srcSet.split(', ')
+
+    expect(small).toMatch(
+      new RegExp(`^/api/media/${imageId}/transform\\?w=320&fit=cover&format=webp&q=80&s=\\S+ 320w$`)
+    )
+    expect(large).toMatch(/w=640.* 640w$/)
+  })
+
+  it('hands out srcsets below the image width with media', async () => {
+    const srcSet = getMediaSrcSet({ id: imageId, mimeType: 'image/jpeg', width: 1200 })
+    const widths = srcSet?.split(', ').map(candidate => candidate.split(' ')[1])
+
+    expect(widths).toEqual(['320w', '640w'])
+    for (const candidate of srcSet!.split(', ')) {
+      expect((await request(candidate.split(' ')[0])).status).toBe(200)
+    }
+    expect(getMediaSrcSet({ id: imageId, mimeType: 'application/pdf' })).toBeNull()
+    expect(getMediaSrcSet({ id: imageId, mimeType: 'image/jpeg' }, '')).toBeNull()
+  })
+
+  it('clears cached transformations when the media is deleted', async () => {
+    await request(getTransformUrl(imageId, { width: 200 }))
+
+    await deleteMediaWithFiles(prisma, [imageId], storage)
+
+    expect(await readdir(cacheDir)).toEqual([])
+  })
+})
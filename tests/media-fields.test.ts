@@ -0,0 +1,166 @@
+/**
+ * Tests for media fields: Media references, MIME/size constraints and response expansion
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentType, createContentEntry } from '../app/server/content-type-utils'
+import { FieldValidationError } from '../app/server/field-validation'
+import { createMedia, getMedia } from '../app/server/media-utils'
+import { getMediaFieldOptions, isMimeTypeAllowed, parseMediaValue } from '../app/lib/media-fields'
+import { api } from '../app/lib/api-manager'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type FieldRow = { id: string; name: string }
+
+describe('Media fields', () => {
+  let articleType: { id: string; slug: string; fields: FieldRow[] }
+  let fieldId: Record<string, string>
+
+  const createImage = (filename: string, size = 1024) =>
+    createMedia(prisma, { url: `/uploads/${filename}`, filename, size, mimeType: 'image/png' })
+
+  const createArticle = (values: Record<string, unknown>) =>
+    createContentEntry(prisma, {
+      contentTypeId: articleType.id,
+      status: 'PUBLISHED',
+      fieldValues: Object.entries(values).map(([name, value]) => ({
+        fieldId: fieldId[name],
+        value,
+      })),
+    })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    articleType = await createContentType(prisma, {
+      name: 'article',
+      displayName: 'Article',
+      fields: [
+        {
+          name: 'cover',
+          displayName: 'Cover',
+          fieldType: 'MEDIA',
+          options: { allowedMimeTypes: ['image/*'], maxFileSize: 2048 },
+        },
+        {
+          name: 'attachments',
+          displayName: 'Attachments',
+          fieldType: 'MEDIA',
+          options: { multiple: true },
+        },
+      ],
+    })
+    fieldId = Object.fromEntries(articleType.fields.map(field => [field.name, field.id]))
+  })
+
+  it('reads constraints from field options and matches MIME patterns', () => {
+    expect(getMediaFieldOptions({ allowedMimeTypes: ['image/*'], maxFileSize: '1024' })).toEqual({
+      multiple: false,
+      allowedMimeTypes: ['image/*'],
+      maxFileSize: 1024,
+    })
+    expect(isMimeTypeAllowed('image/webp', ['image/*'])).toBe(true)
+    expect(isMimeTypeAllowed('application/pdf', ['image/*', 'application/pdf'])).toBe(true)
+    expect(isMimeTypeAllowed('video/mp4', ['image/*'])).toBe(false)
+    expect(isMimeTypeAllowed('video/mp4', [])).toBe(true)
+  })
+
+  it('stores single and multiple media references', async () => {
+    const cover = await createImage('cover.png')
+    const file = await createMedia(prisma, {
+      url: '/uploads/guide.pdf',
+      filename: 'guide.pdf',
+      size: 10_000,
+      mimeType: 'application/pdf',
+    })
+
+    const entry = await createArticle({ cover: cover.id, attachments: [cover.id, file.id] })
+    const values = Object.fromEntries(
+      entry.fieldValues.map((fv: { fieldId: string; value: string }) => [fv.fieldId, fv.value])
+    )
+
+    expect(values[fieldId.cover]).toBe(cover.id)
+    expect(parseMediaValue(values[fieldId.attachments])).toEqual([cover.id, file.id])
+  })
+
+  it('rejects missing media, disallowed types, oversized files and several files', async () => {
+    const large = await createImage('large.png', 4096)
+    const video = await createMedia(prisma, {
+      url: '/uploads/clip.mp4',
+      filename: 'clip.mp4',
+      size: 100,
+      mimeType: 'video/mp4',
+    })
+
+    const errorFor = async (cover: unknown) => {
+      const error = await createArticle({ cover }).catch(e => e)
+      expect(error).toBeInstanceOf(FieldValidationError)
+      return error.fields[0].message
+    }
+
+    expect(await errorFor('missing')).toBe("Field 'Cover' references missing media: missing")
+    expect(await errorFor(video.id)).toBe(
+      "Field 'Cover' media 'clip.mp4' type video/mp4 is not one of image/*"
+    )
+    expect(await errorFor(large.id)).toBe("Field 'Cover' media 'large.png' is larger than 2 KB")
+
+    const small = await createImage('small.png')
+    const other = await createImage('other.png')
+    expect(await errorFor([small.id, other.id])).toBe("Field 'Cover' accepts a single media file")
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('expands media references in REST responses', async () => {
+    vi.stubEnv('MEDIA_TRANSFORM_SECRET', 'test-transform-secret')
+    const cover = await createImage('cover.png')
+    await prisma.media.update({ where: { id: cover.id }, data: { altText: 'A cover' } })
+    const entry = await createArticle({ cover: cover.id, attachments: [cover.id] })
+
+    const expected = {
+      id: cover.id,
+      url: '/uploads/cover.png',
+      altText: 'A cover',
+      mimeType: 'image/png',
+      size: 1024,
+      width: null,
+      height: null,
+      formats: null,
+      srcSet: expect.stringMatching(
+        new RegExp(`^/api/media/${cover.id}/transform\\?w=320&\\S+ 320w, .* 1920w$`)
+      ),
+    }
+    const mediaOf = (fieldValues: { fieldId: string; media?: unknown }[], name: string) =>
+      fieldValues.find(fv => fv.fieldId === fieldId[name])?.media
+
+    const single = await api.getEntry(articleType.slug, entry.id)
+    expect(mediaOf(single.data.entry.fieldValues, 'cover')).toEqual(expected)
+    expect(mediaOf(single.data.entry.fieldValues, 'attachments')).toEqual([expected])
+
+    await prisma.media.delete({ where: { id: cover.id } })
+    const list = await api.listEntries(articleType.slug)
+    expect(mediaOf(list.data.entries[0].fieldValues, 'cover')).toBeNull()
+    expect(mediaOf(list.data.entries[0].fieldValues, 'attachments')).toEqual([])
+  })
+
+  it('filters the picker library by allowed MIME types', async () => {
+    const image = await createImage('photo.png')
+    await createMedia(prisma, {
+      url: '/uploads/guide.pdf',
+      filename: 'guide.pdf',
+      size: 100,
+      mimeType: 'application/pdf',
+    })
+
+    const result = await getMedia(prisma, 1, 20, undefined, undefined, ['image/*'])
+
+    expect(result.media.map(media => media.id)).toEqual([image.id])
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Tests for media uploads, the local storage adapter and file serving
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import {
+  createLocalStorageAdapter,
+  FileTooLargeError,
+  isValidStorageKey,
+  type StorageAdapter,
+} from '../app/server/media-storage'
+import {
+  deleteMediaWithFiles,
+  getMaxUploadRequestSize,
+  serveMediaFile,
+  uploadMediaFiles,
+} from '../app/server/media-upload'
+
+const prisma = createInMemoryPrisma()
+
+describe('Media uploads', () => {
+  let directory: string
+  let storage: StorageAdapter
+
+  const formWith = (...files: File[]) => {
+    const form = new FormData()
+    files.forEach(file => form.append('file', file))
+    return form
+  }
+
+  const upload = (form: FormData | Request, uploadStorage = storage) =>
+    uploadMediaFiles(
+      prisma,
+      form instanceof Request
+        ? form
+        : new Request('http://localhost/api/media', { method: 'POST', body: form }),
+      {
+        storage: uploadStorage,
+        maxFileSize: 1024,
+        allowedMimeTypes: ['image/*', 'application/pdf'],
+      }
+    )
+
+  const fileRequest = (headers: Record<string, string> = {}) =>
+    new Request('http://localhost/api/media/files/x', { headers })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    directory = await mkdtemp(join(tmpdir(), 'tancms-media-'))
+    storage = createLocalStorageAdapter({ directory })
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('stores uploads on disk and creates Media rows', async () => {
+    const form = formWith(new File(['png-bytes'], '../My Photo.png', { type: 'image/png' }))
+    form.append('altText', 'A photo')
+
+    const response = await upload(form)
+
+    expect(response.success).toBe(true)
+    const [media] = (response.data as { media: { url: string; filename: string }[] }).media
+    expect(media).toMatchObject({ filename: 'My Photo.png', size: 9, mimeType: 'image/png' })
+    expect(media.url).toMatch(/^\/api\/media\/files\/My%20Photo-\d+-\w+\.png$/)
+
+    const [row] = await prisma.media.findMany()
+    expect(row.altText).toBe('A photo')
+    expect(await readdir(directory)).toEqual([storage.getKey(media.url)])
+  })
+
+  it('rejects disallowed types and oversized files without storing anything', async () => {
+    const response = await upload(
+      formWith(
+        new File(['<html>'], 'page.html', { type: 'text/html' }),
+        new File(['x'.repeat(2048)], 'large.png', { type: 'image/png' }),
+        new File(['ok'], 'small.png', { type: 'image/png' })
+      )
+    )
+
+    expect(response.error?.code).toBe('VALIDATION_ERROR')
+    expect(response.error?.fields).toEqual([
+      { path: 'file[0]', message: 'page.html: type text/html is not allowed' },
+      { path: 'file[1]', message: 'large.png: file exceeds 1024 bytes' },
+    ])
+    expect(await prisma.media.findMany()).toEqual([])
+    expect(await readdir(directory)).toEqual([])
+  })
+
+  it('removes the files of an upload that fails part way', async () => {
+    const failing: StorageAdapter = {
+      ...storage,
+      async save(key, body, options) {
+        if (key.startsWith('second')) throw new Error('Disk full')
+        return storage.save(key, body, options)
+      },
+    }
+
+    await expect(
+      upload(
+        formWith(
+          new File(['one'], 'first.pdf', { type: 'application/pdf' }),
+          new File(['two'], 'second.pdf', { type: 'application/pdf' })
+        ),
+        failing
+      )
+    ).rejects.toThrow('Disk full')
+    expect(await prisma.media.findMany()).toEqual([])
+    expect(await readdir(directory)).toEqual([])
+  })
+
+  it('caps request bodies without a content length while streaming', async () => {
+    const boundary = 'upload-boundary'
+    const chunk = new TextEncoder().encode('x'.repeat(64 * 1024))
+    let sent = 0
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          new TextEncoder().encode(
+            `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="big.pdf"\r\n` +
+              'Content-Type: application/pdf\r\n\r\n'
+          )
+        )
+      },
+      pull(controller) {
+        // An endless file part; only the size cap ends the upload
+        sent += chunk.length
+        controller.enqueue(chunk)
+      },
+    })
+    const request = new Request('http://localhost/api/media', {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body,
+      duplex: 'half',
+    } as RequestInit)
+
+    const response = await upload(request)
+
+    expect(response.error?.code).toBe('PAYLOAD_TOO_LARGE')
+    expect(sent).toBeLessThan(getMaxUploadRequestSize(1024) + 2 * chunk.length)
+    expect(await readdir(directory)).toEqual([])
+  })
+
+  it('rejects bodies that are not multipart', async () => {
+    const response = await upload(
+      new Request('http://localhost/api/media', { method: 'POST', body: '{}' })
+    )
+
+    expect(response.error?.code).toBe('BAD_REQUEST')
+  })
+
+  it('requires a file part', async () => {
+    const response = await upload(new FormData())
+
+    expect(response.error?.details).toEqual(["Multipart field 'file' is required"])
+  })
+
+  it('stops writing streams that exceed the size limit', async () => {
+    const body = new Blob(['x'.repeat(100)]).stream()
+
+    await expect(storage.save('big.bin', body, { maxSize: 10 })).rejects.toBeInstanceOf(
+      FileTooLargeError
+    )
+    expect(await readdir(directory)).toEqual([])
+  })
+
+  it('serves stored files with content type and caching headers', async () => {
+    const uploaded = await upload(
+      formWith(new File(['%PDF'], 'guide.pdf', { type: 'application/pdf' }))
+    )
+    const [media] = (uploaded.data as { media: { url: string }[] }).media
+    const key = storage.getKey(media.url)!
+
+    const response = await serveMediaFile(prisma, fileRequest(), key, storage)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/pdf')
+    expect(response.headers.get('content-length')).toBe('4')
+    expect(response.headers.get('cache-control')).toBe('public, max-age=31536000, immutable')
+    expect(await response.text()).toBe('%PDF')
+
+    const etag = response.headers.get('etag')!
+    const cached = await serveMediaFile(
+      prisma,
+      fileRequest({ 'If-None-Match': etag }),
+      key,
+      storage
+    )
+    expect(cached.status).toBe(304)
+  })
+
+  it('returns 404 for unknown keys and keys outside the storage directory', async () => {
+    const unknown = await serveMediaFile(prisma, fileRequest(), 'missing.png', storage)
+    const traversal = await serveMediaFile(prisma, fileRequest(), '../secret', storage)
+
+    expect(unknown.status).toBe(404)
+    expect(traversal.status).toBe(404)
+    expect(isValidStorageKey('../secret')).toBe(false)
+    expect(isValidStorageKey('.env')).toBe(false)
+    expect(isValidStorageKey('photo.png')).toBe(true)
+  })
+
+  it('deletes Media rows together with their files', async () => {
+    const uploaded = await upload(formWith(new File(['a'], 'a.png', { type: 'image/png' })))
+    const [media] = (uploaded.data as { media: { id: string }[] }).media
+
+    expect(await deleteMediaWithFiles(prisma, [media.id], storage)).toBe(1)
+    expect(await prisma.media.findMany()).toEqual([])
+    expect(await readdir(directory)).toEqual([])
+  })
+})
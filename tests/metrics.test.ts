@@ -0,0 +1,141 @@
+/**
+ * Tests for the Prometheus metrics endpoint and the metrics recorded by the API layer
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentEntry, createContentType } from '../app/server/content-type-utils'
+import {
+  getRouteLabel,
+  isMetricsTokenValid,
+  recordDbQuery,
+  renderMetrics,
+  resetMetrics,
+} from '../app/server/metrics'
+import { createRateLimitMiddleware } from '../app/server/security-headers'
+import { loginTracker } from '../app/server/security-auth'
+import { createComprehensiveCSRFProtection } from '../app/lib/security/csrf'
+import { configureApiManager } from '../app/lib/api-manager'
+import { GET as metricsRouteGET } from '../app/routes/api/metrics'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+describe('Metrics', () => {
+  beforeEach(async () => {
+    prisma.$reset()
+    resetMetrics()
+    const blogPost = await createContentType(prisma, {
+      name: 'blog-post',
+      displayName: 'Blog Post',
+      fields: [{ name: 'title', displayName: 'Title', fieldType: 'TEXT' }],
+    })
+    await createContentEntry(prisma, {
+      contentTypeId: blogPost.id,
+      fieldValues: [{ fieldId: blogPost.fields[0].id, value: 'Hello' }],
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('counts API requests and their latency by route, method and status', async () => {
+    const manager = configureApiManager({ enableLogging: false })
+    await manager.get('/api/blog-post')
+    await manager.get('/api/blog-post')
+    await manager.get('/api/blog-post/missing')
+
+    const metrics = await renderMetrics(prisma)
+    expect(metrics).toContain('# TYPE tancms_api_requests_total counter')
+    expect(metrics).toContain(
+      'tancms_api_requests_total{route="/api/:contentType",method="GET",status="200"} 2'
+    )
+    expect(metrics).toContain(
+      'tancms_api_requests_total{route="/api/:contentType/:id",method="GET",status="404"} 1'
+    )
+    expect(metrics).toContain('# TYPE tancms_api_request_duration_seconds histogram')
+    expect(metrics).toContain(
+      'tancms_api_request_duration_seconds_bucket{route="/api/:contentType",method="GET",status="200",le="+Inf"} 2'
+    )
+    expect(metrics).toContain(
+      'tancms_api_request_duration_seconds_count{route="/api/:contentType",method="GET",status="200"} 2'
+    )
+  })
+
+  it('counts security rejections and login failures', async () => {
+    const rateLimiter = createRateLimitMiddleware({ windowMs: 60_000, maxRequests: 1 })
+    const request = () =>
+      new Request('http://localhost/api/blog-post', { headers: { 'x-real-ip': '10.0.0.1' } })
+    expect(rateLimiter(request())).toBeNull()
+    expect(rateLimiter(request())?.status).toBe(429)
+
+    const csrfProtection = createComprehensiveCSRFProtection()
+    const post = csrfProtection(
+      new Request('http://localhost/api/blog-post', {
+        method: 'POST',
+        headers: { origin: 'https://attacker.example.com' },
+      })
+    )
+    expect(post.response?.status).toBe(403)
+
+    loginTracker.recordAttempt('user@example.com', '10.0.0.1', false)
+    loginTracker.recordAttempt('user@example.com', '10.0.0.1', true)
+    loginTracker.clearAttempts('user@example.com', '10.0.0.1')
+
+    const metrics = await renderMetrics(prisma)
+    expect(metrics).toContain('tancms_rate_limit_rejections_total 1')
+    expect(metrics).toContain('tancms_csrf_rejections_total{reason="origin"} 1')
+    expect(metrics).toContain('tancms_login_failures_total 1')
+  })
+
+  it('reports database query latency and entries per content type', async () => {
+    recordDbQuery('ContentEntry', 'findMany', 30)
+    recordDbQuery(undefined, '$queryRawUnsafe', 2)
+
+    const metrics = await renderMetrics(prisma)
+    expect(metrics).toContain(
+      'tancms_db_query_duration_seconds_bucket{model="ContentEntry",operation="findMany",le="0.025"} 0'
+    )
+    expect(metrics).toContain(
+      'tancms_db_query_duration_seconds_bucket{model="ContentEntry",operation="findMany",le="0.05"} 1'
+    )
+    expect(metrics).toContain(
+      'tancms_db_query_duration_seconds_count{model="raw",operation="$queryRawUnsafe"} 1'
+    )
+    expect(metrics).toContain('# TYPE tancms_content_entries gauge')
+    expect(metrics).toContain('tancms_content_entries{content_type="blog-post"} 1')
+  })
+
+  it('keeps route labels bounded', () => {
+    expect(getRouteLabel('/api/graphql')).toBe('/api/graphql')
+    expect(getRouteLabel('/api/products')).toBe('/api/:contentType')
+    expect(getRouteLabel('/api/products/abc123')).toBe('/api/:contentType/:id')
+    expect(getRouteLabel('/api/products/abc123/extra')).toBe('other')
+  })
+
+  it('serves metrics only with the metrics token', async () => {
+    const scrape = (authorization?: string) =>
+      metricsRouteGET(
+        new Request('http://localhost/api/metrics', {
+          headers: authorization ? { authorization } : {},
+        })
+      )
+
+    vi.stubEnv('METRICS_TOKEN', '')
+    expect((await scrape('Bearer secret')).status).toBe(404)
+
+    vi.stubEnv('METRICS_TOKEN', 'secret')
+    expect((await scrape()).status).toBe(401)
+    expect((await scrape('Bearer wrong')).status).toBe(401)
+    expect(isMetricsTokenValid('secret')).toBe(false)
+
+    const response = await scrape('Bearer secret')
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8')
+    expect(await response.text()).toContain('tancms_content_entries{content_type="blog-post"} 1')
+  })
+})
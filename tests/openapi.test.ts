@@ -0,0 +1,146 @@
+/**
+ * Tests for the OpenAPI document generated from content types
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentType } from '../app/server/content-type-utils'
+import { generateOpenApiDocument, type OpenApiDocument } from '../app/server/openapi'
+import { API_ERROR_CODES } from '../app/lib/api-response'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type FieldRow = { id: string; name: string }
+type Schema = Record<string, unknown>
+
+describe('OpenAPI document', () => {
+  let document: OpenApiDocument
+  let fieldId: Record<string, string>
+
+  const schema = (name: string) => document.components.schemas[name] as Schema
+  const valueSchema = (field: string) => {
+    const items = schema('BlogPostFieldValueInput').oneOf as {
+      properties: { fieldId: { const: string }; value: Schema }
+    }[]
+    return items.find(item => item.properties.fieldId.const === fieldId[field])!.properties.value
+  }
+
+  beforeEach(async () => {
+    prisma.$reset()
+    await createContentType(prisma, {
+      name: 'author',
+      displayName: 'Author',
+      fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT' }],
+    })
+    const postType = await createContentType(prisma, {
+      name: 'blog-post',
+      displayName: 'Blog Post',
+      fields: [
+        {
+          name: 'title',
+          displayName: 'Title',
+          fieldType: 'TEXT',
+          required: true,
+          options: { validation: { minLength: 3, maxLength: 80 } },
+          order: 0,
+        },
+        {
+          name: 'views',
+          displayName: 'Views',
+          fieldType: 'NUMBER',
+          options: { validation: { min: 0 } },
+          order: 1,
+        },
+        { name: 'published', displayName: 'Published', fieldType: 'DATE', order: 2 },
+        {
+          name: 'tags',
+          displayName: 'Tags',
+          fieldType: 'RELATION',
+          relatedType: 'author',
+          options: { relationKind: 'manyToMany' },
+          order: 3,
+        },
+        { name: 'cover', displayName: 'Cover', fieldType: 'MEDIA', order: 4 },
+      ],
+    })
+    await createContentType(prisma, { name: 'search', displayName: 'Search', fields: [] })
+    fieldId = Object.fromEntries(postType.fields.map((field: FieldRow) => [field.name, field.id]))
+
+    document = await generateOpenApiDocument(prisma, { serverUrl: 'https://cms.example.com' })
+  })
+
+  it('describes every content type endpoint with operation IDs', () => {
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.servers).toEqual([{ url: 'https://cms.example.com' }])
+
+    const operationIds = Object.values(document.paths['/api/blog-post/{id}']).map(
+      operation => operation.operationId
+    )
+    expect(operationIds).toEqual(['getBlogPost', 'updateBlogPost', 'deleteBlogPost'])
+    expect(document.paths['/api/blog-post'].get.operationId).toBe('listBlogPost')
+    expect(document.paths['/api/blog-post'].post.operationId).toBe('createBlogPost')
+    expect(document.paths['/api/blog-post/search'].get.operationId).toBe('searchBlogPost')
+    expect(
+      document.paths['/api/blog-post/{id}/revisions/{revisionId}/restore'].post.operationId
+    ).toBe('restoreBlogPostRevision')
+    expect(document.paths['/api/author']).toBeDefined()
+
+    const allIds = Object.values(document.paths).flatMap(operations =>
+      Object.values(operations).map(operation => operation.operationId)
+    )
+    expect(new Set(allIds).size).toBe(allIds.length)
+  })
+
+  it('derives value schemas from field types and validation rules', () => {
+    expect(valueSchema('title')).toEqual({ type: 'string', minLength: 3, maxLength: 80 })
+    expect(valueSchema('views')).toEqual({ type: 'number', minimum: 0 })
+    expect(valueSchema('published')).toEqual({ type: 'string', format: 'date-time' })
+    expect(valueSchema('tags')).toMatchObject({ type: 'array', items: { type: 'string' } })
+    expect(valueSchema('cover')).toMatchObject({ type: 'string' })
+  })
+
+  it('requires required fields when creating entries', () => {
+    const createInput = schema('BlogPostCreateInput') as {
+      properties: { fieldValues: { allOf: { contains: Schema }[] } }
+    }
+
+    expect(createInput.properties.fieldValues.allOf).toEqual([
+      {
+        contains: {
+          type: 'object',
+          required: ['fieldId'],
+          properties: { fieldId: { const: fieldId.title } },
+        },
+      },
+    ])
+  })
+
+  it('documents error codes and auth schemes', () => {
+    expect(schema('ApiErrorCode').enum).toEqual([...API_ERROR_CODES])
+    expect(Object.keys(document.components.responses)).toContain('Conflict')
+    expect(document.paths['/api/blog-post/{id}'].delete.responses['409']).toEqual({
+      $ref: '#/components/responses/Conflict',
+    })
+    expect(document.components.securitySchemes.bearerAuth).toMatchObject({
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+    })
+    expect(document.components.securitySchemes.apiKey).toMatchObject({
+      type: 'apiKey',
+      in: 'header',
+      name: 'X-API-Key',
+    })
+    expect(document.paths['/api/status'].get.security).toEqual([])
+  })
+
+  it('skips content types shadowed by built-in endpoints', () => {
+    expect(document.tags.map(tag => tag.name)).not.toContain('Search')
+    expect(document.paths['/api/search'].get.operationId).toBe('search')
+    expect(document.components.schemas.SearchEntry).toBeUndefined()
+  })
+})
@@ -0,0 +1,371 @@
+/**
+ * Tests for roles and permissions: defaults, database-defined roles, users with several roles,
+ * content type overrides, ownership rules and their enforcement in the REST and GraphQL APIs
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import { createContentEntry, createContentType } from '../app/server/content-type-utils'
+import { createUser as registerUser } from '../app/server/auth'
+import { generateAccessToken, verifyToken } from '../app/server/jwt-auth'
+import { requirePermission } from '../app/server/permissions'
+import {
+  createRole,
+  deleteRole,
+  listRoles,
+  listUserRoles,
+  resetRolePermissions,
+  resolveUserAccess,
+  setUserRoles,
+  updateRole,
+} from '../app/server/roles'
+import { configureApiManager } from '../app/lib/api-manager'
+import {
+  DEFAULT_PERMISSIONS,
+  getPermissionScope,
+  isActionAllowed,
+  mergePermissions,
+} from '../app/lib/permissions'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type Role = 'ADMIN' | 'EDITOR' | 'AUTHOR' | 'VIEWER'
+
+describe('Roles and permissions', () => {
+  const manager = configureApiManager({ enableAuth: true, enableLogging: false })
+  let blogPostId: string
+  let titleFieldId: string
+  let roleIds: Record<Role, string>
+
+  // A user with the role the migration creates from their built-in role
+  const createUser = async (role: Role, email = `${role.toLowerCase()}@example.com`) => {
+    const user = await prisma.user.create({ data: { email, password: 'hash', role } })
+    await setUserRoles(prisma, user.id, [roleIds[role]])
+    const authUser = {
+      id: user.id,
+      email: user.email,
+      name: null,
+      role,
+      ...(await resolveUserAccess(prisma, { id: user.id, role })),
+    }
+    return { ...authUser, headers: { Authorization: `Bearer ${generateAccessToken(authUser)}` } }
+  }
+
+  const createPost = (authorId: string | null) =>
+    createContentEntry(prisma, {
+      contentTypeId: blogPostId,
+      authorId,
+      fieldValues: [{ fieldId: titleFieldId, value: 'Hello' }],
+    })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    const blogPost = await createContentType(prisma, {
+      name: 'blog-post',
+      displayName: 'Blog Post',
+      fields: [{ name: 'title', displayName: 'Title', fieldType: 'TEXT' }],
+    })
+    blogPostId = blogPost.id
+    titleFieldId = blogPost.fields[0].id
+    await createContentType(prisma, {
+      name: 'product',
+      displayName: 'Product',
+      fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT' }],
+    })
+
+    // The roles the migration creates from the built-in roles
+    roleIds = {} as Record<Role, string>
+    for (const [baseRole, name] of [
+      ['ADMIN', 'Admin'],
+      ['EDITOR', 'Editor'],
+      ['AUTHOR', 'Author'],
+      ['VIEWER', 'Viewer'],
+    ] as const) {
+      roleIds[baseRole] = (await prisma.customRole.create({ data: { name, baseRole } })).id
+    }
+  })
+
+  it('uses the default permissions until a role is edited', async () => {
+    const roles = await listRoles(prisma)
+    expect(roles.map(role => [role.name, role.permissions])).toEqual([
+      ['Admin', DEFAULT_PERMISSIONS.ADMIN],
+      ['Editor', DEFAULT_PERMISSIONS.EDITOR],
+      ['Author', DEFAULT_PERMISSIONS.AUTHOR],
+      ['Viewer', DEFAULT_PERMISSIONS.VIEWER],
+    ])
+
+    const author = DEFAULT_PERMISSIONS.AUTHOR
+    expect(getPermissionScope(author, 'entry.update', 'blog-post')).toBe('own')
+    expect(getPermissionScope(author, 'entry.publish', 'blog-post')).toBe('none')
+    expect(isActionAllowed(author, 'u1', 'entry.update', { authorId: 'u1' })).toBe(true)
+    expect(isActionAllowed(author, 'u1', 'entry.update', { authorId: 'u2' })).toBe(false)
+    expect(isActionAllowed(author, 'u1', 'entry.update', { authorId: null })).toBe(false)
+
+    const user = await createUser('AUTHOR')
+    expect(user.roles).toEqual(['Author'])
+    expect(user.permissions).toEqual(DEFAULT_PERMISSIONS.AUTHOR)
+  })
+
+  it('revokes every permission when the roles of a user are removed', async () => {
+    const editor = await createUser('EDITOR')
+    const admin = await createUser('ADMIN')
+    const entry = await createPost(null)
+    await setUserRoles(prisma, editor.id, [])
+    await setUserRoles(prisma, admin.id, [])
+
+    expect(await resolveUserAccess(prisma, editor)).toEqual({ roles: [], permissions: {} })
+    expect((await resolveUserAccess(prisma, admin)).permissions).toEqual(DEFAULT_PERMISSIONS.ADMIN)
+
+    const response = await manager.handleRequest({
+      method: 'PUT',
+      path: `/api/blog-post/${entry.id}`,
+      headers: editor.headers,
+      body: { fieldValues: [{ fieldId: titleFieldId, value: 'Edited' }] },
+    })
+    expect(response.error?.code).toBe('AUTHORIZATION_FAILED')
+  })
+
+  it('validates and stores roles', async () => {
+    await expect(createRole(prisma, { name: ' ' })).rejects.toThrow('Role name is required')
+    await expect(createRole(prisma, { name: 'Editor' })).rejects.toThrow(
+      'A role named "Editor" already exists'
+    )
+    await expect(createRole(prisma, { name: 'EDITOR' })).rejects.toThrow(
+      '"EDITOR" is the name of a built-in role'
+    )
+    await expect(
+      createRole(prisma, {
+        name: 'Archivist',
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        permissions: { 'entry.archive': { '*': 'all' } } as any,
+      })
+    ).rejects.toThrow('Unknown permission: entry.archive')
+    await expect(
+      updateRole(prisma, roleIds.EDITOR, { permissions: { 'entry.read': { '*': 'own' } } })
+    ).rejects.toThrow('entry.read cannot be limited to own entries')
+    await expect(
+      updateRole(prisma, roleIds.EDITOR, {
+        permissions: { 'media.upload': { 'blog-post': 'all' } },
+      })
+    ).rejects.toThrow('media.upload does not apply to a content type')
+    await expect(updateRole(prisma, roleIds.ADMIN, { permissions: {} })).rejects.toThrow(
+      'The permissions of the Admin role cannot be changed'
+    )
+    await expect(deleteRole(prisma, roleIds.ADMIN)).rejects.toThrow(
+      'The Admin role cannot be deleted'
+    )
+
+    const translator = await createRole(prisma, {
+      name: ' Translator ',
+      description: 'Edits the text of existing entries',
+      permissions: { 'entry.read': { '*': 'all' }, 'entry.update': { 'blog-post': 'all' } },
+    })
+    expect(translator).toMatchObject({ name: 'Translator', baseRole: null, userCount: 0 })
+    expect(getPermissionScope(translator.permissions, 'entry.update', 'blog-post')).toBe('all')
+    expect(getPermissionScope(translator.permissions, 'entry.update', 'product')).toBe('none')
+    await expect(resetRolePermissions(prisma, translator.id)).rejects.toThrow(
+      'The Translator role has no default permissions'
+    )
+
+    const viewer = await updateRole(prisma, roleIds.VIEWER, { permissions: {} })
+    expect(getPermissionScope(viewer.permissions, 'entry.read')).toBe('none')
+    expect((await resetRolePermissions(prisma, roleIds.VIEWER)).permissions).toEqual(
+      DEFAULT_PERMISSIONS.VIEWER
+    )
+
+    await deleteRole(prisma, translator.id)
+    expect((await listRoles(prisma)).map(role => role.name)).not.toContain('Translator')
+  })
+
+  it('combines the permissions of all roles of a user', async () => {
+    expect(
+      mergePermissions([
+        { 'entry.update': { '*': 'own', product: 'none' } },
+        { 'entry.update': { product: 'all' }, 'media.upload': { '*': 'all' } },
+      ])
+    ).toEqual({
+      'entry.update': { '*': 'own', product: 'all' },
+      'media.upload': { '*': 'all' },
+    })
+
+    const user = await createUser('VIEWER')
+    const translator = await createRole(prisma, {
+      name: 'Translator',
+      permissions: { 'entry.update': { 'blog-post': 'all' } },
+    })
+    await setUserRoles(prisma, user.id, [roleIds.VIEWER, translator.id, translator.id])
+
+    const access = await resolveUserAccess(prisma, user)
+    expect(access.roles).toEqual(['Translator', 'Viewer'])
+    expect(
+      isActionAllowed(access.permissions, user.id, 'entry.read', { contentType: 'product' })
+    ).toBe(true)
+    expect(
+      isActionAllowed(access.permissions, user.id, 'entry.update', { contentType: 'blog-post' })
+    ).toBe(true)
+    expect(
+      isActionAllowed(access.permissions, user.id, 'entry.update', { contentType: 'product' })
+    ).toBe(false)
+
+    expect((await listUserRoles(prisma)).find(entry => entry.id === user.id)?.roleIds).toEqual([
+      roleIds.VIEWER,
+      translator.id,
+    ])
+    await expect(setUserRoles(prisma, user.id, ['missing'])).rejects.toThrow('Role not found')
+
+    await deleteRole(prisma, translator.id)
+    expect((await resolveUserAccess(prisma, user)).roles).toEqual(['Viewer'])
+  })
+
+  it('gives new users the role of their built-in role', async () => {
+    const user = await registerUser('new@example.com', 'password123', 'New', 'AUTHOR')
+    expect(user.roles).toEqual(['Author'])
+    expect(user.permissions).toEqual(DEFAULT_PERMISSIONS.AUTHOR)
+
+    const payload = verifyToken(generateAccessToken(user))
+    expect(payload).toMatchObject({ role: 'AUTHOR', roles: ['Author'] })
+    expect(payload?.permissions).toEqual(DEFAULT_PERMISSIONS.AUTHOR)
+  })
+
+  it('explains denied server function permissions', async () => {
+    const author = await createUser('AUTHOR')
+
+    expect(() =>
+      requirePermission(author, 'entry.update', {
+        contentType: 'blog-post',
+        authorId: 'someone-else',
+      })
+    ).toThrow('Insufficient permissions: Author can only edit entries of "blog-post" they authored')
+    expect(() =>
+      requirePermission(author, 'entry.publish', {
+        contentType: 'blog-post',
+        authorId: author.id,
+      })
+    ).toThrow('Insufficient permissions: Author cannot publish entries of "blog-post"')
+    expect(() =>
+      requirePermission(author, 'entry.update', {
+        contentType: 'blog-post',
+        authorId: author.id,
+      })
+    ).not.toThrow()
+  })
+
+  it('lets authors edit and delete only their own entries over REST', async () => {
+    const author = await createUser('AUTHOR')
+    const other = await createUser('AUTHOR', 'other@example.com')
+    const own = await createPost(author.id)
+    const foreign = await createPost(other.id)
+    const update = (id: string) =>
+      manager.handleRequest({
+        method: 'PUT',
+        path: `/api/blog-post/${id}`,
+        headers: author.headers,
+        body: { fieldValues: [{ fieldId: titleFieldId, value: 'Edited' }] },
+      })
+
+    expect((await update(own.id)).success).toBe(true)
+
+    const denied = await update(foreign.id)
+    expect(denied.error?.code).toBe('AUTHORIZATION_FAILED')
+    expect(denied.message).toBe(
+      'The update operation of "blog-post" is limited to entries you authored'
+    )
+
+    const remove = await manager.handleRequest({
+      method: 'DELETE',
+      path: `/api/blog-post/${foreign.id}`,
+      headers: author.headers,
+    })
+    expect(remove.error?.code).toBe('AUTHORIZATION_FAILED')
+    expect(await prisma.contentEntry.findUnique({ where: { id: foreign.id } })).not.toBeNull()
+
+    const missing = await manager.handleRequest({
+      method: 'DELETE',
+      path: '/api/blog-post/missing',
+      headers: author.headers,
+    })
+    expect(missing.error?.code).toBe('NOT_FOUND')
+  })
+
+  it('records the signed-in user as author of entries created over REST', async () => {
+    const author = await createUser('AUTHOR')
+
+    const created = await manager.handleRequest({
+      method: 'POST',
+      path: '/api/blog-post',
+      headers: author.headers,
+      body: { fieldValues: [{ fieldId: titleFieldId, value: 'Mine' }] },
+    })
+    expect(created.success).toBe(true)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const entryId = (created.data as any).entry.id
+    expect((await prisma.contentEntry.findUnique({ where: { id: entryId } }))?.authorId).toBe(
+      author.id
+    )
+  })
+
+  it('applies role changes and content type overrides to API requests', async () => {
+    const viewer = await createUser('VIEWER')
+    const post = (path: string) =>
+      manager.handleRequest({
+        method: 'POST',
+        path,
+        headers: viewer.headers,
+        body: { fieldValues: [] },
+      })
+
+    const denied = await post('/api/blog-post')
+    expect(denied.error?.code).toBe('AUTHORIZATION_FAILED')
+    expect(denied.message).toBe('Your roles do not grant the create operation of "blog-post"')
+
+    // The token issued before the change keeps working with the new permissions
+    const blogger = await createRole(prisma, {
+      name: 'Blogger',
+      permissions: {
+        'entry.read': { '*': 'all', product: 'none' },
+        'entry.create': { 'blog-post': 'all' },
+      },
+    })
+    await setUserRoles(prisma, viewer.id, [blogger.id])
+    expect((await post('/api/blog-post')).success).toBe(true)
+    expect((await post('/api/product')).error?.code).toBe('AUTHORIZATION_FAILED')
+    expect(
+      (
+        await manager.handleRequest({
+          method: 'GET',
+          path: '/api/product',
+          headers: viewer.headers,
+        })
+      ).error?.code
+    ).toBe('AUTHORIZATION_FAILED')
+  })
+
+  it('enforces ownership in GraphQL mutations', async () => {
+    const author = await createUser('AUTHOR')
+    const editor = await createUser('EDITOR')
+    const entry = await createPost(editor.id)
+    const deletePost = (headers: Record<string, string>) =>
+      manager.handleRequest({
+        method: 'POST',
+        path: '/api/graphql',
+        headers,
+        body: { query: `mutation { deleteBlogPost(id: "${entry.id}") }` },
+      })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const denied = (await deletePost(author.headers)).data as any
+    expect(denied.errors[0]).toMatchObject({
+      path: ['deleteBlogPost'],
+      extensions: { code: 'AUTHORIZATION_FAILED' },
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const deleted = (await deletePost(editor.headers)).data as any
+    expect(deleted.data).toEqual({ deleteBlogPost: entry.id })
+  })
+})
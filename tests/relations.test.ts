@@ -0,0 +1,286 @@
+/**
+ * Tests for relation fields: referential checks, delete behavior and population
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import {
+  createContentType,
+  createContentEntry,
+  updateContentEntry,
+  deleteContentEntry,
+  getContentEntryById,
+} from '../app/server/content-type-utils'
+import { FieldValidationError } from '../app/server/field-validation'
+import {
+  parsePopulate,
+  RelationConstraintError,
+  searchRelationTargets,
+} from '../app/server/relation-utils'
+import { parseRelationValue } from '../app/lib/relations'
+import { createApiKey } from '../app/server/api-keys'
+import { api } from '../app/lib/api-manager'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type FieldRow = { id: string; name: string }
+
+describe('Relation fields', () => {
+  let authorType: { id: string; slug: string; fields: FieldRow[] }
+  let postType: { id: string; slug: string; fields: FieldRow[] }
+  let fieldId: Record<string, string>
+
+  const createAuthor = (name: string) =>
+    createContentEntry(prisma, {
+      contentTypeId: authorType.id,
+      fieldValues: [{ fieldId: fieldId.name, value: name }],
+    })
+
+  const createPost = (values: Record<string, unknown>) =>
+    createContentEntry(prisma, {
+      contentTypeId: postType.id,
+      fieldValues: [
+        { fieldId: fieldId.title, value: 'Post' },
+        ...Object.entries(values).map(([name, value]) => ({ fieldId: fieldId[name], value })),
+      ],
+    })
+
+  const valueOf = async (entryId: string, name: string) => {
+    const entry = await getContentEntryById(prisma, entryId)
+    return entry.fieldValues.find((fv: { fieldId: string }) => fv.fieldId === fieldId[name])?.value
+  }
+
+  const relationField = (name: string, options: Record<string, string>) => ({
+    name,
+    displayName: name[0].toUpperCase() + name.slice(1),
+    fieldType: 'RELATION' as const,
+    relatedType: 'author',
+    options,
+  })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    authorType = await createContentType(prisma, {
+      name: 'author',
+      displayName: 'Author',
+      fields: [{ name: 'name', displayName: 'Name', fieldType: 'TEXT', order: 0 }],
+    })
+    postType = await createContentType(prisma, {
+      name: 'post',
+      displayName: 'Post',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT', order: 0 },
+        relationField('author', { relationKind: 'manyToOne', relationOnDelete: 'nullify' }),
+        relationField('editors', { relationKind: 'manyToMany', relationOnDelete: 'nullify' }),
+        relationField('owner', { relationKind: 'oneToOne', relationOnDelete: 'cascade' }),
+        relationField('reviewer', { relationKind: 'manyToOne', relationOnDelete: 'restrict' }),
+      ],
+    })
+    fieldId = Object.fromEntries(
+      [...authorType.fields, ...postType.fields].map(field => [field.name, field.id])
+    )
+  })
+
+  describe('writes', () => {
+    it('normalizes single and multiple relation values', async () => {
+      const ada = await createAuthor('Ada')
+      const alan = await createAuthor('Alan')
+
+      const post = await createPost({ author: ada.id, editors: [ada.id, alan.id] })
+
+      expect(await valueOf(post.id, 'author')).toBe(ada.id)
+      expect(parseRelationValue(await valueOf(post.id, 'editors'))).toEqual([ada.id, alan.id])
+    })
+
+    it('rejects missing entries and entries of another content type', async () => {
+      const other = await createPost({})
+
+      const error = await createPost({ author: other.id, editors: ['missing'] }).catch(e => e)
+
+      expect(error).toBeInstanceOf(FieldValidationError)
+      expect(error.fields.map((field: { path: string }) => field.path)).toEqual([
+        'fieldValues.author',
+        'fieldValues.editors',
+      ])
+      expect(error.fields[1].message).toBe(
+        "Field 'Editors' references missing Author entries: missing"
+      )
+    })
+
+    it('rejects several entries for a single relation', async () => {
+      const ada = await createAuthor('Ada')
+      const alan = await createAuthor('Alan')
+
+      await expect(createPost({ author: [ada.id, alan.id] })).rejects.toThrow(
+        "Field 'Author' accepts a single related entry"
+      )
+    })
+
+    it('links an entry from only one entry through a one-to-one field', async () => {
+      const ada = await createAuthor('Ada')
+      const first = await createPost({ owner: ada.id })
+
+      await expect(createPost({ owner: ada.id })).rejects.toThrow(
+        'entries already linked from another entry'
+      )
+      // Saving the linking entry again is fine
+      await updateContentEntry(prisma, first.id, {
+        fieldValues: [
+          { fieldId: fieldId.title, value: 'Renamed' },
+          { fieldId: fieldId.owner, value: ada.id },
+        ],
+      })
+    })
+  })
+
+  describe('deletes', () => {
+    it('removes nullify links from the linking entries', async () => {
+      const ada = await createAuthor('Ada')
+      const alan = await createAuthor('Alan')
+      const post = await createPost({ author: ada.id, editors: [ada.id, alan.id] })
+
+      await deleteContentEntry(prisma, ada.id)
+
+      expect(await valueOf(post.id, 'author')).toBe('')
+      expect(parseRelationValue(await valueOf(post.id, 'editors'))).toEqual([alan.id])
+    })
+
+    it('deletes entries linked through cascade fields', async () => {
+      const ada = await createAuthor('Ada')
+      const post = await createPost({ owner: ada.id })
+
+      await deleteContentEntry(prisma, ada.id)
+
+      expect(await getContentEntryById(prisma, post.id)).toBeNull()
+    })
+
+    it('refuses to delete entries linked through restrict fields', async () => {
+      const ada = await createAuthor('Ada')
+      const post = await createPost({ reviewer: ada.id })
+
+      const error = await deleteContentEntry(prisma, ada.id).catch(e => e)
+
+      expect(error).toBeInstanceOf(RelationConstraintError)
+      expect(error.referencingEntryIds).toEqual([post.id])
+      expect(await getContentEntryById(prisma, ada.id)).not.toBeNull()
+    })
+
+    it('returns CONFLICT from the REST endpoint for restricted deletes', async () => {
+      const ada = await createAuthor('Ada')
+      await createPost({ reviewer: ada.id })
+      const { key } = await createApiKey(prisma, { name: 'Editor', scopes: ['*:write'] })
+
+      const response = await api.deleteEntry(authorType.slug, ada.id, { 'x-api-key': key })
+
+      expect(response.success).toBe(false)
+      expect(response.error?.code).toBe('CONFLICT')
+    })
+
+    it('refuses to remove the last link of a required nullify field', async () => {
+      const reviewType = await createContentType(prisma, {
+        name: 'review',
+        displayName: 'Review',
+        fields: [
+          {
+            ...relationField('subjects', {
+              relationKind: 'manyToMany',
+              relationOnDelete: 'nullify',
+            }),
+            required: true,
+          },
+        ],
+      })
+      const ada = await createAuthor('Ada')
+      const alan = await createAuthor('Alan')
+      const review = await createContentEntry(prisma, {
+        contentTypeId: reviewType.id,
+        fieldValues: [{ fieldId: reviewType.fields[0].id, value: [ada.id, alan.id] }],
+      })
+
+      await deleteContentEntry(prisma, ada.id)
+      const error = await deleteContentEntry(prisma, alan.id).catch(e => e)
+
+      expect(error).toBeInstanceOf(RelationConstraintError)
+      expect(error.referencingEntryIds).toEqual([review.id])
+      expect(await getContentEntryById(prisma, alan.id)).not.toBeNull()
+    })
+
+    it('checks delete access to the entries a cascade deletes', async () => {
+      const ada = await createAuthor('Ada')
+      const post = await createPost({ owner: ada.id })
+      const { key } = await createApiKey(prisma, { name: 'Authors', scopes: ['author:write'] })
+
+      const response = await api.deleteEntry(authorType.slug, ada.id, { 'x-api-key': key })
+
+      expect(response.error?.code).toBe('AUTHORIZATION_FAILED')
+      expect(response.message).toBe(
+        'Deleting would also delete linked entries of post that you may not delete'
+      )
+      expect(await getContentEntryById(prisma, ada.id)).not.toBeNull()
+      expect(await getContentEntryById(prisma, post.id)).not.toBeNull()
+    })
+  })
+
+  describe('populate', () => {
+    it('embeds related entries on list and get', async () => {
+      const ada = await createAuthor('Ada')
+      const alan = await createAuthor('Alan')
+      const post = await createPost({ author: ada.id, editors: [alan.id] })
+      const { key } = await createApiKey(prisma, { name: 'Reader', scopes: ['*:read'] })
+      const headers = { 'x-api-key': key }
+
+      const list = await api.listEntries(postType.slug, { populate: 'author,editors' }, headers)
+      const [entry] = list.data.entries
+      expect(entry.populated.author.id).toBe(ada.id)
+      expect(entry.populated.editors.map((editor: { id: string }) => editor.id)).toEqual([alan.id])
+
+      const single = await api.getEntry(postType.slug, post.id, { populate: '*' }, headers)
+      expect(Object.keys(single.data.entry.populated).sort()).toEqual([
+        'author',
+        'editors',
+        'owner',
+        'reviewer',
+      ])
+      expect(single.data.entry.populated.owner).toBeNull()
+    })
+
+    it('leaves unpublished related entries out for anonymous callers', async () => {
+      const ada = await createAuthor('Ada')
+      const alan = await createAuthor('Alan')
+      const post = await createPost({ author: ada.id, editors: [ada.id, alan.id] })
+      for (const id of [alan.id, post.id]) {
+        await prisma.contentEntry.update({ where: { id }, data: { status: 'PUBLISHED' } })
+      }
+
+      const single = await api.getEntry(postType.slug, post.id, { populate: 'author,editors' })
+
+      expect(single.data.entry.populated.author).toBeNull()
+      expect(
+        single.data.entry.populated.editors.map((editor: { id: string }) => editor.id)
+      ).toEqual([alan.id])
+    })
+
+    it('rejects unknown fields and paths deeper than the limit', async () => {
+      const unknown = await api.listEntries(postType.slug, { populate: 'author.posts' })
+      expect(unknown.error?.code).toBe('VALIDATION_ERROR')
+      expect(unknown.error?.details).toEqual(["'author.posts' is not a relation field of Author"])
+
+      expect(parsePopulate('a.b.c.d')).toEqual({
+        errors: ["Populate path 'a.b.c.d' is deeper than the limit of 3"],
+      })
+    })
+  })
+
+  it('searches entries of the related type for the picker', async () => {
+    const ada = await createAuthor('Ada Lovelace')
+    await createAuthor('Alan Turing')
+
+    const results = await searchRelationTargets(prisma, 'author', { search: 'Love' })
+
+    expect(results).toEqual([{ id: ada.id, label: 'Ada Lovelace', status: 'DRAFT' }])
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Tests for content entry revision history
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '../app/server/db'
+import {
+  createContentType,
+  createContentEntry,
+  updateContentEntry,
+  publishContentEntry,
+} from '../app/server/content-type-utils'
+import { getEntryRevisions, restoreEntryRevision } from '../app/server/revision-utils'
+import { createApiKey } from '../app/server/api-keys'
+import { api } from '../app/lib/api-manager'
+import { diffRevision } from '../app/lib/revision-diff'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+describe('Entry revisions', () => {
+  let contentType: Awaited<ReturnType<typeof createContentType>>
+  let titleId: string
+  let bodyId: string
+
+  const fieldValues = (title: string, body = '') => [
+    { fieldId: titleId, value: title },
+    { fieldId: bodyId, value: body },
+  ]
+
+  beforeEach(async () => {
+    prisma.$reset()
+    contentType = await createContentType(prisma, {
+      name: 'page',
+      displayName: 'Page',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT', required: true, order: 0 },
+        { name: 'body', displayName: 'Body', fieldType: 'TEXTAREA', order: 1 },
+      ],
+    })
+    ;[titleId, bodyId] = contentType.fields.map((field: { id: string }) => field.id)
+  })
+
+  it('records a numbered snapshot on every save', async () => {
+    const entry = await createContentEntry(prisma, {
+      contentTypeId: contentType.id,
+      slug: 'about',
+      fieldValues: fieldValues('About'),
+    })
+    await updateContentEntry(prisma, entry.id, { fieldValues: fieldValues('About us', 'Hi') })
+    await publishContentEntry(prisma, entry.id)
+
+    const revisions = await getEntryRevisions(prisma, entry.id)
+
+    expect(revisions.map(revision => revision.version)).toEqual([3, 2, 1])
+    expect(revisions[0].status).toBe('PUBLISHED')
+    expect(revisions[2].slug).toBe('about')
+    expect(revisions[2].fieldValues).toEqual([
+      { fieldId: titleId, fieldName: 'title', value: 'About' },
+      { fieldId: bodyId, fieldName: 'body', value: '' },
+    ])
+  })
+
+  it('restores field values as a new revision', async () => {
+    const entry = await createContentEntry(prisma, {
+      contentTypeId: contentType.id,
+      fieldValues: fieldValues('First'),
+    })
+    await updateContentEntry(prisma, entry.id, { fieldValues: fieldValues('Second', 'Body') })
+    const [, first] = await getEntryRevisions(prisma, entry.id)
+
+    const restored = await restoreEntryRevision(prisma, first.id)
+
+    const title = restored.fieldValues.find((fv: { fieldId: string }) => fv.fieldId === titleId)
+    expect(title.value).toBe('First')
+
+    const revisions = await getEntryRevisions(prisma, entry.id)
+    expect(revisions).toHaveLength(3)
+    expect(revisions[0].version).toBe(3)
+    expect(revisions[0].restoredFromId).toBe(first.id)
+  })
+
+  it('returns null when restoring an unknown revision', async () => {
+    expect(await restoreEntryRevision(prisma, 'missing')).toBeNull()
+  })
+
+  describe('REST endpoints', () => {
+    let headers: Record<string, string>
+
+    beforeEach(async () => {
+      const { key } = await createApiKey(prisma, { name: 'Editor', scopes: ['*:write'] })
+      headers = { 'x-api-key': key }
+    })
+
+    it('lists and restores revisions of an entry', async () => {
+      const created = await api.createEntry(
+        contentType.slug,
+        { fieldValues: fieldValues('One') },
+        headers
+      )
+      const entryId = created.data.entry.id
+      await api.updateEntry(contentType.slug, entryId, { fieldValues: fieldValues('Two') }, headers)
+
+      const list = await api.listRevisions(contentType.slug, entryId, headers)
+      expect(list.success).toBe(true)
+      expect(list.data.revisions).toHaveLength(2)
+
+      const oldest = list.data.revisions[1]
+      const restore = await api.restoreRevision(contentType.slug, entryId, oldest.id, headers)
+      expect(restore.success).toBe(true)
+      expect(restore.message).toBe('Entry restored from revision 1')
+
+      const after = await api.listRevisions(contentType.slug, entryId, headers)
+      expect(after.data.revisions).toHaveLength(3)
+    })
+
+    it('leaves the email of revision authors out', async () => {
+      const ada = await prisma.user.create({
+        data: { email: 'ada@example.com', name: 'Ada', password: 'hash' },
+      })
+      const entry = await createContentEntry(
+        prisma,
+        { contentTypeId: contentType.id, authorId: ada.id, fieldValues: fieldValues('One') },
+        { actor: { userId: ada.id } }
+      )
+
+      const [revision] = (await api.listRevisions(contentType.slug, entry.id, headers)).data
+        .revisions
+      expect(revision.author).toEqual({ id: ada.id, name: 'Ada' })
+      const single = await api.request(
+        'GET',
+        `/api/${contentType.slug}/${entry.id}/revisions/${revision.id}`,
+        { headers }
+      )
+      expect(single.data.revision.author).toEqual({ id: ada.id, name: 'Ada' })
+    })
+
+    it('keeps revisions from callers without read credentials', async () => {
+      const created = await api.createEntry(
+        contentType.slug,
+        { fieldValues: fieldValues('One') },
+        headers
+      )
+      const entryId = created.data.entry.id
+      const [revision] = (await api.listRevisions(contentType.slug, entryId, headers)).data
+        .revisions
+
+      expect((await api.listRevisions(contentType.slug, entryId)).error?.code).toBe(
+        'AUTHENTICATION_REQUIRED'
+      )
+      const single = await api.request(
+        'GET',
+        `/api/${contentType.slug}/${entryId}/revisions/${revision.id}`
+      )
+      expect(single.error?.code).toBe('AUTHENTICATION_REQUIRED')
+
+      const { key } = await createApiKey(prisma, { name: 'Other', scopes: ['other:read'] })
+      const otherKey = await api.listRevisions(contentType.slug, entryId, { 'x-api-key': key })
+      expect(otherKey.error?.code).toBe('AUTHORIZATION_FAILED')
+    })
+
+    it('rejects revisions that belong to another entry', async () => {
+      const a = await api.createEntry(contentType.slug, { fieldValues: fieldValues('A') }, headers)
+      const b = await api.createEntry(contentType.slug, { fieldValues: fieldValues('B') }, headers)
+      const [revisionOfB] = (await api.listRevisions(contentType.slug, b.data.entry.id, headers))
+        .data.revisions
+
+      const response = await api.restoreRevision(
+        contentType.slug,
+        a.data.entry.id,
+        revisionOfB.id,
+        headers
+      )
+
+      expect(response.success).toBe(false)
+      expect(response.error?.code).toBe('NOT_FOUND')
+    })
+
+    it('only allows POST on the restore endpoint', async () => {
+      const created = await api.createEntry(
+        contentType.slug,
+        { fieldValues: fieldValues('One') },
+        headers
+      )
+      const entryId = created.data.entry.id
+      const [revision] = (await api.listRevisions(contentType.slug, entryId, headers)).data
+        .revisions
+
+      const response = await api.request(
+        'GET',
+        `/api/${contentType.slug}/${entryId}/revisions/${revision.id}/restore`,
+        { headers }
+      )
+
+      expect(response.error?.code).toBe('METHOD_NOT_ALLOWED')
+    })
+  })
+
+  describe('diffRevision', () => {
+    it('marks fields that differ from the current values', () => {
+      const changes = diffRevision(
+        contentType,
+        {
+          id: 'rev',
+          entryId: 'entry',
+          version: 1,
+          slug: 'about',
+          status: 'DRAFT',
+          fieldValues: [{ fieldId: titleId, fieldName: 'title', value: 'Old title' }],
+          createdAt: new Date(),
+        },
+        { slug: 'about', status: 'PUBLISHED', values: { [titleId]: 'New title', [bodyId]: '' } }
+      )
+
+      expect(changes.filter(change => change.changed).map(change => change.key)).toEqual([
+        'status',
+        titleId,
+      ])
+    })
+  })
+})
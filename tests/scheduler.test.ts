@@ -0,0 +1,175 @@
+/**
+ * Tests for the scheduled publishing worker
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createInMemoryPrisma } from './helpers/in-memory-prisma'
+import {
+  createContentType,
+  createContentEntry,
+  getContentEntryById,
+} from '../app/server/content-type-utils'
+import {
+  acquireSchedulerLock,
+  releaseSchedulerLock,
+  runScheduledPublishing,
+  runScheduledPublishingWithLock,
+  getSchedulerRuns,
+  getSchedulerStatus,
+  initializeScheduler,
+  stopScheduler,
+} from '../app/server/scheduler'
+import { getEntryRevisions } from '../app/server/revision-utils'
+
+const prisma = createInMemoryPrisma()
+
+describe('Scheduled publishing', () => {
+  const now = new Date('2025-10-18T12:00:00Z')
+  const past = new Date('2025-10-18T11:00:00Z')
+  const future = new Date('2025-10-18T13:00:00Z')
+  let contentTypeId: string
+  let titleId: string
+
+  const entry = (data: Record<string, unknown>) =>
+    createContentEntry(prisma, {
+      contentTypeId,
+      fieldValues: [{ fieldId: titleId, value: 'Title' }],
+      ...data,
+    })
+
+  beforeEach(async () => {
+    prisma.$reset()
+    const contentType = await createContentType(prisma, {
+      name: 'post',
+      displayName: 'Post',
+      fields: [{ name: 'title', displayName: 'Title', fieldType: 'TEXT', required: true }],
+    })
+    contentTypeId = contentType.id
+    titleId = contentType.fields[0].id
+  })
+
+  afterEach(async () => {
+    await stopScheduler(prisma)
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('publishes due scheduled entries and sets publishedAt', async () => {
+    const due = await entry({ status: 'SCHEDULED', scheduledAt: past })
+    const later = await entry({ status: 'SCHEDULED', scheduledAt: future })
+
+    const run = await runScheduledPublishing(prisma, { now, trigger: 'interval' })
+
+    expect(run.published).toBe(1)
+    expect(run.actions).toEqual([{ entryId: due.id, contentTypeId, action: 'publish' }])
+
+    const published = await getContentEntryById(prisma, due.id)
+    expect(published.status).toBe('PUBLISHED')
+    expect(published.publishedAt).toEqual(now)
+    expect(published.scheduledAt).toBeNull()
+    expect((await getContentEntryById(prisma, later.id)).status).toBe('SCHEDULED')
+
+    const [revision] = await getEntryRevisions(prisma, due.id)
+    expect(revision.status).toBe('PUBLISHED')
+  })
+
+  it('unpublishes and archives entries whose dates have passed', async () => {
+    const expiring = await entry({ status: 'PUBLISHED', publishedAt: past, unpublishAt: past })
+    const retiring = await entry({ status: 'DRAFT', archiveAt: past })
+    const keep = await entry({ status: 'PUBLISHED', publishedAt: past, unpublishAt: future })
+
+    const run = await runScheduledPublishing(prisma, { now })
+
+    expect(run).toMatchObject({ trigger: 'manual', unpublished: 1, archived: 1, failed: 0 })
+
+    const unpublished = await getContentEntryById(prisma, expiring.id)
+    expect(unpublished.status).toBe('DRAFT')
+    expect(unpublished.publishedAt).toBeNull()
+    expect(unpublished.unpublishAt).toBeNull()
+
+    const archived = await getContentEntryById(prisma, retiring.id)
+    expect(archived.status).toBe('ARCHIVED')
+    expect(archived.archiveAt).toBeNull()
+
+    expect((await getContentEntryById(prisma, keep.id)).status).toBe('PUBLISHED')
+  })
+
+  it('records failed entries without stopping the run', async () => {
+    const broken = await entry({ status: 'SCHEDULED', scheduledAt: past })
+    const ok = await entry({ status: 'SCHEDULED', scheduledAt: past })
+    const update = prisma.contentEntry.update
+    vi.spyOn(prisma.contentEntry, 'update').mockImplementation((args: { where: { id: string } }) =>
+      args.where.id === broken.id ? Promise.reject(new Error('Database is locked')) : update(args)
+    )
+
+    const run = await runScheduledPublishing(prisma, { now })
+
+    expect(run.published).toBe(1)
+    expect(run.failed).toBe(1)
+    expect(run.actions.find(action => action.entryId === broken.id)?.error).toBe(
+      'Database is locked'
+    )
+    expect((await getContentEntryById(prisma, ok.id)).status).toBe('PUBLISHED')
+  })
+
+  it('lists runs newest first with pending schedules in the status', async () => {
+    await entry({ status: 'SCHEDULED', scheduledAt: future })
+    await runScheduledPublishing(prisma, { now: past })
+    await runScheduledPublishing(prisma, { now })
+
+    const runs = await getSchedulerRuns(prisma)
+    expect(runs.map(run => run.startedAt)).toEqual([now, past])
+
+    const status = await getSchedulerStatus(prisma)
+    expect(status.upcoming).toBe(1)
+    expect(status.lock).toBeNull()
+  })
+
+  it('starts the in-process scheduler unless it is disabled', async () => {
+    initializeScheduler(prisma)
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('SCHEDULER_ENABLED', 'false')
+    initializeScheduler(prisma)
+    expect(await getSchedulerRuns(prisma)).toEqual([])
+
+    vi.stubEnv('SCHEDULER_ENABLED', 'true')
+    initializeScheduler(prisma)
+    await vi.waitFor(async () => expect(await getSchedulerRuns(prisma)).toHaveLength(1))
+    expect((await getSchedulerStatus(prisma)).lock).not.toBeNull()
+  })
+
+  describe('lock', () => {
+    it('only lets one owner hold the lock until it expires or is released', async () => {
+      expect(await acquireSchedulerLock(prisma, 'a', 60_000)).toBe(true)
+      expect(await acquireSchedulerLock(prisma, 'b', 60_000)).toBe(false)
+      expect(await acquireSchedulerLock(prisma, 'a', 60_000)).toBe(true)
+
+      await releaseSchedulerLock(prisma, 'a')
+      expect(await acquireSchedulerLock(prisma, 'b', 60_000)).toBe(true)
+    })
+
+    it('skips single runs while the lock is held or a run is in progress', async () => {
+      await entry({ status: 'SCHEDULED', scheduledAt: past })
+      expect(await acquireSchedulerLock(prisma, 'other', 60_000)).toBe(true)
+
+      expect(await runScheduledPublishingWithLock(prisma)).toBeNull()
+      expect(await getSchedulerRuns(prisma)).toEqual([])
+
+      await releaseSchedulerLock(prisma, 'other')
+      const runs = await Promise.all([
+        runScheduledPublishingWithLock(prisma),
+        runScheduledPublishingWithLock(prisma),
+      ])
+      expect(runs.filter(run => run !== null).map(run => run!.published)).toEqual([1])
+      expect((await getSchedulerStatus(prisma)).lock).toBeNull()
+    })
+
+    it('takes over an expired lock', async () => {
+      expect(await acquireSchedulerLock(prisma, 'a', -1)).toBe(true)
+      expect(await acquireSchedulerLock(prisma, 'b', 60_000)).toBe(true)
+
+      const status = await getSchedulerStatus(prisma)
+      expect(status.lock?.ownerId).toBe('b')
+    })
+  })
+})
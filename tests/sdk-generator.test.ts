@@ -0,0 +1,214 @@
+/**
+ * Tests for the typed client SDK: generated declarations, compile errors on model changes and
+ * the runtime against the REST API
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import ts from 'typescript'
+import { prisma } from '../app/server/db'
+import { createContentType, getContentTypes } from '../app/server/content-type-utils'
+import { generateClientSdk, writeClientSdk } from '../app/server/sdk-generator'
+import { createApiKey } from '../app/server/api-keys'
+import { apiManager } from '../app/lib/api-manager'
+import { ApiResponseBuilder } from '../app/lib/api-response'
+import {
+  ApiTransport,
+  ContentTypeResource,
+  TanCmsError,
+  type FieldKind,
+} from '../app/lib/client-sdk/runtime'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+const POST_FIELDS = [
+  { name: 'title', displayName: 'Title', fieldType: 'TEXT', required: true, order: 0 },
+  { name: 'views', displayName: 'Views', fieldType: 'NUMBER', order: 1 },
+  { name: 'featured', displayName: 'Featured', fieldType: 'BOOLEAN', order: 2 },
+  { name: 'hero image', displayName: 'Hero Image', fieldType: 'MEDIA', order: 3 },
+  {
+    name: 'tags',
+    displayName: 'Tags',
+    fieldType: 'RELATION',
+    relatedType: 'tag',
+    options: { relationKind: 'manyToMany' },
+    order: 4,
+  },
+]
+
+/**
+ * Route client requests to the API manager instead of the network
+ */
+const apiFetch = (async (input: string, init: RequestInit = {}) => {
+  const url = new URL(input)
+  const response = await apiManager.handleRequest({
+    method: (init.method ?? 'GET') as 'GET',
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    body: init.body ? JSON.parse(init.body as string) : undefined,
+    headers: init.headers as Record<string, string>,
+  })
+  const status = response.success ? 200 : ApiResponseBuilder.getStatusCode(response.error!.code)
+  return new Response(JSON.stringify(response), { status })
+}) as typeof fetch
+
+/**
+ * Type-check a consumer module against a generated package
+ */
+function typeCheck(dir: string, consumer: string): string[] {
+  const file = join(dir, 'consumer.ts')
+  const host = ts.createCompilerHost({})
+  const readFile = host.readFile
+  host.readFile = name => (name === file ? consumer : readFile(name))
+  host.fileExists = name => name === file || ts.sys.fileExists(name)
+
+  const program = ts.createProgram(
+    [file],
+    {
+      strict: true,
+      noEmit: true,
+      noUnusedLocals: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+      types: [],
+    },
+    host
+  )
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))
+}
+
+describe('Client SDK generator', () => {
+  let outDir: string
+
+  beforeEach(async () => {
+    prisma.$reset()
+    await createContentType(prisma, { name: 'tag', displayName: 'Tag', fields: [] })
+    await createContentType(prisma, {
+      name: 'blog-post',
+      displayName: 'Blog Post',
+      fields: POST_FIELDS,
+    })
+    outDir = await mkdtemp(join(tmpdir(), 'tancms-sdk-'))
+  })
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true })
+  })
+
+  it('generates interfaces keyed by field name', async () => {
+    const files = generateClientSdk(await getContentTypes(prisma), '', {
+      packageName: '@acme/cms',
+    })
+    const index = files['index.ts']
+
+    expect(Object.keys(files).sort()).toEqual([
+      'README.md',
+      'index.ts',
+      'package.json',
+      'runtime.ts',
+    ])
+    expect(JSON.parse(files['package.json']).name).toBe('@acme/cms')
+    expect(index).toContain('export interface BlogPostFields {')
+    expect(index).toContain('  title: string\n')
+    expect(index).toContain('  views: number | null\n')
+    expect(index).toContain("  'hero image': MediaReference | null\n")
+    expect(index).toContain('  tags: string[]\n')
+    expect(index).toContain('  views?: number | null\n')
+    expect(index).toContain('  views?: NumberFilter\n')
+    expect(index).toContain('  blogPost: ContentTypeResource<')
+    expect(index).toContain("new ContentTypeResource(transport, 'blog-post', { title: 'string'")
+  })
+
+  it('produces a package that fails to compile when the model changes', async () => {
+    await writeClientSdk(prisma, outDir)
+    const consumer = `
+      import { createClient } from './index'
+
+      const cms = createClient({ baseUrl: 'https://cms.example.com' })
+      export async function load() {
+        const { entries } = await cms.blogPost.list({
+          filter: filter => filter.where('views', 'gte', 10).where('status', 'eq', 'PUBLISHED'),
+          sort: ['views:desc'],
+        })
+        await cms.blogPost.create({ title: 'Hello', tags: ['a'] })
+        return entries.map(entry => entry.fields.title.toUpperCase())
+      }
+    `
+    expect(typeCheck(outDir, consumer)).toEqual([])
+
+    const drift = consumer
+      .replace("where('views', 'gte', 10)", "where('views', 'gte', 'ten')")
+      .replace("create({ title: 'Hello', tags: ['a'] })", "create({ tags: ['a'] })")
+      .replace('entry.fields.title', 'entry.fields.subtitle')
+    const errors = typeCheck(outDir, drift)
+
+    expect(errors).toHaveLength(3)
+    expect(errors.join('\n')).toMatch(/subtitle/)
+    expect(errors.join('\n')).toMatch(/title/)
+  })
+
+  it('ships the runtime verbatim', async () => {
+    await writeClientSdk(prisma, outDir)
+
+    expect(await readFile(join(outDir, 'runtime.ts'), 'utf8')).toBe(
+      await readFile(new URL('../app/lib/client-sdk/runtime.ts', import.meta.url), 'utf8')
+    )
+  })
+
+  it('reads and writes entries by field name through the REST API', async () => {
+    const kinds: Record<string, FieldKind> = {
+      title: 'string',
+      views: 'number',
+      featured: 'boolean',
+      'hero image': 'media',
+      tags: 'relations',
+    }
+    type Fields = { title: string; views: number | null; featured: boolean | null }
+    type Input = { title: string; views?: number | null; featured?: boolean | null }
+    type Filter = { views?: { gte?: number } }
+    const { key } = await createApiKey(prisma, { name: 'SDK', scopes: ['blog-post:write'] })
+    const posts = new ContentTypeResource<Fields, Input, Filter, 'views'>(
+      new ApiTransport({ baseUrl: 'http://cms.test', apiKey: key, fetch: apiFetch }),
+      'blog-post',
+      kinds
+    )
+
+    const created = await posts.create({ title: 'Hello', views: 5, featured: true }, { slug: 'hi' })
+    await posts.create({ title: 'Popular', views: 50 })
+    expect(created).toMatchObject({
+      slug: 'hi',
+      status: 'DRAFT',
+      fields: { title: 'Hello', views: 5, featured: true, 'hero image': null, tags: [] },
+    })
+
+    const updated = await posts.update(created.id, { views: 6 })
+    expect(updated.fields).toMatchObject({ title: 'Hello', views: 6, featured: true })
+
+    const popular = await posts.list({
+      filter: filter => filter.where('views', 'gte', 10),
+      sort: ['views:desc'],
+    })
+    expect(popular.entries.map(entry => entry.fields.title)).toEqual(['Popular'])
+    expect(popular.pagination.total).toBe(1)
+
+    await posts.delete(created.id)
+    const error = await posts.get(created.id).catch(error => error)
+    expect(error).toBeInstanceOf(TanCmsError)
+    expect(error).toMatchObject({ status: 404, code: 'NOT_FOUND' })
+
+    await expect(posts.create({ title: '' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    })
+  })
+})
@@ -0,0 +1,294 @@
+/**
+ * Tests for full-text search: FTS query building, snippets, index sync and the search endpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import sqlite3InitModule, { type BindingSpec, type Database } from '@sqlite.org/sqlite-wasm'
+import { prisma } from '../app/server/db'
+import {
+  createContentType,
+  createContentEntry,
+  updateContentEntry,
+  deleteContentEntry,
+  deleteContentType,
+} from '../app/server/content-type-utils'
+import { buildSearchQuery, formatSnippet, searchContent } from '../app/server/search-index'
+import { api } from '../app/lib/api-manager'
+import { createApiKey } from '../app/server/api-keys'
+
+vi.mock('../app/server/db', async () => {
+  const { createInMemoryPrisma } = await import('./helpers/in-memory-prisma')
+  const prisma = createInMemoryPrisma()
+  return { prisma, default: prisma, prismaAvailable: true }
+})
+
+type FieldRow = { id: string; name: string }
+type RawStatement = { sql: string; params: unknown[] }
+
+describe('Full-text search', () => {
+  let articleTypeId: string
+  let fieldId: Record<string, string>
+
+  const createArticle = (slug: string, title: string, body: string, views = '0') =>
+    createContentEntry(prisma, {
+      contentTypeId: articleTypeId,
+      slug,
+      status: 'PUBLISHED',
+      fieldValues: [
+        { fieldId: fieldId.title, value: title },
+        { fieldId: fieldId.body, value: body },
+        { fieldId: fieldId.views, value: views },
+      ],
+    })
+
+  const indexWrites = () =>
+    (prisma.$rawStatements as RawStatement[]).filter(statement =>
+      statement.sql.startsWith('INSERT INTO "ContentSearch"')
+    )
+
+  beforeEach(async () => {
+    prisma.$reset()
+    const articleType = await createContentType(prisma, {
+      name: 'article',
+      displayName: 'Article',
+      fields: [
+        { name: 'title', displayName: 'Title', fieldType: 'TEXT' },
+        { name: 'body', displayName: 'Body', fieldType: 'TEXTAREA' },
+        { name: 'views', displayName: 'Views', fieldType: 'NUMBER' },
+      ],
+    })
+    articleTypeId = articleType.id
+    fieldId = Object.fromEntries(
+      articleType.fields.map((field: FieldRow) => [field.name, field.id])
+    )
+  })
+
+  it('builds prefix queries that cannot break the FTS syntax', () => {
+    expect(buildSearchQuery('standing desk')).toBe('"standing"* "desk"*')
+    expect(buildSearchQuery('"desk" OR lamp*')).toBe('"desk"* "OR"* "lamp"*')
+    expect(buildSearchQuery('  café  ')).toBe('"café"*')
+    expect(buildSearchQuery('*** -- "')).toBeNull()
+  })
+
+  it('escapes snippets and highlights matches', () => {
+    expect(formatSnippet('a <b>bold</b> \u0002desk\u0003 & more')).toBe(
+      'a &lt;b&gt;bold&lt;/b&gt; <mark>desk</mark> &amp; more'
+    )
+  })
+
+  it('indexes slugs and text values when entries are created and updated', async () => {
+    const entry = await createArticle('desk-guide', 'Desk guide', '<p>Pick a <em>desk</em></p>')
+
+    expect(indexWrites().at(-1)?.params).toEqual([
+      entry.id,
+      articleTypeId,
+      'desk-guide',
+      'Desk guide\nPick a  desk',
+    ])
+
+    await updateContentEntry(prisma, entry.id, {
+      fieldValues: [{ fieldId: fieldId.title, value: 'Lamp guide' }],
+    })
+
+    expect(indexWrites().at(-1)?.params[3]).toMatch(/^Lamp guide/)
+  })
+
+  it('removes deleted entries from the index', async () => {
+    const entry = await createArticle('desk-guide', 'Desk guide', 'Body')
+
+    await deleteContentEntry(prisma, entry.id)
+
+    const statements = prisma.$rawStatements as RawStatement[]
+    expect(statements.at(-1)).toEqual({
+      sql: 'DELETE FROM "ContentSearch" WHERE entryId IN (?)',
+      params: [entry.id],
+    })
+  })
+
+  it('returns ranked results with titles, content types and snippets', async () => {
+    const lamp = await createArticle('lamp', 'Desk lamp', 'Bright')
+    const desk = await createArticle('desk', 'Standing desk', 'A desk for desk work')
+    await createArticle('chair', 'Office chair', 'Comfy')
+
+    const response = await api.search('desk')
+
+    expect(response.success).toBe(true)
+    expect(response.data.results).toEqual([
+      expect.objectContaining({
+        id: desk.id,
+        title: 'Standing desk',
+        snippet: 'Standing <mark>desk</mark>\nA <mark>desk</mark> for <mark>desk</mark> work',
+        contentType: { id: articleTypeId, slug: 'article', displayName: 'Article' },
+      }),
+      expect.objectContaining({ id: lamp.id, title: 'Desk lamp' }),
+    ])
+    expect(response.data.pagination).toMatchObject({ total: 2, page: 1, hasNext: false })
+  })
+
+  it('limits searches to content types', async () => {
+    const note = await createContentType(prisma, {
+      name: 'note',
+      displayName: 'Note',
+      fields: [{ name: 'text', displayName: 'Text', fieldType: 'TEXT' }],
+    })
+    await createContentEntry(prisma, {
+      contentTypeId: note.id,
+      slug: 'desk-note',
+      status: 'PUBLISHED',
+      fieldValues: [{ fieldId: note.fields[0].id, value: 'Desk note' }],
+    })
+    await createArticle('desk', 'Standing desk', 'Tall')
+
+    const articles = await api.searchEntries('article', 'desk')
+    const notes = await api.search('desk', { types: ['note'] })
+    const missing = await api.search('desk', { types: ['unknown'] })
+
+    expect(articles.data.results.map((result: { slug: string }) => result.slug)).toEqual(['desk'])
+    expect(notes.data.results.map((result: { slug: string }) => result.slug)).toEqual(['desk-note'])
+    expect(missing.error?.code).toBe('NOT_FOUND')
+  })
+
+  it('finds unpublished entries only with read credentials', async () => {
+    await createArticle('desk', 'Standing desk', 'Tall')
+    await createContentEntry(prisma, {
+      contentTypeId: articleTypeId,
+      slug: 'desk-draft',
+      fieldValues: [{ fieldId: fieldId.title, value: 'Desk draft' }],
+    })
+    const { key } = await createApiKey(prisma, { name: 'Reader', scopes: ['article:read'] })
+    const headers = { 'x-api-key': key }
+    const slugsOf = (response: Awaited<ReturnType<typeof api.search>>) =>
+      response.data.results.map((result: { slug: string }) => result.slug).sort()
+
+    expect(slugsOf(await api.search('desk'))).toEqual(['desk'])
+    expect(slugsOf(await api.searchEntries('article', 'desk'))).toEqual(['desk'])
+    expect((await api.search('desk')).data.pagination.total).toBe(1)
+    expect(slugsOf(await api.search('desk', undefined, headers))).toEqual(['desk', 'desk-draft'])
+    expect(slugsOf(await api.searchEntries('article', 'desk', undefined, headers))).toEqual([
+      'desk',
+      'desk-draft',
+    ])
+  })
+
+  it('requires a search query', async () => {
+    const response = await api.request('GET', '/api/search', { query: { q: ' ' } })
+
+    expect(response.error?.fields).toEqual([{ path: 'q', message: 'Search query is required' }])
+  })
+
+  it('narrows list endpoints to matches in relevance order', async () => {
+    await createArticle('lamp', 'Desk lamp', 'Bright', '5')
+    await createArticle('desk', 'Standing desk', 'A desk for desk work', '9')
+    await createArticle('chair', 'Office chair', 'Comfy')
+
+    const ranked = await api.listEntries('article', { search: 'desk' })
+    const sorted = await api.listEntries('article', { search: 'desk', sort: 'views:asc' })
+    const filtered = await api.listEntries('article', {
+      search: 'desk',
+      filter: { views: { lt: 6 } },
+    })
+
+    const slugs = (response: typeof ranked) =>
+      response.data.entries.map((entry: { slug: string }) => entry.slug)
+    expect(slugs(ranked)).toEqual(['desk', 'lamp'])
+    expect(ranked.data.pagination.total).toBe(2)
+    expect(slugs(sorted)).toEqual(['lamp', 'desk'])
+    expect(slugs(filtered)).toEqual(['lamp'])
+  })
+
+  it('removes entries of deleted content types from search results', async () => {
+    await createArticle('desk', 'Standing desk', 'Tall')
+
+    await deleteContentType(prisma, articleTypeId)
+
+    expect((await api.search('desk')).data.results).toEqual([])
+  })
+
+  describe('on SQLite', () => {
+    const migration = resolve(
+      __dirname,
+      '../prisma/migrations/20251019130000_add_content_search/migration.sql'
+    )
+    let db: Database
+    let client: typeof prisma
+
+    const search = async (query: string) =>
+      (await searchContent(client, query)).results.map(result => result.slug)
+
+    beforeEach(async () => {
+      const sqlite3 = await sqlite3InitModule()
+      db = new sqlite3.oo1.DB(':memory:')
+      db.exec(readFileSync(migration, 'utf8'))
+
+      // Entries stay in memory; the statements of the search index run against the migrated table
+      client = Object.assign(Object.create(prisma), {
+        async $queryRawUnsafe(sql: string, ...bind: unknown[]) {
+          return db.selectObjects(sql, bind as BindingSpec)
+        },
+        async $executeRawUnsafe(sql: string, ...bind: unknown[]) {
+          db.exec({ sql, bind: bind as BindingSpec })
+          return db.changes()
+        },
+      })
+    })
+
+    afterEach(() => {
+      db.close()
+    })
+
+    it('indexes existing entries and ranks FTS5 matches', async () => {
+      await createArticle('cafe-guide', 'Café guide', 'Where to find <b>good</b> coffee')
+      const lamp = await createArticle('lamp', 'Desk lamp', 'Bright')
+      const desk = await createArticle('desk', 'Standing desk', 'A desk for desk work')
+
+      const { results, total } = await searchContent(client, 'desk')
+
+      expect(total).toBe(2)
+      expect(results.map(result => result.id)).toEqual([desk.id, lamp.id])
+      expect(results[0].snippet).toContain('<mark>desk</mark>')
+      expect(await search('cafe goo')).toEqual(['cafe-guide'])
+      expect(await search('coffee desk')).toEqual([])
+    })
+
+    it('keeps the table in sync with entry writes', async () => {
+      const entry = await createArticle('guide', 'Desk guide', 'Body')
+      expect(await search('desk')).toEqual(['guide'])
+
+      await updateContentEntry(client, entry.id, {
+        fieldValues: [{ fieldId: fieldId.title, value: 'Lamp guide' }],
+      })
+      expect(await search('desk')).toEqual([])
+      expect(await search('lamp')).toEqual(['guide'])
+
+      await deleteContentEntry(client, entry.id)
+      expect(await search('lamp')).toEqual([])
+    })
+
+    it('matches unpublished entries only in the listed content types', async () => {
+      const published = await createArticle('desk', 'Standing desk', 'Tall')
+      const draft = await createContentEntry(prisma, {
+        contentTypeId: articleTypeId,
+        slug: 'desk-draft',
+        fieldValues: [{ fieldId: fieldId.title, value: 'Desk draft' }],
+      })
+      db.exec('CREATE TABLE "ContentEntry" (id TEXT PRIMARY KEY, status TEXT NOT NULL)')
+      for (const entry of [published, draft]) {
+        db.exec({
+          sql: 'INSERT INTO "ContentEntry" (id, status) VALUES (?, ?)',
+          bind: [entry.id, entry.status],
+        })
+      }
+      const slugs = async (unpublishedTypeIds?: string[]) =>
+        (await searchContent(client, 'desk', { unpublishedTypeIds })).results
+          .map(result => result.slug)
+          .sort()
+
+      expect(await slugs([])).toEqual(['desk'])
+      expect(await slugs(['other'])).toEqual(['desk'])
+      expect(await slugs([articleTypeId])).toEqual(['desk', 'desk-draft'])
+      expect(await slugs()).toEqual(['desk', 'desk-draft'])
+    })
+  })
+})